@@ -5,6 +5,7 @@ import { useAuth } from '@/lib/AuthContext';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { getAllBrokers } from '@/lib/brokerConfig';
+import { ApiKeyRateLimits, ApiKeyRejection, DEFAULT_RATE_LIMITS } from '@/lib/types/apikey';
 
 interface ApiKey {
   id: string;
@@ -15,6 +16,8 @@ interface ApiKey {
   createdAt: any;
   lastUsedAt?: any;
   usageCount: number;
+  ipWhitelist?: string[];
+  rateLimits?: ApiKeyRateLimits;
 }
 
 export default function ApiKeysPage() {
@@ -32,6 +35,16 @@ export default function ApiKeysPage() {
   const [createdKey, setCreatedKey] = useState<{ key: string; secret: string } | null>(null);
   const [isCreating, setIsCreating] = useState(false);
 
+  // Security settings (IP whitelist + rate limits) for one key at a time
+  const [editingKeyId, setEditingKeyId] = useState<string | null>(null);
+  const [editWhitelist, setEditWhitelist] = useState('');
+  const [editRateLimits, setEditRateLimits] = useState<ApiKeyRateLimits>(DEFAULT_RATE_LIMITS);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Recent rejections, loaded on demand per key
+  const [rejectionsKeyId, setRejectionsKeyId] = useState<string | null>(null);
+  const [rejections, setRejections] = useState<ApiKeyRejection[]>([]);
+
   const allBrokers = getAllBrokers();
 
   useEffect(() => {
@@ -166,6 +179,77 @@ export default function ApiKeysPage() {
     }
   };
 
+  const openSecurityEditor = (key: ApiKey) => {
+    if (editingKeyId === key.id) {
+      setEditingKeyId(null);
+      return;
+    }
+    setEditingKeyId(key.id);
+    setEditWhitelist((key.ipWhitelist || []).join('\n'));
+    setEditRateLimits(key.rateLimits || DEFAULT_RATE_LIMITS);
+  };
+
+  const handleSaveSecurity = async (keyId: string) => {
+    setError('');
+    setSuccess('');
+    setIsSaving(true);
+
+    try {
+      const idToken = await user?.getIdToken();
+      const response = await fetch('/api/apikeys/update', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          keyId,
+          ipWhitelist: editWhitelist.split(/[\s,]+/).filter(Boolean),
+          rateLimits: editRateLimits,
+        }),
+      });
+
+      if (response.ok) {
+        setSuccess('API key security settings saved');
+        setEditingKeyId(null);
+        fetchApiKeys();
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to update API key');
+      }
+    } catch (err: any) {
+      setError(err.message || 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleRejections = async (keyId: string) => {
+    if (rejectionsKeyId === keyId) {
+      setRejectionsKeyId(null);
+      return;
+    }
+
+    try {
+      const idToken = await user?.getIdToken();
+      const response = await fetch(`/api/apikeys/rejections?keyId=${keyId}`, {
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setRejections(data.rejections || []);
+        setRejectionsKeyId(keyId);
+      } else {
+        setError(data.error || 'Failed to load rejections');
+      }
+    } catch (err: any) {
+      setError(err.message || 'An error occurred');
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     setSuccess('Copied to clipboard!');
@@ -348,8 +432,30 @@ export default function ApiKeysPage() {
                         Used: {key.usageCount} times
                         {key.lastUsedAt && ` • Last used: ${new Date(key.lastUsedAt._seconds * 1000).toLocaleDateString()}`}
                       </div>
+                      <div className="mt-1 text-sm text-gray-600">
+                        <span className="font-medium">Allowed IPs:</span>{' '}
+                        {key.ipWhitelist && key.ipWhitelist.length > 0 ? key.ipWhitelist.join(', ') : 'Any'}
+                        {' • '}
+                        <span className="font-medium">Order limits:</span>{' '}
+                        {(key.rateLimits || DEFAULT_RATE_LIMITS).ordersPerSecond}/sec,{' '}
+                        {(key.rateLimits || DEFAULT_RATE_LIMITS).ordersPerMinute}/min
+                      </div>
                     </div>
                     <div className="flex gap-2">
+                      <button
+                        onClick={() => toggleRejections(key.id)}
+                        className="rounded bg-gray-100 px-4 py-2 text-sm text-gray-700 hover:bg-gray-200 transition"
+                      >
+                        {rejectionsKeyId === key.id ? 'Hide Rejections' : 'Rejections'}
+                      </button>
+                      {key.status === 'active' && (
+                        <button
+                          onClick={() => openSecurityEditor(key)}
+                          className="rounded bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 transition"
+                        >
+                          {editingKeyId === key.id ? 'Close' : 'Security'}
+                        </button>
+                      )}
                       {key.status === 'active' ? (
                         <button
                           onClick={() => handleRevokeKey(key.id)}
@@ -367,6 +473,93 @@ export default function ApiKeysPage() {
                       )}
                     </div>
                   </div>
+
+                  {/* Security settings editor */}
+                  {editingKeyId === key.id && (
+                    <div className="mt-4 rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          IP Whitelist (one address or CIDR range per line, empty = any IP)
+                        </label>
+                        <textarea
+                          value={editWhitelist}
+                          onChange={(e) => setEditWhitelist(e.target.value)}
+                          rows={3}
+                          className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 font-mono text-sm text-gray-900 focus:border-blue-500 focus:outline-none"
+                          placeholder={'203.0.113.7\n10.0.0.0/24'}
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">Orders per second</label>
+                          <input
+                            type="number"
+                            min="1"
+                            value={editRateLimits.ordersPerSecond}
+                            onChange={(e) => setEditRateLimits({ ...editRateLimits, ordersPerSecond: parseInt(e.target.value) || 0 })}
+                            className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">Orders per minute</label>
+                          <input
+                            type="number"
+                            min="1"
+                            value={editRateLimits.ordersPerMinute}
+                            onChange={(e) => setEditRateLimits({ ...editRateLimits, ordersPerMinute: parseInt(e.target.value) || 0 })}
+                            className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                          />
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleSaveSecurity(key.id)}
+                        disabled={isSaving}
+                        className="rounded-lg bg-blue-600 px-6 py-2 text-sm font-medium text-white transition hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {isSaving ? 'Saving...' : 'Save Security Settings'}
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Recent rejections */}
+                  {rejectionsKeyId === key.id && (
+                    <div className="mt-4 rounded-lg border border-gray-200">
+                      {rejections.length === 0 ? (
+                        <div className="px-4 py-3 text-sm text-gray-500">No rejected requests</div>
+                      ) : (
+                        <table className="w-full text-sm">
+                          <thead className="bg-gray-50 text-left text-gray-700">
+                            <tr>
+                              <th className="px-4 py-2">Time</th>
+                              <th className="px-4 py-2">Reason</th>
+                              <th className="px-4 py-2">IP</th>
+                              <th className="px-4 py-2">Endpoint</th>
+                              <th className="px-4 py-2">Message</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-200">
+                            {rejections.map((rejection) => (
+                              <tr key={rejection.id}>
+                                <td className="px-4 py-2 text-gray-500">{new Date(rejection.createdAt).toLocaleString()}</td>
+                                <td className="px-4 py-2">
+                                  <span className={`rounded-full px-2 py-1 text-xs font-medium ${
+                                    rejection.reason === 'rate_limited'
+                                      ? 'bg-yellow-100 text-yellow-800'
+                                      : 'bg-red-100 text-red-800'
+                                  }`}>
+                                    {rejection.reason === 'rate_limited' ? 'Rate limited' : 'IP not allowed'}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-2 font-mono text-gray-700">{rejection.ip || '-'}</td>
+                                <td className="px-4 py-2 font-mono text-gray-700">{rejection.endpoint}</td>
+                                <td className="px-4 py-2 text-gray-700">{rejection.message}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))
             )}
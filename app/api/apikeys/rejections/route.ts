@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { getApiKeyRejections } from '@/lib/apiKeyUtils';
+import { ListApiKeyRejectionsResponse } from '@/lib/types/apikey';
+
+/**
+ * GET /api/apikeys/rejections?keyId=...
+ * Recent requests refused by the key's IP whitelist or rate limits
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    const keyId = request.nextUrl.searchParams.get('keyId');
+
+    // Validate request
+    if (!keyId) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: keyId' },
+        { status: 400 }
+      );
+    }
+
+    const rejections = await getApiKeyRejections(userId, keyId);
+
+    if (!rejections) {
+      return NextResponse.json(
+        { error: 'API key not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    const response: ListApiKeyRejectionsResponse = {
+      rejections,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Error listing API key rejections:', error);
+    return NextResponse.json(
+      { error: 'Failed to list API key rejections' },
+      { status: 500 }
+    );
+  }
+}
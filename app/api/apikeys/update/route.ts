@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { updateApiKeySecurity } from '@/lib/apiKeyUtils';
+import { validateWhitelist } from '@/lib/ipWhitelist';
+import { resetRateLimit, validateRateLimits } from '@/lib/rateLimiter';
+import { ApiKeyRateLimits, UpdateApiKeyRequest } from '@/lib/types/apikey';
+
+/**
+ * POST /api/apikeys/update
+ * Update an API key's IP whitelist and/or order rate limits
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    const body: UpdateApiKeyRequest = await request.json();
+
+    // Validate request
+    if (!body.keyId) {
+      return NextResponse.json(
+        { error: 'Missing required field: keyId' },
+        { status: 400 }
+      );
+    }
+
+    if (body.ipWhitelist === undefined && body.rateLimits === undefined) {
+      return NextResponse.json(
+        { error: 'Nothing to update: provide ipWhitelist and/or rateLimits' },
+        { status: 400 }
+      );
+    }
+
+    let ipWhitelist: string[] | undefined;
+    if (body.ipWhitelist !== undefined) {
+      const whitelistResult = validateWhitelist(body.ipWhitelist);
+      if (!whitelistResult.success) {
+        return NextResponse.json({ error: whitelistResult.error }, { status: 400 });
+      }
+      ipWhitelist = whitelistResult.whitelist;
+    }
+
+    let rateLimits: ApiKeyRateLimits | undefined;
+    if (body.rateLimits !== undefined) {
+      const rateLimitResult = validateRateLimits(body.rateLimits);
+      if (!rateLimitResult.success) {
+        return NextResponse.json({ error: rateLimitResult.error }, { status: 400 });
+      }
+      rateLimits = rateLimitResult.rateLimits;
+    }
+
+    const success = await updateApiKeySecurity(userId, body.keyId, { ipWhitelist, rateLimits });
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'API key not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    // Start the key's buckets fresh under the new limits
+    if (rateLimits) {
+      resetRateLimit(body.keyId);
+    }
+
+    return NextResponse.json(
+      { message: 'API key updated successfully', ipWhitelist, rateLimits },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error updating API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to update API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,12 @@
 /**
  * POST /api/broker/angel/symbols/search
  * Search for symbols on Angel Broker
- * Returns symboltoken for given symbol
+ * Returns the symboltoken for an OpenAlgo or Angel symbol from the instrument master
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { adminAuth } from '@/lib/firebaseAdmin';
-import { getCachedBrokerConfig } from '@/lib/brokerConfigUtils';
-import { decryptData } from '@/lib/encryptionUtils';
+import { findInstrument, loadInstruments } from '@/lib/instrumentMaster';
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,9 +22,8 @@ export async function POST(request: NextRequest) {
     const idToken = authHeader.substring(7);
 
     // Verify the token
-    let decodedToken;
     try {
-      decodedToken = await adminAuth.verifyIdToken(idToken);
+      await adminAuth.verifyIdToken(idToken);
     } catch (error) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -33,7 +31,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const userId = decodedToken.uid;
     const { symbol, exchange = 'NSE' } = await request.json();
 
     if (!symbol) {
@@ -43,42 +40,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get Angel broker config
-    const configData = await getCachedBrokerConfig(userId, 'angel');
-
-    if (!configData) {
-      return NextResponse.json(
-        { error: 'Angel Broker not configured' },
-        { status: 404 }
-      );
-    }
-
-    if (!configData?.accessToken || configData.status !== 'active') {
-      return NextResponse.json(
-        { error: 'Angel Broker not authenticated' },
-        { status: 401 }
-      );
-    }
-
-    // Decrypt credentials
-    let jwtToken: string;
-    let apiKey: string;
-
-    try {
-      jwtToken = decryptData(configData.accessToken);
-      apiKey = decryptData(configData.apiKey);
-    } catch (error) {
+    if (!(await loadInstruments('angel'))) {
       return NextResponse.json(
-        { error: 'Failed to decrypt credentials' },
-        { status: 401 }
+        { error: 'Angel scrip master is unavailable, try again shortly' },
+        { status: 503 }
       );
     }
 
-    // Import Angel client
-    const { searchScrip } = await import('@/lib/angelClient');
-
-    // Search for symbol
-    const result = await searchScrip(jwtToken, apiKey, symbol, exchange);
+    const result = findInstrument(symbol, exchange)?.brokers.angel;
 
     if (!result) {
       return NextResponse.json(
@@ -86,7 +55,7 @@ export async function POST(request: NextRequest) {
           success: false,
           message: `Could not find symbol ${symbol} on ${exchange}. Please verify the symbol is correct or try different exchange.`,
           suggestions: {
-            checkFormat: 'Try with suffix like -EQ for equity (e.g., RELIANCE-EQ)',
+            checkFormat: 'Use the OpenAlgo symbol (e.g., RELIANCE, NIFTY28MAR2420000CE)',
             tryExchanges: ['NSE', 'BSE', 'NFO', 'MCX'],
             fallback: 'You can manually enter the symboltoken if you know it',
           },
@@ -99,9 +68,9 @@ export async function POST(request: NextRequest) {
       success: true,
       symbol,
       exchange,
-      symboltoken: result.symboltoken,
-      trading_symbol: result.trading_symbol,
-      message: `Found symboltoken ${result.symboltoken} for ${result.trading_symbol}`,
+      symboltoken: result.token,
+      trading_symbol: result.symbol,
+      message: `Found symboltoken ${result.token} for ${result.symbol}`,
     });
   } catch (error: any) {
     console.error('Error searching symbol:', error);
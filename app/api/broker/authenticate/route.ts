@@ -3,6 +3,8 @@ import { adminDb, adminAuth } from '@/lib/firebaseAdmin';
 import { authenticateZerodha } from '@/lib/zerodhaClient';
 import { authenticateAngel } from '@/lib/angelClient';
 import { authenticateFyers } from '@/lib/fyersClient';
+import { authenticateDhan } from '@/lib/dhanClient';
+import { authenticateUpstox } from '@/lib/upstoxClient';
 import { getCachedBrokerConfig, invalidateBrokerConfig } from '@/lib/brokerConfigUtils';
 import { encryptData, decryptData } from '@/lib/encryptionUtils';
 
@@ -14,6 +16,8 @@ import { encryptData, decryptData } from '@/lib/encryptionUtils';
  * Requires: Authorization header with Firebase ID token
  * Body (Zerodha): { broker: "zerodha", requestToken: "token123" }
  * Body (Angel): { broker: "angel", clientCode: "ABC123", pin: "1234", totp: "123456" }
+ * Body (Dhan): { broker: "dhan", accessToken: "eyJ..." } (token generated on web.dhan.co)
+ * Body (Upstox): { broker: "upstox", authCode: "code123", redirectUri: "https://app/callback" }
  */
 export async function POST(request: NextRequest) {
   try {
@@ -443,6 +447,169 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Handle Dhan authentication
+    // Dhan has no OAuth exchange: the user pastes an access token, which is validated against /profile
+    else if (broker === 'dhan') {
+      const { accessToken } = body;
+
+      if (!accessToken) {
+        return NextResponse.json(
+          { error: 'Missing required field for Dhan: accessToken' },
+          { status: 400 }
+        );
+      }
+
+      // The Dhan client ID is stored as the API key
+      let clientId: string;
+      try {
+        clientId = decryptData(configData.apiKey);
+      } catch (error) {
+        console.error('Failed to decrypt credentials:', error);
+        return NextResponse.json(
+          { error: 'Failed to decrypt broker credentials. Please reconfigure your broker.' },
+          { status: 400 }
+        );
+      }
+
+      let tokenValidity: string | undefined;
+      try {
+        const profile = await authenticateDhan(accessToken);
+        if (profile.dhanClientId !== clientId) {
+          return NextResponse.json(
+            { error: `Access token belongs to Dhan client ${profile.dhanClientId}, not the configured client ID` },
+            { status: 400 }
+          );
+        }
+        tokenValidity = profile.tokenValidity;
+      } catch (error: any) {
+        return NextResponse.json(
+          { error: error.message || 'Failed to validate Dhan access token' },
+          { status: 400 }
+        );
+      }
+
+      // Update Firestore with access token
+      const userRef = adminDb.collection('users').doc(userId);
+      const brokerConfigRef = userRef.collection('brokerConfig').doc(broker);
+
+      console.log(`[AUTH-DHAN] Saving access token to Firestore for user=${userId}`);
+      try {
+        await brokerConfigRef.set({
+          accessToken: encryptData(accessToken),
+          status: 'active',
+          lastAuthenticated: new Date().toISOString(),
+          ...(tokenValidity ? { tokenValidity } : {}),
+        }, { merge: true });
+        console.log(`[AUTH-DHAN] Successfully saved access token`);
+
+        // Validate the write by reading it back immediately
+        const validationDoc = await brokerConfigRef.get();
+        if (!validationDoc.exists) {
+          console.error(`[AUTH-DHAN] ❌ Write failed! Document does not exist after write`);
+          return NextResponse.json(
+            { error: 'Write verification failed. Document was not created.' },
+            { status: 500 }
+          );
+        }
+      } catch (firebaseError) {
+        console.error('Failed to save access token to Firestore:', firebaseError);
+        return NextResponse.json(
+          { error: 'Failed to save authentication token. Please try again.' },
+          { status: 500 }
+        );
+      }
+
+      invalidateBrokerConfig(userId, broker);
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: 'Authentication successful',
+          broker,
+          status: 'active',
+        },
+        { status: 200 }
+      );
+    }
+
+    // Handle Upstox authentication
+    // Exchanges the OAuth authorization code; redirectUri must match the one used for login
+    else if (broker === 'upstox') {
+      const { authCode, redirectUri } = body;
+
+      if (!authCode || !redirectUri) {
+        return NextResponse.json(
+          { error: 'Missing required fields for Upstox: authCode, redirectUri' },
+          { status: 400 }
+        );
+      }
+
+      let apiKey: string;
+      let apiSecret: string;
+      try {
+        apiKey = decryptData(configData.apiKey);
+        apiSecret = decryptData(configData.apiSecret);
+      } catch (error) {
+        console.error('Failed to decrypt credentials:', error);
+        return NextResponse.json(
+          { error: 'Failed to decrypt broker credentials. Please reconfigure your broker.' },
+          { status: 400 }
+        );
+      }
+
+      let accessToken: string;
+      try {
+        accessToken = await authenticateUpstox(authCode, apiKey, apiSecret, redirectUri);
+      } catch (error: any) {
+        return NextResponse.json(
+          { error: error.message || 'Failed to authenticate with Upstox' },
+          { status: 400 }
+        );
+      }
+
+      // Update Firestore with access token
+      const userRef = adminDb.collection('users').doc(userId);
+      const brokerConfigRef = userRef.collection('brokerConfig').doc(broker);
+
+      console.log(`[AUTH-UPSTOX] Saving access token to Firestore for user=${userId}`);
+      try {
+        await brokerConfigRef.set({
+          accessToken: encryptData(accessToken),
+          status: 'active',
+          lastAuthenticated: new Date().toISOString(),
+        }, { merge: true });
+        console.log(`[AUTH-UPSTOX] Successfully saved access token`);
+
+        // Validate the write by reading it back immediately
+        const validationDoc = await brokerConfigRef.get();
+        if (!validationDoc.exists) {
+          console.error(`[AUTH-UPSTOX] ❌ Write failed! Document does not exist after write`);
+          return NextResponse.json(
+            { error: 'Write verification failed. Document was not created.' },
+            { status: 500 }
+          );
+        }
+      } catch (firebaseError) {
+        console.error('Failed to save access token to Firestore:', firebaseError);
+        return NextResponse.json(
+          { error: 'Failed to save authentication token. Please try again.' },
+          { status: 500 }
+        );
+      }
+
+      invalidateBrokerConfig(userId, broker);
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: 'Authentication successful',
+          broker,
+          status: 'active',
+        },
+        { status: 200 }
+      );
+    }
+
     // Unknown broker
     else {
       return NextResponse.json(
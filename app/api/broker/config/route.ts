@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { adminDb, adminAuth } from '@/lib/firebaseAdmin';
 import { getCachedBrokerConfig, invalidateBrokerConfig } from '@/lib/brokerConfigUtils';
 import { encryptData, decryptData } from '@/lib/encryptionUtils';
+import { getBrokerConfig } from '@/lib/brokerConfig';
 
 /**
  * POST /api/broker/config
@@ -35,9 +36,12 @@ export async function POST(request: NextRequest) {
     const userId = decodedToken.uid;
     const { broker, apiKey, apiSecret, pin } = await request.json();
 
-    if (!broker || !apiKey || !apiSecret) {
+    // Brokers without an OAuth secret (Dhan) only need the API key / client ID
+    const requiresApiSecret = getBrokerConfig(broker)?.requiresApiSecret ?? true;
+
+    if (!broker || !apiKey || (requiresApiSecret && !apiSecret)) {
       return NextResponse.json(
-        { error: 'Missing required fields: broker, apiKey, apiSecret' },
+        { error: `Missing required fields: broker, apiKey${requiresApiSecret ? ', apiSecret' : ''}` },
         { status: 400 }
       );
     }
@@ -49,7 +53,7 @@ export async function POST(request: NextRequest) {
     const configData: any = {
       broker,
       apiKey: encryptData(apiKey),
-      apiSecret: encryptData(apiSecret),
+      ...(apiSecret && { apiSecret: encryptData(apiSecret) }),
       status: 'inactive',
       createdAt: new Date().toISOString(),
       lastUpdated: new Date().toISOString(),
@@ -138,7 +142,7 @@ export async function GET(request: NextRequest) {
       status: data.status,
       lastUpdated: data.lastUpdated,
       lastAuthenticated: data.lastAuthenticated || null,
-      credentialsExist: !!data.apiKey && !!data.apiSecret,
+      credentialsExist: !!data.apiKey && (!!data.apiSecret || getBrokerConfig(broker)?.requiresApiSecret === false),
     };
 
     console.log(`[CONFIG-GET] Returning response:`, response);
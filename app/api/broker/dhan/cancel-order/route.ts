@@ -0,0 +1,31 @@
+/**
+ * POST /api/broker/dhan/cancel-order
+ * Dhan order cancellation
+ * Internal endpoint - called via callInternalBrokerEndpoint (v1 routes use the adapter directly)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dhanAdapter } from '@/lib/brokers/dhanAdapter';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, orderid } = body;
+
+    if (!userId || !orderid) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing required fields: userId, orderid' },
+        { status: 400 }
+      );
+    }
+
+    const { data, status } = await dhanAdapter.cancelOrder(userId, orderid);
+    return NextResponse.json(data, { status });
+  } catch (error: any) {
+    console.error('Error in Dhan cancel-order:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
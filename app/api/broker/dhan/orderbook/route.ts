@@ -0,0 +1,31 @@
+/**
+ * POST /api/broker/dhan/orderbook
+ * Get Dhan order book in OpenAlgo format
+ * Internal endpoint - called via callInternalBrokerEndpoint (v1 routes use the adapter directly)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dhanAdapter } from '@/lib/brokers/dhanAdapter';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId } = body;
+
+    if (!userId) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing userId' },
+        { status: 400 }
+      );
+    }
+
+    const { data, status } = await dhanAdapter.orderbook(userId);
+    return NextResponse.json(data, { status });
+  } catch (error: any) {
+    console.error('Error in Dhan orderbook:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
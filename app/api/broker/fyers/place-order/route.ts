@@ -3,7 +3,7 @@ import { adminDb } from '@/lib/firebaseAdmin';
 import { placeFyersOrder } from '@/lib/fyersClient';
 import { getCachedBrokerConfig } from '@/lib/brokerConfigUtils';
 import { decryptData } from '@/lib/encryptionUtils';
-import { convertToBrokerSymbol } from '@/lib/symbolMapping';
+import { resolveBrokerInstrument } from '@/lib/instrumentMaster';
 
 /**
  * POST /api/broker/fyers/place-order
@@ -73,7 +73,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Convert symbol to Fyers format (e.g., "LMW" -> "NSE:LMW-EQ")
-    const fyersSymbol = convertToBrokerSymbol(symbol, 'fyers');
+    const fyersSymbol = (await resolveBrokerInstrument('fyers', symbol)).symbol;
     console.log('[FYERS-PLACE-ORDER] Placing order for user:', userId, 'symbol:', symbol, '-> Fyers:', fyersSymbol);
 
     // Place the order
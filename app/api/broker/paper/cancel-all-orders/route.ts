@@ -0,0 +1,39 @@
+/**
+ * POST /api/broker/paper/cancel-all-orders
+ * Cancel all resting paper orders
+ * Internal endpoint - called by /api/v1/cancelallorder router
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelAllPaperOrders } from '@/lib/paperClient';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId } = body;
+
+    if (!userId) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing userId' },
+        { status: 400 }
+      );
+    }
+
+    const cancelled = await cancelAllPaperOrders(userId);
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        message: `Cancelled ${cancelled.length} orders`,
+        data: { cancelled: cancelled.length, failed: 0, total: cancelled.length, orderids: cancelled },
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error in paper cancel-all-orders:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * POST /api/broker/paper/cancel-order
+ * Cancel a resting paper order
+ * Internal endpoint - called by /api/v1/cancelorder router
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelPaperOrder } from '@/lib/paperClient';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, orderid } = body;
+
+    if (!userId || !orderid) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing required fields: userId, orderid' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await cancelPaperOrder(userId, orderid);
+
+      return NextResponse.json(
+        { status: 'success', orderid },
+        { status: 200 }
+      );
+    } catch (error: any) {
+      return NextResponse.json(
+        { status: 'error', message: error.message || 'Failed to cancel paper order' },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error('Error in paper cancel-order:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * POST /api/broker/paper/close-position
+ * Close a paper position at market
+ * Internal endpoint - called by /api/v1/closeposition router
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { closePaperPosition } from '@/lib/paperClient';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, symbol, exchange } = body;
+    // v1 router sends 'producttype' for OpenAlgo-style brokers
+    const product = body.product || body.producttype;
+
+    if (!userId || !symbol || !exchange || !product) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const order = await closePaperPosition(userId, symbol, exchange, product);
+
+      if (!order) {
+        return NextResponse.json(
+          { status: 'success', message: 'No open position to close' },
+          { status: 200 }
+        );
+      }
+
+      if (order.status === 'rejected') {
+        return NextResponse.json(
+          { status: 'error', message: order.rejection_reason || 'Close order rejected' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          status: 'success',
+          message: 'Position closed successfully',
+          orderid: order.orderid,
+        },
+        { status: 200 }
+      );
+    } catch (error: any) {
+      return NextResponse.json(
+        { status: 'error', message: error.message || 'Failed to close position' },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error('Error in paper close-position:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * POST /api/broker/paper/modify-order
+ * Modify a resting paper order
+ * Internal endpoint - called by /api/v1/modifyorder router
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { modifyPaperOrder } from '@/lib/paperClient';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, orderid, quantity, pricetype, price, trigger_price } = body;
+
+    if (!userId || !orderid) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing required fields: userId, orderid' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const order = await modifyPaperOrder(userId, orderid, { quantity, pricetype, price, trigger_price });
+
+      return NextResponse.json(
+        { status: 'success', orderid: order.orderid },
+        { status: 200 }
+      );
+    } catch (error: any) {
+      return NextResponse.json(
+        { status: 'error', message: error.message || 'Failed to modify paper order' },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error('Error in paper modify-order:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
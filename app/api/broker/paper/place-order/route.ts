@@ -0,0 +1,96 @@
+/**
+ * POST /api/broker/paper/place-order
+ * Paper-trading order placement (virtual fills, no real broker)
+ * Internal endpoint - called by /api/v1/placeorder router
+ *
+ * Body: {
+ *   userId: string,
+ *   symbol: string,
+ *   exchange: string,
+ *   action: 'BUY' | 'SELL',
+ *   quantity: number,
+ *   product?: string,
+ *   pricetype?: string,
+ *   price?: number,
+ *   trigger_price?: number,
+ *   strategy?: string
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { placePaperOrder } from '@/lib/paperClient';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      userId,
+      symbol,
+      exchange,
+      action,
+      quantity,
+      product = 'MIS',
+      pricetype = 'MARKET',
+      price = 0,
+      trigger_price = 0,
+      strategy,
+    } = body;
+
+    if (!userId || !symbol || !exchange || !action || !quantity) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'Missing required fields: userId, symbol, exchange, action, quantity',
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const order = await placePaperOrder(userId, {
+        symbol,
+        exchange,
+        action,
+        quantity,
+        product,
+        pricetype,
+        price,
+        trigger_price,
+        strategy,
+      });
+
+      if (order.status === 'rejected') {
+        return NextResponse.json(
+          {
+            status: 'error',
+            message: order.rejection_reason || 'Order rejected',
+            orderid: order.orderid,
+          },
+          { status: 400 }
+        );
+      }
+
+      console.log(`[PAPER-PLACE-ORDER] ${order.orderid} ${action} ${quantity} ${exchange}:${symbol} -> ${order.status}`);
+
+      return NextResponse.json(
+        {
+          status: 'success',
+          order_id: order.orderid,
+          orderid: order.orderid,
+        },
+        { status: 200 }
+      );
+    } catch (error: any) {
+      return NextResponse.json(
+        { status: 'error', message: error.message || 'Failed to place paper order' },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error('Error in paper place-order:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
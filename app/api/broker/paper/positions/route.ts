@@ -0,0 +1,35 @@
+/**
+ * POST /api/broker/paper/positions
+ * Get paper positions
+ * Internal endpoint - called by /api/v1/positionbook router
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaperPositions } from '@/lib/paperClient';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId } = body;
+
+    if (!userId) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing userId' },
+        { status: 400 }
+      );
+    }
+
+    const data = await getPaperPositions(userId);
+
+    return NextResponse.json(
+      { status: 'success', data },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error in paper positions:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
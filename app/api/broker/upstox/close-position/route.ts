@@ -0,0 +1,33 @@
+/**
+ * POST /api/broker/upstox/close-position
+ * Close a Upstox position at market
+ * Internal endpoint - called via callInternalBrokerEndpoint (v1 routes use the adapter directly)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { upstoxAdapter } from '@/lib/brokers/upstoxAdapter';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, symbol, exchange } = body;
+    // v1 router sends 'producttype' for OpenAlgo-style brokers
+    const product = body.product || body.producttype;
+
+    if (!userId || !symbol || !exchange || !product) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const { data, status } = await upstoxAdapter.closePosition(userId, symbol, exchange, product);
+    return NextResponse.json(data, { status });
+  } catch (error: any) {
+    console.error('Error in Upstox close-position:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * POST /api/broker/upstox/holdings
+ * Get Upstox holdings in OpenAlgo format
+ * Internal endpoint - called via callInternalBrokerEndpoint (v1 routes use the adapter directly)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { upstoxAdapter } from '@/lib/brokers/upstoxAdapter';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId } = body;
+
+    if (!userId) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing userId' },
+        { status: 400 }
+      );
+    }
+
+    const { data, status } = await upstoxAdapter.holdings(userId);
+    return NextResponse.json(data, { status });
+  } catch (error: any) {
+    console.error('Error in Upstox holdings:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * POST /api/broker/upstox/modify-order
+ * Upstox order modification
+ * Internal endpoint - called via callInternalBrokerEndpoint (v1 routes use the adapter directly)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { upstoxAdapter } from '@/lib/brokers/upstoxAdapter';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, orderid, quantity, price = 0, trigger_price = 0, disclosed_quantity = 0 } = body;
+    // Dashboard modify sends Kite-style 'order_type'
+    const pricetype = body.pricetype || body.order_type;
+
+    if (!userId || !orderid || !quantity) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing required fields: userId, orderid, quantity' },
+        { status: 400 }
+      );
+    }
+
+    const { data, status } = await upstoxAdapter.modifyOrder(userId, {
+      orderid,
+      quantity,
+      price,
+      trigger_price,
+      disclosed_quantity,
+      pricetype,
+    });
+    return NextResponse.json(data, { status });
+  } catch (error: any) {
+    console.error('Error in Upstox modify-order:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
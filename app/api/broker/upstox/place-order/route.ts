@@ -0,0 +1,73 @@
+/**
+ * POST /api/broker/upstox/place-order
+ * Upstox order placement
+ * Internal endpoint - called via callInternalBrokerEndpoint (v1 routes use the adapter directly)
+ *
+ * Body: {
+ *   userId: string,
+ *   symbol: string,
+ *   exchange: string,
+ *   action: 'BUY' | 'SELL',
+ *   quantity: number,
+ *   product?: string,
+ *   pricetype?: string,
+ *   price?: number,
+ *   trigger_price?: number,
+ *   disclosed_quantity?: number,
+ *   token?: string,            // Upstox instrument key (looked up when omitted)
+ *   strategy?: string
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { upstoxAdapter } from '@/lib/brokers/upstoxAdapter';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      userId,
+      symbol,
+      exchange,
+      action,
+      quantity,
+      product = 'MIS',
+      pricetype = 'MARKET',
+      price = 0,
+      trigger_price = 0,
+      disclosed_quantity = 0,
+      strategy,
+    } = body;
+
+    if (!userId || !symbol || !exchange || !action || !quantity) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'Missing required fields: userId, symbol, exchange, action, quantity',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data, status } = await upstoxAdapter.placeOrder(userId, {
+      symbol,
+      exchange,
+      action,
+      quantity,
+      product,
+      pricetype,
+      price,
+      trigger_price,
+      disclosed_quantity,
+      token: body.token || body.symboltoken,
+      strategy,
+    });
+    return NextResponse.json(data, { status });
+  } catch (error: any) {
+    console.error('Error in Upstox place-order:', error);
+    return NextResponse.json(
+      { status: 'error', message: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
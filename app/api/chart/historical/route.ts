@@ -3,34 +3,24 @@
  * Fetch historical OHLC data from Zerodha or Fyers
  * Auto-detects which broker the user is authenticated with
  *
+ * Served from the local OHLC store (lib/ohlcStore.ts): only trading days not yet stored,
+ * and today, are fetched from the broker, in chunks within its per-request range limits
+ *
  * Query params:
- * - symbol: Trading symbol (e.g., RELIANCE, NIFTY50, NIFTYJANFUT)
- * - interval: minute, 3minute, 5minute, 10minute, 15minute, 30minute, 60minute, day
+ * - symbol: Trading symbol (e.g., RELIANCE, NIFTY50, NIFTY26JANFUT), or a continuous future
+ *   (NIFTY-I near month, NIFTY-II next month) stitched across expiries (lib/continuousFutures.ts)
+ * - interval: minute, 3minute, 5minute, 10minute, 15minute, 30minute, 60minute, day (broker-native),
+ *   or 2minute, 75minute, 120minute, 240minute, week, month (resampled on the server, lib/timeframes.ts;
+ *   intraday bars are anchored at 09:15 IST, weekly bars start on Monday)
  * - from: Start date (YYYY-MM-DD)
  * - to: End date (YYYY-MM-DD)
  * - userId: User ID for authentication
+ * - includeToday: true to include today's candles, including the forming one
+ * - backAdjust: true to shift a continuous future's earlier contracts by the rollover gaps
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getCachedBrokerConfig } from '@/lib/brokerConfigUtils';
-import { getInstrumentToken } from '@/lib/websocket/instrumentMapping';
-import { decryptData } from '@/lib/encryptionUtils';
-import { getSymbolCache } from '@/lib/symbolCache';
-import { convertToBrokerSymbol } from '@/lib/symbolMapping';
-
-/**
- * Convert interval format from UI to Fyers API format
- * UI format: minute, 3minute, 5minute, etc.
- * Fyers format: 1, 3, 5, 60, D
- */
-function convertIntervalToFyersFormat(interval: string): string {
-  if (interval === 'day' || interval === '1D') return 'D';
-  if (interval === 'minute') return '1';
-
-  // Remove 'minute' suffix to get just the number
-  const numberPart = interval.replace('minute', '');
-  return numberPart || '1';
-}
+import { getHistoricalCandles } from '@/lib/ohlcStore';
 
 export async function GET(request: NextRequest) {
   try {
@@ -41,6 +31,7 @@ export async function GET(request: NextRequest) {
     const to = searchParams.get('to');
     const userId = searchParams.get('userId');
     const includeToday = searchParams.get('includeToday') === 'true'; // Include today's incomplete candles
+    const backAdjust = searchParams.get('backAdjust') === 'true';
 
     if (!symbol || !userId) {
       return NextResponse.json(
@@ -49,242 +40,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    console.log('[CHART-HISTORICAL] Requested symbol:', symbol, 'for userId:', userId);
-
-    // Detect which broker the user has configured (check both)
-    const zerodhaConfig = await getCachedBrokerConfig(userId, 'zerodha');
-    const fyersConfig = await getCachedBrokerConfig(userId, 'fyers');
-
-    const zerodhaActive = zerodhaConfig && zerodhaConfig.status === 'active';
-    const fyersActive = fyersConfig && fyersConfig.status === 'active';
-
-    console.log('[CHART-HISTORICAL] Zerodha active:', zerodhaActive, 'Fyers active:', fyersActive);
-
-    // Determine which broker to use
-    let broker: 'zerodha' | 'fyers';
-    let configData;
-
-    if (zerodhaActive && !fyersActive) {
-      // User has only Zerodha configured
-      broker = 'zerodha';
-      configData = zerodhaConfig;
-      console.log('[CHART-HISTORICAL] User has Zerodha configured');
-    } else if (fyersActive && !zerodhaActive) {
-      // User has only Fyers configured
-      broker = 'fyers';
-      configData = fyersConfig;
-      console.log('[CHART-HISTORICAL] User has Fyers configured');
-    } else if (zerodhaActive && fyersActive) {
-      // User has both - use Zerodha as primary
-      broker = 'zerodha';
-      configData = zerodhaConfig;
-      console.log('[CHART-HISTORICAL] User has both brokers configured, using Zerodha as primary');
-    } else {
-      // User has neither broker configured
-      console.log('[CHART-HISTORICAL] User has no broker authenticated');
-      return NextResponse.json(
-        { error: 'No broker authenticated. Please authenticate with Zerodha or Fyers.' },
-        { status: 401 }
-      );
-    }
-
-    console.log('[CHART-HISTORICAL] Using broker:', broker);
-
-    // Convert symbol to broker-specific format
-    const brokerSymbol = convertToBrokerSymbol(symbol, broker);
-    console.log('[CHART-HISTORICAL] Converted symbol:', brokerSymbol);
-
-    // Decrypt credentials
-    const accessToken = decryptData(configData.accessToken);
-
-    // Get app_id (Fyers Client ID) - try appId first, fallback to decrypting apiKey
-    let appId: string;
-    if (configData.appId) {
-      appId = configData.appId;
-    } else if (configData.apiKey) {
-      appId = decryptData(configData.apiKey);
-    } else {
+    const result = await getHistoricalCandles({ userId, symbol, interval, from, to, includeToday, backAdjust });
+    if (!result.success) {
       return NextResponse.json(
-        { error: 'Missing appId or apiKey configuration' },
-        { status: 400 }
+        { error: result.error },
+        { status: result.status }
       );
     }
 
-    console.log('[CHART-HISTORICAL] Broker:', broker);
-
-    let chartData: Array<{
-      time: number;
-      open: number;
-      high: number;
-      low: number;
-      close: number;
-      volume: number;
-    }> = [];
-
-    if (broker === 'zerodha') {
-      // ===== ZERODHA FLOW =====
-      // Ensure symbol cache is loaded
-      const symbolCache = getSymbolCache();
-      if (!symbolCache.isReady()) {
-        console.log('[CHART-HISTORICAL] Symbol cache not loaded, loading now...');
-        await symbolCache.load(appId, accessToken);
-      }
-
-      // Get instrument token for Zerodha
-      const instrumentToken = getInstrumentToken(brokerSymbol);
-      if (!instrumentToken) {
-        return NextResponse.json(
-          { error: 'Symbol not found: ' + brokerSymbol },
-          { status: 404 }
-        );
-      }
-
-      // Build Zerodha API URL
-      const baseUrl = 'https://api.kite.trade';
-      let url = baseUrl + '/instruments/historical/' + instrumentToken + '/' + interval;
-
-      // Add date range if provided
-      const params = new URLSearchParams();
-      if (from) params.append('from', from);
-      if (to) params.append('to', to);
-      const paramString = params.toString();
-      if (paramString) {
-        url += '?' + paramString;
-      }
-
-      console.log('[CHART-HISTORICAL] Zerodha URL:', url);
-
-      // Fetch from Zerodha
-      const response = await fetch(url, {
-        headers: {
-          'Authorization': 'token ' + appId + ':' + accessToken,
-          'X-Kite-Version': '3',
-        },
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[CHART-HISTORICAL] Zerodha API error:', errorText);
-        return NextResponse.json(
-          { error: 'Zerodha API error: ' + response.status },
-          { status: response.status }
-        );
-      }
-
-      const data = await response.json();
-
-      // Transform Zerodha data: {data: {candles: [[timestamp, open, high, low, close, volume], ...]}}
-      const candles = data.data?.candles || [];
-      chartData = candles.map((candle: any[]) => {
-        // Zerodha returns timestamp as Date string, convert to Unix timestamp in seconds
-        const dateObj = new Date(candle[0]);
-        const timeInSeconds = Math.floor(dateObj.getTime() / 1000);
-        return {
-          time: timeInSeconds, // TradingView Lightweight Charts expects seconds
-          open: candle[1],
-          high: candle[2],
-          low: candle[3],
-          close: candle[4],
-          volume: candle[5] || 0,
-        };
-      });
-    } else if (broker === 'fyers') {
-      // ===== FYERS FLOW =====
-
-      // Fyers API expects specific parameter format
-      const fyersResolution = convertIntervalToFyersFormat(interval);
-      console.log('[CHART-HISTORICAL] Interval conversion:', interval, '→', fyersResolution);
-
-      // Detect if this is a futures contract
-      const isFuture = symbol.toUpperCase().includes('FUT');
-      console.log('[CHART-HISTORICAL] Is futures contract:', isFuture);
-
-      // Build Fyers API URL with correct parameters
-      // IMPORTANT: Endpoint is /data/history (not /api/v3/history)
-      const baseUrl = 'https://api-t1.fyers.in/data';
-      const params = new URLSearchParams();
-      params.append('symbol', brokerSymbol);
-      params.append('resolution', fyersResolution);
-      params.append('date_format', '1'); // 1 = yyyy-mm-dd format
-
-      // Set date range
-      if (from) {
-        params.append('range_from', from);
-      }
-
-      // For range_to: subtract 1 day to avoid partial candles (per Fyers docs)
-      // UNLESS includeToday=true (for live polling where we want current day's data)
-      if (to) {
-        const toDate = new Date(to);
-        if (!includeToday) {
-          toDate.setDate(toDate.getDate() - 1);
-          const adjustedTo = toDate.toISOString().split('T')[0];
-          params.append('range_to', adjustedTo);
-          console.log('[CHART-HISTORICAL] Adjusted range_to:', to, '→', adjustedTo, '(to avoid partial candles)');
-        } else {
-          params.append('range_to', to);
-          console.log('[CHART-HISTORICAL] Using today\'s data (includeToday=true):', to);
-        }
-      }
-
-      // Add cont_flag=1 for futures/continuous data
-      if (isFuture) {
-        params.append('cont_flag', '1');
-      }
-
-      const url = `${baseUrl}/history?${params.toString()}`;
-      console.log('[CHART-HISTORICAL] Fyers URL:', url);
-
-      // Fetch from Fyers - uses appId:accessToken format
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `${appId}:${accessToken}`,
-          'Content-Type': 'application/json; charset=UTF-8',
-        },
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[CHART-HISTORICAL] Fyers API error (status', response.status + '):', errorText);
-        return NextResponse.json(
-          { error: 'Fyers API error: ' + response.status + ' - ' + errorText },
-          { status: response.status }
-        );
-      }
-
-      const data = await response.json();
-
-      // Transform Fyers data - check response structure
-      if (data.s === 'ok' && data.candles) {
-        // Fyers format: {s: "ok", candles: [[timestamp, open, high, low, close, volume], ...]}
-        console.log('[CHART-HISTORICAL-DEBUG] Raw Fyers first candle timestamp:', data.candles[0]?.[0]);
-        console.log('[CHART-HISTORICAL-DEBUG] Current time in seconds:', Math.floor(Date.now() / 1000));
-
-        chartData = data.candles.map((candle: any[]) => {
-          // Fyers returns timestamps in seconds
-          const timestamp = typeof candle[0] === 'number' ? candle[0] : parseInt(candle[0]);
-
-          // TradingView Lightweight Charts expects Unix timestamp in seconds
-          // Fyers already returns seconds, so use as-is
-          return {
-            time: timestamp,
-            open: candle[1],
-            high: candle[2],
-            low: candle[3],
-            close: candle[4],
-            volume: candle[5] || 0,
-          };
-        });
-        console.log('[CHART-HISTORICAL] Fyers returned', chartData.length, 'candles');
-      } else {
-        console.error('[CHART-HISTORICAL] Fyers API response:', JSON.stringify(data));
-        return NextResponse.json(
-          { error: 'Fyers API error: ' + (data.message || 'Invalid response') },
-          { status: 400 }
-        );
-      }
-    }
+    const { broker, data: chartData } = result;
 
     console.log('[CHART-HISTORICAL] Returning ' + chartData.length + ' candles');
     if (chartData.length > 0) {
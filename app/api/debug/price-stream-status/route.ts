@@ -5,11 +5,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getBrokerConfigFromEnv } from '@/lib/brokerConfigEnv';
-import { getInstrumentToken, getAvailableSymbols } from '@/lib/websocket/instrumentMapping';
+import { findInstrument, instrumentMasterStatus, loadInstruments } from '@/lib/instrumentMaster';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const testSymbol = searchParams.get('symbol') || 'NIFTY 50';
+  const testSymbol = searchParams.get('symbol') || 'NIFTY';
 
   const diagnostics: any = {
     timestamp: new Date().toISOString(),
@@ -27,24 +27,22 @@ export async function GET(request: NextRequest) {
   };
 
   // Check 2: Symbol mapping
-  const token = getInstrumentToken(testSymbol);
-  const availableSymbols = getAvailableSymbols();
+  const masterLoaded = await loadInstruments('zerodha');
+  const instrument = findInstrument(testSymbol);
+  const token = instrument?.brokers.zerodha?.token || null;
   diagnostics.checks.symbolMapping = {
     symbol: testSymbol,
     token: token,
-    foundInCache: token !== null,
-    totalAvailableSymbols: availableSymbols.length,
-    sampleSymbols: availableSymbols.slice(0, 5), // First 5 for brevity
+    zerodhaSymbol: instrument?.brokers.zerodha?.symbol ?? null,
+    foundInMaster: token !== null,
+    masterLoaded,
+    master: instrumentMasterStatus().find((status) => status.broker === 'zerodha'),
   };
 
-  // Check 3: WebSocket service status
+  // Check 3: Ticker connections on this instance (totals only)
   try {
-    const { getTickerService } = await import('@/lib/websocket/tickerService');
-    const ticker = getTickerService();
-    diagnostics.checks.tickerService = {
-      isConnected: ticker.getConnectionStatus(),
-      subscribedTokens: ticker.getSubscribedTokens(),
-    };
+    const { getTickerConnectionStats } = await import('@/lib/websocket/tickerConnectionManager');
+    diagnostics.checks.tickerService = getTickerConnectionStats();
   } catch (error) {
     diagnostics.checks.tickerService = {
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -62,7 +60,9 @@ export async function GET(request: NextRequest) {
   if (!diagnostics.checks.envConfig.hasBrokerConfigInEnv) {
     diagnostics.recommendation = 'ZERODHA_API_KEY and ZERODHA_API_SECRET must be set in environment variables. Access token will be fetched from Firebase after user authentication.';
   } else if (!token) {
-    diagnostics.recommendation = `Symbol ${testSymbol} not found in token mapping. Check if symbol name is correct (e.g., "NIFTY 50" vs "NIFTY50").`;
+    diagnostics.recommendation = masterLoaded
+      ? `Symbol ${testSymbol} not found in the Zerodha instruments. Check the OpenAlgo symbol (e.g., "NIFTY", "SBIN", "NIFTY28MAR2420000CE").`
+      : 'Zerodha instruments could not be downloaded. Check network access to api.kite.trade (or ZERODHA_INSTRUMENTS_URL).';
   } else if (!hasEncryptionKey) {
     diagnostics.recommendation = 'NEXT_PUBLIC_ENCRYPTION_KEY must be set to decrypt stored credentials.';
   } else {
@@ -5,7 +5,7 @@
  *
  * Query params:
  * - symbol: Base symbol (NIFTY, BANKNIFTY)
- * - expiry: Option expiry (e.g., 13JAN, 29JAN)
+ * - expiry: current-week (default), next-week, current-month, next-month, or a date (13JAN, JAN, 27JAN26)
  * - strike: Strike price (optional, auto-detects from spotPrice if not provided)
  * - spotPrice: Current spot price for auto-strike detection
  * - userId: User ID for authentication
@@ -18,51 +18,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCachedBrokerConfig } from '@/lib/brokerConfigUtils';
 import { detectUserBroker } from '@/lib/brokerDetection';
 import { decryptData } from '@/lib/encryptionUtils';
-
-/**
- * Convert text expiry format to Fyers symbol format
- * Supports both weekly and monthly expiries:
- * - Weekly: {YY}{M}{dd} where M is single digit (1-9, O, N, D)
- *   Examples: "13JAN" → "26113", "30JAN" → "26130"
- * - Monthly: {YY}{MMM} where MMM is full month name
- *   Examples: "JAN" → "26JAN", "OCT" → "26OCT"
- */
-function convertExpiryToNumeric(textExpiry: string): string {
-  const monthMap: { [key: string]: string } = {
-    'JAN': '1', 'FEB': '2', 'MAR': '3', 'APR': '4',
-    'MAY': '5', 'JUN': '6', 'JUL': '7', 'AUG': '8',
-    'SEP': '9', 'OCT': 'O', 'NOV': 'N', 'DEC': 'D'
-  };
-
-  const year = '26'; // 2026
-
-  // Try weekly format first: "13JAN" (day + month)
-  const weeklyMatch = textExpiry.match(/^(\d{1,2})([A-Z]{3})$/);
-  if (weeklyMatch) {
-    const day = weeklyMatch[1].padStart(2, '0');
-    const month = monthMap[weeklyMatch[2]];
-
-    if (month) {
-      const result = `${year}${month}${day}`;
-      console.log(`[OPTIONS-HISTORICAL] Converted weekly expiry "${textExpiry}" → "${result}"`);
-      return result;
-    }
-  }
-
-  // Try monthly format: "JAN" (month only) - use month abbreviation
-  const monthlyMatch = textExpiry.match(/^([A-Z]{3})$/);
-  if (monthlyMatch) {
-    const monthName = monthlyMatch[1];
-    if (monthMap[monthName]) {
-      const result = `${year}${monthName}`;
-      console.log(`[OPTIONS-HISTORICAL] Converted monthly expiry "${textExpiry}" → "${result}"`);
-      return result;
-    }
-  }
-
-  console.warn(`[OPTIONS-HISTORICAL] Could not parse expiry: ${textExpiry}`);
-  return textExpiry;
-}
+import { daysToExpiry, optionSymbol, parseExpiry } from '@/lib/expiryCalendar';
 
 /**
  * Calculate ATM strike from spot price
@@ -141,82 +97,6 @@ async function fetchSpotPrice(
   }
 }
 
-/**
- * Parse expiry string and calculate date and days to expiry
- */
-function parseExpiryDate(expiryStr: string): {
-  date: Date;
-  daysToExpiry: number;
-} {
-  const monthMap: { [key: string]: number } = {
-    JAN: 0,
-    FEB: 1,
-    MAR: 2,
-    APR: 3,
-    MAY: 4,
-    JUN: 5,
-    JUL: 6,
-    AUG: 7,
-    SEP: 8,
-    OCT: 9,
-    NOV: 10,
-    DEC: 11,
-  };
-
-  // Try weekly format: "13JAN"
-  const weeklyMatch = expiryStr.match(/^(\d{1,2})([A-Z]{3})$/);
-  if (weeklyMatch) {
-    const day = parseInt(weeklyMatch[1]);
-    const month = monthMap[weeklyMatch[2]];
-
-    if (month !== undefined) {
-      // Create date object for expiry (market closes at 3:30 PM IST)
-      const expiryDate = new Date(2026, month, day, 15, 30, 0);
-
-      // Calculate days to expiry
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const daysToExp = Math.ceil(
-        (expiryDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
-      );
-
-      console.log(
-        `[OPTIONS-HISTORICAL] Parsed weekly expiry "${expiryStr}" → ${expiryDate.toISOString()}, DTE: ${daysToExp}`
-      );
-
-      return { date: expiryDate, daysToExpiry: Math.max(0, daysToExp) };
-    }
-  }
-
-  // Try monthly format: "JAN"
-  const monthlyMatch = expiryStr.match(/^([A-Z]{3})$/);
-  if (monthlyMatch) {
-    const monthName = monthlyMatch[1];
-    const month = monthMap[monthName];
-
-    if (month !== undefined) {
-      // For monthly, use last day of month
-      const expiryDate = new Date(2026, month + 1, 0, 15, 30, 0);
-
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const daysToExp = Math.ceil(
-        (expiryDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
-      );
-
-      console.log(
-        `[OPTIONS-HISTORICAL] Parsed monthly expiry "${expiryStr}" → ${expiryDate.toISOString()}, DTE: ${daysToExp}`
-      );
-
-      return { date: expiryDate, daysToExpiry: Math.max(0, daysToExp) };
-    }
-  }
-
-  // Fallback: return today + 0 DTE
-  console.warn(`[OPTIONS-HISTORICAL] Could not parse expiry: ${expiryStr}`);
-  return { date: new Date(), daysToExpiry: 0 };
-}
-
 /**
  * Fetch historical option data from Fyers API
  */
@@ -322,7 +202,7 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const baseSymbol = searchParams.get('symbol') || 'NIFTY';
-    const expiry = searchParams.get('expiry') || '13JAN';
+    const expiry = searchParams.get('expiry') || 'current-week';
     const strikeParam = searchParams.get('strike');
     const spotPrice = parseFloat(searchParams.get('spotPrice') || '0');
     const userId = searchParams.get('userId');
@@ -353,13 +233,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Build option symbols with numeric expiry
-    const numericExpiry = convertExpiryToNumeric(expiry);
-    const ceSymbol = `NSE:${baseSymbol}${numericExpiry}${strike}CE`;
-    const peSymbol = `NSE:${baseSymbol}${numericExpiry}${strike}PE`;
+    const resolvedExpiry = parseExpiry(baseSymbol, expiry);
+    if (!resolvedExpiry) {
+      return NextResponse.json({ error: `Invalid expiry: ${expiry}` }, { status: 400 });
+    }
+
+    // Build option symbols in Fyers format
+    const ceSymbol = optionSymbol('fyers', baseSymbol, resolvedExpiry, strike, 'CE');
+    const peSymbol = optionSymbol('fyers', baseSymbol, resolvedExpiry, strike, 'PE');
 
-    console.log(`[OPTIONS-HISTORICAL] Raw expiry input: "${expiry}"`);
-    console.log(`[OPTIONS-HISTORICAL] Converted numeric expiry: "${numericExpiry}"`);
+    console.log(`[OPTIONS-HISTORICAL] Expiry "${expiry}" resolved to ${resolvedExpiry.date}${resolvedExpiry.monthly ? ' (monthly)' : ''}`);
     console.log(`[OPTIONS-HISTORICAL] Base symbol: ${baseSymbol}`);
     console.log(`[OPTIONS-HISTORICAL] Strike: ${strike}`);
     console.log(`[OPTIONS-HISTORICAL] CE Symbol: ${ceSymbol}`);
@@ -386,8 +269,6 @@ export async function GET(request: NextRequest) {
     const accessToken = decryptData(configData.accessToken);
     const apiKey = decryptData(configData.apiKey);
 
-    // Parse expiry to get date and days to expiry
-    const { date: expiryDate, daysToExpiry } = parseExpiryDate(expiry);
 
     // Fetch spot price, CE data, and PE data in parallel
     const [spotPriceValue, ceData, peData] = await Promise.all([
@@ -464,8 +345,8 @@ export async function GET(request: NextRequest) {
       interval,
       dateRange: { from, to },
       spotPrice: spotPriceValue,
-      expiryDate: expiryDate.toISOString(),
-      daysToExpiry,
+      expiryDate: resolvedExpiry.date,
+      daysToExpiry: daysToExpiry(resolvedExpiry),
       data: combinedData,
       count: combinedData.length,
       priceRange: combinedData.length > 0 ? {
@@ -5,7 +5,7 @@
  *
  * Query params:
  * - symbol: Base symbol (NIFTY)
- * - expiry: Option expiry (e.g., 13JAN, 29JAN)
+ * - expiry: current-week (default), next-week, current-month, next-month, or a date (13JAN, JAN, 27JAN26)
  * - strike: Strike price (optional, auto-detects if not provided)
  * - userId: User ID for authentication
  * - spotPrice: Current spot price for auto-strike detection
@@ -15,7 +15,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCachedBrokerConfig } from '@/lib/brokerConfigUtils';
 import { detectUserBroker } from '@/lib/brokerDetection';
 import { decryptData } from '@/lib/encryptionUtils';
-import { convertToBrokerSymbol } from '@/lib/symbolMapping';
+import { optionSymbol, parseExpiry } from '@/lib/expiryCalendar';
 import { getFyersUserProfile } from '@/lib/fyersClient';
 
 // In-memory cache for option prices (time-based)
@@ -30,43 +30,6 @@ function calculateATMStrike(spotPrice: number): number {
   return Math.round(spotPrice / 100) * 100;
 }
 
-/**
- * Convert text expiry format to Fyers numeric format
- * Format: {YY}{M}{dd} where M is single digit (1-9, O, N, D)
- * Examples:
- * - "13JAN" → "26113" (Jan 13, 2026)
- * - "16FEB" → "26216" (Feb 16, 2026)
- * - "23OCT" → "26O23" (Oct 23, 2026)
- * - "10NOV" → "26N10" (Nov 10, 2026)
- * - "25DEC" → "26D25" (Dec 25, 2026)
- */
-function convertExpiryToNumeric(textExpiry: string): string {
-  const monthMap: { [key: string]: string } = {
-    'JAN': '1', 'FEB': '2', 'MAR': '3', 'APR': '4',
-    'MAY': '5', 'JUN': '6', 'JUL': '7', 'AUG': '8',
-    'SEP': '9', 'OCT': 'O', 'NOV': 'N', 'DEC': 'D'
-  };
-
-  // Extract day and month from format like "13JAN"
-  const match = textExpiry.match(/^(\d{1,2})([A-Z]{3})$/);
-  if (!match) {
-    console.warn(`[OPTIONS-QUOTES] Could not parse expiry: ${textExpiry}`);
-    return textExpiry; // Return as-is if can't parse
-  }
-
-  const day = match[1].padStart(2, '0');
-  const month = monthMap[match[2]];
-
-  if (!month) {
-    console.warn(`[OPTIONS-QUOTES] Unknown month in expiry: ${textExpiry}`);
-    return textExpiry;
-  }
-
-  // Current year (2026)
-  const year = '26';
-  return `${year}${month}${day}`;
-}
-
 /**
  * Get cache key for a straddle
  */
@@ -206,7 +169,7 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const baseSymbol = searchParams.get('symbol') || 'NIFTY';
-    const expiry = searchParams.get('expiry') || '13JAN';
+    const expiry = searchParams.get('expiry') || 'current-week';
     const strikeParam = searchParams.get('strike');
     const userId = searchParams.get('userId');
     const spotPrice = parseFloat(searchParams.get('spotPrice') || '0');
@@ -227,13 +190,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Build option symbols - convert expiry to numeric format for Fyers
-    const numericExpiry = convertExpiryToNumeric(expiry);
-    const ceSymbol = `${baseSymbol}${numericExpiry}${strike}CE`;
-    const peSymbol = `${baseSymbol}${numericExpiry}${strike}PE`;
-    const cacheKey = getCacheKey(baseSymbol, expiry, strike);
+    const resolvedExpiry = parseExpiry(baseSymbol, expiry);
+    if (!resolvedExpiry) {
+      return NextResponse.json({ error: `Invalid expiry: ${expiry}` }, { status: 400 });
+    }
+
+    const ceSymbol = optionSymbol('zerodha', baseSymbol, resolvedExpiry, strike, 'CE');
+    const peSymbol = optionSymbol('zerodha', baseSymbol, resolvedExpiry, strike, 'PE');
+    const cacheKey = getCacheKey(baseSymbol, resolvedExpiry.date, strike);
 
-    console.log(`[OPTIONS-QUOTES] Fetching ${ceSymbol} and ${peSymbol} (expiry: ${expiry} → ${numericExpiry})`);
+    console.log(`[OPTIONS-QUOTES] Fetching ${ceSymbol} and ${peSymbol} (expiry: ${expiry} → ${resolvedExpiry.date})`);
 
     // Detect broker
     const brokerDetection = await detectUserBroker(userId);
@@ -256,8 +222,8 @@ export async function GET(request: NextRequest) {
 
     if (broker === 'fyers') {
       // Fetch from Fyers
-      const fyersSymbolCE = convertToBrokerSymbol(ceSymbol, 'fyers');
-      const fyersSymbolPE = convertToBrokerSymbol(peSymbol, 'fyers');
+      const fyersSymbolCE = optionSymbol('fyers', baseSymbol, resolvedExpiry, strike, 'CE');
+      const fyersSymbolPE = optionSymbol('fyers', baseSymbol, resolvedExpiry, strike, 'PE');
 
       priceData = await fetchFyersOptionPrices(fyersSymbolCE, fyersSymbolPE, accessToken, apiKey);
 
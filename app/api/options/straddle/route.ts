@@ -4,7 +4,7 @@
  *
  * Query params:
  * - symbol: Base symbol (NIFTY)
- * - expiry: Option expiry (e.g., 13JAN, 29JAN)
+ * - expiry: current-week (default), next-week, current-month, next-month, or a date (13JAN, JAN, 27JAN26)
  * - strike: Strike price (optional, auto-detects if not provided)
  * - interval: 5minute (default), minute, 15minute, 60minute, day
  * - from: Start date (YYYY-MM-DD)
@@ -16,7 +16,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCachedBrokerConfig } from '@/lib/brokerConfigUtils';
 import { detectUserBroker } from '@/lib/brokerDetection';
 import { decryptData } from '@/lib/encryptionUtils';
-import { convertToBrokerSymbol } from '@/lib/symbolMapping';
+import { optionSymbol, parseExpiry } from '@/lib/expiryCalendar';
 
 interface StraddleCandle {
   time: number;
@@ -75,7 +75,7 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const baseSymbol = searchParams.get('symbol') || 'NIFTY';
-    const expiry = searchParams.get('expiry') || '13JAN'; // e.g., 13JAN, 29JAN
+    const expiry = searchParams.get('expiry') || 'current-week';
     const strikeParam = searchParams.get('strike');
     const interval = searchParams.get('interval') || '5minute';
     const from = searchParams.get('from');
@@ -109,10 +109,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const resolvedExpiry = parseExpiry(baseSymbol, expiry);
+    if (!resolvedExpiry) {
+      return NextResponse.json({ error: `Invalid expiry: ${expiry}` }, { status: 400 });
+    }
+
     // Build option contract symbols
-    // e.g., NIFTY13JAN25700CE, NIFTY13JAN25700PE
-    const ceSymbol = `${baseSymbol}${expiry}${strike}CE`;
-    const peSymbol = `${baseSymbol}${expiry}${strike}PE`;
+    // e.g., NIFTY2612025700CE (weekly), NIFTY26JAN25700PE (monthly)
+    const ceSymbol = optionSymbol('zerodha', baseSymbol, resolvedExpiry, strike, 'CE');
+    const peSymbol = optionSymbol('zerodha', baseSymbol, resolvedExpiry, strike, 'PE');
 
     console.log(`[STRADDLE] CE Symbol: ${ceSymbol}, PE Symbol: ${peSymbol}`);
 
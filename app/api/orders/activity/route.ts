@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { parseOrderLogFilters } from '@/lib/orderLogUtils';
+import { queryOrderLog } from '@/lib/orderLog';
+
+/**
+ * GET /api/orders/activity
+ * Order audit log for the dashboard Activity tab
+ * Requires: Authorization header with Firebase ID token
+ * Query params (all optional): strategy, symbol, action, outcome, start_date, end_date, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get the Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseOrderLogFilters(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const entries = await queryOrderLog(decodedToken.uid, parsed.filters);
+
+    return NextResponse.json({ entries });
+  } catch (error: any) {
+    console.error('Error fetching order activity:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch order activity' },
+      { status: 500 }
+    );
+  }
+}
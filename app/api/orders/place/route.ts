@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { adminAuth, adminDb } from '@/lib/firebaseAdmin';
 import { getCachedBrokerConfig } from '@/lib/brokerConfigUtils';
 import { resolveBroker } from '@/lib/brokerDetection';
+import { checkPreTradeRisk } from '@/lib/riskEngine';
+import { resolveContinuousSymbol } from '@/lib/continuousFutures';
 
 /**
  * POST /api/orders/place
@@ -85,6 +87,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Continuous futures (NIFTY-I) trade today's contract
+    order.symbol = resolveContinuousSymbol(order.symbol);
+
+    // Pre-trade risk checks
+    const risk = await checkPreTradeRisk(userId, broker, order, 'dashboard');
+    if (!risk.allowed) {
+      return NextResponse.json(
+        { error: risk.message, reasons: risk.reasons },
+        { status: 403 }
+      );
+    }
+
     // Route to broker-specific endpoint
     console.log(`[ORDERS-PLACE] Routing order to ${broker} broker`);
 
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import {
+  MAX_ORDER_WEBHOOKS,
+  createOrderWebhook,
+  deleteOrderWebhook,
+  listOrderWebhooks,
+} from '@/lib/orderWebhooks';
+import { validateWebhookUrl } from '@/lib/orderEvents';
+import {
+  CreateOrderWebhookRequest,
+  CreateOrderWebhookResponse,
+  ListOrderWebhooksResponse,
+} from '@/lib/types/orderEvents';
+
+/**
+ * GET /api/orders/webhooks
+ * List the user's outbound order update webhooks (secrets are never returned)
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    const response: ListOrderWebhooksResponse = {
+      webhooks: await listOrderWebhooks(userId),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Error listing order webhooks:', error);
+    return NextResponse.json(
+      { error: 'Failed to list order webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/orders/webhooks
+ * Register a webhook URL; the signing secret is only returned here
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    const body: CreateOrderWebhookRequest = await request.json();
+
+    // Validate request
+    const urlResult = validateWebhookUrl(body.url);
+    if (!urlResult.success) {
+      return NextResponse.json({ error: urlResult.error }, { status: 400 });
+    }
+
+    const created = await createOrderWebhook(userId, urlResult.url);
+    if (!created) {
+      return NextResponse.json(
+        { error: `You can register at most ${MAX_ORDER_WEBHOOKS} webhooks` },
+        { status: 400 }
+      );
+    }
+
+    const response: CreateOrderWebhookResponse = {
+      id: created.id,
+      secret: created.secret,
+      message: 'Webhook registered. Save the signing secret now; it will not be shown again.',
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error('Error creating order webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to create order webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/orders/webhooks?id=...
+ * Remove a webhook
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    const webhookId = request.nextUrl.searchParams.get('id');
+    if (!webhookId) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: id' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteOrderWebhook(userId, webhookId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Webhook deleted successfully' }, { status: 200 });
+  } catch (error) {
+    console.error('Error deleting order webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete order webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { getRiskProfile, getRiskRejections, getTodayLock, saveRiskProfile } from '@/lib/riskEngine';
+import { validateRiskProfile } from '@/lib/riskChecks';
+import { RiskProfileResponse } from '@/lib/types/risk';
+
+/**
+ * GET /api/risk/profile
+ * The user's pre-trade risk profile, today's loss lock and recent rejections
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    const [profile, lock, rejections] = await Promise.all([
+      getRiskProfile(userId),
+      getTodayLock(userId),
+      getRiskRejections(userId),
+    ]);
+
+    const response: RiskProfileResponse = {
+      profile,
+      lock,
+      rejections,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching risk profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch risk profile' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/risk/profile
+ * Replace the user's pre-trade risk profile
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    const body = await request.json();
+
+    // Validate request
+    const result = validateRiskProfile(body);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    await saveRiskProfile(userId, result.profile);
+
+    return NextResponse.json(
+      { message: 'Risk profile saved successfully', profile: result.profile },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error saving risk profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to save risk profile' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { createStrategy } from '@/lib/strategyUtils';
+import { CreateStrategyRequest, CreateStrategyResponse } from '@/lib/types/strategy';
+
+const VALID_MODES = ['LONG', 'SHORT', 'BOTH'];
+
+/**
+ * POST /api/strategies/create
+ * Create a new webhook strategy
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    const body: CreateStrategyRequest = await request.json();
+
+    // Validate request
+    if (!body.name || !body.broker || !body.symbol || !body.exchange || !body.product) {
+      return NextResponse.json(
+        { error: 'Missing required fields: name, broker, symbol, exchange, product' },
+        { status: 400 }
+      );
+    }
+
+    if (!VALID_MODES.includes(body.mode)) {
+      return NextResponse.json(
+        { error: 'Invalid mode. Expected LONG, SHORT or BOTH' },
+        { status: 400 }
+      );
+    }
+
+    const quantity = Number(body.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return NextResponse.json(
+        { error: 'Quantity must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    // Create strategy
+    const { id, webhookId } = await createStrategy(userId, { ...body, quantity });
+
+    const response: CreateStrategyResponse = {
+      id,
+      webhookId,
+      message: 'Strategy created successfully',
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error('Error creating strategy:', error);
+    return NextResponse.json(
+      { error: 'Failed to create strategy' },
+      { status: 500 }
+    );
+  }
+}
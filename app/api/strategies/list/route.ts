@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { getUserStrategies } from '@/lib/strategyUtils';
+import { ListStrategiesResponse } from '@/lib/types/strategy';
+
+/**
+ * GET /api/strategies/list
+ * Get all webhook strategies for the authenticated user
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+
+    // Get all strategies for this user
+    const strategies = await getUserStrategies(userId);
+
+    const response: ListStrategiesResponse = {
+      strategies,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Error listing strategies:', error);
+    return NextResponse.json(
+      { error: 'Failed to list strategies' },
+      { status: 500 }
+    );
+  }
+}
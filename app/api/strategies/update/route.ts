@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { updateStrategyStatus, deleteStrategy } from '@/lib/strategyUtils';
+import { UpdateStrategyStatusRequest } from '@/lib/types/strategy';
+
+/**
+ * POST /api/strategies/update
+ * Pause or resume a webhook strategy
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    const body: UpdateStrategyStatusRequest = await request.json();
+
+    // Validate request
+    if (!body.strategyId || (body.status !== 'active' && body.status !== 'paused')) {
+      return NextResponse.json(
+        { error: 'Missing required fields: strategyId, status (active | paused)' },
+        { status: 400 }
+      );
+    }
+
+    const success = await updateStrategyStatus(userId, body.strategyId, body.status);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Strategy not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: `Strategy ${body.status === 'active' ? 'resumed' : 'paused'} successfully` },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error updating strategy:', error);
+    return NextResponse.json(
+      { error: 'Failed to update strategy' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/strategies/update
+ * Permanently delete a webhook strategy
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    const strategyId = request.nextUrl.searchParams.get('strategyId');
+
+    // Validate request
+    if (!strategyId) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: strategyId' },
+        { status: 400 }
+      );
+    }
+
+    const success = await deleteStrategy(userId, strategyId);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Strategy not found or unauthorized' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Strategy deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting strategy:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete strategy' },
+      { status: 500 }
+    );
+  }
+}
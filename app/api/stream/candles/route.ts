@@ -0,0 +1,125 @@
+/**
+ * Server-Sent Events (SSE) endpoint for live candles built on the server
+ * GET /api/stream/candles?symbol=RELIANCE&interval=5minute&userId=xxx[&since=1705292100][&broker=fyers]
+ *
+ * interval: minute, 2minute, 3minute, 5minute, 10minute, 15minute, 30minute, 60minute, 75minute,
+ * 120minute, 240minute (candles start on a grid anchored at the 09:15 IST session open)
+ * since: start time (Unix seconds) of the last candle the client has; the stream first sends
+ * every completed candle from then on, filling gaps from the broker's history
+ *
+ * Messages: { type: 'connected', broker, symbol, interval }
+ *           { type: 'backfill', candles: Candle[] }
+ *           { type: 'candle', candle: Candle, complete: boolean, partial: boolean }
+ *           (partial: built from part of the interval; merge it into a loaded candle)
+ *           { type: 'heartbeat', timestamp }
+ */
+
+import { NextRequest } from 'next/server';
+import { backfillCandles, subscribeCandles } from '@/lib/candleHub';
+import { isCandleInterval } from '@/lib/candleBuilder';
+import { loadFeedCredentials, resolveStreamingBroker } from '@/lib/websocket/feedCredentials';
+import { CANDLE_INTERVALS, CandleUpdate } from '@/lib/types/candles';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const symbol = searchParams.get('symbol');
+  const interval = searchParams.get('interval');
+  const userId = searchParams.get('userId');
+  const sinceParam = searchParams.get('since');
+  const since = sinceParam ? Number(sinceParam) : null;
+
+  if (!userId || !symbol) {
+    return new Response('Missing required parameters: symbol, userId', { status: 400 });
+  }
+
+  if (!isCandleInterval(interval)) {
+    return new Response(`Invalid interval. Must be one of: ${CANDLE_INTERVALS.join(', ')}`, { status: 400 });
+  }
+
+  if (since !== null && !Number.isFinite(since)) {
+    return new Response('Invalid since. Must be a Unix timestamp in seconds', { status: 400 });
+  }
+
+  const selection = await resolveStreamingBroker(userId, searchParams.get('broker'));
+  if ('error' in selection) {
+    return new Response(selection.error, { status: selection.status });
+  }
+  const broker = selection.broker;
+
+  const loaded = await loadFeedCredentials(userId, broker);
+  if (!loaded.success) {
+    return new Response(loaded.error, { status: loaded.status });
+  }
+
+  // Live updates wait until the backfill is sent, so older candles never overwrite newer ones
+  let queued: CandleUpdate[] | null = since !== null ? [] : null;
+  let send: (payload: unknown) => void = () => {};
+  const sendUpdate = ({ candle, complete, partial }: CandleUpdate) => send({ type: 'candle', candle, complete, partial });
+  const deliver = (update: CandleUpdate) => {
+    if (queued) {
+      queued.push(update);
+    } else {
+      sendUpdate(update);
+    }
+  };
+
+  const subscription = await subscribeCandles(userId, loaded.credentials, symbol, interval, deliver);
+  if (!subscription.success) {
+    return new Response(subscription.error, { status: subscription.status });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      send = (payload: unknown) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+        }
+      };
+
+      console.log(`[STREAM-CANDLES] Client connected for ${symbol} ${interval} on ${broker}`);
+      send({ type: 'connected', broker, symbol, interval });
+
+      if (since !== null) {
+        backfillCandles(userId, symbol, interval, since)
+          .catch((error) => {
+            console.error('[STREAM-CANDLES] Backfill failed:', error);
+            return [];
+          })
+          .then((candles) => {
+            send({ type: 'backfill', candles });
+            const pending = queued || [];
+            queued = null;
+            pending.forEach(sendUpdate);
+          });
+      }
+
+      if (subscription.forming) {
+        deliver(subscription.forming);
+      }
+
+      // Send heartbeat every 30 seconds
+      const heartbeatInterval = setInterval(() => {
+        send({ type: 'heartbeat', timestamp: new Date().toISOString() });
+      }, 30000);
+
+      // Cleanup on disconnect
+      request.signal.addEventListener('abort', () => {
+        console.log('[STREAM-CANDLES] Client disconnected, cleaning up...');
+        closed = true;
+        subscription.unsubscribe();
+        clearInterval(heartbeatInterval);
+        controller.close();
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
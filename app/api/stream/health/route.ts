@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { getTickerConnectionHealth } from '@/lib/websocket/tickerConnectionManager';
+
+/**
+ * GET /api/stream/health
+ * Health of the user's live market data connections on this server instance
+ * Requires: Firebase ID token in Authorization header
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    return NextResponse.json(
+      { connections: getTickerConnectionHealth(userId) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error reading stream health:', error);
+    return NextResponse.json(
+      { error: 'Failed to read stream health' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Server-Sent Events (SSE) endpoint for real-time order updates
+ * GET /api/stream/orders?token=<Firebase ID token>&broker=zerodha
+ *
+ * EventSource can't send headers, so the ID token may be passed as a query
+ * parameter (an Authorization: Bearer header also works)
+ * broker is optional; defaults to the user's detected broker
+ *
+ * Messages: { type: 'connected', broker, mode: 'push' | 'poll' }
+ *           { type: 'order', data: OrderEvent }
+ *           { type: 'heartbeat', timestamp }
+ */
+
+import { NextRequest } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { resolveBroker } from '@/lib/brokerDetection';
+import { getBrokerAdapter } from '@/lib/brokers';
+import { subscribeOrderEvents } from '@/lib/orderEventHub';
+import { OrderEvent } from '@/lib/types/orderEvents';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const authHeader = request.headers.get('authorization');
+  const idToken = authHeader?.startsWith('Bearer ')
+    ? authHeader.substring(7)
+    : searchParams.get('token');
+
+  if (!idToken) {
+    return new Response('Missing token parameter or authorization header', { status: 401 });
+  }
+
+  let userId: string;
+  try {
+    userId = (await adminAuth.verifyIdToken(idToken)).uid;
+  } catch (error) {
+    return new Response('Invalid or expired token', { status: 401 });
+  }
+
+  let broker = searchParams.get('broker');
+  if (!broker) {
+    const brokerDetection = await resolveBroker(userId);
+    if (!brokerDetection.isConfigured) {
+      return new Response(brokerDetection.error || 'No broker configured', { status: 401 });
+    }
+    broker = brokerDetection.broker;
+  }
+
+  if (!getBrokerAdapter(broker)) {
+    return new Response(`Broker '${broker}' is not yet supported`, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (payload: unknown) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      };
+
+      const { mode, unsubscribe } = subscribeOrderEvents(userId, broker, (event: OrderEvent) => {
+        send({ type: 'order', data: event });
+      });
+
+      console.log(`[STREAM-ORDERS] Client connected for ${userId} on ${broker} (${mode})`);
+      send({ type: 'connected', broker, mode });
+
+      // Send heartbeat every 30 seconds
+      const heartbeatInterval = setInterval(() => {
+        send({ type: 'heartbeat', timestamp: new Date().toISOString() });
+      }, 30000);
+
+      // Cleanup on disconnect
+      request.signal.addEventListener('abort', () => {
+        console.log('[STREAM-ORDERS] Client disconnected, cleaning up...');
+        unsubscribe();
+        clearInterval(heartbeatInterval);
+        controller.close();
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
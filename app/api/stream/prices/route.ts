@@ -1,27 +1,26 @@
 /**
  * Server-Sent Events (SSE) endpoint for real-time price streaming
- * GET /api/stream/prices?symbols=RELIANCE,TCS,INFY
+ * GET /api/stream/prices?symbols=RELIANCE,TCS,INFY&mode=quote[&broker=fyers]
+ *
+ * Streams ticks from the user's broker feed (Zerodha ticker, Fyers data socket or Angel
+ * SmartStream); broker defaults to the one the user has authenticated
+ * mode (ltp | quote | full, default quote) sets the tick fields sent to this stream
+ * The 'connected' message carries a streamId; POST /api/stream/prices/subscriptions
+ * with it adds or removes symbols without reconnecting
  */
 
 import { NextRequest } from 'next/server';
-import { getTickerService } from '@/lib/websocket/tickerService';
-import { getInstrumentToken } from '@/lib/websocket/instrumentMapping';
-import { getAuth } from 'firebase/auth';
-import { getCachedBrokerConfig } from '@/lib/brokerConfigUtils';
-import { detectUserBroker } from '@/lib/brokerDetection';
-import CryptoJS from 'crypto-js';
-
-const ENCRYPTION_KEY = process.env.NEXT_PUBLIC_ENCRYPTION_KEY || 'default-insecure-key';
-
-function decryptData(encryptedData: string): string {
-  const bytes = CryptoJS.AES.decrypt(encryptedData, ENCRYPTION_KEY);
-  return bytes.toString(CryptoJS.enc.Utf8);
-}
+import { TickerLease, acquireTickerConnection } from '@/lib/websocket/tickerConnectionManager';
+import { TickData, TickMode } from '@/lib/websocket/tickerService';
+import { isTickMode, tickForMode } from '@/lib/websocket/subscriptions';
+import { registerPriceStream, unregisterPriceStream } from '@/lib/websocket/priceStreams';
+import { loadFeedCredentials, resolveStreamingBroker } from '@/lib/websocket/feedCredentials';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const symbols = searchParams.get('symbols')?.split(',') || [];
   const userId = searchParams.get('userId');
+  const modeParam = searchParams.get('mode') || 'quote';
 
   if (!userId) {
     return new Response('Missing userId parameter', { status: 400 });
@@ -31,313 +30,147 @@ export async function GET(request: NextRequest) {
     return new Response('Missing symbols parameter', { status: 400 });
   }
 
-  // Auto-detect which broker the user has configured
-  const brokerDetection = await detectUserBroker(userId);
-
-  if (!brokerDetection.isConfigured) {
-    return new Response(brokerDetection.error || 'No broker configured', { status: 401 });
+  if (!isTickMode(modeParam)) {
+    return new Response('Invalid mode. Must be one of: ltp, quote, full', { status: 400 });
   }
 
-  const broker = brokerDetection.broker;
-  console.log('[STREAM-PRICES] Detected broker for user:', broker);
+  const selection = await resolveStreamingBroker(userId, searchParams.get('broker'));
+  if ('error' in selection) {
+    return new Response(selection.error, { status: selection.status });
+  }
 
-  // Get broker configuration from cache
-  const configData = await getCachedBrokerConfig(userId, broker);
+  const broker = selection.broker;
+  console.log('[STREAM-PRICES] Streaming from broker:', broker);
 
-  if (!configData) {
-    return new Response('Broker not configured', { status: 404 });
+  const loaded = await loadFeedCredentials(userId, broker);
+  if (!loaded.success) {
+    return new Response(loaded.error, { status: loaded.status });
   }
 
-  if (!configData?.accessToken || configData.status !== 'active') {
-    return new Response('Broker not authenticated', { status: 401 });
+  // The user's own feed connection (shared with their other streams)
+  // Tokens are reference-counted per lease, so closing this stream never cuts off another
+  let lease: TickerLease;
+  try {
+    lease = acquireTickerConnection(userId, loaded.credentials);
+  } catch (error) {
+    return new Response(error instanceof Error ? error.message : 'Broker not authenticated', { status: 401 });
   }
-
-  // ZERODHA: Uses WebSocket KiteTicker
-  if (broker === 'zerodha') {
-    const encryptedAccessToken = decryptData(configData.accessToken);
-    const apiKey = decryptData(configData.apiKey);
-
-    // Extract access token from combined format (apiKey:accessToken)
-    const accessToken = encryptedAccessToken.includes(':')
-      ? encryptedAccessToken.split(':')[1]
-      : encryptedAccessToken;
-
-    // Convert symbols to instrument tokens (from in-memory cache)
-    const tokens: number[] = [];
-    const symbolToToken: Record<string, number> = {};
-
-    for (const symbol of symbols) {
-      const token = getInstrumentToken(symbol);
-      if (token) {
-        tokens.push(token);
-        symbolToToken[symbol] = token;
-      }
+  const symbolToToken = new Map<string, number>();
+  let mode: TickMode = modeParam;
+  let limitReached = false;
+
+  // Returns the symbols that can't be streamed (unknown, or over the instrument limit)
+  const addSymbols = async (added: string[]): Promise<string[]> => {
+    const pending = added.filter((symbol) => !symbolToToken.has(symbol));
+    if (pending.length === 0) {
+      return [];
     }
 
-    if (tokens.length === 0) {
-      return new Response(`No valid symbols found. Make sure symbol cache is initialized via /api/admin/init-symbol-cache.`, { status: 400 });
+    const resolved = await lease.feed.resolveSymbols(pending);
+    const rejected = pending.filter((symbol) => !resolved.has(symbol));
+    const rejectedTokens = lease.subscribe(Array.from(resolved.values()), mode);
+    for (const [symbol, token] of resolved) {
+      if (rejectedTokens.includes(token)) {
+        limitReached = true;
+        rejected.push(symbol);
+      } else {
+        symbolToToken.set(symbol, token);
+      }
     }
-
-    // Setup Server-Sent Events for Zerodha
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      start(controller) {
-        console.log(`[STREAM-PRICES] Zerodha client connected for symbols: ${symbols.join(', ')}`);
-        console.log(`[STREAM-PRICES] Instrument tokens: ${tokens.join(', ')}`);
-
-        const tickerService = getTickerService();
-
-        // Initialize ticker if not already initialized
-        if (!tickerService.getConnectionStatus()) {
-          console.log('[STREAM-PRICES] Initializing WebSocket connection to Zerodha...');
-          console.log(`[STREAM-PRICES] API Key (first 10 chars): ${apiKey.substring(0, 10)}...`);
-          console.log(`[STREAM-PRICES] Access Token (first 10 chars): ${accessToken.substring(0, 10)}...`);
-
-          tickerService.initialize(apiKey, accessToken);
-          tickerService.connect();
-        } else {
-          console.log('[STREAM-PRICES] WebSocket already connected, reusing connection');
-        }
-
-        // Subscribe to tokens
-        console.log(`[STREAM-PRICES] Subscribing to tokens: ${tokens.join(', ')}`);
-        tickerService.subscribe(tokens);
-
-        // Send initial connection message
-        const connectMessage = `data: ${JSON.stringify({ type: 'connected', symbols, tokens })}\n\n`;
-        controller.enqueue(encoder.encode(connectMessage));
-
-        // Handle tick updates
-        const tickHandler = (ticks: any[]) => {
-          ticks.forEach((tick) => {
-            const symbol = Object.keys(symbolToToken).find(
-              (s) => symbolToToken[s] === tick.instrument_token
-            );
-
-            if (symbol) {
-              const message = `data: ${JSON.stringify({
-                type: 'tick',
-                symbol,
-                data: {
-                  instrument_token: tick.instrument_token,
-                  last_price: tick.last_price,
-                  change: tick.change,
-                  volume: tick.volume_traded,
-                  ohlc: tick.ohlc,
-                  timestamp: new Date().toISOString(),
-                },
-              })}\n\n`;
-
-              controller.enqueue(encoder.encode(message));
-            }
-          });
-        };
-
-        tickerService.on('ticks', tickHandler);
-
-        // Send heartbeat every 30 seconds
-        const heartbeatInterval = setInterval(() => {
-          const heartbeat = `data: ${JSON.stringify({ type: 'heartbeat', timestamp: new Date().toISOString() })}\n\n`;
-          controller.enqueue(encoder.encode(heartbeat));
-        }, 30000);
-
-        // Cleanup on disconnect
-        request.signal.addEventListener('abort', () => {
-          console.log('[STREAM-PRICES] Client disconnected, cleaning up...');
-          tickerService.off('ticks', tickHandler);
-          tickerService.unsubscribe(tokens);
-          clearInterval(heartbeatInterval);
-          controller.close();
-        });
-      },
-    });
-
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+    return rejected;
+  };
+
+  const removeSymbols = (removed: string[]) => {
+    const tokens = removed
+      .map((symbol) => symbolToToken.get(symbol))
+      .filter((token): token is number => token !== undefined);
+    removed.forEach((symbol) => symbolToToken.delete(symbol));
+    const stillUsed = new Set(symbolToToken.values());
+    lease.unsubscribe(tokens.filter((token) => !stillUsed.has(token)));
+  };
+
+  console.log(`[STREAM-PRICES] Subscribing to symbols: ${symbols.join(', ')} (${mode})`);
+  const rejectedSymbols = await addSymbols(symbols);
+  if (symbolToToken.size === 0) {
+    lease.release();
+    return limitReached
+      ? new Response('Instrument limit reached for this broker connection', { status: 429 })
+      : new Response(`No valid symbols found for ${broker}: ${rejectedSymbols.join(', ')}`, { status: 400 });
   }
 
-  // FYERS: Poll latest data every 10 seconds
-  // Fyers doesn't have a public WebSocket API, so we poll the chart data endpoint
-  if (broker === 'fyers') {
-    console.log('[STREAM-PRICES] Fyers user detected - using polling for live data updates');
-
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      async start(controller) {
-        console.log(`[STREAM-PRICES] Fyers SSE client connected for symbols: ${symbols.join(', ')}`);
-
-        // Send connection message indicating Fyers uses polling
-        const connectMessage = `data: ${JSON.stringify({
-          type: 'connected',
-          symbols,
-          broker: 'fyers',
-          note: 'Fyers using polling (updates every 10 seconds)',
-        })}\n\n`;
-        controller.enqueue(encoder.encode(connectMessage));
-
-        // Store last close price for each symbol to detect changes
-        const lastPrices: Record<string, number> = {};
-
-        // Poll Fyers chart data every 10 seconds for latest candle
-        const pollInterval = setInterval(async () => {
-          try {
-            // For each symbol, fetch the latest data
-            for (const symbol of symbols) {
-              const today = new Date();
-              const fromDate = new Date(today);
-              fromDate.setDate(fromDate.getDate() - 2); // Go back 2 days to account for Fyers range adjustment
-
-              const fromStr = fromDate.toISOString().split('T')[0];
-              const toStr = today.toISOString().split('T')[0];
-
-              // Check if this is an option symbol (contains CE or PE)
-              const isOption = symbol.includes('CE') || symbol.includes('PE');
-
-              let url: string;
-              if (isOption) {
-                // For options, we need to extract base symbol, expiry, and strike from the symbol
-                // Symbol formats:
-                // - Weekly: NSE:NIFTY26011325700CE (YYMMdd + strike + CE/PE)
-                // - Monthly: NSE:NIFTY26JAN25700CE (YYMM[M] + strike + CE/PE)
-                console.log(`[STREAM-PRICES] Detected option symbol: ${symbol}`);
-
-                // Try parsing weekly format first: NSE:BASE(5digits)(5digits)CE/PE
-                let match = symbol.match(/NSE:([A-Z]+)(\d{6})(\d{5})(CE|PE)/);
-                let textExpiry: string = '';
-                let baseSymbol: string = '';
-                let strike: string = '';
-
-                if (match) {
-                  // Weekly format: 260113 → 13JAN
-                  baseSymbol = match[1];
-                  const numericExpiry = match[2]; // 260113
-                  strike = match[3];
-                  const optionType = match[4];
-
-                  // Parse YYMMdd: 260113 → YY=26, MM=01, dd=13
-                  const yearPart = numericExpiry.substring(0, 2); // 26
-                  const monthPart = numericExpiry.substring(2, 4); // 01
-                  const dayPart = numericExpiry.substring(4, 6); // 13
-
-                  const monthMap: { [key: string]: string } = {
-                    '01': 'JAN', '02': 'FEB', '03': 'MAR', '04': 'APR',
-                    '05': 'MAY', '06': 'JUN', '07': 'JUL', '08': 'AUG',
-                    '09': 'SEP', '10': 'OCT', '11': 'NOV', '12': 'DEC'
-                  };
-
-                  const monthName = monthMap[monthPart] || 'JAN';
-                  textExpiry = `${parseInt(dayPart)}${monthName}`; // 13JAN
-
-                  console.log(`[STREAM-PRICES] Parsed weekly option: base=${baseSymbol}, expiry=${textExpiry}, strike=${strike}`);
-                } else {
-                  // Try monthly format: NSE:NIFTY26JAN25700CE
-                  match = symbol.match(/NSE:([A-Z]+)(26[A-Z]{3})(\d{5})(CE|PE)/);
-                  if (match) {
-                    baseSymbol = match[1];
-                    const textExpiryPart = match[2]; // 26JAN
-                    strike = match[3];
-                    const optionType = match[4];
-
-                    // Extract just the month name: 26JAN → JAN
-                    textExpiry = textExpiryPart.substring(2); // JAN
-
-                    console.log(`[STREAM-PRICES] Parsed monthly option: base=${baseSymbol}, expiry=${textExpiry}, strike=${strike}`);
-                  } else {
-                    console.warn(`[STREAM-PRICES] Could not parse option symbol: ${symbol}`);
-                    continue;
-                  }
-                }
-
-                url = `/api/options/historical?symbol=${baseSymbol}&expiry=${textExpiry}&strike=${strike}&userId=${encodeURIComponent(userId)}&from=${fromStr}&to=${toStr}&interval=1`;
-                console.log(`[STREAM-PRICES] Option URL: ${url}`);
-              } else {
-                // Regular equity/futures symbol
-                url = `/api/chart/historical?symbol=${encodeURIComponent(symbol)}&interval=1minute&userId=${encodeURIComponent(userId)}&from=${fromStr}&to=${toStr}&includeToday=true`;
-              }
-
-              const response = await fetch(`${request.nextUrl.origin}${url}`, {
-                method: 'GET',
-                cache: 'no-store',
-              });
-
-              if (response.ok) {
-                const chartData = await response.json();
-                const data = chartData.data || [];
-
-                if (data.length > 0) {
-                  // Get the latest candle
-                  const latestCandle = data[data.length - 1];
-                  const close = latestCandle.close;
-
-                  console.log(`[STREAM-PRICES] ${symbol}: Got price ${close}`);
-
-                  // Only send tick if price changed
-                  if (!lastPrices[symbol] || lastPrices[symbol] !== close) {
-                    lastPrices[symbol] = close;
-
-                    const tickMessage = `data: ${JSON.stringify({
-                      type: 'tick',
-                      symbol,
-                      data: {
-                        last_price: close,
-                        change: 0, // Fyers data doesn't include change in this format
-                        volume: latestCandle.volume || 0,
-                        ohlc: {
-                          open: latestCandle.open,
-                          high: latestCandle.high,
-                          low: latestCandle.low,
-                          close: latestCandle.close,
-                        },
-                        timestamp: new Date(latestCandle.time).toISOString(),
-                      },
-                    })}\n\n`;
-                    controller.enqueue(encoder.encode(tickMessage));
-                  }
-                } else {
-                  console.warn(`[STREAM-PRICES] No data returned for ${symbol}`);
-                }
-              } else {
-                const errorText = await response.text();
-                console.error(`[STREAM-PRICES] Failed to fetch ${symbol}: ${response.status}`, errorText);
-              }
-            }
-          } catch (err) {
-            console.error('[STREAM-PRICES] Fyers polling error:', err);
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    start(controller) {
+      console.log(`[STREAM-PRICES] ${broker} client connected for symbols: ${Array.from(symbolToToken.keys()).join(', ')}`);
+
+      const streamId = registerPriceStream({
+        userId,
+        broker,
+        update: async ({ add, remove, mode: nextMode }) => {
+          removeSymbols(remove);
+          if (nextMode && nextMode !== mode) {
+            mode = nextMode;
+            lease.subscribe(Array.from(symbolToToken.values()), mode);
+          }
+          const rejected = await addSymbols(add);
+          return { symbols: Array.from(symbolToToken.keys()), rejected };
+        },
+      });
+
+      // Send initial connection message
+      const connectMessage = `data: ${JSON.stringify({
+        type: 'connected',
+        streamId,
+        broker,
+        mode,
+        symbols: Array.from(symbolToToken.keys()),
+        tokens: Array.from(symbolToToken.values()),
+        ...(rejectedSymbols.length > 0 && { rejected: rejectedSymbols }),
+      })}\n\n`;
+      controller.enqueue(encoder.encode(connectMessage));
+
+      // Handle tick updates (the connection's ticks include other streams' instruments)
+      const tickHandler = (ticks: TickData[]) => {
+        ticks.forEach((tick) => {
+          for (const [symbol, token] of symbolToToken) {
+            if (token !== tick.instrument_token) continue;
+
+            const message = `data: ${JSON.stringify({
+              type: 'tick',
+              symbol,
+              data: tickForMode(tick, mode),
+            })}\n\n`;
+
+            controller.enqueue(encoder.encode(message));
           }
-        }, 10000); // Poll every 10 seconds
-
-        // Send heartbeat every 30 seconds
-        const heartbeatInterval = setInterval(() => {
-          const heartbeat = `data: ${JSON.stringify({
-            type: 'heartbeat',
-            timestamp: new Date().toISOString(),
-          })}\n\n`;
-          controller.enqueue(encoder.encode(heartbeat));
-        }, 30000);
-
-        // Cleanup on disconnect
-        request.signal.addEventListener('abort', () => {
-          console.log('[STREAM-PRICES] Fyers client disconnected');
-          clearInterval(pollInterval);
-          clearInterval(heartbeatInterval);
-          controller.close();
         });
-      },
-    });
-
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
-  }
-
-  return new Response('Unsupported broker', { status: 400 });
+      };
+
+      lease.feed.on('ticks', tickHandler);
+
+      // Send heartbeat every 30 seconds
+      const heartbeatInterval = setInterval(() => {
+        const heartbeat = `data: ${JSON.stringify({ type: 'heartbeat', timestamp: new Date().toISOString() })}\n\n`;
+        controller.enqueue(encoder.encode(heartbeat));
+      }, 30000);
+
+      // Cleanup on disconnect (releasing the lease drops only this stream's subscriptions)
+      request.signal.addEventListener('abort', () => {
+        console.log('[STREAM-PRICES] Client disconnected, cleaning up...');
+        unregisterPriceStream(streamId);
+        lease.feed.off('ticks', tickHandler);
+        lease.release();
+        clearInterval(heartbeatInterval);
+        controller.close();
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
 }
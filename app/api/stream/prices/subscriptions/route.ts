@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { getPriceStream } from '@/lib/websocket/priceStreams';
+import { isTickMode } from '@/lib/websocket/subscriptions';
+import { TickMode } from '@/lib/websocket/tickerService';
+
+interface UpdatePriceStreamRequest {
+  streamId?: string;
+  add?: string[];
+  remove?: string[];
+  mode?: string;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * POST /api/stream/prices/subscriptions
+ * Add or remove symbols (or change the tick mode) on an open price stream
+ * Body: { streamId, add?: string[], remove?: string[], mode?: 'ltp' | 'quote' | 'full' }
+ * Requires: Firebase ID token in Authorization header
+ *
+ * Returns 404 when the stream isn't open on this server instance; reconnect instead
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get Firebase ID token from Authorization header
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.substring(7);
+
+    // Verify the token
+    let decodedToken;
+    try {
+      decodedToken = await adminAuth.verifyIdToken(idToken);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    const body: UpdatePriceStreamRequest = await request.json();
+
+    // Validate request
+    if (!body.streamId) {
+      return NextResponse.json(
+        { error: 'Missing required field: streamId' },
+        { status: 400 }
+      );
+    }
+
+    const add = body.add ?? [];
+    const remove = body.remove ?? [];
+    if (!isStringArray(add) || !isStringArray(remove)) {
+      return NextResponse.json(
+        { error: 'add and remove must be arrays of symbols' },
+        { status: 400 }
+      );
+    }
+
+    let mode: TickMode | undefined;
+    if (body.mode !== undefined) {
+      if (!isTickMode(body.mode)) {
+        return NextResponse.json(
+          { error: 'Invalid mode. Must be one of: ltp, quote, full' },
+          { status: 400 }
+        );
+      }
+      mode = body.mode;
+    }
+
+    const session = getPriceStream(body.streamId);
+    if (!session || session.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Stream not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await session.update({ add, remove, mode });
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('Error updating price stream:', error);
+    return NextResponse.json(
+      { error: 'Failed to update price stream' },
+      { status: 500 }
+    );
+  }
+}
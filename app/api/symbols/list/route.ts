@@ -1,21 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllZerodhaSymbols } from '@/lib/zerodhaSymbolLoader';
+import { listInstruments, loadInstruments } from '@/lib/instrumentMaster';
 
 /**
  * GET /api/symbols/list?broker=zerodha
  * Get list of all available symbols for a broker
- * Uses LOCAL JSON (zerodhasymbol.json) - NO FIREBASE READS
+ * Lists the broker's equities and indices from the instrument master (OpenAlgo symbols)
  */
 export async function GET(request: NextRequest) {
   try {
     const broker = request.nextUrl.searchParams.get('broker') || 'zerodha';
 
     if (broker === 'zerodha') {
-      // ✅ USE LOCAL JSON (NO FIREBASE READ!)
-      const allSymbols = getAllZerodhaSymbols();
-      const symbolNames = allSymbols.map(s => s.symbol);
+      if (!(await loadInstruments('zerodha'))) {
+        return NextResponse.json(
+          { error: 'Zerodha instruments could not be loaded' },
+          { status: 503 }
+        );
+      }
 
-      console.log(`[Symbols] Returning ${symbolNames.length} Zerodha symbols from local JSON`);
+      const symbolNames = listInstruments()
+        .filter(s => s.brokers.zerodha && (s.instrumentType === 'EQ' || s.instrumentType === 'INDEX'))
+        .map(s => s.symbol);
+
+      console.log(`[Symbols] Returning ${symbolNames.length} Zerodha symbols from the instrument master`);
 
       return NextResponse.json(
         {
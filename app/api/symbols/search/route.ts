@@ -1,10 +1,10 @@
 /**
  * GET /api/symbols/search
- * Search for symbols in the cache
+ * Search the instrument master by OpenAlgo symbol
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getSymbolCache } from '@/lib/symbolCache';
+import { listInstruments, loadInstruments } from '@/lib/instrumentMaster';
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,30 +18,26 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const cache = getSymbolCache();
-
-    // Check if cache is loaded
-    if (!cache.isReady()) {
+    // Check if the master is loaded
+    if (!(await loadInstruments('zerodha'))) {
       return NextResponse.json({
         success: false,
-        error: 'Symbol cache not initialized. Please load RELIANCE on the chart first to initialize the cache.',
+        error: 'Instrument master not loaded. Zerodha instruments could not be downloaded.',
         isReady: false,
       });
     }
 
-    const allSymbols = cache.getAllSymbols();
-
     // Search for symbols containing the query (case insensitive)
-    const results = allSymbols
-      .filter(s => s.symbol.toUpperCase().includes(query.toUpperCase()))
+    const results = listInstruments()
+      .filter(s => s.symbol.includes(query.toUpperCase()))
       .slice(0, 50)  // Limit to 50 results
       .map(s => ({
         symbol: s.symbol,
-        token: s.token,
+        token: s.brokers.zerodha?.token ?? null,
         exchange: s.exchange,
         expiry: s.expiry,
-        strikePrice: s.strikePrice,
-        optionType: s.optionType,
+        strikePrice: s.strike,
+        optionType: s.instrumentType === 'CE' || s.instrumentType === 'PE' ? s.instrumentType : null,
       }));
 
     return NextResponse.json({
@@ -6,9 +6,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getCachedBrokerConfig } from '@/lib/brokerConfigUtils';
-import { getInstrumentToken } from '@/lib/websocket/instrumentMapping';
 import { decryptData } from '@/lib/encryptionUtils';
-import { getSymbolCache } from '@/lib/symbolCache';
+import { resolveBrokerInstrument } from '@/lib/instrumentMaster';
 import { calculateVolumeProfile } from '@/lib/indicators/volumeProfile';
 import { adminDb } from '@/lib/firebaseAdmin';
 
@@ -58,14 +57,8 @@ export async function GET(request: NextRequest) {
       ? encryptedAccessToken.split(':')[1]
       : encryptedAccessToken;
 
-    // Ensure symbol cache is loaded
-    const symbolCache = getSymbolCache();
-    if (!symbolCache.isReady()) {
-      await symbolCache.load(apiKey, accessToken);
-    }
-
     // Get RELIANCE instrument token
-    const instrumentToken = getInstrumentToken('RELIANCE');
+    const instrumentToken = Number((await resolveBrokerInstrument('zerodha', 'RELIANCE')).token);
     if (!instrumentToken) {
       return NextResponse.json(
         { error: 'RELIANCE symbol not found' },
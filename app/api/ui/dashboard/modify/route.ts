@@ -41,7 +41,7 @@ export async function POST(request: NextRequest) {
 
     // Authenticate using utility function
     const authHeader = request.headers.get('authorization');
-    const authResult = await authenticateOrderRequest(authHeader, body.apikey);
+    const authResult = await authenticateOrderRequest(request, authHeader, body.apikey);
 
     if (!authResult.success) {
       return authErrorResponse(authResult.error!);
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminAuth } from '@/lib/firebaseAdmin';
 import { callInternalBrokerEndpoint } from '@/lib/internalRouting';
+import { checkPreTradeRisk } from '@/lib/riskEngine';
+import { resolveContinuousSymbol } from '@/lib/continuousFutures';
 
 /**
  * POST /api/ui/dashboard/place
@@ -48,13 +50,25 @@ export async function POST(request: NextRequest) {
     const { broker = 'zerodha', ...order } = orderData;
 
     // Validate required fields
-    if (!order.symbol || !order.action || !order.quantity || !order.product || !order.pricetype) {
+    if (!order.symbol || !order.exchange || !order.action || !order.quantity || !order.product || !order.pricetype) {
       return NextResponse.json(
-        { error: 'Missing required order fields: symbol, action, quantity, product, pricetype' },
+        { error: 'Missing required order fields: symbol, exchange, action, quantity, product, pricetype' },
         { status: 400 }
       );
     }
 
+    // Continuous futures (NIFTY-I) trade today's contract
+    order.symbol = resolveContinuousSymbol(order.symbol);
+
+    // Pre-trade risk checks
+    const risk = await checkPreTradeRisk(userId, broker, order, 'dashboard');
+    if (!risk.allowed) {
+      return NextResponse.json(
+        { error: risk.message, reasons: risk.reasons },
+        { status: 403 }
+      );
+    }
+
     // Prepare broker-specific payload
     let brokerPayload: any = {
       userId,
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey, requirePermission, requireOrderRateLimit, getClientIp } from '@/lib/apiKeyAuth';
+import { BasketOrderRequest, BasketOrderResponse, BasketOrderResult } from '@/lib/types/openalgo';
+import { placeInternalOrder } from '@/lib/internalRouting';
+import { groupBasketLegs, validateBasketLeg } from '@/lib/multiOrderUtils';
+import { recordOrderLog } from '@/lib/orderLog';
+
+/**
+ * POST /api/v1/basketorder
+ * OpenAlgo-compatible basket order endpoint
+ * Places every leg through the user's broker adapter
+ * Set buy_first: true to place all BUY legs before SELL legs (margin benefit)
+ * Authentication: API key in request body
+ */
+export async function POST(request: NextRequest) {
+  const startedAt = Date.now();
+
+  try {
+    const body: BasketOrderRequest = await request.json();
+
+    const authResult = await authenticateApiKey(body.apikey, request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { keyId, userId, broker, permissions } = authResult.context;
+    const permissionError = requirePermission(permissions, 'placeorder');
+    if (permissionError) {
+      return permissionError;
+    }
+
+    // Validate basket
+    if (!Array.isArray(body.orders) || body.orders.length === 0) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'Missing required field: orders (non-empty array)',
+        },
+        { status: 400 }
+      );
+    }
+
+    for (let i = 0; i < body.orders.length; i++) {
+      const legError = validateBasketLeg(body.orders[i]);
+      if (legError) {
+        return NextResponse.json(
+          {
+            status: 'error',
+            message: `Order ${i + 1}: ${legError}`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Every leg counts against the key's rate limit
+    const rateLimitError = await requireOrderRateLimit(authResult.context, request, body.orders.length);
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+
+    // Place legs phase by phase (BUY phase completes before SELL phase when buy_first is set)
+    const results: BasketOrderResult[] = [];
+    for (const phase of groupBasketLegs(body.orders, body.buy_first === true)) {
+      const phaseResults = await Promise.all(
+        phase.map(async (leg) => {
+          const result = await placeInternalOrder(broker, userId, {
+            ...leg,
+            strategy: body.strategy,
+          }, 'basket');
+          return {
+            symbol: leg.symbol,
+            exchange: leg.exchange,
+            action: leg.action,
+            ...result,
+          };
+        })
+      );
+      results.push(...phaseResults);
+    }
+
+    const failed = results.filter((r) => r.status === 'error').length;
+    const response: BasketOrderResponse = {
+      status: failed === 0 ? 'success' : 'error',
+      message: failed === 0
+        ? `All ${results.length} orders placed`
+        : `${failed} of ${results.length} orders failed`,
+      orders: results,
+    };
+
+    const status = failed === results.length ? 400 : 200;
+    await recordOrderLog({
+      userId,
+      apiKeyId: keyId,
+      broker,
+      action: 'place',
+      endpoint: 'basketorder',
+      payload: body,
+      response,
+      httpStatus: status,
+      latencyMs: Date.now() - startedAt,
+      sourceIp: getClientIp(request),
+    });
+
+    return NextResponse.json(response, { status });
+  } catch (error: any) {
+    console.error('Error in basketorder API:', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        message: error.message || 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
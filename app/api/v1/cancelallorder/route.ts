@@ -1,26 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticateApiKey, requirePermission } from '@/lib/apiKeyAuth';
+import { authenticateApiKey, requirePermission, requireOrderRateLimit, getClientIp } from '@/lib/apiKeyAuth';
 import { CancelAllOrdersRequest, OrderResponse } from '@/lib/types/openalgo';
-import { callInternalBrokerEndpoint } from '@/lib/internalRouting';
+import { getBrokerAdapter, unsupportedBrokerResult } from '@/lib/brokers';
+import { recordOrderLog } from '@/lib/orderLog';
 
 /**
  * POST /api/v1/cancelallorder
  * OpenAlgo-compatible cancel all orders endpoint
- * Thin router that calls internal broker endpoint
+ * Thin router that calls the user's broker adapter
  */
 export async function POST(request: NextRequest) {
+  const startedAt = Date.now();
+
   try {
     const body: CancelAllOrdersRequest = await request.json();
-    const authResult = await authenticateApiKey(body.apikey);
+    const authResult = await authenticateApiKey(body.apikey, request);
     if (!authResult.success) return authResult.response;
 
-    const { userId, broker, permissions } = authResult.context;
+    const { keyId, userId, broker, permissions } = authResult.context;
     const permissionError = requirePermission(permissions, 'cancelorder');
     if (permissionError) return permissionError;
 
-    // Call internal broker endpoint
-    const { data, status } = await callInternalBrokerEndpoint(broker, 'cancel-all-orders', {
+    const rateLimitError = await requireOrderRateLimit(authResult.context, request);
+    if (rateLimitError) return rateLimitError;
+
+    const adapter = getBrokerAdapter(broker);
+    if (!adapter) {
+      const { data, status } = unsupportedBrokerResult(broker);
+      return NextResponse.json(data, { status });
+    }
+
+    const { data, status } = await adapter.cancelAllOrders(userId);
+
+    await recordOrderLog({
       userId,
+      apiKeyId: keyId,
+      broker,
+      action: 'cancelall',
+      endpoint: 'cancelallorder',
+      payload: body,
+      response: data,
+      httpStatus: status,
+      latencyMs: Date.now() - startedAt,
+      sourceIp: getClientIp(request),
     });
 
     return NextResponse.json(data, { status });
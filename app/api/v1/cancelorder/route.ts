@@ -1,25 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticateApiKey, requirePermission } from '@/lib/apiKeyAuth';
+import { authenticateApiKey, requirePermission, requireOrderRateLimit, getClientIp } from '@/lib/apiKeyAuth';
 import { CancelOrderRequest, OrderResponse } from '@/lib/types/openalgo';
-import { callInternalBrokerEndpoint } from '@/lib/internalRouting';
+import { getBrokerAdapter, unsupportedBrokerResult } from '@/lib/brokers';
+import { recordOrderLog } from '@/lib/orderLog';
 
 /**
  * POST /api/v1/cancelorder
  * OpenAlgo-compatible cancel order endpoint
- * Thin router that calls internal broker endpoint
+ * Thin router that calls the user's broker adapter
  * Authentication: API key in request body
  */
 export async function POST(request: NextRequest) {
+  const startedAt = Date.now();
+
   try {
     const body: CancelOrderRequest = await request.json();
 
     // Authenticate using API key
-    const authResult = await authenticateApiKey(body.apikey);
+    const authResult = await authenticateApiKey(body.apikey, request);
     if (!authResult.success) {
       return authResult.response;
     }
 
-    const { userId, broker, permissions } = authResult.context;
+    const { keyId, userId, broker, permissions } = authResult.context;
 
     // Check permission
     const permissionError = requirePermission(permissions, 'cancelorder');
@@ -27,6 +30,11 @@ export async function POST(request: NextRequest) {
       return permissionError;
     }
 
+    const rateLimitError = await requireOrderRateLimit(authResult.context, request);
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+
     // Validate required fields
     if (!body.orderid) {
       return NextResponse.json(
@@ -38,10 +46,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Call internal broker endpoint
-    const { data, status } = await callInternalBrokerEndpoint(broker, 'cancel-order', {
+    const adapter = getBrokerAdapter(broker);
+    if (!adapter) {
+      const { data, status } = unsupportedBrokerResult(broker);
+      return NextResponse.json(data, { status });
+    }
+
+    const { data, status } = await adapter.cancelOrder(userId, body.orderid);
+
+    await recordOrderLog({
       userId,
-      orderid: body.orderid,
+      apiKeyId: keyId,
+      broker,
+      action: 'cancel',
+      endpoint: 'cancelorder',
+      payload: body,
+      response: data,
+      httpStatus: status,
+      latencyMs: Date.now() - startedAt,
+      sourceIp: getClientIp(request),
     });
 
     return NextResponse.json(data, { status });
@@ -1,29 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticateApiKey, requirePermission } from '@/lib/apiKeyAuth';
+import { authenticateApiKey, requirePermission, requireOrderRateLimit, getClientIp } from '@/lib/apiKeyAuth';
 import { ClosePositionRequest, OrderResponse } from '@/lib/types/openalgo';
-import { callInternalBrokerEndpoint } from '@/lib/internalRouting';
+import { getBrokerAdapter, unsupportedBrokerResult } from '@/lib/brokers';
+import { recordOrderLog } from '@/lib/orderLog';
 
 /**
  * POST /api/v1/closeposition
  * OpenAlgo-compatible close position endpoint
- * Thin router that calls internal broker endpoint
+ * Thin router that calls the user's broker adapter
  * Authentication: API key in request body
  */
 export async function POST(request: NextRequest) {
+  const startedAt = Date.now();
+
   try {
     const body: ClosePositionRequest = await request.json();
 
-    const authResult = await authenticateApiKey(body.apikey);
+    const authResult = await authenticateApiKey(body.apikey, request);
     if (!authResult.success) {
       return authResult.response;
     }
 
-    const { userId, broker, permissions } = authResult.context;
+    const { keyId, userId, broker, permissions } = authResult.context;
     const permissionError = requirePermission(permissions, 'closeposition');
     if (permissionError) {
       return permissionError;
     }
 
+    const rateLimitError = await requireOrderRateLimit(authResult.context, request);
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+
     // Validate required fields
     if (!body.symbol || !body.exchange || !body.product) {
       return NextResponse.json(
@@ -35,24 +43,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Call internal broker endpoint with broker-specific field mapping
-    let brokerPayload: any = {
-      userId,
-      symbol: body.symbol,
-      exchange: body.exchange,
-      producttype: body.product, // Default for Zerodha/Angel
-    };
-
-    // Fyers uses 'productType' instead of 'producttype'
-    if (broker === 'fyers') {
-      brokerPayload = {
-        userId,
-        symbol: body.symbol,
-        productType: body.product,
-      };
+    const adapter = getBrokerAdapter(broker);
+    if (!adapter) {
+      const { data, status } = unsupportedBrokerResult(broker);
+      return NextResponse.json(data, { status });
     }
 
-    const { data, status } = await callInternalBrokerEndpoint(broker, 'close-position', brokerPayload);
+    const { data, status } = await adapter.closePosition(userId, body.symbol, body.exchange, body.product);
+
+    await recordOrderLog({
+      userId,
+      apiKeyId: keyId,
+      broker,
+      action: 'close',
+      endpoint: 'closeposition',
+      payload: body,
+      response: data,
+      httpStatus: status,
+      latencyMs: Date.now() - startedAt,
+      sourceIp: getClientIp(request),
+    });
 
     return NextResponse.json(data, { status });
   } catch (error) {
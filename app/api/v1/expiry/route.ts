@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/apiKeyAuth';
+import { ExpiryRequest } from '@/lib/types/openalgo';
+import { instrumentExpiries, loadInstrumentsFor } from '@/lib/instrumentMaster';
+import { formatExpiry } from '@/lib/symbolApiUtils';
+
+const KINDS = { futures: 'FUT', options: 'OPT' } as const;
+
+/**
+ * POST /api/v1/expiry
+ * Listed expiries (DD-MMM-YY, soonest first) of an underlying's futures and options
+ * Optional: exchange (any derivative exchange when omitted), instrumenttype (futures or options)
+ * Authentication: API key in request body
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: ExpiryRequest = await request.json();
+
+    const authResult = await authenticateApiKey(body.apikey, request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    if (!body.symbol) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'Missing required field: symbol',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.instrumenttype && body.instrumenttype !== 'futures' && body.instrumenttype !== 'options') {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'instrumenttype must be futures or options',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(await loadInstrumentsFor(authResult.context.broker))) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'Instrument data is not available, try again shortly',
+        },
+        { status: 503 }
+      );
+    }
+
+    const symbol = body.symbol.toUpperCase();
+    const kind = body.instrumenttype ? KINDS[body.instrumenttype] : undefined;
+    const data = instrumentExpiries(symbol, body.exchange, kind).map(formatExpiry);
+    const scope = `${symbol} ${body.instrumenttype || 'futures and options'}${body.exchange ? ` in ${body.exchange.toUpperCase()}` : ''}`;
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        message: `Found ${data.length} expiry dates for ${scope}`,
+        data,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error in expiry API:', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        message: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
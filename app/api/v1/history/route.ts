@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey, requirePermission } from '@/lib/apiKeyAuth';
+import { HistoryRequest, HistoryCandle } from '@/lib/types/openalgo';
+import { getHistoricalCandles } from '@/lib/ohlcStore';
+import { OPENALGO_INTERVALS, openAlgoTimeframe } from '@/lib/timeframes';
+
+/**
+ * POST /api/v1/history
+ * OpenAlgo-compatible historical candles, served from the local OHLC store like
+ * /api/chart/historical (the user's Zerodha or Fyers login supplies the data)
+ * Dates are YYYY-MM-DD; today's candles, including the forming one, are included
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: HistoryRequest = await request.json();
+    const authResult = await authenticateApiKey(body.apikey, request);
+    if (!authResult.success) return authResult.response;
+
+    const { userId, permissions } = authResult.context;
+    const permissionError = requirePermission(permissions, 'viewmarketdata');
+    if (permissionError) return permissionError;
+
+    if (!body.symbol || !body.exchange || !body.interval || !body.start_date || !body.end_date) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing required fields: symbol, exchange, interval, start_date, end_date' },
+        { status: 400 }
+      );
+    }
+
+    const timeframe = openAlgoTimeframe(body.interval);
+    if (!timeframe) {
+      const valid = OPENALGO_INTERVALS.map((entry) => entry.interval).join(', ');
+      return NextResponse.json(
+        { status: 'error', message: `Invalid interval: ${body.interval}. Valid intervals: ${valid}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await getHistoricalCandles({
+      userId,
+      symbol: `${body.exchange.toUpperCase()}:${body.symbol}`,
+      interval: timeframe,
+      from: body.start_date,
+      to: body.end_date,
+      includeToday: true,
+    });
+    if (!result.success) {
+      return NextResponse.json({ status: 'error', message: result.error }, { status: result.status });
+    }
+
+    const data: HistoryCandle[] = result.data.map((candle) => ({
+      timestamp: candle.time,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+    }));
+
+    return NextResponse.json({ status: 'success', data }, { status: 200 });
+  } catch (error) {
+    console.error('Error in history API:', error);
+    return NextResponse.json({ status: 'error', message: 'Internal server error' }, { status: 500 });
+  }
+}
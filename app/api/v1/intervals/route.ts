@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey, requirePermission } from '@/lib/apiKeyAuth';
+import { IntervalsRequest, IntervalsData } from '@/lib/types/openalgo';
+import { OPENALGO_INTERVALS } from '@/lib/timeframes';
+
+/**
+ * POST /api/v1/intervals
+ * OpenAlgo-compatible list of the intervals /api/v1/history accepts, grouped by unit
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: IntervalsRequest = await request.json();
+    const authResult = await authenticateApiKey(body.apikey, request);
+    if (!authResult.success) return authResult.response;
+
+    const permissionError = requirePermission(authResult.context.permissions, 'viewmarketdata');
+    if (permissionError) return permissionError;
+
+    const data: IntervalsData = { seconds: [], minutes: [], hours: [], days: [], weeks: [], months: [] };
+    for (const { interval, unit } of OPENALGO_INTERVALS) {
+      data[unit].push(interval);
+    }
+
+    return NextResponse.json({ status: 'success', data }, { status: 200 });
+  } catch (error) {
+    console.error('Error in intervals API:', error);
+    return NextResponse.json({ status: 'error', message: 'Internal server error' }, { status: 500 });
+  }
+}
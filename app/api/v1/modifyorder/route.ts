@@ -1,25 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticateApiKey, requirePermission } from '@/lib/apiKeyAuth';
+import { authenticateApiKey, requirePermission, requireOrderRateLimit, getClientIp } from '@/lib/apiKeyAuth';
 import { ModifyOrderRequest, OrderResponse } from '@/lib/types/openalgo';
-import { callInternalBrokerEndpoint } from '@/lib/internalRouting';
+import { getBrokerAdapter, unsupportedBrokerResult } from '@/lib/brokers';
+import { recordOrderLog } from '@/lib/orderLog';
+import { resolveContinuousSymbol } from '@/lib/continuousFutures';
 
 /**
  * POST /api/v1/modifyorder
  * OpenAlgo-compatible modify order endpoint
- * Thin router that calls internal broker endpoint
+ * Thin router that calls the user's broker adapter
  * Authentication: API key in request body
  */
 export async function POST(request: NextRequest) {
+  const startedAt = Date.now();
+
   try {
     const body: ModifyOrderRequest = await request.json();
 
     // Authenticate
-    const authResult = await authenticateApiKey(body.apikey);
+    const authResult = await authenticateApiKey(body.apikey, request);
     if (!authResult.success) {
       return authResult.response;
     }
 
-    const { userId, broker, permissions } = authResult.context;
+    const { keyId, userId, broker, permissions } = authResult.context;
 
     // Check permission
     const permissionError = requirePermission(permissions, 'modifyorder');
@@ -27,6 +31,11 @@ export async function POST(request: NextRequest) {
       return permissionError;
     }
 
+    const rateLimitError = await requireOrderRateLimit(authResult.context, request);
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+
     // Validate required fields
     if (!body.orderid || !body.quantity || body.price === undefined) {
       return NextResponse.json(
@@ -38,11 +47,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Call internal broker endpoint with broker-specific field mapping
-    let brokerPayload: any = {
-      userId,
+    const adapter = getBrokerAdapter(broker);
+    if (!adapter) {
+      const { data, status } = unsupportedBrokerResult(broker);
+      return NextResponse.json(data, { status });
+    }
+
+    const { data, status } = await adapter.modifyOrder(userId, {
       orderid: body.orderid,
-      symbol: body.symbol,
+      symbol: body.symbol && resolveContinuousSymbol(body.symbol),
       exchange: body.exchange,
       action: body.action,
       quantity: body.quantity,
@@ -51,25 +64,21 @@ export async function POST(request: NextRequest) {
       price: body.price,
       trigger_price: body.trigger_price,
       disclosed_quantity: body.disclosed_quantity,
-      symboltoken: body.token, // Map OpenAlgo 'token' to broker 'symboltoken'
-    };
-
-    // Fyers uses different field names - map OpenAlgo fields to Fyers format
-    if (broker === 'fyers') {
-      brokerPayload = {
-        userId,
-        orderid: body.orderid,
-        symbol: body.symbol,
-        qty: body.quantity,
-        side: body.action, // OpenAlgo 'action' (BUY/SELL) maps to Fyers 'side'
-        type: body.pricetype || 'MARKET', // OpenAlgo 'pricetype' maps to Fyers 'type'
-        productType: body.product, // OpenAlgo 'product' maps to Fyers 'productType'
-        price: body.price,
-        stopPrice: body.trigger_price,
-      };
-    }
+      token: body.token,
+    });
 
-    const { data, status } = await callInternalBrokerEndpoint(broker, 'modify-order', brokerPayload);
+    await recordOrderLog({
+      userId,
+      apiKeyId: keyId,
+      broker,
+      action: 'modify',
+      endpoint: 'modifyorder',
+      payload: body,
+      response: data,
+      httpStatus: status,
+      latencyMs: Date.now() - startedAt,
+      sourceIp: getClientIp(request),
+    });
 
     return NextResponse.json(data, { status });
   } catch (error) {
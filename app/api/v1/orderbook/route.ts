@@ -1,19 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateApiKey, requirePermission } from '@/lib/apiKeyAuth';
 import { OrderBookRequest, ApiResponse, OrderBookItem } from '@/lib/types/openalgo';
-import { callInternalBrokerEndpoint } from '@/lib/internalRouting';
+import { getBrokerAdapter, unsupportedBrokerResult } from '@/lib/brokers';
 
 /**
  * POST /api/v1/orderbook
  * OpenAlgo-compatible order book endpoint
- * Thin router that calls internal broker endpoint
+ * Thin router that calls the user's broker adapter
  * Authentication: API key in request body
  */
 export async function POST(request: NextRequest) {
   try {
     const body: OrderBookRequest = await request.json();
 
-    const authResult = await authenticateApiKey(body.apikey);
+    const authResult = await authenticateApiKey(body.apikey, request);
     if (!authResult.success) {
       return authResult.response;
     }
@@ -24,10 +24,13 @@ export async function POST(request: NextRequest) {
       return permissionError;
     }
 
-    // Call internal broker endpoint
-    const { data, status } = await callInternalBrokerEndpoint(broker, 'orderbook', {
-      userId,
-    });
+    const adapter = getBrokerAdapter(broker);
+    if (!adapter) {
+      const { data, status } = unsupportedBrokerResult(broker);
+      return NextResponse.json(data, { status });
+    }
+
+    const { data, status } = await adapter.orderbook(userId);
 
     return NextResponse.json(data, { status });
   } catch (error) {
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey, requirePermission } from '@/lib/apiKeyAuth';
+import { OrderLogRequest } from '@/lib/types/openalgo';
+import { parseOrderLogFilters } from '@/lib/orderLogUtils';
+import { queryOrderLog } from '@/lib/orderLog';
+
+/**
+ * POST /api/v1/orderlog
+ * Order audit log: one entry per v1 order action (place/modify/cancel/close/cancel-all)
+ * Optional filters: strategy, symbol, action, outcome, start_date, end_date, limit
+ * Returns entries newest first across all of the user's API keys
+ * Authentication: API key in request body
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: OrderLogRequest = await request.json();
+
+    const authResult = await authenticateApiKey(body.apikey, request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { userId, permissions } = authResult.context;
+    const permissionError = requirePermission(permissions, 'vieworders');
+    if (permissionError) {
+      return permissionError;
+    }
+
+    const parsed = parseOrderLogFilters({ ...body });
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: parsed.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    const entries = await queryOrderLog(userId, parsed.filters);
+
+    return NextResponse.json({ status: 'success', data: entries }, { status: 200 });
+  } catch (error) {
+    console.error('Error in orderlog API:', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        message: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
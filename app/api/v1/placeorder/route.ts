@@ -1,25 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticateApiKey, requirePermission } from '@/lib/apiKeyAuth';
+import { authenticateApiKey, requirePermission, requireOrderRateLimit, getClientIp } from '@/lib/apiKeyAuth';
 import { PlaceOrderRequest, OrderResponse } from '@/lib/types/openalgo';
-import { callInternalBrokerEndpoint } from '@/lib/internalRouting';
+import { getBrokerAdapter, unsupportedBrokerResult } from '@/lib/brokers';
+import { fail } from '@/lib/brokers/shared';
+import { recordOrderLog } from '@/lib/orderLog';
+import { checkPreTradeRisk } from '@/lib/riskEngine';
+import { resolveContinuousSymbol } from '@/lib/continuousFutures';
 
 /**
  * POST /api/v1/placeorder
  * OpenAlgo-compatible place order endpoint (ROUTER)
- * Thin router that routes to broker-specific internal endpoints
+ * Thin router that routes to the user's broker adapter
  * Authentication: API key in request body
  */
 export async function POST(request: NextRequest) {
+  const startedAt = Date.now();
+
   try {
     const body: PlaceOrderRequest = await request.json();
 
     // Authenticate using API key from request body
-    const authResult = await authenticateApiKey(body.apikey);
+    const authResult = await authenticateApiKey(body.apikey, request);
     if (!authResult.success) {
       return authResult.response;
     }
 
-    const { userId, broker, permissions } = authResult.context;
+    const { keyId, userId, broker, permissions } = authResult.context;
 
     // Check if API key has placeorder permission
     const permissionError = requirePermission(permissions, 'placeorder');
@@ -27,6 +33,11 @@ export async function POST(request: NextRequest) {
       return permissionError;
     }
 
+    const rateLimitError = await requireOrderRateLimit(authResult.context, request);
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+
     // Validate required fields
     if (!body.exchange || !body.symbol || !body.action || !body.quantity) {
       return NextResponse.json(
@@ -38,47 +49,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Route to broker-specific internal endpoint
-    if (broker === 'zerodha' || broker === 'angel') {
-      const { data, status } = await callInternalBrokerEndpoint(broker, 'place-order', {
-        userId,
-        symbol: body.symbol,
-        exchange: body.exchange,
-        action: body.action,
-        quantity: body.quantity,
-        product: body.product || 'MIS',
-        pricetype: body.pricetype || 'MARKET',
-        price: body.price || 0,
-        trigger_price: body.trigger_price || 0,
-        disclosed_quantity: body.disclosed_quantity || 0,
-        symboltoken: body.token, // Map OpenAlgo 'token' to broker 'symboltoken'
-        strategy: body.strategy,
-      });
-
+    const adapter = getBrokerAdapter(broker);
+    if (!adapter) {
+      const { data, status } = unsupportedBrokerResult(broker);
       return NextResponse.json(data, { status });
-    } else if (broker === 'fyers') {
-      // Fyers uses different field names - map OpenAlgo fields to Fyers format
-      const { data, status } = await callInternalBrokerEndpoint(broker, 'place-order', {
-        userId,
-        symbol: body.symbol,
-        qty: body.quantity,
-        side: body.action, // OpenAlgo 'action' (BUY/SELL) maps to Fyers 'side'
-        type: body.pricetype || 'MARKET', // OpenAlgo 'pricetype' maps to Fyers 'type'
-        productType: body.product || 'MIS', // OpenAlgo 'product' maps to Fyers 'productType'
-        price: body.price || 0,
-        stopPrice: body.trigger_price || 0,
-      });
-
-      return NextResponse.json(data, { status });
-    } else {
-      return NextResponse.json(
-        {
-          status: 'error',
-          message: `Broker '${broker}' is not yet supported`,
-        },
-        { status: 400 }
-      );
     }
+
+    // Continuous futures (NIFTY-I) trade today's contract
+    const order = { ...body, symbol: resolveContinuousSymbol(body.symbol) };
+
+    // Risk rejections are logged like any other failed order
+    const risk = await checkPreTradeRisk(userId, broker, order, 'api');
+    const { data, status } = risk.allowed
+      ? await adapter.placeOrder(userId, order)
+      : fail(risk.message, 403);
+
+    await recordOrderLog({
+      userId,
+      apiKeyId: keyId,
+      broker,
+      action: 'place',
+      endpoint: 'placeorder',
+      payload: body,
+      response: data,
+      httpStatus: status,
+      latencyMs: Date.now() - startedAt,
+      sourceIp: getClientIp(request),
+    });
+
+    return NextResponse.json(data, { status });
   } catch (error: any) {
     console.error('Error in placeorder router:', error);
     return NextResponse.json(
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey, requirePermission, requireOrderRateLimit, getClientIp } from '@/lib/apiKeyAuth';
+import { SmartOrderRequest } from '@/lib/types/openalgo';
+import { placeInternalSmartOrder } from '@/lib/internalRouting';
+import { recordOrderLog } from '@/lib/orderLog';
+
+/**
+ * POST /api/v1/placesmartorder
+ * OpenAlgo-compatible smart order endpoint
+ * Places the BUY/SELL quantity needed to reach position_size
+ * (reads the current net position from the broker's positions endpoint)
+ * position_size 0 closes the position; no order is placed if already at target
+ * Authentication: API key in request body
+ */
+export async function POST(request: NextRequest) {
+  const startedAt = Date.now();
+
+  try {
+    const body: SmartOrderRequest = await request.json();
+
+    const authResult = await authenticateApiKey(body.apikey, request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { keyId, userId, broker, permissions } = authResult.context;
+    const permissionError = requirePermission(permissions, 'placeorder');
+    if (permissionError) {
+      return permissionError;
+    }
+
+    const rateLimitError = await requireOrderRateLimit(authResult.context, request);
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+
+    // Validate required fields
+    const positionSize = Number(body.position_size);
+    if (!body.exchange || !body.symbol || !body.action || body.position_size === undefined || !Number.isInteger(positionSize)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'Missing required fields: exchange, symbol, action, position_size (integer)',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await placeInternalSmartOrder(broker, userId, body, positionSize);
+
+    const status = result.status === 'success' ? 200 : 400;
+    await recordOrderLog({
+      userId,
+      apiKeyId: keyId,
+      broker,
+      action: 'place',
+      endpoint: 'placesmartorder',
+      payload: body,
+      response: result,
+      httpStatus: status,
+      latencyMs: Date.now() - startedAt,
+      sourceIp: getClientIp(request),
+    });
+
+    return NextResponse.json(result, { status });
+  } catch (error: any) {
+    console.error('Error in placesmartorder API:', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        message: error.message || 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey, requirePermission } from '@/lib/apiKeyAuth';
+import { QuotesRequest } from '@/lib/types/openalgo';
+import { getBrokerAdapter, unsupportedBrokerResult } from '@/lib/brokers';
+
+/**
+ * POST /api/v1/quotes
+ * OpenAlgo-compatible quote endpoint: LTP, best bid/ask, OHLC, volume and OI
+ * Thin router that calls the user's broker adapter
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: QuotesRequest = await request.json();
+    const authResult = await authenticateApiKey(body.apikey, request);
+    if (!authResult.success) return authResult.response;
+
+    const { userId, broker, permissions } = authResult.context;
+    const permissionError = requirePermission(permissions, 'viewmarketdata');
+    if (permissionError) return permissionError;
+
+    if (!body.symbol || !body.exchange) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing required fields: symbol, exchange' },
+        { status: 400 }
+      );
+    }
+
+    const adapter = getBrokerAdapter(broker);
+    if (!adapter) {
+      const { data, status } = unsupportedBrokerResult(broker);
+      return NextResponse.json(data, { status });
+    }
+
+    const { data, status } = await adapter.quotes(userId, body.symbol, body.exchange);
+
+    return NextResponse.json(data, { status });
+  } catch (error) {
+    console.error('Error in quotes API:', error);
+    return NextResponse.json({ status: 'error', message: 'Internal server error' }, { status: 500 });
+  }
+}
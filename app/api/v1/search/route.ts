@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/apiKeyAuth';
+import { SearchRequest } from '@/lib/types/openalgo';
+import { loadInstrumentsFor, searchInstruments } from '@/lib/instrumentMaster';
+import { parseSearchOptions, toSymbolData } from '@/lib/symbolApiUtils';
+
+/**
+ * POST /api/v1/search
+ * Ranked fuzzy search over instruments by symbol or name ("sbin", "nifty 20000 ce", "state bank")
+ * Optional filters: exchange, instrumenttype (EQ, INDEX, FUT, CE, PE, OPT), limit
+ * Authentication: API key in request body
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: SearchRequest = await request.json();
+
+    const authResult = await authenticateApiKey(body.apikey, request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    if (!body.query || typeof body.query !== 'string' || !body.query.trim()) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'Missing required field: query',
+        },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseSearchOptions({ ...body });
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: parsed.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { broker } = authResult.context;
+    if (!(await loadInstrumentsFor(broker))) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'Instrument data is not available, try again shortly',
+        },
+        { status: 503 }
+      );
+    }
+
+    const data = searchInstruments(body.query, parsed.options).map((instrument) => toSymbolData(instrument, broker));
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        message: `Found ${data.length} matching symbols`,
+        data,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error in search API:', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        message: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
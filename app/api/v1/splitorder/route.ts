@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey, requirePermission, requireOrderRateLimit, getClientIp } from '@/lib/apiKeyAuth';
+import { SplitOrderRequest, SplitOrderResponse, SplitOrderResult } from '@/lib/types/openalgo';
+import { placeInternalOrder } from '@/lib/internalRouting';
+import { splitQuantity, MAX_SPLIT_ORDERS } from '@/lib/multiOrderUtils';
+import { recordOrderLog } from '@/lib/orderLog';
+
+/**
+ * POST /api/v1/splitorder
+ * OpenAlgo-compatible split order endpoint
+ * Slices a large quantity into child orders of at most splitsize
+ * Child orders are placed sequentially to stay within broker rate limits
+ * Authentication: API key in request body
+ */
+export async function POST(request: NextRequest) {
+  const startedAt = Date.now();
+
+  try {
+    const body: SplitOrderRequest = await request.json();
+
+    const authResult = await authenticateApiKey(body.apikey, request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { keyId, userId, broker, permissions } = authResult.context;
+    const permissionError = requirePermission(permissions, 'placeorder');
+    if (permissionError) {
+      return permissionError;
+    }
+
+    // Validate required fields
+    if (!body.exchange || !body.symbol || !body.action || !body.quantity || !body.splitsize) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'Missing required fields: exchange, symbol, action, quantity, splitsize',
+        },
+        { status: 400 }
+      );
+    }
+
+    const quantity = Number(body.quantity);
+    const splitsize = Number(body.splitsize);
+    if (!Number.isInteger(quantity) || !Number.isInteger(splitsize) || quantity <= 0 || splitsize <= 0) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'quantity and splitsize must be positive integers',
+        },
+        { status: 400 }
+      );
+    }
+
+    const slices = splitQuantity(quantity, splitsize);
+    if (slices.length > MAX_SPLIT_ORDERS) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: `Split would create ${slices.length} orders (maximum ${MAX_SPLIT_ORDERS}). Increase splitsize.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Every child order counts against the key's rate limit
+    const rateLimitError = await requireOrderRateLimit(authResult.context, request, slices.length);
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+
+    const results: SplitOrderResult[] = [];
+    for (let i = 0; i < slices.length; i++) {
+      const result = await placeInternalOrder(broker, userId, {
+        symbol: body.symbol,
+        exchange: body.exchange,
+        action: body.action,
+        quantity: slices[i],
+        product: body.product,
+        pricetype: body.pricetype,
+        price: body.price,
+        trigger_price: body.trigger_price,
+        disclosed_quantity: body.disclosed_quantity,
+        strategy: body.strategy,
+      }, 'split');
+      results.push({ order_num: i + 1, quantity: slices[i], ...result });
+    }
+
+    const failed = results.filter((r) => r.status === 'error').length;
+    const response: SplitOrderResponse = {
+      status: failed === 0 ? 'success' : 'error',
+      message: failed === 0
+        ? `All ${results.length} child orders placed`
+        : `${failed} of ${results.length} child orders failed`,
+      split_size: splitsize,
+      total_quantity: quantity,
+      results,
+    };
+
+    const status = failed === results.length ? 400 : 200;
+    await recordOrderLog({
+      userId,
+      apiKeyId: keyId,
+      broker,
+      action: 'place',
+      endpoint: 'splitorder',
+      payload: body,
+      response,
+      httpStatus: status,
+      latencyMs: Date.now() - startedAt,
+      sourceIp: getClientIp(request),
+    });
+
+    return NextResponse.json(response, { status });
+  } catch (error: any) {
+    console.error('Error in splitorder API:', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        message: error.message || 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
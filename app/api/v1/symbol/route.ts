@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiKey } from '@/lib/apiKeyAuth';
+import { SymbolRequest } from '@/lib/types/openalgo';
+import { findInstrument, loadInstrumentsFor } from '@/lib/instrumentMaster';
+import { toSymbolData } from '@/lib/symbolApiUtils';
+
+/**
+ * POST /api/v1/symbol
+ * Instrument details for an OpenAlgo symbol: lot size, tick size, expiry, strike,
+ * freeze quantity, and the key's broker's symbol and token
+ * Authentication: API key in request body
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: SymbolRequest = await request.json();
+
+    const authResult = await authenticateApiKey(body.apikey, request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    if (!body.symbol || !body.exchange) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'Missing required fields: symbol, exchange',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { broker } = authResult.context;
+    if (!(await loadInstrumentsFor(broker))) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: 'Instrument data is not available, try again shortly',
+        },
+        { status: 503 }
+      );
+    }
+
+    const exchange = body.exchange.toUpperCase();
+    const instrument = findInstrument(body.symbol, exchange);
+    if (!instrument || instrument.exchange !== exchange) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          message: `Symbol ${body.symbol} not found on ${exchange}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'success', data: toSymbolData(instrument, broker) }, { status: 200 });
+  } catch (error) {
+    console.error('Error in symbol API:', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        message: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
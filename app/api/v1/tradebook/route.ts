@@ -1,27 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateApiKey, requirePermission } from '@/lib/apiKeyAuth';
 import { TradeBookRequest, ApiResponse, TradeBookItem } from '@/lib/types/openalgo';
-import { callInternalBrokerEndpoint } from '@/lib/internalRouting';
+import { getBrokerAdapter, unsupportedBrokerResult } from '@/lib/brokers';
 
 /**
  * POST /api/v1/tradebook
  * OpenAlgo-compatible trade book endpoint
- * Thin router that calls internal broker endpoint
+ * Thin router that calls the user's broker adapter
  */
 export async function POST(request: NextRequest) {
   try {
     const body: TradeBookRequest = await request.json();
-    const authResult = await authenticateApiKey(body.apikey);
+    const authResult = await authenticateApiKey(body.apikey, request);
     if (!authResult.success) return authResult.response;
 
     const { userId, broker, permissions } = authResult.context;
     const permissionError = requirePermission(permissions, 'vieworders');
     if (permissionError) return permissionError;
 
-    // Call internal broker endpoint
-    const { data, status } = await callInternalBrokerEndpoint(broker, 'tradebook', {
-      userId,
-    });
+    const adapter = getBrokerAdapter(broker);
+    if (!adapter) {
+      const { data, status } = unsupportedBrokerResult(broker);
+      return NextResponse.json(data, { status });
+    }
+
+    const { data, status } = await adapter.tradebook(userId);
 
     return NextResponse.json(data, { status });
   } catch (error) {
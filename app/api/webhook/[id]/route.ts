@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStrategyByWebhookId, recordStrategyTrigger } from '@/lib/strategyUtils';
+import { parseWebhookSignal, resolveSignalOrder, resolveTargetPosition } from '@/lib/strategySignals';
+import { placeInternalOrder, placeInternalSmartOrder } from '@/lib/internalRouting';
+
+/**
+ * POST /api/webhook/{webhookId}
+ * Strategy webhook endpoint for AmiBroker and TradingView alerts
+ * Authentication: the webhook ID itself (generated per strategy)
+ *
+ * AmiBroker body: { "symbol": "RELIANCE", "action": "BUY", "position_size": 1 }
+ * TradingView body: { "ticker": "{{ticker}}", "action": "{{strategy.order.action}}", "contracts": "{{strategy.order.contracts}}" }
+ *
+ * Symbol, exchange, product and quantity come from the stored strategy
+ * position_size 0 closes the position; in BOTH mode a non-zero position_size
+ * is the target position (placed as a smart order against broker positions)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: webhookId } = await params;
+
+    // TradingView sends alerts as text/plain, so parse the raw body ourselves
+    const rawBody = await request.text();
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch (error) {
+      return NextResponse.json(
+        { status: 'error', message: 'Invalid JSON payload' },
+        { status: 400 }
+      );
+    }
+
+    const strategy = await getStrategyByWebhookId(webhookId);
+    if (!strategy) {
+      return NextResponse.json(
+        { status: 'error', message: 'Invalid webhook ID' },
+        { status: 404 }
+      );
+    }
+
+    if (strategy.status !== 'active') {
+      return NextResponse.json(
+        { status: 'error', message: `Strategy '${strategy.name}' is paused` },
+        { status: 403 }
+      );
+    }
+
+    const signal = parseWebhookSignal(payload);
+    if (!signal) {
+      return NextResponse.json(
+        { status: 'error', message: 'Missing or invalid field: action (expected BUY or SELL)' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[WEBHOOK] Signal for strategy ${strategy.id} (${strategy.mode}):`, signal);
+
+    // Target-position signals go through the smart order flow
+    const targetPosition = resolveTargetPosition(strategy.mode, signal);
+    if (targetPosition !== null) {
+      const result = await placeInternalSmartOrder(
+        strategy.broker,
+        strategy.userId,
+        {
+          symbol: strategy.symbol,
+          exchange: strategy.exchange,
+          action: signal.action,
+          quantity: Math.abs(targetPosition),
+          product: strategy.product,
+          pricetype: 'MARKET',
+          strategy: strategy.name,
+        },
+        targetPosition,
+        'webhook'
+      );
+
+      if (result.status !== 'success') {
+        console.error(`[WEBHOOK] Smart order failed for strategy ${strategy.id}:`, result);
+        return NextResponse.json(result, { status: 400 });
+      }
+
+      await recordStrategyTrigger(strategy.id, targetPosition);
+      return NextResponse.json(result, { status: 200 });
+    }
+
+    const resolution = resolveSignalOrder(
+      strategy.mode,
+      strategy.position || 0,
+      signal.action,
+      signal.quantity || strategy.quantity
+    );
+
+    if (!resolution.execute) {
+      console.log(`[WEBHOOK] Signal ignored for strategy ${strategy.id}: ${resolution.reason}`);
+      return NextResponse.json(
+        { status: 'success', message: `Signal ignored: ${resolution.reason}` },
+        { status: 200 }
+      );
+    }
+
+    // Resolves continuous futures (NIFTY-I) and runs the pre-trade risk checks
+    const data = await placeInternalOrder(
+      strategy.broker,
+      strategy.userId,
+      {
+        symbol: strategy.symbol,
+        exchange: strategy.exchange,
+        action: resolution.action,
+        quantity: resolution.quantity,
+        product: strategy.product,
+        pricetype: 'MARKET',
+        strategy: strategy.name,
+      },
+      'webhook'
+    );
+
+    if (data.status !== 'success') {
+      console.error(`[WEBHOOK] Order failed for strategy ${strategy.id}:`, data);
+      return NextResponse.json(data, { status: 400 });
+    }
+
+    await recordStrategyTrigger(strategy.id, resolution.nextPosition);
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        orderid: data.orderid,
+        action: resolution.action,
+        quantity: resolution.quantity,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error in strategy webhook:', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        message: error.message || 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -26,7 +26,8 @@ export default function BrokerConfigPage() {
   const [editMode, setEditMode] = useState(false);
 
   const brokerConfig = selectedBroker ? getBrokerConfig(selectedBroker) : null;
-  const allBrokers = getAllBrokers();
+  // Paper trading has no credentials to configure
+  const allBrokers = getAllBrokers().filter((b) => b.requiresApiKey);
 
   useEffect(() => {
     if (!user && !loading) {
@@ -151,8 +152,8 @@ export default function BrokerConfigPage() {
     setSuccess('');
     setIsLoading(true);
 
-    if (!apiKey || !apiSecret) {
-      setError('API Key and API Secret are required');
+    if (!apiKey || (brokerConfig?.requiresApiSecret && !apiSecret)) {
+      setError(brokerConfig?.requiresApiSecret ? 'API Key and API Secret are required' : 'API Key is required');
       setIsLoading(false);
       return;
     }
@@ -168,7 +169,7 @@ export default function BrokerConfigPage() {
         body: JSON.stringify({
           broker: selectedBroker,
           apiKey,
-          apiSecret,
+          ...(apiSecret && { apiSecret }),
           ...(pin && { pin }), // Include PIN if provided
         }),
       });
@@ -196,11 +197,19 @@ export default function BrokerConfigPage() {
     setIsLoading(true);
 
     if (!requestToken) {
-      setError('Request Token is required');
+      setError(selectedBroker === 'dhan' ? 'Access Token is required' : 'Request Token is required');
       setIsLoading(false);
       return;
     }
 
+    // Dhan takes a pasted access token; Upstox exchanges the pasted code with the callback redirect URI
+    let authFields: Record<string, string> = { requestToken };
+    if (selectedBroker === 'dhan') {
+      authFields = { accessToken: requestToken };
+    } else if (selectedBroker === 'upstox') {
+      authFields = { authCode: requestToken, redirectUri: `${window.location.origin}/callback` };
+    }
+
     try {
       const idToken = await user?.getIdToken();
       const response = await fetch('/api/broker/authenticate', {
@@ -211,7 +220,7 @@ export default function BrokerConfigPage() {
         },
         body: JSON.stringify({
           broker: selectedBroker,
-          requestToken,
+          ...authFields,
         }),
       });
 
@@ -459,7 +468,9 @@ export default function BrokerConfigPage() {
             </div>
 
             <div>
-              <label className="block text-sm font-medium text-gray-700">API Key</label>
+              <label className="block text-sm font-medium text-gray-700">
+                {selectedBroker === 'dhan' ? 'Client ID' : 'API Key'}
+              </label>
               {credentialsExist && !editMode ? (
                 <input
                   type="text"
@@ -473,7 +484,7 @@ export default function BrokerConfigPage() {
                   value={apiKey}
                   onChange={(e) => setApiKey(e.target.value)}
                   className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
-                  placeholder={`Your ${brokerConfig?.displayName} API Key`}
+                  placeholder={`Your ${brokerConfig?.displayName} ${selectedBroker === 'dhan' ? 'Client ID' : 'API Key'}`}
                   required
                 />
               )}
@@ -587,6 +598,37 @@ export default function BrokerConfigPage() {
             </details>
           </div>
         )}
+        {/* Dhan has no OAuth login: the access token is generated on web.dhan.co and pasted here */}
+        {selectedBroker === 'dhan' && credentialsExist && (
+          <div className="rounded-lg bg-white p-6 shadow">
+            <h2 className="mb-6 text-2xl font-semibold text-gray-900">Step 2: Authenticate</h2>
+            <p className="mb-6 text-gray-600">
+              Generate an access token under My Profile → Access DhanHQ APIs on web.dhan.co and paste it below.
+            </p>
+
+            <form onSubmit={handleAuthenticate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Access Token</label>
+                <input
+                  type="password"
+                  value={requestToken}
+                  onChange={(e) => setRequestToken(e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                  placeholder="Your Dhan access token"
+                  required
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full rounded-lg bg-green-600 px-6 py-2 font-medium text-white transition hover:bg-green-700 disabled:opacity-50"
+              >
+                {isLoading ? 'Authenticating...' : 'Authenticate with Dhan'}
+              </button>
+            </form>
+          </div>
+        )}
       </main>
     </div>
   );
@@ -76,6 +76,14 @@ function CallbackPageContent() {
         return;
       }
 
+      if (broker === 'upstox' && !authCode) {
+        setStatus('error');
+        setMessage('Invalid Upstox callback. Missing authorization code.');
+        sessionStorage.removeItem('authenticatingBroker');
+        setTimeout(() => router.push('/broker/config'), 3000);
+        return;
+      }
+
       if (broker === 'fyers') {
         const fyersError = searchParams.get('error');
         if (fyersError) {
@@ -159,6 +167,10 @@ function CallbackPageContent() {
         } else if (broker === 'fyers') {
           // Fyers returns authCode after OAuth - exchange it for access token
           body.authCode = authCode;
+        } else if (broker === 'upstox') {
+          // Upstox returns ?code=... - the token exchange must repeat the login redirect URI
+          body.authCode = authCode;
+          body.redirectUri = `${window.location.origin}/callback`;
         }
 
         const response = await fetch('/api/broker/authenticate', {
@@ -2,11 +2,14 @@
 
 import { useState, useEffect } from 'react';
 import FibonacciTradingChart from '@/components/FibonacciTradingChart';
+import { ChartTypeSelector } from '@/components/ChartTypeSelector';
 import { useRealtimePrice } from '@/hooks/useRealtimePrice';
+import { DEFAULT_CHART_TYPE } from '@/lib/indicators/barTransforms';
 
 export default function FibonacciChartPage() {
-  const [symbol, setSymbol] = useState('NIFTY26JANFUT');
+  const [symbol, setSymbol] = useState('NIFTY-I');
   const [interval, setInterval] = useState('60minute');
+  const [chartType, setChartType] = useState(DEFAULT_CHART_TYPE);
   const [chartHeight, setChartHeight] = useState(600);
   const [lookbackDays, setLookbackDays] = useState(50);
   const userId = 'ZnT1kjZKElV6NJte2wgoDU5dF8j2';
@@ -84,8 +87,8 @@ export default function FibonacciChartPage() {
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900"
               >
                 <optgroup label="Futures Contracts">
-                  <option value="NIFTY26JANFUT">NIFTY 26 Jan Futures</option>
-                  <option value="NIFTY29JANFUT">NIFTY 29 Jan Futures</option>
+                  <option value="NIFTY-I">NIFTY Near Month Futures</option>
+                  <option value="NIFTY-II">NIFTY Next Month Futures</option>
                 </optgroup>
                 <optgroup label="Stocks">
                   <option value="RELIANCE">RELIANCE</option>
@@ -111,6 +114,12 @@ export default function FibonacciChartPage() {
               </select>
             </div>
 
+            {/* Chart Type */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Chart Type</label>
+              <ChartTypeSelector value={chartType} onChange={setChartType} />
+            </div>
+
             {/* Lookback Days */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Lookback Days</label>
@@ -206,6 +215,7 @@ export default function FibonacciChartPage() {
           <FibonacciTradingChart
             symbol={symbol}
             interval={interval}
+            chartType={chartType}
             userId={userId}
             height={chartHeight}
             lookbackDays={lookbackDays}
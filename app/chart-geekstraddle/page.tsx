@@ -19,8 +19,11 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/lib/AuthContext';
 import { AdvancedTradingChart, ChartData, IndicatorConfig } from '@/components/AdvancedTradingChart';
+import { ChartTypeSelector } from '@/components/ChartTypeSelector';
 import { useRealtimePrice } from '@/hooks/useRealtimePrice';
 import { calculateStraddleGreeks, type OptionsGreeksInput } from '@/lib/indicators/optionsGreeks';
+import { DEFAULT_CHART_TYPE } from '@/lib/indicators/barTransforms';
+import { EXPIRY_SELECTORS, daysToExpiry, expiryCode, parseExpiry, resolveExpiry } from '@/lib/expiryCalendar';
 
 const TIMEFRAMES = [
   { label: '1m', value: 'minute' },
@@ -47,8 +50,9 @@ interface GreeksData {
 export default function GeekStraddleChartPage() {
   const { user } = useAuth();
   const baseSymbol = 'NIFTY'; // Fixed to NIFTY only
-  const [expiry, setExpiry] = useState('JAN');
+  const [expiry, setExpiry] = useState('current-week');
   const [interval, setInterval] = useState('60minute');
+  const [chartType, setChartType] = useState(DEFAULT_CHART_TYPE);
   const [chartData, setChartData] = useState<ChartData[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -96,7 +100,7 @@ export default function GeekStraddleChartPage() {
 
   // Real-time price updates - for spot price display
   const { prices, isConnected } = useRealtimePrice({
-    symbols: [baseSymbol + '26JANFUT'], // Use futures to get spot price
+    symbols: [baseSymbol + '-I'], // Use the near month future to get spot price
   });
 
   // Set responsive chart height
@@ -121,7 +125,7 @@ export default function GeekStraddleChartPage() {
 
   // Update spot price from real-time data
   useEffect(() => {
-    const futuresSymbol = baseSymbol + '26JANFUT';
+    const futuresSymbol = baseSymbol + '-I';
     if (prices[futuresSymbol]?.last_price) {
       setSpotPrice(prices[futuresSymbol].last_price);
     }
@@ -220,34 +224,6 @@ export default function GeekStraddleChartPage() {
     };
   };
 
-  // Helper function to parse expiry string and calculate date
-  const parseExpiryDate = (expiryStr: string): Date => {
-    const monthMap: { [key: string]: number } = {
-      'JAN': 0, 'FEB': 1, 'MAR': 2, 'APR': 3,
-      'MAY': 4, 'JUN': 5, 'JUL': 6, 'AUG': 7,
-      'SEP': 8, 'OCT': 9, 'NOV': 10, 'DEC': 11
-    };
-
-    // Try weekly format: "13JAN" (day + month)
-    const weeklyMatch = expiryStr.match(/^(\d{1,2})([A-Z]{3})$/);
-    if (weeklyMatch) {
-      const day = parseInt(weeklyMatch[1]);
-      const month = monthMap[weeklyMatch[2]];
-      return new Date(2026, month, day);
-    }
-
-    // Try monthly format: "JAN" (month only) - use last day of month
-    const monthlyMatch = expiryStr.match(/^([A-Z]{3})$/);
-    if (monthlyMatch) {
-      const month = monthMap[monthlyMatch[1]];
-      // For monthly options, use the last day of the month
-      const lastDay = new Date(2026, month + 1, 0).getDate();
-      return new Date(2026, month, lastDay);
-    }
-
-    return new Date(); // Fallback
-  };
-
   // Fetch historical data for straddle (CE + PE combined)
   const fetchChartData = async () => {
     if (!user) return;
@@ -265,8 +241,8 @@ export default function GeekStraddleChartPage() {
       const fromUTC = fromDate.toISOString().split('T')[0];
 
       // Calculate days to expiry
-      const expiryDate = parseExpiryDate(expiry);
-      const daysToExp = Math.ceil((expiryDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+      const resolvedExpiry = parseExpiry(baseSymbol, expiry);
+      const daysToExp = resolvedExpiry ? daysToExpiry(resolvedExpiry) : 0;
 
       const params = new URLSearchParams({
         symbol: baseSymbol,
@@ -433,7 +409,8 @@ export default function GeekStraddleChartPage() {
   };
 
   const atmStrike = manualStrike || Math.round(spotPrice / 100) * 100;
-  const displaySymbol = `${baseSymbol}${expiry}${atmStrike}`;
+  const selectedExpiry = parseExpiry(baseSymbol, expiry);
+  const displaySymbol = `${baseSymbol}${selectedExpiry ? expiryCode(selectedExpiry) : expiry}${atmStrike}`;
 
   const getRiskColor = (level: string) => {
     switch (level) {
@@ -494,18 +471,17 @@ export default function GeekStraddleChartPage() {
                 }}
                 className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900 text-sm h-10"
               >
-                <optgroup label="Weekly Expiries (Tuesdays)">
-                  <option value="13JAN">13 JAN (Tuesday)</option>
-                  <option value="20JAN">20 JAN (Tuesday)</option>
-                </optgroup>
-                <optgroup label="Monthly Expiries">
-                  <option value="JAN">JAN (Monthly)</option>
-                  <option value="FEB">FEB (Monthly)</option>
-                  <option value="MAR">MAR (Monthly)</option>
-                </optgroup>
+                {EXPIRY_SELECTORS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label} ({expiryCode(resolveExpiry(baseSymbol, option.value))})
+                  </option>
+                ))}
               </select>
             </div>
 
+            {/* Chart Type */}
+            <ChartTypeSelector value={chartType} onChange={setChartType} />
+
             {/* Timeframe Selector */}
             <div className="flex-shrink-0">
               <select
@@ -815,6 +791,7 @@ export default function GeekStraddleChartPage() {
               data={chartData}
               symbol={displaySymbol}
               interval={interval}
+              chartType={chartType}
               indicators={indicators}
               height={chartHeight}
               greeksData={greeksArray}
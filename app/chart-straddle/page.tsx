@@ -17,7 +17,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/lib/AuthContext';
 import { AdvancedTradingChart, ChartData, IndicatorConfig } from '@/components/AdvancedTradingChart';
+import { ChartTypeSelector } from '@/components/ChartTypeSelector';
 import { useRealtimePrice } from '@/hooks/useRealtimePrice';
+import { DEFAULT_CHART_TYPE } from '@/lib/indicators/barTransforms';
+import { EXPIRY_SELECTORS, daysToExpiry, expiryCode, parseExpiry, resolveExpiry } from '@/lib/expiryCalendar';
 
 const TIMEFRAMES = [
   { label: '1m', value: 'minute' },
@@ -32,9 +35,10 @@ const TIMEFRAMES = [
 export default function StraddleChartPage() {
   const { user } = useAuth();
   const [baseSymbol, setBaseSymbol] = useState('NIFTY');
-  const [expiry, setExpiry] = useState('JAN'); // Monthly expiry
+  const [expiry, setExpiry] = useState('current-week');
   const [customSymbol, setCustomSymbol] = useState('');
   const [interval, setInterval] = useState('60minute');
+  const [chartType, setChartType] = useState(DEFAULT_CHART_TYPE);
   const [chartData, setChartData] = useState<ChartData[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -75,7 +79,7 @@ export default function StraddleChartPage() {
 
   // Real-time price updates - for spot price display
   const { prices, isConnected } = useRealtimePrice({
-    symbols: [baseSymbol + '26JANFUT'], // Use futures to get spot price
+    symbols: [baseSymbol + '-I'], // Use the near month future to get spot price
   });
 
   // Store latest CE/PE prices from chart data
@@ -178,7 +182,7 @@ export default function StraddleChartPage() {
 
   // Update spot price from real-time data
   useEffect(() => {
-    const futuresSymbol = baseSymbol + '26JANFUT';
+    const futuresSymbol = baseSymbol + '-I';
     if (prices[futuresSymbol]?.last_price) {
       setSpotPrice(prices[futuresSymbol].last_price);
     }
@@ -214,42 +218,12 @@ export default function StraddleChartPage() {
     }));
   };
 
-  // Helper function to parse expiry and calculate days
-  const parseExpiryDate = (expiryStr: string): Date => {
-    const monthMap: { [key: string]: number } = {
-      'JAN': 0, 'FEB': 1, 'MAR': 2, 'APR': 3,
-      'MAY': 4, 'JUN': 5, 'JUL': 6, 'AUG': 7,
-      'SEP': 8, 'OCT': 9, 'NOV': 10, 'DEC': 11
-    };
-
-    // Try weekly format: "13JAN" (day + month)
-    const weeklyMatch = expiryStr.match(/^(\d{1,2})([A-Z]{3})$/);
-    if (weeklyMatch) {
-      const day = parseInt(weeklyMatch[1]);
-      const month = monthMap[weeklyMatch[2]];
-      return new Date(2026, month, day);
-    }
-
-    // Try monthly format: "JAN" (month only) - use last day of month
-    const monthlyMatch = expiryStr.match(/^([A-Z]{3})$/);
-    if (monthlyMatch) {
-      const month = monthMap[monthlyMatch[1]];
-      const lastDay = new Date(2026, month + 1, 0).getDate();
-      return new Date(2026, month, lastDay);
-    }
-
-    return new Date(); // Fallback
-  };
-
-  const calculateDaysToExpiry = (): number => {
-    const today = new Date();
-    const expiryDate = parseExpiryDate(expiry);
-    return Math.ceil((expiryDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-  };
+  const resolvedExpiry = parseExpiry(baseSymbol, expiry);
+  const calculateDaysToExpiry = (): number => (resolvedExpiry ? daysToExpiry(resolvedExpiry) : 0);
 
   const displayCeStrike = ceStrike || calculateAtmStrike();
   const displayPeStrike = peStrike || calculateAtmStrike();
-  const displaySymbol = `${baseSymbol}${expiry}(${displayCeStrike}CE/${displayPeStrike}PE)`;
+  const displaySymbol = `${baseSymbol}${resolvedExpiry ? expiryCode(resolvedExpiry) : expiry}(${displayCeStrike}CE/${displayPeStrike}PE)`;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-3 sm:p-4">
@@ -281,18 +255,17 @@ export default function StraddleChartPage() {
                 onChange={(e) => setExpiry(e.target.value)}
                 className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900 text-sm h-10"
               >
-                <optgroup label="Weekly Expiries (Tuesdays)">
-                  <option value="13JAN">13 JAN (Tuesday)</option>
-                  <option value="20JAN">20 JAN (Tuesday)</option>
-                </optgroup>
-                <optgroup label="Monthly Expiries">
-                  <option value="JAN">JAN (Monthly)</option>
-                  <option value="FEB">FEB (Monthly)</option>
-                  <option value="MAR">MAR (Monthly)</option>
-                </optgroup>
+                {EXPIRY_SELECTORS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label} ({expiryCode(resolveExpiry(baseSymbol, option.value))})
+                  </option>
+                ))}
               </select>
             </div>
 
+            {/* Chart Type */}
+            <ChartTypeSelector value={chartType} onChange={setChartType} />
+
             {/* Timeframe Selector */}
             <div className="flex-shrink-0">
               <select
@@ -565,6 +538,7 @@ export default function StraddleChartPage() {
               data={chartData}
               symbol={displaySymbol}
               interval={interval}
+              chartType={chartType}
               indicators={indicators}
               height={chartHeight}
             />
@@ -2,11 +2,15 @@
 
 import { useState, useEffect } from 'react';
 import VidyaTradingChart from '@/components/VidyaTradingChart';
+import { ChartTypeSelector } from '@/components/ChartTypeSelector';
 import { useRealtimePrice } from '@/hooks/useRealtimePrice';
+import { DEFAULT_CHART_TYPE } from '@/lib/indicators/barTransforms';
+import { isMarketOpen } from '@/lib/tradingCalendar';
 
 export default function VidyaChartPage() {
-  const [symbol, setSymbol] = useState('NIFTY26JANFUT');
+  const [symbol, setSymbol] = useState('NIFTY-I');
   const [interval, setInterval] = useState('60minute');
+  const [chartType, setChartType] = useState(DEFAULT_CHART_TYPE);
   const [chartHeight, setChartHeight] = useState(600);
   const [lookbackDays, setLookbackDays] = useState(50);
   const userId = 'ZnT1kjZKElV6NJte2wgoDU5dF8j2';
@@ -60,12 +64,14 @@ export default function VidyaChartPage() {
     return () => window.removeEventListener('resize', updateChartHeight);
   }, []);
 
-  // Auto-refresh trigger - increments every 3 minutes
+  // Auto-refresh trigger - increments every 3 minutes while the market is open
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
   useEffect(() => {
     const interval = window.setInterval(() => {
-      setRefreshTrigger((prev) => prev + 1);
+      if (isMarketOpen('NSE')) {
+        setRefreshTrigger((prev) => prev + 1);
+      }
     }, 3 * 60 * 1000); // 3 minutes in milliseconds
 
     return () => window.clearInterval(interval);
@@ -116,9 +122,9 @@ export default function VidyaChartPage() {
                 onChange={(e) => setSymbol(e.target.value)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 text-gray-900"
               >
-                <option value="NIFTY26JANFUT">NIFTY 26 Jan Futures</option>
-                <option value="NIFTY29JANFUT">NIFTY 29 Jan Futures</option>
-                <option value="BANKNIFTY26JANFUT">BANK NIFTY 26 Jan Futures</option>
+                <option value="NIFTY-I">NIFTY Near Month Futures</option>
+                <option value="NIFTY-II">NIFTY Next Month Futures</option>
+                <option value="BANKNIFTY-I">BANK NIFTY Near Month Futures</option>
                 <option value="RELIANCE">RELIANCE</option>
                 <option value="TCS">TCS</option>
                 <option value="INFY">INFY</option>
@@ -142,6 +148,12 @@ export default function VidyaChartPage() {
               </select>
             </div>
 
+            {/* Chart Type */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Chart Type</label>
+              <ChartTypeSelector value={chartType} onChange={setChartType} />
+            </div>
+
             {/* Lookback Days */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Lookback Days</label>
@@ -312,6 +324,7 @@ export default function VidyaChartPage() {
           <VidyaTradingChart
             symbol={symbol}
             interval={interval}
+            chartType={chartType}
             userId={userId}
             height={chartHeight}
             lookbackDays={lookbackDays}
@@ -9,31 +9,29 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/lib/AuthContext';
 import { AdvancedTradingChart, ChartData, IndicatorConfig } from '@/components/AdvancedTradingChart';
+import { ChartTypeSelector } from '@/components/ChartTypeSelector';
 import { useRealtimePrice } from '@/hooks/useRealtimePrice';
-
-const TIMEFRAMES = [
-  { label: '1m', value: 'minute' },
-  { label: '3m', value: '3minute' },
-  { label: '5m', value: '5minute' },
-  { label: '15m', value: '15minute' },
-  { label: '30m', value: '30minute' },
-  { label: '1h', value: '60minute' },
-  { label: '1D', value: 'day' },
-];
+import { useLiveCandles } from '@/hooks/useLiveCandles';
+import { mergeCandles } from '@/lib/candleBuilder';
+import { TIMEFRAME_OPTIONS, Timeframe, isIntradayTimeframe, timeframeStart } from '@/lib/timeframes';
+import type { Candle } from '@/lib/types/candles';
+import { DEFAULT_CHART_TYPE } from '@/lib/indicators/barTransforms';
 
 export default function ChartPage() {
   const { user } = useAuth();
-  const [symbol, setSymbol] = useState('NIFTY26JANFUT');
+  const [symbol, setSymbol] = useState('NIFTY-I');
   const [customSymbol, setCustomSymbol] = useState('');
-  const [interval, setInterval] = useState('60minute');
+  const [interval, setInterval] = useState<Timeframe>('60minute');
+  const [chartType, setChartType] = useState(DEFAULT_CHART_TYPE);
   const [chartData, setChartData] = useState<ChartData[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [chartHeight, setChartHeight] = useState(600);
   const [lookbackDays, setLookbackDays] = useState(50);
+  const [loadedSeries, setLoadedSeries] = useState<string | null>(null); // symbol|interval|lookback of chartData
 
   const [indicators, setIndicators] = useState<IndicatorConfig>({
     sma: false,
@@ -60,10 +58,24 @@ export default function ChartPage() {
     consolidationMaxDuration: 100,
   });
 
-  // Real-time price updates
-  const { prices, isConnected } = useRealtimePrice({
-    symbols: [symbol],
+  // Intraday candles are built on the server; the stream picks up after the loaded history
+  const isIntraday = isIntradayTimeframe(interval);
+  const mergeLiveCandles = useCallback((candles: Candle[], partial: boolean) => {
+    setChartData((prevData) => mergeCandles(prevData, candles, partial));
+  }, []);
+  const { isConnected: candlesConnected } = useLiveCandles({
+    symbol,
+    interval,
+    since: chartData[chartData.length - 1]?.time,
+    enabled: isIntraday && loadedSeries === `${symbol}|${interval}|${lookbackDays}`,
+    onCandles: mergeLiveCandles,
+  });
+
+  // Real-time price updates (daily candles are updated from these)
+  const { prices, isConnected: pricesConnected } = useRealtimePrice({
+    symbols: isIntraday ? [] : [symbol],
   });
+  const isConnected = isIntraday ? candlesConnected : pricesConnected;
 
   // Set responsive chart height
   useEffect(() => {
@@ -116,6 +128,7 @@ export default function ChartPage() {
 
       if (result.success && result.data) {
         setChartData(result.data);
+        setLoadedSeries(`${symbol}|${interval}|${lookbackDays}`);
       } else {
         throw new Error(result.error || 'Failed to load data');
       }
@@ -134,22 +147,13 @@ export default function ChartPage() {
     }
   }, [user, symbol, interval, lookbackDays]);
 
-  // Update chart with real-time data
+  // Update daily, weekly and monthly charts with real-time prices
   useEffect(() => {
-    if (!prices[symbol] || chartData.length === 0) return;
+    if (isIntraday || !prices[symbol] || chartData.length === 0) return;
 
     const latestPrice = prices[symbol];
     const currentTime = Math.floor(new Date().getTime() / 1000);
 
-    // Calculate interval in seconds
-    const getIntervalSeconds = (intervalStr: string): number => {
-      if (intervalStr === 'day' || intervalStr === '1D') return 86400;
-      const match = intervalStr.match(/(\d+)/);
-      return match ? parseInt(match[1]) * 60 : 60;
-    };
-
-    const intervalSeconds = getIntervalSeconds(interval);
-
     // Update last candle or add new one
     setChartData((prevData) => {
       const newData = [...prevData];
@@ -157,8 +161,8 @@ export default function ChartPage() {
 
       if (lastCandle) {
         // Calculate if we're in the same candle period
-        const lastCandleStartTime = Math.floor(lastCandle.time / intervalSeconds) * intervalSeconds;
-        const currentCandleStartTime = Math.floor(currentTime / intervalSeconds) * intervalSeconds;
+        const lastCandleStartTime = timeframeStart(lastCandle.time, interval);
+        const currentCandleStartTime = timeframeStart(currentTime, interval);
 
         if (lastCandleStartTime === currentCandleStartTime) {
           // Same candle period - update the candle
@@ -181,7 +185,7 @@ export default function ChartPage() {
 
       return newData;
     });
-  }, [prices, symbol, interval]);
+  }, [prices, symbol, interval, isIntraday]);
 
   const handleSymbolSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -250,14 +254,17 @@ export default function ChartPage() {
               </form>
             </div>
 
+            {/* Chart Type */}
+            <ChartTypeSelector value={chartType} onChange={setChartType} />
+
             {/* Timeframe Selector */}
             <div className="flex-shrink-0">
               <select
                 value={interval}
-                onChange={(e) => setInterval(e.target.value)}
+                onChange={(e) => setInterval(e.target.value as Timeframe)}
                 className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900 text-sm"
               >
-                {TIMEFRAMES.map((tf) => (
+                {TIMEFRAME_OPTIONS.map((tf) => (
                   <option key={tf.value} value={tf.value}>
                     {tf.label}
                   </option>
@@ -445,6 +452,7 @@ export default function ChartPage() {
               data={chartData}
               symbol={symbol}
               interval={interval}
+              chartType={chartType}
               indicators={indicators}
               height={chartHeight}
             />
@@ -195,6 +195,7 @@ export default function FyersDebugPage() {
               onClick={() => runTest('Place Order (INFY)', '/api/ui/dashboard/place', {
                 broker: 'fyers',
                 symbol: 'INFY',
+                exchange: 'NSE',
                 action: 'BUY',
                 quantity: 1,
                 product: 'CNC',
@@ -216,6 +217,7 @@ export default function FyersDebugPage() {
               onClick={() => runTest('Place Order (TCS)', '/api/ui/dashboard/place', {
                 broker: 'fyers',
                 symbol: 'TCS',
+                exchange: 'NSE',
                 action: 'BUY',
                 quantity: 1,
                 product: 'CNC',
@@ -235,6 +237,7 @@ export default function FyersDebugPage() {
               onClick={() => runTest('Place Order (TCS-EQ)', '/api/ui/dashboard/place', {
                 broker: 'fyers',
                 symbol: 'TCS-EQ',
+                exchange: 'NSE',
                 action: 'BUY',
                 quantity: 1,
                 product: 'CNC',
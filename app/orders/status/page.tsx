@@ -37,12 +37,58 @@ interface Position {
   [key: string]: any;
 }
 
+interface ActivityEntry {
+  id: string;
+  action: string;
+  endpoint: string;
+  strategy: string | null;
+  symbols: string[];
+  orderids: string[];
+  outcome: 'success' | 'error';
+  message: string | null;
+  httpStatus: number;
+  latencyMs: number;
+  sourceIp: string | null;
+  createdAt: string;
+}
+
+interface ActivityFilters {
+  strategy: string;
+  symbol: string;
+  start_date: string;
+  end_date: string;
+  outcome: string;
+}
+
+type Tab = 'orders' | 'positions' | 'activity';
+
+// Order update pushed by /api/stream/orders
+interface LiveOrderEvent {
+  orderid: string;
+  symbol: string;
+  exchange: string;
+  action: string;
+  quantity: number;
+  filled_quantity: number;
+  status: string;
+  message: string | null;
+  timestamp: string;
+}
+
 export default function OrderStatusPage() {
   const { user, loading } = useAuth();
   const router = useRouter();
   const [orders, setOrders] = useState<Order[]>([]);
   const [positions, setPositions] = useState<Position[]>([]);
-  const [activeTab, setActiveTab] = useState<'orders' | 'positions'>('orders');
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [activityFilters, setActivityFilters] = useState<ActivityFilters>({
+    strategy: '',
+    symbol: '',
+    start_date: '',
+    end_date: '',
+    outcome: '',
+  });
+  const [activeTab, setActiveTab] = useState<Tab>('orders');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isFetching, setIsFetching] = useState(true);
@@ -50,6 +96,9 @@ export default function OrderStatusPage() {
   const [nextRefreshAvailableAt, setNextRefreshAvailableAt] = useState<number>(0);
   const [refreshCooldown, setRefreshCooldown] = useState(0);
   const [selectedBroker, setSelectedBroker] = useState<string | null>(null);
+  const [liveEvents, setLiveEvents] = useState<LiveOrderEvent[]>([]);
+  const [isLive, setIsLive] = useState(false);
+  const [liveRefresh, setLiveRefresh] = useState(0);
 
   // Modal states
   const [showCancelModal, setShowCancelModal] = useState(false);
@@ -105,6 +154,44 @@ export default function OrderStatusPage() {
     }
   }, [user, selectedBroker]);
 
+  // Live order updates over SSE (EventSource can't send headers, so the token goes in the URL)
+  useEffect(() => {
+    if (!user || !selectedBroker) return;
+
+    let eventSource: EventSource | null = null;
+    let closed = false;
+
+    user.getIdToken().then((idToken) => {
+      if (closed) return;
+      eventSource = new EventSource(
+        `/api/stream/orders?broker=${selectedBroker}&token=${encodeURIComponent(idToken)}`
+      );
+      eventSource.onmessage = (message) => {
+        const payload = JSON.parse(message.data);
+        if (payload.type === 'connected') {
+          setIsLive(true);
+        } else if (payload.type === 'order') {
+          setLiveEvents((current) => [payload.data, ...current].slice(0, 5));
+          setLiveRefresh((count) => count + 1);
+        }
+      };
+      eventSource.onerror = () => setIsLive(false);
+    });
+
+    return () => {
+      closed = true;
+      eventSource?.close();
+      setIsLive(false);
+    };
+  }, [user, selectedBroker]);
+
+  // Refresh the order book when an update arrives
+  useEffect(() => {
+    if (liveRefresh > 0 && activeTab === 'orders') {
+      fetchData(true);
+    }
+  }, [liveRefresh]);
+
   // Handle cooldown countdown display
   useEffect(() => {
     if (refreshCooldown <= 0) return;
@@ -127,6 +214,27 @@ export default function OrderStatusPage() {
     return () => clearInterval(interval);
   }, [nextRefreshAvailableAt]);
 
+  // Order audit log (v1 API actions) with the current filters
+  const fetchActivity = async (idToken: string | undefined) => {
+    const params = new URLSearchParams();
+    Object.entries(activityFilters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+
+    const response = await fetch(`/api/orders/activity?${params.toString()}`, {
+      headers: {
+        'Authorization': `Bearer ${idToken}`,
+      },
+    });
+
+    const data = await response.json();
+    if (response.ok) {
+      setActivity(data.entries || []);
+    } else {
+      setError(data.error || 'Failed to fetch activity');
+    }
+  };
+
   const fetchData = async (bypassCooldown: boolean = false) => {
     // Rate limiting: Prevent rapid consecutive refreshes (Zerodha limit: 10 orders/sec)
     // Enforce minimum 2 seconds between refreshes
@@ -157,6 +265,8 @@ export default function OrderStatusPage() {
           const data = await response.json();
           setError(data.error || 'Failed to fetch orders');
         }
+      } else if (activeTab === 'activity') {
+        await fetchActivity(idToken);
       } else {
         const response = await fetch(`/api/orders/positions?broker=${selectedBroker}`, {
           headers: {
@@ -184,7 +294,7 @@ export default function OrderStatusPage() {
     }
   };
 
-  const handleTabChange = async (tab: 'orders' | 'positions') => {
+  const handleTabChange = async (tab: Tab) => {
     setActiveTab(tab);
     setError('');
     setIsLoading(true);
@@ -208,6 +318,8 @@ export default function OrderStatusPage() {
           const data = await response.json();
           setError(data.error || 'Failed to fetch orders');
         }
+      } else if (tab === 'activity') {
+        await fetchActivity(idToken);
       } else {
         const response = await fetch('/api/orders/positions?broker=zerodha', {
           headers: {
@@ -371,6 +483,9 @@ export default function OrderStatusPage() {
                   Last refreshed: {lastRefreshTime.toLocaleTimeString()}
                 </span>
               )}
+              <span className={`text-xs ${isLive ? 'text-green-600' : 'text-gray-400'}`}>
+                {isLive ? '● Live order updates' : '○ Live updates offline'}
+              </span>
             </div>
           </div>
 
@@ -396,6 +511,16 @@ export default function OrderStatusPage() {
             >
               Positions ({positions.length})
             </button>
+            <button
+              onClick={() => handleTabChange('activity')}
+              className={`px-4 py-2 font-medium transition border-b-2 ${
+                activeTab === 'activity'
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Activity
+            </button>
           </div>
         </div>
       </header>
@@ -408,6 +533,23 @@ export default function OrderStatusPage() {
           </div>
         )}
 
+        {liveEvents.length > 0 && (
+          <div className="mb-6 rounded-lg bg-white p-4 shadow">
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">Recent Order Updates</h3>
+            <ul className="space-y-1 text-sm text-gray-700">
+              {liveEvents.map((event) => (
+                <li key={`${event.orderid}-${event.status}-${event.filled_quantity}`}>
+                  <span className="text-gray-500">{new Date(event.timestamp).toLocaleTimeString()}</span>{' '}
+                  {event.action} {event.quantity} {event.exchange}:{event.symbol} →{' '}
+                  <span className="font-medium">{event.status.replace('_', ' ')}</span>
+                  {event.status === 'partially_filled' && ` (${event.filled_quantity}/${event.quantity})`}
+                  {event.message && <span className="text-red-600"> {event.message}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Orders Tab */}
         {activeTab === 'orders' && (
           <div className="overflow-x-auto rounded-lg bg-white shadow">
@@ -559,6 +701,113 @@ export default function OrderStatusPage() {
           </div>
         )}
 
+        {/* Activity Tab */}
+        {activeTab === 'activity' && (
+          <div className="space-y-4">
+            <div className="grid gap-3 rounded-lg bg-white p-4 shadow md:grid-cols-6">
+              <input
+                type="text"
+                placeholder="Strategy"
+                value={activityFilters.strategy}
+                onChange={(e) => setActivityFilters({ ...activityFilters, strategy: e.target.value })}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+              />
+              <input
+                type="text"
+                placeholder="Symbol"
+                value={activityFilters.symbol}
+                onChange={(e) => setActivityFilters({ ...activityFilters, symbol: e.target.value.toUpperCase() })}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+              />
+              <input
+                type="date"
+                value={activityFilters.start_date}
+                onChange={(e) => setActivityFilters({ ...activityFilters, start_date: e.target.value })}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+              />
+              <input
+                type="date"
+                value={activityFilters.end_date}
+                onChange={(e) => setActivityFilters({ ...activityFilters, end_date: e.target.value })}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+              />
+              <select
+                value={activityFilters.outcome}
+                onChange={(e) => setActivityFilters({ ...activityFilters, outcome: e.target.value })}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+              >
+                <option value="">All outcomes</option>
+                <option value="success">Success</option>
+                <option value="error">Error</option>
+              </select>
+              <button
+                onClick={() => fetchData(true)}
+                disabled={isLoading}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                Apply Filters
+              </button>
+            </div>
+
+            <div className="overflow-x-auto rounded-lg bg-white shadow">
+              {activity.length === 0 ? (
+                <div className="p-6 text-center text-gray-600">
+                  {isLoading ? 'Loading activity...' : 'No order activity found'}
+                </div>
+              ) : (
+                <table className="w-full">
+                  <thead className="border-b border-gray-200 bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">Time</th>
+                      <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">Action</th>
+                      <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">Strategy</th>
+                      <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">Symbols</th>
+                      <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">Order IDs</th>
+                      <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">Outcome</th>
+                      <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">Latency</th>
+                      <th className="px-6 py-3 text-left text-sm font-semibold text-gray-900">Source IP</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {activity.map((entry) => (
+                      <tr key={entry.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 text-sm text-gray-500">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {entry.action}
+                          <span className="block text-xs text-gray-500">{entry.endpoint}</span>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">{entry.strategy || '-'}</td>
+                        <td className="px-6 py-4 text-sm font-semibold text-gray-900">
+                          {entry.symbols.length > 0 ? entry.symbols.join(', ') : '-'}
+                        </td>
+                        <td className="px-6 py-4 text-sm font-mono text-gray-900">
+                          {entry.orderids.length > 0 ? entry.orderids.join(', ') : '-'}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <span className={`inline-block rounded-full px-3 py-1 text-xs font-semibold ${
+                            entry.outcome === 'success'
+                              ? 'bg-green-100 text-green-800'
+                              : 'bg-red-100 text-red-800'
+                          }`}>
+                            {entry.outcome}
+                          </span>
+                          {entry.message && (
+                            <span className="mt-1 block text-xs text-red-600">{entry.message}</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">{entry.latencyMs} ms</td>
+                        <td className="px-6 py-4 text-sm font-mono text-gray-500">{entry.sourceIp || '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Info Box */}
         <div className="mt-8 rounded-lg bg-blue-50 p-6">
           <h3 className="mb-3 font-semibold text-blue-900">Order Status Legend</h3>
@@ -239,6 +239,34 @@ export default function Home() {
             <p className="text-gray-600">Generate keys for TradingView, Python, etc.</p>
           </Link>
 
+          {/* Strategies */}
+          <Link
+            href="/strategies"
+            className="block rounded-lg bg-white p-6 shadow transition hover:shadow-lg"
+          >
+            <div className="mb-4 inline-block rounded-lg bg-teal-100 p-3">
+              <svg className="h-6 w-6 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+              </svg>
+            </div>
+            <h3 className="mb-2 text-lg font-semibold text-gray-900">Strategies</h3>
+            <p className="text-gray-600">Webhook URLs for AmiBroker and TradingView signals</p>
+          </Link>
+
+          {/* Risk Management */}
+          <Link
+            href="/risk"
+            className="block rounded-lg bg-white p-6 shadow transition hover:shadow-lg"
+          >
+            <div className="mb-4 inline-block rounded-lg bg-red-100 p-3">
+              <svg className="h-6 w-6 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.040A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+              </svg>
+            </div>
+            <h3 className="mb-2 text-lg font-semibold text-gray-900">Risk Management</h3>
+            <p className="text-gray-600">Order limits, daily max loss and trading hours</p>
+          </Link>
+
           {/* Advanced Chart */}
           <Link
             href="/chart"
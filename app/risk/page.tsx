@@ -0,0 +1,419 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface RiskLock {
+  lockedOn: string;
+  reason: string;
+  squaredOff: boolean;
+  lockedAt: string;
+}
+
+interface RiskRejection {
+  id: string;
+  source: string;
+  broker: string;
+  symbol: string;
+  exchange: string;
+  action: string;
+  quantity: number;
+  price: number | null;
+  reasons: string[];
+  createdAt: string;
+}
+
+// Form fields are kept as strings; empty disables the rule
+interface RiskForm {
+  enabled: boolean;
+  maxOrderQuantity: string;
+  maxOrderValue: string;
+  maxOpenPositions: string;
+  dailyMaxLoss: string;
+  squareOffOnMaxLoss: boolean;
+  allowedSymbols: string;
+  allowedExchanges: string[];
+  allowedProducts: string[];
+  tradingStart: string;
+  tradingEnd: string;
+  marketHoursOnly: boolean;
+  priceBandPercent: string;
+}
+
+const EXCHANGES = ['NSE', 'BSE', 'NFO', 'BFO', 'MCX', 'CDS', 'BCD'];
+const PRODUCTS = ['MIS', 'CNC', 'NRML'];
+
+const EMPTY_FORM: RiskForm = {
+  enabled: false,
+  maxOrderQuantity: '',
+  maxOrderValue: '',
+  maxOpenPositions: '',
+  dailyMaxLoss: '',
+  squareOffOnMaxLoss: false,
+  allowedSymbols: '',
+  allowedExchanges: [],
+  allowedProducts: [],
+  tradingStart: '',
+  tradingEnd: '',
+  marketHoursOnly: false,
+  priceBandPercent: '',
+};
+
+const toField = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+const toLimit = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export default function RiskPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [form, setForm] = useState<RiskForm>(EMPTY_FORM);
+  const [lock, setLock] = useState<RiskLock | null>(null);
+  const [rejections, setRejections] = useState<RiskRejection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    if (!user && !loading) {
+      router.push('/login');
+    }
+  }, [user, loading, router]);
+
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+    }
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const idToken = await user?.getIdToken();
+      const response = await fetch('/api/risk/profile', {
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || `Failed to fetch risk profile (HTTP ${response.status})`);
+        return;
+      }
+
+      const profile = data.profile;
+      setForm({
+        enabled: profile.enabled,
+        maxOrderQuantity: toField(profile.maxOrderQuantity),
+        maxOrderValue: toField(profile.maxOrderValue),
+        maxOpenPositions: toField(profile.maxOpenPositions),
+        dailyMaxLoss: toField(profile.dailyMaxLoss),
+        squareOffOnMaxLoss: profile.squareOffOnMaxLoss,
+        allowedSymbols: (profile.allowedSymbols || []).join(', '),
+        allowedExchanges: profile.allowedExchanges || [],
+        allowedProducts: profile.allowedProducts || [],
+        tradingStart: profile.tradingHours?.start || '',
+        tradingEnd: profile.tradingHours?.end || '',
+        marketHoursOnly: profile.marketHoursOnly === true,
+        priceBandPercent: toField(profile.priceBandPercent),
+      });
+      setLock(data.lock);
+      setRejections(data.rejections || []);
+      setError('');
+    } catch (err: any) {
+      setError(err.message || 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+    setIsSaving(true);
+
+    try {
+      const idToken = await user?.getIdToken();
+      const response = await fetch('/api/risk/profile', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          enabled: form.enabled,
+          maxOrderQuantity: toLimit(form.maxOrderQuantity),
+          maxOrderValue: toLimit(form.maxOrderValue),
+          maxOpenPositions: toLimit(form.maxOpenPositions),
+          dailyMaxLoss: toLimit(form.dailyMaxLoss),
+          squareOffOnMaxLoss: form.squareOffOnMaxLoss,
+          allowedSymbols: form.allowedSymbols.split(/[\s,]+/).filter(Boolean),
+          allowedExchanges: form.allowedExchanges,
+          allowedProducts: form.allowedProducts,
+          tradingHours: form.tradingStart || form.tradingEnd
+            ? { start: form.tradingStart, end: form.tradingEnd }
+            : null,
+          marketHoursOnly: form.marketHoursOnly,
+          priceBandPercent: toLimit(form.priceBandPercent),
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSuccess('Risk profile saved');
+        fetchProfile();
+      } else {
+        setError(data.error || 'Failed to save risk profile');
+      }
+    } catch (err: any) {
+      setError(err.message || 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleListValue = (field: 'allowedExchanges' | 'allowedProducts', value: string) => {
+    setForm((current) => ({
+      ...current,
+      [field]: current[field].includes(value)
+        ? current[field].filter((v) => v !== value)
+        : [...current[field], value],
+    }));
+  };
+
+  const numberInput = (field: keyof RiskForm, label: string, hint: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={form[field] as string}
+        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+        className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+        placeholder="No limit"
+      />
+      <p className="mt-1 text-xs text-gray-500">{hint}</p>
+    </div>
+  );
+
+  if (loading || isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8">
+          <Link href="/" className="text-gray-600 hover:text-gray-900">
+            ← Back to Dashboard
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-gray-900">Risk Management</h1>
+          <p className="mt-2 text-sm text-gray-600">
+            Pre-trade checks applied to every order from the dashboard, API keys and strategy webhooks
+          </p>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        {error && (
+          <div className="mb-6 rounded-lg bg-red-50 p-4 text-red-700">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="mb-6 rounded-lg bg-green-50 p-4 text-green-700">
+            {success}
+          </div>
+        )}
+
+        {lock && (
+          <div className="mb-6 rounded-lg bg-red-100 p-4 text-red-800">
+            <div className="font-semibold">Trading locked for today</div>
+            <div className="text-sm">
+              {lock.reason} at {new Date(lock.lockedAt).toLocaleTimeString()}.
+              {lock.squaredOff ? ' Open orders were cancelled and positions closed.' : ''}
+              {' '}Only orders that reduce existing positions are allowed until the next trading day.
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleSave} className="mb-8 rounded-lg bg-white p-6 shadow">
+          <label className="mb-6 flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+              className="h-4 w-4"
+            />
+            <span className="font-semibold text-gray-900">Enable pre-trade risk checks</span>
+          </label>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            {numberInput('maxOrderQuantity', 'Max Quantity per Order', 'Shares / units in a single order')}
+            {numberInput('maxOrderValue', 'Max Order Value (₹)', 'Quantity × limit price (or LTP for market orders)')}
+            {numberInput('maxOpenPositions', 'Max Open Positions', 'Orders that open a new position are blocked at the limit')}
+            {numberInput('dailyMaxLoss', 'Daily Max Loss (₹)', 'Blocks new orders for the day once day P&L reaches -limit')}
+            {numberInput('priceBandPercent', 'Price Band (% from LTP)', 'Rejects limit / trigger prices further than this from LTP')}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Trading Hours (IST)</label>
+              <div className="mt-1 flex gap-2">
+                <input
+                  type="time"
+                  value={form.tradingStart}
+                  onChange={(e) => setForm({ ...form, tradingStart: e.target.value })}
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                />
+                <input
+                  type="time"
+                  value={form.tradingEnd}
+                  onChange={(e) => setForm({ ...form, tradingEnd: e.target.value })}
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+              <p className="mt-1 text-xs text-gray-500">Leave empty to allow orders at any time</p>
+            </div>
+          </div>
+
+          <label className="mt-4 flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={form.squareOffOnMaxLoss}
+              onChange={(e) => setForm({ ...form, squareOffOnMaxLoss: e.target.checked })}
+              className="h-4 w-4"
+            />
+            <span className="text-sm text-gray-700">
+              Square off (cancel open orders and close positions) when the daily max loss is hit
+            </span>
+          </label>
+
+          <label className="mt-2 flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={form.marketHoursOnly}
+              onChange={(e) => setForm({ ...form, marketHoursOnly: e.target.checked })}
+              className="h-4 w-4"
+            />
+            <span className="text-sm text-gray-700">
+              Reject orders while the exchange is closed (weekends, exchange holidays, outside its sessions)
+            </span>
+          </label>
+
+          <div className="mt-6 grid gap-4 md:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Allowed Symbols</label>
+              <textarea
+                value={form.allowedSymbols}
+                onChange={(e) => setForm({ ...form, allowedSymbols: e.target.value.toUpperCase() })}
+                rows={3}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 font-mono text-sm text-gray-900 focus:border-blue-500 focus:outline-none"
+                placeholder="All symbols"
+              />
+              <p className="mt-1 text-xs text-gray-500">Comma or space separated; empty allows all</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Allowed Exchanges</label>
+              <div className="mt-2 flex flex-wrap gap-3">
+                {EXCHANGES.map((exchange) => (
+                  <label key={exchange} className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.allowedExchanges.includes(exchange)}
+                      onChange={() => toggleListValue('allowedExchanges', exchange)}
+                    />
+                    {exchange}
+                  </label>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">None selected allows all</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Allowed Products</label>
+              <div className="mt-2 flex flex-wrap gap-3">
+                {PRODUCTS.map((product) => (
+                  <label key={product} className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.allowedProducts.includes(product)}
+                      onChange={() => toggleListValue('allowedProducts', product)}
+                    />
+                    {product}
+                  </label>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">None selected allows all</p>
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="mt-6 rounded-lg bg-blue-600 px-6 py-2 font-medium text-white transition hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Risk Profile'}
+          </button>
+        </form>
+
+        {/* Recent Rejections */}
+        <div className="rounded-lg bg-white shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Recent Rejections</h2>
+          </div>
+          {rejections.length === 0 ? (
+            <div className="px-6 py-8 text-center text-gray-500">
+              No orders have been rejected by the risk checks
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-600">Time</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-600">Source</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-600">Order</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-600">Reasons</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rejections.map((rejection) => (
+                    <tr key={rejection.id}>
+                      <td className="whitespace-nowrap px-4 py-2 text-gray-700">
+                        {new Date(rejection.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2 text-gray-700">{rejection.source}</td>
+                      <td className="whitespace-nowrap px-4 py-2 text-gray-900">
+                        {rejection.action} {rejection.quantity} {rejection.exchange}:{rejection.symbol}
+                        {rejection.price !== null && ` @ ${rejection.price}`}
+                      </td>
+                      <td className="px-4 py-2 text-red-700">
+                        {rejection.reasons.map((reason) => (
+                          <div key={reason}>{reason}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,596 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { getAllBrokers } from '@/lib/brokerConfig';
+
+interface Strategy {
+  id: string;
+  name: string;
+  webhookId: string;
+  broker: string;
+  mode: 'LONG' | 'SHORT' | 'BOTH';
+  symbol: string;
+  exchange: string;
+  product: string;
+  quantity: number;
+  position: number;
+  status: 'active' | 'paused';
+  createdAt: any;
+  lastTriggeredAt?: any;
+  triggerCount: number;
+}
+
+interface OrderWebhook {
+  id: string;
+  url: string;
+  active: boolean;
+  createdAt: string;
+  lastDelivery: { at: string; httpStatus: number | null; error: string | null } | null;
+}
+
+export default function StrategiesPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [strategies, setStrategies] = useState<Strategy[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Create strategy form
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [name, setName] = useState('');
+  const [broker, setBroker] = useState('zerodha');
+  const [mode, setMode] = useState<'LONG' | 'SHORT' | 'BOTH'>('LONG');
+  const [symbol, setSymbol] = useState('');
+  const [exchange, setExchange] = useState('NSE');
+  const [product, setProduct] = useState('MIS');
+  const [quantity, setQuantity] = useState(1);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Outbound order update webhooks
+  const [orderWebhooks, setOrderWebhooks] = useState<OrderWebhook[]>([]);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [webhookSecret, setWebhookSecret] = useState('');
+
+  const allBrokers = getAllBrokers();
+
+  useEffect(() => {
+    if (!user && !loading) {
+      router.push('/login');
+    }
+  }, [user, loading, router]);
+
+  useEffect(() => {
+    if (user) {
+      fetchStrategies();
+      fetchOrderWebhooks();
+    }
+  }, [user]);
+
+  const getWebhookUrl = (webhookId: string) => `${window.location.origin}/api/webhook/${webhookId}`;
+
+  const fetchStrategies = async () => {
+    try {
+      const idToken = await user?.getIdToken();
+      const response = await fetch('/api/strategies/list', {
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setStrategies(data.strategies || []);
+        setError('');
+      } else {
+        const data = await response.json();
+        setError(data.error || `Failed to fetch strategies (HTTP ${response.status})`);
+      }
+    } catch (err: any) {
+      setError(err.message || 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateStrategy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+    setIsCreating(true);
+
+    try {
+      const idToken = await user?.getIdToken();
+      const response = await fetch('/api/strategies/create', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, broker, mode, symbol, exchange, product, quantity }),
+      });
+
+      if (response.ok) {
+        setSuccess('Strategy created successfully! Copy the webhook URL into your AmiBroker script or TradingView alert.');
+        setName('');
+        setSymbol('');
+        setShowCreateForm(false);
+        fetchStrategies();
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to create strategy');
+      }
+    } catch (err: any) {
+      setError(err.message || 'An error occurred');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleToggleStatus = async (strategy: Strategy) => {
+    try {
+      const idToken = await user?.getIdToken();
+      const response = await fetch('/api/strategies/update', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          strategyId: strategy.id,
+          status: strategy.status === 'active' ? 'paused' : 'active',
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSuccess(data.message);
+        fetchStrategies();
+      } else {
+        setError(data.error || 'Failed to update strategy');
+      }
+    } catch (err: any) {
+      setError(err.message || 'An error occurred');
+    }
+  };
+
+  const handleDeleteStrategy = async (strategyId: string) => {
+    if (!confirm('Are you sure you want to delete this strategy? Its webhook URL will stop working.')) {
+      return;
+    }
+
+    try {
+      const idToken = await user?.getIdToken();
+      const response = await fetch(`/api/strategies/update?strategyId=${strategyId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+
+      if (response.ok) {
+        setSuccess('Strategy deleted successfully');
+        fetchStrategies();
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete strategy');
+      }
+    } catch (err: any) {
+      setError(err.message || 'An error occurred');
+    }
+  };
+
+  const fetchOrderWebhooks = async () => {
+    try {
+      const idToken = await user?.getIdToken();
+      const response = await fetch('/api/orders/webhooks', {
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setOrderWebhooks(data.webhooks || []);
+      }
+    } catch (err) {
+      console.error('Error fetching order webhooks:', err);
+    }
+  };
+
+  const handleCreateOrderWebhook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+
+    try {
+      const idToken = await user?.getIdToken();
+      const response = await fetch('/api/orders/webhooks', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url: webhookUrl }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setWebhookSecret(data.secret);
+        setWebhookUrl('');
+        setSuccess(data.message);
+        fetchOrderWebhooks();
+      } else {
+        setError(data.error || 'Failed to register webhook');
+      }
+    } catch (err: any) {
+      setError(err.message || 'An error occurred');
+    }
+  };
+
+  const handleDeleteOrderWebhook = async (webhookId: string) => {
+    if (!confirm('Delete this webhook? It will stop receiving order updates.')) {
+      return;
+    }
+
+    try {
+      const idToken = await user?.getIdToken();
+      const response = await fetch(`/api/orders/webhooks?id=${webhookId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+
+      if (response.ok) {
+        setSuccess('Webhook deleted successfully');
+        fetchOrderWebhooks();
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete webhook');
+      }
+    } catch (err: any) {
+      setError(err.message || 'An error occurred');
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    setSuccess('Copied to clipboard!');
+    setTimeout(() => setSuccess(''), 2000);
+  };
+
+  if (loading || isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between">
+            <div>
+              <Link href="/" className="text-gray-600 hover:text-gray-900">
+                ← Back to Dashboard
+              </Link>
+              <h1 className="mt-2 text-3xl font-bold text-gray-900">Strategies</h1>
+              <p className="mt-2 text-sm text-gray-600">
+                Webhook strategies for AmiBroker and TradingView alerts
+              </p>
+            </div>
+            <button
+              onClick={() => setShowCreateForm(!showCreateForm)}
+              className="rounded-lg bg-blue-600 px-6 py-2 font-medium text-white transition hover:bg-blue-700"
+            >
+              {showCreateForm ? 'Cancel' : 'New Strategy'}
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        {error && (
+          <div className="mb-6 rounded-lg bg-red-50 p-4 text-red-700">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="mb-6 rounded-lg bg-green-50 p-4 text-green-700">
+            {success}
+          </div>
+        )}
+
+        {/* Create Strategy Form */}
+        {showCreateForm && (
+          <div className="mb-6 rounded-lg bg-white p-6 shadow">
+            <h2 className="mb-4 text-xl font-semibold text-gray-900">New Strategy</h2>
+            <form onSubmit={handleCreateStrategy} className="grid gap-4 md:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Strategy Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                  placeholder="e.g., MA Crossover"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Broker</label>
+                <select
+                  value={broker}
+                  onChange={(e) => setBroker(e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                >
+                  {allBrokers.map((b) => (
+                    <option key={b.id} value={b.id}>
+                      {b.displayName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Trading Mode</label>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as 'LONG' | 'SHORT' | 'BOTH')}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="LONG">LONG (BUY enters, SELL exits)</option>
+                  <option value="SHORT">SHORT (SELL enters, BUY exits)</option>
+                  <option value="BOTH">BOTH (long and short)</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Symbol</label>
+                <input
+                  type="text"
+                  value={symbol}
+                  onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                  placeholder="e.g., RELIANCE"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Exchange</label>
+                <select
+                  value={exchange}
+                  onChange={(e) => setExchange(e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="NSE">NSE</option>
+                  <option value="BSE">BSE</option>
+                  <option value="NFO">NFO</option>
+                  <option value="MCX">MCX</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Product</label>
+                <select
+                  value={product}
+                  onChange={(e) => setProduct(e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="MIS">MIS (Intraday)</option>
+                  <option value="CNC">CNC (Delivery)</option>
+                  <option value="NRML">NRML (Normal)</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Quantity</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={quantity}
+                  onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                  required
+                />
+              </div>
+
+              <div className="flex items-end">
+                <button
+                  type="submit"
+                  disabled={isCreating}
+                  className="w-full rounded-lg bg-blue-600 px-6 py-2 font-medium text-white transition hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isCreating ? 'Creating...' : 'Create Strategy'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Strategies List */}
+        <div className="rounded-lg bg-white shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Your Strategies</h2>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {strategies.length === 0 ? (
+              <div className="px-6 py-8 text-center text-gray-500">
+                No strategies yet. Create one to get a webhook URL!
+              </div>
+            ) : (
+              strategies.map((strategy) => (
+                <div key={strategy.id} className="px-6 py-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-3">
+                        <h3 className="font-semibold text-gray-900">{strategy.name}</h3>
+                        <span className={`rounded-full px-2 py-1 text-xs font-medium ${
+                          strategy.status === 'active'
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-gray-100 text-gray-800'
+                        }`}>
+                          {strategy.status}
+                        </span>
+                        <span className="rounded-full bg-blue-100 px-2 py-1 text-xs font-medium text-blue-800">
+                          {strategy.mode}
+                        </span>
+                      </div>
+                      <div className="mt-1 text-sm text-gray-600">
+                        {strategy.exchange}:{strategy.symbol} • {strategy.product} • Qty {strategy.quantity} • {strategy.broker}
+                        <span className="ml-2 text-gray-500">Position: {strategy.position || 0}</span>
+                      </div>
+                      <div className="mt-2 flex gap-2">
+                        <code className="flex-1 truncate rounded bg-gray-100 px-3 py-1 text-xs font-mono text-gray-800">
+                          {getWebhookUrl(strategy.webhookId)}
+                        </code>
+                        <button
+                          onClick={() => copyToClipboard(getWebhookUrl(strategy.webhookId))}
+                          className="rounded bg-gray-200 px-3 py-1 text-xs text-gray-800 hover:bg-gray-300"
+                        >
+                          Copy Webhook URL
+                        </button>
+                      </div>
+                      <div className="mt-1 text-sm text-gray-500">
+                        Created: {new Date(strategy.createdAt._seconds * 1000).toLocaleDateString()} •
+                        Triggered: {strategy.triggerCount} times
+                        {strategy.lastTriggeredAt && ` • Last signal: ${new Date(strategy.lastTriggeredAt._seconds * 1000).toLocaleString()}`}
+                      </div>
+                    </div>
+                    <div className="ml-4 flex gap-2">
+                      <button
+                        onClick={() => handleToggleStatus(strategy)}
+                        className="rounded bg-yellow-600 px-4 py-2 text-sm text-white hover:bg-yellow-700 transition"
+                      >
+                        {strategy.status === 'active' ? 'Pause' : 'Resume'}
+                      </button>
+                      <button
+                        onClick={() => handleDeleteStrategy(strategy.id)}
+                        className="rounded bg-red-600 px-4 py-2 text-sm text-white hover:bg-red-700 transition"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Order Update Webhooks */}
+        <div className="mt-8 rounded-lg bg-white shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Order Update Webhooks</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              We POST every order status change (placed, open, partially filled, complete, rejected, cancelled) to these URLs
+            </p>
+          </div>
+          <div className="px-6 py-4">
+            <form onSubmit={handleCreateOrderWebhook} className="flex gap-2">
+              <input
+                type="url"
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+                className="flex-1 rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:outline-none"
+                placeholder="https://example.com/order-updates"
+                required
+              />
+              <button
+                type="submit"
+                className="rounded-lg bg-blue-600 px-6 py-2 font-medium text-white transition hover:bg-blue-700"
+              >
+                Add Webhook
+              </button>
+            </form>
+
+            {webhookSecret && (
+              <div className="mt-4 rounded-lg bg-yellow-50 p-4">
+                <div className="text-sm font-medium text-yellow-900">Signing secret (shown once)</div>
+                <div className="mt-2 flex gap-2">
+                  <code className="flex-1 truncate rounded bg-white px-3 py-1 text-xs font-mono text-gray-800">
+                    {webhookSecret}
+                  </code>
+                  <button
+                    onClick={() => copyToClipboard(webhookSecret)}
+                    className="rounded bg-gray-200 px-3 py-1 text-xs text-gray-800 hover:bg-gray-300"
+                  >
+                    Copy
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="divide-y divide-gray-200">
+            {orderWebhooks.map((webhook) => (
+              <div key={webhook.id} className="flex items-center justify-between px-6 py-3">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-mono text-sm text-gray-900">{webhook.url}</div>
+                  <div className="text-xs text-gray-500">
+                    {webhook.lastDelivery
+                      ? `Last delivery ${new Date(webhook.lastDelivery.at).toLocaleString()}: ${
+                          webhook.lastDelivery.error || `HTTP ${webhook.lastDelivery.httpStatus}`
+                        }`
+                      : 'No deliveries yet'}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleDeleteOrderWebhook(webhook.id)}
+                  className="ml-4 rounded bg-red-600 px-4 py-2 text-sm text-white hover:bg-red-700 transition"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="px-6 py-4 text-sm text-gray-600">
+            Verify requests by computing HMAC-SHA256 of <code>{'<X-Webhook-Timestamp>.<raw body>'}</code> with
+            your secret and comparing it to the <code>X-Webhook-Signature</code> header (<code>sha256=&lt;hex&gt;</code>).
+          </div>
+        </div>
+
+        {/* Webhook Documentation */}
+        <div className="mt-8 rounded-lg bg-blue-50 p-6">
+          <h3 className="text-lg font-semibold text-blue-900 mb-3">Sending Signals</h3>
+          <p className="text-blue-800 mb-4">
+            POST a JSON signal to your webhook URL. Symbol, exchange, product and quantity come from the strategy.
+          </p>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="rounded bg-white p-4 font-mono text-sm">
+              <div className="mb-2 text-gray-600">AmiBroker (OpenAlgoWebhook.afl)</div>
+              <pre className="text-gray-800">{`{
+  "symbol": "RELIANCE",
+  "action": "BUY",
+  "position_size": 1
+}`}</pre>
+            </div>
+            <div className="rounded bg-white p-4 font-mono text-sm">
+              <div className="mb-2 text-gray-600">TradingView alert message</div>
+              <pre className="text-gray-800">{`{
+  "ticker": "{{ticker}}",
+  "action": "{{strategy.order.action}}",
+  "contracts": "{{strategy.order.contracts}}",
+  "position_size": "{{strategy.position_size}}"
+}`}</pre>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
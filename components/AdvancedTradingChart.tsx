@@ -1,6 +1,6 @@
 /**
  * Advanced Trading Chart with Multiple Indicators
- * - Candlestick Chart
+ * - Candlestick Chart (or Heikin-Ashi, Renko, Range and Point & Figure bars; indicators use the same bars)
  * - Volume
  * - SMA (Simple Moving Average)
  * - EMA (Exponential Moving Average)
@@ -36,6 +36,7 @@ import {
   type ConsolidationBox,
   type BreakoutSignal,
 } from '@/lib/indicators/consolidationDetection';
+import { ChartTypeConfig, DEFAULT_CHART_TYPE, transformChartData } from '@/lib/indicators/barTransforms';
 
 export interface ChartData {
   time: number;
@@ -80,10 +81,11 @@ export interface AdvancedTradingChartProps {
   height?: number;
   greeksData?: Array<{ time: number; theta: number; vega: number; gamma: number; delta: number }>;
   showGreeks?: { theta: boolean; vega: boolean; gamma: boolean; delta: boolean };
+  chartType?: ChartTypeConfig;
 }
 
 export function AdvancedTradingChart({
-  data,
+  data: candles,
   symbol,
   interval,
   indicators,
@@ -91,7 +93,11 @@ export function AdvancedTradingChart({
   height = 600,
   greeksData = [],
   showGreeks = { theta: true, vega: true, gamma: true, delta: true },
+  chartType = DEFAULT_CHART_TYPE,
 }: AdvancedTradingChartProps) {
+  // Everything below renders and analyses the bars of the selected chart type
+  const data = useMemo(() => transformChartData(candles, chartType), [candles, chartType]);
+
   const mainChartRef = useRef<HTMLDivElement>(null);
   const rsiChartRef = useRef<HTMLDivElement>(null);
   const volumeProfileOverlayRef = useRef<HTMLDivElement>(null);
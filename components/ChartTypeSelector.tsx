@@ -0,0 +1,86 @@
+/**
+ * Chart type selector shared by the chart pages
+ * Candles, Heikin-Ashi, Renko, Range or Point & Figure, with the box size (ATR period or
+ * fixed price) for the price-based types
+ */
+
+'use client';
+
+import { CHART_TYPE_OPTIONS, ChartType, ChartTypeConfig } from '@/lib/indicators/barTransforms';
+
+interface ChartTypeSelectorProps {
+  value: ChartTypeConfig;
+  onChange: (value: ChartTypeConfig) => void;
+}
+
+const inputClass = 'px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900 text-sm';
+
+export function ChartTypeSelector({ value, onChange }: ChartTypeSelectorProps) {
+  const priceBased = value.type === 'renko' || value.type === 'range' || value.type === 'point-figure';
+  const { boxSize } = value;
+
+  return (
+    <div className="flex-shrink-0 flex items-center gap-2">
+      <select
+        value={value.type}
+        onChange={(e) => onChange({ ...value, type: e.target.value as ChartType })}
+        className={inputClass}
+      >
+        {CHART_TYPE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {priceBased && (
+        <>
+          <select
+            value={boxSize.method}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                boxSize: e.target.value === 'fixed' ? { method: 'fixed', size: 10 } : { method: 'atr', period: 14 },
+              })
+            }
+            className={inputClass}
+            title="Box size"
+          >
+            <option value="atr">ATR</option>
+            <option value="fixed">Fixed</option>
+          </select>
+          <input
+            type="number"
+            min={boxSize.method === 'atr' ? 1 : 0.05}
+            step={boxSize.method === 'atr' ? 1 : 0.05}
+            value={boxSize.method === 'atr' ? boxSize.period : boxSize.size}
+            onChange={(e) => {
+              const amount = Number(e.target.value);
+              if (!(amount > 0)) return;
+              onChange({
+                ...value,
+                boxSize: boxSize.method === 'atr' ? { method: 'atr', period: Math.round(amount) } : { method: 'fixed', size: amount },
+              });
+            }}
+            className={inputClass + ' w-20'}
+            title={boxSize.method === 'atr' ? 'ATR period' : 'Box size'}
+          />
+          {value.type === 'point-figure' && (
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={value.reversal}
+              onChange={(e) => {
+                const reversal = Math.round(Number(e.target.value));
+                if (reversal >= 1) onChange({ ...value, reversal });
+              }}
+              className={inputClass + ' w-16'}
+              title="Reversal boxes"
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
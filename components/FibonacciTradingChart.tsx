@@ -9,6 +9,8 @@ import {
 } from 'lightweight-charts';
 import { calculateVolumeProfile } from '@/lib/indicators/volumeProfile';
 import { detectHarmonicPatterns, HarmonicSetup } from '@/lib/indicators/harmonicDetection';
+import { ChartTypeConfig, DEFAULT_CHART_TYPE, transformChartData } from '@/lib/indicators/barTransforms';
+import { isMarketOpen } from '@/lib/tradingCalendar';
 
 export interface ChartData {
   time: number;
@@ -41,6 +43,7 @@ export interface FibonacciTradingChartProps {
   lookbackDays: number;
   indicators: any;
   realtimePrice?: any;
+  chartType?: ChartTypeConfig;    // Bars to draw; swings, Fibonacci levels and patterns use them too
 }
 
 export default function FibonacciTradingChart({
@@ -51,6 +54,7 @@ export default function FibonacciTradingChart({
   lookbackDays,
   indicators,
   realtimePrice,
+  chartType = DEFAULT_CHART_TYPE,
 }: FibonacciTradingChartProps) {
   const mainChartRef = useRef<HTMLDivElement>(null);
   const mainChartInstanceRef = useRef<IChartApi | null>(null);
@@ -211,7 +215,7 @@ export default function FibonacciTradingChart({
           return;
         }
 
-        const data: ChartData[] = result.data.map((d: any) => ({
+        const candles: ChartData[] = result.data.map((d: any) => ({
           time: d.time,
           open: d.open,
           high: d.high,
@@ -219,6 +223,7 @@ export default function FibonacciTradingChart({
           close: d.close,
           volume: d.volume,
         }));
+        const data = transformChartData(candles, chartType);
 
         if (candlestickSeriesRef.current && data.length > 0) {
           candlestickSeriesRef.current.setData(data as unknown as CandlestickData[]);
@@ -231,10 +236,13 @@ export default function FibonacciTradingChart({
     };
 
     fetchData();
-    const intervalId = setInterval(fetchData, 60000); // Refresh every minute
+    // Refresh every minute while the market is open
+    const intervalId = setInterval(() => {
+      if (isMarketOpen('NSE')) fetchData();
+    }, 60000);
 
     return () => clearInterval(intervalId);
-  }, [symbol, interval, userId, lookbackDays]);
+  }, [symbol, interval, userId, lookbackDays, chartType]);
 
   // Reprocess indicators when they change
   useEffect(() => {
@@ -8,6 +8,7 @@ import {
   SeriesMarker,
 } from 'lightweight-charts';
 import { calculateVIDYA_Series, VIDYAPoint, ChartData as VIDYAChartData, LiquidityZone } from '@/lib/indicators/vidyaCalc';
+import { ChartTypeConfig, DEFAULT_CHART_TYPE, transformChartData } from '@/lib/indicators/barTransforms';
 
 interface VidyaTradingChartProps {
   symbol: string;
@@ -18,6 +19,7 @@ interface VidyaTradingChartProps {
   indicators: any;
   realtimePrice?: number;
   refreshTrigger?: number;
+  chartType?: ChartTypeConfig;    // Bars to draw; VIDYA is calculated on them
 }
 
 export default function VidyaTradingChart({
@@ -29,6 +31,7 @@ export default function VidyaTradingChart({
   indicators,
   realtimePrice,
   refreshTrigger = 0,
+  chartType = DEFAULT_CHART_TYPE,
 }: VidyaTradingChartProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<any>(null);
@@ -50,6 +53,7 @@ export default function VidyaTradingChart({
     y: number;
   } | null>(null);
   const lastPriceRef = useRef<number | null>(null);
+  const candlesRef = useRef<VIDYAChartData[]>([]);   // Fetched candles, before the chart type transform
 
   // Fetch and calculate data
   useEffect(() => {
@@ -84,10 +88,12 @@ export default function VidyaTradingChart({
           throw new Error('No historical data available. Please check: (1) Zerodha authentication, (2) Symbol is correct, (3) Market hours/trading days.');
         }
 
-        setRawOHLCData(data); // Store real OHLC data
+        candlesRef.current = data;
+        const bars = transformChartData(data, chartType);
+        setRawOHLCData(bars); // Store real OHLC data
 
         const series = calculateVIDYA_Series(
-          data,
+          bars,
           indicators.cmoPeriod,
           indicators.atrPeriod,
           indicators.cmoPeriod, // Use CMO period for volume delta as well
@@ -102,7 +108,7 @@ export default function VidyaTradingChart({
     };
 
     fetchData();
-  }, [symbol, interval, userId, lookbackDays, indicators.cmoPeriod, indicators.atrPeriod, indicators.bandMultiplier, refreshTrigger]);
+  }, [symbol, interval, userId, lookbackDays, indicators.cmoPeriod, indicators.atrPeriod, indicators.bandMultiplier, refreshTrigger, chartType]);
 
   // Update chart with real-time price data
   useEffect(() => {
@@ -126,23 +132,20 @@ export default function VidyaTradingChart({
 
     lastPriceRef.current = realtimePrice;
 
-    // Update the last candle in rawOHLCData state
-    setRawOHLCData((prevData) => {
-      const newData = [...prevData];
-      const lastCandle = newData[newData.length - 1];
-
-      if (lastCandle) {
-        const before = lastCandle.close;
-        lastCandle.close = realtimePrice;
-        lastCandle.high = Math.max(lastCandle.high, realtimePrice);
-        lastCandle.low = Math.min(lastCandle.low, realtimePrice);
-        console.log('[VIDYA] Updated last candle:', { before, after: realtimePrice });
-        // Don't update volume - realtime feed has cumulative daily volume, not per-candle volume
-      }
-
-      return newData;
-    });
-  }, [realtimePrice, rawOHLCData.length]);
+    // Update the last fetched candle, then rebuild the bars from the candles
+    const candles = candlesRef.current;
+    const lastCandle = candles[candles.length - 1];
+
+    if (lastCandle) {
+      const before = lastCandle.close;
+      lastCandle.close = realtimePrice;
+      lastCandle.high = Math.max(lastCandle.high, realtimePrice);
+      lastCandle.low = Math.min(lastCandle.low, realtimePrice);
+      console.log('[VIDYA] Updated last candle:', { before, after: realtimePrice });
+      // Don't update volume - realtime feed has cumulative daily volume, not per-candle volume
+      setRawOHLCData(transformChartData([...candles], chartType));
+    }
+  }, [realtimePrice, rawOHLCData.length, chartType]);
 
   // Render chart
   useEffect(() => {
@@ -0,0 +1,101 @@
+/**
+ * React hook for consuming server-built candles via SSE (/api/stream/candles)
+ *
+ * Candles are aggregated on the server from the broker feed, with volume from cumulative
+ * volume deltas. After a reconnect the stream is reopened from the last candle received,
+ * and the server backfills whatever was missed
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/lib/AuthContext';
+import type { Candle } from '@/lib/types/candles';
+
+export interface UseLiveCandlesOptions {
+  symbol: string;
+  interval: string;              // Any intraday timeframe (minute ... 240minute)
+  since?: number;                // Start time of the last candle already loaded (Unix seconds)
+  enabled?: boolean;
+  onCandles: (candles: Candle[], partial: boolean) => void;   // Backfilled or updated candles, to merge by time
+}
+
+export function useLiveCandles({ symbol, interval, since, enabled = true, onCandles }: UseLiveCandlesOptions) {
+  const { user } = useAuth();
+  const [isConnected, setIsConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reconnectKey, setReconnectKey] = useState(0);
+  const latestSinceRef = useRef<number | undefined>(since);
+  const sinceRef = useRef<number | undefined>(since);     // resume point of the open series
+  const seriesRef = useRef<string | null>(null);
+  const onCandlesRef = useRef(onCandles);
+
+  useEffect(() => {
+    latestSinceRef.current = since;
+    onCandlesRef.current = onCandles;
+  });
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !user || !enabled || !symbol) {
+      seriesRef.current = null;
+      return;
+    }
+
+    // A new series (or reloaded history) resumes from the caller's last candle
+    const seriesKey = `${symbol}|${interval}`;
+    if (seriesRef.current !== seriesKey) {
+      seriesRef.current = seriesKey;
+      sinceRef.current = latestSinceRef.current;
+    }
+
+    const params = new URLSearchParams({ symbol, interval, userId: user.uid });
+    if (sinceRef.current !== undefined) {
+      params.set('since', String(sinceRef.current));
+    }
+
+    const eventSource = new EventSource(`/api/stream/candles?${params.toString()}`);
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    eventSource.onopen = () => {
+      setIsConnected(true);
+      setError(null);
+    };
+
+    eventSource.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+
+        if (message.type === 'backfill' && message.candles.length > 0) {
+          onCandlesRef.current(message.candles, false);
+          sinceRef.current = message.candles[message.candles.length - 1].time;
+        } else if (message.type === 'candle') {
+          onCandlesRef.current([message.candle], message.partial === true);
+          sinceRef.current = Math.max(sinceRef.current ?? 0, message.candle.time);
+        }
+      } catch (err) {
+        console.error('Error parsing candle message:', err);
+      }
+    };
+
+    eventSource.onerror = () => {
+      setIsConnected(false);
+      setError('Candle stream disconnected. Retrying...');
+
+      // Reopen from the last candle received so the server backfills the gap
+      eventSource.close();
+      reconnectTimer = setTimeout(() => setReconnectKey((key) => key + 1), 5000);
+    };
+
+    return () => {
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      eventSource.close();
+    };
+  }, [user, symbol, interval, enabled, reconnectKey]);
+
+  return {
+    isConnected,
+    error,
+  };
+}
@@ -5,7 +5,7 @@
  * Usage:
  * const { cePrice, pePrice, premium, isConnected, error } = useOptionPriceStream({
  *   symbol: 'NIFTY',
- *   expiry: 'JAN',
+ *   expiry: 'current-week',
  *   ceStrike: 25700,
  *   peStrike: 25700,
  *   enabled: true
@@ -16,6 +16,8 @@
 
 import { useEffect, useState, useRef } from 'react';
 import { useAuth } from '@/lib/AuthContext';
+import { optionExchange, optionSymbol, parseExpiry } from '@/lib/expiryCalendar';
+import { isMarketOpen } from '@/lib/tradingCalendar';
 
 export interface OptionPriceUpdate {
   cePrice: number;
@@ -64,51 +66,27 @@ export function useOptionPriceStream({
       eventSourceRef.current.close();
     }
 
-    // Convert expiry format for symbol building
-    // "13JAN" -> numeric "260113" (YYMMdd), symbol: NSE:NIFTY260113...
-    // "JAN" -> text "26JAN", symbol: NSE:NIFTY26JAN...
-    const convertExpiryFormat = (exp: string): { numeric: string; text: string } => {
-      const monthMap: Record<string, string> = {
-        'JAN': '01', 'FEB': '02', 'MAR': '03', 'APR': '04',
-        'MAY': '05', 'JUN': '06', 'JUL': '07', 'AUG': '08',
-        'SEP': '09', 'OCT': '10', 'NOV': '11', 'DEC': '12'
-      };
-
-      // Try weekly format: "13JAN" (day + month)
-      const weeklyMatch = exp.match(/^(\d{1,2})([A-Z]{3})$/);
-      if (weeklyMatch) {
-        const day = weeklyMatch[1].padStart(2, '0');
-        const month = monthMap[weeklyMatch[2]] || '01';
-        return {
-          numeric: `26${month}${day}`, // e.g., "260113" for 13 JAN 2026
-          text: exp, // e.g., "13JAN"
-        };
-      }
-
-      // Try monthly format: "JAN" (month only)
-      const monthlyMatch = exp.match(/^([A-Z]{3})$/);
-      if (monthlyMatch) {
-        const monthName = monthlyMatch[1];
-        return {
-          numeric: `26${monthName}`, // e.g., "26JAN" for symbol building
-          text: monthName, // e.g., "JAN" for API call
-        };
-      }
-
-      return { numeric: exp, text: exp }; // Fallback
-    };
-
-    // Build CE and PE symbols with Fyers-compatible format
-    const expiryFormats = convertExpiryFormat(expiry);
-    const ceSymbol = `NSE:${symbol}${expiryFormats.numeric}${ceStrike}CE`;
-    const peSymbol = `NSE:${symbol}${expiryFormats.numeric}${peStrike}PE`;
+    // Expiry selector or date (current-week, 13JAN, JAN) -> contract symbols in Fyers format
+    const resolvedExpiry = parseExpiry(symbol, expiry);
+    if (!resolvedExpiry) {
+      console.warn(`[OPTION-PRICE-STREAM] Invalid expiry: ${expiry}`);
+      return;
+    }
+    const ceSymbol = optionSymbol('fyers', symbol, resolvedExpiry, ceStrike, 'CE');
+    const peSymbol = optionSymbol('fyers', symbol, resolvedExpiry, peStrike, 'PE');
     const symbolsParam = [ceSymbol, peSymbol].join(',');
 
     console.log('[OPTION-PRICE-STREAM] Connecting to CE/PE prices:', { ceSymbol, peSymbol });
 
     // Use direct polling instead of streaming for more reliability
-    // Poll /api/options/historical directly every 10 seconds for both CE and PE prices
+    // Poll /api/options/historical directly every 10 seconds for both CE and PE prices,
+    // stopping once prices are loaded while the market is closed
+    const exchange = optionExchange(symbol);
+    lastPricesRef.current = { ce: 0, pe: 0 };
     const pollInterval = setInterval(async () => {
+      if (lastPricesRef.current.ce > 0 && !isMarketOpen(exchange)) {
+        return;
+      }
       try {
         const today = new Date();
         const fromDate = new Date(today);
@@ -119,7 +97,7 @@ export function useOptionPriceStream({
 
         console.log(`[OPTION-PRICE-STREAM] Polling for ${ceSymbol} and ${peSymbol}`);
 
-        const url = `/api/options/historical?symbol=${symbol}&expiry=${expiryFormats.text}&strike=${ceStrike || 25700}&spotPrice=25700&userId=${encodeURIComponent(user.uid)}&from=${fromStr}&to=${toStr}&interval=1`;
+        const url = `/api/options/historical?symbol=${symbol}&expiry=${encodeURIComponent(expiry)}&strike=${ceStrike || 25700}&spotPrice=25700&userId=${encodeURIComponent(user.uid)}&from=${fromStr}&to=${toStr}&interval=1`;
 
         const response = await fetch(url);
         if (response.ok) {
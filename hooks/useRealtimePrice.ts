@@ -1,10 +1,13 @@
 /**
  * React hook for consuming real-time price updates via SSE
+ *
+ * Keeps one stream open while symbols are requested; when the symbol list changes,
+ * symbols are added/removed on the open stream instead of reconnecting
  */
 
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
+import { useCallback, useEffect, useState, useRef } from 'react';
 import { useAuth } from '@/lib/AuthContext';
 
 export interface PriceData {
@@ -18,19 +21,99 @@ export interface PriceData {
     low: number;
     close: number;
   };
+  depth?: {
+    buy: Array<{ quantity: number; price: number; orders: number }>;
+    sell: Array<{ quantity: number; price: number; orders: number }>;
+  };
   timestamp: string;
 }
 
 export interface UseRealtimePriceOptions {
   symbols: string[];
+  mode?: 'quote' | 'full';       // full adds market depth
 }
 
-export function useRealtimePrice({ symbols }: UseRealtimePriceOptions) {
+export function useRealtimePrice({ symbols, mode = 'quote' }: UseRealtimePriceOptions) {
   const { user } = useAuth();
   const [prices, setPrices] = useState<Record<string, PriceData>>({});
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const eventSourceRef = useRef<EventSource | null>(null);
+  const [reconnectKey, setReconnectKey] = useState(0);
+  const streamIdRef = useRef<string | null>(null);
+  const streamedRef = useRef<Set<string>>(new Set());   // symbols the open stream serves
+  const symbolsRef = useRef<string[]>(symbols);         // symbols currently wanted
+  const syncingRef = useRef(false);
+  const resyncRef = useRef(false);
+
+  const symbolsKey = symbols.join(',');
+  const hasSymbols = symbols.length > 0;
+
+  /**
+   * Bring the open stream's symbols in line with the wanted list
+   * Reconnects when the stream can't be updated (e.g. it lives on another server instance)
+   */
+  const syncSymbols = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+    if (syncingRef.current) {
+      resyncRef.current = true;
+      return;
+    }
+
+    const streamId = streamIdRef.current;
+    const wanted = new Set(symbolsRef.current);
+    const add = Array.from(wanted).filter((symbol) => !streamedRef.current.has(symbol));
+    const remove = Array.from(streamedRef.current).filter((symbol) => !wanted.has(symbol));
+    if (!streamId || (add.length === 0 && remove.length === 0)) {
+      return;
+    }
+
+    syncingRef.current = true;
+    try {
+      const idToken = await user.getIdToken();
+      const response = await fetch('/api/stream/prices/subscriptions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ streamId, add, remove }),
+      });
+      if (!response.ok) {
+        throw new Error(`Stream update failed (${response.status})`);
+      }
+
+      const result = await response.json();
+      if (streamIdRef.current === streamId) {
+        streamedRef.current = new Set(result.symbols);
+        if (result.rejected?.length > 0) {
+          console.warn('Symbols not available for streaming:', result.rejected);
+        }
+        setPrices((prev) => {
+          const next = { ...prev };
+          remove.forEach((symbol) => delete next[symbol]);
+          return next;
+        });
+      }
+    } catch (err) {
+      console.warn('Could not update price stream, reconnecting:', err);
+      setReconnectKey((key) => key + 1);
+    } finally {
+      syncingRef.current = false;
+    }
+
+    if (resyncRef.current) {
+      resyncRef.current = false;
+      void syncSymbols();
+    }
+  }, [user]);
+
+  // Symbol list changed: update the open stream
+  useEffect(() => {
+    symbolsRef.current = symbolsKey ? symbolsKey.split(',') : [];
+    void syncSymbols();
+  }, [symbolsKey, syncSymbols]);
 
   useEffect(() => {
     // Only run in browser environment
@@ -38,20 +121,15 @@ export function useRealtimePrice({ symbols }: UseRealtimePriceOptions) {
       return;
     }
 
-    if (!user || symbols.length === 0) {
+    if (!user || !hasSymbols) {
       return;
     }
 
-    // Close existing connection
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
-    }
-
-    const symbolsParam = symbols.join(',');
-    const url = `/api/stream/prices?symbols=${encodeURIComponent(symbolsParam)}&userId=${encodeURIComponent(user.uid)}`;
+    const symbolsParam = symbolsRef.current.join(',');
+    const url = `/api/stream/prices?symbols=${encodeURIComponent(symbolsParam)}&userId=${encodeURIComponent(user.uid)}&mode=${mode}`;
 
     const eventSource = new EventSource(url);
-    eventSourceRef.current = eventSource;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
     eventSource.onopen = () => {
       console.log('Real-time connection established');
@@ -64,12 +142,12 @@ export function useRealtimePrice({ symbols }: UseRealtimePriceOptions) {
         const message = JSON.parse(event.data);
 
         if (message.type === 'connected') {
-          console.log('Connected to symbols:', message.symbols);
-          if (message.broker === 'fyers') {
-            console.log('[VIDYA] Fyers user: Real-time streaming not available. Chart updates via polling.');
-          }
+          console.log(`Connected to ${message.broker} symbols:`, message.symbols);
+          // A (re)connected stream starts from the URL's symbols; catch up with any changes since
+          streamIdRef.current = message.streamId ?? null;
+          streamedRef.current = new Set(message.symbols);
+          void syncSymbols();
         } else if (message.type === 'tick') {
-          // Only Zerodha sends tick data
           setPrices((prev) => ({
             ...prev,
             [message.symbol]: message.data,
@@ -82,7 +160,7 @@ export function useRealtimePrice({ symbols }: UseRealtimePriceOptions) {
       }
     };
 
-    eventSource.onerror = (err) => {
+    eventSource.onerror = () => {
       // Only log detailed error if not just a normal connection state change
       if (eventSource.readyState !== EventSource.OPEN) {
         console.warn('EventSource error - attempting reconnect');
@@ -93,29 +171,27 @@ export function useRealtimePrice({ symbols }: UseRealtimePriceOptions) {
       let errorMsg = 'Connection error. Retrying...';
       if (eventSource.readyState === EventSource.CLOSED) {
         errorMsg = 'Server unavailable. Please check your internet connection.';
-      }
-
-      setError(errorMsg);
 
-      // Auto-reconnect after 5 seconds (only in browser)
-      if (typeof window !== 'undefined') {
-        setTimeout(() => {
-          if (eventSourceRef.current?.readyState === EventSource.CLOSED) {
-            console.log('Reconnecting to real-time prices...');
-            eventSourceRef.current = new EventSource(url);
-          }
+        // EventSource gives up once closed; open a fresh stream after 5 seconds
+        reconnectTimer = setTimeout(() => {
+          console.log('Reconnecting to real-time prices...');
+          setReconnectKey((key) => key + 1);
         }, 5000);
       }
+
+      setError(errorMsg);
     };
 
     // Cleanup on unmount
     return () => {
-      if (eventSourceRef.current) {
-        eventSourceRef.current.close();
-        eventSourceRef.current = null;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
       }
+      eventSource.close();
+      streamIdRef.current = null;
+      streamedRef.current = new Set();
     };
-  }, [user, symbols.join(',')]);
+  }, [user, hasSymbols, mode, reconnectKey, syncSymbols]);
 
   return {
     prices,
@@ -0,0 +1,41 @@
+/**
+ * Next.js server startup hook
+ * Loads exchange holidays from TRADING_CALENDAR_FILE when set, starts downloading the
+ * brokers' instrument dumps (lib/instrumentMaster.ts), and starts the OpenAlgo-compatible
+ * market data WebSocket server when OPENALGO_WS_PORT is set
+ * (needs a long-running Node server: `next start` or `next dev`, not serverless)
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  if (process.env.TRADING_CALENDAR_FILE) {
+    const { loadTradingCalendarFile } = await import('./lib/tradingCalendarFile');
+    try {
+      await loadTradingCalendarFile(process.env.TRADING_CALENDAR_FILE);
+    } catch (error) {
+      console.error('[TRADING-CALENDAR] Failed to load calendar file, using built-in holidays:', error);
+    }
+  }
+
+  // Not awaited: the dumps take a while, and lookups made before they arrive load them too
+  const { loadAllInstruments } = await import('./lib/instrumentMaster');
+  void loadAllInstruments();
+
+  if (!process.env.OPENALGO_WS_PORT) {
+    return;
+  }
+
+  const { startOpenAlgoStreamServer } = await import('./lib/websocket/openalgoStreamServer');
+  try {
+    await startOpenAlgoStreamServer({
+      port: Number(process.env.OPENALGO_WS_PORT),
+      host: process.env.OPENALGO_WS_HOST || undefined,
+      trustProxy: process.env.OPENALGO_WS_TRUST_PROXY === 'true',
+    });
+  } catch (error) {
+    console.error('[OPENALGO-WS] Failed to start market data server:', error);
+  }
+}
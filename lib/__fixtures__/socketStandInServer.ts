@@ -0,0 +1,113 @@
+/**
+ * Recorded-Frame WebSocket Stand-In Server
+ * Replays recorded broker socket frames on localhost so streaming feeds can be exercised
+ * end-to-end (handshake headers, auth, subscriptions, binary ticks) without a live account
+ *
+ * Point a feed at it through its socket URL env var (e.g. FYERS_DATA_SOCKET_URL)
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+
+/**
+ * One recorded server frame, sent once the client has sent `after` messages (0 = on connect)
+ */
+export interface RecordedFrame {
+  after: number;
+  binary?: string;               // base64-encoded binary frame
+  text?: string;
+}
+
+export interface SocketRecording {
+  rejectStatus?: number;         // refuse the handshake with this HTTP status
+  frames: RecordedFrame[];
+}
+
+export interface ReceivedMessage {
+  binary: boolean;
+  data: Buffer;
+}
+
+export interface SocketStandInServer {
+  url: string;
+  handshakes: http.IncomingHttpHeaders[];
+  messages: ReceivedMessage[];
+  close: () => Promise<void>;
+}
+
+function sendFrame(socket: WebSocket, frame: RecordedFrame): void {
+  if (frame.binary !== undefined) {
+    socket.send(Buffer.from(frame.binary, 'base64'), { binary: true });
+  } else if (frame.text !== undefined) {
+    socket.send(frame.text);
+  }
+}
+
+/**
+ * Start a stand-in socket server on a free port
+ * A text "ping" is answered with "pong" and doesn't count towards `after`
+ */
+export function startSocketStandIn(recording: SocketRecording): Promise<SocketStandInServer> {
+  const handshakes: http.IncomingHttpHeaders[] = [];
+  const messages: ReceivedMessage[] = [];
+  const server = http.createServer();
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    handshakes.push(req.headers);
+    if (recording.rejectStatus) {
+      socket.end(`HTTP/1.1 ${recording.rejectStatus} ${http.STATUS_CODES[recording.rejectStatus]}\r\n\r\n`);
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (client) => wss.emit('connection', client));
+  });
+
+  wss.on('connection', (client: WebSocket) => {
+    let received = 0;
+    const replay = () => recording.frames.filter((frame) => frame.after === received).forEach((frame) => sendFrame(client, frame));
+
+    client.on('message', (data: Buffer, isBinary: boolean) => {
+      if (!isBinary && data.toString() === 'ping') {
+        client.send('pong');
+        return;
+      }
+      messages.push({ binary: isBinary, data });
+      received++;
+      replay();
+    });
+    replay();
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `ws://127.0.0.1:${port}`,
+        handshakes,
+        messages,
+        close: () =>
+          new Promise<void>((done) => {
+            wss.clients.forEach((client) => client.terminate());
+            wss.close();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+/**
+ * Run a test body against a stand-in socket server, always shutting it down afterwards
+ */
+export async function withSocketStandIn(
+  recording: SocketRecording,
+  run: (server: SocketStandInServer) => Promise<void>
+): Promise<void> {
+  const server = await startSocketStandIn(recording);
+  try {
+    await run(server);
+  } finally {
+    await server.close();
+  }
+}
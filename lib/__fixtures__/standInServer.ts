@@ -0,0 +1,104 @@
+/**
+ * Recorded-Response Stand-In Server
+ * Replays recorded broker API responses on localhost so broker clients can be
+ * exercised end-to-end (headers, payloads, error bodies) without a live account
+ *
+ * Point a client at it through its base URL env var (e.g. DHAN_API_BASE_URL)
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { gzipSync } from 'zlib';
+
+/**
+ * One recorded exchange; path may include a query string for an exact match
+ */
+export interface Recording {
+  method: string;
+  path: string;
+  status?: number;
+  body?: unknown;                // JSON response body
+  text?: string;                 // Raw response body (CSV files etc.)
+  gzip?: boolean;                // Serve body/text gzip-compressed (instrument dumps)
+}
+
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface StandInServer {
+  url: string;
+  requests: ReceivedRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Find the recording for a request: exact path + query first, then path alone
+ */
+function findRecording(recordings: Recording[], method: string, url: string): Recording | undefined {
+  const pathname = url.split('?')[0];
+  return (
+    recordings.find((r) => r.method === method && r.path === url) ||
+    recordings.find((r) => r.method === method && r.path === pathname)
+  );
+}
+
+/**
+ * Start a stand-in server on a free port
+ * Unrecorded requests get a 404 so a missing fixture fails loudly
+ */
+export function startStandInServer(recordings: Recording[]): Promise<StandInServer> {
+  const requests: ReceivedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const method = req.method || 'GET';
+      const url = req.url || '/';
+      requests.push({ method, path: url, headers: req.headers, body });
+
+      const recording = findRecording(recordings, method, url);
+      if (!recording) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: `No recording for ${method} ${url}` }));
+        return;
+      }
+
+      const payload = recording.text ?? JSON.stringify(recording.body ?? null);
+      res.writeHead(recording.status ?? 200, {
+        'Content-Type': recording.text === undefined ? 'application/json' : 'text/plain',
+      });
+      res.end(recording.gzip ? gzipSync(payload) : payload);
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/**
+ * Run a test body against a stand-in server, always shutting it down afterwards
+ */
+export async function withStandInServer(
+  recordings: Recording[],
+  run: (server: StandInServer) => Promise<void>
+): Promise<void> {
+  const server = await startStandInServer(recordings);
+  try {
+    await run(server);
+  } finally {
+    await server.close();
+  }
+}
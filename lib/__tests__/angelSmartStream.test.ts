@@ -0,0 +1,235 @@
+/**
+ * Tests for the Angel SmartStream protocol and feed against recorded frames
+ * replayed by a local WebSocket stand-in
+ */
+
+import { EventEmitter } from 'events';
+import recorded from '../__fixtures__/angel.stream.recorded.json';
+import { Recording, withStandInServer } from '../__fixtures__/standInServer';
+import { SocketRecording, SocketStandInServer, withSocketStandIn } from '../__fixtures__/socketStandInServer';
+import { angelSubscriptionMessage, parseAngelBinary, parseAngelTextMessage } from '../websocket/angelSmartStreamProtocol';
+import { AngelScrip, parseAngelScripMaster } from '../instrumentSymbols';
+import { findInstrument, setBrokerInstruments } from '../instrumentMaster';
+import AngelSmartStream from '../websocket/angelSmartStream';
+import { TickData } from '../websocket/kiteTickerProtocol';
+
+const fixtures = recorded as unknown as {
+  scripMaster: Recording & { body: AngelScrip[] };
+  smartStream: SocketRecording;
+  smartStreamError: SocketRecording;
+  smartStreamRejected: SocketRecording;
+};
+
+const CREDENTIALS = {
+  jwtToken: 'recorded-angel-jwt',
+  apiKey: 'recorded-api-key',
+  clientCode: 'A123456',
+  feedToken: 'recorded-feed-token',
+};
+
+function frame(recording: SocketRecording, index: number): Buffer {
+  return Buffer.from(recording.frames[index].binary!, 'base64');
+}
+
+/**
+ * Resolve with the next emission of an event, failing after a timeout
+ */
+function nextEvent<T>(emitter: EventEmitter, event: string, timeoutMs = 2000): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${event}`)), timeoutMs);
+    emitter.once(event, (value: T) => {
+      clearTimeout(timer);
+      resolve(value);
+    });
+  });
+}
+
+/**
+ * Serve the scrip master over HTTP and the recorded SmartStream frames over the socket
+ */
+function withAngel(recording: SocketRecording, run: (socket: SocketStandInServer) => Promise<void>) {
+  return withStandInServer([fixtures.scripMaster], (http) =>
+    withSocketStandIn(recording, async (socket) => {
+      process.env.ANGEL_SCRIP_MASTER_URL = `${http.url}/OpenAPIScripMaster.json`;
+      process.env.ANGEL_SMARTSTREAM_URL = socket.url;
+      await run(socket);
+    })
+  );
+}
+
+describe('Angel scrip master', () => {
+  it('should key symbols the way OpenAlgo names them', () => {
+    setBrokerInstruments('angel', parseAngelScripMaster(fixtures.scripMaster.body));
+    expect(findInstrument('SBIN')?.brokers.angel).toEqual({ symbol: 'SBIN-EQ', exchange: 'NSE', token: '3045' });
+    expect(findInstrument('NSE:NIFTY')?.brokers.angel).toEqual({ symbol: 'Nifty 50', exchange: 'NSE', token: '99926000' });
+    expect(findInstrument('NIFTY25JAN2421000CE')?.brokers.angel).toEqual({
+      symbol: 'NIFTY25JAN2421000CE',
+      exchange: 'NFO',
+      token: '43650',
+    });
+    expect(findInstrument('BSE:SBIN')?.brokers.angel).toEqual({ symbol: 'SBIN', exchange: 'BSE', token: '500112' });
+  });
+});
+
+describe('Angel SmartStream protocol', () => {
+  it('should group subscription tokens by exchange', () => {
+    const message = JSON.parse(
+      angelSubscriptionMessage(
+        'subscribe',
+        'quote',
+        [
+          { exchangeType: 1, token: '3045' },
+          { exchangeType: 2, token: '43650' },
+          { exchangeType: 1, token: '99926000' },
+        ],
+        'abcde12345'
+      )
+    );
+    expect(message).toEqual({
+      correlationID: 'abcde12345',
+      action: 1,
+      params: {
+        mode: 2,
+        tokenList: [
+          { exchangeType: 1, tokens: ['3045', '99926000'] },
+          { exchangeType: 2, tokens: ['43650'] },
+        ],
+      },
+    });
+  });
+
+  it('should parse a SnapQuote packet with best five depth', () => {
+    const tick = parseAngelBinary(frame(fixtures.smartStream, 0))!;
+    expect(tick).toMatchObject({
+      instrument_token: 3045,
+      mode: 'full',
+      last_price: 812.5,
+      last_traded_quantity: 10,
+      average_traded_price: 810.1,
+      volume_traded: 1234567,
+      total_buy_quantity: 250000,
+      total_sell_quantity: 300000,
+      ohlc: { open: 805, high: 815, low: 802, close: 800 },
+      oi: 0,
+    });
+    expect(tick.change).toBeCloseTo(1.5625);
+    expect(tick.exchange_timestamp?.toISOString()).toBe('2024-01-15T03:45:00.000Z');
+    expect(tick.last_trade_time?.toISOString()).toBe('2024-01-15T03:44:59.000Z');
+    expect(tick.depth?.buy[0]).toEqual({ quantity: 100, price: 812.45, orders: 1 });
+    expect(tick.depth?.sell[4]).toEqual({ quantity: 750, price: 812.75, orders: 6 });
+  });
+
+  it('should parse LTP and Quote packets', () => {
+    expect(parseAngelBinary(frame(fixtures.smartStream, 1))).toMatchObject({
+      instrument_token: 99926000,
+      mode: 'ltp',
+      last_price: 21850.45,
+    });
+    expect(parseAngelBinary(frame(fixtures.smartStream, 2))).toMatchObject({
+      instrument_token: 43650,
+      mode: 'quote',
+      last_price: 125.4,
+      volume_traded: 845000,
+      ohlc: { open: 118, high: 130, low: 115, close: 110 },
+    });
+  });
+
+  it('should reject truncated packets', () => {
+    expect(parseAngelBinary(frame(fixtures.smartStream, 0).subarray(0, 200))).toBeNull();
+    expect(parseAngelBinary(frame(fixtures.smartStream, 1).subarray(0, 40))).toBeNull();
+  });
+
+  it('should read heartbeat replies and error responses', () => {
+    expect(parseAngelTextMessage('pong')).toEqual({ type: 'pong' });
+    expect(parseAngelTextMessage(fixtures.smartStreamError.frames[0].text!)).toEqual({
+      type: 'error',
+      message: 'E1002: Invalid Request. Subscription Limit Exceeded',
+    });
+  });
+});
+
+describe('AngelSmartStream', () => {
+  it('should stream recorded ticks for resolved symbols', async () => {
+    await withAngel(fixtures.smartStream, async (server) => {
+      const feed = new AngelSmartStream();
+      try {
+        feed.initialize(CREDENTIALS);
+        const resolved = await feed.resolveSymbols(['SBIN', 'NSE:NIFTY', 'NIFTY25JAN2421000CE', 'NOSUCHSCRIP']);
+        expect(Array.from(resolved.entries())).toEqual([
+          ['SBIN', 3045],
+          ['NSE:NIFTY', 99926000],
+          ['NIFTY25JAN2421000CE', 43650],
+        ]);
+        feed.subscribe(Array.from(resolved.values()), 'full');
+
+        const received: TickData[] = [];
+        const done = new Promise<void>((resolve) =>
+          feed.on('ticks', (ticks: TickData[]) => {
+            received.push(...ticks);
+            if (received.length === 3) resolve();
+          })
+        );
+        feed.connect();
+        await done;
+
+        expect(received.map((tick) => tick.instrument_token)).toEqual([3045, 99926000, 43650]);
+        expect(feed.getLastPrice(3045)).toBe(812.5);
+        expect(feed.getHealth()).toMatchObject({ state: 'connected', subscribedInstruments: 3, maxInstruments: 1000 });
+
+        expect(server.handshakes[0]).toMatchObject({
+          authorization: 'Bearer recorded-angel-jwt',
+          'x-api-key': 'recorded-api-key',
+          'x-client-code': 'A123456',
+          'x-feed-token': 'recorded-feed-token',
+        });
+        const subscribe = JSON.parse(server.messages[0].data.toString());
+        expect(subscribe.action).toBe(1);
+        expect(subscribe.params).toEqual({
+          mode: 3,
+          tokenList: [
+            { exchangeType: 1, tokens: ['3045', '99926000'] },
+            { exchangeType: 2, tokens: ['43650'] },
+          ],
+        });
+      } finally {
+        feed.disconnect();
+      }
+    });
+  });
+
+  it('should record SmartStream errors in the connection health', async () => {
+    await withAngel(fixtures.smartStreamError, async () => {
+      const feed = new AngelSmartStream();
+      try {
+        feed.initialize(CREDENTIALS);
+        const resolved = await feed.resolveSymbols(['SBIN']);
+        feed.subscribe(Array.from(resolved.values()), 'ltp');
+        feed.connect();
+
+        const error = await nextEvent<Error>(feed, 'error');
+        expect(error.message).toContain('E1002');
+        expect(feed.getHealth().lastError).toContain('Subscription Limit Exceeded');
+      } finally {
+        feed.disconnect();
+      }
+    });
+  });
+
+  it('should stop reconnecting when the handshake is rejected', async () => {
+    await withAngel(fixtures.smartStreamRejected, async () => {
+      const feed = new AngelSmartStream();
+      try {
+        feed.initialize(CREDENTIALS);
+        feed.on('error', () => {});
+        const stopped = nextEvent(feed, 'no_reconnect');
+        feed.connect();
+        await stopped;
+
+        expect(feed.getHealth()).toMatchObject({ state: 'failed', connected: false });
+        expect(feed.getHealth().lastError).toContain('log in to Angel One again');
+      } finally {
+        feed.disconnect();
+      }
+    });
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Unit tests for per-broker OpenAlgo book mappers
+ */
+
+import { buildOrderBookData, buildHoldingsData } from '../brokers/books';
+import {
+  mapZerodhaOrderbook,
+  mapZerodhaPositions,
+  mapZerodhaFunds,
+  normalizeZerodhaStatus,
+} from '../brokers/zerodhaMapper';
+import { mapAngelOrderbook, mapAngelTradebook, mapAngelHoldings, mapAngelFunds } from '../brokers/angelMapper';
+import {
+  mapFyersOrderbook,
+  mapFyersPositions,
+  mapFyersFunds,
+  normalizeFyersStatus,
+  normalizeFyersSymbol,
+} from '../brokers/fyersMapper';
+
+describe('status normalization', () => {
+  it('should collapse Zerodha transient states to open', () => {
+    expect(normalizeZerodhaStatus('COMPLETE')).toBe('complete');
+    expect(normalizeZerodhaStatus('TRIGGER PENDING')).toBe('trigger pending');
+    expect(normalizeZerodhaStatus('AMO REQ RECEIVED')).toBe('open');
+    expect(normalizeZerodhaStatus('MODIFY PENDING')).toBe('open');
+  });
+
+  it('should map Fyers numeric statuses and pending stop orders', () => {
+    expect(normalizeFyersStatus(1)).toBe('cancelled');
+    expect(normalizeFyersStatus(2)).toBe('complete');
+    expect(normalizeFyersStatus(5)).toBe('rejected');
+    expect(normalizeFyersStatus(6, 1)).toBe('open');
+    expect(normalizeFyersStatus(6, 4)).toBe('trigger pending');
+    expect(normalizeFyersStatus(7)).toBe('cancelled');
+  });
+});
+
+describe('mapZerodhaOrderbook', () => {
+  it('should map Kite orders and use average price once complete', () => {
+    const { orders, statistics } = mapZerodhaOrderbook([
+      {
+        order_id: '1001',
+        tradingsymbol: 'SBIN',
+        exchange: 'NSE',
+        transaction_type: 'BUY',
+        order_type: 'LIMIT',
+        product: 'MIS',
+        quantity: 10,
+        price: 600,
+        average_price: 599.5,
+        trigger_price: 0,
+        status: 'COMPLETE',
+        order_timestamp: '2024-01-15 09:15:00',
+      },
+      {
+        order_id: '1002',
+        tradingsymbol: 'INFY',
+        exchange: 'NSE',
+        transaction_type: 'SELL',
+        order_type: 'SL-M',
+        product: 'CNC',
+        quantity: 5,
+        price: 0,
+        trigger_price: 1500,
+        status: 'TRIGGER PENDING',
+      },
+    ]);
+
+    expect(orders[0]).toEqual({
+      symbol: 'SBIN',
+      exchange: 'NSE',
+      action: 'BUY',
+      quantity: 10,
+      price: 599.5,
+      trigger_price: 0,
+      pricetype: 'LIMIT',
+      product: 'MIS',
+      orderid: '1001',
+      order_status: 'complete',
+      timestamp: '2024-01-15 09:15:00',
+    });
+    expect(orders[1].pricetype).toBe('SL-M');
+    expect(orders[1].order_status).toBe('trigger pending');
+    expect(statistics).toEqual({
+      total_buy_orders: 1,
+      total_sell_orders: 1,
+      total_completed_orders: 1,
+      total_open_orders: 1,
+      total_rejected_orders: 0,
+    });
+  });
+
+  it('should return an empty book for non-array payloads', () => {
+    expect(mapZerodhaOrderbook(undefined)).toEqual(buildOrderBookData([]));
+  });
+});
+
+describe('mapZerodhaPositions and mapZerodhaFunds', () => {
+  it('should read net positions only', () => {
+    const positions = mapZerodhaPositions({
+      net: [{ tradingsymbol: 'SBIN', exchange: 'NSE', product: 'NRML', quantity: -25, average_price: 610, last_price: 600, pnl: 250 }],
+      day: [{ tradingsymbol: 'SBIN', exchange: 'NSE', product: 'NRML', quantity: -5 }],
+    });
+    expect(positions).toEqual([
+      { symbol: 'SBIN', exchange: 'NSE', product: 'NRML', quantity: -25, average_price: 610, ltp: 600, pnl: 250 },
+    ]);
+  });
+
+  it('should read the equity segment of Kite margins', () => {
+    const funds = mapZerodhaFunds({
+      equity: {
+        net: 99725.05,
+        available: { cash: 100000, collateral: 5000 },
+        utilised: { debits: 274.95, m2m_realised: -120, m2m_unrealised: 45.5, span: 200, exposure: 74.95 },
+      },
+    });
+    expect(funds.availablecash).toBe(99725.05);
+    expect(funds.collateral).toBe(5000);
+    expect(funds.m2mrealized).toBe(-120);
+    expect(funds.m2munrealized).toBe(45.5);
+    expect(funds.utilisedspan).toBe(200);
+  });
+});
+
+describe('Angel mappers', () => {
+  it('should map Angel order and product names', () => {
+    const { orders } = mapAngelOrderbook([
+      {
+        orderid: '2401',
+        tradingsymbol: 'SBIN-EQ',
+        exchange: 'NSE',
+        transactiontype: 'SELL',
+        ordertype: 'STOPLOSS_LIMIT',
+        producttype: 'CARRYFORWARD',
+        quantity: '15',
+        price: '590.5',
+        triggerprice: '591',
+        averageprice: '0',
+        status: 'rejected',
+        updatetime: '15-Jan-2024 09:20:00',
+      },
+    ]);
+    expect(orders[0]).toMatchObject({
+      symbol: 'SBIN-EQ',
+      action: 'SELL',
+      pricetype: 'SL',
+      product: 'NRML',
+      quantity: 15,
+      price: 590.5,
+      trigger_price: 591,
+      order_status: 'rejected',
+    });
+  });
+
+  it('should compute trade value when Angel omits it', () => {
+    const trades = mapAngelTradebook([
+      { orderid: '2401', tradingsymbol: 'SBIN-EQ', exchange: 'NSE', producttype: 'DELIVERY', transactiontype: 'BUY', fillsize: '4', fillprice: '600.25' },
+    ]);
+    expect(trades[0]).toMatchObject({ product: 'CNC', quantity: 4, average_price: 600.25, trade_value: 2401 });
+  });
+
+  it('should build holdings statistics from getAllHolding', () => {
+    const { holdings, statistics } = mapAngelHoldings({
+      holdings: [
+        { tradingsymbol: 'SBIN-EQ', exchange: 'NSE', quantity: 10, averageprice: 500, ltp: 550, profitandloss: 500 },
+        { tradingsymbol: 'INFY-EQ', exchange: 'NSE', quantity: 2, averageprice: 1500, ltp: 1400, profitandloss: -200 },
+      ],
+      totalholding: {},
+    });
+    expect(holdings[0]).toEqual({ symbol: 'SBIN-EQ', exchange: 'NSE', quantity: 10, product: 'CNC', pnl: 500, pnlpercent: 10 });
+    expect(statistics).toEqual({
+      totalholdingvalue: 8300,
+      totalinvvalue: 8000,
+      totalprofitandloss: 300,
+      totalpnlpercentage: 3.75,
+    });
+  });
+
+  it('should parse RMS strings into numbers', () => {
+    const funds = mapAngelFunds({ availablecash: '1000.505', m2mrealized: '-12.5', utiliseddebits: null });
+    expect(funds.availablecash).toBe(1000.51);
+    expect(funds.m2mrealized).toBe(-12.5);
+    expect(funds.utiliseddebits).toBe(0);
+  });
+});
+
+describe('Fyers mappers', () => {
+  it('should strip exchange prefix and series suffix from symbols', () => {
+    expect(normalizeFyersSymbol('NSE:SBIN-EQ')).toBe('SBIN');
+    expect(normalizeFyersSymbol('BSE:TCS-EQ')).toBe('TCS');
+    expect(normalizeFyersSymbol('NSE:NIFTY24JANFUT')).toBe('NIFTY24JANFUT');
+  });
+
+  it('should decode numeric side, type and exchange codes', () => {
+    const { orders, statistics } = mapFyersOrderbook({
+      s: 'ok',
+      orderBook: [
+        {
+          id: '24011500001',
+          symbol: 'NSE:NIFTY24JANFUT',
+          exchange: 10,
+          segment: 11,
+          side: -1,
+          type: 3,
+          productType: 'MARGIN',
+          qty: 50,
+          limitPrice: 0,
+          stopPrice: 21500,
+          status: 6,
+          orderDateTime: '15-Jan-2024 09:30:00',
+        },
+      ],
+    });
+    expect(orders[0]).toEqual({
+      symbol: 'NIFTY24JANFUT',
+      exchange: 'NFO',
+      action: 'SELL',
+      quantity: 50,
+      price: 0,
+      trigger_price: 21500,
+      pricetype: 'SL-M',
+      product: 'NRML',
+      orderid: '24011500001',
+      order_status: 'trigger pending',
+      timestamp: '15-Jan-2024 09:30:00',
+    });
+    expect(statistics.total_open_orders).toBe(1);
+  });
+
+  it('should map net positions', () => {
+    const positions = mapFyersPositions({
+      netPositions: [{ symbol: 'NSE:SBIN-EQ', exchange: 10, segment: 10, productType: 'INTRADAY', netQty: 3, netAvg: 600, ltp: 602, pl: 6 }],
+    });
+    expect(positions).toEqual([
+      { symbol: 'SBIN', exchange: 'NSE', product: 'MIS', quantity: 3, average_price: 600, ltp: 602, pnl: 6 },
+    ]);
+  });
+
+  it('should read fund limits by title and unrealised P&L from positions', () => {
+    const funds = mapFyersFunds(
+      {
+        fund_limit: [
+          { id: 10, title: 'Available Balance', equityAmount: 50000 },
+          { id: 2, title: 'Utilized Amount', equityAmount: 1200 },
+          { id: 4, title: 'Realized Profit and Loss', equityAmount: 300 },
+        ],
+      },
+      { overall: { pl_unrealized: -45 } }
+    );
+    expect(funds.availablecash).toBe(50000);
+    expect(funds.utiliseddebits).toBe(1200);
+    expect(funds.m2mrealized).toBe(300);
+    expect(funds.m2munrealized).toBe(-45);
+  });
+});
+
+describe('buildHoldingsData', () => {
+  it('should compute P&L from prices when the broker omits it', () => {
+    const { holdings, statistics } = buildHoldingsData([
+      { symbol: 'SBIN', exchange: 'NSE', product: 'CNC', quantity: 4, average_price: 500, ltp: 525 },
+    ]);
+    expect(holdings[0].pnl).toBe(100);
+    expect(holdings[0].pnlpercent).toBe(5);
+    expect(statistics.totalpnlpercentage).toBe(5);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for server-side tick-to-candle aggregation
+ */
+
+import { CandleBuilder, candleStart, findCandleGaps, mergeCandles, volumeDelta } from '../candleBuilder';
+import { TickData } from '../websocket/kiteTickerProtocol';
+
+// 2024-01-15 (Monday) 09:15 IST
+const OPEN = Date.parse('2024-01-15T03:45:00Z') / 1000;
+
+function tick(secondsAfterOpen: number, price: number, volume?: number): TickData {
+  return {
+    instrument_token: 738561,
+    mode: 'quote',
+    tradable: true,
+    last_price: price,
+    volume_traded: volume,
+    exchange_timestamp: new Date((OPEN + secondsAfterOpen) * 1000),
+  };
+}
+
+function candle(time: number, price: number, volume = 0) {
+  return { time, open: price, high: price, low: price, close: price, volume };
+}
+
+describe('volumeDelta', () => {
+  it('should take the change in cumulative volume', () => {
+    expect(volumeDelta(1000, 1250)).toBe(250);
+    expect(volumeDelta(undefined, 1250)).toBe(0);
+    expect(volumeDelta(1000, undefined)).toBe(0);
+  });
+
+  it('should count everything after a day reset', () => {
+    expect(volumeDelta(5000000, 1200)).toBe(1200);
+  });
+});
+
+describe('CandleBuilder', () => {
+  it('should build OHLC with volume from cumulative volume deltas', () => {
+    const builder = new CandleBuilder(['minute']);
+    builder.applyTick(tick(0, 100, 1000));
+    builder.applyTick(tick(10, 102, 1100));
+    builder.applyTick(tick(20, 99, 1180));
+    const { updated } = builder.applyTick(tick(30, 101, 1200));
+
+    expect(updated).toEqual([
+      {
+        interval: 'minute',
+        candle: { time: OPEN, open: 100, high: 102, low: 99, close: 101, volume: 200 },
+        complete: false,
+        partial: true,
+      },
+    ]);
+  });
+
+  it('should complete a candle when a tick lands in the next interval', () => {
+    const builder = new CandleBuilder(['minute', '5minute']);
+    builder.applyTick(tick(0, 100, 1000));
+    builder.applyTick(tick(30, 101, 1100));
+    const { completed, updated } = builder.applyTick(tick(61, 103, 1150));
+
+    expect(completed).toEqual([
+      {
+        interval: 'minute',
+        candle: { time: OPEN, open: 100, high: 101, low: 100, close: 101, volume: 100 },
+        complete: true,
+        partial: true,
+      },
+    ]);
+    // The delta between the last tick of one candle and the first of the next belongs to the new candle
+    expect(updated[0]).toMatchObject({ candle: { time: OPEN + 60, open: 103, volume: 50 }, partial: false });
+    expect(updated[1]).toMatchObject({ interval: '5minute', candle: { time: OPEN, volume: 150 } });
+  });
+
+  it('should close candles of quiet instruments once their interval ends', () => {
+    const builder = new CandleBuilder(['minute', '3minute']);
+    builder.applyTick(tick(5, 100, 10));
+    expect(builder.closeElapsed(new Date((OPEN + 59) * 1000))).toEqual([]);
+
+    const completed = builder.closeElapsed(new Date((OPEN + 60) * 1000));
+    expect(completed.map((update) => update.interval)).toEqual(['minute']);
+    expect(builder.getForming('minute')).toBeNull();
+    expect(builder.getForming('3minute')).toMatchObject({ candle: { time: OPEN, close: 100 } });
+  });
+
+  it('should close the last hourly candle at the session close and drop later ticks', () => {
+    const builder = new CandleBuilder(['60minute']);
+    const { updated } = builder.applyTick(tick(361 * 60, 100, 10));   // 15:16 IST
+    expect(updated[0].candle.time).toBe(OPEN + 360 * 60);
+
+    expect(builder.closeElapsed(new Date((OPEN + 375 * 60) * 1000))).toHaveLength(1);
+    expect(builder.applyTick(tick(380 * 60, 101, 20)).updated).toEqual([]);
+  });
+});
+
+describe('findCandleGaps', () => {
+  it('should find missing candles within the trading session', () => {
+    const candles = [candle(OPEN, 1), candle(OPEN + 60, 1), candle(OPEN + 240, 1)];
+    expect(findCandleGaps(candles, OPEN, OPEN + 240, 'minute')).toEqual([{ from: OPEN + 120, to: OPEN + 180 }]);
+  });
+
+  it('should not treat the overnight break as a gap', () => {
+    const lastOfDay = OPEN + 374 * 60;               // 15:29 IST
+    const nextOpen = OPEN + 86400;
+    const candles = [candle(lastOfDay, 1), candle(nextOpen, 1)];
+    expect(findCandleGaps(candles, lastOfDay, nextOpen, 'minute')).toEqual([]);
+  });
+
+  it('should follow the session grid from one day to the next', () => {
+    const candles = [candle(OPEN + 360 * 60, 1), candle(OPEN + 86400, 1)];
+    expect(findCandleGaps(candles, OPEN + 360 * 60, OPEN + 86400 + 60 * 60, '60minute')).toEqual([
+      { from: OPEN + 86400 + 60 * 60, to: OPEN + 86400 + 60 * 60 },
+    ]);
+  });
+
+  it('should split gaps by trading day', () => {
+    const gaps = findCandleGaps([], OPEN + 370 * 60, OPEN + 86400 + 60, 'minute');
+    expect(gaps).toEqual([
+      { from: OPEN + 370 * 60, to: OPEN + 374 * 60 },
+      { from: OPEN + 86400, to: OPEN + 86400 + 60 },
+    ]);
+  });
+});
+
+describe('mergeCandles', () => {
+  it('should replace candles by time and keep the series sorted', () => {
+    const merged = mergeCandles([candle(60, 1), candle(180, 3)], [candle(120, 2), candle(180, 4)]);
+    expect(merged.map((entry) => [entry.time, entry.close])).toEqual([
+      [60, 1],
+      [120, 2],
+      [180, 4],
+    ]);
+  });
+
+  it('should only extend a loaded candle with a partial one', () => {
+    const loaded = { time: 60, open: 100, high: 105, low: 98, close: 104, volume: 5000 };
+    const partial = { time: 60, open: 104, high: 106, low: 103, close: 103, volume: 300 };
+    expect(mergeCandles([loaded], [partial], true)).toEqual([
+      { time: 60, open: 100, high: 106, low: 98, close: 103, volume: 5000 },
+    ]);
+  });
+});
+
+describe('candleStart', () => {
+  it('should round down to the interval', () => {
+    expect(candleStart(OPEN + 299, '5minute')).toBe(OPEN);
+    expect(candleStart(OPEN + 300, '5minute')).toBe(OPEN + 300);
+  });
+});
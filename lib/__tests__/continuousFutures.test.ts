@@ -0,0 +1,80 @@
+/**
+ * Unit tests for continuous futures resolution and rollover stitching
+ */
+
+import {
+  activeContract,
+  contractSegments,
+  parseContinuousSymbol,
+  resolveContinuousSymbol,
+  stitchContracts,
+} from '../continuousFutures';
+
+function day(date: string, close: number) {
+  return { time: Date.parse(`${date}T00:00:00+05:30`) / 1000, open: close, high: close, low: close, close, volume: 100 };
+}
+
+describe('parseContinuousSymbol', () => {
+  it('should read the underlying, contract index and exchange prefix', () => {
+    expect(parseContinuousSymbol('NIFTY-I')).toEqual({ prefix: '', underlying: 'NIFTY', index: 1 });
+    expect(parseContinuousSymbol('NFO:BANKNIFTY-II')).toEqual({ prefix: 'NFO:', underlying: 'BANKNIFTY', index: 2 });
+    expect(parseContinuousSymbol('BAJAJ-AUTO-I')).toMatchObject({ underlying: 'BAJAJ-AUTO', index: 1 });
+  });
+
+  it('should ignore contract and other symbols', () => {
+    expect(parseContinuousSymbol('NIFTY26JANFUT')).toBeNull();
+    expect(parseContinuousSymbol('NIFTY-IV')).toBeNull();
+    expect(parseContinuousSymbol('RELIANCE')).toBeNull();
+  });
+});
+
+describe('activeContract', () => {
+  it('should roll to the next month the day after expiry', () => {
+    expect(activeContract('NIFTY', 1, '2026-01-27').symbol).toBe('NIFTY26JANFUT');
+    expect(activeContract('NIFTY', 1, '2026-01-28').symbol).toBe('NIFTY26FEBFUT');
+    expect(activeContract('NIFTY', 2, '2026-01-28').symbol).toBe('NIFTY26MARFUT');
+  });
+
+  it('should carry over into the next year', () => {
+    expect(activeContract('NIFTY', 1, '2025-12-31').symbol).toBe('NIFTY26JANFUT');
+    expect(activeContract('NIFTY', 3, '2025-12-01').symbol).toBe('NIFTY26FEBFUT');
+  });
+});
+
+describe('resolveContinuousSymbol', () => {
+  it('should resolve to the active contract and keep the exchange prefix', () => {
+    const now = Date.parse('2026-01-28T10:00:00+05:30') / 1000;
+    expect(resolveContinuousSymbol('NFO:NIFTY-I', now)).toBe('NFO:NIFTY26FEBFUT');
+    expect(resolveContinuousSymbol('RELIANCE', now)).toBe('RELIANCE');
+  });
+});
+
+describe('contractSegments', () => {
+  it('should split a range at each expiry', () => {
+    expect(contractSegments('NIFTY', 1, '2026-01-20', '2026-02-05')).toEqual([
+      { symbol: 'NIFTY26JANFUT', from: '2026-01-20', to: '2026-01-27' },
+      { symbol: 'NIFTY26FEBFUT', from: '2026-01-28', to: '2026-02-05' },
+    ]);
+  });
+});
+
+describe('stitchContracts', () => {
+  const parts = [
+    {
+      segment: { symbol: 'NIFTY26JANFUT', from: '2026-01-26', to: '2026-01-27' },
+      candles: [day('2026-01-26', 100), day('2026-01-27', 110)],
+    },
+    {
+      segment: { symbol: 'NIFTY26FEBFUT', from: '2026-01-28', to: '2026-01-28' },
+      candles: [day('2026-01-27', 115), day('2026-01-28', 120)],
+    },
+  ];
+
+  it('should join each contract over its own days', () => {
+    expect(stitchContracts(parts, false).map((candle) => candle.close)).toEqual([100, 110, 120]);
+  });
+
+  it('should shift earlier contracts by the rollover gap', () => {
+    expect(stitchContracts(parts, true).map((candle) => candle.close)).toEqual([105, 115, 120]);
+  });
+});
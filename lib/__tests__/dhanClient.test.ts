@@ -0,0 +1,202 @@
+/**
+ * Tests for the Dhan client and mapper against a recorded-response stand-in server
+ */
+
+import recorded from '../__fixtures__/dhan.recorded.json';
+import { Recording, withStandInServer } from '../__fixtures__/standInServer';
+import {
+  authenticateDhan,
+  placeOrder,
+  modifyOrder,
+  cancelAllOrders,
+  closePosition,
+  getOrderBook,
+  getHoldings,
+  getFunds,
+  getPositions,
+  getSecurityId,
+  transformOrderData,
+} from '../dhanClient';
+import { mapDhanOrderbook, mapDhanPositions, mapDhanFunds, mapDhanHoldings } from '../brokers/dhanMapper';
+
+const recordings = recorded as unknown as Record<string, Recording>;
+const TOKEN = 'recorded-dhan-token';
+
+/**
+ * Start the stand-in server with the named recordings and point the Dhan client at it
+ */
+function withDhan(names: string[], run: Parameters<typeof withStandInServer>[1]) {
+  return withStandInServer(
+    names.map((name) => recordings[name]),
+    async (server) => {
+      process.env.DHAN_API_BASE_URL = server.url;
+      process.env.DHAN_SCRIP_MASTER_URL = `${server.url}/api-scrip-master.csv`;
+      await run(server);
+    }
+  );
+}
+
+describe('Dhan authentication', () => {
+  it('should validate the access token against /profile', async () => {
+    await withDhan(['profile'], async (server) => {
+      const profile = await authenticateDhan(TOKEN);
+      expect(profile.dhanClientId).toBe('1100003626');
+      expect(server.requests[0].headers['access-token']).toBe(TOKEN);
+    });
+  });
+
+  it('should surface the Dhan error message for an expired token', async () => {
+    await withDhan(['invalidToken'], async () => {
+      let message = '';
+      try {
+        await authenticateDhan(TOKEN);
+      } catch (error) {
+        message = (error as Error).message;
+      }
+      expect(message).toContain('invalid or expired');
+    });
+  });
+});
+
+describe('Dhan orders', () => {
+  it('should send the Dhan order payload and return the order id', async () => {
+    await withDhan(['placeOrder'], async (server) => {
+      const payload = transformOrderData(
+        { symbol: 'HDFCBANK', exchange: 'NSE', action: 'BUY', quantity: 5, product: 'MIS', pricetype: 'SL', price: 1430, trigger_price: 1428 },
+        '1100003626',
+        '1333'
+      );
+      const result = await placeOrder(TOKEN, payload);
+
+      expect(result.orderid).toBe('112111182198');
+      expect(JSON.parse(server.requests[0].body)).toMatchObject({
+        dhanClientId: '1100003626',
+        transactionType: 'BUY',
+        exchangeSegment: 'NSE_EQ',
+        productType: 'INTRADAY',
+        orderType: 'STOP_LOSS',
+        securityId: '1333',
+        quantity: 5,
+        price: 1430,
+        triggerPrice: 1428,
+      });
+    });
+  });
+
+  it('should reject with the broker message when the order fails', async () => {
+    await withDhan(['placeOrderRejected'], async () => {
+      let message = '';
+      try {
+        await placeOrder(TOKEN, transformOrderData({ symbol: 'HDFCBANK', exchange: 'NSE', action: 'BUY', quantity: 5 }, '1100003626', '1333'));
+      } catch (error) {
+        message = (error as Error).message;
+      }
+      expect(message).toBe('Insufficient Funds');
+    });
+  });
+
+  it('should modify with PUT /orders/{id}', async () => {
+    await withDhan(['modifyOrder'], async (server) => {
+      const result = await modifyOrder(TOKEN, '1100003626', { orderid: '112111182198', quantity: 5, price: 1427, pricetype: 'LIMIT' });
+      expect(result.orderid).toBe('112111182198');
+      expect(server.requests[0].method).toBe('PUT');
+      expect(JSON.parse(server.requests[0].body)).toMatchObject({ orderId: '112111182198', orderType: 'LIMIT', price: 1427 });
+    });
+  });
+
+  it('should cancel only pending, transit and part-traded orders', async () => {
+    await withDhan(['orders', 'cancelOrder', 'cancelTransitOrder'], async (server) => {
+      const { canceled, failed } = await cancelAllOrders(TOKEN);
+      expect(canceled).toEqual(['112111182198', '112111182200']);
+      expect(failed).toEqual([]);
+      expect(server.requests.filter((r) => r.method === 'DELETE')).toHaveLength(2);
+    });
+  });
+
+  it('should close a short position with a BUY market order for its security id', async () => {
+    await withDhan(['positions', 'placeOrder'], async (server) => {
+      await closePosition(TOKEN, '1100003626', 'NIFTY-Jan2024-FUT', 'NFO', 'NRML');
+      expect(JSON.parse(server.requests[1].body)).toMatchObject({
+        transactionType: 'BUY',
+        exchangeSegment: 'NSE_FNO',
+        productType: 'MARGIN',
+        orderType: 'MARKET',
+        securityId: '35001',
+        quantity: 50,
+      });
+    });
+  });
+});
+
+describe('Dhan books', () => {
+  it('should map the recorded order book to OpenAlgo', async () => {
+    await withDhan(['orders'], async () => {
+      const { orders, statistics } = mapDhanOrderbook(await getOrderBook(TOKEN));
+      expect(orders[1]).toEqual({
+        symbol: 'NIFTY-Jan2024-FUT',
+        exchange: 'NFO',
+        action: 'SELL',
+        quantity: 50,
+        price: 21612.35,
+        trigger_price: 0,
+        pricetype: 'MARKET',
+        product: 'NRML',
+        orderid: '112111182199',
+        order_status: 'complete',
+        timestamp: '2024-01-15 09:20:12',
+      });
+      expect(orders[2]).toMatchObject({ exchange: 'MCX', pricetype: 'SL-M', order_status: 'open' });
+      expect(statistics).toEqual({
+        total_buy_orders: 2,
+        total_sell_orders: 2,
+        total_completed_orders: 1,
+        total_open_orders: 2,
+        total_rejected_orders: 1,
+      });
+    });
+  });
+
+  it('should derive LTP from unrealised P&L on positions', async () => {
+    await withDhan(['positions'], async () => {
+      const positions = mapDhanPositions(await getPositions(TOKEN));
+      expect(positions[0]).toEqual({
+        symbol: 'NIFTY-Jan2024-FUT',
+        exchange: 'NFO',
+        product: 'NRML',
+        quantity: -50,
+        average_price: 21612.35,
+        ltp: 21600,
+        pnl: 617.5,
+      });
+      expect(positions[1]).toMatchObject({ quantity: 0, ltp: 0, pnl: 62 });
+    });
+  });
+
+  it('should read fund limits and take M2M from positions', async () => {
+    await withDhan(['fundlimit', 'positions'], async () => {
+      const funds = mapDhanFunds(await getFunds(TOKEN), await getPositions(TOKEN));
+      expect(funds.availablecash).toBe(98440);
+      expect(funds.collateral).toBe(5000);
+      expect(funds.utiliseddebits).toBe(15202);
+      expect(funds.m2munrealized).toBe(617.5);
+      expect(funds.m2mrealized).toBe(62);
+    });
+  });
+
+  it('should treat the "no holdings" error as an empty book', async () => {
+    await withDhan(['noHoldings'], async () => {
+      expect(mapDhanHoldings(await getHoldings(TOKEN)).holdings).toEqual([]);
+    });
+  });
+});
+
+describe('getSecurityId', () => {
+  it('should resolve symbols from the scrip master, preferring the EQ series', async () => {
+    await withDhan(['scripMaster'], async () => {
+      expect(await getSecurityId('HDFCBANK', 'NSE')).toBe('1333');
+      expect(await getSecurityId('HDFCBANK', 'BSE')).toBe('500180');
+      expect(await getSecurityId('NIFTY-Jan2024-FUT', 'NFO')).toBe('35001');
+      expect(await getSecurityId('UNKNOWN', 'NSE')).toBeNull();
+    });
+  });
+});
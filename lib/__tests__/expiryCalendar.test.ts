@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the F&O expiry calendar and broker option symbols
+ */
+
+import {
+  daysToExpiry,
+  monthlyExpiry,
+  optionSymbol,
+  parseExpiry,
+  resolveExpiry,
+  upcomingExpiries,
+} from '../expiryCalendar';
+
+describe('monthlyExpiry', () => {
+  it('should expire on the last Thursday, and the last Tuesday from September 2025', () => {
+    expect(monthlyExpiry('NIFTY', 2024, 1)).toBe('2024-01-25');
+    expect(monthlyExpiry('NIFTY', 2025, 8)).toBe('2025-08-28');
+    expect(monthlyExpiry('NIFTY', 2026, 1)).toBe('2026-01-27');
+  });
+
+  it('should move to the previous trading day on a holiday', () => {
+    // 31 March 2026 is a trading holiday
+    expect(monthlyExpiry('NIFTY', 2026, 3)).toBe('2026-03-30');
+  });
+});
+
+describe('upcomingExpiries', () => {
+  it('should list weekly expiries with the monthly one in its week', () => {
+    expect(upcomingExpiries('NIFTY', '2026-01-01', 5)).toEqual([
+      { date: '2026-01-06', monthly: false },
+      { date: '2026-01-13', monthly: false },
+      { date: '2026-01-20', monthly: false },
+      { date: '2026-01-27', monthly: true },
+      { date: '2026-02-03', monthly: false },
+    ]);
+  });
+
+  it('should only list monthly expiries for underlyings without weeklies', () => {
+    expect(upcomingExpiries('BANKNIFTY', '2026-01-01', 2)).toEqual([
+      { date: '2026-01-27', monthly: true },
+      { date: '2026-02-24', monthly: true },
+    ]);
+  });
+});
+
+describe('resolveExpiry', () => {
+  it('should resolve current and next week', () => {
+    expect(resolveExpiry('NIFTY', 'current-week', '2026-01-14')).toEqual({ date: '2026-01-20', monthly: false });
+    expect(resolveExpiry('NIFTY', 'next-week', '2026-01-14')).toEqual({ date: '2026-01-27', monthly: true });
+    expect(resolveExpiry('SENSEX', 'current-week', '2026-02-02').date).toBe('2026-02-05');
+  });
+
+  it('should resolve current and next month, rolling after expiry', () => {
+    expect(resolveExpiry('NIFTY', 'current-month', '2026-01-27').date).toBe('2026-01-27');
+    expect(resolveExpiry('NIFTY', 'current-month', '2026-01-28').date).toBe('2026-02-24');
+    expect(resolveExpiry('NIFTY', 'next-month', '2026-01-28').date).toBe('2026-03-30');
+  });
+});
+
+describe('parseExpiry', () => {
+  it('should read day-month, month-only and dated expiries', () => {
+    expect(parseExpiry('NIFTY', '13JAN', '2025-12-20')).toEqual({ date: '2026-01-13', monthly: false });
+    expect(parseExpiry('NIFTY', 'JAN', '2025-12-20')).toEqual({ date: '2026-01-27', monthly: true });
+    expect(parseExpiry('NIFTY', '27JAN26')).toEqual({ date: '2026-01-27', monthly: true });
+    expect(parseExpiry('NIFTY', 'current-month', '2026-01-14')?.date).toBe('2026-01-27');
+  });
+
+  it('should reject anything else', () => {
+    expect(parseExpiry('NIFTY', 'SOON')).toBeNull();
+    expect(parseExpiry('NIFTY', '31FEB26')).toBeNull();
+  });
+});
+
+describe('optionSymbol', () => {
+  const weekly = { date: '2026-01-20', monthly: false };
+  const monthly = { date: '2026-01-27', monthly: true };
+
+  it('should format weekly and monthly contracts per broker', () => {
+    expect(optionSymbol('zerodha', 'NIFTY', weekly, 25000, 'CE')).toBe('NIFTY2612025000CE');
+    expect(optionSymbol('zerodha', 'NIFTY', monthly, 25000, 'PE')).toBe('NIFTY26JAN25000PE');
+    expect(optionSymbol('fyers', 'NIFTY', weekly, 25000, 'CE')).toBe('NSE:NIFTY2612025000CE');
+    expect(optionSymbol('openalgo', 'NIFTY', weekly, 25000, 'CE')).toBe('NIFTY20JAN2625000CE');
+  });
+
+  it('should use letter codes for October to December and the BSE prefix for SENSEX', () => {
+    expect(optionSymbol('zerodha', 'NIFTY', { date: '2026-10-06', monthly: false }, 25000, 'CE')).toBe('NIFTY26O0625000CE');
+    expect(optionSymbol('fyers', 'SENSEX', monthly, 82000, 'CE')).toBe('BSE:SENSEX26JAN82000CE');
+  });
+});
+
+describe('daysToExpiry', () => {
+  it('should count calendar days to expiry', () => {
+    expect(daysToExpiry({ date: '2026-01-27', monthly: true }, '2026-01-20')).toBe(7);
+    expect(daysToExpiry({ date: '2026-01-27', monthly: true }, '2026-01-28')).toBe(0);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Tests for the Fyers data socket protocol and feed against recorded frames
+ * replayed by a local WebSocket stand-in
+ */
+
+import { EventEmitter } from 'events';
+import recorded from '../__fixtures__/fyers.stream.recorded.json';
+import { Recording, withStandInServer } from '../__fixtures__/standInServer';
+import { SocketRecording, SocketStandInServer, withSocketStandIn } from '../__fixtures__/socketStandInServer';
+import {
+  FyersTopicTable,
+  fyersHsmKey,
+  fyersInstrumentToken,
+  fyersSubscriptionMessage,
+  fyersTick,
+  fyersTopic,
+  parseFyersMessage,
+} from '../websocket/fyersDataSocketProtocol';
+import FyersDataSocket from '../websocket/fyersDataSocket';
+import { TickData } from '../websocket/kiteTickerProtocol';
+
+const fixtures = recorded as unknown as {
+  symbolToken: Recording;
+  dataSocket: SocketRecording;
+  dataSocketRejected: SocketRecording;
+};
+
+const APP_ID = 'XC4EOD67IM-100';
+const HSM_KEY = 'recorded-hsm-key';
+const ACCESS_TOKEN = [
+  Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url'),
+  Buffer.from(JSON.stringify({ sub: 'access_token', hsm_key: HSM_KEY })).toString('base64url'),
+  'signature',
+].join('.');
+
+function frame(recording: SocketRecording, index: number): Buffer {
+  return Buffer.from(recording.frames[index].binary!, 'base64');
+}
+
+/**
+ * Resolve with the next emission of an event, failing after a timeout
+ */
+function nextEvent<T>(emitter: EventEmitter, event: string, timeoutMs = 2000): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${event}`)), timeoutMs);
+    emitter.once(event, (value: T) => {
+      clearTimeout(timer);
+      resolve(value);
+    });
+  });
+}
+
+/**
+ * Serve the symbol-token API over HTTP and the recorded data socket frames over the socket
+ */
+function withFyers(recording: SocketRecording, run: (socket: SocketStandInServer) => Promise<void>) {
+  return withStandInServer([fixtures.symbolToken], (http) =>
+    withSocketStandIn(recording, async (socket) => {
+      process.env.FYERS_DATA_API_URL = http.url;
+      process.env.FYERS_DATA_SOCKET_URL = socket.url;
+      await run(socket);
+    })
+  );
+}
+
+describe('Fyers data socket protocol', () => {
+  it('should build HSM topics from fytokens', () => {
+    expect(fyersTopic('NSE:SBIN-EQ', '10100000003045')).toBe('sf|nse_cm|3045');
+    expect(fyersTopic('NSE:NIFTY50-INDEX', '101000000026000')).toBe('if|nse_cm|Nifty 50');
+    expect(fyersTopic('NSE:NIFTY24JAN21000CE', '101124012543650')).toBe('sf|nse_fo|43650');
+    expect(fyersTopic('XYZ:ANY', '99990000001234')).toBeNull();
+    expect(fyersInstrumentToken('101000000026000')).toBe(26000);
+  });
+
+  it('should read the HSM key from the access token', () => {
+    expect(fyersHsmKey(ACCESS_TOKEN)).toBe(HSM_KEY);
+    expect(fyersHsmKey('not-a-jwt')).toBeNull();
+  });
+
+  it('should length-prefix subscription topics', () => {
+    const message = fyersSubscriptionMessage('subscribe', ['sf|nse_cm|3045'], 11);
+    expect(message.readUInt16BE(0)).toBe(message.length - 2);
+    expect(message.readUInt8(2)).toBe(4);
+    expect(message.toString('utf8').includes('sf|nse_cm|3045')).toBe(true);
+    expect(message.readUInt8(message.length - 1)).toBe(11);
+  });
+
+  it('should parse auth and subscription responses', () => {
+    const table: FyersTopicTable = new Map();
+    expect(parseFyersMessage(frame(fixtures.dataSocket, 0), table)).toEqual({ type: 'auth', ok: true, ackCount: 0 });
+    expect(parseFyersMessage(frame(fixtures.dataSocket, 1), table)).toEqual({ type: 'subscribe', ok: true });
+    expect(parseFyersMessage(frame(fixtures.dataSocketRejected, 0), table)).toMatchObject({ type: 'auth', ok: false });
+  });
+
+  it('should accumulate snapshots and updates into ticks', () => {
+    const table: FyersTopicTable = new Map();
+    const snapshot = parseFyersMessage(frame(fixtures.dataSocket, 2), table);
+    expect(snapshot.type).toBe('data');
+    if (snapshot.type !== 'data') return;
+    expect(snapshot.topics.map((state) => state.topic)).toEqual(['sf|nse_cm|3045', 'if|nse_cm|Nifty 50']);
+
+    expect(fyersTick(3045, snapshot.topics[0])).toMatchObject({
+      instrument_token: 3045,
+      tradable: true,
+      last_price: 812.5,
+      volume_traded: 1234567,
+      average_traded_price: 810.1,
+      ohlc: { open: 805, high: 815, low: 802, close: 800 },
+      depth: {
+        buy: [{ quantity: 120, price: 812.45, orders: 0 }],
+        sell: [{ quantity: 80, price: 812.55, orders: 0 }],
+      },
+    });
+    expect(fyersTick(26000, snapshot.topics[1])).toMatchObject({
+      instrument_token: 26000,
+      tradable: false,
+      last_price: 21850.45,
+      ohlc: { open: 21550, high: 21900, low: 21500, close: 21600 },
+    });
+
+    // Updates only carry changed fields; the rest keep their snapshot values
+    const update = parseFyersMessage(frame(fixtures.dataSocket, 3), table);
+    if (update.type !== 'data') throw new Error('expected a data message');
+    const tick = fyersTick(3045, update.topics[0]);
+    expect(tick).toMatchObject({ last_price: 813, volume_traded: 1234667, last_traded_quantity: 100 });
+    expect(tick.ohlc).toEqual({ open: 805, high: 815, low: 802, close: 800 });
+  });
+
+  it('should ignore truncated data messages', () => {
+    const table: FyersTopicTable = new Map();
+    expect(parseFyersMessage(frame(fixtures.dataSocket, 2).subarray(0, 40), table)).toEqual({ type: 'other' });
+  });
+});
+
+describe('FyersDataSocket', () => {
+  it('should authenticate, subscribe and stream recorded ticks', async () => {
+    await withFyers(fixtures.dataSocket, async (server) => {
+      const feed = new FyersDataSocket();
+      try {
+        feed.initialize(APP_ID, ACCESS_TOKEN);
+        const resolved = await feed.resolveSymbols(['SBIN', 'NSE:NIFTY50-INDEX', 'NOSUCHSCRIP']);
+        expect(Array.from(resolved.entries())).toEqual([
+          ['SBIN', 3045],
+          ['NSE:NIFTY50-INDEX', 26000],
+        ]);
+        feed.subscribe(Array.from(resolved.values()), 'quote');
+
+        const received: TickData[] = [];
+        const done = new Promise<void>((resolve) =>
+          feed.on('ticks', (ticks: TickData[]) => {
+            received.push(...ticks);
+            if (received.length === 3) resolve();
+          })
+        );
+        feed.connect();
+        await done;
+
+        expect(received.map((tick) => [tick.instrument_token, tick.last_price])).toEqual([
+          [3045, 812.5],
+          [26000, 21850.45],
+          [3045, 813],
+        ]);
+        expect(feed.getHealth()).toMatchObject({ state: 'connected', subscribedInstruments: 2, maxInstruments: 5000 });
+
+        expect(server.handshakes[0].authorization).toBe(`${APP_ID}:${ACCESS_TOKEN}`);
+        const [auth, , , subscribe] = server.messages.map((message) => message.data);
+        expect(auth.readUInt8(2)).toBe(1);
+        expect(auth.toString('utf8').includes(HSM_KEY)).toBe(true);
+        expect(subscribe.readUInt8(2)).toBe(4);
+        expect(subscribe.toString('utf8').includes('sf|nse_cm|3045')).toBe(true);
+        expect(subscribe.toString('utf8').includes('if|nse_cm|Nifty 50')).toBe(true);
+      } finally {
+        feed.disconnect();
+      }
+    });
+  });
+
+  it('should stop reconnecting when the socket rejects the token', async () => {
+    await withFyers(fixtures.dataSocketRejected, async () => {
+      const feed = new FyersDataSocket();
+      try {
+        feed.initialize(APP_ID, ACCESS_TOKEN);
+        feed.on('error', () => {});
+        const stopped = nextEvent(feed, 'no_reconnect');
+        feed.connect();
+        await stopped;
+
+        expect(feed.getHealth()).toMatchObject({ state: 'failed', connected: false });
+        expect(feed.getHealth().lastError).toContain('log in to Fyers again');
+      } finally {
+        feed.disconnect();
+      }
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for historical request planning (missing days, broker request chunks, validation)
+ */
+
+import {
+  chunkDateRange,
+  groupByDate,
+  isCompleteCandleDay,
+  isServableCandleDay,
+  isValidCandle,
+  isValidCandleDay,
+  istDateOf,
+  maxDaysPerRequest,
+  missingRanges,
+  tradingDates,
+} from '../historyChunks';
+
+// 2024-01-15 (Monday) 09:15 IST
+const OPEN = Date.parse('2024-01-15T03:45:00Z') / 1000;
+
+function candle(time: number, price: number) {
+  return { time, open: price, high: price + 1, low: price - 1, close: price, volume: 100 };
+}
+
+describe('tradingDates', () => {
+  it('should skip weekends', () => {
+    expect(tradingDates('2024-01-12', '2024-01-16')).toEqual(['2024-01-12', '2024-01-15', '2024-01-16']);
+  });
+});
+
+describe('istDateOf', () => {
+  it('should use the IST calendar day', () => {
+    expect(istDateOf(OPEN)).toBe('2024-01-15');
+    expect(istDateOf(Date.parse('2024-01-14T19:00:00Z') / 1000)).toBe('2024-01-15');
+  });
+});
+
+describe('missingRanges', () => {
+  it('should group consecutive missing trading days across weekends', () => {
+    const dates = tradingDates('2024-01-10', '2024-01-17');
+    const missing = new Set(['2024-01-10', '2024-01-12', '2024-01-15', '2024-01-17']);
+    expect(missingRanges(dates, missing)).toEqual([
+      { from: '2024-01-10', to: '2024-01-10' },
+      { from: '2024-01-12', to: '2024-01-15' },
+      { from: '2024-01-17', to: '2024-01-17' },
+    ]);
+  });
+});
+
+describe('chunkDateRange', () => {
+  it('should split a range into broker-sized requests', () => {
+    expect(chunkDateRange({ from: '2024-01-01', to: '2024-03-15' }, maxDaysPerRequest('zerodha', 'minute'))).toEqual([
+      { from: '2024-01-01', to: '2024-02-29' },
+      { from: '2024-03-01', to: '2024-03-15' },
+    ]);
+  });
+
+  it('should keep a short range in one request', () => {
+    expect(chunkDateRange({ from: '2024-01-15', to: '2024-01-15' }, 100)).toEqual([{ from: '2024-01-15', to: '2024-01-15' }]);
+  });
+});
+
+describe('candle validation', () => {
+  it('should reject candles with impossible prices', () => {
+    expect(isValidCandle(candle(OPEN, 100))).toBe(true);
+    expect(isValidCandle({ ...candle(OPEN, 100), high: 99.5 })).toBe(false);
+    expect(isValidCandle({ ...candle(OPEN, 100), low: 0 })).toBe(false);
+    expect(isValidCandle({ ...candle(OPEN, 100), close: NaN })).toBe(false);
+  });
+
+  it('should reject days with duplicated, unordered or misplaced candles', () => {
+    expect(isValidCandleDay('2024-01-15', [candle(OPEN, 100), candle(OPEN + 60, 100)])).toBe(true);
+    expect(isValidCandleDay('2024-01-15', [candle(OPEN, 100), candle(OPEN, 100)])).toBe(false);
+    expect(isValidCandleDay('2024-01-15', [candle(OPEN + 60, 100), candle(OPEN, 100)])).toBe(false);
+    expect(isValidCandleDay('2024-01-16', [candle(OPEN, 100)])).toBe(false);
+  });
+});
+
+describe('day completeness', () => {
+  // 2024-01-15 15:30 IST
+  const CLOSE = OPEN + 375 * 60;
+
+  it('should only count a day complete when its candles run to the close', () => {
+    expect(isCompleteCandleDay([candle(OPEN, 100), candle(CLOSE - 60, 100)], 'minute', CLOSE)).toBe(true);
+    expect(isCompleteCandleDay([candle(OPEN, 100)], 'day', CLOSE)).toBe(true);
+    expect(isCompleteCandleDay([candle(OPEN, 100), candle(OPEN + 60, 100)], 'minute', CLOSE)).toBe(false);
+    expect(isCompleteCandleDay([], 'day', CLOSE)).toBe(false);
+  });
+
+  it('should request a day again after the broker returned nothing for it', () => {
+    const dates = ['2024-01-15', '2024-01-16'];
+    const stored = new Map([
+      ['2024-01-15', { candles: [], complete: isCompleteCandleDay([], 'day', CLOSE) }],
+      ['2024-01-16', { candles: [candle(OPEN + 86400, 100)], complete: true }],
+    ]);
+    const missing = new Set(dates.filter((date) => !isServableCandleDay(date, stored.get(date))));
+    expect(missingRanges(dates, missing)).toEqual([{ from: '2024-01-15', to: '2024-01-15' }]);
+  });
+});
+
+describe('groupByDate', () => {
+  it('should group candles by IST day in time order', () => {
+    const days = groupByDate([candle(OPEN + 86400, 100), candle(OPEN + 60, 100), candle(OPEN, 100)]);
+    expect([...days.keys()]).toEqual(['2024-01-15', '2024-01-16']);
+    expect(days.get('2024-01-15')?.map((entry) => entry.time)).toEqual([OPEN, OPEN + 60]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for OpenAlgo symbols, broker symbol translation and the instrument master
+ */
+
+import {
+  formatBrokerSymbol,
+  parseAngelScripMaster,
+  parseBrokerSymbol,
+  parseFyersSymbolMaster,
+  parseOpenAlgoSymbol,
+  parseZerodhaInstruments,
+} from '../instrumentSymbols';
+import {
+  brokerInstrument,
+  findInstrument,
+  instrumentByToken,
+  instrumentExpiries,
+  openAlgoInstrument,
+  searchInstruments,
+  setBrokerInstruments,
+} from '../instrumentMaster';
+
+const ZERODHA_CSV = [
+  'instrument_token,exchange_token,tradingsymbol,name,last_price,expiry,strike,tick_size,lot_size,instrument_type,segment,exchange',
+  '779521,3045,SBIN,"STATE BANK OF INDIA",0,,0,0.05,1,EQ,NSE,NSE',
+  '256265,1001,NIFTY 50,"NIFTY 50",0,,0,0,0,EQ,INDICES,NSE',
+  '12345678,48225,NIFTY24MAR20000CE,"NIFTY",0,2024-03-28,20000,0.05,50,CE,NFO-OPT,NFO',
+  '12345679,48226,NIFTY2431420000PE,"NIFTY",0,2024-03-14,20000,0.05,50,PE,NFO-OPT,NFO',
+  '13238786,51714,NIFTY24MARFUT,"NIFTY",0,2024-03-28,0,0.05,50,FUT,NFO-FUT,NFO',
+].join('\n');
+
+const FYERS_CSV = [
+  '10100000003045,STATE BANK OF INDIA,0,1,0.05,INE062A01020,0915-1530|1815-1915:,2024-03-01,0,NSE:SBIN-EQ,10,10,3045,SBIN,3045,-1.0,XX,10100000003045,None,0,0',
+  '101000000026000,NIFTY 50,10,1,0.05,,0915-1530|1815-1915:,2024-03-01,0,NSE:NIFTY50-INDEX,10,10,26000,NIFTY50,26000,-1.0,XX,101000000026000,None,0,0',
+  '101124032843650,NIFTY 24 Mar 28 20000 CE,14,50,0.05,,0915-1530|1815-1915:,2024-03-01,1711620000,NSE:NIFTY24MAR20000CE,11,11,43650,NIFTY,26000,20000.0,CE,101124032843650,None,0,0',
+].join('\n');
+
+describe('parseOpenAlgoSymbol', () => {
+  it('should split futures and options and reject anything else', () => {
+    expect(parseOpenAlgoSymbol('NIFTY28MAR2420000CE')).toEqual({
+      name: 'NIFTY',
+      instrumentType: 'CE',
+      expiry: '2024-03-28',
+      strike: 20000,
+    });
+    expect(parseOpenAlgoSymbol('CRUDEOIL19MAR24FUT')).toEqual({
+      name: 'CRUDEOIL',
+      instrumentType: 'FUT',
+      expiry: '2024-03-19',
+      strike: null,
+    });
+    expect(parseOpenAlgoSymbol('USDINR26MAR2483.25PE')?.strike).toBe(83.25);
+    expect(parseOpenAlgoSymbol('RELIANCE')).toBeNull();
+    expect(parseOpenAlgoSymbol('NIFTY24MAR20000CE')).toBeNull();
+  });
+});
+
+describe('formatBrokerSymbol', () => {
+  it('should use monthly and weekly codes for Zerodha', () => {
+    expect(formatBrokerSymbol('zerodha', 'NIFTY28MAR2420000CE', 'NFO').symbol).toBe('NIFTY24MAR20000CE');
+    expect(formatBrokerSymbol('zerodha', 'NIFTY14MAR2420000PE', 'NFO').symbol).toBe('NIFTY2431420000PE');
+    expect(formatBrokerSymbol('zerodha', 'NIFTY28MAR24FUT', 'NFO').symbol).toBe('NIFTY24MARFUT');
+    expect(formatBrokerSymbol('zerodha', 'BANKNIFTY', 'NSE_INDEX')).toEqual({ symbol: 'NIFTY BANK', exchange: 'NSE', token: '' });
+  });
+
+  it('should add series suffixes and exchange prefixes', () => {
+    expect(formatBrokerSymbol('angel', 'SBIN', 'NSE').symbol).toBe('SBIN-EQ');
+    expect(formatBrokerSymbol('angel', 'NIFTY28MAR2420000CE', 'NFO').symbol).toBe('NIFTY28MAR2420000CE');
+    expect(formatBrokerSymbol('fyers', 'SBIN', 'NSE').symbol).toBe('NSE:SBIN-EQ');
+    expect(formatBrokerSymbol('fyers', 'NIFTY', 'NSE_INDEX').symbol).toBe('NSE:NIFTY50-INDEX');
+    expect(formatBrokerSymbol('fyers', 'SENSEX28MAR2472000CE', 'BFO').symbol).toBe('BSE:SENSEX24MAR72000CE');
+  });
+});
+
+describe('parseBrokerSymbol', () => {
+  it('should translate broker symbols back to OpenAlgo', () => {
+    expect(parseBrokerSymbol('zerodha', 'NIFTY24MAR20000CE', 'NFO')).toEqual({ symbol: 'NIFTY28MAR2420000CE', exchange: 'NFO' });
+    expect(parseBrokerSymbol('zerodha', 'NIFTY2431420000PE', 'NFO')).toEqual({ symbol: 'NIFTY14MAR2420000PE', exchange: 'NFO' });
+    expect(parseBrokerSymbol('zerodha', 'NIFTY 50')).toEqual({ symbol: 'NIFTY', exchange: 'NSE_INDEX' });
+    expect(parseBrokerSymbol('angel', 'SBIN-EQ')).toEqual({ symbol: 'SBIN', exchange: 'NSE' });
+    expect(parseBrokerSymbol('fyers', 'NSE:NIFTY24MARFUT')).toEqual({ symbol: 'NIFTY28MAR24FUT', exchange: 'NFO' });
+    expect(parseBrokerSymbol('fyers', 'NSE:NIFTYBANK-INDEX')).toEqual({ symbol: 'BANKNIFTY', exchange: 'NSE_INDEX' });
+    expect(parseBrokerSymbol('fyers', 'BSE:SBIN-A')).toEqual({ symbol: 'SBIN', exchange: 'BSE' });
+  });
+});
+
+describe('instrument dumps', () => {
+  it('should parse Zerodha instruments under OpenAlgo symbols', () => {
+    const instruments = parseZerodhaInstruments(ZERODHA_CSV);
+    expect(instruments.map((instrument) => `${instrument.exchange}:${instrument.symbol}`)).toEqual([
+      'NSE:SBIN',
+      'NSE_INDEX:NIFTY',
+      'NFO:NIFTY28MAR2420000CE',
+      'NFO:NIFTY14MAR2420000PE',
+      'NFO:NIFTY28MAR24FUT',
+    ]);
+    expect(instruments[2]).toMatchObject({
+      name: 'NIFTY',
+      instrumentType: 'CE',
+      expiry: '2024-03-28',
+      strike: 20000,
+      lotSize: 50,
+      brokers: { zerodha: { symbol: 'NIFTY24MAR20000CE', exchange: 'NFO', token: '12345678' } },
+    });
+    expect(() => parseZerodhaInstruments('symbol,token\nSBIN,1')).toThrow('Unexpected Zerodha instruments format');
+  });
+
+  it('should scale Angel strikes and tick sizes from paise', () => {
+    const [option] = parseAngelScripMaster([
+      {
+        token: '43650',
+        symbol: 'NIFTY28MAR2420050CE',
+        name: 'NIFTY',
+        expiry: '28MAR2024',
+        strike: '2005000.000000',
+        lotsize: '50',
+        instrumenttype: 'OPTIDX',
+        exch_seg: 'NFO',
+        tick_size: '5.000000',
+      },
+    ]);
+    expect(option).toMatchObject({ symbol: 'NIFTY28MAR2420050CE', exchange: 'NFO', strike: 20050, tickSize: 0.05 });
+  });
+
+  it('should parse Fyers symbol masters', () => {
+    const instruments = parseFyersSymbolMaster(FYERS_CSV);
+    expect(instruments.map((instrument) => `${instrument.exchange}:${instrument.symbol}`)).toEqual([
+      'NSE:SBIN',
+      'NSE_INDEX:NIFTY',
+      'NFO:NIFTY28MAR2420000CE',
+    ]);
+    expect(instruments[2].brokers.fyers).toEqual({ symbol: 'NSE:NIFTY24MAR20000CE', exchange: 'NSE', token: '101124032843650' });
+  });
+});
+
+describe('instrument master', () => {
+  it('should merge brokers under one instrument and resolve both ways', () => {
+    setBrokerInstruments('zerodha', parseZerodhaInstruments(ZERODHA_CSV));
+    setBrokerInstruments('fyers', parseFyersSymbolMaster(FYERS_CSV));
+
+    const option = findInstrument('NIFTY28MAR2420000CE');
+    expect(option?.freezeQty).toBe(1800);
+    expect(option?.brokers.zerodha?.token).toBe('12345678');
+    expect(option?.brokers.fyers?.symbol).toBe('NSE:NIFTY24MAR20000CE');
+    expect(findInstrument('NSE:NIFTY 50')?.symbol).toBe('NIFTY');
+    expect(findInstrument('SBIN', 'NSE')?.freezeQty).toBeNull();
+
+    expect(brokerInstrument('zerodha', 'NSE:NIFTY')).toEqual({ symbol: 'NIFTY 50', exchange: 'NSE', token: '256265' });
+    expect(openAlgoInstrument('fyers', 'NSE:NIFTY24MAR20000CE')).toEqual({ symbol: 'NIFTY28MAR2420000CE', exchange: 'NFO' });
+    expect(instrumentByToken('zerodha', 779521)?.symbol).toBe('SBIN');
+  });
+
+  it('should fall back to naming rules for instruments missing from the dumps', () => {
+    expect(brokerInstrument('zerodha', 'BANKNIFTY27MAR24FUT')).toEqual({ symbol: 'BANKNIFTY24MARFUT', exchange: 'NFO', token: '' });
+    expect(brokerInstrument('angel', 'INFY')).toEqual({ symbol: 'INFY-EQ', exchange: 'NSE', token: '' });
+  });
+
+  it('should rank search matches and filter them', () => {
+    const symbols = (query: string, options = {}) => searchInstruments(query, options).map((instrument) => instrument.symbol);
+    expect(symbols('nifty')).toEqual(['NIFTY', 'NIFTY28MAR24FUT', 'NIFTY14MAR2420000PE', 'NIFTY28MAR2420000CE']);
+    expect(symbols('nifty 20000 ce')).toEqual(['NIFTY28MAR2420000CE']);
+    expect(symbols('state bank')).toEqual(['SBIN']);
+    expect(symbols('sbn', { exchange: 'nse' })).toEqual(['SBIN']);
+    expect(symbols('nifty', { instrumentType: 'OPT', limit: 1 })).toEqual(['NIFTY14MAR2420000PE']);
+  });
+
+  it('should list an underlying\'s expiries', () => {
+    expect(instrumentExpiries('nifty')).toEqual(['2024-03-14', '2024-03-28']);
+    expect(instrumentExpiries('NIFTY', 'NFO', 'FUT')).toEqual(['2024-03-28']);
+    expect(instrumentExpiries('NIFTY', 'BFO')).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for API key IP whitelist matching
+ */
+
+import { forwardedClientIp, isIpAllowed, isValidWhitelistEntry, normalizeIp, validateWhitelist } from '../ipWhitelist';
+
+describe('isIpAllowed', () => {
+  it('should allow any caller when the whitelist is empty', () => {
+    expect(isIpAllowed('198.51.100.1', [])).toBe(true);
+    expect(isIpAllowed(null, undefined)).toBe(true);
+  });
+
+  it('should match exact IPv4 addresses', () => {
+    expect(isIpAllowed('203.0.113.7', ['203.0.113.7'])).toBe(true);
+    expect(isIpAllowed('203.0.113.8', ['203.0.113.7'])).toBe(false);
+  });
+
+  it('should match IPv4 CIDR ranges', () => {
+    const whitelist = ['10.0.0.0/8', '192.168.1.0/24'];
+    expect(isIpAllowed('10.255.3.4', whitelist)).toBe(true);
+    expect(isIpAllowed('192.168.1.200', whitelist)).toBe(true);
+    expect(isIpAllowed('192.168.2.1', whitelist)).toBe(false);
+  });
+
+  it('should match IPv6 addresses and ranges', () => {
+    expect(isIpAllowed('2001:db8::1', ['2001:db8::/32'])).toBe(true);
+    expect(isIpAllowed('2001:db9::1', ['2001:db8::/32'])).toBe(false);
+    expect(isIpAllowed('::1', ['::1'])).toBe(true);
+  });
+
+  it('should treat IPv4-mapped IPv6 callers as IPv4', () => {
+    expect(isIpAllowed('::ffff:203.0.113.7', ['203.0.113.0/24'])).toBe(true);
+  });
+
+  it('should reject unknown or malformed caller IPs when a whitelist is set', () => {
+    expect(isIpAllowed(null, ['203.0.113.7'])).toBe(false);
+    expect(isIpAllowed('not-an-ip', ['203.0.113.7'])).toBe(false);
+  });
+});
+
+describe('whitelist validation', () => {
+  it('should accept addresses and CIDR ranges', () => {
+    expect(isValidWhitelistEntry('203.0.113.7')).toBe(true);
+    expect(isValidWhitelistEntry('0.0.0.0/0')).toBe(true);
+    expect(isValidWhitelistEntry('2001:db8::/48')).toBe(true);
+  });
+
+  it('should reject bad entries', () => {
+    expect(isValidWhitelistEntry('203.0.113.256')).toBe(false);
+    expect(isValidWhitelistEntry('10.0.0.0/33')).toBe(false);
+    expect(isValidWhitelistEntry('10.0.0.0/x')).toBe(false);
+    expect(isValidWhitelistEntry('10.0.0.0/8/1')).toBe(false);
+  });
+
+  it('should trim, drop blanks and de-duplicate', () => {
+    expect(validateWhitelist([' 203.0.113.7 ', '', '203.0.113.7', '10.0.0.0/8'])).toEqual({
+      success: true,
+      whitelist: ['203.0.113.7', '10.0.0.0/8'],
+    });
+  });
+
+  it('should name the invalid entry', () => {
+    expect(validateWhitelist(['10.0.0.1', 'example.com'])).toEqual({
+      success: false,
+      error: 'Invalid IP address or CIDR range: example.com',
+    });
+    expect(validateWhitelist('10.0.0.1').success).toBe(false);
+  });
+
+  it('should unwrap IPv4-mapped addresses', () => {
+    expect(normalizeIp('::ffff:10.0.0.1')).toBe('10.0.0.1');
+    expect(normalizeIp('2001:db8::1')).toBe('2001:db8::1');
+  });
+});
+
+describe('forwardedClientIp', () => {
+  it('should use the hop the proxy appended, not one the client sent', () => {
+    expect(forwardedClientIp(new Headers({ 'x-forwarded-for': '10.0.0.1, 203.0.113.7' }))).toBe('203.0.113.7');
+    expect(forwardedClientIp(new Headers({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('should prefer the platform header, then x-real-ip', () => {
+    expect(
+      forwardedClientIp(new Headers({ 'x-vercel-forwarded-for': '198.51.100.1', 'x-forwarded-for': '10.0.0.1' }))
+    ).toBe('198.51.100.1');
+    expect(forwardedClientIp(new Headers({ 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2');
+    expect(forwardedClientIp(new Headers())).toBeNull();
+  });
+});
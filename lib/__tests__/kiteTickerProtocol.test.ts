@@ -0,0 +1,115 @@
+/**
+ * Unit tests for Kite ticker frame parsing and instrument limits
+ */
+
+import {
+  kiteModeMessage,
+  parseKiteBinary,
+  parseKiteTextMessage,
+  partitionByCapacity,
+  reconnectDelayMs,
+} from '../websocket/kiteTickerProtocol';
+
+// Build a frame from packets of big-endian int32 fields
+function frame(...packets: number[][]): Uint8Array {
+  const size = 2 + packets.reduce((sum, fields) => sum + 2 + fields.length * 4, 0);
+  const view = new DataView(new ArrayBuffer(size));
+  view.setUint16(0, packets.length);
+  let offset = 2;
+  for (const fields of packets) {
+    view.setUint16(offset, fields.length * 4);
+    offset += 2;
+    for (const field of fields) {
+      view.setInt32(offset, field);
+      offset += 4;
+    }
+  }
+  return new Uint8Array(view.buffer);
+}
+
+const NSE_TOKEN = 738561; // RELIANCE, segment 1
+const INDEX_TOKEN = 256265; // NIFTY 50, segment 9
+
+describe('parseKiteBinary', () => {
+  it('should parse LTP packets and scale prices', () => {
+    expect(parseKiteBinary(frame([NSE_TOKEN, 245050]))).toEqual([
+      { instrument_token: NSE_TOKEN, mode: 'ltp', tradable: true, last_price: 2450.5 },
+    ]);
+  });
+
+  it('should parse index quotes as untradable with change from close', () => {
+    const [tick] = parseKiteBinary(frame([INDEX_TOKEN, 2420000, 2430000, 2390000, 2400000, 2400000, 0]));
+    expect(tick).toMatchObject({
+      mode: 'quote',
+      tradable: false,
+      last_price: 24200,
+      ohlc: { open: 24000, high: 24300, low: 23900, close: 24000 },
+    });
+    expect(tick.change).toBeCloseTo(0.8333, 4);
+  });
+
+  it('should parse full packets with depth', () => {
+    const depth: number[] = [];
+    for (let i = 0; i < 10; i++) {
+      // quantity, price, then orders in the high 16 bits of the last word
+      depth.push(100 + i, 245000 + i * 5, 3 << 16);
+    }
+    const full = [
+      NSE_TOKEN, 245050, 10, 244900, 150000, 5000, 7000, 244000, 246000, 243500, 243000,
+      1705300000, 0, 0, 0, 1705300001, ...depth,
+    ];
+    const [tick] = parseKiteBinary(frame(full));
+    expect(tick.mode).toBe('full');
+    expect(tick.volume_traded).toBe(150000);
+    expect(tick.last_trade_time).toEqual(new Date(1705300000 * 1000));
+    expect(tick.exchange_timestamp).toEqual(new Date(1705300001 * 1000));
+    expect(tick.depth?.buy).toHaveLength(5);
+    expect(tick.depth?.sell[0]).toEqual({ quantity: 105, price: 2450.25, orders: 3 });
+  });
+
+  it('should parse multiple packets and ignore heartbeats', () => {
+    expect(parseKiteBinary(new Uint8Array([0]))).toEqual([]);
+    expect(parseKiteBinary(frame([NSE_TOKEN, 100], [INDEX_TOKEN, 200]))).toHaveLength(2);
+  });
+
+  it('should stop at a truncated packet', () => {
+    const bytes = frame([NSE_TOKEN, 100], [INDEX_TOKEN, 200]);
+    expect(parseKiteBinary(bytes.slice(0, bytes.length - 3))).toHaveLength(1);
+  });
+});
+
+describe('parseKiteTextMessage', () => {
+  it('should return order updates and errors', () => {
+    expect(parseKiteTextMessage('{"type":"order","data":{"order_id":"1"}}')).toEqual({
+      type: 'order',
+      data: { order_id: '1' },
+    });
+    expect(parseKiteTextMessage('{"type":"error","data":"Invalid token"}')).toEqual({
+      type: 'error',
+      message: 'Invalid token',
+    });
+    expect(parseKiteTextMessage('{"type":"instruments_meta","data":{}}')).toBeNull();
+    expect(parseKiteTextMessage('not json')).toBeNull();
+  });
+
+  it('should build mode messages', () => {
+    expect(kiteModeMessage('full', [1, 2])).toBe('{"a":"mode","v":["full",[1,2]]}');
+  });
+});
+
+describe('partitionByCapacity', () => {
+  it('should reject tokens beyond the connection limit', () => {
+    expect(partitionByCapacity(new Set([1, 2]), [2, 3, 4, 4], 3)).toEqual({ accepted: [2, 3], rejected: [4] });
+  });
+
+  it('should always accept tokens already subscribed', () => {
+    expect(partitionByCapacity(new Set([1, 2, 3]), [3, 5], 3)).toEqual({ accepted: [3], rejected: [5] });
+  });
+});
+
+describe('reconnectDelayMs', () => {
+  it('should back off exponentially up to the cap', () => {
+    expect([1, 2, 3, 4].map((attempt) => reconnectDelayMs(attempt))).toEqual([1000, 2000, 4000, 8000]);
+    expect(reconnectDelayMs(10)).toBe(60000);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for basket leg grouping and split order slicing
+ */
+
+import { groupBasketLegs, splitQuantity, validateBasketLeg } from '../multiOrderUtils';
+import { BasketOrderItem } from '../types/openalgo';
+
+const leg = (symbol: string, action: 'BUY' | 'SELL'): BasketOrderItem => ({
+  exchange: 'NFO',
+  symbol,
+  action,
+  quantity: 50,
+  pricetype: 'MARKET',
+  product: 'NRML',
+});
+
+describe('groupBasketLegs', () => {
+  const orders = [leg('NIFTYCE', 'SELL'), leg('NIFTYPE', 'BUY'), leg('NIFTYFUT', 'SELL'), leg('BANKNIFTYCE', 'BUY')];
+
+  it('should keep a single phase in original order without buyFirst', () => {
+    expect(groupBasketLegs(orders, false)).toEqual([orders]);
+  });
+
+  it('should place BUY legs in the first phase with buyFirst', () => {
+    const phases = groupBasketLegs(orders, true);
+    expect(phases).toHaveLength(2);
+    expect(phases[0].map((o) => o.symbol)).toEqual(['NIFTYPE', 'BANKNIFTYCE']);
+    expect(phases[1].map((o) => o.symbol)).toEqual(['NIFTYCE', 'NIFTYFUT']);
+  });
+
+  it('should skip empty phases', () => {
+    expect(groupBasketLegs([leg('A', 'SELL')], true)).toHaveLength(1);
+  });
+});
+
+describe('validateBasketLeg', () => {
+  it('should accept a complete leg', () => {
+    expect(validateBasketLeg(leg('A', 'BUY'))).toBeNull();
+  });
+
+  it('should reject a non-integer quantity', () => {
+    expect(validateBasketLeg({ ...leg('A', 'BUY'), quantity: 1.5 })).not.toBeNull();
+  });
+});
+
+describe('splitQuantity', () => {
+  it('should slice into full chunks plus remainder', () => {
+    expect(splitQuantity(105, 50)).toEqual([50, 50, 5]);
+  });
+
+  it('should return a single slice when quantity fits', () => {
+    expect(splitQuantity(30, 50)).toEqual([30]);
+  });
+
+  it('should return no slices for invalid input', () => {
+    expect(splitQuantity(0, 50)).toEqual([]);
+    expect(splitQuantity(10, 0)).toEqual([]);
+  });
+});
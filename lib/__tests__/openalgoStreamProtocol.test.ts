@@ -0,0 +1,147 @@
+/**
+ * Unit tests for the OpenAlgo WebSocket streaming protocol
+ */
+
+import {
+  feedSymbol,
+  openAlgoMarketData,
+  openAlgoSubscriptionResponse,
+  parseOpenAlgoMessage,
+  parseOpenAlgoMode,
+} from '../websocket/openalgoStreamProtocol';
+import { TickData } from '../websocket/kiteTickerProtocol';
+
+const NOW = new Date('2024-01-15T04:00:00Z');
+
+const TICK: TickData = {
+  instrument_token: 738561,
+  mode: 'full',
+  tradable: true,
+  last_price: 2505.5,
+  last_traded_quantity: 10,
+  average_traded_price: 2503.2,
+  volume_traded: 1234567,
+  total_buy_quantity: 5000,
+  total_sell_quantity: 7000,
+  ohlc: { open: 2500, high: 2510, low: 2498, close: 2500 },
+  change: 0.22,
+  last_trade_time: new Date('2024-01-15T03:59:59Z'),
+  exchange_timestamp: null,
+  oi: 0,
+  depth: {
+    buy: [{ quantity: 100, price: 2505.45, orders: 2 }],
+    sell: [{ quantity: 50, price: 2505.55, orders: 1 }],
+  },
+};
+
+describe('parseOpenAlgoMode', () => {
+  it('should accept mode numbers and names', () => {
+    expect(parseOpenAlgoMode(1)).toBe(1);
+    expect(parseOpenAlgoMode('2')).toBe(2);
+    expect(parseOpenAlgoMode('Depth')).toBe(3);
+    expect(parseOpenAlgoMode('quote')).toBe(2);
+    expect(parseOpenAlgoMode(4)).toBeNull();
+    expect(parseOpenAlgoMode('full')).toBeNull();
+  });
+});
+
+describe('parseOpenAlgoMessage', () => {
+  it('should read authentication requests', () => {
+    expect(parseOpenAlgoMessage('{"action":"authenticate","api_key":"abc"}')).toEqual({
+      action: 'authenticate',
+      apiKey: 'abc',
+    });
+    expect(parseOpenAlgoMessage('{"action":"authenticate"}')).toMatchObject({
+      action: 'invalid',
+      code: 'INVALID_PARAMETERS',
+    });
+  });
+
+  it('should read symbol lists and the single-symbol form', () => {
+    expect(
+      parseOpenAlgoMessage('{"action":"subscribe","symbols":[{"symbol":"reliance","exchange":"nse"}],"mode":"Quote"}')
+    ).toEqual({ action: 'subscribe', instruments: [{ symbol: 'RELIANCE', exchange: 'NSE' }], mode: 2 });
+    expect(parseOpenAlgoMessage('{"action":"subscribe","symbol":"NIFTY","exchange":"NSE_INDEX"}')).toEqual({
+      action: 'subscribe',
+      instruments: [{ symbol: 'NIFTY', exchange: 'NSE_INDEX' }],
+      mode: 1,
+    });
+    expect(parseOpenAlgoMessage('{"action":"unsubscribe","symbol":"SBIN","exchange":"NSE"}')).toEqual({
+      action: 'unsubscribe',
+      instruments: [{ symbol: 'SBIN', exchange: 'NSE' }],
+      mode: null,
+    });
+  });
+
+  it('should report malformed messages', () => {
+    expect(parseOpenAlgoMessage('not json')).toMatchObject({ code: 'INVALID_JSON' });
+    expect(parseOpenAlgoMessage('{"action":"trade"}')).toMatchObject({ code: 'INVALID_ACTION' });
+    expect(parseOpenAlgoMessage('{"action":"subscribe","symbols":[{"symbol":"SBIN"}]}')).toMatchObject({
+      code: 'INVALID_PARAMETERS',
+    });
+    expect(parseOpenAlgoMessage('{"action":"subscribe","symbol":"SBIN","exchange":"NSE","mode":5}')).toMatchObject({
+      code: 'INVALID_PARAMETERS',
+    });
+  });
+});
+
+describe('feedSymbol', () => {
+  it('should format instruments for each broker feed', () => {
+    expect(feedSymbol('zerodha', { symbol: 'SBIN', exchange: 'NSE' })).toBe('SBIN');
+    expect(feedSymbol('angel', { symbol: 'NIFTY', exchange: 'NSE_INDEX' })).toBe('NSE:NIFTY');
+    expect(feedSymbol('angel', { symbol: 'SBIN', exchange: 'BSE' })).toBe('BSE:SBIN');
+    expect(feedSymbol('fyers', { symbol: 'SBIN', exchange: 'NSE' })).toBe('NSE:SBIN-EQ');
+    expect(feedSymbol('fyers', { symbol: 'NIFTY24JAN21000CE', exchange: 'NFO' })).toBe('NSE:NIFTY24JAN21000CE');
+    expect(feedSymbol('fyers', { symbol: 'CRUDEOIL24JANFUT', exchange: 'MCX' })).toBe('MCX:CRUDEOIL24JANFUT');
+    expect(feedSymbol('zerodha', { symbol: 'SBIN', exchange: 'LSE' })).toBeNull();
+  });
+});
+
+describe('openAlgoMarketData', () => {
+  const instrument = { symbol: 'RELIANCE', exchange: 'NSE' };
+
+  it('should send only the price in LTP mode', () => {
+    expect(openAlgoMarketData(instrument, 1, TICK, NOW)).toEqual({
+      type: 'market_data',
+      symbol: 'RELIANCE',
+      exchange: 'NSE',
+      mode: 1,
+      data: { ltp: 2505.5, ltt: Date.parse('2024-01-15T03:59:59Z'), timestamp: NOW.getTime() },
+    });
+  });
+
+  it('should add OHLC, volume and change in Quote mode', () => {
+    const { data } = openAlgoMarketData(instrument, 2, TICK, NOW);
+    expect(data).toMatchObject({
+      ltp: 2505.5,
+      open: 2500,
+      high: 2510,
+      low: 2498,
+      close: 2500,
+      volume: 1234567,
+      last_trade_quantity: 10,
+      average_price: 2503.2,
+      change: 5.5,
+      change_percent: 0.22,
+    });
+    expect(data.depth).toBeUndefined();
+  });
+
+  it('should add market depth in Depth mode', () => {
+    const { data } = openAlgoMarketData(instrument, 3, TICK, NOW);
+    expect(data.depth).toEqual({
+      buy: [{ price: 2505.45, quantity: 100, orders: 2 }],
+      sell: [{ price: 2505.55, quantity: 50, orders: 1 }],
+    });
+  });
+});
+
+describe('openAlgoSubscriptionResponse', () => {
+  it('should report partial success', () => {
+    const response = openAlgoSubscriptionResponse('subscribe', [
+      { symbol: 'SBIN', exchange: 'NSE', mode: 'LTP', status: 'success' },
+      { symbol: 'NOPE', exchange: 'NSE', mode: 'LTP', status: 'error', message: 'Symbol not found on zerodha' },
+    ]);
+    expect(response).toMatchObject({ type: 'subscribe', status: 'partial' });
+  });
+});
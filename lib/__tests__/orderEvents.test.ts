@@ -0,0 +1,180 @@
+/**
+ * Unit tests for order event normalization, order book diffing and webhook signing
+ */
+
+import { createHmac } from 'crypto';
+import {
+  OrderSnapshotMap,
+  applyOrderCandidate,
+  orderBookCandidates,
+  seedOrderSnapshot,
+  signWebhookPayload,
+  summarizeFills,
+  toOrderEventStatus,
+  validateWebhookUrl,
+  zerodhaUpdateCandidate,
+} from '../orderEvents';
+import { OrderBookItem, TradeBookItem } from '../types/openalgo';
+
+const NOW = new Date('2024-01-15T04:00:00Z');
+
+const order = (overrides: Partial<OrderBookItem>): OrderBookItem => ({
+  symbol: 'SBIN',
+  exchange: 'NSE',
+  action: 'BUY',
+  quantity: 10,
+  price: 600,
+  trigger_price: 0,
+  pricetype: 'LIMIT',
+  product: 'MIS',
+  orderid: '1001',
+  order_status: 'open',
+  timestamp: '',
+  ...overrides,
+});
+
+const trade = (orderid: string, quantity: number, average_price: number): TradeBookItem => ({
+  symbol: 'SBIN',
+  exchange: 'NSE',
+  product: 'MIS',
+  action: 'BUY',
+  quantity,
+  average_price,
+  trade_value: quantity * average_price,
+  orderid,
+  timestamp: '',
+});
+
+describe('toOrderEventStatus', () => {
+  it('should detect partial fills on working orders', () => {
+    expect(toOrderEventStatus('open', 0, 10)).toBe('open');
+    expect(toOrderEventStatus('open', 4, 10)).toBe('partially_filled');
+    expect(toOrderEventStatus('trigger pending', 0, 10)).toBe('open');
+    expect(toOrderEventStatus('complete', 10, 10)).toBe('complete');
+    expect(toOrderEventStatus('cancelled', 4, 10)).toBe('cancelled');
+  });
+});
+
+describe('summarizeFills', () => {
+  it('should total quantity and weight the average price per order', () => {
+    const fills = summarizeFills([trade('1001', 4, 600), trade('1001', 6, 601), trade('1002', 1, 10)]);
+    expect(fills.get('1001')).toEqual({ quantity: 10, average_price: 600.6 });
+    expect(fills.get('1002')).toEqual({ quantity: 1, average_price: 10 });
+  });
+});
+
+describe('order book diffing', () => {
+  it('should seed existing orders silently, then emit transitions', () => {
+    const snapshot: OrderSnapshotMap = new Map();
+    expect(seedOrderSnapshot(snapshot, orderBookCandidates('fyers', [order({})], [], NOW))).toEqual([]);
+
+    const partial = orderBookCandidates('fyers', [order({})], [trade('1001', 4, 600)], NOW)[0];
+    const event = applyOrderCandidate(snapshot, partial);
+    expect(event).toMatchObject({
+      broker: 'fyers',
+      orderid: '1001',
+      status: 'partially_filled',
+      previous_status: 'open',
+      filled_quantity: 4,
+      pending_quantity: 6,
+      average_price: 600,
+      timestamp: NOW.toISOString(),
+    });
+
+    // Same state again is not a transition
+    expect(applyOrderCandidate(snapshot, partial)).toBeNull();
+
+    const complete = orderBookCandidates('fyers', [order({ order_status: 'complete', price: 600.5 })], [], NOW)[0];
+    expect(applyOrderCandidate(snapshot, complete)).toMatchObject({
+      status: 'complete',
+      previous_status: 'partially_filled',
+      filled_quantity: 10,
+      pending_quantity: 0,
+      average_price: 600.5,
+    });
+  });
+
+  it('should emit more fills while still partially filled', () => {
+    const snapshot: OrderSnapshotMap = new Map();
+    applyOrderCandidate(snapshot, orderBookCandidates('angel', [order({})], [trade('1001', 2, 600)])[0]);
+    const more = applyOrderCandidate(snapshot, orderBookCandidates('angel', [order({})], [trade('1001', 5, 600)])[0]);
+    expect(more).toMatchObject({ status: 'partially_filled', previous_status: 'partially_filled', filled_quantity: 5 });
+  });
+
+  it('should never move an order back to an earlier state', () => {
+    const snapshot: OrderSnapshotMap = new Map();
+    applyOrderCandidate(snapshot, orderBookCandidates('fyers', [order({ order_status: 'rejected' })], [])[0]);
+    expect(applyOrderCandidate(snapshot, orderBookCandidates('fyers', [order({})], [])[0])).toBeNull();
+  });
+
+  it('should keep diffing orders published before the first poll', () => {
+    const snapshot: OrderSnapshotMap = new Map([['1001', { status: 'placed' as const, filled_quantity: 0 }]]);
+    const events = seedOrderSnapshot(
+      snapshot,
+      orderBookCandidates('paper', [order({ order_status: 'complete' }), order({ orderid: '900' })], [], NOW)
+    );
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ orderid: '1001', status: 'complete', previous_status: 'placed' });
+    expect(snapshot.get('900')).toEqual({ status: 'open', filled_quantity: 0 });
+  });
+});
+
+describe('zerodhaUpdateCandidate', () => {
+  const update = {
+    order_id: '2401',
+    tradingsymbol: 'INFY',
+    exchange: 'NSE',
+    transaction_type: 'SELL',
+    order_type: 'MARKET',
+    product: 'CNC',
+    quantity: 5,
+    filled_quantity: 2,
+    pending_quantity: 3,
+    average_price: 1500.25,
+    status: 'OPEN',
+  };
+
+  it('should map Kite order updates', () => {
+    expect(zerodhaUpdateCandidate(update, NOW)).toEqual({
+      broker: 'zerodha',
+      orderid: '2401',
+      symbol: 'INFY',
+      exchange: 'NSE',
+      action: 'SELL',
+      pricetype: 'MARKET',
+      product: 'CNC',
+      quantity: 5,
+      filled_quantity: 2,
+      pending_quantity: 3,
+      average_price: 1500.25,
+      status: 'partially_filled',
+      message: null,
+      timestamp: NOW.toISOString(),
+    });
+  });
+
+  it('should treat request states as placed and skip modify/cancel requests', () => {
+    expect(zerodhaUpdateCandidate({ ...update, status: 'PUT ORDER REQ RECEIVED', filled_quantity: 0 })?.status).toBe('placed');
+    expect(zerodhaUpdateCandidate({ ...update, status: 'MODIFY VALIDATION PENDING' })).toBeNull();
+    expect(
+      zerodhaUpdateCandidate({ ...update, status: 'REJECTED', status_message: 'Insufficient funds' })
+    ).toMatchObject({ status: 'rejected', message: 'Insufficient funds' });
+  });
+});
+
+describe('webhooks', () => {
+  it('should sign timestamp and body with HMAC-SHA256', () => {
+    const body = '{"event":"order.update"}';
+    const expected = createHmac('sha256', 'whsec_test').update(`1700000000.${body}`).digest('hex');
+    expect(signWebhookPayload('whsec_test', 1700000000, body)).toBe(`sha256=${expected}`);
+  });
+
+  it('should only accept public https URLs', () => {
+    expect(validateWebhookUrl('https://example.com/hook')).toEqual({ success: true, url: 'https://example.com/hook' });
+    expect(validateWebhookUrl('http://example.com/hook').success).toBe(false);
+    expect(validateWebhookUrl('not a url').success).toBe(false);
+    expect(validateWebhookUrl('https://localhost:3000/hook').success).toBe(false);
+    expect(validateWebhookUrl('https://192.168.1.10/hook').success).toBe(false);
+    expect(validateWebhookUrl('https://[::1]/hook').success).toBe(false);
+  });
+});
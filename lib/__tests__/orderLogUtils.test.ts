@@ -0,0 +1,154 @@
+/**
+ * Unit tests for order audit log entry building and filtering
+ */
+
+import {
+  buildOrderLogRecord,
+  extractOrderIds,
+  extractSymbols,
+  matchesOrderLogFilters,
+  parseOrderLogFilters,
+  MAX_ORDER_LOG_LIMIT,
+} from '../orderLogUtils';
+import { OrderLogEntry, OrderLogFilters } from '../types/orderlog';
+
+const baseInput = {
+  userId: 'user-1',
+  apiKeyId: 'key-1',
+  broker: 'angel',
+  action: 'place' as const,
+  endpoint: 'placeorder',
+  latencyMs: 183.6,
+  sourceIp: '203.0.113.7',
+};
+
+describe('buildOrderLogRecord', () => {
+  it('should strip the apikey and attribute the strategy', () => {
+    const record = buildOrderLogRecord({
+      ...baseInput,
+      payload: { apikey: 'ak_live_secret', strategy: 'ORB', symbol: 'sbin', exchange: 'NSE', action: 'BUY', quantity: 1 },
+      response: { status: 'success', orderid: '2401' },
+      httpStatus: 200,
+    });
+
+    expect(record.request).toEqual({ strategy: 'ORB', symbol: 'sbin', exchange: 'NSE', action: 'BUY', quantity: 1 });
+    expect(record.strategy).toBe('ORB');
+    expect(record.symbols).toEqual(['SBIN']);
+    expect(record.orderids).toEqual(['2401']);
+    expect(record.outcome).toBe('success');
+    expect(record.message).toBeNull();
+    expect(record.latencyMs).toBe(184);
+    expect(record.apiKeyId).toBe('key-1');
+  });
+
+  it('should mark error responses and keep the broker message', () => {
+    const record = buildOrderLogRecord({
+      ...baseInput,
+      payload: { apikey: 'k', symbol: 'SBIN' },
+      response: { status: 'error', message: 'Insufficient funds' },
+      httpStatus: 400,
+    });
+
+    expect(record.outcome).toBe('error');
+    expect(record.message).toBe('Insufficient funds');
+    expect(record.strategy).toBeNull();
+  });
+
+  it('should treat partially failed baskets as errors', () => {
+    const record = buildOrderLogRecord({
+      ...baseInput,
+      endpoint: 'basketorder',
+      payload: { apikey: 'k', orders: [{ symbol: 'A' }, { symbol: 'B' }] },
+      response: { status: 'error', message: '1 of 2 orders failed', orders: [{ status: 'success', orderid: '1' }, { status: 'error' }] },
+      httpStatus: 200,
+    });
+
+    expect(record.outcome).toBe('error');
+    expect(record.symbols).toEqual(['A', 'B']);
+    expect(record.orderids).toEqual(['1']);
+  });
+});
+
+describe('extractSymbols / extractOrderIds', () => {
+  it('should de-duplicate basket symbols', () => {
+    expect(extractSymbols({ orders: [{ symbol: 'nifty' }, { symbol: 'NIFTY' }] })).toEqual(['NIFTY']);
+  });
+
+  it('should return no symbols for cancel requests', () => {
+    expect(extractSymbols({ orderid: '1' })).toEqual([]);
+  });
+
+  it('should read split results and cancel-all lists', () => {
+    expect(extractOrderIds({ results: [{ orderid: 'a' }, { orderid: 'b' }] })).toEqual(['a', 'b']);
+    expect(extractOrderIds({ canceled_orders: ['x', 'y'] })).toEqual(['x', 'y']);
+    expect(extractOrderIds(null)).toEqual([]);
+  });
+});
+
+describe('parseOrderLogFilters', () => {
+  it('should default the limit', () => {
+    const parsed = parseOrderLogFilters({});
+    expect(parsed).toEqual({ success: true, filters: { limit: 100 } });
+  });
+
+  it('should read plain dates as whole IST days', () => {
+    const parsed = parseOrderLogFilters({ start_date: '2024-01-15', end_date: '2024-01-15' });
+    if (!parsed.success) throw new Error(parsed.error);
+    expect(parsed.filters.from?.toISOString()).toBe('2024-01-14T18:30:00.000Z');
+    expect(parsed.filters.to?.toISOString()).toBe('2024-01-15T18:29:59.999Z');
+  });
+
+  it('should normalize symbol, action and outcome and cap the limit', () => {
+    const parsed = parseOrderLogFilters({ symbol: 'sbin', action: 'PLACE', outcome: 'Error', limit: '5000' });
+    if (!parsed.success) throw new Error(parsed.error);
+    expect(parsed.filters).toEqual({ symbol: 'SBIN', action: 'place', outcome: 'error', limit: MAX_ORDER_LOG_LIMIT });
+  });
+
+  it('should reject invalid values', () => {
+    expect(parseOrderLogFilters({ outcome: 'maybe' }).success).toBe(false);
+    expect(parseOrderLogFilters({ action: 'amend' }).success).toBe(false);
+    expect(parseOrderLogFilters({ start_date: 'yesterday' }).success).toBe(false);
+    expect(parseOrderLogFilters({ start_date: '2024-02-01', end_date: '2024-01-01' }).success).toBe(false);
+    expect(parseOrderLogFilters({ limit: 0 }).success).toBe(false);
+  });
+});
+
+describe('matchesOrderLogFilters', () => {
+  const entry: OrderLogEntry = {
+    id: 'e1',
+    action: 'place',
+    endpoint: 'placeorder',
+    apiKeyId: 'key-1',
+    broker: 'angel',
+    strategy: 'ORB',
+    symbols: ['SBIN'],
+    orderids: ['2401'],
+    request: {},
+    response: {},
+    httpStatus: 200,
+    outcome: 'success',
+    message: null,
+    latencyMs: 120,
+    sourceIp: null,
+    createdAt: '2024-01-15T04:00:00.000Z',
+  };
+  const filters = (f: Partial<OrderLogFilters>): OrderLogFilters => ({ limit: 100, ...f });
+
+  it('should match strategy case-insensitively', () => {
+    expect(matchesOrderLogFilters(entry, filters({ strategy: 'orb' }))).toBe(true);
+    expect(matchesOrderLogFilters(entry, filters({ strategy: 'scalper' }))).toBe(false);
+  });
+
+  it('should filter by symbol, action and outcome', () => {
+    expect(matchesOrderLogFilters(entry, filters({ symbol: 'SBIN', action: 'place', outcome: 'success' }))).toBe(true);
+    expect(matchesOrderLogFilters(entry, filters({ symbol: 'INFY' }))).toBe(false);
+    expect(matchesOrderLogFilters(entry, filters({ action: 'cancel' }))).toBe(false);
+    expect(matchesOrderLogFilters(entry, filters({ outcome: 'error' }))).toBe(false);
+  });
+
+  it('should respect the date range', () => {
+    expect(matchesOrderLogFilters(entry, filters({ from: new Date('2024-01-15T05:00:00Z') }))).toBe(false);
+    expect(matchesOrderLogFilters(entry, filters({ to: new Date('2024-01-15T03:00:00Z') }))).toBe(false);
+    expect(matchesOrderLogFilters(entry, filters({ from: new Date('2024-01-15T00:00:00Z'), to: new Date('2024-01-16T00:00:00Z') }))).toBe(true);
+  });
+});
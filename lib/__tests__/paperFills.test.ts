@@ -0,0 +1,79 @@
+/**
+ * Unit tests for paper trading order matching and position accounting
+ */
+
+import { evaluatePaperFill, applyPaperFill, validatePaperOrder, unrealisedPnl } from '../paperFills';
+
+describe('evaluatePaperFill', () => {
+  const base = { price: 0, trigger_price: 0, triggered: false };
+
+  it('should fill MARKET orders at LTP', () => {
+    expect(evaluatePaperFill({ ...base, action: 'BUY', pricetype: 'MARKET' }, 101.5)).toEqual({
+      triggered: false, fillPrice: 101.5,
+    });
+  });
+
+  it('should fill LIMIT orders only when marketable', () => {
+    const buy = { ...base, action: 'BUY' as const, pricetype: 'LIMIT' as const, price: 100 };
+    expect(evaluatePaperFill(buy, 100.5).fillPrice).toBeNull();
+    expect(evaluatePaperFill(buy, 99.8).fillPrice).toBe(99.8);
+
+    const sell = { ...base, action: 'SELL' as const, pricetype: 'LIMIT' as const, price: 100 };
+    expect(evaluatePaperFill(sell, 99).fillPrice).toBeNull();
+    expect(evaluatePaperFill(sell, 100).fillPrice).toBe(100);
+  });
+
+  it('should trigger SL-M orders and fill at LTP', () => {
+    const stop = { ...base, action: 'SELL' as const, pricetype: 'SL-M' as const, trigger_price: 95 };
+    expect(evaluatePaperFill(stop, 96)).toEqual({ triggered: false, fillPrice: null });
+    expect(evaluatePaperFill(stop, 94.5)).toEqual({ triggered: true, fillPrice: 94.5 });
+  });
+
+  it('should keep a triggered SL order resting until its limit is marketable', () => {
+    const stop = { ...base, action: 'BUY' as const, pricetype: 'SL' as const, trigger_price: 105, price: 106 };
+    expect(evaluatePaperFill(stop, 107)).toEqual({ triggered: true, fillPrice: null });
+    expect(evaluatePaperFill({ ...stop, triggered: true }, 105.5)).toEqual({ triggered: true, fillPrice: 105.5 });
+  });
+
+  it('should not fill without a valid price', () => {
+    expect(evaluatePaperFill({ ...base, action: 'BUY', pricetype: 'MARKET' }, 0).fillPrice).toBeNull();
+  });
+});
+
+describe('applyPaperFill', () => {
+  const flat = { quantity: 0, average_price: 0, realised_pnl: 0 };
+
+  it('should average the price when adding', () => {
+    const first = applyPaperFill(flat, 'BUY', 10, 100);
+    expect(applyPaperFill(first, 'BUY', 10, 110)).toEqual({ quantity: 20, average_price: 105, realised_pnl: 0 });
+  });
+
+  it('should book P&L when reducing a long', () => {
+    const long = { quantity: 20, average_price: 105, realised_pnl: 0 };
+    expect(applyPaperFill(long, 'SELL', 5, 115)).toEqual({ quantity: 15, average_price: 105, realised_pnl: 50 });
+    expect(applyPaperFill(long, 'SELL', 20, 100)).toEqual({ quantity: 0, average_price: 0, realised_pnl: -100 });
+  });
+
+  it('should open the remainder at the fill price when reversing a short', () => {
+    const short = { quantity: -10, average_price: 200, realised_pnl: 0 };
+    expect(applyPaperFill(short, 'BUY', 15, 190)).toEqual({ quantity: 5, average_price: 190, realised_pnl: 100 });
+  });
+});
+
+describe('validatePaperOrder', () => {
+  it('should require prices for LIMIT and stop orders', () => {
+    expect(validatePaperOrder({ action: 'BUY', pricetype: 'LIMIT', price: 0, trigger_price: 0 }, 1)).toMatch(/Price/);
+    expect(validatePaperOrder({ action: 'SELL', pricetype: 'SL-M', price: 0, trigger_price: 0 }, 1)).toMatch(/Trigger/);
+    expect(validatePaperOrder({ action: 'BUY', pricetype: 'MARKET', price: 0, trigger_price: 0 }, 1)).toBeNull();
+  });
+
+  it('should reject inverted stop-limit prices', () => {
+    expect(validatePaperOrder({ action: 'BUY', pricetype: 'SL', price: 99, trigger_price: 100 }, 1)).not.toBeNull();
+  });
+});
+
+describe('unrealisedPnl', () => {
+  it('should mark short positions to market', () => {
+    expect(unrealisedPnl({ quantity: -10, average_price: 200 }, 190)).toBe(100);
+  });
+});
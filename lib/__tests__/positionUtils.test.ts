@@ -0,0 +1,40 @@
+/**
+ * Unit tests for net position extraction and smart order sizing
+ */
+
+import { extractNetPosition, computeSmartOrder } from '../positionUtils';
+import { PositionBookItem } from '../types/openalgo';
+
+describe('extractNetPosition', () => {
+  const positions: PositionBookItem[] = [
+    { symbol: 'SBIN', exchange: 'NSE', product: 'MIS', quantity: 10, average_price: 600, ltp: 605, pnl: 50 },
+    { symbol: 'SBIN', exchange: 'NSE', product: 'CNC', quantity: 5, average_price: 590, ltp: 605, pnl: 75 },
+    { symbol: 'SBIN', exchange: 'BSE', product: 'MIS', quantity: -3, average_price: 601, ltp: 605, pnl: -12 },
+  ];
+
+  it('should match by symbol, exchange and product', () => {
+    expect(extractNetPosition(positions, 'SBIN', 'NSE', 'MIS')).toBe(10);
+    expect(extractNetPosition(positions, 'SBIN', 'NSE', 'CNC')).toBe(5);
+    expect(extractNetPosition(positions, 'SBIN', 'BSE', 'MIS')).toBe(-3);
+  });
+
+  it('should return 0 when no position matches', () => {
+    expect(extractNetPosition(positions, 'SBIN', 'NSE', 'NRML')).toBe(0);
+    expect(extractNetPosition([], 'INFY', 'NSE', 'MIS')).toBe(0);
+  });
+});
+
+describe('computeSmartOrder', () => {
+  it('should return null when already at target', () => {
+    expect(computeSmartOrder(10, 10)).toBeNull();
+  });
+
+  it('should sell the full position when target is 0', () => {
+    expect(computeSmartOrder(10, 0)).toEqual({ action: 'SELL', quantity: 10 });
+    expect(computeSmartOrder(-4, 0)).toEqual({ action: 'BUY', quantity: 4 });
+  });
+
+  it('should reverse through zero', () => {
+    expect(computeSmartOrder(5, -5)).toEqual({ action: 'SELL', quantity: 10 });
+  });
+});
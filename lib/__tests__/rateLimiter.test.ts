@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the per-key order token buckets
+ */
+
+import { consumeOrderToken, refillBucket, resetRateLimit, validateRateLimits } from '../rateLimiter';
+
+const limits = { ordersPerSecond: 2, ordersPerMinute: 5 };
+
+describe('consumeOrderToken', () => {
+  it('should allow a burst up to the per-second limit', () => {
+    const t = 1_000_000;
+    expect(consumeOrderToken('burst', limits, t).allowed).toBe(true);
+    expect(consumeOrderToken('burst', limits, t).allowed).toBe(true);
+
+    const blocked = consumeOrderToken('burst', limits, t);
+    expect(blocked).toEqual({ allowed: false, window: 'second', limit: 2, retryAfterMs: 500 });
+  });
+
+  it('should refill the per-second bucket over time', () => {
+    const t = 2_000_000;
+    consumeOrderToken('refill', limits, t);
+    consumeOrderToken('refill', limits, t);
+    expect(consumeOrderToken('refill', limits, t + 499).allowed).toBe(false);
+    expect(consumeOrderToken('refill', limits, t + 1000).allowed).toBe(true);
+  });
+
+  it('should enforce the per-minute limit across seconds', () => {
+    const t = 3_000_000;
+    for (let i = 0; i < 5; i++) {
+      expect(consumeOrderToken('minute', limits, t + i * 1000).allowed).toBe(true);
+    }
+
+    const blocked = consumeOrderToken('minute', limits, t + 5000);
+    expect(blocked.allowed).toBe(false);
+    if (!blocked.allowed) {
+      expect(blocked.window).toBe('minute');
+      expect(blocked.limit).toBe(5);
+      expect(blocked.retryAfterMs).toBeGreaterThan(0);
+    }
+  });
+
+  it('should not consume per-minute tokens for requests refused per second', () => {
+    const t = 4_000_000;
+    consumeOrderToken('atomic', limits, t);
+    consumeOrderToken('atomic', limits, t);
+    consumeOrderToken('atomic', limits, t);
+    consumeOrderToken('atomic', limits, t);
+
+    // 2 accepted so far; 3 more fit in the minute once the second bucket refills
+    expect(consumeOrderToken('atomic', limits, t + 1000).allowed).toBe(true);
+    expect(consumeOrderToken('atomic', limits, t + 1000).allowed).toBe(true);
+    expect(consumeOrderToken('atomic', limits, t + 2000).allowed).toBe(true);
+  });
+
+  it('should take one token per order and refuse the whole request when they don\'t all fit', () => {
+    const t = 6_000_000;
+    expect(consumeOrderToken('multi', limits, t, 2).allowed).toBe(true);
+    expect(consumeOrderToken('multi', limits, t + 500, 2)).toEqual({
+      allowed: false,
+      window: 'second',
+      limit: 2,
+      retryAfterMs: 500,
+    });
+    // The refused request took nothing: one order still fits
+    expect(consumeOrderToken('multi', limits, t + 500).allowed).toBe(true);
+    expect(consumeOrderToken('multi', limits, t + 2000, 3).allowed).toBe(false);
+  });
+
+  it('should keep keys independent and start fresh after a reset', () => {
+    const t = 5_000_000;
+    consumeOrderToken('a', limits, t);
+    consumeOrderToken('a', limits, t);
+    expect(consumeOrderToken('a', limits, t).allowed).toBe(false);
+    expect(consumeOrderToken('b', limits, t).allowed).toBe(true);
+
+    resetRateLimit('a');
+    expect(consumeOrderToken('a', limits, t).allowed).toBe(true);
+  });
+});
+
+describe('refillBucket', () => {
+  it('should cap tokens at capacity', () => {
+    expect(refillBucket({ tokens: 0, updatedAt: 0 }, 10, 1000, 5000)).toEqual({ tokens: 10, updatedAt: 5000 });
+    expect(refillBucket({ tokens: 0, updatedAt: 0 }, 10, 1000, 250)).toEqual({ tokens: 2.5, updatedAt: 250 });
+  });
+});
+
+describe('validateRateLimits', () => {
+  it('should accept integer limits in range', () => {
+    expect(validateRateLimits({ ordersPerSecond: '5', ordersPerMinute: 100 })).toEqual({
+      success: true,
+      rateLimits: { ordersPerSecond: 5, ordersPerMinute: 100 },
+    });
+  });
+
+  it('should reject missing, fractional or out-of-range limits', () => {
+    expect(validateRateLimits(undefined).success).toBe(false);
+    expect(validateRateLimits({ ordersPerSecond: 0, ordersPerMinute: 10 }).success).toBe(false);
+    expect(validateRateLimits({ ordersPerSecond: 1.5, ordersPerMinute: 10 }).success).toBe(false);
+    expect(validateRateLimits({ ordersPerSecond: 5, ordersPerMinute: 10000 }).success).toBe(false);
+  });
+});
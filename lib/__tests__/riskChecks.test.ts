@@ -0,0 +1,204 @@
+/**
+ * Unit tests for the pre-trade risk rules
+ */
+
+import {
+  evaluateOrderRisk,
+  isReducingOrder,
+  istDateKey,
+  riskDataNeeds,
+  validateRiskProfile,
+} from '../riskChecks';
+import { PositionBookItem } from '../types/openalgo';
+import { DEFAULT_RISK_PROFILE, RiskOrder, RiskProfile } from '../types/risk';
+
+// 2024-01-15 10:30 IST
+const MARKET_OPEN = new Date('2024-01-15T05:00:00Z');
+
+const profile = (overrides: Partial<RiskProfile>): RiskProfile => ({
+  ...DEFAULT_RISK_PROFILE,
+  enabled: true,
+  ...overrides,
+});
+
+const position = (symbol: string, quantity: number, pnl: number): PositionBookItem => ({
+  symbol,
+  exchange: 'NSE',
+  product: 'MIS',
+  quantity,
+  average_price: 100,
+  ltp: 100,
+  pnl,
+});
+
+const buy: RiskOrder = {
+  symbol: 'RELIANCE',
+  exchange: 'NSE',
+  action: 'BUY',
+  quantity: 10,
+  product: 'MIS',
+  pricetype: 'MARKET',
+};
+
+const context = { now: MARKET_OPEN, ltp: 2500, positions: [], lockedToday: false };
+
+describe('evaluateOrderRisk', () => {
+  it('should allow everything when the profile is disabled', () => {
+    const result = evaluateOrderRisk(buy, { ...profile({ maxOrderQuantity: 1 }), enabled: false }, context);
+    expect(result).toEqual({ reasons: [], lossLimitBreached: false });
+  });
+
+  it('should enforce quantity and order value limits', () => {
+    expect(evaluateOrderRisk(buy, profile({ maxOrderQuantity: 5 }), context).reasons).toEqual([
+      'Quantity 10 exceeds the maximum of 5 per order',
+    ]);
+
+    // Market orders are valued at LTP, limit orders at their price
+    expect(evaluateOrderRisk(buy, profile({ maxOrderValue: 20000 }), context).reasons).toHaveLength(1);
+    const limitOrder = { ...buy, pricetype: 'LIMIT' as const, price: 1900 };
+    expect(evaluateOrderRisk(limitOrder, profile({ maxOrderValue: 20000 }), context).reasons).toEqual([]);
+  });
+
+  it('should fail closed when LTP is needed but unavailable', () => {
+    const result = evaluateOrderRisk(buy, profile({ maxOrderValue: 1e9 }), { ...context, ltp: null });
+    expect(result.reasons).toEqual(['Cannot check order value: last traded price unavailable']);
+  });
+
+  it('should reject symbols, exchanges and products outside the allowed lists', () => {
+    const result = evaluateOrderRisk(
+      { ...buy, exchange: 'NFO', product: 'NRML' },
+      profile({ allowedSymbols: ['SBIN'], allowedExchanges: ['NSE'], allowedProducts: ['MIS'] }),
+      context
+    );
+    expect(result.reasons).toEqual([
+      'Symbol RELIANCE is not in the allowed symbols list',
+      'Exchange NFO is not allowed',
+      'Product NRML is not allowed',
+    ]);
+  });
+
+  it('should enforce the IST trading window', () => {
+    const hours = profile({ tradingHours: { start: '09:15', end: '15:15' } });
+    expect(evaluateOrderRisk(buy, hours, context).reasons).toEqual([]);
+
+    const evening = new Date('2024-01-15T10:00:00Z'); // 15:30 IST
+    expect(evaluateOrderRisk(buy, hours, { ...context, now: evening }).reasons).toEqual([
+      'Outside trading hours (09:15-15:15 IST)',
+    ]);
+  });
+
+  it('should reject orders while the exchange is closed', () => {
+    const sessions = profile({ marketHoursOnly: true });
+    expect(evaluateOrderRisk(buy, sessions, context).reasons).toEqual([]);
+
+    const holiday = new Date('2024-01-26T05:00:00Z'); // Republic Day, Friday 10:30 IST
+    expect(evaluateOrderRisk(buy, sessions, { ...context, now: holiday }).reasons).toEqual([
+      'NSE is closed until 2024-01-29 09:00 IST',
+    ]);
+
+    // MCX trades into the evening
+    const evening = new Date('2024-01-15T14:30:00Z'); // 20:00 IST
+    expect(evaluateOrderRisk({ ...buy, exchange: 'MCX' }, sessions, { ...context, now: evening }).reasons).toEqual([]);
+
+    expect(evaluateOrderRisk({ ...buy, exchange: '' }, sessions, context).reasons).toEqual([
+      'Cannot check market hours: order has no exchange',
+    ]);
+  });
+
+  it('should reject limit and trigger prices outside the band around LTP', () => {
+    const band = profile({ priceBandPercent: 5 });
+    const order = { ...buy, pricetype: 'SL' as const, price: 2700, trigger_price: 2600 };
+    expect(evaluateOrderRisk(order, band, context).reasons).toEqual([
+      'Price 2700 is 8.0% away from LTP 2500 (band 5%)',
+    ]);
+  });
+
+  it('should block new positions at the open position limit but allow adding to one', () => {
+    const positions = [position('SBIN', 10, 0), position('TCS', -5, 0), position('INFY', 0, 0)];
+    const limit = profile({ maxOpenPositions: 2 });
+
+    expect(evaluateOrderRisk(buy, limit, { ...context, positions }).reasons).toEqual([
+      'Already holding 2 open positions (maximum 2)',
+    ]);
+    expect(evaluateOrderRisk({ ...buy, symbol: 'SBIN' }, limit, { ...context, positions }).reasons).toEqual([]);
+  });
+
+  it('should flag a daily loss breach and still allow reducing orders', () => {
+    const positions = [position('RELIANCE', 10, -6000)];
+    const loss = profile({ dailyMaxLoss: 5000 });
+
+    const blocked = evaluateOrderRisk(buy, loss, { ...context, positions });
+    expect(blocked.lossLimitBreached).toBe(true);
+    expect(blocked.reasons).toEqual(['Daily loss of ₹6,000 has reached the limit of ₹5,000']);
+
+    const exit = evaluateOrderRisk({ ...buy, action: 'SELL' }, loss, { ...context, positions });
+    expect(exit).toEqual({ reasons: [], lossLimitBreached: true });
+  });
+
+  it('should keep blocking new orders while the day is locked', () => {
+    const result = evaluateOrderRisk(buy, profile({ dailyMaxLoss: 5000 }), {
+      ...context,
+      positions: [],
+      lockedToday: true,
+    });
+    expect(result.reasons).toEqual(['Daily loss limit hit: new orders are blocked until the next trading day']);
+  });
+});
+
+describe('risk helpers', () => {
+  it('should detect orders that reduce without flipping a position', () => {
+    const positions = [position('RELIANCE', 10, 0)];
+    expect(isReducingOrder({ ...buy, action: 'SELL', quantity: 10 }, positions)).toBe(true);
+    expect(isReducingOrder({ ...buy, action: 'SELL', quantity: 11 }, positions)).toBe(false);
+    expect(isReducingOrder(buy, positions)).toBe(false);
+    expect(isReducingOrder({ ...buy, action: 'SELL' }, null)).toBe(false);
+  });
+
+  it('should only request market data the enabled rules need', () => {
+    expect(riskDataNeeds(profile({ maxOrderQuantity: 5 }), buy, false)).toEqual({ ltp: false, positions: false });
+    expect(riskDataNeeds(profile({ priceBandPercent: 5 }), buy, false).ltp).toBe(false);
+    expect(riskDataNeeds(profile({ priceBandPercent: 5 }), { ...buy, price: 10 }, false).ltp).toBe(true);
+    expect(riskDataNeeds(profile({}), buy, true).positions).toBe(true);
+  });
+
+  it('should use the IST calendar day', () => {
+    expect(istDateKey(new Date('2024-01-15T18:29:00Z'))).toBe('2024-01-15');
+    expect(istDateKey(new Date('2024-01-15T18:30:00Z'))).toBe('2024-01-16');
+  });
+});
+
+describe('validateRiskProfile', () => {
+  it('should normalize lists and treat empty limits as disabled', () => {
+    const result = validateRiskProfile({
+      enabled: true,
+      maxOrderQuantity: '100',
+      dailyMaxLoss: '',
+      allowedSymbols: [' reliance ', 'RELIANCE', 'sbin'],
+      allowedExchanges: ['nse'],
+      tradingHours: { start: '09:15', end: '15:15' },
+    });
+    expect(result).toEqual({
+      success: true,
+      profile: {
+        ...DEFAULT_RISK_PROFILE,
+        enabled: true,
+        maxOrderQuantity: 100,
+        allowedSymbols: ['RELIANCE', 'SBIN'],
+        allowedExchanges: ['NSE'],
+        tradingHours: { start: '09:15', end: '15:15' },
+      },
+    });
+  });
+
+  it('should reject bad values', () => {
+    expect(validateRiskProfile({ maxOrderQuantity: 1.5 }).success).toBe(false);
+    expect(validateRiskProfile({ dailyMaxLoss: -100 }).success).toBe(false);
+    expect(validateRiskProfile({ priceBandPercent: 150 }).success).toBe(false);
+    expect(validateRiskProfile({ allowedExchanges: ['NASDAQ'] })).toEqual({
+      success: false,
+      error: 'Unknown exchange: NASDAQ',
+    });
+    expect(validateRiskProfile({ tradingHours: { start: '15:30', end: '09:15' } }).success).toBe(false);
+    expect(validateRiskProfile({ tradingHours: { start: '9:15', end: '15:30' } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for strategy webhook signal parsing and mode handling
+ */
+
+import { parseWebhookSignal, resolveSignalOrder, resolveTargetPosition } from '../strategySignals';
+
+describe('parseWebhookSignal', () => {
+  it('should parse an AmiBroker payload', () => {
+    const signal = parseWebhookSignal({ symbol: 'RELIANCE', action: 'BUY', position_size: 1 });
+    expect(signal).toEqual({ action: 'BUY', position_size: 1, symbol: 'RELIANCE' });
+  });
+
+  it('should parse a TradingView payload with string numbers and exchange prefix', () => {
+    const signal = parseWebhookSignal({
+      ticker: 'NSE:SBIN',
+      action: 'sell',
+      contracts: '5',
+      position_size: '0',
+    });
+    expect(signal).toEqual({ action: 'SELL', position_size: 0, signed_size: true, quantity: 5, symbol: 'SBIN' });
+  });
+
+  it('should map SHORT/COVER actions', () => {
+    expect(parseWebhookSignal({ action: 'SHORT' })?.action).toBe('SELL');
+    expect(parseWebhookSignal({ action: 'cover' })?.action).toBe('BUY');
+  });
+
+  it('should return null for missing or unknown actions', () => {
+    expect(parseWebhookSignal({ symbol: 'RELIANCE' })).toBeNull();
+    expect(parseWebhookSignal({ action: 'HOLD' })).toBeNull();
+    expect(parseWebhookSignal(null)).toBeNull();
+  });
+});
+
+describe('resolveSignalOrder', () => {
+  describe('LONG mode', () => {
+    it('should enter long on BUY when flat', () => {
+      expect(resolveSignalOrder('LONG', 0, 'BUY', 10)).toEqual({
+        execute: true, action: 'BUY', quantity: 10, nextPosition: 10,
+      });
+    });
+
+    it('should ignore BUY when already long', () => {
+      expect(resolveSignalOrder('LONG', 10, 'BUY', 10).execute).toBe(false);
+    });
+
+    it('should exit the full long position on SELL', () => {
+      expect(resolveSignalOrder('LONG', 15, 'SELL', 10)).toEqual({
+        execute: true, action: 'SELL', quantity: 15, nextPosition: 0,
+      });
+    });
+
+    it('should never open a short', () => {
+      expect(resolveSignalOrder('LONG', 0, 'SELL', 10).execute).toBe(false);
+    });
+  });
+
+  describe('SHORT mode', () => {
+    it('should enter short on SELL and cover on BUY', () => {
+      expect(resolveSignalOrder('SHORT', 0, 'SELL', 5)).toEqual({
+        execute: true, action: 'SELL', quantity: 5, nextPosition: -5,
+      });
+      expect(resolveSignalOrder('SHORT', -5, 'BUY', 5)).toEqual({
+        execute: true, action: 'BUY', quantity: 5, nextPosition: 0,
+      });
+    });
+
+    it('should never open a long', () => {
+      expect(resolveSignalOrder('SHORT', 0, 'BUY', 5).execute).toBe(false);
+    });
+  });
+
+  describe('BOTH mode', () => {
+    it('should reverse an opposite position', () => {
+      expect(resolveSignalOrder('BOTH', -5, 'BUY', 5)).toEqual({
+        execute: true, action: 'BUY', quantity: 10, nextPosition: 5,
+      });
+      expect(resolveSignalOrder('BOTH', 5, 'SELL', 5)).toEqual({
+        execute: true, action: 'SELL', quantity: 10, nextPosition: -5,
+      });
+    });
+
+    it('should ignore a signal in the direction already held', () => {
+      expect(resolveSignalOrder('BOTH', 5, 'BUY', 5).execute).toBe(false);
+    });
+  });
+
+  it('should reject non-positive quantities', () => {
+    expect(resolveSignalOrder('BOTH', 0, 'BUY', 0).execute).toBe(false);
+  });
+});
+
+describe('resolveTargetPosition', () => {
+  it('should treat position_size 0 as close in every mode', () => {
+    expect(resolveTargetPosition('LONG', { action: 'SELL', position_size: 0 })).toBe(0);
+    expect(resolveTargetPosition('SHORT', { action: 'BUY', position_size: 0 })).toBe(0);
+    expect(resolveTargetPosition('BOTH', { action: 'SELL', position_size: 0 })).toBe(0);
+  });
+
+  it('should sign non-zero sizes by action in BOTH mode', () => {
+    expect(resolveTargetPosition('BOTH', { action: 'BUY', position_size: 1 })).toBe(1);
+    expect(resolveTargetPosition('BOTH', { action: 'SELL', position_size: 5 })).toBe(-5);
+    expect(resolveTargetPosition('BOTH', { action: 'SELL', position_size: -5 })).toBe(-5);
+  });
+
+  it('should keep TradingView\'s sign so a partial exit trims instead of reversing', () => {
+    const trim = parseWebhookSignal({ ticker: 'NSE:SBIN', action: 'sell', contracts: '5', position_size: '5' });
+    expect(trim && resolveTargetPosition('BOTH', trim)).toBe(5);
+
+    const short = parseWebhookSignal({ ticker: 'NSE:SBIN', action: 'sell', contracts: '5', position_size: '-5' });
+    expect(short && resolveTargetPosition('BOTH', short)).toBe(-5);
+  });
+
+  it('should ignore non-zero sizes outside BOTH mode', () => {
+    expect(resolveTargetPosition('LONG', { action: 'BUY', position_size: 1 })).toBeNull();
+  });
+
+  it('should return null when no position_size is sent', () => {
+    expect(resolveTargetPosition('BOTH', { action: 'BUY' })).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for reference-counted ticker subscriptions
+ */
+
+import {
+  SubscriptionTable,
+  addSubscriptions,
+  effectiveMode,
+  removeSubscriptions,
+  subscribedTokens,
+  tickForMode,
+} from '../websocket/subscriptions';
+import { TickData } from '../websocket/kiteTickerProtocol';
+
+const NOW = new Date('2024-01-15T04:00:00Z');
+
+describe('addSubscriptions', () => {
+  it('should subscribe new tokens in the requested mode', () => {
+    const table: SubscriptionTable = new Map();
+    expect(addSubscriptions(table, 'chart', [1, 2], 'quote')).toEqual({
+      modes: [{ mode: 'quote', tokens: [1, 2] }],
+      unsubscribe: [],
+      rejected: [],
+    });
+  });
+
+  it('should only upgrade the broker mode when a richer subscriber joins', () => {
+    const table: SubscriptionTable = new Map();
+    addSubscriptions(table, 'ticker', [1], 'quote');
+    expect(addSubscriptions(table, 'option', [1], 'ltp').modes).toEqual([]);
+    expect(addSubscriptions(table, 'depth', [1], 'full').modes).toEqual([{ mode: 'full', tokens: [1] }]);
+    expect(effectiveMode(table.get(1)!)).toBe('full');
+  });
+
+  it('should reject tokens over the connection limit', () => {
+    const table: SubscriptionTable = new Map();
+    addSubscriptions(table, 'a', [1, 2], 'ltp', 3);
+    const changes = addSubscriptions(table, 'b', [2, 3, 4], 'ltp', 3);
+    expect(changes.rejected).toEqual([4]);
+    expect(changes.modes).toEqual([{ mode: 'ltp', tokens: [3] }]);
+    expect(subscribedTokens(table, 'b')).toEqual([2, 3]);
+  });
+});
+
+describe('removeSubscriptions', () => {
+  it('should keep tokens other subscribers still hold', () => {
+    const table: SubscriptionTable = new Map();
+    addSubscriptions(table, 'chart', [1, 2], 'quote');
+    addSubscriptions(table, 'ticker', [1], 'quote');
+
+    expect(removeSubscriptions(table, 'chart')).toEqual({ modes: [], unsubscribe: [2], rejected: [] });
+    expect(removeSubscriptions(table, 'ticker', [1])).toEqual({ modes: [], unsubscribe: [1], rejected: [] });
+    expect(table.size).toBe(0);
+  });
+
+  it('should downgrade the broker mode when the richest subscriber leaves', () => {
+    const table: SubscriptionTable = new Map();
+    addSubscriptions(table, 'ticker', [1], 'quote');
+    addSubscriptions(table, 'depth', [1], 'full');
+    expect(removeSubscriptions(table, 'depth').modes).toEqual([{ mode: 'quote', tokens: [1] }]);
+  });
+
+  it('should ignore tokens the subscriber does not hold', () => {
+    const table: SubscriptionTable = new Map();
+    addSubscriptions(table, 'chart', [1], 'quote');
+    expect(removeSubscriptions(table, 'ticker', [1, 9]).unsubscribe).toEqual([]);
+    expect(subscribedTokens(table, 'chart')).toEqual([1]);
+  });
+});
+
+describe('tickForMode', () => {
+  const tick: TickData = {
+    instrument_token: 1,
+    mode: 'full',
+    tradable: true,
+    last_price: 100,
+    volume_traded: 500,
+    change: 1.5,
+    ohlc: { open: 99, high: 101, low: 98, close: 98.5 },
+    oi: 0,
+    last_trade_time: NOW,
+    depth: { buy: [], sell: [] },
+  };
+
+  it('should strip fields beyond the subscriber mode', () => {
+    expect(tickForMode(tick, 'ltp', NOW)).toEqual({
+      instrument_token: 1,
+      last_price: 100,
+      timestamp: NOW.toISOString(),
+    });
+    expect(tickForMode(tick, 'quote', NOW)).toEqual({
+      instrument_token: 1,
+      last_price: 100,
+      change: 1.5,
+      volume: 500,
+      ohlc: tick.ohlc,
+      timestamp: NOW.toISOString(),
+    });
+    expect(tickForMode(tick, 'full', NOW)).toMatchObject({
+      depth: { buy: [], sell: [] },
+      last_trade_time: NOW.toISOString(),
+    });
+  });
+});
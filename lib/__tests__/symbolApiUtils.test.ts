@@ -0,0 +1,68 @@
+/**
+ * Unit tests for the symbol, search and expiry API helpers
+ */
+
+import { formatExpiry, MAX_SEARCH_LIMIT, parseSearchOptions, toSymbolData } from '../symbolApiUtils';
+import { Instrument } from '../instrumentSymbols';
+
+const OPTION: Instrument = {
+  symbol: 'NIFTY28MAR2420000CE',
+  exchange: 'NFO',
+  name: 'NIFTY',
+  instrumentType: 'CE',
+  expiry: '2024-03-28',
+  strike: 20000,
+  lotSize: 50,
+  tickSize: 0.05,
+  freezeQty: 1800,
+  brokers: { zerodha: { symbol: 'NIFTY24MAR20000CE', exchange: 'NFO', token: '12345678' } },
+};
+
+describe('toSymbolData', () => {
+  it('should use the broker symbol and token when the broker lists the instrument', () => {
+    expect(toSymbolData(OPTION, 'zerodha')).toEqual({
+      symbol: 'NIFTY28MAR2420000CE',
+      brsymbol: 'NIFTY24MAR20000CE',
+      name: 'NIFTY',
+      exchange: 'NFO',
+      brexchange: 'NFO',
+      token: '12345678',
+      expiry: '28-MAR-24',
+      strike: 20000,
+      lotsize: 50,
+      instrumenttype: 'CE',
+      tick_size: 0.05,
+      freeze_qty: 1800,
+    });
+  });
+
+  it('should fall back to the OpenAlgo symbol for other brokers', () => {
+    expect(toSymbolData(OPTION, 'paper')).toMatchObject({ brsymbol: 'NIFTY28MAR2420000CE', brexchange: 'NFO', token: '' });
+    expect(toSymbolData({ ...OPTION, instrumentType: 'EQ', expiry: null, strike: null }, 'angel')).toMatchObject({
+      expiry: '',
+      strike: -1,
+    });
+  });
+});
+
+describe('formatExpiry', () => {
+  it('should write expiries the OpenAlgo way', () => {
+    expect(formatExpiry('2025-01-02')).toBe('02-JAN-25');
+  });
+});
+
+describe('parseSearchOptions', () => {
+  it('should default the limit and normalize filters', () => {
+    expect(parseSearchOptions({})).toEqual({ success: true, options: { limit: 50 } });
+    expect(parseSearchOptions({ exchange: 'nfo', instrumenttype: 'opt', limit: 10 })).toEqual({
+      success: true,
+      options: { exchange: 'NFO', instrumentType: 'OPT', limit: 10 },
+    });
+  });
+
+  it('should reject unknown types and out-of-range limits', () => {
+    expect(parseSearchOptions({ instrumenttype: 'BOND' }).success).toBe(false);
+    expect(parseSearchOptions({ limit: MAX_SEARCH_LIMIT + 1 }).success).toBe(false);
+    expect(parseSearchOptions({ limit: 0 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for session-anchored timeframes and resampling
+ */
+
+import { OPENALGO_INTERVALS, openAlgoTimeframe, resampleCandles, sessionBucketEnd, timeframeStart } from '../timeframes';
+
+// 2024-01-15 (Monday) 09:15 IST
+const OPEN = Date.parse('2024-01-15T03:45:00Z') / 1000;
+const MINUTE = 60;
+
+function candle(time: number, open: number, high: number, low: number, close: number, volume = 100) {
+  return { time, open, high, low, close, volume };
+}
+
+describe('timeframeStart', () => {
+  it('should anchor intraday bars at 09:15 IST', () => {
+    expect(timeframeStart(OPEN + 80 * MINUTE, '75minute')).toBe(OPEN + 75 * MINUTE);
+    expect(timeframeStart(OPEN + 44 * MINUTE, '30minute')).toBe(OPEN + 30 * MINUTE);
+    expect(timeframeStart(OPEN + 361 * MINUTE, '120minute')).toBe(OPEN + 360 * MINUTE);
+  });
+
+  it('should start daily, weekly and monthly bars at 00:00 IST', () => {
+    const midnight = OPEN - (9 * 60 + 15) * MINUTE;
+    expect(timeframeStart(OPEN, 'day')).toBe(midnight);
+    expect(timeframeStart(OPEN + 3 * 86400, 'week')).toBe(midnight);
+    expect(timeframeStart(OPEN, 'month')).toBe(Date.parse('2024-01-01T00:00:00+05:30') / 1000);
+  });
+});
+
+describe('sessionBucketEnd', () => {
+  it('should end the last bar of the day at 15:30 IST', () => {
+    const lastHour = OPEN + 360 * MINUTE;   // 15:15 IST
+    expect(sessionBucketEnd(lastHour, 60 * MINUTE)).toBe(OPEN + 375 * MINUTE);
+    expect(sessionBucketEnd(OPEN, 60 * MINUTE)).toBe(OPEN + 60 * MINUTE);
+  });
+});
+
+describe('resampleCandles', () => {
+  it('should aggregate base candles into session-aligned bars', () => {
+    const base = [
+      candle(OPEN, 100, 105, 99, 104),
+      candle(OPEN + 15 * MINUTE, 104, 110, 103, 108),
+      candle(OPEN + 60 * MINUTE, 108, 109, 101, 102),
+      candle(OPEN + 75 * MINUTE, 102, 103, 100, 101),
+    ];
+    expect(resampleCandles(base, '75minute')).toEqual([
+      candle(OPEN, 100, 110, 99, 102, 300),
+      candle(OPEN + 75 * MINUTE, 102, 103, 100, 101, 100),
+    ]);
+  });
+
+  it('should build weekly bars from Monday', () => {
+    const monday = Date.parse('2024-01-15T00:00:00+05:30') / 1000;
+    const days = [0, 1, 4, 7].map((day, i) => candle(monday + day * 86400, 100 + i, 110 + i, 90 + i, 101 + i));
+    expect(resampleCandles(days, 'week')).toEqual([
+      candle(monday, 100, 112, 90, 103, 300),
+      candle(monday + 7 * 86400, 103, 113, 93, 104, 100),
+    ]);
+  });
+});
+
+describe('openAlgoTimeframe', () => {
+  it('should map OpenAlgo intervals onto timeframes', () => {
+    expect(openAlgoTimeframe('1m')).toBe('minute');
+    expect(openAlgoTimeframe('75m')).toBe('75minute');
+    expect(openAlgoTimeframe('4h')).toBe('240minute');
+    expect(openAlgoTimeframe('D')).toBe('day');
+    expect(openAlgoTimeframe('1d')).toBeNull();
+    expect(OPENALGO_INTERVALS.filter((entry) => entry.unit === 'hours').map((entry) => entry.interval)).toEqual(['1h', '2h', '4h']);
+  });
+});
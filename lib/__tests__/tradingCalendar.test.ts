@@ -0,0 +1,107 @@
+/**
+ * Unit tests for exchange holidays, sessions and market hours
+ */
+
+import {
+  isMarketOpen,
+  isTradingDay,
+  marketSessions,
+  nextSessionOpen,
+  previousTradingDay,
+  setTradingCalendar,
+  TradingCalendarData,
+  tradingMinutesBetween,
+  validateTradingCalendar,
+} from '../tradingCalendar';
+import defaultCalendar from '../data/tradingCalendar.json';
+
+function ist(dateTime: string): number {
+  return Date.parse(`${dateTime}:00+05:30`) / 1000;
+}
+
+describe('marketSessions', () => {
+  it('should list pre-open and regular sessions for cash and regular only for F&O', () => {
+    expect(marketSessions('NSE', '2026-01-20').map((s) => s.type)).toEqual(['pre-open', 'regular']);
+    expect(marketSessions('NFO', '2026-01-20')).toEqual([
+      { exchange: 'NFO', type: 'regular', date: '2026-01-20', open: ist('2026-01-20T09:15'), close: ist('2026-01-20T15:30') },
+    ]);
+    expect(marketSessions('NSE', '2026-01-24')).toEqual([]);
+  });
+
+  it('should close MCX later while the US is on standard time', () => {
+    expect(marketSessions('MCX', '2026-07-15')[1].close).toBe(ist('2026-07-15T23:30'));
+    expect(marketSessions('MCX', '2026-01-15')[1].close).toBe(ist('2026-01-15T23:55'));
+  });
+
+  it('should keep the MCX evening session on partial holidays and add muhurat sessions', () => {
+    expect(marketSessions('MCX', '2026-03-03').map((s) => s.type)).toEqual(['evening']);
+    expect(marketSessions('MCX', '2026-01-26')).toEqual([]);
+    expect(marketSessions('NSE', '2025-10-21').map((s) => s.type)).toEqual(['muhurat']);
+  });
+});
+
+describe('isTradingDay', () => {
+  it('should skip weekends, holidays and muhurat-only days', () => {
+    expect(isTradingDay('NSE', '2026-01-23')).toBe(true);
+    expect(isTradingDay('NSE', '2026-01-26')).toBe(false);
+    expect(isTradingDay('NSE', '2025-10-21')).toBe(false);
+    expect(isTradingDay('MCX', '2026-03-03')).toBe(true);
+    expect(previousTradingDay('NFO', '2026-03-31')).toBe('2026-03-30');
+  });
+});
+
+describe('isMarketOpen', () => {
+  it('should only count pre-open when asked', () => {
+    expect(isMarketOpen('NSE', ist('2026-01-20T09:05'))).toBe(false);
+    expect(isMarketOpen('NSE', ist('2026-01-20T09:05'), { preOpen: true })).toBe(true);
+    expect(isMarketOpen('NSE', ist('2026-01-20T15:30'))).toBe(false);
+    expect(isMarketOpen('MCX', ist('2026-01-20T21:00'))).toBe(true);
+    expect(isMarketOpen('NSE_INDEX', ist('2026-01-26T10:00'))).toBe(false);
+  });
+});
+
+describe('nextSessionOpen', () => {
+  it('should skip weekends and holidays', () => {
+    // Friday evening before the Republic Day Monday
+    expect(nextSessionOpen('NFO', ist('2026-01-23T16:00'))?.open).toBe(ist('2026-01-27T09:15'));
+    expect(nextSessionOpen('NSE', ist('2026-01-23T16:00'), { preOpen: true })?.open).toBe(ist('2026-01-27T09:00'));
+  });
+
+  it('should treat back-to-back MCX sessions as one', () => {
+    expect(nextSessionOpen('MCX', ist('2026-01-20T10:00'))?.open).toBe(ist('2026-01-21T09:00'));
+  });
+});
+
+describe('tradingMinutesBetween', () => {
+  it('should count only session minutes', () => {
+    expect(tradingMinutesBetween('NSE', ist('2026-01-20T09:00'), ist('2026-01-20T10:00'))).toBe(45);
+    // Friday 15:00 to Tuesday 09:30 with Monday a holiday
+    expect(tradingMinutesBetween('NFO', ist('2026-01-23T15:00'), ist('2026-01-27T09:30'))).toBe(45);
+    expect(tradingMinutesBetween('NSE', ist('2026-01-20T10:00'), ist('2026-01-20T09:00'))).toBe(0);
+  });
+});
+
+describe('setTradingCalendar', () => {
+  it('should replace the holidays with a validated file', () => {
+    const result = validateTradingCalendar({
+      holidays: [{ date: '2026-01-20', description: 'Election', exchanges: ['NSE'] }],
+      specialSessions: [],
+    });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    setTradingCalendar(result.calendar);
+    expect(isTradingDay('NSE', '2026-01-20')).toBe(false);
+    expect(isTradingDay('NSE', '2026-01-26')).toBe(true);
+    setTradingCalendar(defaultCalendar as TradingCalendarData);
+  });
+
+  it('should reject malformed entries', () => {
+    expect(validateTradingCalendar({ holidays: [{ date: '20-01-2026', exchanges: ['NSE'] }] }).success).toBe(false);
+    expect(validateTradingCalendar({ holidays: [{ date: '2026-01-20', exchanges: ['NYSE'] }] }).success).toBe(false);
+    expect(
+      validateTradingCalendar({
+        specialSessions: [{ date: '2026-11-08', exchanges: ['NSE'], open: '19:00', close: '18:00' }],
+      }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Tests for the Upstox client and mapper against a recorded-response stand-in server
+ */
+
+import recorded from '../__fixtures__/upstox.recorded.json';
+import { Recording, withStandInServer } from '../__fixtures__/standInServer';
+import {
+  authenticateUpstox,
+  placeOrder,
+  cancelAllOrders,
+  closePosition,
+  getOrderBook,
+  getHoldings,
+  getFunds,
+  getPositions,
+  getMarketQuote,
+  getInstrumentKey,
+  transformOrderData,
+} from '../upstoxClient';
+import {
+  mapUpstoxOrderbook,
+  mapUpstoxPositions,
+  mapUpstoxHoldings,
+  mapUpstoxFunds,
+} from '../brokers/upstoxMapper';
+
+const recordings = recorded as unknown as Record<string, Recording>;
+const TOKEN = 'recorded-upstox-token';
+
+/**
+ * Start the stand-in server with the named recordings and point the Upstox client at it
+ */
+function withUpstox(names: string[], run: Parameters<typeof withStandInServer>[1]) {
+  return withStandInServer(
+    names.map((name) => recordings[name]),
+    async (server) => {
+      process.env.UPSTOX_API_BASE_URL = server.url;
+      process.env.UPSTOX_INSTRUMENTS_URL = server.url;
+      await run(server);
+    }
+  );
+}
+
+describe('Upstox authentication', () => {
+  it('should exchange the authorization code with a form-encoded request', async () => {
+    await withUpstox(['token'], async (server) => {
+      const accessToken = await authenticateUpstox('code123', 'api-key', 'api-secret', 'https://app.example/callback');
+      expect(accessToken).toContain('recorded');
+
+      const form = new URLSearchParams(server.requests[0].body);
+      expect(form.get('code')).toBe('code123');
+      expect(form.get('client_id')).toBe('api-key');
+      expect(form.get('client_secret')).toBe('api-secret');
+      expect(form.get('redirect_uri')).toBe('https://app.example/callback');
+      expect(form.get('grant_type')).toBe('authorization_code');
+    });
+  });
+
+  it('should surface the Upstox error for a mismatched redirect URI', async () => {
+    await withUpstox(['tokenInvalidCode'], async () => {
+      let message = '';
+      try {
+        await authenticateUpstox('code123', 'api-key', 'api-secret', 'https://wrong.example/callback');
+      } catch (error) {
+        message = (error as Error).message;
+      }
+      expect(message).toContain('redirect_uri');
+    });
+  });
+});
+
+describe('Upstox orders', () => {
+  it('should send the instrument key, I/D product and bearer token', async () => {
+    await withUpstox(['placeOrder'], async (server) => {
+      const result = await placeOrder(
+        TOKEN,
+        transformOrderData(
+          { symbol: 'SBIN', exchange: 'NSE', action: 'BUY', quantity: 10, product: 'CNC', pricetype: 'LIMIT', price: 571, strategy: 'nifty-breakout' },
+          'NSE_EQ|INE062A01020'
+        )
+      );
+
+      expect(result.orderid).toBe('240115000123456');
+      expect(server.requests[0].headers.authorization).toBe(`Bearer ${TOKEN}`);
+      expect(JSON.parse(server.requests[0].body)).toMatchObject({
+        instrument_token: 'NSE_EQ|INE062A01020',
+        quantity: 10,
+        product: 'D',
+        order_type: 'LIMIT',
+        transaction_type: 'BUY',
+        price: 571,
+        tag: 'nifty-breakout',
+        is_amo: false,
+      });
+    });
+  });
+
+  it('should reject with the first error message from the envelope', async () => {
+    await withUpstox(['placeOrderRejected'], async () => {
+      let message = '';
+      try {
+        await placeOrder(TOKEN, transformOrderData({ symbol: 'SBIN', exchange: 'NSE', action: 'BUY', quantity: 1 }, 'NSE_EQ|INE062A01020'));
+      } catch (error) {
+        message = (error as Error).message;
+      }
+      expect(message).toContain('Order placement is not allowed');
+    });
+  });
+
+  it('should cancel open and trigger pending orders and report failures', async () => {
+    await withUpstox(['orders', 'cancelOrder', 'cancelTriggerOrder'], async () => {
+      const { canceled, failed } = await cancelAllOrders(TOKEN);
+      expect(canceled).toEqual(['240115000123456']);
+      expect(failed).toEqual(['240115000123458']);
+    });
+  });
+
+  it('should close a short carry-forward position with a BUY market order', async () => {
+    await withUpstox(['positions', 'placeOrder'], async (server) => {
+      await closePosition(TOKEN, 'NIFTY24JANFUT', 'NFO', 'NRML');
+      expect(JSON.parse(server.requests[1].body)).toMatchObject({
+        instrument_token: 'NSE_FO|35001',
+        quantity: 50,
+        product: 'D',
+        order_type: 'MARKET',
+        transaction_type: 'BUY',
+      });
+    });
+  });
+});
+
+describe('Upstox books', () => {
+  it('should map the recorded order book to OpenAlgo', async () => {
+    await withUpstox(['orders'], async () => {
+      const { orders, statistics } = mapUpstoxOrderbook(await getOrderBook(TOKEN));
+      expect(orders[1]).toEqual({
+        symbol: 'NIFTY24JANFUT',
+        exchange: 'NFO',
+        action: 'SELL',
+        quantity: 50,
+        price: 21598.6,
+        trigger_price: 0,
+        pricetype: 'MARKET',
+        product: 'NRML',
+        orderid: '240115000123457',
+        order_status: 'complete',
+        timestamp: '2024-01-15 09:22:04',
+      });
+      expect(orders[2]).toMatchObject({ product: 'CNC', pricetype: 'SL-M', order_status: 'trigger pending' });
+      expect(statistics.total_open_orders).toBe(2);
+      expect(statistics.total_rejected_orders).toBe(1);
+    });
+  });
+
+  it('should map positions, holdings and funds', async () => {
+    await withUpstox(['positions', 'holdings', 'funds'], async () => {
+      const positions = await getPositions(TOKEN);
+      expect(mapUpstoxPositions(positions)[0]).toEqual({
+        symbol: 'NIFTY24JANFUT',
+        exchange: 'NFO',
+        product: 'NRML',
+        quantity: -50,
+        average_price: 21598.6,
+        ltp: 21590.3,
+        pnl: 415,
+      });
+
+      const { holdings, statistics } = mapUpstoxHoldings(await getHoldings(TOKEN));
+      expect(holdings[0]).toMatchObject({ symbol: 'YESBANK', quantity: 40, product: 'CNC', pnl: 90 });
+      expect(statistics.totalinvvalue).toBe(800);
+
+      const funds = mapUpstoxFunds(await getFunds(TOKEN), positions);
+      expect(funds.availablecash).toBe(141784.6);
+      expect(funds.utiliseddebits).toBe(108215.4);
+      expect(funds.utilisedspan).toBe(79542.1);
+      expect(funds.m2munrealized).toBe(415);
+      expect(funds.m2mrealized).toBe(-35.5);
+    });
+  });
+
+  it('should return the single quote keyed by SEGMENT:SYMBOL', async () => {
+    await withUpstox(['quote'], async (server) => {
+      const quote = await getMarketQuote(TOKEN, 'NSE_EQ|INE062A01020');
+      expect(quote?.last_price).toBe(569.8);
+      expect(server.requests[0].path).toBe('/market-quote/quotes?instrument_key=NSE_EQ%7CINE062A01020');
+    });
+  });
+});
+
+describe('getInstrumentKey', () => {
+  it('should resolve equity symbols from the gzipped instrument file', async () => {
+    await withUpstox(['nseInstruments'], async (server) => {
+      expect(await getInstrumentKey('SBIN', 'NSE')).toBe('NSE_EQ|INE062A01020');
+      expect(await getInstrumentKey('UNKNOWN', 'NSE')).toBeNull();
+      // The NSE file is downloaded once and reused
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+});
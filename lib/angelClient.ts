@@ -150,134 +150,6 @@ export function transformOrderData(data: any, symboltoken: string = ''): AngelOr
   };
 }
 
-/**
- * Search for a symbol on Angel Broker to get its symboltoken
- * @param depth - Internal parameter to prevent infinite recursion (max 2 levels)
- */
-export async function searchScrip(
-  jwtToken: string,
-  apiKey: string,
-  symbol: string,
-  exchange: string = 'NSE',
-  depth: number = 0
-): Promise<{ symboltoken: string; trading_symbol: string } | null> {
-  // Prevent infinite recursion (max 2 levels: original + 1 fallback)
-  if (depth > 1) {
-    console.warn(`[searchScrip] Max recursion depth reached for ${symbol} on ${exchange}`);
-    return null;
-  }
-
-  try {
-    console.log(`[searchScrip] Searching for ${symbol} on ${exchange}... (depth: ${depth})`);
-
-    // Try official Angel master token file first
-    console.log(`[searchScrip] Attempting master file lookup...`);
-    try {
-      const response = await fetch('https://margincalculator.angelbroking.com/OpenAPI_File/files/OpenAPIScripMaster.json');
-
-      if (response.ok) {
-        const masterData = await response.json() as any[];
-        console.log(`[searchScrip] Loaded master file with ${masterData.length} symbols`);
-
-        // Look for exact match with exchange
-        let match = masterData.find((scrip: any) => {
-          const scriptrade = (scrip.scripname || scrip.trading_symbol || scrip.symbol || '').toUpperCase();
-          const exchangeMapped = (scrip.exchange || scrip.exch || '').toUpperCase();
-          return scriptrade === symbol.toUpperCase() && exchangeMapped === exchange.toUpperCase();
-        });
-
-        // If not found, try with -EQ suffix (Angel convention for equity on NSE)
-        if (!match && exchange === 'NSE') {
-          match = masterData.find((scrip: any) => {
-            const scriptrade = (scrip.scripname || scrip.trading_symbol || scrip.symbol || '').toUpperCase();
-            const symbolWithEq = `${symbol.toUpperCase()}-EQ`;
-            return scriptrade === symbolWithEq;
-          });
-        }
-
-        // If still not found, try partial match (less strict)
-        if (!match) {
-          match = masterData.find((scrip: any) => {
-            const scriptrade = (scrip.scripname || scrip.trading_symbol || scrip.symbol || '').toUpperCase();
-            return scriptrade.includes(symbol.toUpperCase());
-          });
-        }
-
-        if (match) {
-          const token = match.token || match.exch_token || match.symboltoken || match.expiry_symbol || match.symbol_token || '';
-          if (token) {
-            console.log(`[searchScrip] Found token ${token} for ${symbol} in master file`);
-            return {
-              symboltoken: token.toString(),
-              trading_symbol: match.scripname || match.trading_symbol || match.symbol || symbol,
-            };
-          } else {
-            console.warn(`[searchScrip] Match found but no token field:`, Object.keys(match).slice(0, 10));
-          }
-        }
-      } else {
-        console.warn(`[searchScrip] Master file fetch failed with status ${response.status}`);
-      }
-    } catch (e) {
-      console.warn(`[searchScrip] Master file lookup failed:`, e);
-    }
-
-    // All direct attempts failed
-    console.error(`[searchScrip] All search attempts failed for ${symbol} on ${exchange}`);
-
-    // Try fallback: get from existing positions
-    console.log(`[searchScrip] Trying fallback: searching existing positions...`);
-    try {
-      const positions = await getPositions(jwtToken, apiKey);
-      const matchingPosition = positions.find(
-        (p: any) => p.tradingsymbol === symbol && p.exchange === exchange
-      );
-      if (matchingPosition && matchingPosition.symboltoken) {
-        console.log(`[searchScrip] Found symboltoken ${matchingPosition.symboltoken} in positions`);
-        return {
-          symboltoken: matchingPosition.symboltoken,
-          trading_symbol: matchingPosition.tradingsymbol,
-        };
-      }
-    } catch (e) {
-      console.warn(`[searchScrip] Could not get positions for fallback:`, e);
-    }
-
-    // Try fallback: get from holdings
-    console.log(`[searchScrip] Trying fallback: searching holdings...`);
-    try {
-      const holdings = await getHoldings(jwtToken, apiKey);
-      const matchingHolding = holdings.find(
-        (h: any) => h.tradingsymbol === symbol && h.exchange === exchange
-      );
-      if (matchingHolding && matchingHolding.symboltoken) {
-        console.log(`[searchScrip] Found symboltoken ${matchingHolding.symboltoken} in holdings`);
-        return {
-          symboltoken: matchingHolding.symboltoken,
-          trading_symbol: matchingHolding.tradingsymbol,
-        };
-      }
-    } catch (e) {
-      console.warn(`[searchScrip] Could not get holdings for fallback:`, e);
-    }
-
-    // For NFO/futures, try with cash market as fallback (only if depth allows)
-    if ((exchange === 'NFO' || exchange === 'NSEFO') && depth < 1) {
-      console.log(`[searchScrip] Trying fallback search on NSE for ${symbol}...`);
-      const nseFallback = await searchScrip(jwtToken, apiKey, symbol, 'NSE', depth + 1);
-      if (nseFallback) {
-        console.log(`[searchScrip] Found in NSE fallback`);
-        return nseFallback;
-      }
-    }
-
-    return null;
-  } catch (error) {
-    console.error(`[searchScrip] Exception for ${symbol}:`, error);
-    return null;
-  }
-}
-
 /**
  * Authenticate with Angel Broker using clientCode, PIN, and TOTP
  */
@@ -621,16 +493,15 @@ export async function getHoldings(
 }
 
 /**
- * Get account funds/balance from Angel Broker
+ * Get account funds/balance (RMS limits) from Angel Broker
  */
 export async function getFunds(
   jwtToken: string,
   apiKey: string
 ): Promise<any> {
   try {
-    // Angel doesn't have a dedicated funds endpoint, so we fetch positions which includes balance info
     const response = await fetch(
-      `${ANGEL_BASE_URL}/rest/secure/angelbroking/portfolio/v1/getAllHolding`,
+      `${ANGEL_BASE_URL}/rest/secure/angelbroking/user/v1/getRMS`,
       {
         method: 'GET',
         headers: getAngelHeaders(jwtToken, apiKey),
@@ -644,17 +515,52 @@ export async function getFunds(
     const data = await response.json() as any;
 
     if (!data.status) {
-      throw new Error('Failed to fetch funds');
+      throw new Error(data.message || 'Failed to fetch funds');
     }
 
-    // Return holdings data which contains balance information
-    return data.data?.totalholding || {};
+    return data.data || {};
   } catch (error) {
     console.error('Angel getFunds error:', error);
     throw error;
   }
 }
 
+/**
+ * Get full market quotes from Angel Broker
+ * exchangeTokens maps exchange to symboltokens, e.g. { NSE: ['3045'] }
+ */
+export async function getMarketQuote(
+  jwtToken: string,
+  apiKey: string,
+  exchangeTokens: Record<string, string[]>
+): Promise<any[]> {
+  try {
+    const response = await fetch(
+      `${ANGEL_BASE_URL}/rest/secure/angelbroking/market/v1/quote/`,
+      {
+        method: 'POST',
+        headers: getAngelHeaders(jwtToken, apiKey),
+        body: JSON.stringify({ mode: 'FULL', exchangeTokens }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch quotes with status ${response.status}`);
+    }
+
+    const data = await response.json() as any;
+
+    if (!data.status) {
+      throw new Error(data.message || 'Failed to fetch quotes');
+    }
+
+    return data.data?.fetched || [];
+  } catch (error) {
+    console.error('Angel getMarketQuote error:', error);
+    throw error;
+  }
+}
+
 /**
  * Cancel all orders from Angel Broker
  */
@@ -3,22 +3,29 @@
  * For OpenAlgo v1 API endpoints
  */
 
-import { NextResponse } from 'next/server';
-import { validateApiKey } from './apiKeyUtils';
-import { ApiKeyPermissions } from './types/apikey';
+import { NextRequest, NextResponse } from 'next/server';
+import { validateApiKey, recordApiKeyRejection } from './apiKeyUtils';
+import { ApiKeyPermissions, ApiKeyRateLimits } from './types/apikey';
+import { forwardedClientIp, isIpAllowed } from './ipWhitelist';
+import { consumeOrderToken } from './rateLimiter';
 
 export interface ApiKeyAuthContext {
+  keyId: string;                 // apiKeys document ID
   userId: string;
   broker: string;
   permissions: ApiKeyPermissions;
+  ipWhitelist: string[];         // Empty = any IP
+  rateLimits: ApiKeyRateLimits;
 }
 
 /**
  * Authenticate request using API key from request body
+ * Enforces the key's IP whitelist against the caller IP (403 if not allowed)
  * Returns auth context if valid, or error response if invalid
  */
 export async function authenticateApiKey(
-  apikey: string | undefined
+  apikey: string | undefined,
+  request: NextRequest
 ): Promise<{ success: true; context: ApiKeyAuthContext } | { success: false; response: NextResponse }> {
   // Check if API key is provided
   if (!apikey) {
@@ -50,6 +57,28 @@ export async function authenticateApiKey(
     };
   }
 
+  // Enforce IP whitelist (trusts only the platform's or proxy's own client IP header)
+  const clientIp = getClientIp(request);
+  if (!isIpAllowed(clientIp, authContext.ipWhitelist)) {
+    const message = `IP address ${clientIp || 'unknown'} is not allowed for this API key`;
+    await recordApiKeyRejection(authContext.keyId, {
+      reason: 'ip_not_allowed',
+      ip: clientIp,
+      endpoint: request.nextUrl.pathname,
+      message,
+    });
+    return {
+      success: false,
+      response: NextResponse.json(
+        {
+          status: 'error',
+          message,
+        },
+        { status: 403 }
+      ),
+    };
+  }
+
   return {
     success: true,
     context: authContext,
@@ -84,3 +113,47 @@ export function requirePermission(
   }
   return null;
 }
+
+/**
+ * Take `orders` orders (one per broker order the request places) from the key's rate limit,
+ * return 429 error if there isn't room for all of them
+ * Call on order endpoints after the permission check
+ */
+export async function requireOrderRateLimit(
+  context: ApiKeyAuthContext,
+  request: NextRequest,
+  orders: number = 1
+): Promise<NextResponse | null> {
+  const result = consumeOrderToken(context.keyId, context.rateLimits, Date.now(), orders);
+  if (result.allowed) {
+    return null;
+  }
+
+  const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+  // A request larger than the window can never fit, so retrying it won't help
+  const message = orders > result.limit
+    ? `Rate limit exceeded: request places ${orders} orders, above the limit of ${result.limit} orders per ${result.window}`
+    : `Rate limit exceeded: ${result.limit} orders per ${result.window}. Retry after ${retryAfterSeconds}s`;
+  const clientIp = getClientIp(request);
+  await recordApiKeyRejection(context.keyId, {
+    reason: 'rate_limited',
+    ip: clientIp,
+    endpoint: request.nextUrl.pathname,
+    message,
+  });
+
+  return NextResponse.json(
+    {
+      status: 'error',
+      message,
+    },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  );
+}
+
+/**
+ * Client IP of the caller, as reported by the platform or reverse proxy (see forwardedClientIp)
+ */
+export function getClientIp(request: NextRequest): string | null {
+  return forwardedClientIp(request.headers);
+}
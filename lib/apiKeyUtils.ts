@@ -5,7 +5,19 @@
 
 import crypto from 'crypto';
 import { adminDb } from './firebaseAdmin';
-import { ApiKey, ApiKeyPermissions, DEFAULT_PERMISSIONS } from './types/apikey';
+import {
+  ApiKey,
+  ApiKeyPermissions,
+  ApiKeyRateLimits,
+  ApiKeyRejection,
+  ApiKeyRejectionReason,
+  DEFAULT_PERMISSIONS,
+  DEFAULT_RATE_LIMITS,
+} from './types/apikey';
+
+// Recorded rejections are throttled per key and reason so a flood of refused calls stays cheap
+const REJECTION_LOG_INTERVAL_MS = 5000;
+const lastRejectionLoggedAt = new Map<string, number>();
 
 /**
  * Generate a random API key
@@ -81,7 +93,14 @@ export async function createApiKey(
  */
 export async function validateApiKey(
   apiKey: string
-): Promise<{ userId: string; broker: string; permissions: ApiKeyPermissions } | null> {
+): Promise<{
+  keyId: string;
+  userId: string;
+  broker: string;
+  permissions: ApiKeyPermissions;
+  ipWhitelist: string[];
+  rateLimits: ApiKeyRateLimits;
+} | null> {
   const keyHash = hashApiKey(apiKey);
 
   // Query Firestore for this key hash
@@ -111,9 +130,13 @@ export async function validateApiKey(
   });
 
   return {
+    keyId: doc.id,
     userId: data.userId,
     broker: data.broker,
-    permissions: data.permissions,
+    // Keys created before a permission existed get its default
+    permissions: { ...DEFAULT_PERMISSIONS, ...data.permissions },
+    ipWhitelist: data.ipWhitelist || [],
+    rateLimits: data.rateLimits || DEFAULT_RATE_LIMITS,
   };
 }
 
@@ -190,3 +213,89 @@ export async function deleteApiKey(userId: string, keyId: string): Promise<boole
   await docRef.delete();
   return true;
 }
+
+/**
+ * Update an API key's IP whitelist and/or rate limits
+ */
+export async function updateApiKeySecurity(
+  userId: string,
+  keyId: string,
+  updates: { ipWhitelist?: string[]; rateLimits?: ApiKeyRateLimits }
+): Promise<boolean> {
+  const docRef = adminDb.collection('apiKeys').doc(keyId);
+  const doc = await docRef.get();
+
+  if (!doc.exists) {
+    return false;
+  }
+
+  const data = doc.data() as Omit<ApiKey, 'id'>;
+
+  // Ensure user owns this key
+  if (data.userId !== userId) {
+    return false;
+  }
+
+  await docRef.update({
+    ...(updates.ipWhitelist && { ipWhitelist: updates.ipWhitelist }),
+    ...(updates.rateLimits && { rateLimits: updates.rateLimits }),
+  });
+
+  return true;
+}
+
+/**
+ * Record a request refused by the IP whitelist or rate limiter
+ * Never throws: the caller is already returning an error response
+ */
+export async function recordApiKeyRejection(
+  keyId: string,
+  rejection: { reason: ApiKeyRejectionReason; ip: string | null; endpoint: string; message: string }
+): Promise<void> {
+  const throttleKey = `${keyId}:${rejection.reason}`;
+  const now = Date.now();
+  if (now - (lastRejectionLoggedAt.get(throttleKey) || 0) < REJECTION_LOG_INTERVAL_MS) {
+    return;
+  }
+  lastRejectionLoggedAt.set(throttleKey, now);
+
+  try {
+    await adminDb.collection('apiKeys').doc(keyId).collection('rejections').add({
+      ...rejection,
+      createdAt: new Date(),
+    });
+  } catch (error) {
+    console.error('[API-KEY] Failed to record rejection:', error);
+  }
+}
+
+/**
+ * Get the most recent rejections for a key the user owns (newest first)
+ * Returns null if the key doesn't exist or belongs to someone else
+ */
+export async function getApiKeyRejections(
+  userId: string,
+  keyId: string,
+  limit: number = 20
+): Promise<ApiKeyRejection[] | null> {
+  const docRef = adminDb.collection('apiKeys').doc(keyId);
+  const doc = await docRef.get();
+
+  if (!doc.exists || (doc.data() as Omit<ApiKey, 'id'>).userId !== userId) {
+    return null;
+  }
+
+  const snapshot = await docRef.collection('rejections').orderBy('createdAt', 'desc').limit(limit).get();
+
+  return snapshot.docs.map((rejectionDoc) => {
+    const data = rejectionDoc.data();
+    return {
+      id: rejectionDoc.id,
+      reason: data.reason,
+      ip: data.ip ?? null,
+      endpoint: data.endpoint,
+      message: data.message,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate().toISOString() : String(data.createdAt),
+    };
+  });
+}
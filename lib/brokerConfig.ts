@@ -83,6 +83,19 @@ export const BROKER_CONFIGS: Record<string, BrokerConfig> = {
     supportedProductTypes: ['INTRADAY', 'CNC', 'MARGIN'],
     supportedOrderTypes: ['MARKET', 'LIMIT', 'STOP', 'STOPLIMIT'],
   },
+  paper: {
+    id: 'paper',
+    name: 'paper',
+    displayName: 'Paper Trading (Sandbox)',
+    loginUrlTemplate: '', // Virtual account, no broker login
+    apiEndpoint: '', // Orders are simulated in Firestore (lib/paperClient.ts)
+    requiresApiKey: false,
+    requiresApiSecret: false,
+    requiresRequestToken: false,
+    supportedExchanges: ['NSE', 'BSE', 'NFO', 'BFO', 'MCX', 'CDS'],
+    supportedProductTypes: ['MIS', 'CNC', 'NRML'],
+    supportedOrderTypes: ['MARKET', 'LIMIT', 'SL', 'SL-M'],
+  },
 };
 
 /**
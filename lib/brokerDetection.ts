@@ -5,7 +5,7 @@
 
 import { getCachedBrokerConfig } from './brokerConfigUtils';
 
-export type BrokerType = 'zerodha' | 'fyers';
+export type BrokerType = 'zerodha' | 'fyers' | 'paper';
 
 interface BrokerDetectionResult {
   broker: BrokerType;
@@ -21,6 +21,7 @@ interface BrokerDetectionResult {
  * @returns The broker the user has configured, or error if none
  *
  * Priority logic:
+ * 0. Paper trading needs no credentials, so an explicit 'paper' preference always wins
  * 1. If user has only one broker configured, use that
  * 2. If user has both brokers, use preferred (default: zerodha)
  * 3. If user has neither, return error
@@ -29,6 +30,10 @@ export async function detectUserBroker(
   userId: string,
   preferredBroker: BrokerType = 'zerodha'
 ): Promise<BrokerDetectionResult> {
+  if (preferredBroker === 'paper') {
+    return { broker: 'paper', isConfigured: true };
+  }
+
   try {
     // Check both brokers for this user
     const zerodhaConfig = await getCachedBrokerConfig(userId, 'zerodha');
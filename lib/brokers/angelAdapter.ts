@@ -0,0 +1,182 @@
+/**
+ * Angel One Broker Adapter
+ * Wraps lib/angelClient (Angel needs a symboltoken for orders and quotes, which comes
+ * from the instrument master unless the request carries one)
+ * Books are normalized by angelMapper
+ */
+
+import {
+  placeOrder,
+  modifyOrder,
+  cancelOrder,
+  cancelAllOrders,
+  getOrderBook,
+  getTradeBook,
+  getPositions,
+  getHoldings,
+  getFunds,
+  getMarketQuote,
+  closePosition,
+  transformOrderData,
+  mapProductType,
+} from '@/lib/angelClient';
+import { resolveBrokerInstrument } from '@/lib/instrumentMaster';
+import { BrokerAdapter } from './types';
+import {
+  mapAngelOrderbook,
+  mapAngelTradebook,
+  mapAngelPositions,
+  mapAngelHoldings,
+  mapAngelFunds,
+} from './angelMapper';
+import { ok, fail, withCredentials, recordPlacedOrder, depthLevels } from './shared';
+
+const BROKER = 'angel';
+const DISPLAY_NAME = 'Angel Broker';
+
+export const angelAdapter: BrokerAdapter = {
+  id: BROKER,
+
+  placeOrder: (userId, order) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      const angel = await resolveBrokerInstrument(BROKER, order.symbol, order.exchange);
+      const token = order.token || angel.token;
+      if (!token) {
+        console.warn(`[ANGEL-ADAPTER] No symboltoken found for ${order.symbol}, Angel API may reject order`);
+      }
+
+      const result = await placeOrder(
+        accessToken,
+        apiKey,
+        transformOrderData(
+          { ...order, symbol: angel.symbol, product: order.product || 'MIS', pricetype: order.pricetype || 'MARKET' },
+          token
+        )
+      );
+      await recordPlacedOrder(userId, BROKER, result.orderid, order, result);
+      return ok({ status: 'success' as const, orderid: result.orderid });
+    }),
+
+  modifyOrder: (userId, order) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      const angel = order.symbol ? await resolveBrokerInstrument(BROKER, order.symbol, order.exchange) : null;
+      const result = await modifyOrder(accessToken, apiKey, {
+        ...order,
+        ...(angel ? { symbol: angel.symbol } : {}),
+        pricetype: order.pricetype || 'LIMIT',
+        product: order.product || 'MIS',
+        symboltoken: order.token || angel?.token || '',
+      });
+      return ok({ status: 'success' as const, orderid: result.orderid });
+    }),
+
+  cancelOrder: (userId, orderid) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      const result = await cancelOrder(accessToken, apiKey, orderid);
+      return ok({ status: 'success' as const, orderid: result?.orderid || orderid });
+    }),
+
+  cancelAllOrders: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      const { canceled, failed } = await cancelAllOrders(accessToken, apiKey);
+      return ok({
+        status: 'success' as const,
+        message: `Cancelled ${canceled.length} orders, ${failed.length} failed`,
+        canceled_orders: canceled,
+        failed_cancellations: failed,
+      });
+    }),
+
+  orderbook: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) =>
+      ok({ status: 'success' as const, data: mapAngelOrderbook(await getOrderBook(accessToken, apiKey)) })
+    ),
+
+  tradebook: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) =>
+      ok({ status: 'success' as const, data: mapAngelTradebook(await getTradeBook(accessToken, apiKey)) })
+    ),
+
+  positions: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) =>
+      ok({ status: 'success' as const, data: mapAngelPositions(await getPositions(accessToken, apiKey)) })
+    ),
+
+  holdings: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) =>
+      ok({ status: 'success' as const, data: mapAngelHoldings(await getHoldings(accessToken, apiKey)) })
+    ),
+
+  funds: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) =>
+      ok({ status: 'success' as const, data: mapAngelFunds(await getFunds(accessToken, apiKey)) })
+    ),
+
+  closePosition: (userId, symbol, exchange, product) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      // Quantity is read from the live position inside closePosition
+      const angel = await resolveBrokerInstrument(BROKER, symbol, exchange);
+      const result = await closePosition(accessToken, apiKey, angel.symbol, exchange, mapProductType(product), '');
+      return ok({ status: 'success' as const, orderid: result.orderid, message: 'Position closed successfully' });
+    }),
+
+  quotes: (userId, symbol, exchange) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      const angel = await resolveBrokerInstrument(BROKER, symbol, exchange);
+      if (!angel.token) {
+        return fail(`Symbol not found: ${exchange}:${symbol}`, 404);
+      }
+
+      const fetched = await getMarketQuote(accessToken, apiKey, { [angel.exchange]: [angel.token] });
+      const quote = fetched[0];
+      if (!quote) {
+        return fail(`No quote found for ${exchange}:${symbol}`, 404);
+      }
+
+      return ok({
+        status: 'success' as const,
+        data: {
+          ask: quote.depth?.sell?.[0]?.price || 0,
+          bid: quote.depth?.buy?.[0]?.price || 0,
+          high: quote.high || 0,
+          low: quote.low || 0,
+          ltp: quote.ltp || 0,
+          open: quote.open || 0,
+          prev_close: quote.close || 0,
+          volume: quote.tradeVolume || 0,
+          oi: quote.opnInterest || 0,
+        },
+      });
+    }),
+
+  depth: (userId, symbol, exchange) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      const angel = await resolveBrokerInstrument(BROKER, symbol, exchange);
+      if (!angel.token) {
+        return fail(`Symbol not found: ${exchange}:${symbol}`, 404);
+      }
+
+      const quote = (await getMarketQuote(accessToken, apiKey, { [angel.exchange]: [angel.token] }))[0];
+      if (!quote) {
+        return fail(`No quote found for ${exchange}:${symbol}`, 404);
+      }
+
+      return ok({
+        status: 'success' as const,
+        data: {
+          asks: depthLevels(quote.depth?.sell),
+          bids: depthLevels(quote.depth?.buy),
+          high: quote.high || 0,
+          low: quote.low || 0,
+          ltp: quote.ltp || 0,
+          ltq: quote.lastTradeQty || 0,
+          open: quote.open || 0,
+          prev_close: quote.close || 0,
+          volume: quote.tradeVolume || 0,
+          oi: quote.opnInterest || 0,
+          totalbuyqty: quote.totBuyQuan || 0,
+          totalsellqty: quote.totSellQuan || 0,
+        },
+      });
+    }),
+};
@@ -0,0 +1,167 @@
+/**
+ * Angel One Response Mapper
+ * Converts SmartAPI order/trade/position/holding/RMS payloads to OpenAlgo books
+ */
+
+import {
+  FundsData,
+  HoldingsData,
+  OrderBookData,
+  OrderStatus,
+  PositionBookItem,
+  PriceType,
+  ProductType,
+  TradeBookItem,
+} from '@/lib/types/openalgo';
+import {
+  bookRows,
+  buildHoldingsData,
+  buildOrderBookData,
+  normalizeAction,
+  normalizeExchange,
+  round2,
+  toNumber,
+} from './books';
+
+/**
+ * Map an Angel order status to OpenAlgo
+ * Angel reports lowercase states; transient ones (open pending, validation pending,
+ * after market order req received, modified...) are open
+ */
+export function normalizeAngelStatus(status: unknown): OrderStatus {
+  switch (String(status ?? '').toLowerCase()) {
+    case 'complete':
+      return 'complete';
+    case 'rejected':
+      return 'rejected';
+    case 'cancelled':
+      return 'cancelled';
+    case 'trigger pending':
+      return 'trigger pending';
+    default:
+      return 'open';
+  }
+}
+
+/**
+ * Map an Angel producttype to OpenAlgo
+ */
+export function normalizeAngelProduct(producttype: unknown): ProductType {
+  const mapping: Record<string, ProductType> = {
+    DELIVERY: 'CNC',
+    CARRYFORWARD: 'NRML',
+    MARGIN: 'NRML',
+    INTRADAY: 'MIS',
+    BO: 'MIS',
+    CO: 'MIS',
+  };
+  return mapping[String(producttype ?? '').toUpperCase()] || 'MIS';
+}
+
+function normalizeAngelPriceType(ordertype: unknown): PriceType {
+  const mapping: Record<string, PriceType> = {
+    MARKET: 'MARKET',
+    LIMIT: 'LIMIT',
+    STOPLOSS_LIMIT: 'SL',
+    STOPLOSS_MARKET: 'SL-M',
+  };
+  return mapping[String(ordertype ?? '').toUpperCase()] || 'MARKET';
+}
+
+/**
+ * getOrderBook → OpenAlgo order book
+ */
+export function mapAngelOrderbook(raw: unknown): OrderBookData {
+  const orders = bookRows(raw).map((o) => {
+    const status = normalizeAngelStatus(o.status ?? o.orderstatus);
+    const averagePrice = toNumber(o.averageprice);
+    return {
+      symbol: String(o.tradingsymbol ?? ''),
+      exchange: normalizeExchange(o.exchange),
+      action: normalizeAction(o.transactiontype),
+      quantity: toNumber(o.quantity),
+      price: status === 'complete' && averagePrice > 0 ? averagePrice : toNumber(o.price),
+      trigger_price: toNumber(o.triggerprice),
+      pricetype: normalizeAngelPriceType(o.ordertype),
+      product: normalizeAngelProduct(o.producttype),
+      orderid: String(o.orderid ?? ''),
+      order_status: status,
+      timestamp: String(o.updatetime ?? o.exchorderupdatetime ?? ''),
+    };
+  });
+  return buildOrderBookData(orders);
+}
+
+/**
+ * getTradeBook → OpenAlgo trade book
+ */
+export function mapAngelTradebook(raw: unknown): TradeBookItem[] {
+  return bookRows(raw).map((t) => {
+    const quantity = toNumber(t.fillsize);
+    const averagePrice = toNumber(t.fillprice);
+    return {
+      symbol: String(t.tradingsymbol ?? ''),
+      exchange: normalizeExchange(t.exchange),
+      product: normalizeAngelProduct(t.producttype),
+      action: normalizeAction(t.transactiontype),
+      quantity,
+      average_price: averagePrice,
+      trade_value: round2(toNumber(t.tradevalue) || quantity * averagePrice),
+      orderid: String(t.orderid ?? ''),
+      timestamp: String(t.filltime ?? ''),
+    };
+  });
+}
+
+/**
+ * getPosition → OpenAlgo position book
+ */
+export function mapAngelPositions(raw: unknown): PositionBookItem[] {
+  return bookRows(raw).map((p) => ({
+    symbol: String(p.tradingsymbol ?? ''),
+    exchange: normalizeExchange(p.exchange),
+    product: normalizeAngelProduct(p.producttype),
+    quantity: toNumber(p.netqty),
+    average_price: toNumber(p.avgnetprice ?? p.netprice),
+    ltp: toNumber(p.ltp),
+    pnl: round2(toNumber(p.pnl)),
+  }));
+}
+
+/**
+ * getAllHolding ({ holdings, totalholding }) → OpenAlgo holdings
+ */
+export function mapAngelHoldings(raw: unknown): HoldingsData {
+  const holdings = (raw as { holdings?: unknown } | undefined)?.holdings;
+  return buildHoldingsData(
+    bookRows(holdings).map((h) => ({
+      symbol: String(h.tradingsymbol ?? ''),
+      exchange: normalizeExchange(h.exchange),
+      product: 'CNC',
+      quantity: toNumber(h.quantity),
+      average_price: toNumber(h.averageprice),
+      ltp: toNumber(h.ltp),
+      pnl: h.profitandloss === undefined ? undefined : toNumber(h.profitandloss),
+    }))
+  );
+}
+
+/**
+ * getRMS → OpenAlgo funds (Angel reports every field as a numeric string)
+ */
+export function mapAngelFunds(raw: unknown): FundsData {
+  const rms = (raw || {}) as Record<string, unknown>;
+  return {
+    availablecash: round2(toNumber(rms.availablecash)),
+    collateral: round2(toNumber(rms.collateral)),
+    m2munrealized: round2(toNumber(rms.m2munrealized)),
+    m2mrealized: round2(toNumber(rms.m2mrealized)),
+    utiliseddebits: round2(toNumber(rms.utiliseddebits)),
+    utilisedspan: round2(toNumber(rms.utilisedspan)),
+    utilisedoptionpremium: round2(toNumber(rms.utilisedoptionpremium)),
+    utilisedholdingsales: round2(toNumber(rms.utilisedholdingsales)),
+    utilisedexposure: round2(toNumber(rms.utilisedexposure)),
+    utilisedturnover: round2(toNumber(rms.utilisedturnover)),
+    utilisedpayout: round2(toNumber(rms.utilisedpayout)),
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * OpenAlgo Book Builders
+ * Broker-independent helpers used by the per-broker mappers to produce
+ * OpenAlgo order books, holdings and their statistics blocks
+ */
+
+import {
+  Action,
+  Exchange,
+  HoldingsData,
+  OrderBookData,
+  OrderBookItem,
+  ProductType,
+} from '@/lib/types/openalgo';
+
+const EXCHANGES: Exchange[] = ['NSE', 'BSE', 'NFO', 'BFO', 'MCX', 'CDS', 'BCD'];
+
+export type BookRow = Record<string, unknown>;
+
+/**
+ * Read an array of rows from a raw broker payload (non-arrays become [])
+ */
+export function bookRows(value: unknown): BookRow[] {
+  return Array.isArray(value) ? (value as BookRow[]) : [];
+}
+
+/**
+ * Parse a broker number (brokers send numbers, numeric strings or nothing)
+ */
+export function toNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Round to two decimals (paise)
+ */
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Normalize an exchange code, defaulting to NSE for unknown values
+ */
+export function normalizeExchange(value: unknown): Exchange {
+  const exchange = String(value ?? '').toUpperCase() as Exchange;
+  return EXCHANGES.includes(exchange) ? exchange : 'NSE';
+}
+
+/**
+ * Normalize a BUY/SELL side (anything other than SELL is BUY)
+ */
+export function normalizeAction(value: unknown): Action {
+  return String(value ?? '').toUpperCase() === 'SELL' ? 'SELL' : 'BUY';
+}
+
+/**
+ * Wrap an order list with OpenAlgo's order book statistics
+ */
+export function buildOrderBookData(orders: OrderBookItem[]): OrderBookData {
+  return {
+    orders,
+    statistics: {
+      total_buy_orders: orders.filter((o) => o.action === 'BUY').length,
+      total_sell_orders: orders.filter((o) => o.action === 'SELL').length,
+      total_completed_orders: orders.filter((o) => o.order_status === 'complete').length,
+      total_open_orders: orders.filter((o) => o.order_status === 'open' || o.order_status === 'trigger pending').length,
+      total_rejected_orders: orders.filter((o) => o.order_status === 'rejected').length,
+    },
+  };
+}
+
+/**
+ * Holding with the prices needed for P&L and statistics
+ */
+export interface MarkedHolding {
+  symbol: string;
+  exchange: Exchange;
+  product: ProductType;
+  quantity: number;
+  average_price: number;
+  ltp: number;
+  pnl?: number;                  // Broker-reported P&L; computed from prices when absent
+}
+
+/**
+ * Build OpenAlgo holdings plus totals (value, invested, P&L, P&L %)
+ */
+export function buildHoldingsData(rows: MarkedHolding[]): HoldingsData {
+  let totalValue = 0;
+  let totalInvested = 0;
+  let totalPnl = 0;
+
+  const holdings = rows.map((row) => {
+    const invested = row.quantity * row.average_price;
+    const pnl = row.pnl ?? row.quantity * (row.ltp - row.average_price);
+
+    totalValue += row.quantity * row.ltp;
+    totalInvested += invested;
+    totalPnl += pnl;
+
+    return {
+      symbol: row.symbol,
+      exchange: row.exchange,
+      quantity: row.quantity,
+      product: row.product,
+      pnl: round2(pnl),
+      pnlpercent: invested > 0 ? round2((pnl / invested) * 100) : 0,
+    };
+  });
+
+  return {
+    holdings,
+    statistics: {
+      totalholdingvalue: round2(totalValue),
+      totalinvvalue: round2(totalInvested),
+      totalprofitandloss: round2(totalPnl),
+      totalpnlpercentage: totalInvested > 0 ? round2((totalPnl / totalInvested) * 100) : 0,
+    },
+  };
+}
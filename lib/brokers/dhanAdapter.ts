@@ -0,0 +1,180 @@
+/**
+ * Dhan Broker Adapter
+ * Wraps lib/dhanClient (orders need a Dhan securityId and the client ID stored as API key)
+ * Books are normalized by dhanMapper
+ */
+
+import {
+  placeOrder,
+  modifyOrder,
+  cancelOrder,
+  cancelAllOrders,
+  getOrderBook,
+  getTradeBook,
+  getPositions,
+  getHoldings,
+  getFunds,
+  getMarketQuote,
+  getSecurityId,
+  closePosition,
+  mapExchangeSegment,
+  transformOrderData,
+} from '@/lib/dhanClient';
+import { BrokerAdapter } from './types';
+import {
+  mapDhanOrderbook,
+  mapDhanTradebook,
+  mapDhanPositions,
+  mapDhanHoldings,
+  mapDhanFunds,
+} from './dhanMapper';
+import { ok, fail, withCredentials, recordPlacedOrder, depthLevels } from './shared';
+
+const BROKER = 'dhan';
+const DISPLAY_NAME = 'Dhan';
+
+// Market quote row (quote mode)
+interface DhanQuote {
+  last_price?: number;
+  last_quantity?: number;
+  volume?: number;
+  oi?: number;
+  buy_quantity?: number;
+  sell_quantity?: number;
+  ohlc?: { open?: number; high?: number; low?: number; close?: number };
+  depth?: { buy?: { price?: number; quantity?: number }[]; sell?: { price?: number; quantity?: number }[] };
+}
+
+export const dhanAdapter: BrokerAdapter = {
+  id: BROKER,
+
+  placeOrder: (userId, order) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      const securityId = order.token || (await getSecurityId(order.symbol, order.exchange));
+      if (!securityId) {
+        return fail(`Symbol not found: ${order.exchange}:${order.symbol}`, 404);
+      }
+
+      const result = await placeOrder(accessToken, transformOrderData(order, apiKey, securityId));
+      await recordPlacedOrder(userId, BROKER, result.orderid, order, result);
+      return ok({ status: 'success' as const, orderid: result.orderid });
+    }),
+
+  modifyOrder: (userId, order) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      const result = await modifyOrder(accessToken, apiKey, order);
+      return ok({ status: 'success' as const, orderid: result.orderid });
+    }),
+
+  cancelOrder: (userId, orderid) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const result = await cancelOrder(accessToken, orderid);
+      return ok({ status: 'success' as const, orderid: result.orderid });
+    }),
+
+  cancelAllOrders: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const { canceled, failed } = await cancelAllOrders(accessToken);
+      return ok({
+        status: 'success' as const,
+        message: `Cancelled ${canceled.length} orders, ${failed.length} failed`,
+        canceled_orders: canceled,
+        failed_cancellations: failed,
+      });
+    }),
+
+  orderbook: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapDhanOrderbook(await getOrderBook(accessToken)) })
+    ),
+
+  tradebook: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapDhanTradebook(await getTradeBook(accessToken)) })
+    ),
+
+  positions: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapDhanPositions(await getPositions(accessToken)) })
+    ),
+
+  holdings: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapDhanHoldings(await getHoldings(accessToken)) })
+    ),
+
+  funds: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const [funds, positions] = await Promise.all([getFunds(accessToken), getPositions(accessToken)]);
+      return ok({ status: 'success' as const, data: mapDhanFunds(funds, positions) });
+    }),
+
+  closePosition: (userId, symbol, exchange, product) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      const result = await closePosition(accessToken, apiKey, symbol, exchange, product);
+      return ok({ status: 'success' as const, orderid: result.orderid, message: 'Position closed successfully' });
+    }),
+
+  quotes: (userId, symbol, exchange) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      const securityId = await getSecurityId(symbol, exchange);
+      if (!securityId) {
+        return fail(`Symbol not found: ${exchange}:${symbol}`, 404);
+      }
+
+      const segment = mapExchangeSegment(exchange);
+      const fetched = await getMarketQuote(accessToken, apiKey, { [segment]: [Number(securityId)] });
+      const quote = fetched[segment]?.[securityId] as DhanQuote | undefined;
+      if (!quote) {
+        return fail(`No quote found for ${exchange}:${symbol}`, 404);
+      }
+
+      return ok({
+        status: 'success' as const,
+        data: {
+          ask: quote.depth?.sell?.[0]?.price || 0,
+          bid: quote.depth?.buy?.[0]?.price || 0,
+          high: quote.ohlc?.high || 0,
+          low: quote.ohlc?.low || 0,
+          ltp: quote.last_price || 0,
+          open: quote.ohlc?.open || 0,
+          prev_close: quote.ohlc?.close || 0,
+          volume: quote.volume || 0,
+          oi: quote.oi || 0,
+        },
+      });
+    }),
+
+  depth: (userId, symbol, exchange) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken, apiKey }) => {
+      const securityId = await getSecurityId(symbol, exchange);
+      if (!securityId) {
+        return fail(`Symbol not found: ${exchange}:${symbol}`, 404);
+      }
+
+      const segment = mapExchangeSegment(exchange);
+      const fetched = await getMarketQuote(accessToken, apiKey, { [segment]: [Number(securityId)] });
+      const quote = fetched[segment]?.[securityId] as DhanQuote | undefined;
+      if (!quote) {
+        return fail(`No quote found for ${exchange}:${symbol}`, 404);
+      }
+
+      return ok({
+        status: 'success' as const,
+        data: {
+          asks: depthLevels(quote.depth?.sell),
+          bids: depthLevels(quote.depth?.buy),
+          high: quote.ohlc?.high || 0,
+          low: quote.ohlc?.low || 0,
+          ltp: quote.last_price || 0,
+          ltq: quote.last_quantity || 0,
+          open: quote.ohlc?.open || 0,
+          prev_close: quote.ohlc?.close || 0,
+          volume: quote.volume || 0,
+          oi: quote.oi || 0,
+          totalbuyqty: quote.buy_quantity || 0,
+          totalsellqty: quote.sell_quantity || 0,
+        },
+      });
+    }),
+};
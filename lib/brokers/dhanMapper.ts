@@ -0,0 +1,199 @@
+/**
+ * Dhan Response Mapper
+ * Converts Dhan v2 order/trade/position/holding/fund payloads to OpenAlgo books
+ * Dhan identifies markets by exchange segment (NSE_EQ, NSE_FNO, MCX_COMM...)
+ */
+
+import {
+  Exchange,
+  FundsData,
+  HoldingsData,
+  OrderBookData,
+  OrderStatus,
+  PositionBookItem,
+  PriceType,
+  ProductType,
+  TradeBookItem,
+} from '@/lib/types/openalgo';
+import {
+  bookRows,
+  buildHoldingsData,
+  buildOrderBookData,
+  normalizeAction,
+  normalizeExchange,
+  round2,
+  toNumber,
+} from './books';
+
+const DHAN_SEGMENTS: Record<string, Exchange> = {
+  NSE_EQ: 'NSE',
+  BSE_EQ: 'BSE',
+  NSE_FNO: 'NFO',
+  BSE_FNO: 'BFO',
+  NSE_CURRENCY: 'CDS',
+  BSE_CURRENCY: 'BCD',
+  MCX_COMM: 'MCX',
+};
+
+/**
+ * Map a Dhan order status to OpenAlgo
+ * TRANSIT and PART_TRADED are still working; pending stop orders wait for their trigger
+ */
+export function normalizeDhanStatus(status: unknown, orderType?: unknown): OrderStatus {
+  switch (String(status ?? '').toUpperCase()) {
+    case 'TRADED':
+      return 'complete';
+    case 'REJECTED':
+      return 'rejected';
+    case 'CANCELLED':
+    case 'EXPIRED':
+      return 'cancelled';
+    case 'PENDING':
+      return String(orderType ?? '').toUpperCase().startsWith('STOP_LOSS') ? 'trigger pending' : 'open';
+    default:
+      return 'open';
+  }
+}
+
+/**
+ * Map a Dhan productType to OpenAlgo (MTF is delivery, CO/BO are intraday)
+ */
+export function normalizeDhanProduct(productType: unknown): ProductType {
+  const mapping: Record<string, ProductType> = {
+    CNC: 'CNC',
+    MTF: 'CNC',
+    MARGIN: 'NRML',
+    INTRADAY: 'MIS',
+    CO: 'MIS',
+    BO: 'MIS',
+  };
+  return mapping[String(productType ?? '').toUpperCase()] || 'MIS';
+}
+
+/**
+ * Map a Dhan exchange segment (or plain exchange on holdings) to OpenAlgo
+ */
+export function normalizeDhanExchange(segment: unknown): Exchange {
+  return DHAN_SEGMENTS[String(segment ?? '').toUpperCase()] || normalizeExchange(segment);
+}
+
+function normalizeDhanPriceType(orderType: unknown): PriceType {
+  const mapping: Record<string, PriceType> = {
+    MARKET: 'MARKET',
+    LIMIT: 'LIMIT',
+    STOP_LOSS: 'SL',
+    STOP_LOSS_MARKET: 'SL-M',
+  };
+  return mapping[String(orderType ?? '').toUpperCase()] || 'MARKET';
+}
+
+/**
+ * GET /orders → OpenAlgo order book
+ */
+export function mapDhanOrderbook(raw: unknown): OrderBookData {
+  const orders = bookRows(raw).map((o) => {
+    const status = normalizeDhanStatus(o.orderStatus, o.orderType);
+    const averagePrice = toNumber(o.averageTradedPrice);
+    return {
+      symbol: String(o.tradingSymbol ?? ''),
+      exchange: normalizeDhanExchange(o.exchangeSegment),
+      action: normalizeAction(o.transactionType),
+      quantity: toNumber(o.quantity),
+      price: status === 'complete' && averagePrice > 0 ? averagePrice : toNumber(o.price),
+      trigger_price: toNumber(o.triggerPrice),
+      pricetype: normalizeDhanPriceType(o.orderType),
+      product: normalizeDhanProduct(o.productType),
+      orderid: String(o.orderId ?? ''),
+      order_status: status,
+      timestamp: String(o.updateTime ?? o.createTime ?? ''),
+    };
+  });
+  return buildOrderBookData(orders);
+}
+
+/**
+ * GET /trades → OpenAlgo trade book
+ */
+export function mapDhanTradebook(raw: unknown): TradeBookItem[] {
+  return bookRows(raw).map((t) => {
+    const quantity = toNumber(t.tradedQuantity);
+    const averagePrice = toNumber(t.tradedPrice);
+    return {
+      symbol: String(t.tradingSymbol ?? ''),
+      exchange: normalizeDhanExchange(t.exchangeSegment),
+      product: normalizeDhanProduct(t.productType),
+      action: normalizeAction(t.transactionType),
+      quantity,
+      average_price: averagePrice,
+      trade_value: round2(quantity * averagePrice),
+      orderid: String(t.orderId ?? ''),
+      timestamp: String(t.exchangeTime ?? t.updateTime ?? t.createTime ?? ''),
+    };
+  });
+}
+
+/**
+ * GET /positions → OpenAlgo position book
+ * Dhan sends no LTP, so it is derived from the unrealised P&L of the open quantity
+ */
+export function mapDhanPositions(raw: unknown): PositionBookItem[] {
+  return bookRows(raw).map((p) => {
+    const quantity = toNumber(p.netQty);
+    const averagePrice = toNumber(p.costPrice) || toNumber(quantity < 0 ? p.sellAvg : p.buyAvg);
+    const unrealized = toNumber(p.unrealizedProfit);
+    return {
+      symbol: String(p.tradingSymbol ?? ''),
+      exchange: normalizeDhanExchange(p.exchangeSegment),
+      product: normalizeDhanProduct(p.productType),
+      quantity,
+      average_price: averagePrice,
+      ltp: quantity !== 0 ? round2(averagePrice + unrealized / quantity) : 0,
+      pnl: round2(toNumber(p.realizedProfit) + unrealized),
+    };
+  });
+}
+
+/**
+ * GET /holdings → OpenAlgo holdings
+ * Holdings carry no price, so P&L is only known when Dhan includes lastTradedPrice
+ */
+export function mapDhanHoldings(raw: unknown): HoldingsData {
+  return buildHoldingsData(
+    bookRows(raw).map((h) => {
+      const averagePrice = toNumber(h.avgCostPrice);
+      return {
+        symbol: String(h.tradingSymbol ?? ''),
+        exchange: normalizeDhanExchange(h.exchange),
+        product: 'CNC',
+        quantity: toNumber(h.totalQty),
+        average_price: averagePrice,
+        ltp: toNumber(h.lastTradedPrice) || averagePrice,
+      };
+    })
+  );
+}
+
+/**
+ * GET /fundlimit → OpenAlgo funds
+ * Dhan funds carry no M2M, so realised/unrealised P&L is summed from positions
+ * (the API spells the balance field "availabelBalance")
+ */
+export function mapDhanFunds(raw: unknown, positionsRaw?: unknown): FundsData {
+  const limits = (raw || {}) as Record<string, unknown>;
+  const positions = bookRows(positionsRaw);
+  const sum = (field: string) => round2(positions.reduce((total, p) => total + toNumber(p[field]), 0));
+
+  return {
+    availablecash: round2(toNumber(limits.availabelBalance ?? limits.availableBalance)),
+    collateral: round2(toNumber(limits.collateralAmount)),
+    m2munrealized: sum('unrealizedProfit'),
+    m2mrealized: sum('realizedProfit'),
+    utiliseddebits: round2(toNumber(limits.utilizedAmount)),
+    utilisedspan: 0,
+    utilisedoptionpremium: 0,
+    utilisedholdingsales: 0,
+    utilisedexposure: 0,
+    utilisedturnover: 0,
+    utilisedpayout: round2(toNumber(limits.blockedPayoutAmount)),
+  };
+}
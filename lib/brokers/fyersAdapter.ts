@@ -0,0 +1,250 @@
+/**
+ * Fyers Broker Adapter
+ * Wraps lib/fyersClient and maps OpenAlgo fields onto Fyers
+ * (qty/side/type/productType; symbols such as NSE:SBIN-EQ from the instrument master)
+ * Books are normalized by fyersMapper
+ */
+
+import {
+  placeFyersOrder,
+  modifyFyersOrder,
+  cancelFyersOrder,
+  cancelAllFyersOrders,
+  getFyersOrderbook,
+  getTradebook,
+  getFyersPositions,
+  getFyersHoldings,
+  getFyersFunds,
+  getFyersQuotes,
+  getFyersDepth,
+  FyersDepthLevel,
+} from '@/lib/fyersClient';
+import { resolveBrokerInstrument } from '@/lib/instrumentMaster';
+import { PriceType, ProductType } from '@/lib/types/openalgo';
+import { BrokerAdapter } from './types';
+import {
+  mapFyersOrderbook,
+  mapFyersTradebook,
+  mapFyersPositions,
+  mapFyersHoldings,
+  mapFyersFunds,
+} from './fyersMapper';
+import { BrokerCredentials, ok, fail, withCredentials, recordPlacedOrder, depthLevels } from './shared';
+
+const BROKER = 'fyers';
+const DISPLAY_NAME = 'Fyers';
+
+type FyersOrderType = 'MARKET' | 'LIMIT' | 'SL_MARKET' | 'SL_LIMIT';
+type FyersProductType = 'INTRADAY' | 'CNC' | 'MARGIN';
+
+/**
+ * Map OpenAlgo pricetype to Fyers order type
+ */
+export function toFyersOrderType(pricetype: PriceType = 'MARKET'): FyersOrderType {
+  const mapping: Record<PriceType, FyersOrderType> = {
+    'MARKET': 'MARKET',
+    'LIMIT': 'LIMIT',
+    'SL': 'SL_LIMIT',
+    'SL-M': 'SL_MARKET',
+  };
+  return mapping[pricetype] || 'MARKET';
+}
+
+/**
+ * Map OpenAlgo product to Fyers productType
+ */
+export function toFyersProductType(product: ProductType = 'MIS'): FyersProductType {
+  const mapping: Record<ProductType, FyersProductType> = {
+    'MIS': 'INTRADAY',
+    'CNC': 'CNC',
+    'NRML': 'MARGIN',
+  };
+  return mapping[product] || 'INTRADAY';
+}
+
+/**
+ * Fyers client ID used in the appId:accessToken auth header
+ */
+function fyersAppId(credentials: BrokerCredentials): string {
+  return credentials.appId || credentials.apiKey;
+}
+
+export const fyersAdapter: BrokerAdapter = {
+  id: BROKER,
+
+  placeOrder: (userId, order) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) => {
+      const { symbol } = await resolveBrokerInstrument(BROKER, order.symbol, order.exchange);
+      const result = await placeFyersOrder(
+        credentials.accessToken,
+        {
+          symbol,
+          qty: order.quantity,
+          type: toFyersOrderType(order.pricetype),
+          side: order.action,
+          productType: toFyersProductType(order.product),
+          price: order.price || 0,
+          stopPrice: order.trigger_price || 0,
+        },
+        fyersAppId(credentials)
+      );
+
+      if (!result?.id) {
+        return fail(result?.message || 'Fyers did not return an order ID');
+      }
+
+      await recordPlacedOrder(userId, BROKER, result.id, order, result);
+      return ok({ status: 'success' as const, orderid: result.id });
+    }),
+
+  modifyOrder: (userId, order) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) => {
+      await modifyFyersOrder(
+        credentials.accessToken,
+        order.orderid,
+        {
+          qty: order.quantity,
+          type: toFyersOrderType(order.pricetype || 'LIMIT'),
+          price: order.price,
+          stopPrice: order.trigger_price,
+        },
+        fyersAppId(credentials)
+      );
+      return ok({ status: 'success' as const, orderid: order.orderid });
+    }),
+
+  cancelOrder: (userId, orderid) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) => {
+      await cancelFyersOrder(credentials.accessToken, orderid, fyersAppId(credentials));
+      return ok({ status: 'success' as const, orderid });
+    }),
+
+  cancelAllOrders: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) => {
+      const result = await cancelAllFyersOrders(credentials.accessToken, fyersAppId(credentials));
+      return ok({
+        status: 'success' as const,
+        message: result.message,
+        canceled_orders: result.cancelled || [],
+        failed_cancellations: result.failed || [],
+      });
+    }),
+
+  orderbook: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) =>
+      ok({ status: 'success' as const, data: mapFyersOrderbook(await getFyersOrderbook(credentials.accessToken, fyersAppId(credentials))) })
+    ),
+
+  tradebook: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) =>
+      ok({ status: 'success' as const, data: mapFyersTradebook(await getTradebook(credentials.accessToken, fyersAppId(credentials))) })
+    ),
+
+  positions: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) =>
+      ok({ status: 'success' as const, data: mapFyersPositions(await getFyersPositions(credentials.accessToken, fyersAppId(credentials))) })
+    ),
+
+  holdings: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) =>
+      ok({ status: 'success' as const, data: mapFyersHoldings(await getFyersHoldings(credentials.accessToken, fyersAppId(credentials))) })
+    ),
+
+  funds: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) => {
+      const appId = fyersAppId(credentials);
+      const [funds, positions] = await Promise.all([
+        getFyersFunds(credentials.accessToken, appId),
+        getFyersPositions(credentials.accessToken, appId),
+      ]);
+      return ok({ status: 'success' as const, data: mapFyersFunds(funds, positions) });
+    }),
+
+  closePosition: (userId, symbol, exchange, product) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) => {
+      const appId = fyersAppId(credentials);
+      const fyersSymbol = (await resolveBrokerInstrument(BROKER, symbol, exchange)).symbol;
+      const productType = toFyersProductType(product);
+
+      // Fyers has no close-position API, so read the net quantity and place the opposite order
+      const positions = await getFyersPositions(credentials.accessToken, appId);
+      const netPositions: { symbol: string; productType: string; netQty: number }[] = positions.netPositions || [];
+      const position = netPositions.find(
+        (p) => (p.symbol === fyersSymbol || p.symbol === symbol) && p.productType === productType
+      );
+      const netQty = Number(position?.netQty) || 0;
+      if (netQty === 0) {
+        return fail(`No open position found for ${symbol} in ${exchange}`);
+      }
+
+      const result = await placeFyersOrder(
+        credentials.accessToken,
+        {
+          symbol: fyersSymbol,
+          qty: Math.abs(netQty),
+          type: 'MARKET',
+          side: netQty > 0 ? 'SELL' : 'BUY',
+          productType,
+        },
+        appId
+      );
+      return ok({ status: 'success' as const, orderid: result?.id, message: 'Position closed successfully' });
+    }),
+
+  quotes: (userId, symbol, exchange) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) => {
+      const fyersSymbol = (await resolveBrokerInstrument(BROKER, symbol, exchange)).symbol;
+      const result = await getFyersQuotes(credentials.accessToken, [fyersSymbol], fyersAppId(credentials));
+      const quote = result.d?.[0]?.v;
+      if (!quote || result.d[0].s === 'error') {
+        return fail(`No quote found for ${exchange}:${symbol}`, 404);
+      }
+
+      return ok({
+        status: 'success' as const,
+        data: {
+          ask: quote.ask || 0,
+          bid: quote.bid || 0,
+          high: quote.high_price || 0,
+          low: quote.low_price || 0,
+          ltp: quote.lp || 0,
+          open: quote.open_price || 0,
+          prev_close: quote.prev_close_price || 0,
+          volume: quote.volume || 0,
+          oi: quote.oi || 0,
+        },
+      });
+    }),
+
+  depth: (userId, symbol, exchange) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async (credentials) => {
+      const fyersSymbol = (await resolveBrokerInstrument(BROKER, symbol, exchange)).symbol;
+      const result = await getFyersDepth(credentials.accessToken, fyersSymbol, fyersAppId(credentials));
+      const depth = result.d?.[fyersSymbol];
+      if (!depth) {
+        return fail(`No market depth found for ${exchange}:${symbol}`, 404);
+      }
+
+      // Fyers levels carry the quantity as volume
+      const levels = (side: FyersDepthLevel[] | undefined) =>
+        depthLevels(side?.map((level) => ({ price: level.price, quantity: level.volume })));
+
+      return ok({
+        status: 'success' as const,
+        data: {
+          asks: levels(depth.ask),
+          bids: levels(depth.bids),
+          high: depth.h || 0,
+          low: depth.l || 0,
+          ltp: depth.ltp || 0,
+          ltq: depth.ltq || 0,
+          open: depth.o || 0,
+          prev_close: depth.c || 0,
+          volume: depth.v || 0,
+          oi: depth.oi || 0,
+          totalbuyqty: depth.totalbuyqty || 0,
+          totalsellqty: depth.totalsellqty || 0,
+        },
+      });
+    }),
+};
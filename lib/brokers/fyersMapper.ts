@@ -0,0 +1,207 @@
+/**
+ * Fyers Response Mapper
+ * Converts Fyers v3 order/trade/position/holding/fund payloads to OpenAlgo books
+ * Fyers uses numeric codes for side, order type, status and exchange/segment
+ */
+
+import {
+  Action,
+  Exchange,
+  FundsData,
+  HoldingsData,
+  OrderBookData,
+  OrderStatus,
+  PositionBookItem,
+  PriceType,
+  ProductType,
+  TradeBookItem,
+} from '@/lib/types/openalgo';
+import { BookRow, bookRows, buildHoldingsData, buildOrderBookData, normalizeExchange, round2, toNumber } from './books';
+
+// Fyers exchange codes (10 NSE, 11 MCX, 12 BSE) by segment (10 CM, 11 FO, 12 CD, 20 COMM)
+const FYERS_EXCHANGES: Record<string, Exchange> = {
+  '10:10': 'NSE',
+  '10:11': 'NFO',
+  '10:12': 'CDS',
+  '12:10': 'BSE',
+  '12:11': 'BFO',
+  '12:12': 'BCD',
+  '11:20': 'MCX',
+};
+
+/**
+ * Map a Fyers order status to OpenAlgo
+ * 1 cancelled, 2 traded, 4 transit, 5 rejected, 6 pending, 7 expired
+ * Pending stop orders (type 3/4) are waiting for their trigger
+ */
+export function normalizeFyersStatus(status: unknown, type?: unknown): OrderStatus {
+  switch (toNumber(status)) {
+    case 1:
+    case 7:
+      return 'cancelled';
+    case 2:
+      return 'complete';
+    case 5:
+      return 'rejected';
+    case 6:
+      return toNumber(type) === 3 || toNumber(type) === 4 ? 'trigger pending' : 'open';
+    default:
+      return 'open';
+  }
+}
+
+/**
+ * Map a Fyers productType to OpenAlgo
+ */
+export function normalizeFyersProduct(productType: unknown): ProductType {
+  const mapping: Record<string, ProductType> = {
+    CNC: 'CNC',
+    MTF: 'CNC',
+    MARGIN: 'NRML',
+    INTRADAY: 'MIS',
+    CO: 'MIS',
+    BO: 'MIS',
+  };
+  return mapping[String(productType ?? '').toUpperCase()] || 'MIS';
+}
+
+/**
+ * Map Fyers exchange/segment codes to an OpenAlgo exchange
+ * Falls back to the symbol prefix (e.g. BSE:SBIN-EQ) when codes are missing
+ */
+export function normalizeFyersExchange(row: BookRow): Exchange {
+  const mapped = FYERS_EXCHANGES[`${toNumber(row.exchange)}:${toNumber(row.segment)}`];
+  if (mapped) {
+    return mapped;
+  }
+  return normalizeExchange(String(row.symbol ?? '').split(':')[0]);
+}
+
+/**
+ * Convert a Fyers symbol (NSE:SBIN-EQ) to the OpenAlgo symbol (SBIN)
+ */
+export function normalizeFyersSymbol(symbol: unknown): string {
+  const standard = String(symbol ?? '');
+  const separator = standard.indexOf(':');
+  return (separator >= 0 ? standard.slice(separator + 1) : standard).replace(/-(EQ|BE|INDEX)$/, '');
+}
+
+function normalizeFyersSide(side: unknown): Action {
+  return toNumber(side) === -1 ? 'SELL' : 'BUY';
+}
+
+function normalizeFyersPriceType(type: unknown): PriceType {
+  const mapping: Record<number, PriceType> = {
+    1: 'LIMIT',
+    2: 'MARKET',
+    3: 'SL-M',
+    4: 'SL',
+  };
+  return mapping[toNumber(type)] || 'MARKET';
+}
+
+/**
+ * /orders ({ orderBook }) → OpenAlgo order book
+ */
+export function mapFyersOrderbook(raw: unknown): OrderBookData {
+  const orderBook = (raw as { orderBook?: unknown } | undefined)?.orderBook;
+  const orders = bookRows(orderBook).map((o) => {
+    const status = normalizeFyersStatus(o.status, o.type);
+    const tradedPrice = toNumber(o.tradedPrice);
+    return {
+      symbol: normalizeFyersSymbol(o.symbol),
+      exchange: normalizeFyersExchange(o),
+      action: normalizeFyersSide(o.side),
+      quantity: toNumber(o.qty),
+      price: status === 'complete' && tradedPrice > 0 ? tradedPrice : toNumber(o.limitPrice),
+      trigger_price: toNumber(o.stopPrice),
+      pricetype: normalizeFyersPriceType(o.type),
+      product: normalizeFyersProduct(o.productType),
+      orderid: String(o.id ?? ''),
+      order_status: status,
+      timestamp: String(o.orderDateTime ?? ''),
+    };
+  });
+  return buildOrderBookData(orders);
+}
+
+/**
+ * /tradebook ({ tradeBook }) → OpenAlgo trade book
+ */
+export function mapFyersTradebook(raw: unknown): TradeBookItem[] {
+  const tradeBook = (raw as { tradeBook?: unknown } | undefined)?.tradeBook;
+  return bookRows(tradeBook).map((t) => {
+    const quantity = toNumber(t.tradedQty);
+    const averagePrice = toNumber(t.tradePrice);
+    return {
+      symbol: normalizeFyersSymbol(t.symbol),
+      exchange: normalizeFyersExchange(t),
+      product: normalizeFyersProduct(t.productType),
+      action: normalizeFyersSide(t.side),
+      quantity,
+      average_price: averagePrice,
+      trade_value: round2(toNumber(t.tradeValue) || quantity * averagePrice),
+      orderid: String(t.orderNumber ?? t.orderNo ?? ''),
+      timestamp: String(t.orderDateTime ?? ''),
+    };
+  });
+}
+
+/**
+ * /positions ({ netPositions }) → OpenAlgo position book
+ */
+export function mapFyersPositions(raw: unknown): PositionBookItem[] {
+  const netPositions = (raw as { netPositions?: unknown } | undefined)?.netPositions;
+  return bookRows(netPositions).map((p) => ({
+    symbol: normalizeFyersSymbol(p.symbol),
+    exchange: normalizeFyersExchange(p),
+    product: normalizeFyersProduct(p.productType),
+    quantity: toNumber(p.netQty),
+    average_price: toNumber(p.netAvg),
+    ltp: toNumber(p.ltp),
+    pnl: round2(toNumber(p.pl)),
+  }));
+}
+
+/**
+ * /holdings ({ holdings }) → OpenAlgo holdings
+ */
+export function mapFyersHoldings(raw: unknown): HoldingsData {
+  const holdings = (raw as { holdings?: unknown } | undefined)?.holdings;
+  return buildHoldingsData(
+    bookRows(holdings).map((h) => ({
+      symbol: normalizeFyersSymbol(h.symbol),
+      exchange: normalizeFyersExchange(h),
+      product: 'CNC',
+      quantity: toNumber(h.quantity),
+      average_price: toNumber(h.costPrice),
+      ltp: toNumber(h.ltp),
+      pnl: h.pl === undefined ? undefined : toNumber(h.pl),
+    }))
+  );
+}
+
+/**
+ * /funds ({ fund_limit: [{ title, equityAmount }] }) → OpenAlgo funds
+ * Fyers funds carry no unrealised P&L, so it is taken from the positions overall block
+ */
+export function mapFyersFunds(raw: unknown, positionsRaw?: unknown): FundsData {
+  const limits = bookRows((raw as { fund_limit?: unknown } | undefined)?.fund_limit);
+  const amount = (title: string) =>
+    round2(toNumber(limits.find((l) => String(l.title ?? '').toLowerCase() === title)?.equityAmount));
+  const overall = (positionsRaw as { overall?: Record<string, unknown> } | undefined)?.overall;
+
+  return {
+    availablecash: amount('available balance'),
+    collateral: amount('collaterals'),
+    m2munrealized: round2(toNumber(overall?.pl_unrealized)),
+    m2mrealized: amount('realized profit and loss'),
+    utiliseddebits: amount('utilized amount'),
+    utilisedspan: 0,
+    utilisedoptionpremium: 0,
+    utilisedholdingsales: 0,
+    utilisedexposure: 0,
+    utilisedturnover: 0,
+    utilisedpayout: 0,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Broker Adapter Registry
+ * Add a new broker by writing one adapter file and registering it here
+ */
+
+import { BrokerAdapter } from './types';
+import { fail } from './shared';
+import { zerodhaAdapter } from './zerodhaAdapter';
+import { angelAdapter } from './angelAdapter';
+import { fyersAdapter } from './fyersAdapter';
+import { dhanAdapter } from './dhanAdapter';
+import { upstoxAdapter } from './upstoxAdapter';
+import { paperAdapter } from './paperAdapter';
+
+export * from './types';
+
+const ADAPTERS: Record<string, BrokerAdapter> = {
+  zerodha: zerodhaAdapter,
+  angel: angelAdapter,
+  fyers: fyersAdapter,
+  dhan: dhanAdapter,
+  upstox: upstoxAdapter,
+  paper: paperAdapter,
+};
+
+/**
+ * Get the adapter for a broker, or null if the broker has no adapter yet
+ */
+export function getBrokerAdapter(broker: string): BrokerAdapter | null {
+  return ADAPTERS[broker] || null;
+}
+
+/**
+ * OpenAlgo error result for brokers without an adapter
+ */
+export function unsupportedBrokerResult(broker: string) {
+  return fail(`Broker '${broker}' is not yet supported`, 400);
+}
@@ -0,0 +1,138 @@
+/**
+ * Paper Trading Broker Adapter
+ * Wraps lib/paperClient; books are already in OpenAlgo format
+ */
+
+import {
+  placePaperOrder,
+  modifyPaperOrder,
+  cancelPaperOrder,
+  cancelAllPaperOrders,
+  closePaperPosition,
+  getPaperOrderbook,
+  getPaperTradebook,
+  getPaperPositions,
+  getPaperHoldings,
+  getPaperFunds,
+  getPaperLtp,
+} from '@/lib/paperClient';
+import { notifyOrderPlaced } from '@/lib/orderEventHub';
+import { BrokerAdapter, BrokerResult } from './types';
+import { ok, fail, BrokerErrorBody, depthLevels } from './shared';
+import { buildOrderBookData } from './books';
+
+/**
+ * Run a paper call, turning thrown validation errors into 400 results
+ */
+async function paperCall<T>(call: () => Promise<BrokerResult<T | BrokerErrorBody>>): Promise<BrokerResult<T | BrokerErrorBody>> {
+  try {
+    return await call();
+  } catch (error: any) {
+    console.error('[PAPER-ADAPTER] Error:', error.message);
+    return fail(error.message || 'Paper trading request failed');
+  }
+}
+
+export const paperAdapter: BrokerAdapter = {
+  id: 'paper',
+
+  placeOrder: (userId, order) =>
+    paperCall(async () => {
+      const placed = await placePaperOrder(userId, order);
+      if (placed.status === 'rejected') {
+        return fail(placed.rejection_reason || 'Order rejected');
+      }
+      await notifyOrderPlaced(userId, 'paper', placed.orderid, order);
+      return ok({ status: 'success' as const, orderid: placed.orderid });
+    }),
+
+  modifyOrder: (userId, order) =>
+    paperCall(async () => {
+      const modified = await modifyPaperOrder(userId, order.orderid, {
+        quantity: order.quantity,
+        pricetype: order.pricetype,
+        price: order.price,
+        trigger_price: order.trigger_price,
+      });
+      return ok({ status: 'success' as const, orderid: modified.orderid });
+    }),
+
+  cancelOrder: (userId, orderid) =>
+    paperCall(async () => {
+      await cancelPaperOrder(userId, orderid);
+      return ok({ status: 'success' as const, orderid });
+    }),
+
+  cancelAllOrders: (userId) =>
+    paperCall(async () => {
+      const canceled = await cancelAllPaperOrders(userId);
+      return ok({
+        status: 'success' as const,
+        message: `Cancelled ${canceled.length} orders`,
+        canceled_orders: canceled,
+        failed_cancellations: [],
+      });
+    }),
+
+  orderbook: (userId) => paperCall(async () => ok({ status: 'success' as const, data: buildOrderBookData(await getPaperOrderbook(userId)) })),
+
+  tradebook: (userId) => paperCall(async () => ok({ status: 'success' as const, data: await getPaperTradebook(userId) })),
+
+  positions: (userId) => paperCall(async () => ok({ status: 'success' as const, data: await getPaperPositions(userId) })),
+
+  holdings: (userId) => paperCall(async () => ok({ status: 'success' as const, data: await getPaperHoldings(userId) })),
+
+  funds: (userId) => paperCall(async () => ok({ status: 'success' as const, data: await getPaperFunds(userId) })),
+
+  closePosition: (userId, symbol, exchange, product) =>
+    paperCall(async () => {
+      const order = await closePaperPosition(userId, symbol, exchange, product);
+      if (!order) {
+        return ok({ status: 'success' as const, message: 'No open position to close' });
+      }
+      if (order.status === 'rejected') {
+        return fail(order.rejection_reason || 'Close order rejected');
+      }
+      return ok({ status: 'success' as const, orderid: order.orderid, message: 'Position closed successfully' });
+    }),
+
+  quotes: (userId, symbol, exchange) =>
+    paperCall(async () => {
+      // Paper quotes carry the fill price only
+      const ltp = await getPaperLtp(userId, symbol, exchange);
+      if (!ltp) {
+        return fail(`No price available for ${exchange}:${symbol}`, 404);
+      }
+      return ok({
+        status: 'success' as const,
+        data: { ask: ltp, bid: ltp, high: 0, low: 0, ltp, open: 0, prev_close: 0, volume: 0, oi: 0 },
+      });
+    }),
+
+  depth: (userId, symbol, exchange) =>
+    paperCall(async () => {
+      // No order book in paper trading: both sides quote the fill price
+      const ltp = await getPaperLtp(userId, symbol, exchange);
+      if (!ltp) {
+        return fail(`No price available for ${exchange}:${symbol}`, 404);
+      }
+      const levels = depthLevels([{ price: ltp }]);
+      return ok({
+        status: 'success' as const,
+        data: {
+          asks: levels,
+          bids: levels,
+          high: 0,
+          low: 0,
+          ltp,
+          ltq: 0,
+          open: 0,
+          prev_close: 0,
+          volume: 0,
+          oi: 0,
+          totalbuyqty: 0,
+          totalsellqty: 0,
+        },
+      });
+    }),
+};
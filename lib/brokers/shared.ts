@@ -0,0 +1,134 @@
+/**
+ * Shared Broker Adapter Helpers
+ * Credential resolution, result builders, depth levels and order bookkeeping used by every adapter
+ */
+
+import { adminDb } from '@/lib/firebaseAdmin';
+import { getCachedBrokerConfig } from '@/lib/brokerConfigUtils';
+import { decryptData } from '@/lib/encryptionUtils';
+import { notifyOrderPlaced } from '@/lib/orderEventHub';
+import { DepthLevel } from '@/lib/types/openalgo';
+import { AdapterOrder, BrokerResult } from './types';
+
+export interface BrokerCredentials {
+  accessToken: string;
+  apiKey: string;                // Decrypted API key / client ID ('' if not stored)
+  appId?: string;                // Fyers app ID when stored separately
+}
+
+export type BrokerErrorBody = { status: 'error'; message: string };
+
+/**
+ * Build a successful adapter result
+ */
+export function ok<T>(data: T): BrokerResult<T> {
+  return { data, status: 200 };
+}
+
+/**
+ * Build a failed adapter result in OpenAlgo error format
+ */
+export function fail(message: string, status: number = 400): BrokerResult<BrokerErrorBody> {
+  return { data: { status: 'error', message }, status };
+}
+
+const DEPTH_LEVELS = 5;
+
+/**
+ * A broker's order book side as OpenAlgo's best five levels, zero-filled when the book is thinner
+ */
+export function depthLevels(levels: { price?: number; quantity?: number }[] | undefined): DepthLevel[] {
+  return Array.from({ length: DEPTH_LEVELS }, (_, i) => ({
+    price: levels?.[i]?.price || 0,
+    quantity: levels?.[i]?.quantity || 0,
+  }));
+}
+
+/**
+ * Load and decrypt a user's broker credentials
+ * Returns an OpenAlgo error result (404 not configured, 401 not authenticated) on failure
+ */
+export async function resolveBrokerCredentials(
+  userId: string,
+  broker: string,
+  displayName: string
+): Promise<{ success: true; credentials: BrokerCredentials } | { success: false; result: BrokerResult<BrokerErrorBody> }> {
+  const configData = await getCachedBrokerConfig(userId, broker);
+
+  if (!configData) {
+    return { success: false, result: fail(`${displayName} not configured for this user`, 404) };
+  }
+
+  if (!configData.accessToken || configData.status !== 'active') {
+    return { success: false, result: fail(`${displayName} not authenticated. Please authenticate first.`, 401) };
+  }
+
+  try {
+    return {
+      success: true,
+      credentials: {
+        accessToken: decryptData(configData.accessToken),
+        apiKey: configData.apiKey ? decryptData(configData.apiKey) : '',
+        appId: configData.appId,
+      },
+    };
+  } catch (error) {
+    console.error(`Failed to decrypt ${displayName} credentials:`, error);
+    return { success: false, result: fail('Failed to decrypt credentials. Please re-authenticate.', 401) };
+  }
+}
+
+/**
+ * Resolve credentials, then run a broker call
+ * Errors thrown by the broker client become 400 OpenAlgo error results
+ */
+export async function withCredentials<T>(
+  userId: string,
+  broker: string,
+  displayName: string,
+  call: (credentials: BrokerCredentials) => Promise<BrokerResult<T | BrokerErrorBody>>
+): Promise<BrokerResult<T | BrokerErrorBody>> {
+  const resolved = await resolveBrokerCredentials(userId, broker, displayName);
+  if (!resolved.success) {
+    return resolved.result;
+  }
+
+  try {
+    return await call(resolved.credentials);
+  } catch (error: any) {
+    console.error(`[${broker.toUpperCase()}-ADAPTER] Error:`, error.message);
+    return fail(error.message || `${displayName} request failed`);
+  }
+}
+
+/**
+ * Store a placed order under users/{userId}/orders using the standardized field names
+ * and publish its 'placed' order event
+ */
+export async function recordPlacedOrder(
+  userId: string,
+  broker: string,
+  orderid: string,
+  order: AdapterOrder,
+  brokerResponse: unknown
+): Promise<void> {
+  const orderDoc: Record<string, unknown> = {
+    order_id: orderid,
+    symbol: order.symbol,
+    exchange: order.exchange,
+    action: order.action,
+    quantity: order.quantity,
+    product: order.product || 'MIS',
+    pricetype: order.pricetype || 'MARKET',
+    broker,
+    status: 'pending',
+    createdAt: new Date(),
+    brokerResponse,
+  };
+  if (order.strategy) {
+    orderDoc.strategy = order.strategy;
+  }
+
+  await adminDb.collection('users').doc(userId).collection('orders').doc(orderid).set(orderDoc);
+  await notifyOrderPlaced(userId, broker, orderid, order);
+}
@@ -0,0 +1,86 @@
+/**
+ * Broker Adapter Types
+ * One adapter per broker maps OpenAlgo requests onto that broker's client
+ */
+
+import {
+  Action,
+  ApiResponse,
+  DepthData,
+  Exchange,
+  FundsData,
+  HoldingsData,
+  OrderBookData,
+  OrderResponse,
+  PositionBookItem,
+  PriceType,
+  ProductType,
+  QuoteData,
+  TradeBookItem,
+} from '@/lib/types/openalgo';
+
+/**
+ * Adapter call result: OpenAlgo response body plus the HTTP status to return
+ * (same { data, status } contract as callInternalBrokerEndpoint)
+ */
+export interface BrokerResult<T> {
+  data: T;
+  status: number;
+}
+
+/**
+ * OpenAlgo order fields accepted by placeOrder (request body minus apikey)
+ */
+export interface AdapterOrder {
+  symbol: string;
+  exchange: Exchange;
+  action: Action;
+  quantity: number;
+  product?: ProductType;
+  pricetype?: PriceType;
+  price?: number;
+  trigger_price?: number;
+  disclosed_quantity?: number;
+  token?: string;                // Broker instrument token (Angel: symboltoken, Dhan: securityId, Upstox: instrument key)
+  strategy?: string;
+}
+
+/**
+ * OpenAlgo fields accepted by modifyOrder
+ */
+export interface AdapterModifyOrder extends Partial<AdapterOrder> {
+  orderid: string;
+  quantity: number;
+  price: number;
+}
+
+export interface CancelAllOrdersResponse extends OrderResponse {
+  canceled_orders?: string[];
+  failed_cancellations?: string[];
+}
+
+export interface BrokerAdapter {
+  readonly id: string;
+
+  placeOrder(userId: string, order: AdapterOrder): Promise<BrokerResult<OrderResponse>>;
+  modifyOrder(userId: string, order: AdapterModifyOrder): Promise<BrokerResult<OrderResponse>>;
+  cancelOrder(userId: string, orderid: string): Promise<BrokerResult<OrderResponse>>;
+  cancelAllOrders(userId: string): Promise<BrokerResult<CancelAllOrdersResponse>>;
+
+  // Books are normalized to OpenAlgo schemas by the broker's mapper
+  orderbook(userId: string): Promise<BrokerResult<ApiResponse<OrderBookData>>>;
+  tradebook(userId: string): Promise<BrokerResult<ApiResponse<TradeBookItem[]>>>;
+  positions(userId: string): Promise<BrokerResult<ApiResponse<PositionBookItem[]>>>;
+  holdings(userId: string): Promise<BrokerResult<ApiResponse<HoldingsData>>>;
+  funds(userId: string): Promise<BrokerResult<ApiResponse<FundsData>>>;
+
+  closePosition(
+    userId: string,
+    symbol: string,
+    exchange: Exchange,
+    product: ProductType
+  ): Promise<BrokerResult<OrderResponse>>;
+
+  quotes(userId: string, symbol: string, exchange: Exchange): Promise<BrokerResult<ApiResponse<QuoteData>>>;
+  depth(userId: string, symbol: string, exchange: Exchange): Promise<BrokerResult<ApiResponse<DepthData>>>;
+}
@@ -0,0 +1,174 @@
+/**
+ * Upstox Broker Adapter
+ * Wraps lib/upstoxClient (orders and quotes address instruments by instrument key)
+ * Books are normalized by upstoxMapper
+ */
+
+import {
+  placeOrder,
+  modifyOrder,
+  cancelOrder,
+  cancelAllOrders,
+  getOrderBook,
+  getTradeBook,
+  getPositions,
+  getHoldings,
+  getFunds,
+  getMarketQuote,
+  getInstrumentKey,
+  closePosition,
+  transformOrderData,
+} from '@/lib/upstoxClient';
+import { BrokerAdapter } from './types';
+import {
+  mapUpstoxOrderbook,
+  mapUpstoxTradebook,
+  mapUpstoxPositions,
+  mapUpstoxHoldings,
+  mapUpstoxFunds,
+} from './upstoxMapper';
+import { ok, fail, withCredentials, recordPlacedOrder, depthLevels } from './shared';
+
+const BROKER = 'upstox';
+const DISPLAY_NAME = 'Upstox';
+
+// Full market quote (Upstox doesn't report the last traded quantity)
+interface UpstoxQuote {
+  last_price?: number;
+  volume?: number;
+  oi?: number;
+  total_buy_quantity?: number;
+  total_sell_quantity?: number;
+  ohlc?: { open?: number; high?: number; low?: number; close?: number };
+  depth?: { buy?: { price?: number; quantity?: number }[]; sell?: { price?: number; quantity?: number }[] };
+}
+
+export const upstoxAdapter: BrokerAdapter = {
+  id: BROKER,
+
+  placeOrder: (userId, order) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const instrumentKey = order.token || (await getInstrumentKey(order.symbol, order.exchange));
+      if (!instrumentKey) {
+        return fail(`Symbol not found: ${order.exchange}:${order.symbol}`, 404);
+      }
+
+      const result = await placeOrder(accessToken, transformOrderData(order, instrumentKey));
+      await recordPlacedOrder(userId, BROKER, result.orderid, order, result);
+      return ok({ status: 'success' as const, orderid: result.orderid });
+    }),
+
+  modifyOrder: (userId, order) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const result = await modifyOrder(accessToken, order);
+      return ok({ status: 'success' as const, orderid: result.orderid });
+    }),
+
+  cancelOrder: (userId, orderid) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const result = await cancelOrder(accessToken, orderid);
+      return ok({ status: 'success' as const, orderid: result.orderid });
+    }),
+
+  cancelAllOrders: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const { canceled, failed } = await cancelAllOrders(accessToken);
+      return ok({
+        status: 'success' as const,
+        message: `Cancelled ${canceled.length} orders, ${failed.length} failed`,
+        canceled_orders: canceled,
+        failed_cancellations: failed,
+      });
+    }),
+
+  orderbook: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapUpstoxOrderbook(await getOrderBook(accessToken)) })
+    ),
+
+  tradebook: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapUpstoxTradebook(await getTradeBook(accessToken)) })
+    ),
+
+  positions: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapUpstoxPositions(await getPositions(accessToken)) })
+    ),
+
+  holdings: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapUpstoxHoldings(await getHoldings(accessToken)) })
+    ),
+
+  funds: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const [funds, positions] = await Promise.all([getFunds(accessToken), getPositions(accessToken)]);
+      return ok({ status: 'success' as const, data: mapUpstoxFunds(funds, positions) });
+    }),
+
+  closePosition: (userId, symbol, exchange, product) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const result = await closePosition(accessToken, symbol, exchange, product);
+      return ok({ status: 'success' as const, orderid: result.orderid, message: 'Position closed successfully' });
+    }),
+
+  quotes: (userId, symbol, exchange) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const instrumentKey = await getInstrumentKey(symbol, exchange);
+      if (!instrumentKey) {
+        return fail(`Symbol not found: ${exchange}:${symbol}`, 404);
+      }
+
+      const quote = (await getMarketQuote(accessToken, instrumentKey)) as UpstoxQuote | null;
+      if (!quote) {
+        return fail(`No quote found for ${exchange}:${symbol}`, 404);
+      }
+
+      return ok({
+        status: 'success' as const,
+        data: {
+          ask: quote.depth?.sell?.[0]?.price || 0,
+          bid: quote.depth?.buy?.[0]?.price || 0,
+          high: quote.ohlc?.high || 0,
+          low: quote.ohlc?.low || 0,
+          ltp: quote.last_price || 0,
+          open: quote.ohlc?.open || 0,
+          prev_close: quote.ohlc?.close || 0,
+          volume: quote.volume || 0,
+          oi: quote.oi || 0,
+        },
+      });
+    }),
+
+  depth: (userId, symbol, exchange) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const instrumentKey = await getInstrumentKey(symbol, exchange);
+      if (!instrumentKey) {
+        return fail(`Symbol not found: ${exchange}:${symbol}`, 404);
+      }
+
+      const quote = (await getMarketQuote(accessToken, instrumentKey)) as UpstoxQuote | null;
+      if (!quote) {
+        return fail(`No quote found for ${exchange}:${symbol}`, 404);
+      }
+
+      return ok({
+        status: 'success' as const,
+        data: {
+          asks: depthLevels(quote.depth?.sell),
+          bids: depthLevels(quote.depth?.buy),
+          high: quote.ohlc?.high || 0,
+          low: quote.ohlc?.low || 0,
+          ltp: quote.last_price || 0,
+          ltq: 0,
+          open: quote.ohlc?.open || 0,
+          prev_close: quote.ohlc?.close || 0,
+          volume: quote.volume || 0,
+          oi: quote.oi || 0,
+          totalbuyqty: quote.total_buy_quantity || 0,
+          totalsellqty: quote.total_sell_quantity || 0,
+        },
+      });
+    }),
+};
@@ -0,0 +1,189 @@
+/**
+ * Upstox Response Mapper
+ * Converts Upstox v2 order/trade/position/holding/fund payloads to OpenAlgo books
+ * Upstox has two products: I (intraday) and D (delivery, or carry forward on derivatives)
+ */
+
+import {
+  Exchange,
+  FundsData,
+  HoldingsData,
+  OrderBookData,
+  OrderStatus,
+  PositionBookItem,
+  PriceType,
+  ProductType,
+  TradeBookItem,
+} from '@/lib/types/openalgo';
+import {
+  BookRow,
+  bookRows,
+  buildHoldingsData,
+  buildOrderBookData,
+  normalizeAction,
+  normalizeExchange,
+  round2,
+  toNumber,
+} from './books';
+
+const DERIVATIVE_EXCHANGES: Exchange[] = ['NFO', 'BFO', 'MCX', 'CDS', 'BCD'];
+
+/**
+ * Map an Upstox order status to OpenAlgo
+ * Upstox reports lowercase states; transient ones (open pending, validation pending,
+ * modify pending, after market order req received...) are open
+ */
+export function normalizeUpstoxStatus(status: unknown): OrderStatus {
+  switch (String(status ?? '').toLowerCase()) {
+    case 'complete':
+      return 'complete';
+    case 'rejected':
+      return 'rejected';
+    case 'cancelled':
+      return 'cancelled';
+    case 'trigger pending':
+      return 'trigger pending';
+    default:
+      return 'open';
+  }
+}
+
+/**
+ * Map an Upstox exchange to OpenAlgo (NCD is the NSE currency segment)
+ */
+export function normalizeUpstoxExchange(exchange: unknown): Exchange {
+  return String(exchange ?? '').toUpperCase() === 'NCD' ? 'CDS' : normalizeExchange(exchange);
+}
+
+/**
+ * Map an Upstox product to OpenAlgo
+ * D is CNC on cash segments and NRML on derivative segments
+ */
+export function normalizeUpstoxProduct(product: unknown, exchange: Exchange): ProductType {
+  switch (String(product ?? '').toUpperCase()) {
+    case 'D':
+      return DERIVATIVE_EXCHANGES.includes(exchange) ? 'NRML' : 'CNC';
+    case 'MTF':
+      return 'CNC';
+    default:
+      return 'MIS';
+  }
+}
+
+/**
+ * Read the trading symbol of an Upstox row (NSE equities may carry a -EQ suffix)
+ */
+export function normalizeUpstoxSymbol(row: BookRow): string {
+  return String(row.trading_symbol ?? row.tradingsymbol ?? '').replace(/-(EQ|BE)$/, '');
+}
+
+function normalizeUpstoxPriceType(orderType: unknown): PriceType {
+  const value = String(orderType ?? '').toUpperCase();
+  return value === 'LIMIT' || value === 'SL' || value === 'SL-M' ? value : 'MARKET';
+}
+
+/**
+ * /order/retrieve-all → OpenAlgo order book
+ */
+export function mapUpstoxOrderbook(raw: unknown): OrderBookData {
+  const orders = bookRows(raw).map((o) => {
+    const exchange = normalizeUpstoxExchange(o.exchange);
+    const status = normalizeUpstoxStatus(o.status);
+    const averagePrice = toNumber(o.average_price);
+    return {
+      symbol: normalizeUpstoxSymbol(o),
+      exchange,
+      action: normalizeAction(o.transaction_type),
+      quantity: toNumber(o.quantity),
+      price: status === 'complete' && averagePrice > 0 ? averagePrice : toNumber(o.price),
+      trigger_price: toNumber(o.trigger_price),
+      pricetype: normalizeUpstoxPriceType(o.order_type),
+      product: normalizeUpstoxProduct(o.product, exchange),
+      orderid: String(o.order_id ?? ''),
+      order_status: status,
+      timestamp: String(o.order_timestamp ?? ''),
+    };
+  });
+  return buildOrderBookData(orders);
+}
+
+/**
+ * /order/trades/get-trades-for-day → OpenAlgo trade book
+ */
+export function mapUpstoxTradebook(raw: unknown): TradeBookItem[] {
+  return bookRows(raw).map((t) => {
+    const exchange = normalizeUpstoxExchange(t.exchange);
+    const quantity = toNumber(t.quantity);
+    const averagePrice = toNumber(t.average_price);
+    return {
+      symbol: normalizeUpstoxSymbol(t),
+      exchange,
+      product: normalizeUpstoxProduct(t.product, exchange),
+      action: normalizeAction(t.transaction_type),
+      quantity,
+      average_price: averagePrice,
+      trade_value: round2(quantity * averagePrice),
+      orderid: String(t.order_id ?? ''),
+      timestamp: String(t.exchange_timestamp ?? t.order_timestamp ?? ''),
+    };
+  });
+}
+
+/**
+ * /portfolio/short-term-positions → OpenAlgo position book
+ */
+export function mapUpstoxPositions(raw: unknown): PositionBookItem[] {
+  return bookRows(raw).map((p) => {
+    const exchange = normalizeUpstoxExchange(p.exchange);
+    return {
+      symbol: normalizeUpstoxSymbol(p),
+      exchange,
+      product: normalizeUpstoxProduct(p.product, exchange),
+      quantity: toNumber(p.quantity),
+      average_price: toNumber(p.average_price),
+      ltp: toNumber(p.last_price),
+      pnl: round2(toNumber(p.pnl)),
+    };
+  });
+}
+
+/**
+ * /portfolio/long-term-holdings → OpenAlgo holdings (T1 quantity counts as held)
+ */
+export function mapUpstoxHoldings(raw: unknown): HoldingsData {
+  return buildHoldingsData(
+    bookRows(raw).map((h) => ({
+      symbol: normalizeUpstoxSymbol(h),
+      exchange: normalizeUpstoxExchange(h.exchange),
+      product: 'CNC',
+      quantity: toNumber(h.quantity) + toNumber(h.t1_quantity),
+      average_price: toNumber(h.average_price),
+      ltp: toNumber(h.last_price),
+      pnl: h.pnl === undefined ? undefined : toNumber(h.pnl),
+    }))
+  );
+}
+
+/**
+ * /user/get-funds-and-margin ({ equity, commodity }) → OpenAlgo funds (equity segment)
+ * Upstox margins carry no M2M, so realised/unrealised P&L is summed from positions
+ */
+export function mapUpstoxFunds(raw: unknown, positionsRaw?: unknown): FundsData {
+  const equity = ((raw as { equity?: unknown } | undefined)?.equity || {}) as Record<string, unknown>;
+  const positions = bookRows(positionsRaw);
+  const sum = (field: string) => round2(positions.reduce((total, p) => total + toNumber(p[field]), 0));
+
+  return {
+    availablecash: round2(toNumber(equity.available_margin)),
+    collateral: 0,
+    m2munrealized: sum('unrealised'),
+    m2mrealized: sum('realised'),
+    utiliseddebits: round2(toNumber(equity.used_margin)),
+    utilisedspan: round2(toNumber(equity.span_margin)),
+    utilisedoptionpremium: 0,
+    utilisedholdingsales: 0,
+    utilisedexposure: round2(toNumber(equity.exposure_margin)),
+    utilisedturnover: 0,
+    utilisedpayout: 0,
+  };
+}
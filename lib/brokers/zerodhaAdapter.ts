@@ -0,0 +1,191 @@
+/**
+ * Zerodha (Kite) Broker Adapter
+ * Wraps lib/zerodhaClient (OpenAlgo field names map almost 1:1 onto Kite; symbols are
+ * translated to Kite tradingsymbols by the instrument master)
+ * Books are normalized by zerodhaMapper
+ */
+
+import {
+  placeOrder,
+  modifyOrder,
+  cancelOrder,
+  getOrderBook,
+  getTradeBook,
+  getPositions,
+  getHoldings,
+  getMargins,
+  getQuote,
+  closePosition,
+  transformOrderData,
+} from '@/lib/zerodhaClient';
+import { resolveBrokerInstrument } from '@/lib/instrumentMaster';
+import { BrokerAdapter } from './types';
+import {
+  mapZerodhaOrderbook,
+  mapZerodhaTradebook,
+  mapZerodhaPositions,
+  mapZerodhaHoldings,
+  mapZerodhaFunds,
+} from './zerodhaMapper';
+import { ok, fail, withCredentials, recordPlacedOrder, depthLevels } from './shared';
+
+const BROKER = 'zerodha';
+const DISPLAY_NAME = 'Zerodha';
+
+// Kite statuses for orders that can still be cancelled
+const CANCELLABLE_STATUSES = ['OPEN', 'TRIGGER PENDING', 'AMO REQ RECEIVED'];
+
+export const zerodhaAdapter: BrokerAdapter = {
+  id: BROKER,
+
+  placeOrder: (userId, order) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const { symbol } = await resolveBrokerInstrument(BROKER, order.symbol, order.exchange);
+      const result = await placeOrder(
+        accessToken,
+        transformOrderData({
+          ...order,
+          symbol,
+          product: order.product || 'MIS',
+          pricetype: order.pricetype || 'MARKET',
+        })
+      );
+      await recordPlacedOrder(userId, BROKER, result.order_id, order, result);
+      return ok({ status: 'success' as const, orderid: result.order_id });
+    }),
+
+  modifyOrder: (userId, order) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      if (!order.symbol || !order.exchange || !order.action) {
+        return fail('Missing required fields for Zerodha modify: symbol, exchange, action');
+      }
+      const { symbol } = await resolveBrokerInstrument(BROKER, order.symbol, order.exchange);
+      const result = await modifyOrder(
+        accessToken,
+        order.orderid,
+        transformOrderData({
+          symbol,
+          exchange: order.exchange,
+          action: order.action,
+          quantity: order.quantity,
+          product: order.product || 'MIS',
+          pricetype: order.pricetype || 'LIMIT',
+          price: order.price,
+          trigger_price: order.trigger_price,
+          disclosed_quantity: order.disclosed_quantity,
+        })
+      );
+      return ok({ status: 'success' as const, orderid: result.order_id });
+    }),
+
+  cancelOrder: (userId, orderid) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const result = await cancelOrder(accessToken, orderid);
+      return ok({ status: 'success' as const, orderid: result?.order_id || orderid });
+    }),
+
+  cancelAllOrders: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const orders = await getOrderBook(accessToken);
+      const pending = orders.filter((o) => CANCELLABLE_STATUSES.includes(o.status));
+
+      const results = await Promise.allSettled(
+        pending.map((o) => cancelOrder(accessToken, o.order_id))
+      );
+      const canceled = pending.filter((_, i) => results[i].status === 'fulfilled').map((o) => o.order_id);
+      const failed = pending.filter((_, i) => results[i].status === 'rejected').map((o) => o.order_id);
+
+      return ok({
+        status: 'success' as const,
+        message: `Cancelled ${canceled.length} orders, ${failed.length} failed`,
+        canceled_orders: canceled,
+        failed_cancellations: failed,
+      });
+    }),
+
+  orderbook: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapZerodhaOrderbook(await getOrderBook(accessToken)) })
+    ),
+
+  tradebook: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapZerodhaTradebook(await getTradeBook(accessToken)) })
+    ),
+
+  positions: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapZerodhaPositions(await getPositions(accessToken)) })
+    ),
+
+  holdings: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapZerodhaHoldings(await getHoldings(accessToken)) })
+    ),
+
+  funds: (userId) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) =>
+      ok({ status: 'success' as const, data: mapZerodhaFunds(await getMargins(accessToken)) })
+    ),
+
+  closePosition: (userId, symbol, exchange, product) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const kiteSymbol = (await resolveBrokerInstrument(BROKER, symbol, exchange)).symbol;
+      const result = await closePosition(accessToken, kiteSymbol, exchange, product);
+      return ok({ status: 'success' as const, orderid: result.order_id, message: 'Position closed successfully' });
+    }),
+
+  quotes: (userId, symbol, exchange) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const kite = await resolveBrokerInstrument(BROKER, symbol, exchange);
+      const instrument = `${kite.exchange}:${kite.symbol}`;
+      const quotes = await getQuote(accessToken, [instrument]);
+      const quote = quotes[instrument];
+      if (!quote) {
+        return fail(`No quote found for ${instrument}`, 404);
+      }
+
+      return ok({
+        status: 'success' as const,
+        data: {
+          ask: quote.depth?.sell?.[0]?.price || 0,
+          bid: quote.depth?.buy?.[0]?.price || 0,
+          high: quote.ohlc?.high || 0,
+          low: quote.ohlc?.low || 0,
+          ltp: quote.last_price || 0,
+          open: quote.ohlc?.open || 0,
+          prev_close: quote.ohlc?.close || 0,
+          volume: quote.volume || 0,
+          oi: quote.oi || 0,
+        },
+      });
+    }),
+
+  depth: (userId, symbol, exchange) =>
+    withCredentials(userId, BROKER, DISPLAY_NAME, async ({ accessToken }) => {
+      const kite = await resolveBrokerInstrument(BROKER, symbol, exchange);
+      const instrument = `${kite.exchange}:${kite.symbol}`;
+      const quote = (await getQuote(accessToken, [instrument]))[instrument];
+      if (!quote) {
+        return fail(`No quote found for ${instrument}`, 404);
+      }
+
+      return ok({
+        status: 'success' as const,
+        data: {
+          asks: depthLevels(quote.depth?.sell),
+          bids: depthLevels(quote.depth?.buy),
+          high: quote.ohlc?.high || 0,
+          low: quote.ohlc?.low || 0,
+          ltp: quote.last_price || 0,
+          ltq: quote.last_quantity || 0,
+          open: quote.ohlc?.open || 0,
+          prev_close: quote.ohlc?.close || 0,
+          volume: quote.volume || 0,
+          oi: quote.oi || 0,
+          totalbuyqty: quote.buy_quantity || 0,
+          totalsellqty: quote.sell_quantity || 0,
+        },
+      });
+    }),
+};
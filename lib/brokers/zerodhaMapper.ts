@@ -0,0 +1,170 @@
+/**
+ * Zerodha (Kite) Response Mapper
+ * Converts Kite order/trade/position/holding/margin payloads to OpenAlgo books
+ */
+
+import {
+  FundsData,
+  HoldingsData,
+  OrderBookData,
+  OrderStatus,
+  PositionBookItem,
+  PriceType,
+  ProductType,
+  TradeBookItem,
+} from '@/lib/types/openalgo';
+import {
+  bookRows,
+  buildHoldingsData,
+  buildOrderBookData,
+  normalizeAction,
+  normalizeExchange,
+  round2,
+  toNumber,
+} from './books';
+
+/**
+ * Map a Kite order status to OpenAlgo
+ * Kite has many transient states (OPEN PENDING, MODIFY PENDING, AMO REQ RECEIVED...); all are open
+ */
+export function normalizeZerodhaStatus(status: unknown): OrderStatus {
+  switch (String(status ?? '').toUpperCase()) {
+    case 'COMPLETE':
+      return 'complete';
+    case 'REJECTED':
+      return 'rejected';
+    case 'CANCELLED':
+      return 'cancelled';
+    case 'TRIGGER PENDING':
+      return 'trigger pending';
+    default:
+      return 'open';
+  }
+}
+
+/**
+ * Map a Kite product to OpenAlgo (MTF is delivery, CO/BO are intraday)
+ */
+export function normalizeZerodhaProduct(product: unknown): ProductType {
+  const mapping: Record<string, ProductType> = {
+    CNC: 'CNC',
+    MTF: 'CNC',
+    NRML: 'NRML',
+    MIS: 'MIS',
+    CO: 'MIS',
+    BO: 'MIS',
+  };
+  return mapping[String(product ?? '').toUpperCase()] || 'MIS';
+}
+
+function normalizeZerodhaPriceType(orderType: unknown): PriceType {
+  const value = String(orderType ?? '').toUpperCase();
+  return value === 'LIMIT' || value === 'SL' || value === 'SL-M' ? value : 'MARKET';
+}
+
+interface KiteEquityMargins {
+  net?: unknown;
+  available?: Record<string, unknown>;
+  utilised?: Record<string, unknown>;
+}
+
+/**
+ * Kite /orders → OpenAlgo order book
+ */
+export function mapZerodhaOrderbook(raw: unknown): OrderBookData {
+  const orders = bookRows(raw).map((o) => {
+    const status = normalizeZerodhaStatus(o.status);
+    const averagePrice = toNumber(o.average_price);
+    return {
+      symbol: String(o.tradingsymbol ?? ''),
+      exchange: normalizeExchange(o.exchange),
+      action: normalizeAction(o.transaction_type),
+      quantity: toNumber(o.quantity),
+      price: status === 'complete' && averagePrice > 0 ? averagePrice : toNumber(o.price),
+      trigger_price: toNumber(o.trigger_price),
+      pricetype: normalizeZerodhaPriceType(o.order_type),
+      product: normalizeZerodhaProduct(o.product),
+      orderid: String(o.order_id ?? ''),
+      order_status: status,
+      timestamp: String(o.order_timestamp ?? ''),
+    };
+  });
+  return buildOrderBookData(orders);
+}
+
+/**
+ * Kite /trades → OpenAlgo trade book
+ */
+export function mapZerodhaTradebook(raw: unknown): TradeBookItem[] {
+  return bookRows(raw).map((t) => {
+    const quantity = toNumber(t.quantity);
+    const averagePrice = toNumber(t.average_price);
+    return {
+      symbol: String(t.tradingsymbol ?? ''),
+      exchange: normalizeExchange(t.exchange),
+      product: normalizeZerodhaProduct(t.product),
+      action: normalizeAction(t.transaction_type),
+      quantity,
+      average_price: averagePrice,
+      trade_value: round2(quantity * averagePrice),
+      orderid: String(t.order_id ?? ''),
+      timestamp: String(t.fill_timestamp ?? t.exchange_timestamp ?? t.order_timestamp ?? ''),
+    };
+  });
+}
+
+/**
+ * Kite /portfolio/positions ({ net, day }) → OpenAlgo position book (net positions)
+ */
+export function mapZerodhaPositions(raw: unknown): PositionBookItem[] {
+  const net = (raw as { net?: unknown } | undefined)?.net;
+  return bookRows(net).map((p) => ({
+    symbol: String(p.tradingsymbol ?? ''),
+    exchange: normalizeExchange(p.exchange),
+    product: normalizeZerodhaProduct(p.product),
+    quantity: toNumber(p.quantity),
+    average_price: toNumber(p.average_price),
+    ltp: toNumber(p.last_price),
+    pnl: round2(toNumber(p.pnl)),
+  }));
+}
+
+/**
+ * Kite /portfolio/holdings → OpenAlgo holdings (T1 quantity counts as held)
+ */
+export function mapZerodhaHoldings(raw: unknown): HoldingsData {
+  return buildHoldingsData(
+    bookRows(raw).map((h) => ({
+      symbol: String(h.tradingsymbol ?? ''),
+      exchange: normalizeExchange(h.exchange),
+      product: 'CNC',
+      quantity: toNumber(h.quantity) + toNumber(h.t1_quantity),
+      average_price: toNumber(h.average_price),
+      ltp: toNumber(h.last_price),
+      pnl: h.pnl === undefined ? undefined : toNumber(h.pnl),
+    }))
+  );
+}
+
+/**
+ * Kite /user/margins → OpenAlgo funds (equity segment)
+ */
+export function mapZerodhaFunds(raw: unknown): FundsData {
+  const equity = (raw as { equity?: KiteEquityMargins } | undefined)?.equity || {};
+  const available = equity.available || {};
+  const utilised = equity.utilised || {};
+
+  return {
+    availablecash: round2(toNumber(equity.net)),
+    collateral: round2(toNumber(available.collateral)),
+    m2munrealized: round2(toNumber(utilised.m2m_unrealised)),
+    m2mrealized: round2(toNumber(utilised.m2m_realised)),
+    utiliseddebits: round2(toNumber(utilised.debits)),
+    utilisedspan: round2(toNumber(utilised.span)),
+    utilisedoptionpremium: round2(toNumber(utilised.option_premium)),
+    utilisedholdingsales: round2(toNumber(utilised.holding_sales)),
+    utilisedexposure: round2(toNumber(utilised.exposure)),
+    utilisedturnover: round2(toNumber(utilised.turnover)),
+    utilisedpayout: round2(toNumber(utilised.payout)),
+  };
+}
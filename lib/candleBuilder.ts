@@ -0,0 +1,204 @@
+/**
+ * Tick-to-Candle Aggregation
+ * Builds OHLCV candles for every chart interval from one instrument's ticks
+ *
+ * Volume comes from the change in the tick's cumulative day volume (volume_traded),
+ * not from the number of ticks. The first candle of each interval after the builder
+ * starts is marked partial: ticks from before the start of the bucket were missed
+ */
+
+import { TickData } from './websocket/kiteTickerProtocol';
+import { sessionBucketEnd, sessionBucketStart } from './timeframes';
+import { CANDLE_INTERVALS, Candle, CandleInterval, CandleUpdate } from './types/candles';
+
+// NSE cash/F&O session in IST, used to tell trading-hour gaps from overnight ones
+const IST_OFFSET_SECONDS = 5.5 * 3600;
+const SESSION_OPEN_SECONDS = 9 * 3600 + 15 * 60;
+const SESSION_CLOSE_SECONDS = 15 * 3600 + 30 * 60;
+
+export interface CandleGap {
+  from: number;                  // First missing candle start, Unix seconds
+  to: number;                    // Last missing candle start
+}
+
+interface FormingCandle {
+  candle: Candle;
+  partial: boolean;
+}
+
+export function isCandleInterval(value: unknown): value is CandleInterval {
+  return typeof value === 'string' && (CANDLE_INTERVALS as string[]).includes(value);
+}
+
+export function intervalSeconds(interval: CandleInterval): number {
+  return interval === 'minute' ? 60 : parseInt(interval, 10) * 60;
+}
+
+/**
+ * Start of the candle containing a time (Unix seconds), aligned to the 09:15 IST session open
+ */
+export function candleStart(time: number, interval: CandleInterval): number {
+  return sessionBucketStart(time, intervalSeconds(interval));
+}
+
+/**
+ * When a candle ends: after its interval, or at the session close for the day's last candle
+ */
+export function candleEnd(start: number, interval: CandleInterval): number {
+  return sessionBucketEnd(start, intervalSeconds(interval));
+}
+
+/**
+ * Volume traded between two cumulative day-volume readings
+ * A drop means the exchange reset the day's volume, so everything since the reset counts
+ */
+export function volumeDelta(previous: number | undefined, current: number | undefined): number {
+  if (current === undefined || previous === undefined) {
+    return 0;
+  }
+  return current >= previous ? current - previous : current;
+}
+
+export class CandleBuilder {
+  private readonly intervals: CandleInterval[];
+  private readonly forming = new Map<CandleInterval, FormingCandle>();
+  private readonly started = new Set<CandleInterval>();
+  private readonly closedThrough = new Map<CandleInterval, number>();   // start of the last completed candle
+  private lastVolume: number | undefined;
+
+  constructor(intervals: CandleInterval[] = CANDLE_INTERVALS) {
+    this.intervals = intervals;
+  }
+
+  /**
+   * Apply a tick; returns the forming candles it changed and the candles it completed
+   * Partial candles are completed too, flagged so callers can skip persisting them
+   */
+  applyTick(tick: TickData, now: Date = new Date()): { updated: CandleUpdate[]; completed: CandleUpdate[] } {
+    const time = Math.floor((tick.exchange_timestamp || now).getTime() / 1000);
+    const volume = volumeDelta(this.lastVolume, tick.volume_traded);
+    if (tick.volume_traded !== undefined) {
+      this.lastVolume = tick.volume_traded;
+    }
+
+    const updated: CandleUpdate[] = [];
+    const completed: CandleUpdate[] = [];
+    for (const interval of this.intervals) {
+      const start = candleStart(time, interval);
+      // Ticks for a candle already completed (e.g. after the session close) are dropped
+      if (start <= (this.closedThrough.get(interval) ?? -Infinity)) continue;
+      let current = this.forming.get(interval);
+
+      if (current && start > current.candle.time) {
+        completed.push(this.complete(interval, current));
+        current = undefined;
+      }
+
+      if (!current) {
+        current = {
+          candle: { time: start, open: tick.last_price, high: tick.last_price, low: tick.last_price, close: tick.last_price, volume },
+          partial: !this.started.has(interval),
+        };
+        this.started.add(interval);
+        this.forming.set(interval, current);
+      } else {
+        // Late ticks (exchange time behind the forming candle) still belong to it
+        const candle = current.candle;
+        candle.high = Math.max(candle.high, tick.last_price);
+        candle.low = Math.min(candle.low, tick.last_price);
+        candle.close = tick.last_price;
+        candle.volume += volume;
+      }
+      updated.push({ interval, candle: { ...current.candle }, complete: false, partial: current.partial });
+    }
+    return { updated, completed };
+  }
+
+  /**
+   * Complete forming candles whose interval has ended (quiet instruments get no next tick)
+   */
+  closeElapsed(now: Date = new Date()): CandleUpdate[] {
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    const completed: CandleUpdate[] = [];
+    for (const [interval, current] of this.forming) {
+      if (candleEnd(current.candle.time, interval) <= nowSeconds) {
+        completed.push(this.complete(interval, current));
+        this.forming.delete(interval);
+      }
+    }
+    return completed;
+  }
+
+  private complete(interval: CandleInterval, current: FormingCandle): CandleUpdate {
+    this.closedThrough.set(interval, current.candle.time);
+    return { interval, candle: { ...current.candle }, complete: true, partial: current.partial };
+  }
+
+  getForming(interval: CandleInterval): CandleUpdate | null {
+    const current = this.forming.get(interval);
+    return current ? { interval, candle: { ...current.candle }, complete: false, partial: current.partial } : null;
+  }
+}
+
+function istDay(time: number): number {
+  return Math.floor((time + IST_OFFSET_SECONDS) / 86400);
+}
+
+function inSession(time: number): boolean {
+  const weekday = new Date((time + IST_OFFSET_SECONDS) * 1000).getUTCDay();
+  const secondOfDay = (time + IST_OFFSET_SECONDS) % 86400;
+  return weekday !== 0 && weekday !== 6 && secondOfDay >= SESSION_OPEN_SECONDS && secondOfDay < SESSION_CLOSE_SECONDS;
+}
+
+/**
+ * Missing candles between `from` and `to` (candle starts, inclusive) during market hours
+ * Overnight and weekend breaks aren't gaps: only candles inside the IST session count
+ */
+export function findCandleGaps(candles: Candle[], from: number, to: number, interval: CandleInterval): CandleGap[] {
+  const have = new Set(candles.map((candle) => candle.time));
+  const gaps: CandleGap[] = [];
+  let open: CandleGap | null = null;
+
+  // Stepping past the last candle of a day re-anchors on the next day's session grid
+  for (let time = candleStart(from, interval); time <= to; time = candleStart(time + intervalSeconds(interval), interval)) {
+    const missing = !have.has(time) && inSession(time);
+    if (missing && open && istDay(open.to) === istDay(time)) {
+      open.to = time;
+    } else if (missing) {
+      open = { from: time, to: time };
+      gaps.push(open);
+    } else {
+      open = null;
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Merge candles into a time-sorted series; incoming candles replace ones at the same time
+ * Partial candles missed the start of their interval, so they only extend a candle
+ * already loaded for that time (its open stays, and the larger volume wins)
+ */
+export function mergeCandles(existing: Candle[], incoming: Candle[], partial = false): Candle[] {
+  if (incoming.length === 0) {
+    return existing;
+  }
+  const byTime = new Map(existing.map((candle) => [candle.time, candle]));
+  for (const candle of incoming) {
+    const loaded = byTime.get(candle.time);
+    byTime.set(
+      candle.time,
+      partial && loaded
+        ? {
+            time: candle.time,
+            open: loaded.open,
+            high: Math.max(loaded.high, candle.high),
+            low: Math.min(loaded.low, candle.low),
+            close: candle.close,
+            volume: Math.max(loaded.volume, candle.volume),
+          }
+        : candle
+    );
+  }
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+}
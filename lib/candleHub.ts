@@ -0,0 +1,214 @@
+/**
+ * Candle Hub
+ * Builds candles server-side from the user's broker feed and fans updates out to chart streams
+ *
+ * One series per user, broker and symbol builds every interval from a lease on the user's
+ * ticker connection. Completed candles are saved to the candle store, and a series keeps
+ * running for SERIES_IDLE_MS after its last subscriber leaves, so a page refresh picks up
+ * the forming candle instead of starting a new one.
+ * Series live in memory, so candles are built per server instance
+ */
+
+import { EventEmitter } from 'events';
+import { CandleBuilder, candleStart, findCandleGaps, mergeCandles } from './candleBuilder';
+import { loadCandles, saveCandles } from './candleStore';
+import { resolveContinuousSymbol } from './continuousFutures';
+import { istDateOf } from './historyChunks';
+import { getHistoricalCandles } from './ohlcStore';
+import { TickerLease, acquireTickerConnection } from './websocket/tickerConnectionManager';
+import { FeedCredentials } from './websocket/feedCredentials';
+import { TickData } from './websocket/kiteTickerProtocol';
+import { Candle, CandleInterval, CandleUpdate } from './types/candles';
+
+const CLOSE_CHECK_MS = 5000;
+const SERIES_IDLE_MS = 5 * 60 * 1000;
+
+interface CandleSeries {
+  key: string;
+  symbol: string;
+  builder: CandleBuilder;
+  lease: TickerLease;
+  subscribers: number;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  closeTimer: ReturnType<typeof setInterval>;
+  detach: () => void;
+}
+
+type SeriesResult = { success: true; series: CandleSeries } | { success: false; error: string; status: number };
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// userId:broker:symbol -> series (pending while the symbol resolves)
+const seriesByKey = new Map<string, Promise<SeriesResult>>();
+
+function publish(series: CandleSeries, updates: CandleUpdate[]): void {
+  updates.forEach((update) => emitter.emit(`candle:${series.key}`, update));
+}
+
+/**
+ * Publish completed candles and save the ones built from the whole interval
+ */
+function complete(series: CandleSeries, completed: CandleUpdate[]): void {
+  if (completed.length === 0) return;
+  publish(series, completed);
+
+  for (const { interval, candle, partial } of completed) {
+    if (partial) continue;
+    saveCandles(series.symbol, interval, [candle]).catch((error) => {
+      console.error(`[CANDLES] Failed to save ${series.symbol} ${interval} candle:`, error);
+    });
+  }
+}
+
+function stopSeries(series: CandleSeries): void {
+  clearInterval(series.closeTimer);
+  if (series.idleTimer) {
+    clearTimeout(series.idleTimer);
+  }
+  series.detach();
+  seriesByKey.delete(series.key);
+  console.log(`[CANDLES] Stopped building candles for ${series.key}`);
+}
+
+async function openSeries(key: string, userId: string, credentials: FeedCredentials, symbol: string): Promise<SeriesResult> {
+  let lease: TickerLease;
+  try {
+    lease = acquireTickerConnection(userId, credentials);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Broker not authenticated', status: 401 };
+  }
+
+  const token = (await lease.feed.resolveSymbols([symbol])).get(symbol);
+  if (token === undefined) {
+    lease.release();
+    return { success: false, error: `Symbol not found: ${symbol}`, status: 404 };
+  }
+  // Quote mode carries the cumulative volume that candle volumes are built from
+  if (lease.subscribe([token], 'quote').length > 0) {
+    lease.release();
+    return { success: false, error: 'Instrument limit reached for this broker connection', status: 429 };
+  }
+
+  const builder = new CandleBuilder();
+  const series: CandleSeries = {
+    key,
+    symbol,
+    builder,
+    lease,
+    subscribers: 0,
+    idleTimer: null,
+    closeTimer: setInterval(() => complete(series, builder.closeElapsed()), CLOSE_CHECK_MS),
+    detach: () => {
+      lease.feed.off('ticks', handler);
+      lease.release();
+    },
+  };
+
+  const handler = (ticks: TickData[]) => {
+    for (const tick of ticks) {
+      if (tick.instrument_token !== token) continue;
+      const { updated, completed } = builder.applyTick(tick);
+      complete(series, completed);
+      publish(series, updated);
+    }
+  };
+  lease.feed.on('ticks', handler);
+
+  console.log(`[CANDLES] Building candles for ${key} (token ${token})`);
+  return { success: true, series };
+}
+
+/**
+ * Subscribe to one interval of a symbol's candles (starts building them if needed)
+ * Continuous futures (NIFTY-I) build the candles of today's contract
+ * Returns the forming candle so far and an unsubscribe function
+ */
+export async function subscribeCandles(
+  userId: string,
+  credentials: FeedCredentials,
+  symbol: string,
+  interval: CandleInterval,
+  listener: (update: CandleUpdate) => void
+): Promise<{ success: true; forming: CandleUpdate | null; unsubscribe: () => void } | { success: false; error: string; status: number }> {
+  const contract = resolveContinuousSymbol(symbol);
+  const key = `${userId}:${credentials.broker}:${contract}`;
+  let pending = seriesByKey.get(key);
+  if (!pending) {
+    pending = openSeries(key, userId, credentials, contract);
+    seriesByKey.set(key, pending);
+  }
+
+  const result = await pending;
+  if (!result.success) {
+    if (seriesByKey.get(key) === pending) {
+      seriesByKey.delete(key);
+    }
+    return result;
+  }
+
+  const series = result.series;
+  if (series.idleTimer) {
+    clearTimeout(series.idleTimer);
+    series.idleTimer = null;
+  }
+  series.subscribers++;
+
+  const forwarder = (update: CandleUpdate) => {
+    if (update.interval === interval) listener(update);
+  };
+  emitter.on(`candle:${key}`, forwarder);
+
+  let subscribed = true;
+  return {
+    success: true,
+    forming: series.builder.getForming(interval),
+    unsubscribe: () => {
+      if (!subscribed) return;
+      subscribed = false;
+      emitter.off(`candle:${key}`, forwarder);
+      series.subscribers = Math.max(0, series.subscribers - 1);
+      if (series.subscribers === 0) {
+        series.idleTimer = setTimeout(() => stopSeries(series), SERIES_IDLE_MS);
+      }
+    },
+  };
+}
+
+/**
+ * Completed candles from `since` (Unix seconds) to now, for a client catching up after a reconnect
+ * Served from the candle store; market-hour gaps are filled from the OHLC history store
+ */
+export async function backfillCandles(
+  userId: string,
+  symbol: string,
+  interval: CandleInterval,
+  since: number
+): Promise<Candle[]> {
+  const contract = resolveContinuousSymbol(symbol);
+  const now = Math.floor(Date.now() / 1000);
+  const from = candleStart(since, interval);
+  const lastClosed = candleStart(candleStart(now, interval) - 1, interval);
+  const stored = await loadCandles(contract, interval, from, lastClosed);
+
+  const gaps = findCandleGaps(stored, from, lastClosed, interval);
+  if (gaps.length === 0) {
+    return stored;
+  }
+
+  const history = await getHistoricalCandles({
+    userId,
+    symbol: contract,
+    interval,
+    from: istDateOf(gaps[0].from),
+    to: istDateOf(gaps[gaps.length - 1].to),
+    includeToday: true,
+  });
+  if (!history.success) {
+    console.error(`[CANDLES] Backfill for ${contract} ${interval} failed:`, history.error);
+    return stored;
+  }
+
+  const fetched = history.data.filter((candle) => candle.time >= from && candle.time <= lastClosed);
+  return mergeCandles(stored, fetched);
+}
@@ -0,0 +1,103 @@
+/**
+ * Candle Store
+ * Persists OHLC candles in Firestore, one document per instrument, interval and IST trading day
+ *
+ * Layout: candles/{symbol}_{interval}/days/{YYYY-MM-DD}
+ *
+ * A day is complete once broker history running to the session close has been stored after
+ * the day ended; candles built from ticks only fill in days that are not
+ */
+
+import { adminDb } from './firebaseAdmin';
+import { mergeCandles } from './candleBuilder';
+import { groupByDate, istDateOf } from './historyChunks';
+import { Candle, CandleInterval, HistoryInterval, StoredCandleDay } from './types/candles';
+
+// Broker history intervals, plus the intraday ones only built from ticks
+type StoredInterval = HistoryInterval | CandleInterval;
+
+function daysRef(symbol: string, interval: StoredInterval) {
+  return adminDb.collection('candles').doc(`${symbol}_${interval}`).collection('days');
+}
+
+/**
+ * Save candles built from ticks, merged by time into their days
+ * Days already stored complete from broker history are left alone
+ */
+export async function saveCandles(symbol: string, interval: StoredInterval, candles: Candle[]): Promise<void> {
+  const days = daysRef(symbol, interval);
+
+  for (const [date, dayCandles] of groupByDate(candles)) {
+    const dayRef = days.doc(date);
+    await adminDb.runTransaction(async (tx) => {
+      const existing = (await tx.get(dayRef)).data() as StoredCandleDay | undefined;
+      if (existing?.complete) return;
+
+      const stored: StoredCandleDay = {
+        date,
+        candles: mergeCandles(existing?.candles || [], dayCandles),
+        complete: false,
+        updatedAt: new Date().toISOString(),
+      };
+      tx.set(dayRef, stored);
+    });
+  }
+}
+
+/**
+ * Store a day's candles from broker history
+ * For a day still trading, candles built from ticks after the broker's last one are kept
+ */
+export async function saveCandleDay(
+  symbol: string,
+  interval: StoredInterval,
+  date: string,
+  candles: Candle[],
+  complete: boolean
+): Promise<void> {
+  const dayRef = daysRef(symbol, interval).doc(date);
+
+  await adminDb.runTransaction(async (tx) => {
+    let merged = candles;
+    if (!complete) {
+      const existing = (await tx.get(dayRef)).data() as StoredCandleDay | undefined;
+      const lastFetched = candles.length > 0 ? candles[candles.length - 1].time : -Infinity;
+      merged = mergeCandles((existing?.candles || []).filter((candle) => candle.time > lastFetched), candles);
+    }
+
+    const stored: StoredCandleDay = { date, candles: merged, complete, updatedAt: new Date().toISOString() };
+    tx.set(dayRef, stored);
+  });
+}
+
+/**
+ * Stored days from `from` to `to` (IST dates, inclusive), by date
+ */
+export async function loadCandleDays(
+  symbol: string,
+  interval: StoredInterval,
+  from: string,
+  to: string
+): Promise<Map<string, StoredCandleDay>> {
+  const snapshot = await daysRef(symbol, interval)
+    .where('date', '>=', from)
+    .where('date', '<=', to)
+    .get();
+
+  return new Map(snapshot.docs.map((doc) => {
+    const day = doc.data() as StoredCandleDay;
+    return [day.date, day];
+  }));
+}
+
+/**
+ * Stored candles starting between `from` and `to` (Unix seconds, inclusive), oldest first
+ */
+export async function loadCandles(symbol: string, interval: StoredInterval, from: number, to: number): Promise<Candle[]> {
+  const days = await loadCandleDays(symbol, interval, istDateOf(from), istDateOf(to));
+
+  return [...days.values()]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap((day) => day.candles)
+    .filter((candle) => candle.time >= from && candle.time <= to);
+}
@@ -0,0 +1,255 @@
+/**
+ * Broker Historical Candles
+ * Fetches OHLC history from Zerodha or Fyers, whichever the user has authenticated
+ * (Zerodha when both are). Called through the OHLC store (lib/ohlcStore.ts), which only
+ * requests the days it hasn't stored
+ */
+
+import { getCachedBrokerConfig } from './brokerConfigUtils';
+import { decryptData } from './encryptionUtils';
+import { resolveBrokerInstrument } from './instrumentMaster';
+import { Candle } from './types/candles';
+
+export interface HistoricalCandlesRequest {
+  userId: string;
+  symbol: string;                // OpenAlgo or broker symbol, optionally EXCHANGE: prefixed (RELIANCE, NIFTY50, NIFTY26JANFUT, NIFTY-I)
+  interval: string;              // minute, 3minute, 5minute, 10minute, 15minute, 30minute, 60minute, day (or a resampled timeframe)
+  from: string | null;           // YYYY-MM-DD
+  to: string | null;             // YYYY-MM-DD
+  includeToday: boolean;         // Include today's incomplete candles
+  backAdjust?: boolean;          // Continuous futures (NIFTY-I): shift earlier contracts by the rollover gaps
+}
+
+// [timestamp, open, high, low, close, volume] as returned by both brokers
+type BrokerCandleRow = [string | number, number, number, number, number, number?];
+
+export type HistoricalCandlesResult =
+  | { success: true; broker: 'zerodha' | 'fyers'; data: Candle[] }
+  | { success: false; error: string; status: number };
+
+/**
+ * Convert interval format from UI to Fyers API format
+ * UI format: minute, 3minute, 5minute, etc.
+ * Fyers format: 1, 3, 5, 60, D
+ */
+function convertIntervalToFyersFormat(interval: string): string {
+  if (interval === 'day' || interval === '1D') return 'D';
+  if (interval === 'minute') return '1';
+
+  // Remove 'minute' suffix to get just the number
+  const numberPart = interval.replace('minute', '');
+  return numberPart || '1';
+}
+
+/**
+ * Pick the broker to fetch history from: Zerodha or Fyers, whichever is active (Zerodha when both are)
+ */
+async function selectHistoryBroker(userId: string) {
+  // Detect which broker the user has configured (check both)
+  const zerodhaConfig = await getCachedBrokerConfig(userId, 'zerodha');
+  const fyersConfig = await getCachedBrokerConfig(userId, 'fyers');
+
+  const zerodhaActive = zerodhaConfig && zerodhaConfig.status === 'active';
+  const fyersActive = fyersConfig && fyersConfig.status === 'active';
+
+  console.log('[CHART-HISTORICAL] Zerodha active:', zerodhaActive, 'Fyers active:', fyersActive);
+
+  if (zerodhaActive) {
+    return { broker: 'zerodha' as const, configData: zerodhaConfig };
+  }
+  if (fyersActive) {
+    return { broker: 'fyers' as const, configData: fyersConfig };
+  }
+  return null;
+}
+
+/**
+ * The broker history would be fetched from for a user, or null if neither is authenticated
+ */
+export async function historyBroker(userId: string): Promise<'zerodha' | 'fyers' | null> {
+  return (await selectHistoryBroker(userId))?.broker ?? null;
+}
+
+export async function fetchHistoricalCandles(request: HistoricalCandlesRequest): Promise<HistoricalCandlesResult> {
+  const { userId, symbol, interval, from, to, includeToday } = request;
+
+  console.log('[CHART-HISTORICAL] Requested symbol:', symbol, 'for userId:', userId);
+
+  const selected = await selectHistoryBroker(userId);
+  if (!selected) {
+    // User has neither broker configured
+    console.log('[CHART-HISTORICAL] User has no broker authenticated');
+    return { success: false, error: 'No broker authenticated. Please authenticate with Zerodha or Fyers.', status: 401 };
+  }
+  const { broker, configData } = selected;
+
+  console.log('[CHART-HISTORICAL] Using broker:', broker);
+
+  // Convert symbol to broker-specific format
+  const brokerSymbol = await resolveBrokerInstrument(broker, symbol);
+  console.log('[CHART-HISTORICAL] Converted symbol:', brokerSymbol.symbol);
+
+  // Decrypt credentials
+  const accessToken = decryptData(configData.accessToken);
+
+  // Get app_id (Fyers Client ID) - try appId first, fallback to decrypting apiKey
+  let appId: string;
+  if (configData.appId) {
+    appId = configData.appId;
+  } else if (configData.apiKey) {
+    appId = decryptData(configData.apiKey);
+  } else {
+    return { success: false, error: 'Missing appId or apiKey configuration', status: 400 };
+  }
+
+  console.log('[CHART-HISTORICAL] Broker:', broker);
+
+  let chartData: Candle[] = [];
+
+  if (broker === 'zerodha') {
+    // ===== ZERODHA FLOW =====
+    const instrumentToken = brokerSymbol.token;
+    if (!instrumentToken) {
+      return { success: false, error: 'Symbol not found: ' + brokerSymbol.symbol, status: 404 };
+    }
+
+    // Build Zerodha API URL
+    const baseUrl = 'https://api.kite.trade';
+    let url = baseUrl + '/instruments/historical/' + instrumentToken + '/' + interval;
+
+    // Add date range if provided
+    const params = new URLSearchParams();
+    if (from) params.append('from', from);
+    if (to) params.append('to', to);
+    const paramString = params.toString();
+    if (paramString) {
+      url += '?' + paramString;
+    }
+
+    console.log('[CHART-HISTORICAL] Zerodha URL:', url);
+
+    // Fetch from Zerodha
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': 'token ' + appId + ':' + accessToken,
+        'X-Kite-Version': '3',
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('[CHART-HISTORICAL] Zerodha API error:', errorText);
+      return { success: false, error: 'Zerodha API error: ' + response.status, status: response.status };
+    }
+
+    const data = await response.json();
+
+    // Transform Zerodha data: {data: {candles: [[timestamp, open, high, low, close, volume], ...]}}
+    const candles = data.data?.candles || [];
+    chartData = candles.map((candle: BrokerCandleRow) => {
+      // Zerodha returns timestamp as Date string, convert to Unix timestamp in seconds
+      const dateObj = new Date(candle[0]);
+      const timeInSeconds = Math.floor(dateObj.getTime() / 1000);
+      return {
+        time: timeInSeconds, // TradingView Lightweight Charts expects seconds
+        open: candle[1],
+        high: candle[2],
+        low: candle[3],
+        close: candle[4],
+        volume: candle[5] || 0,
+      };
+    });
+  } else if (broker === 'fyers') {
+    // ===== FYERS FLOW =====
+
+    // Fyers API expects specific parameter format
+    const fyersResolution = convertIntervalToFyersFormat(interval);
+    console.log('[CHART-HISTORICAL] Interval conversion:', interval, '→', fyersResolution);
+
+    // Detect if this is a futures contract
+    const isFuture = symbol.toUpperCase().includes('FUT');
+    console.log('[CHART-HISTORICAL] Is futures contract:', isFuture);
+
+    // Build Fyers API URL with correct parameters
+    // IMPORTANT: Endpoint is /data/history (not /api/v3/history)
+    const baseUrl = 'https://api-t1.fyers.in/data';
+    const params = new URLSearchParams();
+    params.append('symbol', brokerSymbol.symbol);
+    params.append('resolution', fyersResolution);
+    params.append('date_format', '1'); // 1 = yyyy-mm-dd format
+
+    // Set date range
+    if (from) {
+      params.append('range_from', from);
+    }
+
+    // For range_to: subtract 1 day to avoid partial candles (per Fyers docs)
+    // UNLESS includeToday=true (for live polling where we want current day's data)
+    if (to) {
+      const toDate = new Date(to);
+      if (!includeToday) {
+        toDate.setDate(toDate.getDate() - 1);
+        const adjustedTo = toDate.toISOString().split('T')[0];
+        params.append('range_to', adjustedTo);
+        console.log('[CHART-HISTORICAL] Adjusted range_to:', to, '→', adjustedTo, '(to avoid partial candles)');
+      } else {
+        params.append('range_to', to);
+        console.log('[CHART-HISTORICAL] Using today\'s data (includeToday=true):', to);
+      }
+    }
+
+    // Add cont_flag=1 for futures/continuous data
+    if (isFuture) {
+      params.append('cont_flag', '1');
+    }
+
+    const url = `${baseUrl}/history?${params.toString()}`;
+    console.log('[CHART-HISTORICAL] Fyers URL:', url);
+
+    // Fetch from Fyers - uses appId:accessToken format
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Authorization': `${appId}:${accessToken}`,
+        'Content-Type': 'application/json; charset=UTF-8',
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('[CHART-HISTORICAL] Fyers API error (status', response.status + '):', errorText);
+      return { success: false, error: 'Fyers API error: ' + response.status + ' - ' + errorText, status: response.status };
+    }
+
+    const data = await response.json();
+
+    // Transform Fyers data - check response structure
+    if (data.s === 'ok' && data.candles) {
+      // Fyers format: {s: "ok", candles: [[timestamp, open, high, low, close, volume], ...]}
+      console.log('[CHART-HISTORICAL-DEBUG] Raw Fyers first candle timestamp:', data.candles[0]?.[0]);
+      console.log('[CHART-HISTORICAL-DEBUG] Current time in seconds:', Math.floor(Date.now() / 1000));
+
+      chartData = data.candles.map((candle: BrokerCandleRow) => {
+        // Fyers returns timestamps in seconds
+        const timestamp = typeof candle[0] === 'number' ? candle[0] : parseInt(candle[0], 10);
+
+        // TradingView Lightweight Charts expects Unix timestamp in seconds
+        // Fyers already returns seconds, so use as-is
+        return {
+          time: timestamp,
+          open: candle[1],
+          high: candle[2],
+          low: candle[3],
+          close: candle[4],
+          volume: candle[5] || 0,
+        };
+      });
+      console.log('[CHART-HISTORICAL] Fyers returned', chartData.length, 'candles');
+    } else {
+      console.error('[CHART-HISTORICAL] Fyers API response:', JSON.stringify(data));
+      return { success: false, error: 'Fyers API error: ' + (data.message || 'Invalid response'), status: 400 };
+    }
+  }
+
+  return { success: true, broker, data: chartData };
+}
@@ -0,0 +1,150 @@
+/**
+ * Continuous Futures
+ * NIFTY-I, NIFTY-II and NIFTY-III follow the near, next and far month contracts of an
+ * underlying, resolving to the contract active on a date (NIFTY-I -> NIFTY26JANFUT)
+ *
+ * Contracts roll the day after the near month expires (monthly expiries from
+ * lib/expiryCalendar.ts). History is stitched from each contract's active days, optionally
+ * back-adjusted by the price gap at every roll so the series has no jumps
+ *
+ * Dates are IST calendar dates (YYYY-MM-DD), inclusive at both ends
+ */
+
+import { MONTHS, monthlyExpiry } from './expiryCalendar';
+import { addDays, istDateOf } from './historyChunks';
+import { Candle } from './types/candles';
+
+export interface ContinuousSymbol {
+  prefix: string;                // Exchange prefix kept on resolved symbols ('NFO:' or '')
+  underlying: string;            // NIFTY
+  index: number;                 // 1 = near month, 2 = next month, 3 = far month
+}
+
+export interface FuturesContract {
+  symbol: string;                // NIFTY26JANFUT
+  year: number;
+  month: number;                 // 1-12
+  expiry: string;
+}
+
+// Days one contract is the continuous series
+export interface ContractSegment {
+  symbol: string;
+  from: string;
+  to: string;
+}
+
+export interface ContractCandles {
+  segment: ContractSegment;
+  candles: Candle[];             // May start before segment.from (the previous roll day) to measure the gap
+}
+
+const CONTINUOUS_SYMBOL = /^(?:([A-Z]+):)?([A-Z0-9&_-]+?)-(I{1,3})$/;
+
+/**
+ * Parse NIFTY-I / NFO:BANKNIFTY-II, or null for any other symbol
+ */
+export function parseContinuousSymbol(symbol: string): ContinuousSymbol | null {
+  const match = CONTINUOUS_SYMBOL.exec(symbol.trim().toUpperCase());
+  if (!match) return null;
+  return { prefix: match[1] ? `${match[1]}:` : '', underlying: match[2], index: match[3].length };
+}
+
+export function isContinuousSymbol(symbol: string): boolean {
+  return parseContinuousSymbol(symbol) !== null;
+}
+
+export function futureSymbol(underlying: string, year: number, month: number): string {
+  return `${underlying}${String(year % 100).padStart(2, '0')}${MONTHS[month - 1]}FUT`;
+}
+
+function contract(underlying: string, year: number, month: number): FuturesContract {
+  return { symbol: futureSymbol(underlying, year, month), year, month, expiry: monthlyExpiry(underlying, year, month) };
+}
+
+/**
+ * The contract a continuous symbol follows on a date
+ */
+export function activeContract(underlying: string, index: number, date: string): FuturesContract {
+  let year = Number(date.slice(0, 4));
+  let month = Number(date.slice(5, 7));
+  if (date > monthlyExpiry(underlying, year, month)) {
+    month++;
+  }
+  month += index - 1;
+  year += Math.floor((month - 1) / 12);
+  month = ((month - 1) % 12) + 1;
+  return contract(underlying, year, month);
+}
+
+/**
+ * The contract symbol for a continuous symbol today (exchange prefix kept), or the symbol unchanged
+ */
+export function resolveContinuousSymbol(symbol: string, now: number = Math.floor(Date.now() / 1000)): string {
+  const continuous = parseContinuousSymbol(symbol);
+  if (!continuous) return symbol;
+  const { prefix, underlying, index } = continuous;
+  return prefix + activeContract(underlying, index, istDateOf(now)).symbol;
+}
+
+/**
+ * Contracts making up a continuous series from `from` to `to`, one segment per contract
+ */
+export function contractSegments(underlying: string, index: number, from: string, to: string): ContractSegment[] {
+  const segments: ContractSegment[] = [];
+  let date = from;
+  while (date <= to) {
+    // Every continuous series rolls when the near month expires
+    const rollDate = activeContract(underlying, 1, date).expiry;
+    const end = rollDate < to ? rollDate : to;
+    segments.push({ symbol: activeContract(underlying, index, date).symbol, from: date, to: end });
+    date = addDays(end, 1);
+  }
+  return segments;
+}
+
+function roundPrice(price: number): number {
+  return Math.round(price * 100) / 100;
+}
+
+/**
+ * Join each contract's candles over its segment into one series
+ * With backAdjust, earlier contracts are shifted by the gap between the new and old
+ * contract's closes at the last candle before each roll, so the latest prices are real
+ */
+export function stitchContracts(parts: ContractCandles[], backAdjust: boolean): Candle[] {
+  const pieces = parts.map(({ segment, candles }) =>
+    candles.filter((candle) => {
+      const date = istDateOf(candle.time);
+      return date >= segment.from && date <= segment.to;
+    })
+  );
+
+  // gaps[i]: price difference from piece i - 1 to piece i at the roll
+  const gaps = parts.map(({ candles }, i) => {
+    const previous = i > 0 ? pieces[i - 1][pieces[i - 1].length - 1] : undefined;
+    if (!backAdjust || !previous) return 0;
+    const overlap = candles.filter((candle) => candle.time <= previous.time).pop();
+    return overlap ? overlap.close - previous.close : 0;
+  });
+
+  const series: Candle[] = [];
+  let adjustment = gaps.reduce((sum, gap) => sum + gap, 0);
+  pieces.forEach((piece, i) => {
+    adjustment -= gaps[i];
+    for (const candle of piece) {
+      series.push(
+        adjustment === 0
+          ? candle
+          : {
+              ...candle,
+              open: roundPrice(candle.open + adjustment),
+              high: roundPrice(candle.high + adjustment),
+              low: roundPrice(candle.low + adjustment),
+              close: roundPrice(candle.close + adjustment),
+            }
+      );
+    }
+  });
+  return series;
+}
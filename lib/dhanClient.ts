@@ -0,0 +1,504 @@
+/**
+ * Dhan API Client
+ * Handles all Dhan v2 API calls with proper parameter transformation
+ * Maps OpenAlgo format to Dhan API format
+ *
+ * Dhan has no OAuth flow: the user generates an access token on web.dhan.co
+ * and stores it alongside their client ID (saved as the broker API key)
+ */
+
+import { AdapterModifyOrder, AdapterOrder } from '@/lib/brokers/types';
+
+const DHAN_BASE_URL = 'https://api.dhan.co/v2';
+const DHAN_SCRIP_MASTER_URL = 'https://images.dhan.co/api-data/api-scrip-master.csv';
+
+/**
+ * Dhan API base URL (DHAN_API_BASE_URL points the client at a sandbox or stand-in server)
+ */
+function dhanBaseUrl(): string {
+  return process.env.DHAN_API_BASE_URL || DHAN_BASE_URL;
+}
+
+/**
+ * Dhan-specific order payload interface
+ */
+export interface DhanOrderPayload {
+  dhanClientId: string;
+  transactionType: 'BUY' | 'SELL';
+  exchangeSegment: string;
+  productType: 'CNC' | 'INTRADAY' | 'MARGIN';
+  orderType: 'MARKET' | 'LIMIT' | 'STOP_LOSS' | 'STOP_LOSS_MARKET';
+  validity: 'DAY' | 'IOC';
+  securityId: string;
+  quantity: number;
+  price: number;
+  triggerPrice: number;
+  disclosedQuantity: number;
+  afterMarketOrder: boolean;
+  correlationId?: string;
+}
+
+/**
+ * Order acknowledgement returned by place/modify/cancel
+ */
+interface DhanOrderAck {
+  orderId?: string;
+  orderStatus?: string;
+}
+
+/**
+ * Dhan error body ({ errorType, errorCode, errorMessage })
+ */
+interface DhanErrorBody {
+  errorType?: string;
+  errorCode?: string;
+  errorMessage?: string;
+  status?: string;
+  remarks?: { error_message?: string };
+  message?: string;
+}
+
+export type DhanRow = Record<string, unknown>;
+
+/**
+ * Generate Dhan API headers
+ */
+function getDhanHeaders(accessToken: string, clientId: string = ''): Record<string, string> {
+  const headers: Record<string, string> = {
+    'access-token': accessToken,
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+  };
+  if (clientId) {
+    headers['client-id'] = clientId;
+  }
+  return headers;
+}
+
+/**
+ * Send a request to the Dhan API and return the parsed body
+ * Dhan errors come back as { errorType, errorCode, errorMessage }
+ */
+async function dhanRequest<T>(
+  path: string,
+  accessToken: string,
+  options: { method?: string; clientId?: string; body?: unknown } = {}
+): Promise<T> {
+  const response = await fetch(`${dhanBaseUrl()}${path}`, {
+    method: options.method || 'GET',
+    headers: getDhanHeaders(accessToken, options.clientId),
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+
+  const text = await response.text();
+  let data: unknown = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    data = null;
+  }
+
+  const error = (data || {}) as DhanErrorBody;
+  if (!response.ok || error.errorCode || error.status === 'failure') {
+    const message = error.errorMessage || error.remarks?.error_message || error.message;
+    throw new Error(message || `Dhan request ${path} failed with status ${response.status}`);
+  }
+
+  return data as T;
+}
+
+/**
+ * Map OpenAlgo exchange to Dhan exchange segment
+ */
+export function mapExchangeSegment(exchange: string): string {
+  const mapping: Record<string, string> = {
+    'NSE': 'NSE_EQ',
+    'BSE': 'BSE_EQ',
+    'NFO': 'NSE_FNO',
+    'BFO': 'BSE_FNO',
+    'CDS': 'NSE_CURRENCY',
+    'BCD': 'BSE_CURRENCY',
+    'MCX': 'MCX_COMM',
+  };
+  return mapping[exchange.toUpperCase()] || 'NSE_EQ';
+}
+
+/**
+ * Map OpenAlgo product type to Dhan product type
+ */
+export function mapProductType(product: string): 'CNC' | 'INTRADAY' | 'MARGIN' {
+  const mapping: Record<string, 'CNC' | 'INTRADAY' | 'MARGIN'> = {
+    'CNC': 'CNC',
+    'NRML': 'MARGIN',
+    'MIS': 'INTRADAY',
+  };
+  return mapping[product] || 'INTRADAY';
+}
+
+/**
+ * Map OpenAlgo price type to Dhan order type
+ */
+export function mapOrderType(pricetype: string): 'MARKET' | 'LIMIT' | 'STOP_LOSS' | 'STOP_LOSS_MARKET' {
+  const mapping: Record<string, 'MARKET' | 'LIMIT' | 'STOP_LOSS' | 'STOP_LOSS_MARKET'> = {
+    'MARKET': 'MARKET',
+    'LIMIT': 'LIMIT',
+    'SL': 'STOP_LOSS',
+    'SL-M': 'STOP_LOSS_MARKET',
+  };
+  return mapping[pricetype] || 'MARKET';
+}
+
+/**
+ * Transform OpenAlgo order data to Dhan format
+ */
+export function transformOrderData(data: AdapterOrder, clientId: string, securityId: string): DhanOrderPayload {
+  return {
+    dhanClientId: clientId,
+    transactionType: data.action.toUpperCase() as 'BUY' | 'SELL',
+    exchangeSegment: mapExchangeSegment(data.exchange || 'NSE'),
+    productType: mapProductType(data.product || 'MIS'),
+    orderType: mapOrderType(data.pricetype || 'MARKET'),
+    validity: 'DAY',
+    securityId,
+    quantity: Number(data.quantity) || 0,
+    price: Number(data.price) || 0,
+    triggerPrice: Number(data.trigger_price) || 0,
+    disclosedQuantity: Number(data.disclosed_quantity) || 0,
+    afterMarketOrder: false,
+    // Dhan echoes correlationId (max 25 chars) back on the order book
+    correlationId: data.strategy ? data.strategy.slice(0, 25) : undefined,
+  };
+}
+
+// Dhan scrip master rows are keyed by exchange (NSE/BSE/MCX) and segment (E/D/C/M)
+const SCRIP_SEGMENTS: Record<string, string> = {
+  'NSE': 'NSE:E',
+  'BSE': 'BSE:E',
+  'NFO': 'NSE:D',
+  'BFO': 'BSE:D',
+  'CDS': 'NSE:C',
+  'BCD': 'BSE:C',
+  'MCX': 'MCX:M',
+};
+
+let securityIdCache: Map<string, string> | null = null;
+
+/**
+ * Parse the Dhan scrip master CSV into a map of "EXCHANGE:SYMBOL" → security ID
+ * Only rows whose exchange/segment maps to an OpenAlgo exchange are kept
+ */
+export function parseScripMaster(csv: string): Map<string, string> {
+  const lines = csv.split(/\r?\n/);
+  const header = (lines[0] || '').split(',').map((h) => h.trim());
+  const exchangeCol = header.indexOf('SEM_EXM_EXCH_ID');
+  const segmentCol = header.indexOf('SEM_SEGMENT');
+  const idCol = header.indexOf('SEM_SMST_SECURITY_ID');
+  const symbolCol = header.indexOf('SEM_TRADING_SYMBOL');
+  const seriesCol = header.indexOf('SEM_SERIES');
+
+  const exchangesBySegment: Record<string, string> = {};
+  for (const [exchange, segment] of Object.entries(SCRIP_SEGMENTS)) {
+    exchangesBySegment[segment] = exchange;
+  }
+
+  const securityIds = new Map<string, string>();
+  if (exchangeCol < 0 || segmentCol < 0 || idCol < 0 || symbolCol < 0) {
+    return securityIds;
+  }
+
+  for (const line of lines.slice(1)) {
+    const cols = line.split(',');
+    const exchange = exchangesBySegment[`${cols[exchangeCol]}:${cols[segmentCol]}`];
+    if (!exchange || !cols[symbolCol] || !cols[idCol]) {
+      continue;
+    }
+    // An equity symbol can be listed in several series; the EQ series wins
+    const key = `${exchange}:${cols[symbolCol].toUpperCase()}`;
+    if (!securityIds.has(key) || cols[seriesCol] === 'EQ') {
+      securityIds.set(key, cols[idCol]);
+    }
+  }
+  return securityIds;
+}
+
+/**
+ * Look up the Dhan security ID for an OpenAlgo symbol
+ * The scrip master is downloaded once per server process
+ */
+export async function getSecurityId(symbol: string, exchange: string): Promise<string | null> {
+  try {
+    if (!securityIdCache) {
+      const response = await fetch(process.env.DHAN_SCRIP_MASTER_URL || DHAN_SCRIP_MASTER_URL);
+      if (!response.ok) {
+        throw new Error(`Scrip master fetch failed with status ${response.status}`);
+      }
+      securityIdCache = parseScripMaster(await response.text());
+      console.log(`[getSecurityId] Loaded Dhan scrip master with ${securityIdCache.size} symbols`);
+    }
+
+    return securityIdCache.get(`${exchange.toUpperCase()}:${symbol.toUpperCase()}`) || null;
+  } catch (error) {
+    console.error(`[getSecurityId] Lookup failed for ${exchange}:${symbol}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Validate a Dhan access token and return the account profile
+ */
+export async function authenticateDhan(accessToken: string): Promise<{ dhanClientId: string; tokenValidity?: string }> {
+  try {
+    const data = await dhanRequest<{ dhanClientId?: string | number; tokenValidity?: string } | null>(
+      '/profile',
+      accessToken
+    );
+
+    if (!data?.dhanClientId) {
+      throw new Error('Dhan rejected the access token');
+    }
+
+    return { dhanClientId: String(data.dhanClientId), tokenValidity: data.tokenValidity };
+  } catch (error) {
+    console.error('Dhan authentication error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Place an order on Dhan
+ */
+export async function placeOrder(
+  accessToken: string,
+  orderPayload: DhanOrderPayload
+): Promise<{ orderid: string; orderStatus?: string }> {
+  try {
+    const data = await dhanRequest<DhanOrderAck | null>('/orders', accessToken, { method: 'POST', body: orderPayload });
+
+    if (!data?.orderId) {
+      throw new Error('Failed to place order');
+    }
+
+    return { orderid: String(data.orderId), orderStatus: data.orderStatus };
+  } catch (error) {
+    console.error('Dhan place-order error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Modify an existing order on Dhan
+ */
+export async function modifyOrder(
+  accessToken: string,
+  clientId: string,
+  orderPayload: AdapterModifyOrder
+): Promise<{ orderid: string; orderStatus?: string }> {
+  try {
+    const data = await dhanRequest<DhanOrderAck | null>(`/orders/${orderPayload.orderid}`, accessToken, {
+      method: 'PUT',
+      body: {
+        dhanClientId: clientId,
+        orderId: orderPayload.orderid,
+        orderType: mapOrderType(orderPayload.pricetype || 'LIMIT'),
+        legName: '',
+        quantity: Number(orderPayload.quantity) || 0,
+        price: Number(orderPayload.price) || 0,
+        disclosedQuantity: Number(orderPayload.disclosed_quantity) || 0,
+        triggerPrice: Number(orderPayload.trigger_price) || 0,
+        validity: 'DAY',
+      },
+    });
+
+    return { orderid: String(data?.orderId || orderPayload.orderid), orderStatus: data?.orderStatus };
+  } catch (error) {
+    console.error('Dhan modify-order error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel an order on Dhan
+ */
+export async function cancelOrder(
+  accessToken: string,
+  orderId: string
+): Promise<{ orderid: string; orderStatus?: string }> {
+  try {
+    const data = await dhanRequest<DhanOrderAck | null>(`/orders/${orderId}`, accessToken, { method: 'DELETE' });
+    return { orderid: String(data?.orderId || orderId), orderStatus: data?.orderStatus };
+  } catch (error) {
+    console.error('Dhan cancel-order error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get order book from Dhan
+ */
+export async function getOrderBook(accessToken: string): Promise<DhanRow[]> {
+  try {
+    const data = await dhanRequest<unknown>('/orders', accessToken);
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    console.error('Dhan getOrderBook error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get trade book from Dhan
+ */
+export async function getTradeBook(accessToken: string): Promise<DhanRow[]> {
+  try {
+    const data = await dhanRequest<unknown>('/trades', accessToken);
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    console.error('Dhan getTradeBook error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get positions from Dhan
+ */
+export async function getPositions(accessToken: string): Promise<DhanRow[]> {
+  try {
+    const data = await dhanRequest<unknown>('/positions', accessToken);
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    console.error('Dhan getPositions error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get holdings from Dhan
+ * Dhan answers "no holdings" with an error body, which is treated as an empty list
+ */
+export async function getHoldings(accessToken: string): Promise<DhanRow[]> {
+  try {
+    const data = await dhanRequest<unknown>('/holdings', accessToken);
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    if (error instanceof Error && /no holdings/i.test(error.message)) {
+      return [];
+    }
+    console.error('Dhan getHoldings error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get fund limits from Dhan
+ */
+export async function getFunds(accessToken: string): Promise<DhanRow> {
+  try {
+    return (await dhanRequest<DhanRow | null>('/fundlimit', accessToken)) || {};
+  } catch (error) {
+    console.error('Dhan getFunds error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get market quotes from Dhan
+ * @param instruments - Security IDs by exchange segment, e.g. { NSE_EQ: [1333] }
+ */
+export async function getMarketQuote(
+  accessToken: string,
+  clientId: string,
+  instruments: Record<string, number[]>
+): Promise<Record<string, Record<string, DhanRow>>> {
+  try {
+    const data = await dhanRequest<{ data?: Record<string, Record<string, DhanRow>> } | null>('/marketfeed/quote', accessToken, {
+      method: 'POST',
+      clientId,
+      body: instruments,
+    });
+    return data?.data || {};
+  } catch (error) {
+    console.error('Dhan getMarketQuote error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel all open orders on Dhan
+ */
+export async function cancelAllOrders(accessToken: string): Promise<{ canceled: string[]; failed: string[] }> {
+  try {
+    const orders = await getOrderBook(accessToken);
+
+    const canceled: string[] = [];
+    const failed: string[] = [];
+
+    // Pending, in-transit and partially traded orders can still be cancelled
+    const ordersToCancel = orders.filter((order) =>
+      ['PENDING', 'TRANSIT', 'PART_TRADED'].includes(String(order.orderStatus).toUpperCase())
+    );
+
+    for (const order of ordersToCancel) {
+      try {
+        await cancelOrder(accessToken, String(order.orderId));
+        canceled.push(String(order.orderId));
+      } catch (error) {
+        console.error(`Failed to cancel order ${order.orderId}:`, error);
+        failed.push(String(order.orderId));
+      }
+    }
+
+    return { canceled, failed };
+  } catch (error) {
+    console.error('Dhan cancelAllOrders error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Close a specific position on Dhan with an opposite MARKET order
+ */
+export async function closePosition(
+  accessToken: string,
+  clientId: string,
+  symbol: string,
+  exchange: string,
+  product: string
+): Promise<{ orderid: string; orderStatus?: string }> {
+  try {
+    const positions = await getPositions(accessToken);
+    const exchangeSegment = mapExchangeSegment(exchange);
+    const productType = mapProductType(product);
+
+    const position = positions.find(
+      (p) =>
+        p.tradingSymbol === symbol &&
+        p.exchangeSegment === exchangeSegment &&
+        p.productType === productType &&
+        Number(p.netQty) !== 0
+    );
+
+    if (!position) {
+      throw new Error(`No position found for ${symbol} on ${exchange}`);
+    }
+
+    const netQty = Number(position.netQty);
+
+    return await placeOrder(accessToken, {
+      dhanClientId: clientId,
+      transactionType: netQty > 0 ? 'SELL' : 'BUY',
+      exchangeSegment,
+      productType,
+      orderType: 'MARKET',
+      validity: 'DAY',
+      securityId: String(position.securityId),
+      quantity: Math.abs(netQty),
+      price: 0,
+      triggerPrice: 0,
+      disclosedQuantity: 0,
+      afterMarketOrder: false,
+    });
+  } catch (error) {
+    console.error('Dhan closePosition error:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Expiry Calendar
+ * Weekly and monthly F&O expiry dates per underlying, moved to the previous trading day
+ * when they fall on an exchange holiday (lib/tradingCalendar.ts), and option symbols in
+ * each broker's format
+ *
+ * Expiry weekdays follow the exchanges' schedule changes (NSE moved to Tuesday and BSE to
+ * Thursday from September 2025; most weekly series ended in November 2024), so old and
+ * future expiries resolve without code edits. Underlyings not listed (stock F&O) have
+ * monthly expiries on the NSE index weekday
+ *
+ * Dates are IST calendar dates (YYYY-MM-DD)
+ */
+
+import { previousTradingDay } from './tradingCalendar';
+
+export const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+export interface Expiry {
+  date: string;
+  monthly: boolean;              // Last expiry of the month (Zerodha and Fyers use the monthly symbol format)
+}
+
+// current-week is the nearest expiry of either kind, so it is the monthly one for underlyings without weeklies
+export type ExpirySelector = 'current-week' | 'next-week' | 'current-month' | 'next-month';
+
+export const EXPIRY_SELECTORS: { label: string; value: ExpirySelector }[] = [
+  { label: 'Current Week', value: 'current-week' },
+  { label: 'Next Week', value: 'next-week' },
+  { label: 'Current Month', value: 'current-month' },
+  { label: 'Next Month', value: 'next-month' },
+];
+
+export type OptionType = 'CE' | 'PE';
+
+export type OptionSymbolFormat = 'openalgo' | 'zerodha' | 'fyers' | 'angel';
+
+// Expiry weekdays (0 = Sunday) for contracts from `from`; null weekly = monthly series only
+interface ExpiryRule {
+  from: string;
+  weekly: number | null;
+  monthly: number;
+}
+
+const MONDAY = 1;
+const TUESDAY = 2;
+const WEDNESDAY = 3;
+const THURSDAY = 4;
+const FRIDAY = 5;
+
+// Newest rule first; the last rule applies to everything before
+const NSE_MONTHLY: ExpiryRule[] = [
+  { from: '2025-09-01', weekly: null, monthly: TUESDAY },
+  { from: '', weekly: null, monthly: THURSDAY },
+];
+
+const EXPIRY_RULES: Record<string, ExpiryRule[]> = {
+  NIFTY: [
+    { from: '2025-09-01', weekly: TUESDAY, monthly: TUESDAY },
+    { from: '', weekly: THURSDAY, monthly: THURSDAY },
+  ],
+  BANKNIFTY: [
+    { from: '2025-09-01', weekly: null, monthly: TUESDAY },
+    { from: '2024-11-20', weekly: null, monthly: THURSDAY },
+    { from: '', weekly: WEDNESDAY, monthly: THURSDAY },
+  ],
+  FINNIFTY: [
+    { from: '2025-09-01', weekly: null, monthly: TUESDAY },
+    { from: '2024-11-20', weekly: null, monthly: TUESDAY },
+    { from: '', weekly: TUESDAY, monthly: TUESDAY },
+  ],
+  MIDCPNIFTY: [
+    { from: '2025-09-01', weekly: null, monthly: TUESDAY },
+    { from: '2024-11-20', weekly: null, monthly: MONDAY },
+    { from: '', weekly: MONDAY, monthly: MONDAY },
+  ],
+  SENSEX: [
+    { from: '2025-09-01', weekly: THURSDAY, monthly: THURSDAY },
+    { from: '2025-01-01', weekly: TUESDAY, monthly: TUESDAY },
+    { from: '', weekly: FRIDAY, monthly: FRIDAY },
+  ],
+  BANKEX: [
+    { from: '2025-09-01', weekly: null, monthly: THURSDAY },
+    { from: '2025-01-01', weekly: null, monthly: TUESDAY },
+    { from: '', weekly: MONDAY, monthly: MONDAY },
+  ],
+};
+
+// BSE-listed underlyings (BFO); everything else trades on NFO
+const BSE_UNDERLYINGS = new Set(['SENSEX', 'BANKEX', 'SENSEX50']);
+
+// Zerodha/Fyers weekly expiry month codes
+const WEEKLY_MONTH_CODES = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'O', 'N', 'D'];
+
+const DAY_MS = 86400 * 1000;
+const IST_OFFSET_MS = 5.5 * 3600 * 1000;
+
+function toDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  return formatDate(new Date(toDate(date).getTime() + days * DAY_MS));
+}
+
+function monthStart(year: number, month: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-01`;
+}
+
+/**
+ * Today's IST date
+ */
+export function istToday(now: number = Date.now()): string {
+  return formatDate(new Date(now + IST_OFFSET_MS));
+}
+
+function expiryRule(underlying: string, date: string): ExpiryRule {
+  const rules = EXPIRY_RULES[underlying.toUpperCase()] || NSE_MONTHLY;
+  return rules.find((rule) => date >= rule.from) || rules[rules.length - 1];
+}
+
+/**
+ * Last `weekday` of a month
+ */
+function lastWeekday(year: number, month: number, weekday: number): string {
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  lastDay.setUTCDate(lastDay.getUTCDate() - ((lastDay.getUTCDay() - weekday + 7) % 7));
+  return formatDate(lastDay);
+}
+
+/**
+ * Scheduled (before holiday shifts) expiries of a month, monthly last
+ */
+function scheduledExpiries(underlying: string, year: number, month: number): Expiry[] {
+  const start = monthStart(year, month);
+  const rule = expiryRule(underlying, start);
+  const monthly = lastWeekday(year, month, rule.monthly);
+  const expiries: Expiry[] = [];
+
+  if (rule.weekly !== null) {
+    for (let date = lastWeekday(year, month, rule.weekly); date >= start; date = addDays(date, -7)) {
+      // The monthly contract replaces the weekly one in its expiry week
+      if (date > addDays(monthly, -7) && date <= monthly) continue;
+      expiries.push({ date, monthly: false });
+    }
+    expiries.reverse();
+  }
+  expiries.push({ date: monthly, monthly: true });
+  return expiries;
+}
+
+/**
+ * Monthly expiry of an underlying, after holiday shifts
+ */
+export function monthlyExpiry(underlying: string, year: number, month: number): string {
+  const rule = expiryRule(underlying, monthStart(year, month));
+  return previousTradingDay(optionExchange(underlying), lastWeekday(year, month, rule.monthly));
+}
+
+/**
+ * The next `count` expiries on or after `from`
+ */
+export function upcomingExpiries(underlying: string, from: string, count: number): Expiry[] {
+  const expiries: Expiry[] = [];
+  let year = Number(from.slice(0, 4));
+  let month = Number(from.slice(5, 7));
+
+  while (expiries.length < count) {
+    for (const scheduled of scheduledExpiries(underlying, year, month)) {
+      const date = previousTradingDay(optionExchange(underlying), scheduled.date);
+      if (date >= from && expiries.length < count) {
+        expiries.push({ date, monthly: scheduled.monthly });
+      }
+    }
+    month = (month % 12) + 1;
+    if (month === 1) year++;
+  }
+  return expiries;
+}
+
+export function isExpirySelector(value: string): value is ExpirySelector {
+  return EXPIRY_SELECTORS.some((selector) => selector.value === value);
+}
+
+/**
+ * Resolve current/next week or month to an expiry date
+ */
+export function resolveExpiry(underlying: string, selector: ExpirySelector, today: string = istToday()): Expiry {
+  if (selector === 'current-week' || selector === 'next-week') {
+    return upcomingExpiries(underlying, today, 2)[selector === 'current-week' ? 0 : 1];
+  }
+
+  const year = Number(today.slice(0, 4));
+  const month = Number(today.slice(5, 7));
+  const thisMonth = monthlyExpiry(underlying, year, month);
+  const offset = (today > thisMonth ? 1 : 0) + (selector === 'next-month' ? 1 : 0);
+  const target = new Date(Date.UTC(year, month - 1 + offset, 1));
+  return { date: monthlyExpiry(underlying, target.getUTCFullYear(), target.getUTCMonth() + 1), monthly: true };
+}
+
+/**
+ * The year a day-and-month (or month-only) expiry most likely means: this year, unless
+ * that is more than six months ago
+ */
+function nearestYear(month: number, today: string): number {
+  const year = Number(today.slice(0, 4));
+  return month < Number(today.slice(5, 7)) - 6 ? year + 1 : year;
+}
+
+/**
+ * Parse an expiry given as a selector (current-week), an ISO date (2026-01-27),
+ * DDMMMYY (27JAN26), DDMMM (27JAN, nearest year) or MMM (JAN, that month's monthly expiry)
+ * Returns null if the text isn't an expiry
+ */
+export function parseExpiry(underlying: string, text: string, today: string = istToday()): Expiry | null {
+  const value = text.trim().toUpperCase();
+  if (isExpirySelector(value.toLowerCase())) {
+    return resolveExpiry(underlying, value.toLowerCase() as ExpirySelector, today);
+  }
+
+  let year: number;
+  let month: number;
+  let day: number | null = null;
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const dated = /^(\d{1,2})([A-Z]{3})(\d{2})?$/.exec(value);
+  const monthOnly = /^([A-Z]{3})$/.exec(value);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dated && MONTHS.includes(dated[2])) {
+    month = MONTHS.indexOf(dated[2]) + 1;
+    year = dated[3] ? 2000 + Number(dated[3]) : nearestYear(month, today);
+    day = Number(dated[1]);
+  } else if (monthOnly && MONTHS.includes(monthOnly[1])) {
+    month = MONTHS.indexOf(monthOnly[1]) + 1;
+    year = nearestYear(month, today);
+  } else {
+    return null;
+  }
+
+  const monthly = monthlyExpiry(underlying, year, month);
+  if (day === null) {
+    return { date: monthly, monthly: true };
+  }
+  const date = formatDate(new Date(Date.UTC(year, month - 1, day)));
+  if (Number(date.slice(8)) !== day) return null;
+  return { date, monthly: date === monthly };
+}
+
+/**
+ * Calendar days from today to expiry (0 on expiry day)
+ */
+export function daysToExpiry(expiry: Expiry, today: string = istToday()): number {
+  return Math.max(0, Math.round((toDate(expiry.date).getTime() - toDate(today).getTime()) / DAY_MS));
+}
+
+/**
+ * Expiry as DDMMMYY (27JAN26), as in OpenAlgo symbols
+ */
+export function expiryCode(expiry: Expiry): string {
+  const [year, month, day] = expiry.date.split('-');
+  return `${day}${MONTHS[Number(month) - 1]}${year.slice(2)}`;
+}
+
+/**
+ * Exchange an underlying's options trade on
+ */
+export function optionExchange(underlying: string): 'NFO' | 'BFO' {
+  return BSE_UNDERLYINGS.has(underlying.toUpperCase()) ? 'BFO' : 'NFO';
+}
+
+/**
+ * Option trading symbol in a broker's format
+ * - openalgo / angel: NIFTY27JAN2625000CE (DDMMMYY)
+ * - zerodha: NIFTY26JAN25000CE (monthly, YYMMM) or NIFTY2612025000CE (weekly, YY + month code + DD)
+ * - fyers: the Zerodha symbol with the exchange prefix (NSE:NIFTY26JAN25000CE, BSE:SENSEX...)
+ */
+export function optionSymbol(
+  format: OptionSymbolFormat,
+  underlying: string,
+  expiry: Expiry,
+  strike: number,
+  type: OptionType
+): string {
+  const base = underlying.toUpperCase();
+  const [year, month, day] = expiry.date.split('-');
+  const monthName = MONTHS[Number(month) - 1];
+
+  if (format === 'openalgo' || format === 'angel') {
+    return `${base}${expiryCode(expiry)}${strike}${type}`;
+  }
+
+  const contract = expiry.monthly
+    ? `${base}${year.slice(2)}${monthName}`
+    : `${base}${year.slice(2)}${WEEKLY_MONTH_CODES[Number(month) - 1]}${day}`;
+  const symbol = `${contract}${strike}${type}`;
+  if (format === 'zerodha') {
+    return symbol;
+  }
+  return `${optionExchange(base) === 'BFO' ? 'BSE' : 'NSE'}:${symbol}`;
+}
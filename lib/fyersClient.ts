@@ -238,7 +238,7 @@ export async function placeFyersOrder(
   orderData: {
     symbol: string;
     qty: number;
-    type: 'MARKET' | 'LIMIT';
+    type: 'MARKET' | 'LIMIT' | 'SL_MARKET' | 'SL_LIMIT';
     side: 'BUY' | 'SELL';
     productType: 'INTRADAY' | 'CNC' | 'MARGIN';
     price?: number;
@@ -571,6 +571,97 @@ export async function getFyersFunds(accessToken: string, appId?: string): Promis
   }
 }
 
+/**
+ * Get market quotes
+ * Symbols in Fyers format (e.g., NSE:SBIN-EQ)
+ */
+export async function getFyersQuotes(accessToken: string, symbols: string[], appId?: string): Promise<any> {
+  try {
+    const url = `${FYERS_DATA_URL}/quotes?symbols=${encodeURIComponent(symbols.join(','))}`;
+
+    // CRITICAL: Fyers API requires Authorization header in format: appId:accessToken
+    const authHeader = appId ? `${appId}:${accessToken}` : accessToken;
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        Authorization: authHeader,
+        'Content-Type': 'application/json; charset=UTF-8',
+      },
+    });
+
+    const responseData = await response.json();
+
+    if (!response.ok || responseData.s !== 'ok') {
+      console.error('[FYERS-QUOTES] Error response:', responseData);
+      throw new Error(`Failed to get quotes: ${responseData.message || response.statusText}`);
+    }
+
+    return responseData;
+  } catch (error: any) {
+    console.error('[FYERS-QUOTES] Get quotes error:', error.message);
+    throw error;
+  }
+}
+
+export interface FyersDepthLevel {
+  price?: number;
+  volume?: number;
+  ord?: number;
+}
+
+export interface FyersDepth {
+  ask?: FyersDepthLevel[];
+  bids?: FyersDepthLevel[];
+  o?: number;
+  h?: number;
+  l?: number;
+  c?: number;
+  ltp?: number;
+  ltq?: number;
+  v?: number;
+  oi?: number;
+  totalbuyqty?: number;
+  totalsellqty?: number;
+}
+
+/**
+ * Get market depth (best five bids and asks, with OHLC and totals)
+ * Symbol in Fyers format (e.g., NSE:SBIN-EQ)
+ */
+export async function getFyersDepth(
+  accessToken: string,
+  symbol: string,
+  appId?: string
+): Promise<{ d?: Record<string, FyersDepth> }> {
+  try {
+    const url = `${FYERS_DATA_URL}/depth?symbol=${encodeURIComponent(symbol)}&ont_flag=1`;
+
+    // CRITICAL: Fyers API requires Authorization header in format: appId:accessToken
+    const authHeader = appId ? `${appId}:${accessToken}` : accessToken;
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        Authorization: authHeader,
+        'Content-Type': 'application/json; charset=UTF-8',
+      },
+    });
+
+    const responseData = await response.json();
+
+    if (!response.ok || responseData.s !== 'ok') {
+      console.error('[FYERS-DEPTH] Error response:', responseData);
+      throw new Error(`Failed to get market depth: ${responseData.message || response.statusText}`);
+    }
+
+    return responseData;
+  } catch (error) {
+    console.error('[FYERS-DEPTH] Get depth error:', error instanceof Error ? error.message : error);
+    throw error;
+  }
+}
+
 /**
  * Get tradebook (executed trades)
  */
@@ -625,7 +716,7 @@ export async function modifyFyersOrder(
   orderData: {
     symbol?: string;
     qty?: number;
-    type?: 'MARKET' | 'LIMIT';
+    type?: 'MARKET' | 'LIMIT' | 'SL_MARKET' | 'SL_LIMIT';
     side?: 'BUY' | 'SELL';
     productType?: 'INTRADAY' | 'CNC' | 'MARGIN';
     price?: number;
@@ -640,20 +731,25 @@ export async function modifyFyersOrder(
     const authHeader = appId ? `${appId}:${accessToken}` : accessToken;
     console.log('[FYERS-MODIFYORDER] Authorization header format: {appId}:{token}');
 
+    // Fyers v3 expects numeric order types (1=LIMIT, 2=MARKET, 3=SL_MARKET, 4=SL_LIMIT)
+    const typeMap: { [key: string]: number } = {
+      'LIMIT': 1,
+      'MARKET': 2,
+      'SL_MARKET': 3,
+      'SL_LIMIT': 4,
+    };
+
     const response = await fetch(`${FYERS_API_URL}/orders/sync`, {
-      method: 'PUT',
+      method: 'PATCH',
       headers: {
         'Content-Type': 'application/json; charset=UTF-8',
         Authorization: authHeader,
       },
       body: JSON.stringify({
         id: orderId,
-        symbol: orderData.symbol,
         qty: orderData.qty,
-        type: orderData.type,
-        side: orderData.side,
-        productType: orderData.productType,
-        price: orderData.price || 0,
+        type: orderData.type ? typeMap[orderData.type] : undefined,
+        limitPrice: orderData.price || 0,
         stopPrice: orderData.stopPrice || 0,
       }),
     });
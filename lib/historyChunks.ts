@@ -0,0 +1,173 @@
+/**
+ * Historical Request Planning
+ * Works out which trading days of a stored OHLC series need fetching, and splits them
+ * into ranges each broker accepts in a single historical request
+ *
+ * Dates are IST calendar dates (YYYY-MM-DD), inclusive at both ends
+ */
+
+import { marketSessions } from './tradingCalendar';
+import { Candle, HISTORY_INTERVALS, HistoryInterval } from './types/candles';
+
+export type HistoryBroker = 'zerodha' | 'fyers';
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+const IST_OFFSET_SECONDS = 5.5 * 3600;
+const DAY_MS = 86400 * 1000;
+
+// Longest span (calendar days) one historical request may cover
+const MAX_DAYS_PER_REQUEST: Record<HistoryBroker, Record<HistoryInterval, number>> = {
+  zerodha: {
+    minute: 60,
+    '3minute': 100,
+    '5minute': 100,
+    '10minute': 100,
+    '15minute': 200,
+    '30minute': 200,
+    '60minute': 400,
+    day: 2000,
+  },
+  fyers: {
+    minute: 100,
+    '3minute': 100,
+    '5minute': 100,
+    '10minute': 100,
+    '15minute': 100,
+    '30minute': 100,
+    '60minute': 100,
+    day: 366,
+  },
+};
+
+// Historical requests per second allowed by each broker
+export const HISTORY_REQUESTS_PER_SECOND: Record<HistoryBroker, number> = {
+  zerodha: 3,
+  fyers: 5,
+};
+
+export function isHistoryInterval(value: string | null): value is HistoryInterval {
+  return HISTORY_INTERVALS.includes(value as HistoryInterval);
+}
+
+export function historyIntervalSeconds(interval: HistoryInterval): number {
+  if (interval === 'day') return 86400;
+  return interval === 'minute' ? 60 : parseInt(interval, 10) * 60;
+}
+
+export function maxDaysPerRequest(broker: HistoryBroker, interval: HistoryInterval): number {
+  return MAX_DAYS_PER_REQUEST[broker][interval];
+}
+
+/**
+ * IST date of a Unix timestamp (seconds)
+ */
+export function istDateOf(time: number): string {
+  return new Date((time + IST_OFFSET_SECONDS) * 1000).toISOString().split('T')[0];
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Days from `from` to `to` with a session on the exchange's calendar, muhurat-only days included
+ */
+export function tradingDates(from: string, to: string, exchange: string = 'NSE'): string[] {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (marketSessions(exchange, date).length > 0) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Group the missing days into ranges of consecutive trading days
+ * (a weekend or holiday between two missing days does not split a range)
+ */
+export function missingRanges(dates: string[], missing: Set<string>): DateRange[] {
+  const ranges: DateRange[] = [];
+  let current: DateRange | null = null;
+
+  for (const date of dates) {
+    if (!missing.has(date)) {
+      current = null;
+    } else if (current) {
+      current.to = date;
+    } else {
+      current = { from: date, to: date };
+      ranges.push(current);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Split a range into consecutive pieces spanning at most `maxDays` calendar days
+ */
+export function chunkDateRange(range: DateRange, maxDays: number): DateRange[] {
+  const chunks: DateRange[] = [];
+  for (let from = range.from; from <= range.to; from = addDays(from, maxDays)) {
+    const to = addDays(from, maxDays - 1);
+    chunks.push({ from, to: to < range.to ? to : range.to });
+  }
+  return chunks;
+}
+
+export function isValidCandle(candle: Candle): boolean {
+  const { time, open, high, low, close, volume } = candle;
+  if (![time, open, high, low, close, volume].every(Number.isFinite)) {
+    return false;
+  }
+  return low > 0 && high >= Math.max(open, close, low) && low <= Math.min(open, close) && volume >= 0;
+}
+
+/**
+ * Whether a stored day can be served as-is: every candle valid, on that day, and in order
+ */
+export function isValidCandleDay(date: string, candles: Candle[]): boolean {
+  return candles.every(
+    (candle, i) => isValidCandle(candle) && istDateOf(candle.time) === date && (i === 0 || candle.time > candles[i - 1].time)
+  );
+}
+
+/**
+ * Whether a past day's broker candles cover its trading: any candles at all, the last one
+ * running to the exchange's final close. An empty or truncated response is stored as
+ * incomplete, so the day is fetched again instead of being served with a hole
+ */
+export function isCompleteCandleDay(candles: Candle[], interval: HistoryInterval, sessionClose: number | null): boolean {
+  if (candles.length === 0) {
+    return false;
+  }
+  return sessionClose === null || candles[candles.length - 1].time + historyIntervalSeconds(interval) >= sessionClose;
+}
+
+/**
+ * Whether a stored day can be served without asking the broker again
+ */
+export function isServableCandleDay(date: string, day: { candles: Candle[]; complete: boolean } | undefined): boolean {
+  return day !== undefined && day.complete && isValidCandleDay(date, day.candles);
+}
+
+/**
+ * Group candles by IST date, oldest first within each day
+ */
+export function groupByDate(candles: Candle[]): Map<string, Candle[]> {
+  const days = new Map<string, Candle[]>();
+  for (const candle of [...candles].sort((a, b) => a.time - b.time)) {
+    const date = istDateOf(candle.time);
+    const day = days.get(date);
+    if (day) {
+      day.push(candle);
+    } else {
+      days.set(date, [candle]);
+    }
+  }
+  return days;
+}
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for alternative bar construction (Heikin-Ashi, Renko, Range, Point & Figure)
+ */
+
+import {
+  averageTrueRange,
+  heikinAshi,
+  pointAndFigure,
+  rangeBars,
+  renko,
+  resolveBoxSize,
+  transformChartData,
+} from '../barTransforms';
+
+function candle(time: number, open: number, high: number, low: number, close: number, volume = 100) {
+  return { time, open, high, low, close, volume };
+}
+
+function closes(prices: number[]) {
+  return prices.map((price, i) => candle(i * 60, price, price, price, price));
+}
+
+describe('heikinAshi', () => {
+  it('should average each candle and carry the open from the previous bar', () => {
+    const bars = heikinAshi([candle(0, 100, 110, 90, 104), candle(60, 104, 112, 100, 110)]);
+    expect(bars[0]).toEqual(candle(0, 102, 110, 90, 101));
+    expect(bars[1]).toEqual(candle(60, 101.5, 112, 100, 106.5));
+  });
+});
+
+describe('renko', () => {
+  it('should form one brick per full box and need two boxes to reverse', () => {
+    const bricks = renko(closes([100, 125, 115, 85]), 10);
+    expect(bricks.map((brick) => [brick.open, brick.close])).toEqual([
+      [100, 110],
+      [110, 120],
+      [110, 100],
+      [100, 90],
+    ]);
+  });
+
+  it('should give bricks from one candle unique, ascending times', () => {
+    const bricks = renko(closes([100, 130]), 10);
+    expect(bricks.map((brick) => brick.time)).toEqual([60, 61, 62]);
+    expect(bricks.map((brick) => brick.volume)).toEqual([200, 0, 0]);
+  });
+});
+
+describe('rangeBars', () => {
+  it('should close each bar once its range reaches the size', () => {
+    const bars = rangeBars([candle(0, 100, 112, 99, 111)], 5);
+    expect(bars.map((bar) => [bar.low, bar.high])).toEqual([
+      [99, 104],
+      [104, 109],
+      [109, 112],
+    ]);
+    expect(bars.every((bar) => bar.high - bar.low <= 5)).toBe(true);
+  });
+});
+
+describe('pointAndFigure', () => {
+  it('should extend columns by whole boxes and reverse after three boxes', () => {
+    const columns = pointAndFigure(closes([100, 112, 124, 110, 104, 96]), 5, 3);
+    expect(columns.map((column) => [column.open, column.close])).toEqual([
+      [100, 120],
+      [115, 100],
+    ]);
+  });
+});
+
+describe('box size', () => {
+  it('should use the ATR of completed candles, rounded to the tick size', () => {
+    const candles = [candle(0, 100, 102, 98, 100), candle(60, 100, 103, 99, 101), candle(120, 101, 104, 100, 102)];
+    expect(averageTrueRange(candles, 2)).toBeCloseTo(4);
+    expect(resolveBoxSize([...candles, candle(180, 102, 150, 50, 120)], { method: 'atr', period: 2 })).toBeCloseTo(4);
+  });
+
+  it('should fall back to candles without enough history for the ATR', () => {
+    const candles = closes([100, 120]);
+    expect(transformChartData(candles, { type: 'renko', boxSize: { method: 'atr', period: 14 }, reversal: 3 })).toBe(candles);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Alternative Bar Construction
+ * Pure transforms from time-based OHLC candles to Heikin-Ashi, Renko, Range and
+ * Point & Figure bars. Charts render the transformed series and compute their
+ * indicators and signals on it
+ *
+ * Renko, Range and P&F bars are price-based, so one candle can form several bars (or none).
+ * A bar takes the time of the candle it formed in, pushed forward a second at a time when
+ * needed, so bar times stay unique and ascending for the chart
+ */
+
+import { Candle } from '../types/candles';
+
+export type ChartType = 'candles' | 'heikin-ashi' | 'renko' | 'range' | 'point-figure';
+
+// Brick (Renko), bar range (Range) or box (P&F) size
+export type BoxSize =
+  | { method: 'atr'; period: number }        // ATR of the completed candles
+  | { method: 'fixed'; size: number };       // Price units
+
+export interface ChartTypeConfig {
+  type: ChartType;
+  boxSize: BoxSize;
+  reversal: number;                          // P&F boxes against the column to start a new one
+}
+
+export const DEFAULT_CHART_TYPE: ChartTypeConfig = {
+  type: 'candles',
+  boxSize: { method: 'atr', period: 14 },
+  reversal: 3,
+};
+
+export const CHART_TYPE_OPTIONS: { label: string; value: ChartType }[] = [
+  { label: 'Candles', value: 'candles' },
+  { label: 'Heikin-Ashi', value: 'heikin-ashi' },
+  { label: 'Renko', value: 'renko' },
+  { label: 'Range', value: 'range' },
+  { label: 'Point & Figure', value: 'point-figure' },
+];
+
+// NSE tick size; ATR-based sizes are rounded to it
+const TICK_SIZE = 0.05;
+
+function roundPrice(price: number): number {
+  return Math.round(price * 100) / 100;
+}
+
+/**
+ * Wilder's average true range over the whole series, or null with too few candles
+ */
+export function averageTrueRange(candles: Candle[], period: number): number | null {
+  if (period < 1 || candles.length <= period) {
+    return null;
+  }
+
+  let atr = 0;
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const prevClose = candles[i - 1].close;
+    const trueRange = Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+    atr = i <= period ? atr + trueRange / period : (atr * (period - 1) + trueRange) / period;
+  }
+  return atr;
+}
+
+/**
+ * Box size in price units; ATR sizes leave out the last (possibly forming) candle so
+ * live updates don't resize every brick
+ */
+export function resolveBoxSize(candles: Candle[], boxSize: BoxSize): number | null {
+  if (boxSize.method === 'fixed') {
+    return boxSize.size > 0 ? boxSize.size : null;
+  }
+  const atr = averageTrueRange(candles.slice(0, -1), boxSize.period);
+  return atr === null ? null : Math.max(TICK_SIZE, Math.round(atr / TICK_SIZE) * TICK_SIZE);
+}
+
+export function heikinAshi(candles: Candle[]): Candle[] {
+  const bars: Candle[] = [];
+  for (const candle of candles) {
+    const prev = bars[bars.length - 1];
+    const close = (candle.open + candle.high + candle.low + candle.close) / 4;
+    const open = prev ? (prev.open + prev.close) / 2 : (candle.open + candle.close) / 2;
+    bars.push({
+      time: candle.time,
+      open,
+      high: Math.max(candle.high, open, close),
+      low: Math.min(candle.low, open, close),
+      close,
+      volume: candle.volume,
+    });
+  }
+  return bars;
+}
+
+/**
+ * Bars built up as prices arrive, with unique ascending times
+ */
+class BarSeries {
+  readonly bars: Candle[] = [];
+
+  open(time: number, open: number, close = open): Candle {
+    const last = this.bars[this.bars.length - 1];
+    const bar = {
+      time: last ? Math.max(time, last.time + 1) : time,
+      open,
+      high: Math.max(open, close),
+      low: Math.min(open, close),
+      close,
+      volume: 0,
+    };
+    this.bars.push(bar);
+    return bar;
+  }
+}
+
+/**
+ * Traditional Renko on closes: a brick forms for each full box the close moves beyond the
+ * last brick, and reversing takes two boxes (one past the last brick's open)
+ * Candle volume goes to the first brick formed after it; the forming brick isn't shown
+ */
+export function renko(candles: Candle[], size: number): Candle[] {
+  const series = new BarSeries();
+  if (candles.length === 0 || size <= 0) return series.bars;
+
+  let top = candles[0].close;
+  let bottom = top;
+  let volume = 0;
+
+  for (const candle of candles) {
+    volume += candle.volume;
+    for (;;) {
+      let brick: Candle;
+      if (candle.close >= top + size) {
+        brick = series.open(candle.time, top, roundPrice(top + size));
+        bottom = top;
+        top = brick.close;
+      } else if (candle.close <= bottom - size) {
+        brick = series.open(candle.time, bottom, roundPrice(bottom - size));
+        top = bottom;
+        bottom = brick.close;
+      } else {
+        break;
+      }
+      brick.volume = volume;
+      volume = 0;
+    }
+  }
+  return series.bars;
+}
+
+/**
+ * Prices a candle most likely traded through: open, the nearer extreme, the other, close
+ */
+function pricePath(candle: Candle): number[] {
+  return candle.close >= candle.open
+    ? [candle.open, candle.low, candle.high, candle.close]
+    : [candle.open, candle.high, candle.low, candle.close];
+}
+
+/**
+ * Range bars: each bar closes once its high-low range reaches `size`, and the next opens there
+ * The last bar is still forming, so it moves with live updates
+ */
+export function rangeBars(candles: Candle[], size: number): Candle[] {
+  const series = new BarSeries();
+  if (candles.length === 0 || size <= 0) return series.bars;
+
+  let current = series.open(candles[0].time, candles[0].open);
+  for (const candle of candles) {
+    for (const price of pricePath(candle)) {
+      for (;;) {
+        if (price - current.low >= size) {
+          const close = roundPrice(current.low + size);
+          Object.assign(current, { high: close, close });
+          current = series.open(candle.time, close);
+        } else if (current.high - price >= size) {
+          const close = roundPrice(current.high - size);
+          Object.assign(current, { low: close, close });
+          current = series.open(candle.time, close);
+        } else {
+          current.high = Math.max(current.high, price);
+          current.low = Math.min(current.low, price);
+          current.close = price;
+          break;
+        }
+      }
+    }
+    current.volume += candle.volume;
+  }
+  return series.bars;
+}
+
+/**
+ * Point & Figure on closes, one bar per column: X columns rise from open to close, O columns fall
+ * A column extends by whole boxes and reverses after `reversal` boxes against it
+ */
+export function pointAndFigure(candles: Candle[], size: number, reversal: number): Candle[] {
+  const series = new BarSeries();
+  if (candles.length === 0 || size <= 0) return series.bars;
+
+  const boxBelow = (price: number) => roundPrice(Math.floor(price / size + 1e-9) * size);
+  const boxAbove = (price: number) => roundPrice(Math.ceil(price / size - 1e-9) * size);
+
+  const anchor = boxBelow(candles[0].close);
+  let column: Candle | null = null;
+  let rising = true;
+
+  for (const candle of candles) {
+    const { close } = candle;
+
+    if (!column) {
+      if (close >= anchor + size) {
+        column = series.open(candle.time, anchor, boxBelow(close));
+        rising = true;
+      } else if (close <= anchor - size) {
+        column = series.open(candle.time, anchor, boxAbove(close));
+        rising = false;
+      }
+    } else if (rising) {
+      if (boxBelow(close) > column.high) {
+        column.high = column.close = boxBelow(close);
+      } else if (close <= column.high - reversal * size) {
+        column = series.open(candle.time, roundPrice(column.high - size), boxAbove(close));
+        rising = false;
+      }
+    } else if (boxAbove(close) < column.low) {
+      column.low = column.close = boxAbove(close);
+    } else if (close >= column.low + reversal * size) {
+      column = series.open(candle.time, roundPrice(column.low + size), boxBelow(close));
+      rising = true;
+    }
+
+    if (column) {
+      column.volume += candle.volume;
+    }
+  }
+  return series.bars;
+}
+
+/**
+ * Transform candles for a chart type; price-based types fall back to candles until
+ * there is enough history for an ATR box size
+ */
+export function transformChartData<T extends Candle>(candles: T[], config: ChartTypeConfig): Candle[] {
+  if (config.type === 'candles') return candles;
+  if (config.type === 'heikin-ashi') return heikinAshi(candles);
+
+  const size = resolveBoxSize(candles, config.boxSize);
+  if (size === null) return candles;
+
+  if (config.type === 'renko') return renko(candles, size);
+  if (config.type === 'range') return rangeBars(candles, size);
+  return pointAndFigure(candles, size, Math.max(1, config.reversal));
+}
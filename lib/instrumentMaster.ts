@@ -0,0 +1,451 @@
+/**
+ * Instrument Master
+ * Every broker's instruments under their OpenAlgo symbols (lib/instrumentSymbols.ts), so
+ * order and data routes resolve a symbol to the broker's own symbol and token, and back,
+ * in one place
+ *
+ * Each broker's dump is downloaded on first use and again once it is a day old (contracts
+ * are listed and expire daily). Until a broker's dump loads, its symbols are translated by
+ * its naming rules alone, without tokens. Freeze quantities come from
+ * lib/data/freezeQuantities.json
+ *
+ * Dump URLs can be pointed at a stand-in server: ZERODHA_INSTRUMENTS_URL,
+ * ANGEL_SCRIP_MASTER_URL and FYERS_SYMBOL_MASTER_URL (the directory holding the segment CSVs)
+ */
+
+import freezeQuantities from './data/freezeQuantities.json';
+import {
+  AngelScrip,
+  BrokerInstrument,
+  INSTRUMENT_BROKERS,
+  INSTRUMENT_EXCHANGES,
+  Instrument,
+  InstrumentBroker,
+  InstrumentExchange,
+  InstrumentType,
+  formatBrokerSymbol,
+  indexSymbol,
+  isIndexSymbol,
+  parseAngelScripMaster,
+  parseBrokerSymbol,
+  parseFyersSymbolMaster,
+  parseOpenAlgoSymbol,
+  parseZerodhaInstruments,
+} from './instrumentSymbols';
+import { optionExchange } from './expiryCalendar';
+
+export interface InstrumentMasterStatus {
+  broker: InstrumentBroker;
+  loaded: boolean;
+  loadedAt: number | null;       // Unix ms
+  instruments: number;
+  error: string | null;          // Last failed download
+}
+
+interface BrokerDump {
+  instruments: Instrument[];
+  loadedAt: number;
+}
+
+const ZERODHA_INSTRUMENTS_URL = 'https://api.kite.trade/instruments';
+const ANGEL_SCRIP_MASTER_URL = 'https://margincalculator.angelbroking.com/OpenAPI_File/files/OpenAPIScripMaster.json';
+const FYERS_SYMBOL_MASTER_URL = 'https://public.fyers.in/sym_details';
+const FYERS_SEGMENTS = ['NSE_CM', 'NSE_FO', 'NSE_CD', 'BSE_CM', 'BSE_FO', 'MCX_COM'];
+
+const REFRESH_MS = 24 * 60 * 60 * 1000;
+// A failed download isn't retried on every lookup
+const RETRY_MS = 5 * 60 * 1000;
+
+const dumps = new Map<InstrumentBroker, BrokerDump>();
+const loading = new Map<InstrumentBroker, Promise<boolean>>();
+const failures = new Map<InstrumentBroker, { message: string; at: number }>();
+
+// Merged across brokers, rebuilt whenever a dump changes
+let bySymbol = new Map<string, Instrument>();              // NFO:NIFTY28MAR2420000CE
+let byBrokerSymbol = new Map<string, Instrument>();        // zerodha:NFO:NIFTY24MAR20000CE (Fyers without prefix)
+let byBrokerToken = new Map<string, Instrument[]>();       // angel:43650 (Angel reuses tokens across exchanges)
+
+function symbolKey(exchange: string, symbol: string): string {
+  return `${exchange}:${symbol}`;
+}
+
+function brokerSymbolKey(broker: InstrumentBroker, exchange: string, symbol: string): string {
+  return `${broker}:${exchange}:${symbol.slice(symbol.indexOf(':') + 1).toUpperCase()}`;
+}
+
+function freezeQuantity(instrument: Instrument): number | null {
+  if (instrument.instrumentType === 'EQ' || instrument.instrumentType === 'INDEX') {
+    return null;
+  }
+  const limits = (freezeQuantities as Record<string, Record<string, number>>)[instrument.exchange];
+  return limits?.[instrument.name] ?? null;
+}
+
+function rebuildIndexes() {
+  const symbols = new Map<string, Instrument>();
+  const brokerSymbols = new Map<string, Instrument>();
+  const brokerTokens = new Map<string, Instrument[]>();
+
+  for (const broker of INSTRUMENT_BROKERS) {
+    for (const parsed of dumps.get(broker)?.instruments || []) {
+      const mapped = parsed.brokers[broker]!;
+      const key = symbolKey(parsed.exchange, parsed.symbol);
+      let instrument = symbols.get(key);
+      if (instrument) {
+        instrument.brokers[broker] = mapped;
+      } else {
+        instrument = { ...parsed, freezeQty: freezeQuantity(parsed), brokers: { [broker]: mapped } };
+        symbols.set(key, instrument);
+      }
+
+      brokerSymbols.set(brokerSymbolKey(broker, parsed.exchange, mapped.symbol), instrument);
+      const tokenKey = `${broker}:${mapped.token}`;
+      brokerTokens.set(tokenKey, [...(brokerTokens.get(tokenKey) || []), instrument]);
+    }
+  }
+
+  bySymbol = symbols;
+  byBrokerSymbol = brokerSymbols;
+  byBrokerToken = brokerTokens;
+}
+
+/**
+ * Replace a broker's instruments (a freshly parsed dump)
+ */
+export function setBrokerInstruments(broker: InstrumentBroker, instruments: Instrument[], loadedAt: number = Date.now()) {
+  dumps.set(broker, { instruments, loadedAt });
+  rebuildIndexes();
+}
+
+async function fetchOk(url: string, label: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${label} fetch failed with status ${response.status}`);
+  }
+  return response;
+}
+
+async function downloadDump(broker: InstrumentBroker): Promise<Instrument[]> {
+  switch (broker) {
+    case 'zerodha': {
+      const response = await fetchOk(process.env.ZERODHA_INSTRUMENTS_URL || ZERODHA_INSTRUMENTS_URL, 'Zerodha instruments', {
+        headers: { 'X-Kite-Version': '3' },
+      });
+      return parseZerodhaInstruments(await response.text());
+    }
+    case 'angel': {
+      const response = await fetchOk(process.env.ANGEL_SCRIP_MASTER_URL || ANGEL_SCRIP_MASTER_URL, 'Angel scrip master');
+      return parseAngelScripMaster((await response.json()) as AngelScrip[]);
+    }
+    case 'fyers': {
+      const baseUrl = process.env.FYERS_SYMBOL_MASTER_URL || FYERS_SYMBOL_MASTER_URL;
+      const segments = await Promise.all(
+        FYERS_SEGMENTS.map(async (segment) =>
+          parseFyersSymbolMaster(await (await fetchOk(`${baseUrl}/${segment}.csv`, `Fyers ${segment} symbol master`)).text())
+        )
+      );
+      return segments.flat();
+    }
+  }
+}
+
+/**
+ * Make sure a broker's dump is loaded and less than a day old
+ * Resolves false when it can't be downloaded and no earlier dump is loaded
+ */
+export async function loadInstruments(broker: InstrumentBroker, now: number = Date.now()): Promise<boolean> {
+  const dump = dumps.get(broker);
+  if (dump && now - dump.loadedAt < REFRESH_MS) {
+    return true;
+  }
+  const failure = failures.get(broker);
+  if (failure && now - failure.at < RETRY_MS) {
+    return !!dump;
+  }
+
+  let pending = loading.get(broker);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const instruments = await downloadDump(broker);
+        setBrokerInstruments(broker, instruments);
+        failures.delete(broker);
+        console.log(`[INSTRUMENTS] Loaded ${instruments.length} ${broker} instruments`);
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : `Failed to load ${broker} instruments`;
+        failures.set(broker, { message, at: Date.now() });
+        console.error(`[INSTRUMENTS] Failed to load ${broker} instruments:`, message);
+        return dumps.has(broker);
+      } finally {
+        loading.delete(broker);
+      }
+    })();
+    loading.set(broker, pending);
+  }
+  return pending;
+}
+
+/**
+ * Load every broker's dump (at startup)
+ */
+export async function loadAllInstruments(): Promise<void> {
+  await Promise.all(INSTRUMENT_BROKERS.map((broker) => loadInstruments(broker)));
+}
+
+/**
+ * Load the dump of an account's broker; brokers the master doesn't cover (paper, Dhan,
+ * Upstox) use OpenAlgo symbols, so any loaded dump describes their instruments
+ * Resolves false when nothing could be loaded
+ */
+export async function loadInstrumentsFor(broker: string): Promise<boolean> {
+  if (INSTRUMENT_BROKERS.includes(broker as InstrumentBroker)) {
+    return loadInstruments(broker as InstrumentBroker);
+  }
+  await loadAllInstruments();
+  return dumps.size > 0;
+}
+
+export function instrumentMasterStatus(): InstrumentMasterStatus[] {
+  return INSTRUMENT_BROKERS.map((broker) => {
+    const dump = dumps.get(broker);
+    return {
+      broker,
+      loaded: !!dump,
+      loadedAt: dump?.loadedAt ?? null,
+      instruments: dump?.instruments.length ?? 0,
+      error: failures.get(broker)?.message ?? null,
+    };
+  });
+}
+
+/**
+ * Split "EXCHANGE:SYMBOL"; the prefix wins over `exchange`
+ */
+function splitSymbol(symbol: string, exchange?: string): { name: string; exchange: string | null } {
+  const value = symbol.trim().toUpperCase();
+  const separator = value.indexOf(':');
+  if (separator >= 0) {
+    return { name: value.slice(separator + 1), exchange: value.slice(0, separator) };
+  }
+  return { name: value, exchange: exchange ? exchange.toUpperCase() : null };
+}
+
+function isDerivativeSymbol(name: string): boolean {
+  return parseOpenAlgoSymbol(name) !== null || /(\dCE|\dPE|FUT)$/.test(name);
+}
+
+/**
+ * Exchanges a symbol may trade on: the given exchange and, for NSE and BSE, their index
+ * and derivative exchanges (Fyers prefixes derivatives with the cash exchange);
+ * without an exchange, wherever instruments of its shape trade
+ */
+function candidateExchanges(name: string, exchange: string | null): InstrumentExchange[] {
+  if (exchange === 'NSE') return ['NSE', 'NSE_INDEX', 'NFO', 'CDS'];
+  if (exchange === 'BSE') return ['BSE', 'BSE_INDEX', 'BFO', 'BCD'];
+  if (exchange) {
+    return INSTRUMENT_EXCHANGES.includes(exchange as InstrumentExchange) ? [exchange as InstrumentExchange] : [];
+  }
+  return isDerivativeSymbol(name) ? ['NFO', 'BFO', 'MCX', 'CDS', 'BCD'] : ['NSE', 'NSE_INDEX', 'BSE', 'BSE_INDEX'];
+}
+
+/**
+ * The exchange to translate an unknown symbol for
+ */
+function defaultExchange(name: string, exchange: string | null): InstrumentExchange {
+  const derivative = isDerivativeSymbol(name);
+  if (exchange === 'NSE' || exchange === 'BSE') {
+    return derivative ? (exchange === 'NSE' ? 'NFO' : 'BFO') : isIndexSymbol(name) ? `${exchange}_INDEX` : exchange;
+  }
+  if (exchange && INSTRUMENT_EXCHANGES.includes(exchange as InstrumentExchange)) {
+    return exchange as InstrumentExchange;
+  }
+  if (derivative) {
+    return optionExchange(parseOpenAlgoSymbol(name)?.name ?? name);
+  }
+  return isIndexSymbol(name) ? 'NSE_INDEX' : 'NSE';
+}
+
+/**
+ * Instrument for an OpenAlgo symbol, or a broker's symbol for it ("EXCHANGE:SYMBOL" or a
+ * bare symbol with `exchange`), among the dumps loaded so far
+ */
+export function findInstrument(symbol: string, exchange?: string): Instrument | null {
+  const { name, exchange: code } = splitSymbol(symbol, exchange);
+  for (const candidate of candidateExchanges(name, code)) {
+    const names = candidate.endsWith('_INDEX') ? [name, indexSymbol(name)] : [name];
+    for (const candidateName of names) {
+      const found =
+        bySymbol.get(symbolKey(candidate, candidateName)) ??
+        INSTRUMENT_BROKERS.map((broker) => byBrokerSymbol.get(brokerSymbolKey(broker, candidate, candidateName))).find(Boolean);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * A broker's symbol, exchange and token for a symbol (as findInstrument takes it)
+ * Instruments missing from the broker's dump are translated by its naming rules, without a token
+ */
+export function brokerInstrument(broker: InstrumentBroker, symbol: string, exchange?: string): BrokerInstrument {
+  const found = findInstrument(symbol, exchange);
+  const mapped = found?.brokers[broker];
+  if (mapped) {
+    return mapped;
+  }
+  if (found) {
+    return formatBrokerSymbol(broker, found.symbol, found.exchange);
+  }
+  const { name, exchange: code } = splitSymbol(symbol, exchange);
+  return formatBrokerSymbol(broker, name, defaultExchange(name, code));
+}
+
+/**
+ * brokerInstrument after loading the broker's dump
+ */
+export async function resolveBrokerInstrument(
+  broker: InstrumentBroker,
+  symbol: string,
+  exchange?: string
+): Promise<BrokerInstrument> {
+  await loadInstruments(broker);
+  return brokerInstrument(broker, symbol, exchange);
+}
+
+/**
+ * OpenAlgo symbol and exchange for a broker's symbol
+ */
+export function openAlgoInstrument(
+  broker: InstrumentBroker,
+  brokerSymbol: string,
+  brokerExchange?: string
+): { symbol: string; exchange: InstrumentExchange } {
+  const { name, exchange: code } = splitSymbol(brokerSymbol, brokerExchange);
+  for (const candidate of candidateExchanges(name, code)) {
+    const found = byBrokerSymbol.get(brokerSymbolKey(broker, candidate, name));
+    if (found) {
+      return { symbol: found.symbol, exchange: found.exchange };
+    }
+  }
+  return parseBrokerSymbol(broker, brokerSymbol, brokerExchange);
+}
+
+/**
+ * Instrument for a broker's token; `exchange` (OpenAlgo) picks between Angel's
+ * instruments sharing a token
+ */
+export function instrumentByToken(broker: InstrumentBroker, token: string | number, exchange?: string): Instrument | null {
+  const matches = byBrokerToken.get(`${broker}:${token}`) || [];
+  return (exchange ? matches.find((instrument) => instrument.exchange === exchange.toUpperCase()) : matches[0]) ?? null;
+}
+
+/**
+ * Every loaded instrument
+ */
+export function listInstruments(): Instrument[] {
+  return Array.from(bySymbol.values());
+}
+
+export interface InstrumentSearchOptions {
+  exchange?: string;
+  instrumentType?: InstrumentType | 'OPT';   // OPT matches either option type
+  limit?: number;                            // All matches when omitted
+}
+
+// Cash instruments rank above derivatives that match equally well
+const TYPE_RANK: Record<InstrumentType, number> = { INDEX: 0, EQ: 1, FUT: 2, CE: 3, PE: 3 };
+
+/**
+ * How well one query term matches a symbol or name: whole symbol, symbol prefix, whole
+ * name, substring (earlier is better), then the term's letters in order (fewer gaps is
+ * better); 0 when it doesn't match
+ */
+function termScore(term: string, symbol: string, name: string): number {
+  if (symbol === term) return 100;
+  if (symbol.startsWith(term)) return 80;
+  if (name === term) return 70;
+  const at = symbol.indexOf(term);
+  if (at >= 0) return 60 - Math.min(at, 20);
+  if (name.includes(term)) return 40;
+
+  let position = -1;
+  let first = -1;
+  for (const char of term) {
+    position = symbol.indexOf(char, position + 1);
+    if (position < 0) return 0;
+    if (first < 0) first = position;
+  }
+  const gaps = position - first + 1 - term.length;
+  return Math.max(1, 20 - gaps);
+}
+
+function isOption(instrument: Instrument): boolean {
+  return instrument.instrumentType === 'CE' || instrument.instrumentType === 'PE';
+}
+
+function matchScore(terms: string[], compactQuery: string, instrument: Instrument): number {
+  const name = instrument.name.toUpperCase();
+  let score = instrument.symbol === compactQuery ? 1000 : 0;
+  for (const term of terms) {
+    const termMatch = termScore(term, instrument.symbol, name);
+    if (termMatch === 0) return 0;
+    score += termMatch;
+  }
+  return score;
+}
+
+/**
+ * Loaded instruments matching a query, best first
+ * Every whitespace-separated term must match the symbol or name ("nifty 20000 ce", "state bank");
+ * ties go to indices and equities, then nearer expiries and lower strikes
+ */
+export function searchInstruments(query: string, options: InstrumentSearchOptions = {}): Instrument[] {
+  const terms = query.trim().toUpperCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return [];
+  }
+  const compactQuery = terms.join('');
+  const exchange = options.exchange?.toUpperCase();
+  const type = options.instrumentType;
+
+  const matches: { instrument: Instrument; score: number }[] = [];
+  for (const instrument of bySymbol.values()) {
+    if (exchange && instrument.exchange !== exchange) continue;
+    if (type && !(type === 'OPT' ? isOption(instrument) : instrument.instrumentType === type)) continue;
+    const score = matchScore(terms, compactQuery, instrument);
+    if (score > 0) {
+      matches.push({ instrument, score });
+    }
+  }
+
+  return matches
+    .sort((a, b) =>
+      b.score - a.score ||
+      TYPE_RANK[a.instrument.instrumentType] - TYPE_RANK[b.instrument.instrumentType] ||
+      (a.instrument.expiry ?? '').localeCompare(b.instrument.expiry ?? '') ||
+      (a.instrument.strike ?? 0) - (b.instrument.strike ?? 0) ||
+      a.instrument.symbol.localeCompare(b.instrument.symbol)
+    )
+    .slice(0, options.limit)
+    .map((match) => match.instrument);
+}
+
+/**
+ * Expiries (YYYY-MM-DD, soonest first) of an underlying's loaded futures and/or options,
+ * on `exchange` or any derivative exchange
+ */
+export function instrumentExpiries(underlying: string, exchange?: string, kind?: 'FUT' | 'OPT'): string[] {
+  const name = underlying.trim().toUpperCase();
+  const code = exchange?.toUpperCase();
+  const expiries = new Set<string>();
+  for (const instrument of bySymbol.values()) {
+    if (!instrument.expiry || instrument.name !== name) continue;
+    if (code && instrument.exchange !== code) continue;
+    if (kind && (kind === 'OPT' ? !isOption(instrument) : instrument.instrumentType !== 'FUT')) continue;
+    expiries.add(instrument.expiry);
+  }
+  return Array.from(expiries).sort();
+}
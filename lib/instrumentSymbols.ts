@@ -0,0 +1,532 @@
+/**
+ * Instrument Symbols
+ * OpenAlgo symbols, the brokers' instrument dumps and translation between their symbol
+ * formats. Pure parsing, kept apart from the instrument master (lib/instrumentMaster.ts)
+ * so it can be tested on recorded dumps
+ *
+ * OpenAlgo symbols:
+ * - Equity: SBIN (NSE, BSE)
+ * - Index: NIFTY, BANKNIFTY, SENSEX (NSE_INDEX, BSE_INDEX)
+ * - Future: NIFTY28MAR24FUT (underlying + DDMMMYY + FUT)
+ * - Option: NIFTY28MAR2420000CE (underlying + DDMMMYY + strike + CE/PE)
+ *
+ * Broker symbols:
+ * - Zerodha: SBIN, NIFTY 50, NIFTY24MARFUT, NIFTY24MAR20000CE (monthly), NIFTY2431420000CE (weekly)
+ * - Angel: SBIN-EQ, Nifty 50, NIFTY28MAR24FUT, NIFTY28MAR2420000CE
+ * - Fyers: NSE:SBIN-EQ, NSE:NIFTY50-INDEX, and the Zerodha derivative symbols with the
+ *   cash exchange prefix (NSE:NIFTY24MAR20000CE)
+ */
+
+import { MONTHS, expiryCode, monthlyExpiry, optionExchange, optionSymbol } from './expiryCalendar';
+
+export type InstrumentBroker = 'zerodha' | 'angel' | 'fyers';
+
+export type InstrumentExchange = 'NSE' | 'BSE' | 'NFO' | 'BFO' | 'CDS' | 'BCD' | 'MCX' | 'NSE_INDEX' | 'BSE_INDEX';
+
+// CE and PE are options, so the instrument type is also the option type
+export type InstrumentType = 'EQ' | 'INDEX' | 'FUT' | 'CE' | 'PE';
+
+export interface BrokerInstrument {
+  symbol: string;                // Broker trading symbol (SBIN-EQ, NSE:SBIN-EQ, NIFTY 50)
+  exchange: string;              // Broker exchange (NSE for NSE_INDEX)
+  token: string;                 // Broker instrument token ('' when not in the broker's dump)
+}
+
+export interface Instrument {
+  symbol: string;                // OpenAlgo symbol
+  exchange: InstrumentExchange;
+  name: string;                  // Company name for equities, underlying for derivatives
+  instrumentType: InstrumentType;
+  expiry: string | null;         // YYYY-MM-DD
+  strike: number | null;
+  lotSize: number;
+  tickSize: number;
+  freezeQty: number | null;      // Largest quantity the exchange accepts in one order, where known
+  brokers: Partial<Record<InstrumentBroker, BrokerInstrument>>;
+}
+
+export const INSTRUMENT_BROKERS: InstrumentBroker[] = ['zerodha', 'angel', 'fyers'];
+
+export const INSTRUMENT_EXCHANGES: InstrumentExchange[] = [
+  'NSE', 'BSE', 'NFO', 'BFO', 'CDS', 'BCD', 'MCX', 'NSE_INDEX', 'BSE_INDEX',
+];
+
+// OpenAlgo index symbol -> Zerodha tradingsymbol and Fyers ticker name
+const INDEX_NAMES: Record<string, { zerodha: string; fyers: string }> = {
+  NIFTY: { zerodha: 'NIFTY 50', fyers: 'NIFTY50' },
+  BANKNIFTY: { zerodha: 'NIFTY BANK', fyers: 'NIFTYBANK' },
+  FINNIFTY: { zerodha: 'NIFTY FIN SERVICE', fyers: 'FINNIFTY' },
+  MIDCPNIFTY: { zerodha: 'NIFTY MID SELECT', fyers: 'MIDCPNIFTY' },
+  NIFTYNXT50: { zerodha: 'NIFTY NEXT 50', fyers: 'NIFTYNXT50' },
+  INDIAVIX: { zerodha: 'INDIA VIX', fyers: 'INDIAVIX' },
+  SENSEX: { zerodha: 'SENSEX', fyers: 'SENSEX' },
+  BANKEX: { zerodha: 'BANKEX', fyers: 'BANKEX' },
+};
+
+// Broker index names without spaces -> OpenAlgo index symbol
+const INDEX_ALIASES = new Map<string, string>(
+  Object.entries(INDEX_NAMES).flatMap(([symbol, names]) => [
+    [compact(names.zerodha), symbol],
+    [compact(names.fyers), symbol],
+  ])
+);
+
+// Exchanges listing derivatives under the cash exchange's name (Fyers prefixes, broker index exchanges)
+const CASH_EXCHANGES: Record<InstrumentExchange, string> = {
+  NSE: 'NSE', NFO: 'NSE', CDS: 'NSE', NSE_INDEX: 'NSE',
+  BSE: 'BSE', BFO: 'BSE', BCD: 'BSE', BSE_INDEX: 'BSE',
+  MCX: 'MCX',
+};
+
+const DERIVATIVE_EXCHANGES: Record<string, InstrumentExchange> = { NSE: 'NFO', BSE: 'BFO' };
+
+const MONTH_PATTERN = MONTHS.join('|');
+const NAME = '([A-Z0-9&_-]+?)';
+const STRIKE = '((?:[1-9]\\d*|0)(?:\\.\\d+)?)';
+const OPENALGO_OPTION = new RegExp(`^${NAME}(\\d{2})(${MONTH_PATTERN})(\\d{2})${STRIKE}(CE|PE)$`);
+const OPENALGO_FUTURE = new RegExp(`^${NAME}(\\d{2})(${MONTH_PATTERN})(\\d{2})FUT$`);
+const MONTHLY_OPTION = new RegExp(`^${NAME}(\\d{2})(${MONTH_PATTERN})${STRIKE}(CE|PE)$`);
+const WEEKLY_OPTION = new RegExp(`^${NAME}(\\d{2})([1-9OND])(\\d{2})${STRIKE}(CE|PE)$`);
+const MONTHLY_FUTURE = new RegExp(`^${NAME}(\\d{2})(${MONTH_PATTERN})FUT$`);
+
+// Zerodha/Fyers weekly expiry month codes
+const WEEKLY_MONTH_CODES = '123456789OND';
+
+const IST_OFFSET_MS = 5.5 * 3600 * 1000;
+
+function compact(name: string): string {
+  return name.toUpperCase().replace(/\s+/g, '');
+}
+
+function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function formatStrike(strike: number): string {
+  return String(Math.round(strike * 10000) / 10000);
+}
+
+/**
+ * OpenAlgo symbol of an index from any broker's name for it (NIFTY 50, NIFTYBANK, Nifty Fin Service)
+ * Indices without an OpenAlgo short name lose their spaces (NIFTY IT -> NIFTYIT)
+ */
+export function indexSymbol(name: string): string {
+  const key = compact(name);
+  return INDEX_ALIASES.get(key) ?? key;
+}
+
+export function isIndexSymbol(symbol: string): boolean {
+  const key = compact(symbol);
+  return key in INDEX_NAMES || INDEX_ALIASES.has(key);
+}
+
+/**
+ * OpenAlgo symbol for an instrument's parts
+ */
+export function openAlgoSymbol(
+  name: string,
+  instrumentType: InstrumentType,
+  expiry: string | null,
+  strike: number | null
+): string {
+  const base = name.toUpperCase();
+  if (instrumentType === 'INDEX') {
+    return indexSymbol(base);
+  }
+  if (instrumentType === 'EQ' || !expiry) {
+    return base;
+  }
+  const code = expiryCode({ date: expiry, monthly: false });
+  return instrumentType === 'FUT' ? `${base}${code}FUT` : `${base}${code}${formatStrike(strike ?? 0)}${instrumentType}`;
+}
+
+export interface SymbolParts {
+  name: string;
+  instrumentType: 'FUT' | 'CE' | 'PE';
+  expiry: string;
+  strike: number | null;
+}
+
+/**
+ * Underlying, expiry and strike of an OpenAlgo future or option symbol, or null for anything else
+ */
+export function parseOpenAlgoSymbol(symbol: string): SymbolParts | null {
+  const value = symbol.trim().toUpperCase();
+  const option = OPENALGO_OPTION.exec(value);
+  if (option) {
+    const [, name, day, month, year, strike, type] = option;
+    return {
+      name,
+      instrumentType: type as 'CE' | 'PE',
+      expiry: isoDate(2000 + Number(year), MONTHS.indexOf(month) + 1, Number(day)),
+      strike: Number(strike),
+    };
+  }
+  const future = OPENALGO_FUTURE.exec(value);
+  if (future) {
+    const [, name, day, month, year] = future;
+    return { name, instrumentType: 'FUT', expiry: isoDate(2000 + Number(year), MONTHS.indexOf(month) + 1, Number(day)), strike: null };
+  }
+  return null;
+}
+
+/**
+ * Underlying, expiry and strike of a Zerodha or Fyers derivative symbol (without the Fyers
+ * prefix). Monthly symbols carry no day, so their expiry is the underlying's monthly expiry
+ */
+function parseMonthCodedSymbol(symbol: string): SymbolParts | null {
+  // Monthly first: OCT, NOV and DEC start with weekly month codes
+  const monthly = MONTHLY_OPTION.exec(symbol);
+  if (monthly) {
+    const [, name, year, month, strike, type] = monthly;
+    return {
+      name,
+      instrumentType: type as 'CE' | 'PE',
+      expiry: monthlyExpiry(name, 2000 + Number(year), MONTHS.indexOf(month) + 1),
+      strike: Number(strike),
+    };
+  }
+  const weekly = WEEKLY_OPTION.exec(symbol);
+  if (weekly) {
+    const [, name, year, monthCode, day, strike, type] = weekly;
+    return {
+      name,
+      instrumentType: type as 'CE' | 'PE',
+      expiry: isoDate(2000 + Number(year), WEEKLY_MONTH_CODES.indexOf(monthCode) + 1, Number(day)),
+      strike: Number(strike),
+    };
+  }
+  const future = MONTHLY_FUTURE.exec(symbol);
+  if (future) {
+    const [, name, year, month] = future;
+    return { name, instrumentType: 'FUT', expiry: monthlyExpiry(name, 2000 + Number(year), MONTHS.indexOf(month) + 1), strike: null };
+  }
+  return null;
+}
+
+/**
+ * Zerodha/Fyers symbol of a derivative: monthly contracts by year and month, weekly
+ * options by year, month code and day (NSE and BSE index options only)
+ */
+function monthCodedSymbol(parts: SymbolParts, exchange: InstrumentExchange): string {
+  const year = Number(parts.expiry.slice(0, 4));
+  const month = Number(parts.expiry.slice(5, 7));
+  if (parts.instrumentType === 'FUT') {
+    return `${parts.name}${String(year % 100).padStart(2, '0')}${MONTHS[month - 1]}FUT`;
+  }
+  const weeklySeries = exchange === 'NFO' || exchange === 'BFO';
+  const monthly = !weeklySeries || parts.expiry === monthlyExpiry(parts.name, year, month);
+  return optionSymbol('zerodha', parts.name, { date: parts.expiry, monthly }, parts.strike ?? 0, parts.instrumentType);
+}
+
+/**
+ * A broker's symbol for an OpenAlgo symbol by the broker's naming rules alone, for
+ * instruments missing from its dump (the token is empty)
+ * Symbols that aren't OpenAlgo futures or options keep their name
+ */
+export function formatBrokerSymbol(broker: InstrumentBroker, symbol: string, exchange: InstrumentExchange): BrokerInstrument {
+  const value = symbol.trim().toUpperCase();
+  const cashExchange = CASH_EXCHANGES[exchange];
+  const brokerExchange = exchange.endsWith('_INDEX') ? cashExchange : exchange;
+  const parts = parseOpenAlgoSymbol(value);
+  const isIndex = exchange === 'NSE_INDEX' || exchange === 'BSE_INDEX';
+  let brokerSymbol = value;
+
+  if (broker === 'zerodha') {
+    if (parts) {
+      brokerSymbol = monthCodedSymbol(parts, exchange);
+    } else if (isIndex) {
+      brokerSymbol = INDEX_NAMES[indexSymbol(value)]?.zerodha ?? value;
+    }
+  } else if (broker === 'angel') {
+    if (exchange === 'NSE' && !value.includes('-')) {
+      brokerSymbol = `${value}-EQ`;
+    }
+  } else {
+    if (parts) {
+      brokerSymbol = monthCodedSymbol(parts, exchange);
+    } else if (isIndex) {
+      brokerSymbol = `${INDEX_NAMES[indexSymbol(value)]?.fyers ?? indexSymbol(value)}-INDEX`;
+    } else if ((exchange === 'NSE' || exchange === 'BSE') && !value.includes('-')) {
+      brokerSymbol = `${value}-${exchange === 'NSE' ? 'EQ' : 'A'}`;
+    }
+    brokerSymbol = `${cashExchange}:${brokerSymbol}`;
+  }
+  return { symbol: brokerSymbol, exchange: brokerExchange, token: '' };
+}
+
+/**
+ * OpenAlgo symbol and exchange for a broker's symbol by the broker's naming rules alone
+ * `brokerExchange` is the broker's exchange for the symbol; Fyers symbols carry their own
+ */
+export function parseBrokerSymbol(
+  broker: InstrumentBroker,
+  brokerSymbol: string,
+  brokerExchange: string = 'NSE'
+): { symbol: string; exchange: InstrumentExchange } {
+  let value = brokerSymbol.trim().toUpperCase();
+  let cashExchange = brokerExchange.toUpperCase();
+  const separator = value.indexOf(':');
+  if (separator >= 0) {
+    cashExchange = value.slice(0, separator);
+    value = value.slice(separator + 1);
+  }
+
+  const parts = broker === 'angel' ? parseOpenAlgoSymbol(value) : parseMonthCodedSymbol(value);
+  if (parts) {
+    const exchange = DERIVATIVE_EXCHANGES[cashExchange]
+      ?? (INSTRUMENT_EXCHANGES.includes(cashExchange as InstrumentExchange) ? (cashExchange as InstrumentExchange) : optionExchange(parts.name));
+    return { symbol: openAlgoSymbol(parts.name, parts.instrumentType, parts.expiry, parts.strike), exchange };
+  }
+
+  const indexExchange: InstrumentExchange = cashExchange === 'BSE' ? 'BSE_INDEX' : 'NSE_INDEX';
+  if (value.endsWith('-INDEX')) {
+    return { symbol: indexSymbol(value.slice(0, -'-INDEX'.length)), exchange: indexExchange };
+  }
+  if (isIndexSymbol(value)) {
+    return { symbol: indexSymbol(value), exchange: indexExchange };
+  }
+  const exchange = INSTRUMENT_EXCHANGES.includes(cashExchange as InstrumentExchange) ? (cashExchange as InstrumentExchange) : 'NSE';
+  return { symbol: stripSeries(value, exchange), exchange };
+}
+
+/**
+ * Equity symbol without its series suffix (SBIN-EQ, SBIN-BE, BSE SBIN-A)
+ */
+function stripSeries(symbol: string, exchange: string): string {
+  return exchange === 'BSE' ? symbol.replace(/-[A-Z0-9]{1,2}$/, '') : symbol.replace(/-(EQ|BE)$/, '');
+}
+
+/**
+ * Split a CSV line, keeping commas inside quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+  return values;
+}
+
+/**
+ * Equities keep their trading symbol (the name is the company's); everything else is
+ * named from its parts
+ */
+function instrument(
+  broker: InstrumentBroker,
+  fields: Omit<Instrument, 'symbol' | 'freezeQty' | 'brokers'>,
+  brokerInstrument: BrokerInstrument,
+  equitySymbol: string
+): Instrument {
+  return {
+    ...fields,
+    symbol: fields.instrumentType === 'EQ'
+      ? equitySymbol
+      : openAlgoSymbol(fields.name, fields.instrumentType, fields.expiry, fields.strike),
+    freezeQty: null,
+    brokers: { [broker]: brokerInstrument },
+  };
+}
+
+/**
+ * Instruments from Kite's instruments CSV (https://api.kite.trade/instruments)
+ */
+export function parseZerodhaInstruments(csv: string): Instrument[] {
+  const lines = csv.trim().split('\n');
+  const header = splitCsvLine(lines[0] || '').map((column) => column.toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  const [tokenAt, symbolAt, nameAt, expiryAt, strikeAt, tickAt, lotAt, typeAt, segmentAt, exchangeAt] = [
+    'instrument_token', 'tradingsymbol', 'name', 'expiry', 'strike', 'tick_size', 'lot_size', 'instrument_type', 'segment', 'exchange',
+  ].map(column);
+  if (tokenAt < 0 || symbolAt < 0 || exchangeAt < 0) {
+    throw new Error('Unexpected Zerodha instruments format');
+  }
+
+  const instruments: Instrument[] = [];
+  for (const line of lines.slice(1)) {
+    const row = splitCsvLine(line);
+    const tradingsymbol = (row[symbolAt] || '').toUpperCase();
+    const brokerExchange = row[exchangeAt] || '';
+    const type = row[typeAt];
+    const isIndex = row[segmentAt] === 'INDICES';
+    const exchange = (isIndex ? `${brokerExchange}_INDEX` : brokerExchange) as InstrumentExchange;
+    if (!tradingsymbol || !row[tokenAt] || !INSTRUMENT_EXCHANGES.includes(exchange)) continue;
+
+    const instrumentType: InstrumentType | null = isIndex ? 'INDEX' : type === 'EQ' || type === 'FUT' || type === 'CE' || type === 'PE' ? type : null;
+    if (!instrumentType) continue;
+    const derivative = instrumentType !== 'EQ' && instrumentType !== 'INDEX';
+
+    instruments.push(
+      instrument(
+        'zerodha',
+        {
+          exchange,
+          name: instrumentType === 'EQ' ? row[nameAt] || tradingsymbol : (row[nameAt] || tradingsymbol).toUpperCase(),
+          instrumentType,
+          expiry: derivative && row[expiryAt] ? row[expiryAt] : null,
+          strike: instrumentType === 'CE' || instrumentType === 'PE' ? Number(row[strikeAt]) : null,
+          lotSize: Number(row[lotAt]) || 1,
+          tickSize: Number(row[tickAt]) || 0.05,
+        },
+        { symbol: tradingsymbol, exchange: brokerExchange, token: row[tokenAt] },
+        tradingsymbol
+      )
+    );
+  }
+  return instruments;
+}
+
+/** Row of Angel's OpenAPIScripMaster.json */
+export interface AngelScrip {
+  token: string;
+  symbol: string;
+  name: string;
+  expiry: string;                // 25JAN2024
+  strike: string;                // Paise
+  lotsize: string;
+  instrumenttype: string;        // '' for equities, AMXIDX, FUTIDX, OPTSTK...
+  exch_seg: string;
+  tick_size: string;             // Paise
+}
+
+/**
+ * Instruments from Angel's scrip master (OpenAPIScripMaster.json)
+ * Strikes and tick sizes are in paise (1e7 units for currency)
+ */
+export function parseAngelScripMaster(scrips: AngelScrip[]): Instrument[] {
+  const instruments: Instrument[] = [];
+  for (const scrip of scrips) {
+    const brokerExchange = String(scrip.exch_seg || '').toUpperCase();
+    // Angel names indices in mixed case (Nifty 50) and expects them back that way
+    const brokerSymbol = String(scrip.symbol || '').trim();
+    const symbol = brokerSymbol.toUpperCase();
+    const kind = String(scrip.instrumenttype || '').toUpperCase();
+    if (!scrip.token || !symbol || !INSTRUMENT_EXCHANGES.includes(brokerExchange as InstrumentExchange)) continue;
+
+    let instrumentType: InstrumentType;
+    let exchange = brokerExchange as InstrumentExchange;
+    const name = String(scrip.name || symbol).toUpperCase();
+    if (kind === 'AMXIDX') {
+      if (brokerExchange !== 'NSE' && brokerExchange !== 'BSE') continue;
+      instrumentType = 'INDEX';
+      exchange = `${brokerExchange}_INDEX` as InstrumentExchange;
+    } else if (kind.startsWith('FUT')) {
+      instrumentType = 'FUT';
+    } else if (kind.startsWith('OPT') && /(CE|PE)$/.test(symbol)) {
+      instrumentType = symbol.slice(-2) as 'CE' | 'PE';
+    } else if (kind === '' || kind === 'EQ') {
+      // NSE lists other series (bonds, SME) under the same names
+      if (brokerExchange === 'NSE' && !/-(EQ|BE)$/.test(symbol)) continue;
+      instrumentType = 'EQ';
+    } else {
+      continue;
+    }
+
+    const divisor = brokerExchange === 'CDS' ? 10000000 : 100;
+    const expiry = /^(\d{2})([A-Z]{3})(\d{4})$/.exec(String(scrip.expiry || '').toUpperCase());
+    // The strike is also in the symbol (NIFTY25JAN2421000CE), which avoids the paise scaling
+    const symbolStrike = parseOpenAlgoSymbol(symbol)?.strike;
+    instruments.push(
+      instrument(
+        'angel',
+        {
+          exchange,
+          name,
+          instrumentType,
+          expiry: expiry && instrumentType !== 'EQ' && instrumentType !== 'INDEX'
+            ? isoDate(Number(expiry[3]), MONTHS.indexOf(expiry[2]) + 1, Number(expiry[1]))
+            : null,
+          strike: instrumentType === 'CE' || instrumentType === 'PE' ? symbolStrike ?? Number(scrip.strike) / divisor : null,
+          lotSize: Number(scrip.lotsize) || 1,
+          tickSize: Number(scrip.tick_size) / divisor || 0.05,
+        },
+        { symbol: brokerSymbol, exchange: brokerExchange, token: String(scrip.token) },
+        stripSeries(symbol, brokerExchange)
+      )
+    );
+  }
+  return instruments;
+}
+
+// Fyers symbol master columns (the CSVs have no header)
+const FYERS_COLUMNS = {
+  fyToken: 0,
+  description: 1,
+  lotSize: 3,
+  tickSize: 4,
+  expiry: 8,                     // Unix seconds, 0 for cash instruments
+  ticker: 9,                     // NSE:SBIN-EQ
+  segment: 11,                   // 10 cash, 11 F&O, 12 currency, 20 commodity
+  underlying: 13,
+  strike: 15,
+  optionType: 16,                // CE, PE or XX
+};
+
+/**
+ * Instruments from one of Fyers' symbol master CSVs (public.fyers.in/sym_details/NSE_FO.csv)
+ */
+export function parseFyersSymbolMaster(csv: string): Instrument[] {
+  const instruments: Instrument[] = [];
+  for (const line of csv.trim().split('\n')) {
+    const row = splitCsvLine(line);
+    const ticker = (row[FYERS_COLUMNS.ticker] || '').toUpperCase();
+    const separator = ticker.indexOf(':');
+    const fyToken = row[FYERS_COLUMNS.fyToken];
+    if (separator < 0 || !fyToken) continue;
+
+    const cashExchange = ticker.slice(0, separator);
+    const brokerSymbol = ticker.slice(separator + 1);
+    const segment = row[FYERS_COLUMNS.segment];
+    const optionType = row[FYERS_COLUMNS.optionType];
+    let exchange: string =
+      cashExchange === 'MCX' ? 'MCX'
+        : segment === '11' ? DERIVATIVE_EXCHANGES[cashExchange]
+        : segment === '12' ? (cashExchange === 'BSE' ? 'BCD' : 'CDS')
+        : cashExchange;
+
+    let instrumentType: InstrumentType;
+    let name = (row[FYERS_COLUMNS.underlying] || brokerSymbol).toUpperCase();
+    if (optionType === 'CE' || optionType === 'PE') {
+      instrumentType = optionType;
+    } else if (brokerSymbol.endsWith('FUT')) {
+      instrumentType = 'FUT';
+    } else if (brokerSymbol.endsWith('-INDEX')) {
+      instrumentType = 'INDEX';
+      exchange = `${cashExchange}_INDEX`;
+      name = brokerSymbol.slice(0, -'-INDEX'.length);
+    } else if (/-(EQ|BE)$/.test(brokerSymbol) || (cashExchange === 'BSE' && /-[A-Z0-9]{1,2}$/.test(brokerSymbol))) {
+      instrumentType = 'EQ';
+      name = row[FYERS_COLUMNS.description] || stripSeries(brokerSymbol, cashExchange);
+    } else {
+      continue;
+    }
+    if (!INSTRUMENT_EXCHANGES.includes(exchange as InstrumentExchange)) continue;
+
+    const expirySeconds = Number(row[FYERS_COLUMNS.expiry]);
+    const fields = {
+      exchange: exchange as InstrumentExchange,
+      name,
+      instrumentType,
+      expiry: instrumentType !== 'EQ' && instrumentType !== 'INDEX' && expirySeconds > 0
+        ? new Date(expirySeconds * 1000 + IST_OFFSET_MS).toISOString().split('T')[0]
+        : null,
+      strike: instrumentType === 'CE' || instrumentType === 'PE' ? Number(row[FYERS_COLUMNS.strike]) : null,
+      lotSize: Number(row[FYERS_COLUMNS.lotSize]) || 1,
+      tickSize: Number(row[FYERS_COLUMNS.tickSize]) || 0.05,
+    };
+    instruments.push(
+      instrument('fyers', fields, { symbol: ticker, exchange: cashExchange, token: fyToken }, stripSeries(brokerSymbol, cashExchange))
+    );
+  }
+  return instruments;
+}
@@ -1,12 +1,19 @@
 /**
  * Internal Routing Helper
- * Used by external API (v1) routers to call internal broker-specific endpoints
+ * Used by dashboard routes to call internal broker-specific endpoints,
+ * and by order flows (basket, split, smart, webhooks) to place orders via broker adapters
  *
  * IMPORTANT: Uses direct server-side imports instead of HTTP calls to avoid
  * Vercel authentication issues and improve performance
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { OrderResponse, SmartOrderResponse } from '@/lib/types/openalgo';
+import { extractNetPosition, computeSmartOrder } from '@/lib/positionUtils';
+import { getBrokerAdapter, unsupportedBrokerResult, AdapterOrder } from '@/lib/brokers';
+import { checkPreTradeRisk } from '@/lib/riskEngine';
+import { resolveContinuousSymbol } from '@/lib/continuousFutures';
+import { RiskOrderSource } from '@/lib/types/risk';
 
 // Import broker route handlers directly
 import * as zerodhaPlaceOrder from '@/app/api/broker/zerodha/place-order/route';
@@ -23,11 +30,62 @@ import * as zerodhaCancelAllOrders from '@/app/api/broker/zerodha/cancel-all-ord
 // Import Fyers route handlers
 import * as fyersPlaceOrder from '@/app/api/broker/fyers/place-order/route';
 import * as fyersCancelOrder from '@/app/api/broker/fyers/cancel-order/route';
+import * as fyersModifyOrder from '@/app/api/broker/fyers/modify-order/route';
 import * as fyersOrderbook from '@/app/api/broker/fyers/orderbook/route';
+import * as fyersTradebook from '@/app/api/broker/fyers/tradebook/route';
 import * as fyersPositions from '@/app/api/broker/fyers/positions/route';
 import * as fyersHoldings from '@/app/api/broker/fyers/holdings/route';
 import * as fyersFunds from '@/app/api/broker/fyers/funds/route';
 import * as fyersClosePosition from '@/app/api/broker/fyers/close-position/route';
+import * as fyersCancelAllOrders from '@/app/api/broker/fyers/cancel-all-orders/route';
+
+// Import Angel route handlers
+import * as angelPlaceOrder from '@/app/api/broker/angel/place-order/route';
+import * as angelCancelOrder from '@/app/api/broker/angel/cancel-order/route';
+import * as angelModifyOrder from '@/app/api/broker/angel/modify-order/route';
+import * as angelOrderbook from '@/app/api/broker/angel/orderbook/route';
+import * as angelTradebook from '@/app/api/broker/angel/tradebook/route';
+import * as angelPositions from '@/app/api/broker/angel/positions/route';
+import * as angelHoldings from '@/app/api/broker/angel/holdings/route';
+import * as angelFunds from '@/app/api/broker/angel/funds/route';
+import * as angelClosePosition from '@/app/api/broker/angel/close-position/route';
+import * as angelCancelAllOrders from '@/app/api/broker/angel/cancel-all-orders/route';
+
+// Import Dhan route handlers
+import * as dhanPlaceOrder from '@/app/api/broker/dhan/place-order/route';
+import * as dhanCancelOrder from '@/app/api/broker/dhan/cancel-order/route';
+import * as dhanModifyOrder from '@/app/api/broker/dhan/modify-order/route';
+import * as dhanOrderbook from '@/app/api/broker/dhan/orderbook/route';
+import * as dhanTradebook from '@/app/api/broker/dhan/tradebook/route';
+import * as dhanPositions from '@/app/api/broker/dhan/positions/route';
+import * as dhanHoldings from '@/app/api/broker/dhan/holdings/route';
+import * as dhanFunds from '@/app/api/broker/dhan/funds/route';
+import * as dhanClosePosition from '@/app/api/broker/dhan/close-position/route';
+import * as dhanCancelAllOrders from '@/app/api/broker/dhan/cancel-all-orders/route';
+
+// Import Upstox route handlers
+import * as upstoxPlaceOrder from '@/app/api/broker/upstox/place-order/route';
+import * as upstoxCancelOrder from '@/app/api/broker/upstox/cancel-order/route';
+import * as upstoxModifyOrder from '@/app/api/broker/upstox/modify-order/route';
+import * as upstoxOrderbook from '@/app/api/broker/upstox/orderbook/route';
+import * as upstoxTradebook from '@/app/api/broker/upstox/tradebook/route';
+import * as upstoxPositions from '@/app/api/broker/upstox/positions/route';
+import * as upstoxHoldings from '@/app/api/broker/upstox/holdings/route';
+import * as upstoxFunds from '@/app/api/broker/upstox/funds/route';
+import * as upstoxClosePosition from '@/app/api/broker/upstox/close-position/route';
+import * as upstoxCancelAllOrders from '@/app/api/broker/upstox/cancel-all-orders/route';
+
+// Import Paper (sandbox) route handlers
+import * as paperPlaceOrder from '@/app/api/broker/paper/place-order/route';
+import * as paperCancelOrder from '@/app/api/broker/paper/cancel-order/route';
+import * as paperModifyOrder from '@/app/api/broker/paper/modify-order/route';
+import * as paperOrderbook from '@/app/api/broker/paper/orderbook/route';
+import * as paperTradebook from '@/app/api/broker/paper/tradebook/route';
+import * as paperPositions from '@/app/api/broker/paper/positions/route';
+import * as paperHoldings from '@/app/api/broker/paper/holdings/route';
+import * as paperFunds from '@/app/api/broker/paper/funds/route';
+import * as paperClosePosition from '@/app/api/broker/paper/close-position/route';
+import * as paperCancelAllOrders from '@/app/api/broker/paper/cancel-all-orders/route';
 
 /**
  * Call broker-specific endpoint directly (server-side)
@@ -83,6 +141,41 @@ export async function callInternalBrokerEndpoint(
       default:
         throw new Error(`Unknown action: ${action} for broker: ${broker}`);
     }
+  } else if (broker === 'angel') {
+    switch (action) {
+      case 'place-order':
+        response = await angelPlaceOrder.POST(request);
+        break;
+      case 'cancel-order':
+        response = await angelCancelOrder.POST(request);
+        break;
+      case 'modify-order':
+        response = await angelModifyOrder.POST(request);
+        break;
+      case 'orderbook':
+        response = await angelOrderbook.POST(request);
+        break;
+      case 'tradebook':
+        response = await angelTradebook.POST(request);
+        break;
+      case 'positions':
+        response = await angelPositions.POST(request);
+        break;
+      case 'holdings':
+        response = await angelHoldings.POST(request);
+        break;
+      case 'funds':
+        response = await angelFunds.POST(request);
+        break;
+      case 'close-position':
+        response = await angelClosePosition.POST(request);
+        break;
+      case 'cancel-all-orders':
+        response = await angelCancelAllOrders.POST(request);
+        break;
+      default:
+        throw new Error(`Unknown action: ${action} for broker: ${broker}`);
+    }
   } else if (broker === 'fyers') {
     switch (action) {
       case 'place-order':
@@ -91,9 +184,15 @@ export async function callInternalBrokerEndpoint(
       case 'cancel-order':
         response = await fyersCancelOrder.POST(request);
         break;
+      case 'modify-order':
+        response = await fyersModifyOrder.POST(request);
+        break;
       case 'orderbook':
         response = await fyersOrderbook.POST(request);
         break;
+      case 'tradebook':
+        response = await fyersTradebook.POST(request);
+        break;
       case 'positions':
         response = await fyersPositions.POST(request);
         break;
@@ -106,6 +205,114 @@ export async function callInternalBrokerEndpoint(
       case 'close-position':
         response = await fyersClosePosition.POST(request);
         break;
+      case 'cancel-all-orders':
+        response = await fyersCancelAllOrders.POST(request);
+        break;
+      default:
+        throw new Error(`Unknown action: ${action} for broker: ${broker}`);
+    }
+  } else if (broker === 'dhan') {
+    switch (action) {
+      case 'place-order':
+        response = await dhanPlaceOrder.POST(request);
+        break;
+      case 'cancel-order':
+        response = await dhanCancelOrder.POST(request);
+        break;
+      case 'modify-order':
+        response = await dhanModifyOrder.POST(request);
+        break;
+      case 'orderbook':
+        response = await dhanOrderbook.POST(request);
+        break;
+      case 'tradebook':
+        response = await dhanTradebook.POST(request);
+        break;
+      case 'positions':
+        response = await dhanPositions.POST(request);
+        break;
+      case 'holdings':
+        response = await dhanHoldings.POST(request);
+        break;
+      case 'funds':
+        response = await dhanFunds.POST(request);
+        break;
+      case 'close-position':
+        response = await dhanClosePosition.POST(request);
+        break;
+      case 'cancel-all-orders':
+        response = await dhanCancelAllOrders.POST(request);
+        break;
+      default:
+        throw new Error(`Unknown action: ${action} for broker: ${broker}`);
+    }
+  } else if (broker === 'upstox') {
+    switch (action) {
+      case 'place-order':
+        response = await upstoxPlaceOrder.POST(request);
+        break;
+      case 'cancel-order':
+        response = await upstoxCancelOrder.POST(request);
+        break;
+      case 'modify-order':
+        response = await upstoxModifyOrder.POST(request);
+        break;
+      case 'orderbook':
+        response = await upstoxOrderbook.POST(request);
+        break;
+      case 'tradebook':
+        response = await upstoxTradebook.POST(request);
+        break;
+      case 'positions':
+        response = await upstoxPositions.POST(request);
+        break;
+      case 'holdings':
+        response = await upstoxHoldings.POST(request);
+        break;
+      case 'funds':
+        response = await upstoxFunds.POST(request);
+        break;
+      case 'close-position':
+        response = await upstoxClosePosition.POST(request);
+        break;
+      case 'cancel-all-orders':
+        response = await upstoxCancelAllOrders.POST(request);
+        break;
+      default:
+        throw new Error(`Unknown action: ${action} for broker: ${broker}`);
+    }
+  } else if (broker === 'paper') {
+    switch (action) {
+      case 'place-order':
+        response = await paperPlaceOrder.POST(request);
+        break;
+      case 'cancel-order':
+        response = await paperCancelOrder.POST(request);
+        break;
+      case 'modify-order':
+        response = await paperModifyOrder.POST(request);
+        break;
+      case 'orderbook':
+        response = await paperOrderbook.POST(request);
+        break;
+      case 'tradebook':
+        response = await paperTradebook.POST(request);
+        break;
+      case 'positions':
+        response = await paperPositions.POST(request);
+        break;
+      case 'holdings':
+        response = await paperHoldings.POST(request);
+        break;
+      case 'funds':
+        response = await paperFunds.POST(request);
+        break;
+      case 'close-position':
+        response = await paperClosePosition.POST(request);
+        break;
+      case 'cancel-all-orders':
+        response = await paperCancelAllOrders.POST(request);
+        break;
       default:
         throw new Error(`Unknown action: ${action} for broker: ${broker}`);
     }
@@ -117,3 +324,97 @@ export async function callInternalBrokerEndpoint(
   const data = await response.json();
   return { data, status: response.status };
 }
+
+/**
+ * Place a single order through the user's broker adapter
+ * The order must pass the user's pre-trade risk checks first
+ * Continuous futures (NIFTY-I) are placed in today's contract
+ * Returns an OpenAlgo OrderResponse regardless of broker response shape
+ */
+export async function placeInternalOrder(
+  broker: string,
+  userId: string,
+  order: AdapterOrder,
+  source: RiskOrderSource
+): Promise<OrderResponse> {
+  const adapter = getBrokerAdapter(broker);
+  if (!adapter) {
+    return unsupportedBrokerResult(broker).data;
+  }
+
+  try {
+    const contractOrder = { ...order, symbol: resolveContinuousSymbol(order.symbol) };
+    const risk = await checkPreTradeRisk(userId, broker, contractOrder, source);
+    if (!risk.allowed) {
+      return {
+        status: 'error',
+        message: risk.message,
+      };
+    }
+
+    const { data } = await adapter.placeOrder(userId, contractOrder);
+    return data;
+  } catch (error: any) {
+    return {
+      status: 'error',
+      message: error.message || 'Failed to place order',
+    };
+  }
+}
+
+/**
+ * Place whatever order is needed to bring the net position to positionSize
+ * Reads the current net position from the broker adapter's positions book
+ * positionSize 0 flattens the position; no order is placed if already at target
+ */
+export async function placeInternalSmartOrder(
+  broker: string,
+  userId: string,
+  order: AdapterOrder,
+  positionSize: number,
+  source: RiskOrderSource = 'smart'
+): Promise<SmartOrderResponse> {
+  const product = order.product || 'MIS';
+
+  const adapter = getBrokerAdapter(broker);
+  if (!adapter) {
+    return unsupportedBrokerResult(broker).data;
+  }
+
+  const { data, status } = await adapter.positions(userId);
+  if (status !== 200) {
+    return {
+      status: 'error',
+      message: data.message || 'Failed to fetch positions',
+    };
+  }
+
+  // Positions are held in the contract a continuous future (NIFTY-I) resolves to
+  const symbol = resolveContinuousSymbol(order.symbol);
+  const currentPosition = extractNetPosition(data.data || [], symbol, order.exchange, product);
+  const smartOrder = computeSmartOrder(currentPosition, positionSize);
+
+  if (!smartOrder) {
+    return {
+      status: 'success',
+      message: 'Position already at target. No action needed.',
+      current_position: currentPosition,
+      target_position: positionSize,
+    };
+  }
+
+  const result = await placeInternalOrder(broker, userId, {
+    ...order,
+    product,
+    action: smartOrder.action,
+    quantity: smartOrder.quantity,
+  }, source);
+
+  return {
+    ...result,
+    current_position: currentPosition,
+    target_position: positionSize,
+    action: smartOrder.action,
+    quantity: smartOrder.quantity,
+  };
+}
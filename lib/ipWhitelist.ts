@@ -0,0 +1,120 @@
+/**
+ * API Key IP Whitelist
+ * Address and CIDR matching for ApiKey.ipWhitelist (IPv4 and IPv6)
+ *
+ * Pure functions (no Firestore access) so they can be unit tested
+ */
+
+import { BlockList, isIP } from 'net';
+
+export const MAX_WHITELIST_ENTRIES = 50;
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix (::ffff:1.2.3.4) so mapped callers match IPv4 entries
+ */
+export function normalizeIp(ip: string): string {
+  const trimmed = ip.trim();
+  const mapped = trimmed.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  return mapped ? mapped[1] : trimmed;
+}
+
+/**
+ * Parse a whitelist entry: a single address or address/prefix
+ */
+function parseEntry(entry: string): { address: string; prefix: number; type: 'ipv4' | 'ipv6' } | null {
+  const [rawAddress, rawPrefix, ...rest] = entry.trim().split('/');
+  if (rest.length > 0) return null;
+
+  const address = normalizeIp(rawAddress);
+  const version = isIP(address);
+  if (version === 0) return null;
+
+  const maxPrefix = version === 4 ? 32 : 128;
+  if (rawPrefix === undefined) {
+    return { address, prefix: maxPrefix, type: version === 4 ? 'ipv4' : 'ipv6' };
+  }
+
+  if (!/^\d+$/.test(rawPrefix)) return null;
+  const prefix = Number(rawPrefix);
+  if (prefix > maxPrefix) return null;
+
+  return { address, prefix, type: version === 4 ? 'ipv4' : 'ipv6' };
+}
+
+/**
+ * Check a whitelist entry (e.g. '203.0.113.7', '10.0.0.0/8', '2001:db8::/32')
+ */
+export function isValidWhitelistEntry(entry: string): boolean {
+  return parseEntry(entry) !== null;
+}
+
+/**
+ * Validate a whitelist submitted by the user
+ * Returns the trimmed, de-duplicated list or an error message
+ */
+export function validateWhitelist(
+  entries: unknown
+): { success: true; whitelist: string[] } | { success: false; error: string } {
+  if (!Array.isArray(entries)) {
+    return { success: false, error: 'ipWhitelist must be an array of IP addresses or CIDR ranges' };
+  }
+
+  const whitelist = Array.from(
+    new Set(entries.map((entry) => (typeof entry === 'string' ? entry.trim() : '')).filter(Boolean))
+  );
+
+  if (whitelist.length > MAX_WHITELIST_ENTRIES) {
+    return { success: false, error: `ipWhitelist can have at most ${MAX_WHITELIST_ENTRIES} entries` };
+  }
+
+  const invalid = whitelist.find((entry) => !isValidWhitelistEntry(entry));
+  if (invalid) {
+    return { success: false, error: `Invalid IP address or CIDR range: ${invalid}` };
+  }
+
+  return { success: true, whitelist };
+}
+
+/**
+ * Check the caller IP against a whitelist
+ * An empty or missing whitelist allows every caller; an unknown caller IP
+ * never matches a non-empty whitelist
+ */
+export function isIpAllowed(ip: string | null, whitelist: string[] | undefined): boolean {
+  if (!whitelist || whitelist.length === 0) return true;
+  if (!ip) return false;
+
+  const address = normalizeIp(ip);
+  const version = isIP(address);
+  if (version === 0) return false;
+
+  const list = new BlockList();
+  for (const entry of whitelist) {
+    const parsed = parseEntry(entry);
+    if (parsed) {
+      list.addSubnet(parsed.address, parsed.prefix, parsed.type);
+    }
+  }
+
+  return list.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Caller IP for the whitelist, from the headers set by the platform or proxy in front of the app
+ *
+ * Assumes the app is only reachable through Vercel or a reverse proxy: Vercel's
+ * x-vercel-forwarded-for is set by the platform, and a proxy appends the peer it saw as the
+ * last x-forwarded-for hop. Earlier hops (and x-forwarded-for itself with no proxy) come
+ * from the client and can name any address, so they are never used
+ */
+export function forwardedClientIp(headers: { get(name: string): string | null }): string | null {
+  const platform = headers.get('x-vercel-forwarded-for');
+  if (platform) {
+    return platform.split(',')[0].trim() || null;
+  }
+  const forwarded = headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',').pop()?.trim() || null;
+  }
+  return headers.get('x-real-ip');
+}
@@ -0,0 +1,60 @@
+/**
+ * Multi-Order Helpers
+ * Leg ordering for basket orders and quantity slicing for split orders
+ */
+
+import { BasketOrderItem } from './types/openalgo';
+
+// Upper bound on child orders a single split request may generate
+export const MAX_SPLIT_ORDERS = 100;
+
+/**
+ * Group basket legs into placement phases
+ * With buyFirst, all BUY legs form the first phase and SELL legs the second,
+ * so hedges are in place before short legs consume margin.
+ * Without it, all legs are placed together in their original order.
+ */
+export function groupBasketLegs(orders: BasketOrderItem[], buyFirst: boolean): BasketOrderItem[][] {
+  if (!buyFirst) {
+    return [orders];
+  }
+
+  const buys = orders.filter((o) => o.action === 'BUY');
+  const sells = orders.filter((o) => o.action !== 'BUY');
+  return [buys, sells].filter((phase) => phase.length > 0);
+}
+
+/**
+ * Validate a basket leg, returning an error message or null if valid
+ */
+export function validateBasketLeg(order: BasketOrderItem): string | null {
+  if (!order.exchange || !order.symbol || !order.action || !order.quantity) {
+    return 'Missing required fields: exchange, symbol, action, quantity';
+  }
+  if (order.action !== 'BUY' && order.action !== 'SELL') {
+    return `Invalid action '${order.action}' (expected BUY or SELL)`;
+  }
+  if (!Number.isInteger(Number(order.quantity)) || Number(order.quantity) <= 0) {
+    return 'Quantity must be a positive integer';
+  }
+  return null;
+}
+
+/**
+ * Slice a quantity into child order quantities of at most splitSize
+ * e.g. splitQuantity(105, 50) => [50, 50, 5]
+ */
+export function splitQuantity(quantity: number, splitSize: number): number[] {
+  if (quantity <= 0 || splitSize <= 0) {
+    return [];
+  }
+
+  const slices: number[] = [];
+  let remaining = quantity;
+  while (remaining > 0) {
+    const slice = Math.min(splitSize, remaining);
+    slices.push(slice);
+    remaining -= slice;
+  }
+  return slices;
+}
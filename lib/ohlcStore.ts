@@ -0,0 +1,199 @@
+/**
+ * OHLC History Store
+ * Serves /api/chart/historical from the candle store, fetching only the trading days it lacks
+ *
+ * Past days are stored once their broker history is complete and served locally from then
+ * on. Today (until the exchange's last session closes), and any stored day that is
+ * incomplete (the broker returned nothing, or stopped short of the close) or fails
+ * validation, is fetched again. Exchange holidays are never requested.
+ * Missing days are grouped into ranges, split into requests the broker accepts, and
+ * throttled per user and broker. Today's forming candle is returned but never stored.
+ * Timeframes the brokers don't serve (2m, 75m, 2h, 4h, weekly, monthly) are resampled
+ * from stored base candles, and continuous futures (NIFTY-I) are stitched from the stored
+ * history of each contract
+ */
+
+import { fetchHistoricalCandles, historyBroker, HistoricalCandlesRequest, HistoricalCandlesResult } from './chartHistory';
+import { loadCandleDays, saveCandleDay } from './candleStore';
+import {
+  ContinuousSymbol,
+  ContractCandles,
+  contractSegments,
+  parseContinuousSymbol,
+  resolveContinuousSymbol,
+  stitchContracts,
+} from './continuousFutures';
+import {
+  HISTORY_REQUESTS_PER_SECOND,
+  HistoryBroker,
+  addDays,
+  chunkDateRange,
+  groupByDate,
+  historyIntervalSeconds,
+  isHistoryInterval,
+  isCompleteCandleDay,
+  isServableCandleDay,
+  isValidCandle,
+  istDateOf,
+  maxDaysPerRequest,
+  missingRanges,
+  tradingDates,
+} from './historyChunks';
+import { TokenBucket, refillBucket } from './rateLimiter';
+import { isResampledTimeframe, resampleBase, resampleCandles, timeframeStart } from './timeframes';
+import { lastSessionClose } from './tradingCalendar';
+import { Candle } from './types/candles';
+
+// broker:userId -> request bucket, and the queue of requests waiting on it
+const buckets = new Map<string, TokenBucket>();
+const queues = new Map<string, Promise<void>>();
+
+/**
+ * Wait for a historical request slot for a user's broker session
+ * Requests are queued so a burst of chart loads is spread over the broker's rate limit
+ */
+function takeHistoryToken(broker: HistoryBroker, userId: string): Promise<void> {
+  const key = `${broker}:${userId}`;
+  const capacity = HISTORY_REQUESTS_PER_SECOND[broker];
+
+  const turn = (queues.get(key) || Promise.resolve()).then(async () => {
+    let bucket = refillBucket(buckets.get(key) ?? { tokens: capacity, updatedAt: Date.now() }, capacity, 1000, Date.now());
+    if (bucket.tokens < 1) {
+      await new Promise((resolve) => setTimeout(resolve, Math.ceil(((1 - bucket.tokens) * 1000) / capacity)));
+      bucket = refillBucket(bucket, capacity, 1000, Date.now());
+    }
+    buckets.set(key, { tokens: bucket.tokens - 1, updatedAt: bucket.updatedAt });
+  });
+
+  queues.set(key, turn);
+  turn.then(() => {
+    if (queues.get(key) === turn) {
+      queues.delete(key);
+    }
+  });
+  return turn;
+}
+
+/**
+ * Continuous futures history: each contract's candles over the days it was active, stitched
+ * Expired contracts the broker no longer serves are left out; the current one must load
+ */
+async function getContinuousCandles(
+  request: HistoricalCandlesRequest,
+  continuous: ContinuousSymbol,
+  from: string,
+  to: string
+): Promise<HistoricalCandlesResult> {
+  const { prefix, underlying, index } = continuous;
+  const today = istDateOf(Math.floor(Date.now() / 1000));
+  const segments = contractSegments(underlying, index, from, to < today ? to : today);
+
+  const parts: ContractCandles[] = [];
+  let broker: HistoryBroker | null = null;
+  for (const [i, segment] of segments.entries()) {
+    const result = await getHistoricalCandles({
+      ...request,
+      symbol: prefix + segment.symbol,
+      // From the previous roll day, to measure the gap between the contracts
+      from: i > 0 ? segments[i - 1].to : segment.from,
+      to: segment.to,
+    });
+    if (!result.success) {
+      if (i === segments.length - 1) {
+        return result;
+      }
+      console.log(`[OHLC-STORE] ${segment.symbol} history unavailable, skipping ${segment.from} to ${segment.to}: ${result.error}`);
+      continue;
+    }
+    broker = result.broker;
+    parts.push({ segment, candles: result.data });
+  }
+
+  if (!broker) {
+    // Empty range
+    return getHistoricalCandles({ ...request, symbol: resolveContinuousSymbol(request.symbol) });
+  }
+  return { success: true, broker, data: stitchContracts(parts, !!request.backAdjust) };
+}
+
+/**
+ * Historical candles for a request, from the store where possible
+ * Requests without a date range or with an interval the store doesn't keep go straight to the broker
+ */
+export async function getHistoricalCandles(request: HistoricalCandlesRequest): Promise<HistoricalCandlesResult> {
+  const { userId, symbol, interval, from, to, includeToday } = request;
+  if (isResampledTimeframe(interval)) {
+    // Start from the first bar's opening day, so it isn't built from part of its candles
+    const firstBar = from ? istDateOf(timeframeStart(Date.parse(`${from}T00:00:00+05:30`) / 1000, interval)) : from;
+    const base = await getHistoricalCandles({ ...request, interval: resampleBase(interval), from: firstBar });
+    return base.success ? { ...base, data: resampleCandles(base.data, interval) } : base;
+  }
+  const continuous = parseContinuousSymbol(symbol);
+  if (continuous) {
+    return from && to
+      ? getContinuousCandles(request, continuous, from, to)
+      : getHistoricalCandles({ ...request, symbol: resolveContinuousSymbol(symbol) });
+  }
+  if (!isHistoryInterval(interval) || !from || !to) {
+    return fetchHistoricalCandles(request);
+  }
+
+  const broker = await historyBroker(userId);
+  if (!broker) {
+    return fetchHistoricalCandles(request);
+  }
+
+  // Bare symbols follow the NSE calendar
+  const exchange = symbol.includes(':') ? symbol.split(':')[0] : 'NSE';
+  const now = Math.floor(Date.now() / 1000);
+  const today = istDateOf(now);
+  const lastAllowed = includeToday ? today : addDays(today, -1);
+  const dates = tradingDates(from, to < lastAllowed ? to : lastAllowed, exchange);
+  if (dates.length === 0) {
+    return { success: true, broker, data: [] };
+  }
+
+  const stored = await loadCandleDays(symbol, interval, dates[0], dates[dates.length - 1]);
+  const missing = new Set(dates.filter((date) => !isServableCandleDay(date, stored.get(date))));
+
+  const chunks = missingRanges(dates, missing).flatMap((range) => chunkDateRange(range, maxDaysPerRequest(broker, interval)));
+  const fetched = new Map<string, Candle[]>();
+
+  for (const chunk of chunks) {
+    await takeHistoryToken(broker, userId);
+    const result = await fetchHistoricalCandles({
+      userId,
+      symbol,
+      interval,
+      // Kite reads bare dates as midnight, so the last day needs its closing time
+      from: broker === 'zerodha' ? `${chunk.from} 00:00:00` : chunk.from,
+      to: broker === 'zerodha' ? `${chunk.to} 23:59:59` : chunk.to,
+      includeToday: true,
+    });
+    if (!result.success) {
+      return result;
+    }
+
+    const byDate = groupByDate(result.data.filter(isValidCandle));
+    const saves = tradingDates(chunk.from, chunk.to, exchange).map((date) => {
+      const candles = byDate.get(date) || [];
+      fetched.set(date, candles);
+
+      const sessionClose = lastSessionClose(exchange, date);
+      const sessionOver = date < today || (sessionClose !== null && now >= sessionClose);
+      const complete = sessionOver && isCompleteCandleDay(candles, interval, sessionClose);
+      const closed = sessionOver ? candles : candles.filter((candle) => candle.time + historyIntervalSeconds(interval) <= now);
+      return saveCandleDay(symbol, interval, date, closed, complete).catch((error) => {
+        console.error(`[OHLC-STORE] Failed to store ${symbol} ${interval} for ${date}:`, error);
+      });
+    });
+    await Promise.all(saves);
+  }
+
+  console.log(
+    `[OHLC-STORE] ${symbol} ${interval}: ${dates.length - missing.size} days from store, ${missing.size} fetched in ${chunks.length} requests`
+  );
+
+  const data = dates.flatMap((date) => fetched.get(date) ?? stored.get(date)?.candles ?? []);
+  return { success: true, broker, data };
+}
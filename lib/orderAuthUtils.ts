@@ -1,6 +1,6 @@
 import { authenticateApiKey } from '@/lib/apiKeyAuth';
 import { adminAuth } from '@/lib/firebaseAdmin';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
 /**
  * Authentication context returned after successful authentication
@@ -21,12 +21,13 @@ export interface AuthContext {
  *    - Plain api_key:access_token
  */
 export async function authenticateOrderRequest(
+  request: NextRequest,
   authHeader: string | null,
   apiKeyFromBody?: string
 ): Promise<{ success: boolean; context?: AuthContext; error?: string }> {
   // Method 1: API key in request body
   if (apiKeyFromBody) {
-    const authResult = await authenticateApiKey(apiKeyFromBody);
+    const authResult = await authenticateApiKey(apiKeyFromBody, request);
     if (!authResult.success) {
       return {
         success: false,
@@ -86,7 +87,7 @@ export async function authenticateOrderRequest(
       };
     }
 
-    const authResult = await authenticateApiKey(apikey);
+    const authResult = await authenticateApiKey(apikey, request);
     if (!authResult.success) {
       return {
         success: false,
@@ -108,7 +109,7 @@ export async function authenticateOrderRequest(
   if (authHeader.includes(':')) {
     const [apikey] = authHeader.split(':');
 
-    const authResult = await authenticateApiKey(apikey);
+    const authResult = await authenticateApiKey(apikey, request);
     if (!authResult.success) {
       return {
         success: false,
@@ -0,0 +1,262 @@
+/**
+ * Order Event Hub
+ * Watches a user's orders and fans OrderEvents out to SSE subscribers and outbound webhooks
+ *
+ * Sources:
+ * - Zerodha: KiteTicker order_update push events
+ * - Other brokers (no push updates): order book + trade book polling with diffing
+ *
+ * A watcher runs while the user has an SSE subscriber, and for WATCH_LEASE_MS after
+ * each order placed through the app when the user has webhooks registered.
+ * Watchers live in memory, so events are per server instance
+ */
+
+import { EventEmitter } from 'events';
+import { getBrokerAdapter } from './brokers';
+import { AdapterOrder } from './brokers/types';
+import { resolveBrokerCredentials } from './brokers/shared';
+import { acquireTickerConnection } from './websocket/tickerConnectionManager';
+import {
+  OrderEventCandidate,
+  OrderSnapshotMap,
+  applyOrderCandidate,
+  orderBookCandidates,
+  seedOrderSnapshot,
+  zerodhaUpdateCandidate,
+} from './orderEvents';
+import { deliverOrderEvent, hasOrderWebhooks } from './orderWebhooks';
+import { TradeBookItem } from './types/openalgo';
+import { OrderEvent } from './types/orderEvents';
+
+const POLL_INTERVAL_MS = 5000;
+const WATCH_LEASE_MS = 30 * 60 * 1000;
+
+interface OrderWatcher {
+  broker: string;
+  mode: 'push' | 'poll';
+  snapshot: OrderSnapshotMap;
+  subscribers: number;
+  leaseUntil: number;
+  seeded: boolean;
+  polling: boolean;
+  timer: ReturnType<typeof setInterval>;
+  detach?: () => void;
+}
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// userId -> watcher
+const watchers = new Map<string, OrderWatcher>();
+
+function dispatch(userId: string, event: OrderEvent): void {
+  emitter.emit(`order:${userId}`, event);
+  void deliverOrderEvent(userId, event);
+}
+
+function publishCandidate(userId: string, watcher: OrderWatcher, candidate: OrderEventCandidate): void {
+  const event = applyOrderCandidate(watcher.snapshot, candidate);
+  if (event) {
+    dispatch(userId, event);
+  }
+}
+
+/**
+ * Poll the order book (and the trade book while orders are working) and emit transitions
+ */
+async function pollOrders(userId: string, watcher: OrderWatcher): Promise<void> {
+  const adapter = getBrokerAdapter(watcher.broker);
+  if (!adapter || watcher.polling) return;
+
+  watcher.polling = true;
+  try {
+    const orderbook = await adapter.orderbook(userId);
+    if (orderbook.status !== 200) {
+      console.error(`[ORDER-EVENTS] Orderbook poll failed for ${userId} on ${watcher.broker}:`, orderbook.data.message);
+      return;
+    }
+
+    const orders = orderbook.data.data?.orders || [];
+    const working = orders.some((o) => o.order_status === 'open' || o.order_status === 'trigger pending');
+    let trades: TradeBookItem[] = [];
+    if (working) {
+      const tradebook = await adapter.tradebook(userId);
+      trades = tradebook.status === 200 ? tradebook.data.data || [] : [];
+    }
+
+    const candidates = orderBookCandidates(watcher.broker, orders, trades);
+    if (!watcher.seeded) {
+      watcher.seeded = true;
+      seedOrderSnapshot(watcher.snapshot, candidates).forEach((event) => dispatch(userId, event));
+      return;
+    }
+
+    for (const candidate of candidates) {
+      publishCandidate(userId, watcher, candidate);
+    }
+  } catch (error) {
+    console.error('[ORDER-EVENTS] Poll error:', error);
+  } finally {
+    watcher.polling = false;
+  }
+}
+
+/**
+ * Forward KiteTicker order updates for this user's Zerodha session
+ * Returns false when the user's credentials can't be loaded (caller falls back to polling)
+ */
+async function attachZerodha(userId: string, watcher: OrderWatcher): Promise<boolean> {
+  const resolved = await resolveBrokerCredentials(userId, 'zerodha', 'Zerodha');
+  if (!resolved.success) {
+    return false;
+  }
+  // Watcher stopped while credentials were loading
+  if (watchers.get(userId) !== watcher) {
+    return true;
+  }
+
+  const apiKey = resolved.credentials.apiKey;
+  // Stored tokens may use the combined apiKey:accessToken format
+  const accessToken = resolved.credentials.accessToken.includes(':')
+    ? resolved.credentials.accessToken.split(':')[1]
+    : resolved.credentials.accessToken;
+
+  // Holds the user's ticker connection open while the watcher lives
+  const lease = acquireTickerConnection(userId, { broker: 'zerodha', apiKey, accessToken });
+  const handler = (update: Record<string, unknown>) => {
+    const candidate = zerodhaUpdateCandidate(update);
+    if (candidate) {
+      publishCandidate(userId, watcher, candidate);
+    }
+  };
+
+  lease.feed.on('order_update', handler);
+  watcher.detach = () => {
+    lease.feed.off('order_update', handler);
+    lease.release();
+  };
+  return true;
+}
+
+function stopWatcher(userId: string, watcher: OrderWatcher): void {
+  clearInterval(watcher.timer);
+  watcher.detach?.();
+  watchers.delete(userId);
+  console.log(`[ORDER-EVENTS] Stopped watching orders for ${userId}`);
+}
+
+function ensureWatcher(userId: string, broker: string): OrderWatcher {
+  const existing = watchers.get(userId);
+  if (existing && existing.broker === broker) {
+    return existing;
+  }
+  if (existing) {
+    stopWatcher(userId, existing);
+  }
+
+  const watcher: OrderWatcher = {
+    broker,
+    mode: broker === 'zerodha' ? 'push' : 'poll',
+    snapshot: new Map(),
+    subscribers: existing?.subscribers ?? 0,
+    leaseUntil: 0,
+    seeded: false,
+    polling: false,
+    timer: setInterval(() => {
+      if (watcher.subscribers === 0 && Date.now() > watcher.leaseUntil) {
+        stopWatcher(userId, watcher);
+        return;
+      }
+      if (watcher.mode === 'poll') {
+        void pollOrders(userId, watcher);
+      }
+    }, POLL_INTERVAL_MS),
+  };
+  watchers.set(userId, watcher);
+  console.log(`[ORDER-EVENTS] Watching orders for ${userId} on ${broker} (${watcher.mode})`);
+
+  if (watcher.mode === 'push') {
+    attachZerodha(userId, watcher)
+      .then((attached) => {
+        if (!attached) watcher.mode = 'poll';
+      })
+      .catch((error) => {
+        console.error('[ORDER-EVENTS] Failed to attach Zerodha ticker, polling instead:', error);
+        watcher.mode = 'poll';
+      });
+  } else {
+    void pollOrders(userId, watcher);
+  }
+
+  return watcher;
+}
+
+/**
+ * Subscribe to a user's order events (starts watching their orders if needed)
+ * Returns the delivery mode and an unsubscribe function
+ */
+export function subscribeOrderEvents(
+  userId: string,
+  broker: string,
+  listener: (event: OrderEvent) => void
+): { mode: 'push' | 'poll'; unsubscribe: () => void } {
+  const watcher = ensureWatcher(userId, broker);
+  watcher.subscribers++;
+  emitter.on(`order:${userId}`, listener);
+
+  let subscribed = true;
+  return {
+    mode: watcher.mode,
+    unsubscribe: () => {
+      if (!subscribed) return;
+      subscribed = false;
+      emitter.off(`order:${userId}`, listener);
+      const current = watchers.get(userId);
+      if (current) {
+        current.subscribers = Math.max(0, current.subscribers - 1);
+      }
+    },
+  };
+}
+
+/**
+ * Emit the 'placed' event for an order accepted by the broker
+ * Keeps the user's orders watched for a while if they have webhooks, so fills reach them
+ * Never throws: notification failures must not change the order response
+ */
+export async function notifyOrderPlaced(
+  userId: string,
+  broker: string,
+  orderid: string,
+  order: AdapterOrder
+): Promise<void> {
+  try {
+    let watcher = watchers.get(userId);
+    if (await hasOrderWebhooks(userId)) {
+      watcher = ensureWatcher(userId, broker);
+      watcher.leaseUntil = Date.now() + WATCH_LEASE_MS;
+    }
+    if (!watcher || watcher.broker !== broker) {
+      return;
+    }
+
+    publishCandidate(userId, watcher, {
+      broker,
+      orderid,
+      symbol: order.symbol,
+      exchange: order.exchange,
+      action: order.action,
+      pricetype: order.pricetype || 'MARKET',
+      product: order.product || 'MIS',
+      quantity: Number(order.quantity),
+      filled_quantity: 0,
+      pending_quantity: Number(order.quantity),
+      average_price: 0,
+      status: 'placed',
+      message: null,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[ORDER-EVENTS] Failed to publish placed order:', error);
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Order Update Events
+ * Normalizes broker order states into OrderEvent transitions, diffs polled
+ * order books, and signs outbound webhook payloads
+ *
+ * Pure functions (no Firestore or broker access) so they can be unit tested
+ */
+
+import { createHmac } from 'crypto';
+import { BlockList, isIP } from 'net';
+import { OrderBookItem, OrderStatus, TradeBookItem } from './types/openalgo';
+import { OrderEvent, OrderEventStatus } from './types/orderEvents';
+import { mapZerodhaOrderbook } from './brokers/zerodhaMapper';
+
+export type OrderEventCandidate = Omit<OrderEvent, 'previous_status'>;
+
+export interface OrderSnapshot {
+  status: OrderEventStatus;
+  filled_quantity: number;
+}
+
+// Last known state per order ID; one map per watched user
+export type OrderSnapshotMap = Map<string, OrderSnapshot>;
+
+// Later states never move back to earlier ones (push updates can arrive out of order)
+const STATUS_RANK: Record<OrderEventStatus, number> = {
+  placed: 0,
+  open: 1,
+  partially_filled: 2,
+  complete: 3,
+  rejected: 3,
+  cancelled: 3,
+};
+
+// Kite request states before the exchange acknowledges the order
+const ZERODHA_PLACED_STATUSES = new Set(['PUT ORDER REQ RECEIVED', 'VALIDATION PENDING', 'OPEN PENDING']);
+
+/**
+ * Map an OpenAlgo order status plus fill progress to an event status
+ */
+export function toOrderEventStatus(orderStatus: OrderStatus, filled: number, quantity: number): OrderEventStatus {
+  switch (orderStatus) {
+    case 'complete':
+      return 'complete';
+    case 'rejected':
+      return 'rejected';
+    case 'cancelled':
+      return 'cancelled';
+    default:
+      return filled > 0 && filled < quantity ? 'partially_filled' : 'open';
+  }
+}
+
+/**
+ * Total filled quantity and average fill price per order ID from a trade book
+ */
+export function summarizeFills(trades: TradeBookItem[]): Map<string, { quantity: number; average_price: number }> {
+  const fills = new Map<string, { quantity: number; value: number }>();
+  for (const trade of trades) {
+    const current = fills.get(trade.orderid) || { quantity: 0, value: 0 };
+    current.quantity += trade.quantity;
+    current.value += trade.quantity * trade.average_price;
+    fills.set(trade.orderid, current);
+  }
+
+  const summary = new Map<string, { quantity: number; average_price: number }>();
+  for (const [orderid, { quantity, value }] of fills) {
+    summary.set(orderid, {
+      quantity,
+      average_price: quantity > 0 ? Math.round((value / quantity) * 100) / 100 : 0,
+    });
+  }
+  return summary;
+}
+
+/**
+ * Build event candidates from a polled OpenAlgo order book and trade book
+ */
+export function orderBookCandidates(
+  broker: string,
+  orders: OrderBookItem[],
+  trades: TradeBookItem[],
+  now: Date = new Date()
+): OrderEventCandidate[] {
+  const fills = summarizeFills(trades);
+
+  return orders
+    .filter((order) => order.orderid)
+    .map((order) => {
+      const fill = fills.get(order.orderid);
+      // Complete orders without trade rows (e.g. trade book lag) count as fully filled
+      const filled = order.order_status === 'complete'
+        ? Math.max(fill?.quantity ?? 0, order.quantity)
+        : fill?.quantity ?? 0;
+
+      return {
+        broker,
+        orderid: order.orderid,
+        symbol: order.symbol,
+        exchange: order.exchange,
+        action: order.action,
+        pricetype: order.pricetype,
+        product: order.product,
+        quantity: order.quantity,
+        filled_quantity: filled,
+        pending_quantity: ['open', 'trigger pending'].includes(order.order_status)
+          ? Math.max(0, order.quantity - filled)
+          : 0,
+        average_price: fill?.average_price ?? (order.order_status === 'complete' ? order.price : 0),
+        status: toOrderEventStatus(order.order_status, filled, order.quantity),
+        message: null,
+        timestamp: now.toISOString(),
+      };
+    });
+}
+
+/**
+ * Build an event candidate from a Kite WebSocket order_update (same fields as Kite /orders)
+ * Returns null for transient modify/cancel request states
+ */
+export function zerodhaUpdateCandidate(
+  update: Record<string, unknown>,
+  now: Date = new Date()
+): OrderEventCandidate | null {
+  const [order] = mapZerodhaOrderbook([update]).orders;
+  if (!order || !order.orderid) {
+    return null;
+  }
+
+  const rawStatus = String(update.status ?? '').toUpperCase();
+  const placed = ZERODHA_PLACED_STATUSES.has(rawStatus);
+  if (!placed && rawStatus.endsWith('PENDING') && rawStatus !== 'TRIGGER PENDING') {
+    return null;
+  }
+
+  const filled = Number(update.filled_quantity) || 0;
+  return {
+    broker: 'zerodha',
+    orderid: order.orderid,
+    symbol: order.symbol,
+    exchange: order.exchange,
+    action: order.action,
+    pricetype: order.pricetype,
+    product: order.product,
+    quantity: order.quantity,
+    filled_quantity: filled,
+    pending_quantity: Number(update.pending_quantity) || 0,
+    average_price: Number(update.average_price) || 0,
+    status: placed ? 'placed' : toOrderEventStatus(order.order_status, filled, order.quantity),
+    message: update.status_message ? String(update.status_message) : null,
+    timestamp: now.toISOString(),
+  };
+}
+
+/**
+ * Record a candidate in the snapshot and return it as an event if it is a transition:
+ * a new order, a later status, or more quantity filled
+ */
+export function applyOrderCandidate(snapshot: OrderSnapshotMap, candidate: OrderEventCandidate): OrderEvent | null {
+  const previous = snapshot.get(candidate.orderid);
+
+  if (previous) {
+    if (STATUS_RANK[candidate.status] < STATUS_RANK[previous.status]) return null;
+    if (candidate.status === previous.status && candidate.filled_quantity <= previous.filled_quantity) return null;
+  }
+
+  snapshot.set(candidate.orderid, { status: candidate.status, filled_quantity: candidate.filled_quantity });
+  return { ...candidate, previous_status: previous?.status ?? null };
+}
+
+/**
+ * Record candidates without emitting events (first poll after a watcher starts,
+ * so existing orders aren't replayed)
+ * Orders already in the snapshot (e.g. just placed) are still diffed, and their events returned
+ */
+export function seedOrderSnapshot(snapshot: OrderSnapshotMap, candidates: OrderEventCandidate[]): OrderEvent[] {
+  const events: OrderEvent[] = [];
+  for (const candidate of candidates) {
+    if (snapshot.has(candidate.orderid)) {
+      const event = applyOrderCandidate(snapshot, candidate);
+      if (event) events.push(event);
+    } else {
+      snapshot.set(candidate.orderid, { status: candidate.status, filled_quantity: candidate.filled_quantity });
+    }
+  }
+  return events;
+}
+
+/**
+ * Signature header value for an outbound webhook body
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// Address ranges webhooks may not target
+const PRIVATE_RANGES = new BlockList();
+PRIVATE_RANGES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addAddress('::1', 'ipv6');
+PRIVATE_RANGES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_RANGES.addSubnet('fe80::', 10, 'ipv6');
+
+/**
+ * Validate an outbound webhook URL: https only, no localhost or private IP literals
+ */
+export function validateWebhookUrl(value: unknown): { success: true; url: string } | { success: false; error: string } {
+  let url: URL;
+  try {
+    url = new URL(String(value ?? '').trim());
+  } catch {
+    return { success: false, error: 'Invalid webhook URL' };
+  }
+
+  if (url.protocol !== 'https:') {
+    return { success: false, error: 'Webhook URL must use https' };
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const version = isIP(host);
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    (version !== 0 && PRIVATE_RANGES.check(host, version === 4 ? 'ipv4' : 'ipv6'))
+  ) {
+    return { success: false, error: 'Webhook URL must not point to a local or private address' };
+  }
+
+  return { success: true, url: url.toString() };
+}
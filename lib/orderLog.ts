@@ -0,0 +1,73 @@
+/**
+ * Order Audit Log
+ * Append-only Firestore log of v1 order actions (users/{userId}/orderLog)
+ *
+ * Entries are only ever added; nothing in the app updates or deletes them
+ */
+
+import { adminDb } from './firebaseAdmin';
+import { OrderLogEntry, OrderLogFilters } from './types/orderlog';
+import { OrderLogInput, buildOrderLogRecord, matchesOrderLogFilters } from './orderLogUtils';
+
+// Upper bound on entries read per query before in-memory filtering
+const MAX_SCANNED_ENTRIES = 2000;
+
+function orderLogCollection(userId: string) {
+  return adminDb.collection('users').doc(userId).collection('orderLog');
+}
+
+/**
+ * Firestore returns Timestamps for stored Dates
+ */
+function toIsoString(value: unknown): string {
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  return value ? new Date(value as string | Date).toISOString() : '';
+}
+
+/**
+ * Append an entry for an order action
+ * Never throws: a logging failure must not change the order response
+ */
+export async function recordOrderLog(input: OrderLogInput): Promise<void> {
+  try {
+    await orderLogCollection(input.userId).add({
+      ...buildOrderLogRecord(input),
+      createdAt: new Date(),
+    });
+  } catch (error) {
+    console.error('[ORDER-LOG] Failed to record order action:', error);
+  }
+}
+
+/**
+ * Read a user's order log, newest first
+ * The date range is applied in the query; strategy/symbol/action/outcome are
+ * filtered in memory so no composite indexes are needed
+ */
+export async function queryOrderLog(userId: string, filters: OrderLogFilters): Promise<OrderLogEntry[]> {
+  let query = orderLogCollection(userId).orderBy('createdAt', 'desc');
+  if (filters.from) {
+    query = query.where('createdAt', '>=', filters.from);
+  }
+  if (filters.to) {
+    query = query.where('createdAt', '<=', filters.to);
+  }
+
+  const snapshot = await query.limit(MAX_SCANNED_ENTRIES).get();
+
+  const entries: OrderLogEntry[] = [];
+  for (const doc of snapshot.docs) {
+    const entry = {
+      ...(doc.data() as Omit<OrderLogEntry, 'id' | 'createdAt'>),
+      id: doc.id,
+      createdAt: toIsoString(doc.get('createdAt')),
+    };
+    if (matchesOrderLogFilters(entry, filters)) {
+      entries.push(entry);
+      if (entries.length >= filters.limit) break;
+    }
+  }
+  return entries;
+}
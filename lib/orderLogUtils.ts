@@ -0,0 +1,191 @@
+/**
+ * Order Audit Log Helpers
+ * Entry building and filtering for the order audit log
+ *
+ * Pure functions (no Firestore access) so they can be unit tested
+ */
+
+import { OrderLogAction, OrderLogEntry, OrderLogFilters, OrderLogOutcome } from './types/orderlog';
+
+export const DEFAULT_ORDER_LOG_LIMIT = 100;
+export const MAX_ORDER_LOG_LIMIT = 500;
+
+const ACTIONS: OrderLogAction[] = ['place', 'modify', 'cancel', 'close', 'cancelall'];
+const OUTCOMES: OrderLogOutcome[] = ['success', 'error'];
+
+export interface OrderLogInput {
+  userId: string;
+  apiKeyId: string;
+  broker: string;
+  action: OrderLogAction;
+  endpoint: string;
+  payload: object;
+  response: unknown;
+  httpStatus: number;
+  latencyMs: number;
+  sourceIp: string | null;
+}
+
+type OrderLogRecord = Omit<OrderLogEntry, 'id' | 'createdAt'>;
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+}
+
+function asRecords(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.map(asRecord) : [];
+}
+
+/**
+ * Symbols an order action touches: the request symbol, or every basket leg
+ */
+export function extractSymbols(payload: Record<string, unknown>): string[] {
+  const symbols = [payload.symbol, ...asRecords(payload.orders).map((leg) => leg.symbol)]
+    .filter((symbol): symbol is string => typeof symbol === 'string' && symbol.length > 0)
+    .map((symbol) => symbol.toUpperCase());
+  return Array.from(new Set(symbols));
+}
+
+/**
+ * Order IDs in a normalized response: single orders, basket/split legs and cancel-all lists
+ */
+export function extractOrderIds(response: unknown): string[] {
+  const body = asRecord(response);
+  const legs = [...asRecords(body.orders), ...asRecords(body.results)];
+  const ids = [
+    body.orderid,
+    ...legs.map((leg) => leg.orderid),
+    ...(Array.isArray(body.canceled_orders) ? body.canceled_orders : []),
+  ];
+  return ids.filter((id) => id !== undefined && id !== null && id !== '').map(String);
+}
+
+/**
+ * Build the stored entry for an order action
+ * The apikey is stripped from the payload so the log never holds credentials
+ */
+export function buildOrderLogRecord(input: OrderLogInput): OrderLogRecord {
+  const request = { ...asRecord(input.payload) };
+  delete request.apikey;
+
+  const body = asRecord(input.response);
+  const outcome: OrderLogOutcome =
+    input.httpStatus < 400 && body.status !== 'error' ? 'success' : 'error';
+
+  return {
+    action: input.action,
+    endpoint: input.endpoint,
+    apiKeyId: input.apiKeyId,
+    broker: input.broker,
+    strategy: typeof request.strategy === 'string' && request.strategy ? request.strategy : null,
+    symbols: extractSymbols(request),
+    orderids: extractOrderIds(input.response),
+    request,
+    response: input.response ?? null,
+    httpStatus: input.httpStatus,
+    outcome,
+    message: outcome === 'error' && typeof body.message === 'string' ? body.message : null,
+    latencyMs: Math.max(0, Math.round(input.latencyMs)),
+    sourceIp: input.sourceIp,
+  };
+}
+
+/**
+ * Parse a date filter
+ * Plain dates (YYYY-MM-DD) are IST calendar days: start of day for 'from', end of day for 'to'
+ */
+export function parseOrderLogDate(value: string, bound: 'from' | 'to'): Date | null {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T${bound === 'from' ? '00:00:00.000' : '23:59:59.999'}+05:30`)
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse order log filters from query params or a request body
+ * Accepts strategy, symbol, action, outcome, start_date, end_date and limit
+ */
+export function parseOrderLogFilters(
+  params: Record<string, unknown>
+): { success: true; filters: OrderLogFilters } | { success: false; error: string } {
+  const text = (key: string): string | undefined => {
+    const value = params[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+
+  const filters: OrderLogFilters = { limit: DEFAULT_ORDER_LOG_LIMIT };
+
+  const strategy = text('strategy');
+  if (strategy) filters.strategy = strategy;
+
+  const symbol = text('symbol');
+  if (symbol) filters.symbol = symbol.toUpperCase();
+
+  const action = text('action')?.toLowerCase();
+  if (action) {
+    if (!ACTIONS.includes(action as OrderLogAction)) {
+      return { success: false, error: `Invalid action. Use one of: ${ACTIONS.join(', ')}` };
+    }
+    filters.action = action as OrderLogAction;
+  }
+
+  const outcome = text('outcome')?.toLowerCase();
+  if (outcome) {
+    if (!OUTCOMES.includes(outcome as OrderLogOutcome)) {
+      return { success: false, error: `Invalid outcome. Use one of: ${OUTCOMES.join(', ')}` };
+    }
+    filters.outcome = outcome as OrderLogOutcome;
+  }
+
+  for (const [key, bound] of [['start_date', 'from'], ['end_date', 'to']] as const) {
+    const value = text(key);
+    if (!value) continue;
+    const date = parseOrderLogDate(value, bound);
+    if (!date) {
+      return { success: false, error: `Invalid ${key}. Use YYYY-MM-DD or an ISO timestamp` };
+    }
+    filters[bound] = date;
+  }
+
+  if (filters.from && filters.to && filters.from > filters.to) {
+    return { success: false, error: 'start_date must be before end_date' };
+  }
+
+  const limit = params.limit;
+  if (limit !== undefined && limit !== null && limit !== '') {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      return { success: false, error: 'limit must be a positive integer' };
+    }
+    filters.limit = Math.min(parsed, MAX_ORDER_LOG_LIMIT);
+  }
+
+  return { success: true, filters };
+}
+
+/**
+ * Check an entry against the filters (strategy and symbol match case-insensitively)
+ */
+export function matchesOrderLogFilters(entry: OrderLogEntry, filters: OrderLogFilters): boolean {
+  if (filters.strategy && entry.strategy?.toLowerCase() !== filters.strategy.toLowerCase()) {
+    return false;
+  }
+  if (filters.symbol && !entry.symbols.includes(filters.symbol.toUpperCase())) {
+    return false;
+  }
+  if (filters.action && entry.action !== filters.action) {
+    return false;
+  }
+  if (filters.outcome && entry.outcome !== filters.outcome) {
+    return false;
+  }
+
+  const createdAt = new Date(entry.createdAt);
+  if (filters.from && createdAt < filters.from) {
+    return false;
+  }
+  if (filters.to && createdAt > filters.to) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,179 @@
+/**
+ * Outbound Order Webhooks
+ * User-registered URLs that receive OrderEvents, signed with a per-webhook HMAC secret
+ * (users/{userId}/orderWebhooks, secrets stored encrypted)
+ */
+
+import crypto from 'crypto';
+import { adminDb } from './firebaseAdmin';
+import { decryptData, encryptData } from './encryptionUtils';
+import { signWebhookPayload } from './orderEvents';
+import { OrderEvent, OrderWebhook, OrderWebhookPayload } from './types/orderEvents';
+
+export const MAX_ORDER_WEBHOOKS = 5;
+
+const DELIVERY_TIMEOUT_MS = 5000;
+const TARGET_CACHE_TTL_MS = 60 * 1000;
+
+interface WebhookTarget {
+  id: string;
+  url: string;
+  secret: string;
+}
+
+// userId -> active targets with decrypted secrets
+const targetCache = new Map<string, { targets: WebhookTarget[]; expiresAt: number }>();
+
+function webhooksCollection(userId: string) {
+  return adminDb.collection('users').doc(userId).collection('orderWebhooks');
+}
+
+function toIsoString(value: unknown): string {
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  return value ? new Date(value as string | Date).toISOString() : '';
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export async function listOrderWebhooks(userId: string): Promise<OrderWebhook[]> {
+  const snapshot = await webhooksCollection(userId).orderBy('createdAt', 'desc').get();
+
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      url: data.url,
+      active: data.active !== false,
+      createdAt: toIsoString(data.createdAt),
+      lastDelivery: data.lastDelivery
+        ? { ...data.lastDelivery, at: toIsoString(data.lastDelivery.at) }
+        : null,
+    };
+  });
+}
+
+/**
+ * Register a webhook URL
+ * Returns the plain signing secret (only shown once), or null when the user is at the limit
+ */
+export async function createOrderWebhook(
+  userId: string,
+  url: string
+): Promise<{ id: string; secret: string } | null> {
+  const existing = await webhooksCollection(userId).count().get();
+  if (existing.data().count >= MAX_ORDER_WEBHOOKS) {
+    return null;
+  }
+
+  const secret = generateWebhookSecret();
+  const docRef = await webhooksCollection(userId).add({
+    url,
+    secret: encryptData(secret),
+    active: true,
+    createdAt: new Date(),
+    lastDelivery: null,
+  });
+
+  targetCache.delete(userId);
+  return { id: docRef.id, secret };
+}
+
+export async function deleteOrderWebhook(userId: string, webhookId: string): Promise<boolean> {
+  const docRef = webhooksCollection(userId).doc(webhookId);
+  const doc = await docRef.get();
+  if (!doc.exists) {
+    return false;
+  }
+
+  await docRef.delete();
+  targetCache.delete(userId);
+  return true;
+}
+
+/**
+ * Active webhooks for a user, cached briefly so every event doesn't hit Firestore
+ */
+async function getWebhookTargets(userId: string): Promise<WebhookTarget[]> {
+  const cached = targetCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.targets;
+  }
+
+  const snapshot = await webhooksCollection(userId).where('active', '==', true).get();
+  const targets: WebhookTarget[] = [];
+  for (const doc of snapshot.docs) {
+    try {
+      targets.push({ id: doc.id, url: doc.get('url'), secret: decryptData(doc.get('secret')) });
+    } catch (error) {
+      console.error(`[ORDER-WEBHOOK] Failed to decrypt secret for webhook ${doc.id}:`, error);
+    }
+  }
+
+  targetCache.set(userId, { targets, expiresAt: Date.now() + TARGET_CACHE_TTL_MS });
+  return targets;
+}
+
+export async function hasOrderWebhooks(userId: string): Promise<boolean> {
+  return (await getWebhookTargets(userId)).length > 0;
+}
+
+/**
+ * POST an order event to every active webhook of the user
+ * Never throws: delivery failures are only recorded on the webhook
+ */
+export async function deliverOrderEvent(userId: string, event: OrderEvent): Promise<void> {
+  let targets: WebhookTarget[];
+  try {
+    targets = await getWebhookTargets(userId);
+  } catch (error) {
+    console.error('[ORDER-WEBHOOK] Failed to load webhooks:', error);
+    return;
+  }
+
+  const payload: OrderWebhookPayload = { event: 'order.update', data: event };
+  const body = JSON.stringify(payload);
+
+  await Promise.all(
+    targets.map(async (target) => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      let httpStatus: number | null = null;
+      let error: string | null = null;
+
+      try {
+        const response = await fetch(target.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': signWebhookPayload(target.secret, timestamp, body),
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        });
+        httpStatus = response.status;
+        if (!response.ok) {
+          error = `HTTP ${response.status}`;
+        }
+      } catch (err) {
+        error = err instanceof Error ? err.message : 'Delivery failed';
+      }
+
+      if (error) {
+        console.error(`[ORDER-WEBHOOK] Delivery to ${target.url} failed: ${error}`);
+      }
+
+      try {
+        await webhooksCollection(userId).doc(target.id).update({
+          lastDelivery: { at: new Date(), httpStatus, error },
+        });
+      } catch (err) {
+        console.error('[ORDER-WEBHOOK] Failed to record delivery:', err);
+      }
+    })
+  );
+}
@@ -0,0 +1,568 @@
+/**
+ * Paper Trading Client
+ * Virtual order book, trade book, positions and funds for the 'paper' broker
+ *
+ * Orders never reach a real broker. Fill prices come from the Zerodha ticker
+ * (when the instrument is streaming) or the latest /api/chart/historical candle.
+ * Resting LIMIT/SL orders are matched lazily whenever a book is read.
+ */
+
+import { NextRequest } from 'next/server';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { getStreamedLastPrice } from '@/lib/websocket/tickerConnectionManager';
+import { brokerInstrument } from '@/lib/instrumentMaster';
+import * as chartHistorical from '@/app/api/chart/historical/route';
+import {
+  PAPER_STARTING_CAPITAL,
+  evaluatePaperFill,
+  applyPaperFill,
+  validatePaperOrder,
+  unrealisedPnl,
+  utilisedMargin,
+  roundPaise,
+} from '@/lib/paperFills';
+import { PaperAccount, PaperOrder, PaperPosition, PaperTrade } from '@/lib/types/paper';
+import {
+  Action,
+  Exchange,
+  PriceType,
+  ProductType,
+  OrderBookItem,
+  TradeBookItem,
+  PositionBookItem,
+  HoldingsData,
+  FundsData,
+} from '@/lib/types/openalgo';
+import { buildHoldingsData } from '@/lib/brokers/books';
+
+export interface PaperOrderInput {
+  symbol: string;
+  exchange: Exchange;
+  action: Action;
+  quantity: number;
+  product?: ProductType;
+  pricetype?: PriceType;
+  price?: number;
+  trigger_price?: number;
+  strategy?: string;
+}
+
+export interface PaperOrderModification {
+  quantity?: number;
+  pricetype?: PriceType;
+  price?: number;
+  trigger_price?: number;
+}
+
+const OPEN_STATUSES = ['open', 'trigger pending'];
+
+function accountRef(userId: string) {
+  return adminDb.collection('users').doc(userId).collection('paper').doc('account');
+}
+
+function positionId(symbol: string, exchange: string, product: string): string {
+  return `${exchange}_${symbol}_${product}`.replace(/\//g, '_');
+}
+
+/**
+ * Firestore returns Timestamps for stored Dates
+ */
+function toIsoString(value: unknown): string {
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  return value ? new Date(value as string | Date).toISOString() : '';
+}
+
+/**
+ * Get the user's paper account, creating it with starting capital on first use
+ */
+export async function getPaperAccount(userId: string): Promise<PaperAccount> {
+  const ref = accountRef(userId);
+  const snap = await ref.get();
+  if (snap.exists) {
+    return snap.data() as PaperAccount;
+  }
+
+  const account: PaperAccount = {
+    startingCapital: PAPER_STARTING_CAPITAL,
+    realisedPnl: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  await ref.set(account);
+  return account;
+}
+
+/**
+ * Get the last traded price used for paper fills
+ * Tries the live ticker first, then the most recent 1-minute candle
+ */
+export async function getPaperLtp(userId: string, symbol: string, exchange: string): Promise<number | null> {
+  const token = Number(brokerInstrument('zerodha', symbol, exchange).token);
+  if (token) {
+    const tickPrice = getStreamedLastPrice(token);
+    if (tickPrice && tickPrice > 0) {
+      return tickPrice;
+    }
+  }
+
+  try {
+    // Look back a few days so weekends and holidays still return a candle
+    const to = new Date();
+    const from = new Date(to.getTime() - 5 * 24 * 60 * 60 * 1000);
+    const params = new URLSearchParams({
+      symbol,
+      exchange,
+      interval: 'minute',
+      from: from.toISOString().split('T')[0],
+      to: to.toISOString().split('T')[0],
+      userId,
+      includeToday: 'true',
+    });
+
+    const response = await chartHistorical.GET(
+      new NextRequest(`http://localhost/internal?${params.toString()}`)
+    );
+    const data = await response.json();
+    const candles: { close: number }[] = data?.data || [];
+    const lastClose = candles.length > 0 ? candles[candles.length - 1].close : 0;
+    return lastClose > 0 ? lastClose : null;
+  } catch (error) {
+    console.error(`[PAPER] Failed to fetch price for ${exchange}:${symbol}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fill an order: record the trade, update the position and the account
+ * Rejects the order if it increases exposure beyond available funds
+ */
+async function fillPaperOrder(userId: string, orderid: string, fillPrice: number): Promise<PaperOrder> {
+  const account = accountRef(userId);
+  const orderRef = account.collection('orders').doc(orderid);
+
+  return adminDb.runTransaction(async (tx) => {
+    const orderSnap = await tx.get(orderRef);
+    const order = orderSnap.data() as PaperOrder;
+
+    // Another request may have filled or cancelled it first
+    if (!OPEN_STATUSES.includes(order.status)) {
+      return order;
+    }
+
+    const posRef = account.collection('positions').doc(positionId(order.symbol, order.exchange, order.product));
+    const [accountSnap, positionsSnap] = await Promise.all([
+      tx.get(account),
+      tx.get(account.collection('positions')),
+    ]);
+
+    const paperAccount = accountSnap.data() as PaperAccount;
+    const positions = positionsSnap.docs.map((d) => ({ id: d.id, ...(d.data() as PaperPosition) }));
+    const existing = positions.find((p) => p.id === posRef.id);
+    const current = existing || { quantity: 0, average_price: 0, realised_pnl: 0 };
+
+    const next = applyPaperFill(current, order.action, order.quantity, fillPrice);
+
+    // Only exposure-increasing fills need funds
+    if (Math.abs(next.quantity) > Math.abs(current.quantity)) {
+      const blocked = utilisedMargin(positions.filter((p) => p.id !== posRef.id));
+      const available = paperAccount.startingCapital + paperAccount.realisedPnl - blocked;
+      const required = Math.abs(next.quantity) * next.average_price;
+      if (required > available) {
+        const rejected: Partial<PaperOrder> = {
+          status: 'rejected',
+          rejection_reason: `Insufficient funds: required ${roundPaise(required)}, available ${roundPaise(available)}`,
+          updatedAt: new Date(),
+        };
+        tx.update(orderRef, rejected);
+        return { ...order, ...rejected };
+      }
+    }
+
+    const now = new Date();
+    const trade: PaperTrade = {
+      orderid,
+      symbol: order.symbol,
+      exchange: order.exchange,
+      product: order.product,
+      action: order.action,
+      quantity: order.quantity,
+      average_price: fillPrice,
+      trade_value: roundPaise(order.quantity * fillPrice),
+      timestamp: now,
+    };
+    tx.set(account.collection('trades').doc(), trade);
+
+    const position: PaperPosition = {
+      symbol: order.symbol,
+      exchange: order.exchange,
+      product: order.product,
+      quantity: next.quantity,
+      average_price: next.average_price,
+      realised_pnl: next.realised_pnl,
+      updatedAt: now,
+    };
+    tx.set(posRef, position);
+
+    tx.update(account, {
+      realisedPnl: paperAccount.realisedPnl + (next.realised_pnl - current.realised_pnl),
+      updatedAt: now,
+    });
+
+    const filled: Partial<PaperOrder> = {
+      status: 'complete',
+      triggered: order.triggered || order.pricetype === 'SL' || order.pricetype === 'SL-M',
+      average_price: fillPrice,
+      updatedAt: now,
+    };
+    tx.update(orderRef, filled);
+    return { ...order, ...filled };
+  });
+}
+
+/**
+ * Try to fill one resting order at the current price
+ */
+async function matchPaperOrder(
+  userId: string,
+  order: PaperOrder,
+  priceCache: Map<string, number | null>
+): Promise<PaperOrder> {
+  const key = `${order.exchange}:${order.symbol}`;
+  if (!priceCache.has(key)) {
+    priceCache.set(key, await getPaperLtp(userId, order.symbol, order.exchange));
+  }
+  const ltp = priceCache.get(key);
+  if (!ltp) {
+    return order;
+  }
+
+  const result = evaluatePaperFill(order, ltp);
+  if (result.fillPrice !== null) {
+    return fillPaperOrder(userId, order.orderid, result.fillPrice);
+  }
+
+  if (result.triggered && !order.triggered) {
+    // SL order triggered but its limit isn't marketable yet
+    await accountRef(userId).collection('orders').doc(order.orderid).update({
+      status: 'open',
+      triggered: true,
+      updatedAt: new Date(),
+    });
+    return { ...order, status: 'open', triggered: true };
+  }
+
+  return order;
+}
+
+/**
+ * Match every resting order against current prices
+ */
+export async function matchOpenPaperOrders(userId: string): Promise<void> {
+  const snapshot = await accountRef(userId)
+    .collection('orders')
+    .where('status', 'in', OPEN_STATUSES)
+    .get();
+
+  const priceCache = new Map<string, number | null>();
+  for (const doc of snapshot.docs) {
+    await matchPaperOrder(userId, { ...(doc.data() as PaperOrder), orderid: doc.id }, priceCache);
+  }
+}
+
+/**
+ * Place a paper order
+ * MARKET orders fill immediately; LIMIT/SL/SL-M orders fill now if marketable, otherwise rest
+ */
+export async function placePaperOrder(userId: string, input: PaperOrderInput): Promise<PaperOrder> {
+  const pricetype = input.pricetype || 'MARKET';
+  const terms = {
+    action: input.action,
+    pricetype,
+    price: Number(input.price) || 0,
+    trigger_price: Number(input.trigger_price) || 0,
+  };
+
+  const validationError = validatePaperOrder(terms, input.quantity);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  await getPaperAccount(userId);
+
+  const now = new Date();
+  const orderRef = accountRef(userId).collection('orders').doc();
+  const order: PaperOrder = {
+    orderid: orderRef.id,
+    symbol: input.symbol,
+    exchange: input.exchange,
+    action: input.action,
+    quantity: Number(input.quantity),
+    price: terms.price,
+    trigger_price: terms.trigger_price,
+    pricetype,
+    product: input.product || 'MIS',
+    status: pricetype === 'SL' || pricetype === 'SL-M' ? 'trigger pending' : 'open',
+    triggered: false,
+    average_price: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  if (input.strategy) {
+    order.strategy = input.strategy;
+  }
+  await orderRef.set(order);
+
+  const ltp = await getPaperLtp(userId, input.symbol, input.exchange);
+  if (!ltp && pricetype === 'MARKET') {
+    const rejected: Partial<PaperOrder> = {
+      status: 'rejected',
+      rejection_reason: `No price available for ${input.exchange}:${input.symbol}`,
+      updatedAt: new Date(),
+    };
+    await orderRef.update(rejected);
+    return { ...order, ...rejected };
+  }
+
+  return matchPaperOrder(userId, order, new Map([[`${input.exchange}:${input.symbol}`, ltp]]));
+}
+
+/**
+ * Modify a resting paper order
+ */
+export async function modifyPaperOrder(
+  userId: string,
+  orderid: string,
+  changes: PaperOrderModification
+): Promise<PaperOrder> {
+  const orderRef = accountRef(userId).collection('orders').doc(orderid);
+  const snap = await orderRef.get();
+  if (!snap.exists) {
+    throw new Error(`Order ${orderid} not found`);
+  }
+
+  const order = snap.data() as PaperOrder;
+  if (!OPEN_STATUSES.includes(order.status)) {
+    throw new Error(`Order ${orderid} is ${order.status} and cannot be modified`);
+  }
+
+  const pricetype = changes.pricetype || order.pricetype;
+  const updated: PaperOrder = {
+    ...order,
+    orderid,
+    pricetype,
+    quantity: changes.quantity !== undefined ? Number(changes.quantity) : order.quantity,
+    price: changes.price !== undefined ? Number(changes.price) || 0 : order.price,
+    trigger_price: changes.trigger_price !== undefined ? Number(changes.trigger_price) || 0 : order.trigger_price,
+    updatedAt: new Date(),
+  };
+
+  // Changing the order type resets the stop state
+  if (pricetype !== order.pricetype) {
+    updated.triggered = false;
+    updated.status = pricetype === 'SL' || pricetype === 'SL-M' ? 'trigger pending' : 'open';
+  }
+
+  const validationError = validatePaperOrder(updated, updated.quantity);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  await orderRef.set(updated);
+  return matchPaperOrder(userId, updated, new Map());
+}
+
+/**
+ * Cancel a resting paper order
+ */
+export async function cancelPaperOrder(userId: string, orderid: string): Promise<void> {
+  const orderRef = accountRef(userId).collection('orders').doc(orderid);
+  const snap = await orderRef.get();
+  if (!snap.exists) {
+    throw new Error(`Order ${orderid} not found`);
+  }
+
+  const order = snap.data() as PaperOrder;
+  if (!OPEN_STATUSES.includes(order.status)) {
+    throw new Error(`Order ${orderid} is ${order.status} and cannot be cancelled`);
+  }
+
+  await orderRef.update({ status: 'cancelled', updatedAt: new Date() });
+}
+
+/**
+ * Cancel every resting paper order, returning the cancelled order IDs
+ */
+export async function cancelAllPaperOrders(userId: string): Promise<string[]> {
+  const snapshot = await accountRef(userId)
+    .collection('orders')
+    .where('status', 'in', OPEN_STATUSES)
+    .get();
+
+  const now = new Date();
+  await Promise.all(snapshot.docs.map((doc) => doc.ref.update({ status: 'cancelled', updatedAt: now })));
+  return snapshot.docs.map((doc) => doc.id);
+}
+
+/**
+ * Get the paper order book (newest first) in OpenAlgo format
+ */
+export async function getPaperOrderbook(userId: string): Promise<OrderBookItem[]> {
+  await matchOpenPaperOrders(userId);
+
+  const snapshot = await accountRef(userId).collection('orders').orderBy('createdAt', 'desc').get();
+  return snapshot.docs.map((doc) => {
+    const order = doc.data() as PaperOrder;
+    return {
+      symbol: order.symbol,
+      exchange: order.exchange,
+      action: order.action,
+      quantity: order.quantity,
+      price: order.status === 'complete' ? order.average_price : order.price,
+      trigger_price: order.trigger_price,
+      pricetype: order.pricetype,
+      product: order.product,
+      orderid: doc.id,
+      order_status: order.status,
+      timestamp: toIsoString(order.createdAt),
+    };
+  });
+}
+
+/**
+ * Get the paper trade book (newest first) in OpenAlgo format
+ */
+export async function getPaperTradebook(userId: string): Promise<TradeBookItem[]> {
+  await matchOpenPaperOrders(userId);
+
+  const snapshot = await accountRef(userId).collection('trades').orderBy('timestamp', 'desc').get();
+  return snapshot.docs.map((doc) => {
+    const trade = doc.data() as PaperTrade;
+    return {
+      symbol: trade.symbol,
+      exchange: trade.exchange,
+      product: trade.product,
+      action: trade.action,
+      quantity: trade.quantity,
+      average_price: trade.average_price,
+      trade_value: trade.trade_value,
+      orderid: trade.orderid,
+      timestamp: toIsoString(trade.timestamp),
+    };
+  });
+}
+
+/**
+ * Read stored positions and mark them to market
+ */
+async function getMarkedPositions(userId: string): Promise<(PaperPosition & { ltp: number })[]> {
+  const snapshot = await accountRef(userId).collection('positions').get();
+  const positions = snapshot.docs.map((doc) => doc.data() as PaperPosition);
+
+  const priceCache = new Map<string, number | null>();
+  const marked: (PaperPosition & { ltp: number })[] = [];
+  for (const position of positions) {
+    const key = `${position.exchange}:${position.symbol}`;
+    if (position.quantity !== 0 && !priceCache.has(key)) {
+      priceCache.set(key, await getPaperLtp(userId, position.symbol, position.exchange));
+    }
+    marked.push({ ...position, ltp: priceCache.get(key) || position.average_price });
+  }
+  return marked;
+}
+
+/**
+ * Get paper positions (open and closed) in OpenAlgo format
+ */
+export async function getPaperPositions(userId: string): Promise<PositionBookItem[]> {
+  await matchOpenPaperOrders(userId);
+
+  const positions = await getMarkedPositions(userId);
+  return positions.map((p) => ({
+    symbol: p.symbol,
+    exchange: p.exchange,
+    product: p.product,
+    quantity: p.quantity,
+    average_price: roundPaise(p.average_price),
+    ltp: p.ltp,
+    pnl: roundPaise(p.realised_pnl + unrealisedPnl(p, p.ltp)),
+  }));
+}
+
+/**
+ * Get paper holdings: long CNC positions, with OpenAlgo holdings statistics
+ */
+export async function getPaperHoldings(userId: string): Promise<HoldingsData> {
+  await matchOpenPaperOrders(userId);
+
+  const positions = await getMarkedPositions(userId);
+  return buildHoldingsData(
+    positions
+      .filter((p) => p.product === 'CNC' && p.quantity > 0)
+      .map((p) => ({
+        symbol: p.symbol,
+        exchange: p.exchange,
+        product: p.product,
+        quantity: p.quantity,
+        average_price: p.average_price,
+        ltp: p.ltp,
+      }))
+  );
+}
+
+/**
+ * Get paper funds in OpenAlgo format
+ */
+export async function getPaperFunds(userId: string): Promise<FundsData> {
+  await matchOpenPaperOrders(userId);
+
+  const account = await getPaperAccount(userId);
+  const positions = await getMarkedPositions(userId);
+  const blocked = utilisedMargin(positions);
+  const m2m = positions.reduce((sum, p) => sum + unrealisedPnl(p, p.ltp), 0);
+
+  return {
+    availablecash: roundPaise(account.startingCapital + account.realisedPnl - blocked),
+    collateral: 0,
+    m2munrealized: roundPaise(m2m),
+    m2mrealized: roundPaise(account.realisedPnl),
+    utiliseddebits: roundPaise(blocked),
+    utilisedspan: 0,
+    utilisedoptionpremium: 0,
+    utilisedholdingsales: 0,
+    utilisedexposure: 0,
+    utilisedturnover: 0,
+    utilisedpayout: 0,
+  };
+}
+
+/**
+ * Close a paper position with a MARKET order for the full net quantity
+ * Returns null if there is no open position
+ */
+export async function closePaperPosition(
+  userId: string,
+  symbol: string,
+  exchange: Exchange,
+  product: ProductType
+): Promise<PaperOrder | null> {
+  const snap = await accountRef(userId)
+    .collection('positions')
+    .doc(positionId(symbol, exchange, product))
+    .get();
+  const position = snap.exists ? (snap.data() as PaperPosition) : null;
+
+  if (!position || position.quantity === 0) {
+    return null;
+  }
+
+  return placePaperOrder(userId, {
+    symbol,
+    exchange,
+    product,
+    action: position.quantity > 0 ? 'SELL' : 'BUY',
+    quantity: Math.abs(position.quantity),
+    pricetype: 'MARKET',
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * Paper Trading Fill Helpers
+ * Order matching, position accounting and funds for the 'paper' broker
+ *
+ * Pure functions (no Firestore access) so they can be unit tested
+ */
+
+import { Action, PriceType } from './types/openalgo';
+
+// Virtual capital credited to every new paper account (1 crore, same as OpenAlgo sandbox)
+export const PAPER_STARTING_CAPITAL = 10000000;
+
+export interface PaperOrderTerms {
+  action: Action;
+  pricetype: PriceType;
+  price: number;
+  trigger_price: number;
+  triggered: boolean;
+}
+
+export interface PaperFillResult {
+  triggered: boolean;
+  fillPrice: number | null;      // null while the order keeps resting
+}
+
+export interface PaperPositionState {
+  quantity: number;
+  average_price: number;
+  realised_pnl: number;
+}
+
+/**
+ * Validate paper order terms, returning an error message or null if valid
+ */
+export function validatePaperOrder(terms: Omit<PaperOrderTerms, 'triggered'>, quantity: number): string | null {
+  if (!Number.isInteger(Number(quantity)) || Number(quantity) <= 0) {
+    return 'Quantity must be a positive integer';
+  }
+  if ((terms.pricetype === 'LIMIT' || terms.pricetype === 'SL') && !(terms.price > 0)) {
+    return `Price is required for ${terms.pricetype} orders`;
+  }
+  if ((terms.pricetype === 'SL' || terms.pricetype === 'SL-M') && !(terms.trigger_price > 0)) {
+    return `Trigger price is required for ${terms.pricetype} orders`;
+  }
+  if (terms.pricetype === 'SL') {
+    // A stop-limit buy must not have a limit below its trigger (and vice versa for sells)
+    if (terms.action === 'BUY' && terms.price < terms.trigger_price) {
+      return 'Limit price must be at or above trigger price for SL BUY orders';
+    }
+    if (terms.action === 'SELL' && terms.price > terms.trigger_price) {
+      return 'Limit price must be at or below trigger price for SL SELL orders';
+    }
+  }
+  return null;
+}
+
+/**
+ * Decide whether an order fills at the given last traded price
+ *
+ * MARKET: fills at LTP
+ * LIMIT:  BUY fills when LTP <= price, SELL when LTP >= price (at LTP, never worse than the limit)
+ * SL:     triggers when BUY LTP >= trigger / SELL LTP <= trigger, then behaves as LIMIT
+ * SL-M:   triggers the same way, then fills at LTP
+ */
+export function evaluatePaperFill(terms: PaperOrderTerms, ltp: number): PaperFillResult {
+  if (!(ltp > 0)) {
+    return { triggered: terms.triggered, fillPrice: null };
+  }
+
+  let triggered = terms.triggered;
+  if (terms.pricetype === 'SL' || terms.pricetype === 'SL-M') {
+    if (!triggered) {
+      triggered = terms.action === 'BUY' ? ltp >= terms.trigger_price : ltp <= terms.trigger_price;
+    }
+    if (!triggered) {
+      return { triggered: false, fillPrice: null };
+    }
+  }
+
+  if (terms.pricetype === 'MARKET' || terms.pricetype === 'SL-M') {
+    return { triggered, fillPrice: ltp };
+  }
+
+  // LIMIT, or SL once triggered
+  const marketable = terms.action === 'BUY' ? ltp <= terms.price : ltp >= terms.price;
+  return { triggered, fillPrice: marketable ? ltp : null };
+}
+
+/**
+ * Apply a fill to a net position
+ * Adding to a position averages the price, reducing it books P&L,
+ * and crossing through zero opens the remainder at the fill price
+ */
+export function applyPaperFill(
+  position: PaperPositionState,
+  action: Action,
+  quantity: number,
+  price: number
+): PaperPositionState {
+  const signedQty = action === 'BUY' ? quantity : -quantity;
+  const current = position.quantity;
+  const next = current + signedQty;
+
+  // Opening or adding in the same direction
+  if (current === 0 || Math.sign(current) === Math.sign(signedQty)) {
+    const totalCost = Math.abs(current) * position.average_price + quantity * price;
+    return {
+      quantity: next,
+      average_price: totalCost / Math.abs(next),
+      realised_pnl: position.realised_pnl,
+    };
+  }
+
+  // Reducing, closing or reversing
+  const closedQty = Math.min(Math.abs(current), quantity);
+  const realised = closedQty * (price - position.average_price) * Math.sign(current);
+
+  let averagePrice = position.average_price;
+  if (next === 0) {
+    averagePrice = 0;
+  } else if (Math.sign(next) !== Math.sign(current)) {
+    averagePrice = price;
+  }
+
+  return {
+    quantity: next,
+    average_price: averagePrice,
+    realised_pnl: position.realised_pnl + realised,
+  };
+}
+
+/**
+ * Mark-to-market P&L of the open quantity
+ */
+export function unrealisedPnl(position: { quantity: number; average_price: number }, ltp: number): number {
+  if (!position.quantity || !(ltp > 0)) {
+    return 0;
+  }
+  return position.quantity * (ltp - position.average_price);
+}
+
+/**
+ * Margin blocked by open positions (full notional, no leverage)
+ */
+export function utilisedMargin(positions: { quantity: number; average_price: number }[]): number {
+  return positions.reduce((sum, p) => sum + Math.abs(p.quantity) * p.average_price, 0);
+}
+
+/**
+ * Round a price/amount to paise for display and storage
+ */
+export function roundPaise(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,43 @@
+/**
+ * Position Helpers
+ * Read net positions from the OpenAlgo position book and compute smart orders
+ */
+
+import { Action, PositionBookItem } from './types/openalgo';
+
+/**
+ * Get the net quantity held for a symbol from an OpenAlgo position book
+ * (BrokerAdapter.positions normalizes every broker to this format)
+ *
+ * Returns 0 when no matching position exists
+ */
+export function extractNetPosition(
+  positions: PositionBookItem[],
+  symbol: string,
+  exchange: string,
+  product: string
+): number {
+  return positions
+    .filter((p) => p.symbol === symbol && p.exchange === exchange && p.product === product)
+    .reduce((sum, p) => sum + p.quantity, 0);
+}
+
+/**
+ * Work out the order needed to move from the current net position to the target
+ * Positive values are long, negative values are short
+ *
+ * Returns null when the position is already at target
+ */
+export function computeSmartOrder(
+  currentPosition: number,
+  targetPosition: number
+): { action: Action; quantity: number } | null {
+  const delta = targetPosition - currentPosition;
+  if (delta === 0) {
+    return null;
+  }
+  return {
+    action: delta > 0 ? 'BUY' : 'SELL',
+    quantity: Math.abs(delta),
+  };
+}
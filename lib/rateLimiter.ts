@@ -0,0 +1,119 @@
+/**
+ * Per-Key Order Rate Limiter
+ * Token buckets (per second and per minute) for each API key
+ *
+ * Buckets live in memory, so limits apply per server instance
+ */
+
+import { ApiKeyRateLimits, DEFAULT_RATE_LIMITS } from './types/apikey';
+
+export const MAX_ORDERS_PER_SECOND = 100;
+export const MAX_ORDERS_PER_MINUTE = 6000;
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;             // ms timestamp of the last refill
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; window: 'second' | 'minute'; limit: number; retryAfterMs: number };
+
+// keyId -> [per-second bucket, per-minute bucket]
+const buckets = new Map<string, [TokenBucket, TokenBucket]>();
+
+/**
+ * Refill a bucket up to its capacity for the time elapsed since its last update
+ */
+export function refillBucket(bucket: TokenBucket, capacity: number, windowMs: number, now: number): TokenBucket {
+  const elapsed = Math.max(0, now - bucket.updatedAt);
+  return {
+    tokens: Math.min(capacity, bucket.tokens + (elapsed * capacity) / windowMs),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Milliseconds until a bucket holds `count` whole tokens
+ */
+function msUntilTokens(bucket: TokenBucket, capacity: number, windowMs: number, count: number): number {
+  return Math.ceil(((count - bucket.tokens) * windowMs) / capacity);
+}
+
+/**
+ * Take order tokens for a key from both buckets, one per order a request places
+ * Nothing is consumed unless both windows have all `count` tokens available
+ */
+export function consumeOrderToken(
+  keyId: string,
+  limits: ApiKeyRateLimits = DEFAULT_RATE_LIMITS,
+  now: number = Date.now(),
+  count: number = 1
+): RateLimitResult {
+  const existing = buckets.get(keyId);
+  const second = refillBucket(
+    existing?.[0] ?? { tokens: limits.ordersPerSecond, updatedAt: now },
+    limits.ordersPerSecond,
+    1000,
+    now
+  );
+  const minute = refillBucket(
+    existing?.[1] ?? { tokens: limits.ordersPerMinute, updatedAt: now },
+    limits.ordersPerMinute,
+    60000,
+    now
+  );
+
+  if (second.tokens < count) {
+    buckets.set(keyId, [second, minute]);
+    return {
+      allowed: false,
+      window: 'second',
+      limit: limits.ordersPerSecond,
+      retryAfterMs: msUntilTokens(second, limits.ordersPerSecond, 1000, count),
+    };
+  }
+
+  if (minute.tokens < count) {
+    buckets.set(keyId, [second, minute]);
+    return {
+      allowed: false,
+      window: 'minute',
+      limit: limits.ordersPerMinute,
+      retryAfterMs: msUntilTokens(minute, limits.ordersPerMinute, 60000, count),
+    };
+  }
+
+  buckets.set(keyId, [
+    { ...second, tokens: second.tokens - count },
+    { ...minute, tokens: minute.tokens - count },
+  ]);
+  return { allowed: true };
+}
+
+/**
+ * Forget a key's buckets (e.g. after its limits change)
+ */
+export function resetRateLimit(keyId: string): void {
+  buckets.delete(keyId);
+}
+
+/**
+ * Validate rate limits submitted by the user
+ */
+export function validateRateLimits(
+  value: unknown
+): { success: true; rateLimits: ApiKeyRateLimits } | { success: false; error: string } {
+  const limits = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const perSecond = Number(limits.ordersPerSecond);
+  const perMinute = Number(limits.ordersPerMinute);
+
+  if (!Number.isInteger(perSecond) || perSecond < 1 || perSecond > MAX_ORDERS_PER_SECOND) {
+    return { success: false, error: `ordersPerSecond must be an integer between 1 and ${MAX_ORDERS_PER_SECOND}` };
+  }
+  if (!Number.isInteger(perMinute) || perMinute < 1 || perMinute > MAX_ORDERS_PER_MINUTE) {
+    return { success: false, error: `ordersPerMinute must be an integer between 1 and ${MAX_ORDERS_PER_MINUTE}` };
+  }
+
+  return { success: true, rateLimits: { ordersPerSecond: perSecond, ordersPerMinute: perMinute } };
+}
@@ -0,0 +1,319 @@
+/**
+ * Pre-Trade Risk Checks
+ * Pure rule evaluation for the risk engine (no Firestore or broker calls)
+ */
+
+import { Exchange, PositionBookItem, ProductType } from './types/openalgo';
+import { RiskOrder, RiskProfile, RiskTradingHours } from './types/risk';
+import { extractNetPosition } from './positionUtils';
+import { isMarketOpen, nextSessionOpen } from './tradingCalendar';
+
+const IST_OFFSET_MINUTES = 330;
+
+const EXCHANGES: Exchange[] = ['NSE', 'BSE', 'NFO', 'BFO', 'MCX', 'CDS', 'BCD'];
+const PRODUCTS: ProductType[] = ['MIS', 'CNC', 'NRML'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export interface RiskContext {
+  now: Date;
+  ltp: number | null;            // null when the quote could not be fetched
+  positions: PositionBookItem[] | null; // null when the position book could not be fetched
+  lockedToday: boolean;          // Daily loss lock already set for today
+}
+
+export interface RiskEvaluation {
+  reasons: string[];
+  lossLimitBreached: boolean;    // Day P&L is at or below -dailyMaxLoss
+}
+
+/**
+ * Shift a date to IST wall-clock time (read it back with getUTC* methods)
+ */
+function toIst(date: Date): Date {
+  return new Date(date.getTime() + IST_OFFSET_MINUTES * 60000);
+}
+
+/**
+ * IST calendar day as 'YYYY-MM-DD'
+ */
+export function istDateKey(date: Date): string {
+  return toIst(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Minutes since IST midnight
+ */
+export function istMinutes(date: Date): number {
+  const ist = toIst(date);
+  return ist.getUTCHours() * 60 + ist.getUTCMinutes();
+}
+
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isWithinTradingHours(date: Date, hours: RiskTradingHours): boolean {
+  const minutes = istMinutes(date);
+  return minutes >= parseTime(hours.start) && minutes < parseTime(hours.end);
+}
+
+/**
+ * Which market data the checks need for an order, so the engine only calls the broker when required
+ */
+export function riskDataNeeds(
+  profile: RiskProfile,
+  order: RiskOrder,
+  lockedToday: boolean
+): { ltp: boolean; positions: boolean } {
+  const hasOrderPrice = Number(order.price) > 0 || Number(order.trigger_price) > 0;
+  return {
+    ltp: profile.maxOrderValue !== null || (profile.priceBandPercent !== null && hasOrderPrice),
+    positions: lockedToday || profile.dailyMaxLoss !== null || profile.maxOpenPositions !== null,
+  };
+}
+
+/**
+ * Net position the order trades against (same symbol, exchange and product)
+ */
+function currentNetPosition(order: RiskOrder, positions: PositionBookItem[]): number {
+  return extractNetPosition(
+    positions,
+    order.symbol.toUpperCase(),
+    order.exchange,
+    order.product || 'MIS'
+  );
+}
+
+/**
+ * An order only reduces exposure when it trades against an existing position
+ * without flipping it; such orders stay allowed after the loss limit is hit
+ */
+export function isReducingOrder(order: RiskOrder, positions: PositionBookItem[] | null): boolean {
+  if (!positions) return false;
+  const net = currentNetPosition(order, positions);
+  const quantity = Number(order.quantity);
+  if (net > 0) return order.action === 'SELL' && quantity <= net;
+  if (net < 0) return order.action === 'BUY' && quantity <= -net;
+  return false;
+}
+
+/**
+ * Sum of P&L across the day's position book
+ */
+export function dayPnl(positions: PositionBookItem[]): number {
+  return positions.reduce((sum, p) => sum + (Number(p.pnl) || 0), 0);
+}
+
+/**
+ * Unix seconds as 'YYYY-MM-DD HH:MM' IST
+ */
+function formatIstTime(time: number): string {
+  return toIst(new Date(time * 1000)).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+function formatAmount(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Check an order against a risk profile
+ * Checks that need market data fail closed when that data is unavailable
+ */
+export function evaluateOrderRisk(order: RiskOrder, profile: RiskProfile, context: RiskContext): RiskEvaluation {
+  const reasons: string[] = [];
+  if (!profile.enabled) {
+    return { reasons, lossLimitBreached: false };
+  }
+
+  const symbol = order.symbol.toUpperCase();
+  const quantity = Number(order.quantity);
+  const product = order.product || 'MIS';
+  const reducing = isReducingOrder(order, context.positions);
+
+  // Daily loss limit
+  const pnl = context.positions ? dayPnl(context.positions) : null;
+  const lossLimitBreached = profile.dailyMaxLoss !== null && pnl !== null && pnl <= -profile.dailyMaxLoss;
+  if (context.lockedToday) {
+    if (!reducing) {
+      reasons.push('Daily loss limit hit: new orders are blocked until the next trading day');
+    }
+  } else if (profile.dailyMaxLoss !== null) {
+    if (pnl === null) {
+      reasons.push('Cannot check daily loss: position book unavailable');
+    } else if (lossLimitBreached && !reducing) {
+      reasons.push(`Daily loss of ${formatAmount(-pnl)} has reached the limit of ${formatAmount(profile.dailyMaxLoss)}`);
+    }
+  }
+
+  // Instrument filters
+  if (profile.allowedSymbols.length > 0 && !profile.allowedSymbols.includes(symbol)) {
+    reasons.push(`Symbol ${symbol} is not in the allowed symbols list`);
+  }
+  if (profile.allowedExchanges.length > 0 && !profile.allowedExchanges.includes(order.exchange)) {
+    reasons.push(`Exchange ${order.exchange} is not allowed`);
+  }
+  if (profile.allowedProducts.length > 0 && !profile.allowedProducts.includes(product)) {
+    reasons.push(`Product ${product} is not allowed`);
+  }
+
+  // Trading window
+  if (profile.tradingHours && !isWithinTradingHours(context.now, profile.tradingHours)) {
+    reasons.push(
+      `Outside trading hours (${profile.tradingHours.start}-${profile.tradingHours.end} IST)`
+    );
+  }
+
+  // Exchange sessions (pre-open accepts orders)
+  const nowSeconds = Math.floor(context.now.getTime() / 1000);
+  if (profile.marketHoursOnly && !order.exchange) {
+    reasons.push('Cannot check market hours: order has no exchange');
+  } else if (profile.marketHoursOnly && !isMarketOpen(order.exchange, nowSeconds, { preOpen: true })) {
+    const next = nextSessionOpen(order.exchange, nowSeconds, { preOpen: true });
+    reasons.push(`${order.exchange} is closed${next ? ` until ${formatIstTime(next.open)} IST` : ''}`);
+  }
+
+  // Order size
+  if (profile.maxOrderQuantity !== null && quantity > profile.maxOrderQuantity) {
+    reasons.push(`Quantity ${quantity} exceeds the maximum of ${profile.maxOrderQuantity} per order`);
+  }
+
+  const limitPrice = order.pricetype === 'LIMIT' || order.pricetype === 'SL' ? Number(order.price) || 0 : 0;
+  if (profile.maxOrderValue !== null) {
+    const price = limitPrice > 0 ? limitPrice : context.ltp;
+    if (price === null) {
+      reasons.push('Cannot check order value: last traded price unavailable');
+    } else if (quantity * price > profile.maxOrderValue) {
+      reasons.push(
+        `Order value ${formatAmount(quantity * price)} exceeds the maximum of ${formatAmount(profile.maxOrderValue)}`
+      );
+    }
+  }
+
+  // Fat-finger price band
+  if (profile.priceBandPercent !== null) {
+    const prices = [
+      ['Price', limitPrice],
+      ['Trigger price', Number(order.trigger_price) || 0],
+    ] as const;
+    for (const [label, price] of prices) {
+      if (price <= 0) continue;
+      if (context.ltp === null) {
+        reasons.push(`Cannot check ${label.toLowerCase()} band: last traded price unavailable`);
+        break;
+      }
+      const deviation = (Math.abs(price - context.ltp) / context.ltp) * 100;
+      if (deviation > profile.priceBandPercent) {
+        reasons.push(
+          `${label} ${price} is ${deviation.toFixed(1)}% away from LTP ${context.ltp} (band ${profile.priceBandPercent}%)`
+        );
+      }
+    }
+  }
+
+  // Open positions
+  if (profile.maxOpenPositions !== null && !reducing) {
+    if (!context.positions) {
+      reasons.push('Cannot check open positions: position book unavailable');
+    } else if (currentNetPosition(order, context.positions) === 0) {
+      const open = context.positions.filter((p) => Number(p.quantity) !== 0).length;
+      if (open >= profile.maxOpenPositions) {
+        reasons.push(`Already holding ${open} open positions (maximum ${profile.maxOpenPositions})`);
+      }
+    }
+  }
+
+  return { reasons, lossLimitBreached };
+}
+
+/**
+ * Nullable positive limit: empty values disable the rule
+ */
+function parseLimit(value: unknown, name: string, integer: boolean): number | null | string {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0 || (integer && !Number.isInteger(number))) {
+    return `${name} must be a positive ${integer ? 'integer' : 'number'} or empty`;
+  }
+  return number;
+}
+
+/**
+ * Validate a risk profile submitted by the user
+ */
+export function validateRiskProfile(
+  value: unknown
+): { success: true; profile: RiskProfile } | { success: false; error: string } {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+
+  const limits: Record<string, number | null> = {};
+  const limitFields: [string, boolean][] = [
+    ['maxOrderQuantity', true],
+    ['maxOrderValue', false],
+    ['maxOpenPositions', true],
+    ['dailyMaxLoss', false],
+    ['priceBandPercent', false],
+  ];
+  for (const [field, integer] of limitFields) {
+    const parsed = parseLimit(input[field], field, integer);
+    if (typeof parsed === 'string') {
+      return { success: false, error: parsed };
+    }
+    limits[field] = parsed;
+  }
+  if (limits.priceBandPercent !== null && limits.priceBandPercent > 100) {
+    return { success: false, error: 'priceBandPercent must be at most 100' };
+  }
+
+  const lists: Record<string, string[]> = {};
+  for (const field of ['allowedSymbols', 'allowedExchanges', 'allowedProducts']) {
+    const list = input[field] ?? [];
+    if (!Array.isArray(list) || list.some((item) => typeof item !== 'string')) {
+      return { success: false, error: `${field} must be an array of strings` };
+    }
+    lists[field] = Array.from(
+      new Set(list.map((item: string) => item.trim().toUpperCase()).filter(Boolean))
+    );
+  }
+
+  const badExchange = lists.allowedExchanges.find((e) => !EXCHANGES.includes(e as Exchange));
+  if (badExchange) {
+    return { success: false, error: `Unknown exchange: ${badExchange}` };
+  }
+  const badProduct = lists.allowedProducts.find((p) => !PRODUCTS.includes(p as ProductType));
+  if (badProduct) {
+    return { success: false, error: `Unknown product: ${badProduct}` };
+  }
+
+  let tradingHours: RiskTradingHours | null = null;
+  if (input.tradingHours) {
+    const hours = input.tradingHours as Record<string, unknown>;
+    const start = String(hours.start ?? '');
+    const end = String(hours.end ?? '');
+    if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+      return { success: false, error: 'tradingHours start and end must be HH:MM (IST)' };
+    }
+    if (parseTime(start) >= parseTime(end)) {
+      return { success: false, error: 'tradingHours start must be before end' };
+    }
+    tradingHours = { start, end };
+  }
+
+  return {
+    success: true,
+    profile: {
+      enabled: input.enabled === true,
+      maxOrderQuantity: limits.maxOrderQuantity,
+      maxOrderValue: limits.maxOrderValue,
+      maxOpenPositions: limits.maxOpenPositions,
+      dailyMaxLoss: limits.dailyMaxLoss,
+      squareOffOnMaxLoss: input.squareOffOnMaxLoss === true,
+      allowedSymbols: lists.allowedSymbols,
+      allowedExchanges: lists.allowedExchanges as Exchange[],
+      allowedProducts: lists.allowedProducts as ProductType[],
+      tradingHours,
+      marketHoursOnly: input.marketHoursOnly === true,
+      priceBandPercent: limits.priceBandPercent,
+    },
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Pre-Trade Risk Engine
+ * Loads the user's risk profile, gathers the market data the rules need from the
+ * broker adapter, and rejects (and records) orders that violate the profile
+ *
+ * Every order entry point calls checkPreTradeRisk before the order reaches the broker
+ */
+
+import { adminDb } from './firebaseAdmin';
+import { getBrokerAdapter } from './brokers';
+import { PositionBookItem } from './types/openalgo';
+import {
+  DEFAULT_RISK_PROFILE,
+  PreTradeCheckResult,
+  RiskLockState,
+  RiskOrder,
+  RiskOrderSource,
+  RiskProfile,
+  RiskRejection,
+} from './types/risk';
+import { evaluateOrderRisk, istDateKey, riskDataNeeds } from './riskChecks';
+
+function riskCollection(userId: string) {
+  return adminDb.collection('users').doc(userId).collection('risk');
+}
+
+function rejectionsCollection(userId: string) {
+  return adminDb.collection('users').doc(userId).collection('riskRejections');
+}
+
+function toIsoString(value: unknown): string {
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  return value ? new Date(value as string | Date).toISOString() : '';
+}
+
+/**
+ * Read a user's risk profile (defaults to disabled when none is saved)
+ */
+export async function getRiskProfile(userId: string): Promise<RiskProfile> {
+  const doc = await riskCollection(userId).doc('profile').get();
+  if (!doc.exists) {
+    return { ...DEFAULT_RISK_PROFILE };
+  }
+
+  const data = doc.data() || {};
+  return {
+    ...DEFAULT_RISK_PROFILE,
+    ...data,
+    updatedAt: data.updatedAt ? toIsoString(data.updatedAt) : undefined,
+  } as RiskProfile;
+}
+
+export async function saveRiskProfile(userId: string, profile: RiskProfile): Promise<void> {
+  await riskCollection(userId).doc('profile').set({
+    ...profile,
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * Today's daily loss lock, or null when trading is not locked
+ */
+export async function getTodayLock(userId: string, now: Date = new Date()): Promise<RiskLockState | null> {
+  const doc = await riskCollection(userId).doc('state').get();
+  const data = doc.exists ? doc.data() : null;
+  if (!data || data.lockedOn !== istDateKey(now)) {
+    return null;
+  }
+
+  return {
+    lockedOn: data.lockedOn,
+    reason: data.reason,
+    squaredOff: data.squaredOff === true,
+    lockedAt: toIsoString(data.lockedAt),
+  };
+}
+
+export async function getRiskRejections(userId: string, limit: number = 20): Promise<RiskRejection[]> {
+  const snapshot = await rejectionsCollection(userId).orderBy('createdAt', 'desc').limit(limit).get();
+
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      source: data.source,
+      broker: data.broker,
+      symbol: data.symbol,
+      exchange: data.exchange,
+      action: data.action,
+      quantity: data.quantity,
+      price: data.price ?? null,
+      reasons: data.reasons || [],
+      createdAt: toIsoString(data.createdAt),
+    };
+  });
+}
+
+/**
+ * Never throws: a logging failure must not change the order response
+ */
+async function recordRiskRejection(
+  userId: string,
+  broker: string,
+  order: RiskOrder,
+  source: RiskOrderSource,
+  reasons: string[]
+): Promise<void> {
+  try {
+    await rejectionsCollection(userId).add({
+      source,
+      broker,
+      symbol: String(order.symbol).toUpperCase(),
+      exchange: order.exchange,
+      action: order.action,
+      quantity: Number(order.quantity),
+      price: Number(order.price) > 0 ? Number(order.price) : null,
+      reasons,
+      createdAt: new Date(),
+    });
+  } catch (error) {
+    console.error('[RISK] Failed to record rejection:', error);
+  }
+}
+
+/**
+ * Block new orders for the rest of the IST day and optionally square off:
+ * cancel every open order, then close every open position
+ */
+async function lockTrading(
+  userId: string,
+  broker: string,
+  profile: RiskProfile,
+  positions: PositionBookItem[],
+  now: Date
+): Promise<void> {
+  const reason = `Daily loss limit of ₹${profile.dailyMaxLoss} reached`;
+  let squaredOff = false;
+
+  const adapter = getBrokerAdapter(broker);
+  if (profile.squareOffOnMaxLoss && adapter) {
+    console.warn(`[RISK] Daily loss limit hit for ${userId}, squaring off on ${broker}`);
+    try {
+      await adapter.cancelAllOrders(userId);
+      for (const position of positions.filter((p) => Number(p.quantity) !== 0)) {
+        const { data, status } = await adapter.closePosition(userId, position.symbol, position.exchange, position.product);
+        if (status !== 200) {
+          console.error(`[RISK] Failed to close ${position.exchange}:${position.symbol}:`, data);
+        }
+      }
+      squaredOff = true;
+    } catch (error) {
+      console.error('[RISK] Square-off failed:', error);
+    }
+  }
+
+  await riskCollection(userId).doc('state').set({
+    lockedOn: istDateKey(now),
+    reason,
+    squaredOff,
+    lockedAt: now,
+  });
+}
+
+/**
+ * Run the pre-trade checks for an order
+ * Returns allowed: false with the reasons when any rule is violated
+ */
+export async function checkPreTradeRisk(
+  userId: string,
+  broker: string,
+  order: RiskOrder,
+  source: RiskOrderSource
+): Promise<PreTradeCheckResult> {
+  const profile = await getRiskProfile(userId);
+  if (!profile.enabled) {
+    return { allowed: true };
+  }
+
+  const now = new Date();
+  const lockedToday = (await getTodayLock(userId, now)) !== null;
+  const needs = riskDataNeeds(profile, order, lockedToday);
+  const adapter = getBrokerAdapter(broker);
+
+  let positions: PositionBookItem[] | null = null;
+  if (needs.positions && adapter) {
+    try {
+      const { data, status } = await adapter.positions(userId);
+      positions = status === 200 ? data.data || [] : null;
+    } catch (error) {
+      console.error('[RISK] Failed to fetch positions:', error);
+    }
+  }
+
+  let ltp: number | null = null;
+  if (needs.ltp && adapter) {
+    try {
+      const { data, status } = await adapter.quotes(userId, String(order.symbol).toUpperCase(), order.exchange);
+      const quoteLtp = Number(data.data?.ltp);
+      ltp = status === 200 && quoteLtp > 0 ? quoteLtp : null;
+    } catch (error) {
+      console.error('[RISK] Failed to fetch quote:', error);
+    }
+  }
+
+  const evaluation = evaluateOrderRisk(order, profile, { now, ltp, positions, lockedToday });
+
+  if (evaluation.lossLimitBreached && !lockedToday && positions) {
+    await lockTrading(userId, broker, profile, positions, now);
+  }
+
+  if (evaluation.reasons.length === 0) {
+    return { allowed: true };
+  }
+
+  console.warn(`[RISK] Rejected ${source} order for ${userId}:`, evaluation.reasons);
+  await recordRiskRejection(userId, broker, order, source, evaluation.reasons);
+
+  return {
+    allowed: false,
+    reasons: evaluation.reasons,
+    message: `Order rejected by risk check: ${evaluation.reasons.join('; ')}`,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Strategy Signal Helpers
+ * Parse webhook payloads and turn signals into orders based on strategy mode
+ *
+ * Pure functions (no Firestore access) so they can be unit tested
+ */
+
+import { Action } from './types/openalgo';
+import { StrategyMode, WebhookSignal } from './types/strategy';
+
+export type SignalResolution =
+  | { execute: true; action: Action; quantity: number; nextPosition: number }
+  | { execute: false; reason: string };
+
+/**
+ * Map the different action spellings used by signal sources to BUY/SELL
+ * AmiBroker sends BUY/SELL, TradingView {{strategy.order.action}} sends buy/sell,
+ * OpenAlgo-style strategies may send SHORT/COVER
+ */
+const ACTION_MAP: Record<string, Action> = {
+  BUY: 'BUY',
+  SELL: 'SELL',
+  LONG: 'BUY',
+  COVER: 'BUY',
+  SHORT: 'SELL',
+};
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Parse an AmiBroker or TradingView webhook payload
+ *
+ * AmiBroker: { "symbol": "RELIANCE", "action": "BUY", "position_size": 1 }
+ * TradingView: { "ticker": "NSE:RELIANCE", "action": "buy", "contracts": "5", "position_size": "5" }
+ *
+ * Returns null if the payload does not contain a recognizable action
+ */
+export function parseWebhookSignal(input: unknown): WebhookSignal | null {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+  const payload = input as Record<string, unknown>;
+
+  const rawAction = payload.action ?? payload.order_action ?? payload.side;
+  const action = ACTION_MAP[String(rawAction || '').trim().toUpperCase()];
+  if (!action) {
+    return null;
+  }
+
+  const signal: WebhookSignal = { action };
+
+  const positionSize = toNumber(payload.position_size ?? payload.positionSize);
+  if (positionSize !== undefined) {
+    signal.position_size = positionSize;
+    // TradingView alerts send {{ticker}} and a signed {{strategy.position_size}}
+    if (payload.ticker !== undefined || positionSize < 0) {
+      signal.signed_size = true;
+    }
+  }
+
+  const quantity = toNumber(payload.quantity ?? payload.qty ?? payload.contracts);
+  if (quantity !== undefined && quantity > 0) {
+    signal.quantity = Math.floor(quantity);
+  }
+
+  const rawSymbol = payload.symbol ?? payload.ticker;
+  if (rawSymbol) {
+    // TradingView tickers may carry an exchange prefix (e.g., "NSE:RELIANCE")
+    const symbol = String(rawSymbol).trim().toUpperCase();
+    signal.symbol = symbol.includes(':') ? symbol.split(':')[1] : symbol;
+  }
+
+  return signal;
+}
+
+/**
+ * Decide which order (if any) a signal should produce
+ *
+ * @param mode - Strategy trading mode
+ * @param position - Net position currently held by the strategy (+long / -short)
+ * @param action - Signal action
+ * @param quantity - Entry quantity
+ *
+ * LONG:  BUY opens a long when flat, SELL exits the long
+ * SHORT: SELL opens a short when flat, BUY covers the short
+ * BOTH:  BUY/SELL open a position when flat and reverse an opposite one
+ */
+export function resolveSignalOrder(
+  mode: StrategyMode,
+  position: number,
+  action: Action,
+  quantity: number
+): SignalResolution {
+  if (!quantity || quantity <= 0) {
+    return { execute: false, reason: 'Quantity must be greater than 0' };
+  }
+
+  if (mode === 'LONG') {
+    if (action === 'BUY') {
+      if (position > 0) {
+        return { execute: false, reason: 'Already in a long position' };
+      }
+      return { execute: true, action: 'BUY', quantity, nextPosition: position + quantity };
+    }
+    if (position <= 0) {
+      return { execute: false, reason: 'No long position to exit' };
+    }
+    return { execute: true, action: 'SELL', quantity: position, nextPosition: 0 };
+  }
+
+  if (mode === 'SHORT') {
+    if (action === 'SELL') {
+      if (position < 0) {
+        return { execute: false, reason: 'Already in a short position' };
+      }
+      return { execute: true, action: 'SELL', quantity, nextPosition: position - quantity };
+    }
+    if (position >= 0) {
+      return { execute: false, reason: 'No short position to cover' };
+    }
+    return { execute: true, action: 'BUY', quantity: Math.abs(position), nextPosition: 0 };
+  }
+
+  // BOTH: enter when flat, reverse when holding the opposite side
+  if (action === 'BUY') {
+    if (position > 0) {
+      return { execute: false, reason: 'Already in a long position' };
+    }
+    return { execute: true, action: 'BUY', quantity: quantity + Math.abs(position), nextPosition: quantity };
+  }
+  if (position < 0) {
+    return { execute: false, reason: 'Already in a short position' };
+  }
+  return { execute: true, action: 'SELL', quantity: quantity + position, nextPosition: -quantity };
+}
+
+/**
+ * Get the target position a signal asks for, or null for a plain entry/exit signal
+ *
+ * position_size 0 always means "close position" (AmiBroker PositionSize = 0)
+ * In BOTH mode a non-zero position_size is the target size. TradingView's
+ * strategy.position_size is already signed, so a sell that trims a long to 5 targets +5;
+ * AmiBroker sends a positive size, which takes the action's sign
+ */
+export function resolveTargetPosition(mode: StrategyMode, signal: WebhookSignal): number | null {
+  if (signal.position_size === undefined) {
+    return null;
+  }
+
+  if (signal.position_size === 0) {
+    return 0;
+  }
+
+  if (mode !== 'BOTH') {
+    return null;
+  }
+
+  if (signal.signed_size) {
+    return Math.trunc(signal.position_size);
+  }
+  const size = Math.abs(Math.floor(signal.position_size));
+  return signal.action === 'BUY' ? size : -size;
+}
@@ -0,0 +1,157 @@
+/**
+ * Strategy Utility Functions
+ * Create, look up, and manage webhook strategies
+ */
+
+import crypto from 'crypto';
+import { adminDb } from './firebaseAdmin';
+import { Strategy, CreateStrategyRequest } from './types/strategy';
+
+/**
+ * Generate a random webhook ID
+ * Format: wh_<32_random_chars>
+ */
+export function generateWebhookId(): string {
+  const randomBytes = crypto.randomBytes(16).toString('hex');
+  return `wh_${randomBytes}`;
+}
+
+/**
+ * Create a new strategy for a user
+ */
+export async function createStrategy(
+  userId: string,
+  request: CreateStrategyRequest
+): Promise<{ id: string; webhookId: string }> {
+  const webhookId = generateWebhookId();
+
+  const strategyData: Omit<Strategy, 'id'> = {
+    userId,
+    name: request.name,
+    webhookId,
+    broker: request.broker,
+    mode: request.mode,
+    symbol: request.symbol.toUpperCase(),
+    exchange: request.exchange,
+    product: request.product,
+    quantity: request.quantity,
+    position: 0,
+    status: 'active',
+    createdAt: new Date(),
+    triggerCount: 0,
+  };
+
+  const docRef = await adminDb.collection('strategies').add(strategyData);
+
+  return {
+    id: docRef.id,
+    webhookId,
+  };
+}
+
+/**
+ * Find a strategy by its public webhook ID
+ * Returns null if no strategy uses this webhook ID
+ */
+export async function getStrategyByWebhookId(webhookId: string): Promise<Strategy | null> {
+  const snapshot = await adminDb
+    .collection('strategies')
+    .where('webhookId', '==', webhookId)
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) {
+    return null;
+  }
+
+  const doc = snapshot.docs[0];
+  return {
+    id: doc.id,
+    ...(doc.data() as Omit<Strategy, 'id'>),
+  };
+}
+
+/**
+ * Get all strategies for a user
+ */
+export async function getUserStrategies(userId: string): Promise<Strategy[]> {
+  const snapshot = await adminDb
+    .collection('strategies')
+    .where('userId', '==', userId)
+    .get();
+
+  return snapshot.docs
+    .map((doc) => ({
+      id: doc.id,
+      ...(doc.data() as Omit<Strategy, 'id'>),
+    }))
+    .sort((a, b) => {
+      // Sort by createdAt descending (newest first)
+      const dateA = a.createdAt instanceof Date ? a.createdAt.getTime() : (a.createdAt as any)?._seconds * 1000 || 0;
+      const dateB = b.createdAt instanceof Date ? b.createdAt.getTime() : (b.createdAt as any)?._seconds * 1000 || 0;
+      return dateB - dateA;
+    });
+}
+
+/**
+ * Record an executed signal: update strategy position and trigger stats
+ */
+export async function recordStrategyTrigger(strategyId: string, nextPosition: number): Promise<void> {
+  const docRef = adminDb.collection('strategies').doc(strategyId);
+  const doc = await docRef.get();
+  const data = doc.data() as Omit<Strategy, 'id'> | undefined;
+
+  await docRef.update({
+    position: nextPosition,
+    lastTriggeredAt: new Date(),
+    triggerCount: (data?.triggerCount || 0) + 1,
+  });
+}
+
+/**
+ * Pause or resume a strategy
+ */
+export async function updateStrategyStatus(
+  userId: string,
+  strategyId: string,
+  status: 'active' | 'paused'
+): Promise<boolean> {
+  const docRef = adminDb.collection('strategies').doc(strategyId);
+  const doc = await docRef.get();
+
+  if (!doc.exists) {
+    return false;
+  }
+
+  const data = doc.data() as Omit<Strategy, 'id'>;
+
+  // Ensure user owns this strategy
+  if (data.userId !== userId) {
+    return false;
+  }
+
+  await docRef.update({ status });
+  return true;
+}
+
+/**
+ * Delete a strategy permanently (its webhook URL stops working)
+ */
+export async function deleteStrategy(userId: string, strategyId: string): Promise<boolean> {
+  const docRef = adminDb.collection('strategies').doc(strategyId);
+  const doc = await docRef.get();
+
+  if (!doc.exists) {
+    return false;
+  }
+
+  const data = doc.data() as Omit<Strategy, 'id'>;
+
+  // Ensure user owns this strategy
+  if (data.userId !== userId) {
+    return false;
+  }
+
+  await docRef.delete();
+  return true;
+}
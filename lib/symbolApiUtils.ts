@@ -0,0 +1,82 @@
+/**
+ * Symbol API Helpers
+ * Request parsing and response shapes for the OpenAlgo symbol, search and expiry endpoints
+ *
+ * Pure functions (the instrument master does the lookups) so they can be unit tested
+ */
+
+import { MONTHS } from './expiryCalendar';
+import { InstrumentSearchOptions } from './instrumentMaster';
+import { Instrument, INSTRUMENT_BROKERS, InstrumentBroker, InstrumentType } from './instrumentSymbols';
+import { SymbolData } from './types/openalgo';
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_LIMIT = 500;
+
+const SEARCH_TYPES: (InstrumentType | 'OPT')[] = ['EQ', 'INDEX', 'FUT', 'CE', 'PE', 'OPT'];
+
+/**
+ * YYYY-MM-DD as OpenAlgo writes expiries (28-MAR-24)
+ */
+export function formatExpiry(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${day}-${MONTHS[Number(month) - 1]}-${year.slice(2)}`;
+}
+
+/**
+ * An instrument as the symbol and search endpoints return it, with the account broker's
+ * symbol and token (brokers outside the instrument master trade OpenAlgo symbols)
+ */
+export function toSymbolData(instrument: Instrument, broker: string): SymbolData {
+  const mapped = INSTRUMENT_BROKERS.includes(broker as InstrumentBroker)
+    ? instrument.brokers[broker as InstrumentBroker]
+    : undefined;
+  return {
+    symbol: instrument.symbol,
+    brsymbol: mapped?.symbol ?? instrument.symbol,
+    name: instrument.name,
+    exchange: instrument.exchange,
+    brexchange: mapped?.exchange ?? instrument.exchange,
+    token: mapped?.token ?? '',
+    expiry: instrument.expiry ? formatExpiry(instrument.expiry) : '',
+    strike: instrument.strike ?? -1,
+    lotsize: instrument.lotSize,
+    instrumenttype: instrument.instrumentType,
+    tick_size: instrument.tickSize,
+    freeze_qty: instrument.freezeQty,
+  };
+}
+
+/**
+ * Search filters from a request body
+ */
+export function parseSearchOptions(
+  body: Record<string, unknown>
+): { success: true; options: InstrumentSearchOptions } | { success: false; error: string } {
+  const options: InstrumentSearchOptions = { limit: DEFAULT_SEARCH_LIMIT };
+
+  if (body.exchange !== undefined && body.exchange !== '') {
+    if (typeof body.exchange !== 'string') {
+      return { success: false, error: 'exchange must be a string' };
+    }
+    options.exchange = body.exchange.toUpperCase();
+  }
+
+  if (body.instrumenttype !== undefined && body.instrumenttype !== '') {
+    const type = String(body.instrumenttype).toUpperCase() as InstrumentType | 'OPT';
+    if (!SEARCH_TYPES.includes(type)) {
+      return { success: false, error: `instrumenttype must be one of ${SEARCH_TYPES.join(', ')}` };
+    }
+    options.instrumentType = type;
+  }
+
+  if (body.limit !== undefined) {
+    const limit = Number(body.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return { success: false, error: `limit must be an integer from 1 to ${MAX_SEARCH_LIMIT}` };
+    }
+    options.limit = limit;
+  }
+
+  return { success: true, options };
+}
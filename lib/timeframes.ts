@@ -0,0 +1,155 @@
+/**
+ * Chart Timeframes
+ * Every timeframe the charts offer, and resampling of broker candles into the ones
+ * the brokers don't serve natively
+ *
+ * Intraday buckets are anchored at the 09:15 IST session open, so a 75-minute chart has
+ * bars at 09:15, 10:30, 11:45, 13:00 and 14:15, and a bar running past 15:30 ends there.
+ * Resampled timeframes are always built from the same base candles, so Zerodha and Fyers
+ * users get identical bars
+ */
+
+import { Candle, CandleInterval, HistoryInterval } from './types/candles';
+
+export type Timeframe = HistoryInterval | CandleInterval | 'week' | 'month';
+
+export type ResampledTimeframe = '2minute' | '75minute' | '120minute' | '240minute' | 'week' | 'month';
+
+export const TIMEFRAME_OPTIONS: { label: string; value: Timeframe }[] = [
+  { label: '1m', value: 'minute' },
+  { label: '2m', value: '2minute' },
+  { label: '3m', value: '3minute' },
+  { label: '5m', value: '5minute' },
+  { label: '10m', value: '10minute' },
+  { label: '15m', value: '15minute' },
+  { label: '30m', value: '30minute' },
+  { label: '1h', value: '60minute' },
+  { label: '75m', value: '75minute' },
+  { label: '2h', value: '120minute' },
+  { label: '4h', value: '240minute' },
+  { label: '1D', value: 'day' },
+  { label: '1W', value: 'week' },
+  { label: '1M', value: 'month' },
+];
+
+export type OpenAlgoIntervalUnit = 'seconds' | 'minutes' | 'hours' | 'days' | 'weeks' | 'months';
+
+// OpenAlgo history interval names (/api/v1/history and /api/v1/intervals)
+export const OPENALGO_INTERVALS: { interval: string; timeframe: Timeframe; unit: OpenAlgoIntervalUnit }[] = [
+  { interval: '1m', timeframe: 'minute', unit: 'minutes' },
+  { interval: '2m', timeframe: '2minute', unit: 'minutes' },
+  { interval: '3m', timeframe: '3minute', unit: 'minutes' },
+  { interval: '5m', timeframe: '5minute', unit: 'minutes' },
+  { interval: '10m', timeframe: '10minute', unit: 'minutes' },
+  { interval: '15m', timeframe: '15minute', unit: 'minutes' },
+  { interval: '30m', timeframe: '30minute', unit: 'minutes' },
+  { interval: '75m', timeframe: '75minute', unit: 'minutes' },
+  { interval: '1h', timeframe: '60minute', unit: 'hours' },
+  { interval: '2h', timeframe: '120minute', unit: 'hours' },
+  { interval: '4h', timeframe: '240minute', unit: 'hours' },
+  { interval: 'D', timeframe: 'day', unit: 'days' },
+  { interval: 'W', timeframe: 'week', unit: 'weeks' },
+  { interval: 'M', timeframe: 'month', unit: 'months' },
+];
+
+// Broker interval each resampled timeframe is built from (one that divides it from 09:15)
+const RESAMPLE_BASE: Record<ResampledTimeframe, HistoryInterval> = {
+  '2minute': 'minute',
+  '75minute': '15minute',
+  '120minute': '15minute',
+  '240minute': '15minute',
+  week: 'day',
+  month: 'day',
+};
+
+const IST_OFFSET_SECONDS = 5.5 * 3600;
+const SESSION_OPEN_SECONDS = 9 * 3600 + 15 * 60;
+const SESSION_CLOSE_SECONDS = 15 * 3600 + 30 * 60;
+
+export function isTimeframe(value: unknown): value is Timeframe {
+  return TIMEFRAME_OPTIONS.some((option) => option.value === value);
+}
+
+export function isResampledTimeframe(value: unknown): value is ResampledTimeframe {
+  return typeof value === 'string' && value in RESAMPLE_BASE;
+}
+
+export function resampleBase(timeframe: ResampledTimeframe): HistoryInterval {
+  return RESAMPLE_BASE[timeframe];
+}
+
+/**
+ * Timeframe for an OpenAlgo interval name (1m, 1h, D), or null if it isn't one
+ */
+export function openAlgoTimeframe(interval: string): Timeframe | null {
+  return OPENALGO_INTERVALS.find((option) => option.interval === interval)?.timeframe ?? null;
+}
+
+export function isIntradayTimeframe(timeframe: string): boolean {
+  return timeframe.endsWith('minute');
+}
+
+/**
+ * 00:00 IST of the day containing a time (Unix seconds)
+ */
+function istMidnight(time: number): number {
+  return Math.floor((time + IST_OFFSET_SECONDS) / 86400) * 86400 - IST_OFFSET_SECONDS;
+}
+
+/**
+ * Start of the intraday bucket containing a time, on a grid anchored at that day's 09:15 IST
+ */
+export function sessionBucketStart(time: number, seconds: number): number {
+  const open = istMidnight(time) + SESSION_OPEN_SECONDS;
+  return open + Math.floor((time - open) / seconds) * seconds;
+}
+
+/**
+ * End of the intraday bucket starting at `start`; the last bar of the session ends at 15:30 IST
+ */
+export function sessionBucketEnd(start: number, seconds: number): number {
+  const close = istMidnight(start) + SESSION_CLOSE_SECONDS;
+  return start < close ? Math.min(start + seconds, close) : start + seconds;
+}
+
+/**
+ * Start of the bar containing a time (Unix seconds): session-anchored for intraday timeframes,
+ * 00:00 IST on the day, the Monday, or the 1st of the month otherwise
+ */
+export function timeframeStart(time: number, timeframe: Timeframe): number {
+  if (isIntradayTimeframe(timeframe)) {
+    return sessionBucketStart(time, (timeframe === 'minute' ? 1 : parseInt(timeframe, 10)) * 60);
+  }
+
+  const midnight = istMidnight(time);
+  if (timeframe === 'week') {
+    const weekday = new Date((midnight + IST_OFFSET_SECONDS) * 1000).getUTCDay();
+    return midnight - ((weekday + 6) % 7) * 86400;
+  }
+  if (timeframe === 'month') {
+    const date = new Date((midnight + IST_OFFSET_SECONDS) * 1000);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000 - IST_OFFSET_SECONDS;
+  }
+  return midnight;
+}
+
+/**
+ * Aggregate base candles into bars of a timeframe (open of the first, close of the last,
+ * extreme high and low, summed volume)
+ */
+export function resampleCandles(candles: Candle[], timeframe: Timeframe): Candle[] {
+  const bars: Candle[] = [];
+  for (const candle of [...candles].sort((a, b) => a.time - b.time)) {
+    const time = timeframeStart(candle.time, timeframe);
+    const bar = bars[bars.length - 1];
+    if (bar && bar.time === time) {
+      bar.high = Math.max(bar.high, candle.high);
+      bar.low = Math.min(bar.low, candle.low);
+      bar.close = candle.close;
+      bar.volume += candle.volume;
+    } else {
+      bars.push({ ...candle, time });
+    }
+  }
+  return bars;
+}
@@ -0,0 +1,327 @@
+/**
+ * Trading Calendar
+ * Exchange holidays and trading sessions, and whether a market is open at a given time
+ *
+ * Sessions (IST):
+ * - NSE, BSE: pre-open 09:00-09:08, regular 09:15-15:30
+ * - NFO, BFO: regular 09:15-15:30
+ * - CDS, BCD: regular 09:00-17:00
+ * - MCX: regular 09:00-17:00, evening 17:00-23:30 (23:55 while the US is on standard time)
+ *
+ * A holiday closes the whole day or only some sessions (MCX keeps its evening session on
+ * most exchange holidays). Muhurat trading is a special session on a holiday
+ *
+ * Holidays and special sessions come from lib/data/tradingCalendar.json; the server can
+ * replace them from a file of the same shape (TRADING_CALENDAR_FILE, see tradingCalendarFile.ts)
+ *
+ * Dates are IST calendar dates (YYYY-MM-DD); times are Unix seconds
+ */
+
+import defaultCalendar from './data/tradingCalendar.json';
+
+export type CalendarExchange = 'NSE' | 'BSE' | 'NFO' | 'BFO' | 'CDS' | 'BCD' | 'MCX';
+
+export type SessionType = 'pre-open' | 'regular' | 'evening' | 'muhurat';
+
+export interface MarketSession {
+  exchange: CalendarExchange;
+  type: SessionType;
+  date: string;
+  open: number;
+  close: number;                 // Exclusive
+}
+
+export interface ExchangeHoliday {
+  date: string;
+  description: string;
+  exchanges: CalendarExchange[];
+  closed?: SessionType[];        // Sessions that don't trade; omitted closes the whole day
+}
+
+export interface SpecialSession {
+  date: string;
+  description: string;
+  exchanges: CalendarExchange[];
+  open: string;                  // 'HH:MM' IST
+  close: string;
+}
+
+export interface TradingCalendarData {
+  holidays: ExchangeHoliday[];
+  specialSessions: SpecialSession[];
+}
+
+interface SessionHours {
+  type: SessionType;
+  open: string;
+  close: string;
+}
+
+export const CALENDAR_EXCHANGES: CalendarExchange[] = ['NSE', 'BSE', 'NFO', 'BFO', 'CDS', 'BCD', 'MCX'];
+
+const SESSION_TYPES: SessionType[] = ['pre-open', 'regular', 'evening', 'muhurat'];
+
+const EQUITY_SESSIONS: SessionHours[] = [
+  { type: 'pre-open', open: '09:00', close: '09:08' },
+  { type: 'regular', open: '09:15', close: '15:30' },
+];
+
+const SESSION_HOURS: Record<Exclude<CalendarExchange, 'MCX'>, SessionHours[]> = {
+  NSE: EQUITY_SESSIONS,
+  BSE: EQUITY_SESSIONS,
+  NFO: [{ type: 'regular', open: '09:15', close: '15:30' }],
+  BFO: [{ type: 'regular', open: '09:15', close: '15:30' }],
+  CDS: [{ type: 'regular', open: '09:00', close: '17:00' }],
+  BCD: [{ type: 'regular', open: '09:00', close: '17:00' }],
+};
+
+// How far nextSessionOpen looks ahead; longer than any exchange closure
+const SEARCH_DAYS = 30;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DAY_MS = 86400 * 1000;
+const IST_OFFSET_SECONDS = 5.5 * 3600;
+
+let holidays = new Map<string, ExchangeHoliday>();
+let specialSessions = new Map<string, SpecialSession[]>();
+
+function calendarKey(exchange: CalendarExchange, date: string): string {
+  return `${exchange}:${date}`;
+}
+
+/**
+ * Replace the holidays and special sessions
+ */
+export function setTradingCalendar(data: TradingCalendarData): void {
+  holidays = new Map();
+  specialSessions = new Map();
+  for (const holiday of data.holidays) {
+    for (const exchange of holiday.exchanges) {
+      holidays.set(calendarKey(exchange, holiday.date), holiday);
+    }
+  }
+  for (const session of data.specialSessions) {
+    for (const exchange of session.exchanges) {
+      const key = calendarKey(exchange, session.date);
+      specialSessions.set(key, [...(specialSessions.get(key) || []), session]);
+    }
+  }
+}
+
+setTradingCalendar(defaultCalendar as TradingCalendarData);
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function istDateOf(time: number): string {
+  return new Date((time + IST_OFFSET_SECONDS) * 1000).toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function istTime(date: string, time: string): number {
+  return Date.parse(`${date}T${time}:00+05:30`) / 1000;
+}
+
+/**
+ * Day of `month` on its `nth` Sunday
+ */
+function nthSunday(year: number, month: number, nth: number): number {
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return 1 + ((7 - firstWeekday) % 7) + (nth - 1) * 7;
+}
+
+/**
+ * US daylight saving (second Sunday of March to first Sunday of November), which moves the MCX close
+ */
+function isUsDaylightSaving(date: string): boolean {
+  const year = Number(date.slice(0, 4));
+  const start = `${year}-03-${String(nthSunday(year, 3, 2)).padStart(2, '0')}`;
+  const end = `${year}-11-${String(nthSunday(year, 11, 1)).padStart(2, '0')}`;
+  return date >= start && date < end;
+}
+
+function sessionHours(exchange: CalendarExchange, date: string): SessionHours[] {
+  if (exchange !== 'MCX') {
+    return SESSION_HOURS[exchange];
+  }
+  return [
+    { type: 'regular', open: '09:00', close: '17:00' },
+    { type: 'evening', open: '17:00', close: isUsDaylightSaving(date) ? '23:30' : '23:55' },
+  ];
+}
+
+/**
+ * Calendar an exchange follows: OpenAlgo index exchanges (NSE_INDEX) follow their exchange,
+ * anything unknown follows NSE
+ */
+export function calendarExchange(exchange: string): CalendarExchange {
+  const code = exchange.toUpperCase().replace(/_INDEX$/, '') as CalendarExchange;
+  return CALENDAR_EXCHANGES.includes(code) ? code : 'NSE';
+}
+
+/**
+ * An exchange's sessions on a date, in order (empty when it is closed all day)
+ */
+export function marketSessions(exchange: string, date: string): MarketSession[] {
+  const code = calendarExchange(exchange);
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  const holiday = holidays.get(calendarKey(code, date));
+  const sessions: MarketSession[] = [];
+
+  if (weekday !== 0 && weekday !== 6) {
+    for (const hours of sessionHours(code, date)) {
+      // Pre-open closes with the regular session
+      const type = hours.type === 'pre-open' ? 'regular' : hours.type;
+      if (holiday && (!holiday.closed || holiday.closed.includes(type))) continue;
+      sessions.push({ exchange: code, type: hours.type, date, open: istTime(date, hours.open), close: istTime(date, hours.close) });
+    }
+  }
+  for (const special of specialSessions.get(calendarKey(code, date)) || []) {
+    sessions.push({ exchange: code, type: 'muhurat', date, open: istTime(date, special.open), close: istTime(date, special.close) });
+  }
+  return sessions.sort((a, b) => a.open - b.open);
+}
+
+/**
+ * Whether an exchange has a regular or evening session on a date (muhurat-only days are holidays)
+ */
+export function isTradingDay(exchange: string, date: string): boolean {
+  return marketSessions(exchange, date).some((session) => session.type === 'regular' || session.type === 'evening');
+}
+
+/**
+ * The date itself, or the trading day before it when the exchange is closed
+ */
+export function previousTradingDay(exchange: string, date: string): string {
+  let day = date;
+  while (!isTradingDay(exchange, day)) {
+    day = addDays(day, -1);
+  }
+  return day;
+}
+
+/**
+ * When an exchange's last session on a date closes, or null when it doesn't trade that day
+ */
+export function lastSessionClose(exchange: string, date: string): number | null {
+  const sessions = marketSessions(exchange, date);
+  return sessions.length > 0 ? Math.max(...sessions.map((session) => session.close)) : null;
+}
+
+/**
+ * The session trading at `now`, or null when the market is closed
+ * Pre-open only counts with `preOpen`
+ */
+export function currentSession(
+  exchange: string,
+  now: number = nowSeconds(),
+  options: { preOpen?: boolean } = {}
+): MarketSession | null {
+  // Every session ends by midnight IST, so only today's can be open
+  const session = marketSessions(exchange, istDateOf(now)).find(
+    (s) => (options.preOpen || s.type !== 'pre-open') && now >= s.open && now < s.close
+  );
+  return session || null;
+}
+
+export function isMarketOpen(exchange: string, now: number = nowSeconds(), options: { preOpen?: boolean } = {}): boolean {
+  return currentSession(exchange, now, options) !== null;
+}
+
+/**
+ * The next session to open after `now` (back-to-back sessions such as the MCX regular and
+ * evening ones count as one), or null if the exchange is closed for the next month
+ */
+export function nextSessionOpen(
+  exchange: string,
+  now: number = nowSeconds(),
+  options: { preOpen?: boolean } = {}
+): MarketSession | null {
+  let previousClose: number | null = null;
+  let date = istDateOf(now);
+  for (let day = 0; day <= SEARCH_DAYS; day++, date = addDays(date, 1)) {
+    for (const session of marketSessions(exchange, date)) {
+      if (!options.preOpen && session.type === 'pre-open') continue;
+      if (session.open > now && session.open !== previousClose) {
+        return session;
+      }
+      previousClose = session.close;
+    }
+  }
+  return null;
+}
+
+/**
+ * Minutes the exchange trades between two times (regular, evening and muhurat sessions)
+ */
+export function tradingMinutesBetween(exchange: string, from: number, to: number): number {
+  let seconds = 0;
+  for (let date = istDateOf(from); from < to && date <= istDateOf(to); date = addDays(date, 1)) {
+    for (const session of marketSessions(exchange, date)) {
+      if (session.type === 'pre-open') continue;
+      seconds += Math.max(0, Math.min(session.close, to) - Math.max(session.open, from));
+    }
+  }
+  return Math.floor(seconds / 60);
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+}
+
+function isExchangeList(value: unknown): value is CalendarExchange[] {
+  return Array.isArray(value) && value.every((item) => CALENDAR_EXCHANGES.includes(item));
+}
+
+/**
+ * Validate a calendar read from a file
+ */
+export function validateTradingCalendar(
+  value: unknown
+): { success: true; calendar: TradingCalendarData } | { success: false; error: string } {
+  const input = toRecord(value);
+  const holidayList = input.holidays ?? [];
+  const sessionList = input.specialSessions ?? [];
+  if (!Array.isArray(holidayList) || !Array.isArray(sessionList)) {
+    return { success: false, error: 'holidays and specialSessions must be arrays' };
+  }
+
+  const calendar: TradingCalendarData = { holidays: [], specialSessions: [] };
+  for (const item of holidayList) {
+    const entry = toRecord(item);
+    const date = String(entry.date ?? '');
+    if (!DATE_PATTERN.test(date) || !isExchangeList(entry.exchanges)) {
+      return { success: false, error: `Holiday ${date || '(no date)'} needs a YYYY-MM-DD date and known exchanges` };
+    }
+    const closed = entry.closed;
+    if (closed !== undefined && (!Array.isArray(closed) || !closed.every((type) => SESSION_TYPES.includes(type)))) {
+      return { success: false, error: `Holiday ${date}: closed must list session types` };
+    }
+    calendar.holidays.push({
+      date,
+      description: String(entry.description ?? ''),
+      exchanges: entry.exchanges,
+      ...(closed ? { closed: closed as SessionType[] } : {}),
+    });
+  }
+
+  for (const item of sessionList) {
+    const entry = toRecord(item);
+    const date = String(entry.date ?? '');
+    const open = String(entry.open ?? '');
+    const close = String(entry.close ?? '');
+    if (!DATE_PATTERN.test(date) || !isExchangeList(entry.exchanges)) {
+      return { success: false, error: `Special session ${date || '(no date)'} needs a YYYY-MM-DD date and known exchanges` };
+    }
+    if (!TIME_PATTERN.test(open) || !TIME_PATTERN.test(close) || open >= close) {
+      return { success: false, error: `Special session ${date}: open and close must be HH:MM (IST), open first` };
+    }
+    calendar.specialSessions.push({ date, description: String(entry.description ?? ''), exchanges: entry.exchanges, open, close });
+  }
+  return { success: true, calendar };
+}
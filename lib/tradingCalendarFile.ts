@@ -0,0 +1,20 @@
+/**
+ * Trading Calendar File
+ * Replaces the built-in holidays and special sessions with a JSON file in the
+ * lib/data/tradingCalendar.json format, so a new year's holiday list or muhurat timing
+ * doesn't need a release (server only; the browser keeps the built-in calendar)
+ */
+
+import { readFile } from 'fs/promises';
+import { setTradingCalendar, validateTradingCalendar } from './tradingCalendar';
+
+export async function loadTradingCalendarFile(path: string): Promise<void> {
+  const result = validateTradingCalendar(JSON.parse(await readFile(path, 'utf8')));
+  if (!result.success) {
+    throw new Error(`${path}: ${result.error}`);
+  }
+  setTradingCalendar(result.calendar);
+  console.log(
+    `[TRADING-CALENDAR] Loaded ${result.calendar.holidays.length} holidays and ${result.calendar.specialSessions.length} special sessions from ${path}`
+  );
+}
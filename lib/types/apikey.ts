@@ -15,10 +15,36 @@ export interface ApiKey {
   createdAt: Date;
   lastUsedAt?: Date;
   expiresAt?: Date;              // Optional expiry
-  ipWhitelist?: string[];        // Optional IP whitelist
+  ipWhitelist?: string[];        // Optional IP whitelist (addresses or CIDR ranges)
+  rateLimits?: ApiKeyRateLimits; // Order rate limits (DEFAULT_RATE_LIMITS when unset)
   usageCount: number;            // How many times used
 }
 
+export interface ApiKeyRateLimits {
+  ordersPerSecond: number;
+  ordersPerMinute: number;
+}
+
+export const DEFAULT_RATE_LIMITS: ApiKeyRateLimits = {
+  ordersPerSecond: 10,
+  ordersPerMinute: 200,
+};
+
+export type ApiKeyRejectionReason = 'ip_not_allowed' | 'rate_limited';
+
+/**
+ * A request refused by the IP whitelist or rate limiter
+ * Stored under apiKeys/{keyId}/rejections
+ */
+export interface ApiKeyRejection {
+  id: string;
+  reason: ApiKeyRejectionReason;
+  ip: string | null;
+  endpoint: string;
+  message: string;
+  createdAt: string;             // ISO timestamp
+}
+
 export interface ApiKeyPermissions {
   placeorder: boolean;
   cancelorder: boolean;
@@ -28,6 +54,7 @@ export interface ApiKeyPermissions {
   viewpositions: boolean;
   viewholdings: boolean;
   viewfunds: boolean;
+  viewmarketdata: boolean;       // Quotes, depth and history
 }
 
 export const DEFAULT_PERMISSIONS: ApiKeyPermissions = {
@@ -39,6 +66,7 @@ export const DEFAULT_PERMISSIONS: ApiKeyPermissions = {
   viewpositions: true,
   viewholdings: true,
   viewfunds: true,
+  viewmarketdata: true,
 };
 
 export interface CreateApiKeyRequest {
@@ -62,3 +90,13 @@ export interface ListApiKeysResponse {
 export interface RevokeApiKeyRequest {
   keyId: string;
 }
+
+export interface UpdateApiKeyRequest {
+  keyId: string;
+  ipWhitelist?: string[];        // Empty array allows any IP
+  rateLimits?: ApiKeyRateLimits;
+}
+
+export interface ListApiKeyRejectionsResponse {
+  rejections: ApiKeyRejection[];
+}
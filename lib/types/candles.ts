@@ -0,0 +1,63 @@
+/**
+ * Candle Types
+ * OHLCV candles built server-side from broker ticks and served by /api/stream/candles,
+ * and broker history stored for /api/chart/historical
+ *
+ * Layout: candles/{symbol}_{interval}/days/{YYYY-MM-DD}  (StoredCandleDay, IST trading days)
+ */
+
+// Intraday intervals built from ticks; same names as /api/chart/historical and the chart timeframe selector
+export type CandleInterval =
+  | 'minute'
+  | '2minute'
+  | '3minute'
+  | '5minute'
+  | '10minute'
+  | '15minute'
+  | '30minute'
+  | '60minute'
+  | '75minute'
+  | '120minute'
+  | '240minute';
+
+export const CANDLE_INTERVALS: CandleInterval[] = [
+  'minute',
+  '2minute',
+  '3minute',
+  '5minute',
+  '10minute',
+  '15minute',
+  '30minute',
+  '60minute',
+  '75minute',
+  '120minute',
+  '240minute',
+];
+
+// Intervals the brokers serve history for natively (and the store keeps)
+export type HistoryInterval = 'minute' | '3minute' | '5minute' | '10minute' | '15minute' | '30minute' | '60minute' | 'day';
+
+export const HISTORY_INTERVALS: HistoryInterval[] = ['minute', '3minute', '5minute', '10minute', '15minute', '30minute', '60minute', 'day'];
+
+export interface Candle {
+  time: number;                  // Candle start, Unix seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;                // Traded in this candle (from cumulative volume deltas)
+}
+
+export interface StoredCandleDay {
+  date: string;                  // IST date, YYYY-MM-DD
+  candles: Candle[];             // Completed candles, oldest first
+  complete: boolean;             // Whole day fetched from broker history after it ended
+  updatedAt: string;             // ISO timestamp
+}
+
+export interface CandleUpdate {
+  interval: CandleInterval;
+  candle: Candle;
+  complete: boolean;
+  partial: boolean;              // Built from part of the interval (started mid-candle)
+}
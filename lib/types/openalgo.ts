@@ -11,6 +11,7 @@ export type Exchange = 'NSE' | 'BSE' | 'NFO' | 'BFO' | 'MCX' | 'CDS' | 'BCD';
 export type Action = 'BUY' | 'SELL';
 export type PriceType = 'MARKET' | 'LIMIT' | 'SL' | 'SL-M';
 export type ProductType = 'MIS' | 'CNC' | 'NRML';
+export type OrderStatus = 'open' | 'complete' | 'rejected' | 'cancelled' | 'trigger pending';
 
 // ============================================
 // Request Schemas
@@ -31,6 +32,10 @@ export interface PlaceOrderRequest {
   token?: string; // Optional broker-specific token (Angel: symboltoken, Zerodha: N/A)
 }
 
+export interface SmartOrderRequest extends PlaceOrderRequest {
+  position_size: number; // Target net position (+long / -short / 0 = flat)
+}
+
 export interface ModifyOrderRequest {
   apikey: string;
   strategy: string;
@@ -86,6 +91,17 @@ export interface FundsRequest {
   apikey: string;
 }
 
+export interface OrderLogRequest {
+  apikey: string;
+  strategy?: string;
+  symbol?: string;
+  action?: 'place' | 'modify' | 'cancel' | 'close' | 'cancelall';
+  outcome?: 'success' | 'error';
+  start_date?: string; // YYYY-MM-DD (IST) or ISO timestamp
+  end_date?: string;
+  limit?: number;      // Default 100, max 500
+}
+
 export interface BasketOrderItem {
   exchange: Exchange;
   symbol: string;
@@ -102,6 +118,7 @@ export interface BasketOrderRequest {
   apikey: string;
   strategy: string;
   orders: BasketOrderItem[];
+  buy_first?: boolean; // Place all BUY legs before SELL legs (margin benefit)
 }
 
 export interface SplitOrderRequest {
@@ -119,6 +136,52 @@ export interface SplitOrderRequest {
   disclosed_quantity?: number;
 }
 
+export interface SymbolRequest {
+  apikey: string;
+  symbol: string;
+  exchange: string;    // Includes NSE_INDEX and BSE_INDEX
+}
+
+export interface SearchRequest {
+  apikey: string;
+  query: string;
+  exchange?: string;
+  instrumenttype?: string; // EQ, INDEX, FUT, CE, PE or OPT (either option type)
+  limit?: number;          // Default 50, max 500
+}
+
+export interface ExpiryRequest {
+  apikey: string;
+  symbol: string;                          // Underlying (NIFTY, RELIANCE, CRUDEOIL)
+  exchange?: string;                       // NFO, BFO, MCX, CDS, BCD; any when omitted
+  instrumenttype?: 'futures' | 'options';  // Both when omitted
+}
+
+export interface QuotesRequest {
+  apikey: string;
+  symbol: string;
+  exchange: Exchange;
+}
+
+export interface DepthRequest {
+  apikey: string;
+  symbol: string;
+  exchange: Exchange;
+}
+
+export interface HistoryRequest {
+  apikey: string;
+  symbol: string;
+  exchange: string;    // Includes NSE_INDEX and BSE_INDEX
+  interval: string;    // As listed by /api/v1/intervals (1m, 5m, 1h, D...)
+  start_date: string;  // YYYY-MM-DD
+  end_date: string;    // YYYY-MM-DD
+}
+
+export interface IntervalsRequest {
+  apikey: string;
+}
+
 // ============================================
 // Response Schemas
 // ============================================
@@ -135,6 +198,13 @@ export interface OrderResponse {
   message?: string;
 }
 
+export interface SmartOrderResponse extends OrderResponse {
+  current_position?: number;
+  target_position?: number;
+  action?: Action;
+  quantity?: number;
+}
+
 export interface OrderBookItem {
   symbol: string;
   exchange: Exchange;
@@ -145,10 +215,23 @@ export interface OrderBookItem {
   pricetype: PriceType;
   product: ProductType;
   orderid: string;
-  order_status: string;
+  order_status: OrderStatus;
   timestamp: string;
 }
 
+export interface OrderBookStatistics {
+  total_buy_orders: number;
+  total_sell_orders: number;
+  total_completed_orders: number;
+  total_open_orders: number;
+  total_rejected_orders: number;
+}
+
+export interface OrderBookData {
+  orders: OrderBookItem[];
+  statistics: OrderBookStatistics;
+}
+
 export interface TradeBookItem {
   symbol: string;
   exchange: Exchange;
@@ -180,6 +263,18 @@ export interface HoldingItem {
   pnlpercent: number;
 }
 
+export interface HoldingsStatistics {
+  totalholdingvalue: number;
+  totalinvvalue: number;
+  totalprofitandloss: number;
+  totalpnlpercentage: number;
+}
+
+export interface HoldingsData {
+  holdings: HoldingItem[];
+  statistics: HoldingsStatistics;
+}
+
 export interface FundsData {
   availablecash: number;
   collateral: number;
@@ -194,8 +289,92 @@ export interface FundsData {
   utilisedpayout: number;
 }
 
+export interface QuoteData {
+  ask: number;
+  bid: number;
+  high: number;
+  low: number;
+  ltp: number;
+  open: number;
+  prev_close: number;
+  volume: number;
+  oi: number;
+}
+
+export interface DepthLevel {
+  price: number;
+  quantity: number;
+}
+
+export interface DepthData {
+  asks: DepthLevel[];     // Best five, best first (zero-filled)
+  bids: DepthLevel[];
+  high: number;
+  low: number;
+  ltp: number;
+  ltq: number;
+  open: number;
+  prev_close: number;
+  volume: number;
+  oi: number;
+  totalbuyqty: number;
+  totalsellqty: number;
+}
+
+export interface HistoryCandle {
+  timestamp: number;      // Candle start, Unix seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface IntervalsData {
+  seconds: string[];
+  minutes: string[];
+  hours: string[];
+  days: string[];
+  weeks: string[];
+  months: string[];
+}
+
+export interface SymbolData {
+  symbol: string;
+  brsymbol: string;       // The key's broker's trading symbol
+  name: string;
+  exchange: string;
+  brexchange: string;
+  token: string;          // '' when the broker's instruments don't list it
+  expiry: string;         // DD-MMM-YY, '' for equities and indices
+  strike: number;         // -1 for everything but options
+  lotsize: number;
+  instrumenttype: string;
+  tick_size: number;
+  freeze_qty: number | null;
+}
+
+export interface BasketOrderResult extends OrderResponse {
+  symbol: string;
+  exchange: Exchange;
+  action: Action;
+}
+
 export interface BasketOrderResponse {
   status: 'success' | 'error';
   message?: string;
-  orders?: OrderResponse[];
+  orders?: BasketOrderResult[];
+}
+
+export interface SplitOrderResult extends OrderResponse {
+  order_num: number;
+  quantity: number;
+}
+
+export interface SplitOrderResponse {
+  status: 'success' | 'error';
+  message?: string;
+  split_size?: number;
+  total_quantity?: number;
+  results?: SplitOrderResult[];
 }
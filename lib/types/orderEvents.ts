@@ -0,0 +1,73 @@
+/**
+ * Order Update Event Types
+ * Normalized order status transitions pushed over /api/stream/orders and
+ * delivered to the user's outbound webhooks
+ *
+ * Layout: users/{userId}/orderWebhooks/{webhookId}  (OrderWebhook, secret encrypted)
+ */
+
+import { Action, Exchange, PriceType, ProductType } from './openalgo';
+
+export type OrderEventStatus =
+  | 'placed'
+  | 'open'
+  | 'partially_filled'
+  | 'complete'
+  | 'rejected'
+  | 'cancelled';
+
+export interface OrderEvent {
+  broker: string;
+  orderid: string;
+  symbol: string;
+  exchange: Exchange;
+  action: Action;
+  pricetype: PriceType;
+  product: ProductType;
+  quantity: number;
+  filled_quantity: number;
+  pending_quantity: number;
+  average_price: number;         // Average fill price (0 until filled)
+  status: OrderEventStatus;
+  previous_status: OrderEventStatus | null; // null the first time an order is seen
+  message: string | null;        // Broker status message (e.g. rejection reason)
+  timestamp: string;             // ISO timestamp the transition was observed
+}
+
+export interface OrderWebhookDelivery {
+  at: string;                    // ISO timestamp
+  httpStatus: number | null;     // null when the request failed before a response
+  error: string | null;
+}
+
+export interface OrderWebhook {
+  id: string;                    // Firestore document ID
+  url: string;
+  active: boolean;
+  createdAt: string;             // ISO timestamp
+  lastDelivery: OrderWebhookDelivery | null;
+}
+
+/**
+ * Body POSTed to outbound webhooks
+ * Headers: X-Webhook-Timestamp (unix seconds) and
+ *          X-Webhook-Signature (sha256=<hex HMAC of "<timestamp>.<body>">)
+ */
+export interface OrderWebhookPayload {
+  event: 'order.update';
+  data: OrderEvent;
+}
+
+export interface CreateOrderWebhookRequest {
+  url: string;
+}
+
+export interface CreateOrderWebhookResponse {
+  id: string;
+  secret: string;                // Signing secret, only returned once
+  message: string;
+}
+
+export interface ListOrderWebhooksResponse {
+  webhooks: OrderWebhook[];
+}
@@ -0,0 +1,38 @@
+/**
+ * Order Audit Log Types
+ * Append-only record of every v1 order action, kept for post-trade review
+ *
+ * Layout: users/{userId}/orderLog/{entryId}  (OrderLogEntry)
+ */
+
+export type OrderLogAction = 'place' | 'modify' | 'cancel' | 'close' | 'cancelall';
+export type OrderLogOutcome = 'success' | 'error';
+
+export interface OrderLogEntry {
+  id: string;                    // Firestore document ID
+  action: OrderLogAction;
+  endpoint: string;              // v1 endpoint that handled the request (e.g. 'basketorder')
+  apiKeyId: string;              // apiKeys document ID that authenticated the request
+  broker: string;
+  strategy: string | null;
+  symbols: string[];             // Upper-cased; several for basket orders, empty for cancel/cancel-all
+  orderids: string[];            // Order IDs returned by the broker
+  request: Record<string, unknown>; // Request payload with the apikey removed
+  response: unknown;             // Normalized (OpenAlgo format) response body
+  httpStatus: number;
+  outcome: OrderLogOutcome;
+  message: string | null;        // Error message when outcome is 'error'
+  latencyMs: number;
+  sourceIp: string | null;
+  createdAt: string;             // ISO timestamp (stored as a Firestore Timestamp)
+}
+
+export interface OrderLogFilters {
+  strategy?: string;
+  symbol?: string;
+  action?: OrderLogAction;
+  outcome?: OrderLogOutcome;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
@@ -0,0 +1,61 @@
+/**
+ * Paper Trading Types
+ * Virtual books kept in Firestore for the 'paper' (sandbox) broker
+ *
+ * Layout: users/{userId}/paper/account            (PaperAccount)
+ *         users/{userId}/paper/account/orders     (PaperOrder)
+ *         users/{userId}/paper/account/trades     (PaperTrade)
+ *         users/{userId}/paper/account/positions  (PaperPosition)
+ */
+
+import { Action, Exchange, PriceType, ProductType } from './openalgo';
+
+export type PaperOrderStatus = 'open' | 'trigger pending' | 'complete' | 'cancelled' | 'rejected';
+
+export interface PaperAccount {
+  startingCapital: number;
+  realisedPnl: number;           // Booked P&L across all closed quantity
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaperOrder {
+  orderid: string;               // Firestore document ID
+  symbol: string;
+  exchange: Exchange;
+  action: Action;
+  quantity: number;
+  price: number;                 // Limit price (LIMIT / SL)
+  trigger_price: number;         // Trigger price (SL / SL-M)
+  pricetype: PriceType;
+  product: ProductType;
+  strategy?: string;
+  status: PaperOrderStatus;
+  triggered: boolean;            // SL orders become limit orders once triggered
+  average_price: number;         // Fill price (0 until filled)
+  rejection_reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaperTrade {
+  orderid: string;
+  symbol: string;
+  exchange: Exchange;
+  product: ProductType;
+  action: Action;
+  quantity: number;
+  average_price: number;
+  trade_value: number;
+  timestamp: Date;
+}
+
+export interface PaperPosition {
+  symbol: string;
+  exchange: Exchange;
+  product: ProductType;
+  quantity: number;              // Net quantity (+long / -short)
+  average_price: number;         // Average price of the open quantity
+  realised_pnl: number;
+  updatedAt: Date;
+}
@@ -0,0 +1,98 @@
+/**
+ * Pre-Trade Risk Types
+ * Per-user risk profile checked before any order reaches the broker
+ *
+ * Layout: users/{userId}/risk/profile            (RiskProfile)
+ *         users/{userId}/risk/state              (RiskLockState)
+ *         users/{userId}/riskRejections/{id}     (RiskRejection)
+ */
+
+import { Action, Exchange, PriceType, ProductType } from './openalgo';
+
+/**
+ * Order entry point that asked for the check
+ */
+export type RiskOrderSource = 'api' | 'dashboard' | 'webhook' | 'basket' | 'split' | 'smart';
+
+export interface RiskTradingHours {
+  start: string;                 // 'HH:MM' IST, inclusive
+  end: string;                   // 'HH:MM' IST, exclusive
+}
+
+export interface RiskProfile {
+  enabled: boolean;
+  maxOrderQuantity: number | null;
+  maxOrderValue: number | null;  // Max notional per order (quantity x price, in ₹)
+  maxOpenPositions: number | null;
+  dailyMaxLoss: number | null;   // Positive ₹ amount; breaching it blocks new orders for the day
+  squareOffOnMaxLoss: boolean;   // Cancel open orders and close positions when the loss limit is hit
+  allowedSymbols: string[];      // Empty allows every symbol
+  allowedExchanges: Exchange[];  // Empty allows every exchange
+  allowedProducts: ProductType[]; // Empty allows every product
+  tradingHours: RiskTradingHours | null;
+  marketHoursOnly: boolean;      // Reject orders while the exchange is closed (holidays, outside its sessions)
+  priceBandPercent: number | null; // Max deviation of a limit/trigger price from LTP
+  updatedAt?: string;            // ISO timestamp
+}
+
+export const DEFAULT_RISK_PROFILE: RiskProfile = {
+  enabled: false,
+  maxOrderQuantity: null,
+  maxOrderValue: null,
+  maxOpenPositions: null,
+  dailyMaxLoss: null,
+  squareOffOnMaxLoss: false,
+  allowedSymbols: [],
+  allowedExchanges: [],
+  allowedProducts: [],
+  tradingHours: null,
+  marketHoursOnly: false,
+  priceBandPercent: null,
+};
+
+/**
+ * Daily loss lock; only blocks orders on the IST day it was set
+ */
+export interface RiskLockState {
+  lockedOn: string;              // IST date 'YYYY-MM-DD'
+  reason: string;
+  squaredOff: boolean;
+  lockedAt: string;              // ISO timestamp
+}
+
+/**
+ * Order fields the risk checks look at (OpenAlgo naming)
+ */
+export interface RiskOrder {
+  symbol: string;
+  exchange: Exchange;
+  action: Action;
+  quantity: number;
+  product?: ProductType;
+  pricetype?: PriceType;
+  price?: number;
+  trigger_price?: number;
+}
+
+export interface RiskRejection {
+  id: string;                    // Firestore document ID
+  source: RiskOrderSource;
+  broker: string;
+  symbol: string;
+  exchange: string;
+  action: string;
+  quantity: number;
+  price: number | null;
+  reasons: string[];
+  createdAt: string;             // ISO timestamp
+}
+
+export type PreTradeCheckResult =
+  | { allowed: true }
+  | { allowed: false; reasons: string[]; message: string };
+
+export interface RiskProfileResponse {
+  profile: RiskProfile;
+  lock: RiskLockState | null;    // Only set while today's loss lock is active
+  rejections: RiskRejection[];
+}
@@ -0,0 +1,68 @@
+/**
+ * Strategy Webhook Types
+ * For signal-driven strategies (AmiBroker, TradingView alerts, etc.)
+ */
+
+import { Action, Exchange, ProductType } from './openalgo';
+
+/**
+ * Trading mode (matches TRADING_MODE in the AmiBroker webhook script)
+ * LONG:  BUY enters, SELL exits
+ * SHORT: SELL enters, BUY exits
+ * BOTH:  BUY/SELL can enter, exit or reverse
+ */
+export type StrategyMode = 'LONG' | 'SHORT' | 'BOTH';
+
+export interface Strategy {
+  id: string;                    // Firestore document ID
+  userId: string;                // Firebase user ID who owns this strategy
+  name: string;                  // User-friendly name (e.g., "MA Crossover")
+  webhookId: string;             // Public ID used in /api/webhook/{webhookId}
+  broker: string;                // Which broker orders are routed to (zerodha, angel, fyers)
+  mode: StrategyMode;
+  symbol: string;                // Broker trading symbol (e.g., "RELIANCE")
+  exchange: Exchange;
+  product: ProductType;
+  quantity: number;              // Quantity per entry signal
+  position: number;              // Net position opened by this strategy (+long / -short)
+  status: 'active' | 'paused';
+  createdAt: Date;
+  lastTriggeredAt?: Date;
+  triggerCount: number;          // How many signals were executed
+}
+
+/**
+ * Normalized signal parsed from an AmiBroker or TradingView payload
+ */
+export interface WebhookSignal {
+  action: Action;
+  position_size?: number;        // Target position size (AmiBroker / TradingView strategy.position_size)
+  signed_size?: boolean;         // position_size carries its own sign (TradingView), rather than the action's
+  quantity?: number;             // Optional quantity override
+  symbol?: string;               // Symbol sent by the signal source (informational)
+}
+
+export interface CreateStrategyRequest {
+  name: string;
+  broker: string;
+  mode: StrategyMode;
+  symbol: string;
+  exchange: Exchange;
+  product: ProductType;
+  quantity: number;
+}
+
+export interface CreateStrategyResponse {
+  id: string;
+  webhookId: string;
+  message: string;
+}
+
+export interface ListStrategiesResponse {
+  strategies: Strategy[];
+}
+
+export interface UpdateStrategyStatusRequest {
+  strategyId: string;
+  status: 'active' | 'paused';
+}
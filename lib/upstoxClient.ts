@@ -0,0 +1,449 @@
+/**
+ * Upstox API Client
+ * Handles all Upstox v2 API calls with proper parameter transformation
+ * Maps OpenAlgo format to Upstox API format
+ *
+ * Orders and quotes address instruments by instrument key (e.g. NSE_EQ|INE062A01020),
+ * looked up from the Upstox instrument files
+ */
+
+import { gunzipSync } from 'zlib';
+import { AdapterModifyOrder, AdapterOrder } from '@/lib/brokers/types';
+
+const UPSTOX_BASE_URL = 'https://api.upstox.com/v2';
+const UPSTOX_INSTRUMENTS_URL = 'https://assets.upstox.com/market-quote/instruments/exchange';
+
+/**
+ * Upstox API base URL (UPSTOX_API_BASE_URL points the client at a sandbox or stand-in server)
+ */
+function upstoxBaseUrl(): string {
+  return process.env.UPSTOX_API_BASE_URL || UPSTOX_BASE_URL;
+}
+
+/**
+ * Upstox-specific order payload interface
+ */
+export interface UpstoxOrderPayload {
+  instrument_token: string;
+  quantity: number;
+  product: 'I' | 'D';
+  validity: 'DAY' | 'IOC';
+  price: number;
+  tag?: string;
+  order_type: 'MARKET' | 'LIMIT' | 'SL' | 'SL-M';
+  transaction_type: 'BUY' | 'SELL';
+  disclosed_quantity: number;
+  trigger_price: number;
+  is_amo: boolean;
+}
+
+/**
+ * Upstox response envelope ({ status, data } or { status: 'error', errors })
+ */
+interface UpstoxEnvelope<T> {
+  status?: string;
+  data?: T;
+  errors?: { message?: string; errorCode?: string }[];
+  message?: string;
+}
+
+export type UpstoxRow = Record<string, unknown>;
+
+/**
+ * Generate Upstox API headers
+ */
+function getUpstoxHeaders(accessToken: string): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+  };
+}
+
+/**
+ * Send a request to the Upstox API and return the data field of the envelope
+ */
+async function upstoxRequest<T>(
+  path: string,
+  accessToken: string,
+  options: { method?: string; body?: unknown } = {}
+): Promise<T | undefined> {
+  const response = await fetch(`${upstoxBaseUrl()}${path}`, {
+    method: options.method || 'GET',
+    headers: getUpstoxHeaders(accessToken),
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+
+  let envelope: UpstoxEnvelope<T> = {};
+  try {
+    envelope = (await response.json()) as UpstoxEnvelope<T>;
+  } catch {
+    envelope = {};
+  }
+
+  if (!response.ok || envelope.status === 'error') {
+    const message = envelope.errors?.[0]?.message || envelope.message;
+    throw new Error(message || `Upstox request ${path} failed with status ${response.status}`);
+  }
+
+  return envelope.data;
+}
+
+/**
+ * Map OpenAlgo product type to Upstox product (I intraday, D delivery/carry forward)
+ */
+export function mapProductType(product: string): 'I' | 'D' {
+  return product === 'CNC' || product === 'NRML' ? 'D' : 'I';
+}
+
+/**
+ * Map OpenAlgo exchange to the Upstox instrument segment
+ */
+export function mapSegment(exchange: string): string {
+  const mapping: Record<string, string> = {
+    'NSE': 'NSE_EQ',
+    'BSE': 'BSE_EQ',
+    'NFO': 'NSE_FO',
+    'BFO': 'BSE_FO',
+    'CDS': 'NCD_FO',
+    'BCD': 'BCD_FO',
+    'MCX': 'MCX_FO',
+  };
+  return mapping[exchange.toUpperCase()] || 'NSE_EQ';
+}
+
+/**
+ * Transform OpenAlgo order data to Upstox format
+ */
+export function transformOrderData(data: AdapterOrder, instrumentKey: string): UpstoxOrderPayload {
+  return {
+    instrument_token: instrumentKey,
+    quantity: Number(data.quantity) || 0,
+    product: mapProductType(data.product || 'MIS'),
+    validity: 'DAY',
+    price: Number(data.price) || 0,
+    tag: data.strategy ? data.strategy.slice(0, 20) : undefined,
+    order_type: data.pricetype || 'MARKET',
+    transaction_type: data.action.toUpperCase() as 'BUY' | 'SELL',
+    disclosed_quantity: Number(data.disclosed_quantity) || 0,
+    trigger_price: Number(data.trigger_price) || 0,
+    is_amo: false,
+  };
+}
+
+// Instrument files are published per exchange; NSE covers NSE_EQ, NSE_FO and NCD_FO
+const INSTRUMENT_FILES: Record<string, string> = {
+  'NSE': 'NSE',
+  'NFO': 'NSE',
+  'CDS': 'NSE',
+  'BSE': 'BSE',
+  'BFO': 'BSE',
+  'BCD': 'BSE',
+  'MCX': 'MCX',
+};
+
+const instrumentKeyCache = new Map<string, Map<string, string>>();
+
+/**
+ * Index Upstox instrument rows into a map of "SEGMENT:SYMBOL" → instrument key
+ */
+export function indexInstruments(rows: UpstoxRow[]): Map<string, string> {
+  const keys = new Map<string, string>();
+  for (const row of rows) {
+    const symbol = String(row.trading_symbol ?? row.tradingsymbol ?? '').toUpperCase();
+    if (symbol && row.segment && row.instrument_key) {
+      keys.set(`${row.segment}:${symbol}`, String(row.instrument_key));
+    }
+  }
+  return keys;
+}
+
+/**
+ * Look up the Upstox instrument key for an OpenAlgo symbol
+ * Each exchange file is downloaded once per server process
+ */
+export async function getInstrumentKey(symbol: string, exchange: string): Promise<string | null> {
+  const file = INSTRUMENT_FILES[exchange.toUpperCase()] || 'NSE';
+
+  try {
+    let keys = instrumentKeyCache.get(file);
+    if (!keys) {
+      const baseUrl = process.env.UPSTOX_INSTRUMENTS_URL || UPSTOX_INSTRUMENTS_URL;
+      const response = await fetch(`${baseUrl}/${file}.json.gz`);
+      if (!response.ok) {
+        throw new Error(`Instrument file fetch failed with status ${response.status}`);
+      }
+      const json = gunzipSync(Buffer.from(await response.arrayBuffer())).toString('utf8');
+      keys = indexInstruments(JSON.parse(json) as UpstoxRow[]);
+      instrumentKeyCache.set(file, keys);
+      console.log(`[getInstrumentKey] Loaded Upstox ${file} instruments with ${keys.size} symbols`);
+    }
+
+    return keys.get(`${mapSegment(exchange)}:${symbol.toUpperCase()}`) || null;
+  } catch (error) {
+    console.error(`[getInstrumentKey] Lookup failed for ${exchange}:${symbol}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Exchange an Upstox authorization code for an access token
+ */
+export async function authenticateUpstox(
+  code: string,
+  apiKey: string,
+  apiSecret: string,
+  redirectUri: string
+): Promise<string> {
+  try {
+    const response = await fetch(`${upstoxBaseUrl()}/login/authorization/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+      },
+      body: new URLSearchParams({
+        code,
+        client_id: apiKey,
+        client_secret: apiSecret,
+        redirect_uri: redirectUri,
+        grant_type: 'authorization_code',
+      }).toString(),
+    });
+
+    const data = (await response.json()) as UpstoxEnvelope<never> & { access_token?: string };
+
+    if (!response.ok || !data.access_token) {
+      throw new Error(data.errors?.[0]?.message || `Authentication failed with status ${response.status}`);
+    }
+
+    return data.access_token;
+  } catch (error) {
+    console.error('Upstox authentication error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Place an order on Upstox
+ */
+export async function placeOrder(
+  accessToken: string,
+  orderPayload: UpstoxOrderPayload
+): Promise<{ orderid: string }> {
+  try {
+    const data = await upstoxRequest<{ order_id?: string }>('/order/place', accessToken, {
+      method: 'POST',
+      body: orderPayload,
+    });
+
+    if (!data?.order_id) {
+      throw new Error('Failed to place order');
+    }
+
+    return { orderid: data.order_id };
+  } catch (error) {
+    console.error('Upstox place-order error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Modify an existing order on Upstox
+ */
+export async function modifyOrder(
+  accessToken: string,
+  orderPayload: AdapterModifyOrder
+): Promise<{ orderid: string }> {
+  try {
+    const data = await upstoxRequest<{ order_id?: string }>('/order/modify', accessToken, {
+      method: 'PUT',
+      body: {
+        order_id: orderPayload.orderid,
+        quantity: Number(orderPayload.quantity) || 0,
+        validity: 'DAY',
+        price: Number(orderPayload.price) || 0,
+        order_type: orderPayload.pricetype || 'LIMIT',
+        disclosed_quantity: Number(orderPayload.disclosed_quantity) || 0,
+        trigger_price: Number(orderPayload.trigger_price) || 0,
+      },
+    });
+
+    return { orderid: data?.order_id || orderPayload.orderid };
+  } catch (error) {
+    console.error('Upstox modify-order error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel an order on Upstox
+ */
+export async function cancelOrder(accessToken: string, orderId: string): Promise<{ orderid: string }> {
+  try {
+    const data = await upstoxRequest<{ order_id?: string }>(
+      `/order/cancel?order_id=${encodeURIComponent(orderId)}`,
+      accessToken,
+      { method: 'DELETE' }
+    );
+    return { orderid: data?.order_id || orderId };
+  } catch (error) {
+    console.error('Upstox cancel-order error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get order book from Upstox
+ */
+export async function getOrderBook(accessToken: string): Promise<UpstoxRow[]> {
+  try {
+    return (await upstoxRequest<UpstoxRow[]>('/order/retrieve-all', accessToken)) || [];
+  } catch (error) {
+    console.error('Upstox getOrderBook error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get trade book from Upstox
+ */
+export async function getTradeBook(accessToken: string): Promise<UpstoxRow[]> {
+  try {
+    return (await upstoxRequest<UpstoxRow[]>('/order/trades/get-trades-for-day', accessToken)) || [];
+  } catch (error) {
+    console.error('Upstox getTradeBook error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get positions from Upstox
+ */
+export async function getPositions(accessToken: string): Promise<UpstoxRow[]> {
+  try {
+    return (await upstoxRequest<UpstoxRow[]>('/portfolio/short-term-positions', accessToken)) || [];
+  } catch (error) {
+    console.error('Upstox getPositions error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get holdings from Upstox
+ */
+export async function getHoldings(accessToken: string): Promise<UpstoxRow[]> {
+  try {
+    return (await upstoxRequest<UpstoxRow[]>('/portfolio/long-term-holdings', accessToken)) || [];
+  } catch (error) {
+    console.error('Upstox getHoldings error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get funds and margin from Upstox ({ equity, commodity })
+ */
+export async function getFunds(accessToken: string): Promise<UpstoxRow> {
+  try {
+    return (await upstoxRequest<UpstoxRow>('/user/get-funds-and-margin', accessToken)) || {};
+  } catch (error) {
+    console.error('Upstox getFunds error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get full market quotes from Upstox
+ * Upstox keys the response by SEGMENT:SYMBOL, so the single quote is returned directly
+ */
+export async function getMarketQuote(accessToken: string, instrumentKey: string): Promise<UpstoxRow | null> {
+  try {
+    const data = await upstoxRequest<Record<string, UpstoxRow>>(
+      `/market-quote/quotes?instrument_key=${encodeURIComponent(instrumentKey)}`,
+      accessToken
+    );
+    return Object.values(data || {})[0] || null;
+  } catch (error) {
+    console.error('Upstox getMarketQuote error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel all open orders on Upstox
+ */
+export async function cancelAllOrders(accessToken: string): Promise<{ canceled: string[]; failed: string[] }> {
+  try {
+    const orders = await getOrderBook(accessToken);
+
+    const canceled: string[] = [];
+    const failed: string[] = [];
+
+    // Filter orders that are open or trigger pending
+    const ordersToCancel = orders.filter(
+      (order) => order.status === 'open' || order.status === 'trigger pending'
+    );
+
+    for (const order of ordersToCancel) {
+      const orderId = String(order.order_id);
+      try {
+        await cancelOrder(accessToken, orderId);
+        canceled.push(orderId);
+      } catch (error) {
+        console.error(`Failed to cancel order ${orderId}:`, error);
+        failed.push(orderId);
+      }
+    }
+
+    return { canceled, failed };
+  } catch (error) {
+    console.error('Upstox cancelAllOrders error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Close a specific position on Upstox with an opposite MARKET order
+ */
+export async function closePosition(
+  accessToken: string,
+  symbol: string,
+  exchange: string,
+  product: string
+): Promise<{ orderid: string }> {
+  try {
+    const positions = await getPositions(accessToken);
+    const upstoxProduct = mapProductType(product);
+
+    const position = positions.find(
+      (p) =>
+        String(p.trading_symbol ?? p.tradingsymbol ?? '').replace(/-(EQ|BE)$/, '') === symbol &&
+        (p.exchange === 'NCD' ? 'CDS' : p.exchange) === exchange &&
+        p.product === upstoxProduct &&
+        Number(p.quantity) !== 0
+    );
+
+    if (!position) {
+      throw new Error(`No position found for ${symbol} on ${exchange}`);
+    }
+
+    const quantity = Number(position.quantity);
+
+    return await placeOrder(accessToken, {
+      instrument_token: String(position.instrument_token),
+      quantity: Math.abs(quantity),
+      product: upstoxProduct,
+      validity: 'DAY',
+      price: 0,
+      order_type: 'MARKET',
+      transaction_type: quantity > 0 ? 'SELL' : 'BUY',
+      disclosed_quantity: 0,
+      trigger_price: 0,
+      is_amo: false,
+    });
+  } catch (error) {
+    console.error('Upstox closePosition error:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Angel One SmartStream WebSocket Service
+ * Manages one real-time market data connection for a single Angel account
+ *
+ * SmartStream authenticates on the handshake (JWT, API key, client code, feed token) and
+ * expects a text "ping" every few seconds; ticks arrive as one binary packet per instrument
+ * Use the ticker connection manager to get the connection for a user
+ */
+
+import WebSocket from 'ws';
+import { randomBytes } from 'crypto';
+import { TickMode } from './kiteTickerProtocol';
+import {
+  ANGEL_EXCHANGE_TYPES,
+  ANGEL_MAX_INSTRUMENTS_PER_CONNECTION,
+  AngelInstrument,
+  angelSubscriptionMessage,
+  parseAngelBinary,
+  parseAngelTextMessage,
+} from './angelSmartStreamProtocol';
+import { SocketFeed } from './socketFeed';
+import { findInstrument, loadInstruments } from '../instrumentMaster';
+
+export interface AngelStreamCredentials {
+  jwtToken: string;
+  apiKey: string;
+  clientCode: string;
+  feedToken: string;
+}
+
+const SMARTSTREAM_URL = 'wss://smartapisocket.angelone.in/smart-stream';
+const HEARTBEAT_INTERVAL_MS = 10000;
+// Pongs answer every ping, so a quiet market still isn't silent
+const READ_TIMEOUT_MS = 30000;
+
+class AngelSmartStream extends SocketFeed {
+  private credentials: AngelStreamCredentials | null;
+  // instrument token -> exchange and SmartStream token
+  private instruments: Map<number, AngelInstrument>;
+
+  constructor(maxInstruments: number = ANGEL_MAX_INSTRUMENTS_PER_CONNECTION) {
+    super({
+      name: 'ANGEL-STREAM',
+      maxInstruments,
+      readTimeoutMs: READ_TIMEOUT_MS,
+      heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
+    });
+    this.credentials = null;
+    this.instruments = new Map();
+  }
+
+  /**
+   * Set API credentials
+   * Reconnects with the new credentials if they changed while a connection is open
+   */
+  initialize(credentials: AngelStreamCredentials) {
+    const current = this.credentials;
+    if (
+      current &&
+      current.jwtToken === credentials.jwtToken &&
+      current.apiKey === credentials.apiKey &&
+      current.clientCode === credentials.clientCode &&
+      current.feedToken === credentials.feedToken
+    ) {
+      return;
+    }
+
+    this.credentials = { ...credentials };
+    this.restart();
+  }
+
+  /**
+   * SmartStream tokens from Angel's scrip master in the instrument master
+   * Symbols are "EXCHANGE:SYMBOL" or bare, as the instrument master looks them up
+   * A token already streaming from another exchange can't be added again
+   */
+  protected async lookupTokens(symbols: string[]): Promise<Map<string, number>> {
+    const resolved = new Map<string, number>();
+    if (!(await loadInstruments('angel'))) {
+      this.recordError('Failed to load Angel scrip master');
+      return resolved;
+    }
+
+    for (const symbol of symbols) {
+      const angel = findInstrument(symbol)?.brokers.angel;
+      const exchangeType = angel ? ANGEL_EXCHANGE_TYPES[angel.exchange] : undefined;
+      if (!angel || !exchangeType) continue;
+
+      const instrument: AngelInstrument = { exchangeType, token: angel.token };
+      const token = Number(instrument.token);
+      const known = this.instruments.get(token);
+      if (known && known.exchangeType !== instrument.exchangeType && this.subscribedTokens.has(token)) {
+        continue;
+      }
+      this.instruments.set(token, instrument);
+      resolved.set(symbol, token);
+    }
+    return resolved;
+  }
+
+  protected hasCredentials(): boolean {
+    const credentials = this.credentials;
+    return !!credentials?.jwtToken && !!credentials.apiKey && !!credentials.clientCode && !!credentials.feedToken;
+  }
+
+  protected openSocket(): WebSocket {
+    const { jwtToken, apiKey, clientCode, feedToken } = this.credentials!;
+    return new WebSocket(process.env.ANGEL_SMARTSTREAM_URL || SMARTSTREAM_URL, {
+      headers: {
+        Authorization: jwtToken.startsWith('Bearer ') ? jwtToken : `Bearer ${jwtToken}`,
+        'x-api-key': apiKey,
+        'x-client-code': clientCode,
+        'x-feed-token': feedToken,
+      },
+    });
+  }
+
+  protected handleMessage(data: Buffer, isBinary: boolean) {
+    if (isBinary) {
+      const tick = parseAngelBinary(data);
+      if (tick) {
+        this.emitTicks([tick]);
+      }
+      return;
+    }
+
+    const message = parseAngelTextMessage(data.toString('utf8'));
+    if (message?.type === 'error') {
+      this.recordError(message.message);
+    }
+  }
+
+  protected sendSubscribe(tokens: number[], mode: TickMode) {
+    this.sendRequest('subscribe', mode, tokens);
+  }
+
+  protected sendUnsubscribe(tokens: number[]) {
+    // SmartStream unsubscribes a token whatever mode it streams in
+    this.sendRequest('unsubscribe', 'ltp', tokens);
+  }
+
+  protected sendHeartbeat() {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send('ping');
+    }
+  }
+
+  protected describeAuthRejection(): string {
+    return 'SmartStream rejected the session; log in to Angel One again';
+  }
+
+  private sendRequest(action: 'subscribe' | 'unsubscribe', mode: TickMode, tokens: number[]) {
+    const instruments = tokens
+      .map((token) => this.instruments.get(token))
+      .filter((instrument): instrument is AngelInstrument => !!instrument);
+    if (instruments.length > 0) {
+      this.socket?.send(angelSubscriptionMessage(action, mode, instruments, randomBytes(5).toString('hex')));
+    }
+  }
+}
+
+export default AngelSmartStream;
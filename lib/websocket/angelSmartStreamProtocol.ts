@@ -0,0 +1,176 @@
+/**
+ * Angel One SmartStream (WebSocket 2.0) Wire Protocol
+ * Pure encoding/decoding, kept apart from the socket so it can be tested on recorded frames
+ *
+ * Binary packets are little-endian, one instrument per frame:
+ * LTP 51 bytes, Quote 123 bytes, SnapQuote 379 bytes (adds best five depth and OI)
+ * Prices arrive in paise (1e7 units for currency)
+ */
+
+import { DepthLevel, TickData, TickMode } from './kiteTickerProtocol';
+
+// SmartStream allows 1000 token subscriptions per session
+export const ANGEL_MAX_INSTRUMENTS_PER_CONNECTION = 1000;
+
+// Exchange -> SmartStream exchangeType
+export const ANGEL_EXCHANGE_TYPES: Record<string, number> = {
+  NSE: 1,
+  NFO: 2,
+  BSE: 3,
+  BFO: 4,
+  MCX: 5,
+  NCDEX: 7,
+  CDS: 13,
+};
+
+export interface AngelInstrument {
+  exchangeType: number;
+  token: string;
+}
+
+export type AngelTextMessage =
+  | { type: 'pong' }
+  | { type: 'error'; message: string };
+
+const MODE_CODES: Record<TickMode, number> = { ltp: 1, quote: 2, full: 3 };
+const EXCHANGE_TYPE_CDS = 13;
+
+const LTP_PACKET_SIZE = 51;
+const QUOTE_PACKET_SIZE = 123;
+const SNAP_QUOTE_PACKET_SIZE = 379;
+const BEST_FIVE_OFFSET = 147;
+const BEST_FIVE_ENTRY_SIZE = 20;
+
+function priceDivisor(exchangeType: number): number {
+  return exchangeType === EXCHANGE_TYPE_CDS ? 10000000 : 100;
+}
+
+function percentChange(lastPrice: number, close: number): number {
+  return close !== 0 ? ((lastPrice - close) * 100) / close : 0;
+}
+
+/**
+ * Subscribe / unsubscribe request; tokens are grouped by exchange as SmartStream expects
+ */
+export function angelSubscriptionMessage(
+  action: 'subscribe' | 'unsubscribe',
+  mode: TickMode,
+  instruments: AngelInstrument[],
+  correlationId: string
+): string {
+  const byExchange = new Map<number, string[]>();
+  for (const { exchangeType, token } of instruments) {
+    byExchange.set(exchangeType, [...(byExchange.get(exchangeType) || []), token]);
+  }
+
+  return JSON.stringify({
+    correlationID: correlationId,
+    action: action === 'subscribe' ? 1 : 0,
+    params: {
+      mode: MODE_CODES[mode],
+      tokenList: Array.from(byExchange, ([exchangeType, tokens]) => ({ exchangeType, tokens })),
+    },
+  });
+}
+
+/**
+ * Parse one binary packet; returns null for packets too short for their mode
+ */
+export function parseAngelBinary(data: ArrayBuffer | Uint8Array): TickData | null {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.byteLength < LTP_PACKET_SIZE) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const int64 = (offset: number) => Number(view.getBigInt64(offset, true));
+  const double = (offset: number) => view.getFloat64(offset, true);
+
+  const modeCode = view.getUint8(0);
+  const exchangeType = view.getUint8(1);
+  const divisor = priceDivisor(exchangeType);
+  const price = (offset: number) => int64(offset) / divisor;
+
+  // Token is a NUL-padded ASCII string
+  let tokenText = '';
+  for (let i = 2; i < 27 && bytes[i] !== 0; i++) {
+    tokenText += String.fromCharCode(bytes[i]);
+  }
+
+  const mode: TickMode = modeCode === 3 ? 'full' : modeCode === 2 ? 'quote' : 'ltp';
+  const exchangeTimestamp = int64(35);
+  const tick: TickData = {
+    instrument_token: Number(tokenText),
+    mode,
+    tradable: true,
+    last_price: price(43),
+    exchange_timestamp: exchangeTimestamp ? new Date(exchangeTimestamp) : null,
+  };
+
+  if (mode === 'ltp') {
+    return tick;
+  }
+  if (bytes.byteLength < QUOTE_PACKET_SIZE) {
+    return null;
+  }
+
+  tick.last_traded_quantity = int64(51);
+  tick.average_traded_price = price(59);
+  tick.volume_traded = int64(67);
+  tick.total_buy_quantity = double(75);
+  tick.total_sell_quantity = double(83);
+  tick.ohlc = {
+    open: price(91),
+    high: price(99),
+    low: price(107),
+    close: price(115),
+  };
+  tick.change = percentChange(tick.last_price, tick.ohlc.close);
+
+  if (mode === 'quote') {
+    return tick;
+  }
+  if (bytes.byteLength < SNAP_QUOTE_PACKET_SIZE) {
+    return null;
+  }
+
+  const lastTradeTime = int64(123);
+  tick.last_trade_time = lastTradeTime ? new Date(lastTradeTime * 1000) : null;
+  tick.oi = int64(131);
+
+  const buy: DepthLevel[] = [];
+  const sell: DepthLevel[] = [];
+  for (let i = 0; i < 10; i++) {
+    const offset = BEST_FIVE_OFFSET + i * BEST_FIVE_ENTRY_SIZE;
+    const level: DepthLevel = {
+      quantity: int64(offset + 2),
+      price: price(offset + 10),
+      orders: view.getInt16(offset + 18, true),
+    };
+    (view.getInt16(offset, true) === 1 ? buy : sell).push(level);
+  }
+  tick.depth = { buy, sell };
+
+  return tick;
+}
+
+/**
+ * Parse a text frame: heartbeat replies and error responses (anything else is ignored)
+ */
+export function parseAngelTextMessage(text: string): AngelTextMessage | null {
+  if (text === 'pong') {
+    return { type: 'pong' };
+  }
+
+  let message: { errorCode?: string; errorMessage?: string };
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (message.errorCode) {
+    return { type: 'error', message: `${message.errorCode}: ${message.errorMessage ?? 'SmartStream error'}` };
+  }
+  return null;
+}
@@ -0,0 +1,114 @@
+/**
+ * Streaming Feed Credentials
+ * Loads and decrypts what each broker's market data socket needs from the user's broker config
+ */
+
+import { getCachedBrokerConfig } from '@/lib/brokerConfigUtils';
+import { decryptData } from '@/lib/encryptionUtils';
+import { detectUserBroker } from '@/lib/brokerDetection';
+
+export type StreamingBroker = 'zerodha' | 'fyers' | 'angel';
+
+export const STREAMING_BROKERS: StreamingBroker[] = ['zerodha', 'fyers', 'angel'];
+
+export type FeedCredentials =
+  | { broker: 'zerodha'; apiKey: string; accessToken: string }
+  | { broker: 'fyers'; appId: string; accessToken: string }
+  | { broker: 'angel'; jwtToken: string; apiKey: string; clientCode: string; feedToken: string };
+
+export type FeedCredentialsResult =
+  | { success: true; credentials: FeedCredentials }
+  | { success: false; error: string; status: number };
+
+export function isStreamingBroker(value: unknown): value is StreamingBroker {
+  return typeof value === 'string' && (STREAMING_BROKERS as string[]).includes(value);
+}
+
+/**
+ * Stored tokens may use the combined clientId:accessToken format
+ */
+function stripClientPrefix(token: string): string {
+  return token.includes(':') ? token.split(':')[1] : token;
+}
+
+/**
+ * Angel doesn't store the client code; the session JWT carries it as `username`
+ */
+function angelClientCode(jwtToken: string): string {
+  try {
+    const payload = jwtToken.replace(/^Bearer /, '').split('.')[1] || '';
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof claims.username === 'string' ? claims.username : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Load the user's streaming credentials for a broker
+ * Fails with 404 when the broker isn't configured and 401 when it isn't authenticated
+ */
+export async function loadFeedCredentials(userId: string, broker: StreamingBroker): Promise<FeedCredentialsResult> {
+  const configData = await getCachedBrokerConfig(userId, broker);
+
+  if (!configData) {
+    return { success: false, error: 'Broker not configured', status: 404 };
+  }
+
+  if (!configData.accessToken || configData.status !== 'active') {
+    return { success: false, error: 'Broker not authenticated', status: 401 };
+  }
+
+  try {
+    const accessToken = decryptData(configData.accessToken);
+    const apiKey = configData.apiKey ? decryptData(configData.apiKey) : '';
+
+    if (broker === 'zerodha') {
+      return { success: true, credentials: { broker, apiKey, accessToken: stripClientPrefix(accessToken) } };
+    }
+
+    if (broker === 'fyers') {
+      return {
+        success: true,
+        credentials: { broker, appId: configData.appId || apiKey, accessToken: stripClientPrefix(accessToken) },
+      };
+    }
+
+    const feedToken = configData.feedToken ? decryptData(configData.feedToken) : '';
+    const clientCode = angelClientCode(accessToken);
+    if (!feedToken || !clientCode) {
+      return { success: false, error: 'Angel session has no feed token; log in to Angel One again', status: 401 };
+    }
+    return { success: true, credentials: { broker, jwtToken: accessToken, apiKey, clientCode, feedToken } };
+  } catch (error) {
+    console.error(`Failed to decrypt ${broker} credentials:`, error);
+    return { success: false, error: 'Failed to decrypt credentials. Please re-authenticate.', status: 401 };
+  }
+}
+
+/**
+ * The broker to stream from: the requested one, else the detected Zerodha/Fyers
+ * session, else an active Angel session
+ */
+export async function resolveStreamingBroker(
+  userId: string,
+  requested: string | null
+): Promise<{ broker: StreamingBroker } | { error: string; status: number }> {
+  if (requested) {
+    return isStreamingBroker(requested)
+      ? { broker: requested }
+      : { error: 'Unsupported broker. Must be one of: zerodha, fyers, angel', status: 400 };
+  }
+
+  const brokerDetection = await detectUserBroker(userId);
+  if (brokerDetection.isConfigured && isStreamingBroker(brokerDetection.broker)) {
+    return { broker: brokerDetection.broker };
+  }
+
+  const angelConfig = await getCachedBrokerConfig(userId, 'angel');
+  if (angelConfig?.status === 'active') {
+    return { broker: 'angel' };
+  }
+
+  return { error: brokerDetection.error || 'No broker configured', status: 401 };
+}
@@ -0,0 +1,224 @@
+/**
+ * Fyers Data Socket (HSM) WebSocket Service
+ * Manages one real-time market data connection for a single Fyers account
+ *
+ * The socket authenticates in-band with the hsm_key from the access token, then streams
+ * symbol updates for HSM topics resolved through the symbol-token API
+ * Use the ticker connection manager to get the connection for a user
+ */
+
+import WebSocket from 'ws';
+import {
+  FYERS_DEFAULT_CHANNEL,
+  FYERS_MAX_INSTRUMENTS_PER_CONNECTION,
+  FyersTopicTable,
+  fyersAckMessage,
+  fyersAuthMessage,
+  fyersHsmKey,
+  fyersInstrumentToken,
+  fyersModeMessage,
+  fyersResumeMessage,
+  fyersSubscriptionMessage,
+  fyersTick,
+  fyersTopic,
+  parseFyersMessage,
+} from './fyersDataSocketProtocol';
+import { SocketFeed } from './socketFeed';
+import { brokerInstrument } from '../instrumentMaster';
+
+const DATA_SOCKET_URL = 'wss://socket.fyers.in/hsm/v1-5/prod';
+const FYERS_DATA_URL = 'https://api-t1.fyers.in/data';
+const SOURCE = 'openalgonode';
+const HEARTBEAT_INTERVAL_MS = 10000;
+const READ_TIMEOUT_MS = 30000;
+
+interface SymbolTokenResponse {
+  s?: string;
+  message?: string;
+  validSymbol?: Record<string, string>;
+}
+
+class FyersDataSocket extends SocketFeed {
+  private appId: string;
+  private accessToken: string;
+  // instrument token <-> HSM topic
+  private topics: Map<number, string>;
+  private topicTokens: Map<string, number>;
+  // Per-connection state, reset on every (re)connect
+  private topicTable: FyersTopicTable;
+  private ackCount: number;
+  private messagesSinceAck: number;
+
+  constructor(maxInstruments: number = FYERS_MAX_INSTRUMENTS_PER_CONNECTION) {
+    super({
+      name: 'FYERS-STREAM',
+      maxInstruments,
+      readTimeoutMs: READ_TIMEOUT_MS,
+      heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
+    });
+    this.appId = '';
+    this.accessToken = '';
+    this.topics = new Map();
+    this.topicTokens = new Map();
+    this.topicTable = new Map();
+    this.ackCount = 0;
+    this.messagesSinceAck = 0;
+  }
+
+  /**
+   * Set API credentials
+   * Reconnects with the new credentials if they changed while a connection is open
+   */
+  initialize(appId: string, accessToken: string) {
+    if (this.appId === appId && this.accessToken === accessToken) {
+      return;
+    }
+
+    this.appId = appId;
+    this.accessToken = accessToken;
+    this.restart();
+  }
+
+  /**
+   * HSM topics from the symbol-token API
+   * Symbols are Fyers symbols (NSE:SBIN-EQ) or OpenAlgo symbols translated by the instrument master
+   */
+  protected async lookupTokens(symbols: string[]): Promise<Map<string, number>> {
+    const resolved = new Map<string, number>();
+    const fyersSymbols = new Map(symbols.map((symbol) => [symbol, brokerInstrument('fyers', symbol).symbol]));
+    if (fyersSymbols.size === 0) {
+      return resolved;
+    }
+
+    let fyTokens: Record<string, string>;
+    try {
+      const response = await fetch(`${process.env.FYERS_DATA_API_URL || FYERS_DATA_URL}/symbol-token`, {
+        method: 'POST',
+        headers: {
+          Authorization: `${this.appId}:${this.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ symbols: Array.from(new Set(fyersSymbols.values())) }),
+      });
+      const data: SymbolTokenResponse = await response.json();
+      if (!response.ok || data.s !== 'ok') {
+        throw new Error(data.message || `Symbol lookup failed with status ${response.status}`);
+      }
+      fyTokens = data.validSymbol || {};
+    } catch (error) {
+      this.recordError(error instanceof Error ? error.message : 'Fyers symbol lookup failed');
+      return resolved;
+    }
+
+    for (const [symbol, fyersSymbol] of fyersSymbols) {
+      const fyToken = fyTokens[fyersSymbol];
+      const topic = fyToken ? fyersTopic(fyersSymbol, fyToken) : null;
+      if (!fyToken || !topic) continue;
+
+      const token = fyersInstrumentToken(fyToken);
+      const known = this.topics.get(token);
+      if (known && known !== topic && this.subscribedTokens.has(token)) {
+        continue; // same exchange token on another segment is already streaming
+      }
+      this.topics.set(token, topic);
+      this.topicTokens.set(topic, token);
+      resolved.set(symbol, token);
+    }
+    return resolved;
+  }
+
+  protected hasCredentials(): boolean {
+    return !!this.appId && !!this.accessToken;
+  }
+
+  protected openSocket(): WebSocket {
+    this.topicTable = new Map();
+    this.ackCount = 0;
+    this.messagesSinceAck = 0;
+    return new WebSocket(process.env.FYERS_DATA_SOCKET_URL || DATA_SOCKET_URL, {
+      headers: { authorization: `${this.appId}:${this.accessToken}` },
+    });
+  }
+
+  protected handleOpen() {
+    const hsmKey = fyersHsmKey(this.accessToken);
+    if (!hsmKey) {
+      this.rejectCredentials('Fyers access token has no data socket key; log in to Fyers again');
+      return;
+    }
+    this.socket?.send(fyersAuthMessage(hsmKey, SOURCE));
+  }
+
+  protected handleMessage(data: Buffer, isBinary: boolean) {
+    if (!isBinary) {
+      return; // pong text
+    }
+
+    const message = parseFyersMessage(data, this.topicTable);
+    if (message.type === 'auth') {
+      if (!message.ok) {
+        this.rejectCredentials('Fyers data socket rejected the access token; log in to Fyers again');
+        return;
+      }
+      this.ackCount = message.ackCount;
+      this.socket?.send(fyersModeMessage(FYERS_DEFAULT_CHANNEL, false));
+      this.socket?.send(fyersResumeMessage(FYERS_DEFAULT_CHANNEL));
+      this.markReady();
+    } else if (message.type === 'subscribe' && !message.ok) {
+      this.recordError('Fyers data socket rejected a subscription');
+    } else if (message.type === 'data') {
+      this.acknowledge(message.messageNumber);
+      const ticks = message.topics.flatMap((state) => {
+        const token = this.topicTokens.get(state.topic);
+        return token !== undefined && this.subscribedTokens.has(token) ? [fyersTick(token, state)] : [];
+      });
+      this.emitTicks(ticks);
+    }
+  }
+
+  /**
+   * Every topic streams the full symbol update; the mode only matters to the subscription table
+   */
+  protected sendSubscribe(tokens: number[]) {
+    this.sendRequest('subscribe', tokens);
+  }
+
+  protected sendUnsubscribe(tokens: number[]) {
+    this.sendRequest('unsubscribe', tokens);
+  }
+
+  protected sendHeartbeat() {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.ping();
+    }
+  }
+
+  protected describeAuthRejection(): string {
+    return 'Fyers data socket rejected the access token; log in to Fyers again';
+  }
+
+  /**
+   * The server expects an ack after every ackCount data messages
+   */
+  private acknowledge(messageNumber: number) {
+    if (this.ackCount <= 0) {
+      return;
+    }
+    this.messagesSinceAck++;
+    if (this.messagesSinceAck >= this.ackCount) {
+      this.messagesSinceAck = 0;
+      this.socket?.send(fyersAckMessage(messageNumber));
+    }
+  }
+
+  private sendRequest(action: 'subscribe' | 'unsubscribe', tokens: number[]) {
+    const topics = tokens
+      .map((token) => this.topics.get(token))
+      .filter((topic): topic is string => !!topic);
+    if (topics.length > 0) {
+      this.socket?.send(fyersSubscriptionMessage(action, topics, FYERS_DEFAULT_CHANNEL));
+    }
+  }
+}
+
+export default FyersDataSocket;
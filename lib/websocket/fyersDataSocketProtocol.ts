@@ -0,0 +1,340 @@
+/**
+ * Fyers Data Socket (HSM) Wire Protocol
+ * Pure encoding/decoding, kept apart from the socket so it can be tested on recorded frames
+ *
+ * Every message is big-endian: [uint16 length][uint8 type]...
+ * Requests: 1 auth, 3 ack, 4 subscribe, 5 unsubscribe, 7 resume channel, 12 full/lite mode
+ * Data feeds (type 6) carry per-topic packets: 'S' snapshot (field values plus the
+ * topic's price precision), 'U' update (changed fields), 'L' lite (LTP only)
+ * Topics are 'sf|<segment>|<exchange token>' for scrips and 'if|<segment>|<index name>' for indices
+ */
+
+import { TickData } from './kiteTickerProtocol';
+
+// Symbols per data socket connection
+export const FYERS_MAX_INSTRUMENTS_PER_CONNECTION = 5000;
+export const FYERS_DEFAULT_CHANNEL = 11;
+
+const REQUEST_AUTH = 1;
+const REQUEST_ACK = 3;
+const REQUEST_SUBSCRIBE = 4;
+const REQUEST_UNSUBSCRIBE = 5;
+const RESPONSE_DATA = 6;
+const REQUEST_RESUME = 7;
+const REQUEST_MODE = 12;
+
+const PACKET_SNAPSHOT = 83;   // 'S'
+const PACKET_UPDATE = 85;     // 'U'
+const PACKET_LITE = 76;       // 'L'
+
+// Unset field value
+const NULL_VALUE = -2147483648;
+
+// Field order in scrip ('sf') and index ('if') packets
+const SCRIP_FIELDS = [
+  'ltp', 'vol_traded_today', 'last_traded_time', 'exch_feed_time', 'bid_size', 'ask_size',
+  'bid_price', 'ask_price', 'last_traded_qty', 'tot_buy_qty', 'tot_sell_qty', 'avg_trade_price',
+  'OI', 'low_price', 'high_price', 'Yhigh', 'Ylow', 'lower_ckt', 'upper_ckt', 'open_price',
+  'prev_close_price', 'type', 'symbol',
+];
+const INDEX_FIELDS = ['ltp', 'prev_close_price', 'exch_feed_time', 'high_price', 'low_price', 'open_price', 'type', 'symbol'];
+
+// Fields that are prices (scaled by the topic's precision)
+const PRICE_FIELDS = new Set([
+  'ltp', 'bid_price', 'ask_price', 'avg_trade_price', 'low_price', 'high_price', 'Yhigh', 'Ylow',
+  'lower_ckt', 'upper_ckt', 'open_price', 'prev_close_price',
+]);
+
+// First four digits of a fytoken -> HSM segment
+const SEGMENTS: Record<string, string> = {
+  '1010': 'nse_cm',
+  '1011': 'nse_fo',
+  '1012': 'cde_fo',
+  '1120': 'mcx_fo',
+  '1210': 'bse_cm',
+  '1211': 'bse_fo',
+};
+
+// Index symbols are subscribed by their exchange name
+const INDEX_NAMES: Record<string, string> = {
+  'NSE:NIFTY50-INDEX': 'Nifty 50',
+  'NSE:NIFTYBANK-INDEX': 'Nifty Bank',
+  'NSE:FINNIFTY-INDEX': 'Nifty Fin Service',
+  'NSE:MIDCPNIFTY-INDEX': 'NIFTY MID SELECT',
+  'NSE:NIFTYNXT50-INDEX': 'Nifty Next 50',
+  'NSE:INDIAVIX-INDEX': 'India VIX',
+  'BSE:SENSEX-INDEX': 'SENSEX',
+  'BSE:BANKEX-INDEX': 'BANKEX',
+};
+
+/** Per-topic values, accumulated from snapshots and updates */
+export interface FyersTopicState {
+  topic: string;
+  precision: number;
+  values: Record<string, number>;
+}
+
+/** Topic id -> state for one connection; reset on reconnect */
+export type FyersTopicTable = Map<number, FyersTopicState>;
+
+export type FyersMessage =
+  | { type: 'auth'; ok: boolean; ackCount: number }
+  | { type: 'subscribe'; ok: boolean }
+  | { type: 'data'; messageNumber: number; topics: FyersTopicState[] }
+  | { type: 'other' };
+
+/**
+ * HSM topic for a symbol, from the fytoken returned by the symbol-token API
+ * Returns null for segments the data socket doesn't serve
+ */
+export function fyersTopic(symbol: string, fyToken: string): string | null {
+  const segment = SEGMENTS[fyToken.slice(0, 4)];
+  if (!segment) {
+    return null;
+  }
+  if (symbol.endsWith('-INDEX')) {
+    const name = INDEX_NAMES[symbol] ?? symbol.slice(symbol.indexOf(':') + 1, -'-INDEX'.length);
+    return `if|${segment}|${name}`;
+  }
+  return `sf|${segment}|${fyToken.slice(10)}`;
+}
+
+/**
+ * Instrument token for a fytoken (the exchange token at its tail)
+ */
+export function fyersInstrumentToken(fyToken: string): number {
+  return Number(fyToken.slice(10));
+}
+
+/**
+ * The HSM key the socket authenticates with, from the access token's JWT payload
+ */
+export function fyersHsmKey(accessToken: string): string | null {
+  const payload = accessToken.split('.')[1];
+  if (!payload) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof claims.hsm_key === 'string' ? claims.hsm_key : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a request from its fields: [length][type][field count]([field id][uint16 size][value])...
+ */
+function encodeRequest(type: number, fields: Buffer[]): Buffer {
+  const body = Buffer.concat(
+    fields.map((value, index) => {
+      const header = Buffer.alloc(3);
+      header.writeUInt8(index + 1, 0);
+      header.writeUInt16BE(value.length, 1);
+      return Buffer.concat([header, value]);
+    })
+  );
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(body.length + 2, 0);
+  header.writeUInt8(type, 2);
+  header.writeUInt8(fields.length, 3);
+  return Buffer.concat([header, body]);
+}
+
+function channelBits(channel: number): Buffer {
+  const bits = Buffer.alloc(8);
+  bits.writeBigUInt64BE(BigInt(1) << BigInt(channel));
+  return bits;
+}
+
+export function fyersAuthMessage(hsmKey: string, source: string): Buffer {
+  return encodeRequest(REQUEST_AUTH, [
+    Buffer.from(hsmKey),
+    Buffer.from('P'),             // mode
+    Buffer.from([1]),
+    Buffer.from(source),
+  ]);
+}
+
+export function fyersSubscriptionMessage(action: 'subscribe' | 'unsubscribe', topics: string[], channel: number): Buffer {
+  const count = Buffer.alloc(2);
+  count.writeUInt16BE(topics.length);
+  const topicList = Buffer.concat([
+    count,
+    ...topics.map((topic) => Buffer.concat([Buffer.from([Buffer.byteLength(topic)]), Buffer.from(topic)])),
+  ]);
+  return encodeRequest(action === 'subscribe' ? REQUEST_SUBSCRIBE : REQUEST_UNSUBSCRIBE, [
+    topicList,
+    Buffer.from([channel]),
+  ]);
+}
+
+/**
+ * Full mode streams every field; lite mode only LTP
+ */
+export function fyersModeMessage(channel: number, lite: boolean): Buffer {
+  return encodeRequest(REQUEST_MODE, [channelBits(channel), Buffer.from(lite ? 'L' : 'F')]);
+}
+
+export function fyersResumeMessage(channel: number): Buffer {
+  return encodeRequest(REQUEST_RESUME, [channelBits(channel)]);
+}
+
+export function fyersAckMessage(messageNumber: number): Buffer {
+  const value = Buffer.alloc(4);
+  value.writeUInt32BE(messageNumber);
+  return encodeRequest(REQUEST_ACK, [value]);
+}
+
+/**
+ * Read a status response's first field ('K' means accepted)
+ */
+function readStatus(data: Buffer): { ok: boolean; offset: number } {
+  const length = data.readUInt16BE(5);
+  const status = data.toString('utf8', 7, 7 + length);
+  return { ok: status === 'K', offset: 7 + length };
+}
+
+function readFields(data: Buffer, offset: number, count: number, state: FyersTopicState): number {
+  const names = state.topic.startsWith('if|') ? INDEX_FIELDS : SCRIP_FIELDS;
+  for (let i = 0; i < count; i++) {
+    const value = data.readInt32BE(offset);
+    offset += 4;
+    if (value !== NULL_VALUE && names[i]) {
+      state.values[names[i]] = value;
+    }
+  }
+  return offset;
+}
+
+/**
+ * Parse a binary message; data feeds update the connection's topic table and
+ * return the states of the topics they touched
+ */
+export function parseFyersMessage(data: Buffer, table: FyersTopicTable): FyersMessage {
+  if (data.length < 3) {
+    return { type: 'other' };
+  }
+
+  const type = data.readUInt8(2);
+  try {
+    if (type === REQUEST_AUTH) {
+      const { ok, offset } = readStatus(data);
+      // Second field: number of data messages per ack
+      const ackCount = ok && data.length >= offset + 7 ? data.readUInt32BE(offset + 3) : 0;
+      return { type: 'auth', ok, ackCount };
+    }
+    if (type === REQUEST_SUBSCRIBE) {
+      return { type: 'subscribe', ok: readStatus(data).ok };
+    }
+    if (type !== RESPONSE_DATA) {
+      return { type: 'other' };
+    }
+
+    const messageNumber = data.readUInt32BE(3);
+    const packetCount = data.readUInt16BE(7);
+    const touched = new Map<number, FyersTopicState>();
+    let offset = 9;
+
+    for (let i = 0; i < packetCount; i++) {
+      const packetType = data.readUInt8(offset);
+      const topicId = data.readUInt16BE(offset + 1);
+      offset += 3;
+
+      if (packetType === PACKET_SNAPSHOT) {
+        const nameLength = data.readUInt8(offset);
+        const topic = data.toString('utf8', offset + 1, offset + 1 + nameLength);
+        offset += 1 + nameLength;
+
+        const state: FyersTopicState = { topic, precision: 2, values: {} };
+        const fieldCount = data.readUInt8(offset);
+        offset = readFields(data, offset + 1, fieldCount, state);
+        offset += 2;                                  // reserved
+        offset += 2;                                  // multiplier (lot size), unused for ticks
+        state.precision = data.readUInt8(offset);
+        offset += 1;
+        for (let s = 0; s < 3; s++) {                 // exchange, exchange token, symbol
+          offset += 1 + data.readUInt8(offset);
+        }
+        table.set(topicId, state);
+        touched.set(topicId, state);
+      } else if (packetType === PACKET_UPDATE) {
+        const fieldCount = data.readUInt8(offset);
+        const state = table.get(topicId);
+        if (!state) {
+          offset += 1 + fieldCount * 4;               // update for a topic we have no snapshot of
+          continue;
+        }
+        offset = readFields(data, offset + 1, fieldCount, state);
+        touched.set(topicId, state);
+      } else if (packetType === PACKET_LITE) {
+        const ltp = data.readInt32BE(offset);
+        offset += 4;
+        const state = table.get(topicId);
+        if (state && ltp !== NULL_VALUE) {
+          state.values.ltp = ltp;
+          touched.set(topicId, state);
+        }
+      } else {
+        break;                                        // unknown packet; the rest can't be framed
+      }
+    }
+
+    return { type: 'data', messageNumber, topics: Array.from(touched.values()) };
+  } catch (error) {
+    // Truncated message: Buffer reads past the end throw these codes (checked by code, since
+    // the RangeError comes from Node's realm and fails instanceof under test sandboxes)
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ERR_OUT_OF_RANGE' || code === 'ERR_BUFFER_OUT_OF_BOUNDS') {
+      return { type: 'other' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build a tick from a topic's accumulated values
+ */
+export function fyersTick(token: number, state: FyersTopicState): TickData {
+  const scale = Math.pow(10, state.precision);
+  const value = (field: string) => {
+    const raw = state.values[field] ?? 0;
+    return PRICE_FIELDS.has(field) ? raw / scale : raw;
+  };
+  const time = (field: string) => (state.values[field] ? new Date(state.values[field] * 1000) : null);
+
+  const lastPrice = value('ltp');
+  const close = value('prev_close_price');
+  const tick: TickData = {
+    instrument_token: token,
+    mode: 'quote',
+    tradable: !state.topic.startsWith('if|'),
+    last_price: lastPrice,
+    ohlc: {
+      open: value('open_price'),
+      high: value('high_price'),
+      low: value('low_price'),
+      close,
+    },
+    change: close !== 0 ? ((lastPrice - close) * 100) / close : 0,
+    exchange_timestamp: time('exch_feed_time'),
+  };
+
+  if (!tick.tradable) {
+    return tick;
+  }
+
+  tick.volume_traded = value('vol_traded_today');
+  tick.last_traded_quantity = value('last_traded_qty');
+  tick.average_traded_price = value('avg_trade_price');
+  tick.total_buy_quantity = value('tot_buy_qty');
+  tick.total_sell_quantity = value('tot_sell_qty');
+  tick.last_trade_time = time('last_traded_time');
+  tick.oi = value('OI');
+  // The scrip feed carries the best bid and ask only
+  tick.depth = {
+    buy: [{ quantity: value('bid_size'), price: value('bid_price'), orders: 0 }],
+    sell: [{ quantity: value('ask_size'), price: value('ask_price'), orders: 0 }],
+  };
+  return tick;
+}
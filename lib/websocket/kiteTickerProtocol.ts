@@ -0,0 +1,244 @@
+/**
+ * Kite Connect WebSocket (ticker) protocol
+ * Binary tick packet parsing and the JSON control messages sent to Kite
+ *
+ * Frame layout: [int16 packet count][int16 size][packet]...; all integers big-endian
+ * Packet sizes: 8 = LTP, 28/32 = index quote/full, 44 = quote, 184 = full (with market depth)
+ * Single-byte frames are heartbeats
+ */
+
+export type TickMode = 'ltp' | 'quote' | 'full';
+
+/** Kite allows at most this many instruments on a single WebSocket connection */
+export const KITE_MAX_INSTRUMENTS_PER_CONNECTION = 3000;
+
+export interface DepthLevel {
+  quantity: number;
+  price: number;
+  orders: number;
+}
+
+export interface TickData {
+  instrument_token: number;
+  mode: TickMode;
+  tradable: boolean;
+  last_price: number;
+  last_traded_quantity?: number;
+  average_traded_price?: number;
+  volume_traded?: number;
+  total_buy_quantity?: number;
+  total_sell_quantity?: number;
+  ohlc?: {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+  };
+  change?: number;
+  last_trade_time?: Date | null;
+  exchange_timestamp?: Date | null;
+  oi?: number;
+  oi_day_high?: number;
+  oi_day_low?: number;
+  depth?: {
+    buy: DepthLevel[];
+    sell: DepthLevel[];
+  };
+}
+
+export type KiteTextMessage =
+  | { type: 'order'; data: Record<string, unknown> }
+  | { type: 'error'; message: string };
+
+// Exchange segment is the lowest byte of the instrument token
+const SEGMENT_NSE_CD = 3;
+const SEGMENT_BSE_CD = 6;
+const SEGMENT_INDICES = 9;
+
+function priceDivisor(segment: number): number {
+  if (segment === SEGMENT_NSE_CD) return 10000000;
+  if (segment === SEGMENT_BSE_CD) return 10000;
+  return 100;
+}
+
+function toDate(epochSeconds: number): Date | null {
+  return epochSeconds ? new Date(epochSeconds * 1000) : null;
+}
+
+function percentChange(lastPrice: number, close: number): number {
+  return close !== 0 ? ((lastPrice - close) * 100) / close : 0;
+}
+
+function parsePacket(view: DataView, offset: number, size: number): TickData | null {
+  const int = (at: number) => view.getInt32(offset + at);
+  const instrument_token = view.getUint32(offset);
+  const segment = instrument_token & 0xff;
+  const divisor = priceDivisor(segment);
+  const tradable = segment !== SEGMENT_INDICES;
+  const last_price = int(4) / divisor;
+
+  if (size === 8) {
+    return { instrument_token, mode: 'ltp', tradable, last_price };
+  }
+
+  if (size === 28 || size === 32) {
+    const ohlc = {
+      high: int(8) / divisor,
+      low: int(12) / divisor,
+      open: int(16) / divisor,
+      close: int(20) / divisor,
+    };
+    const tick: TickData = {
+      instrument_token,
+      mode: size === 32 ? 'full' : 'quote',
+      tradable,
+      last_price,
+      ohlc,
+      change: percentChange(last_price, ohlc.close),
+    };
+    if (size === 32) {
+      tick.exchange_timestamp = toDate(int(28));
+    }
+    return tick;
+  }
+
+  if (size === 44 || size === 184) {
+    const ohlc = {
+      open: int(28) / divisor,
+      high: int(32) / divisor,
+      low: int(36) / divisor,
+      close: int(40) / divisor,
+    };
+    const tick: TickData = {
+      instrument_token,
+      mode: size === 184 ? 'full' : 'quote',
+      tradable,
+      last_price,
+      last_traded_quantity: int(8),
+      average_traded_price: int(12) / divisor,
+      volume_traded: int(16),
+      total_buy_quantity: int(20),
+      total_sell_quantity: int(24),
+      ohlc,
+      change: percentChange(last_price, ohlc.close),
+    };
+
+    if (size === 184) {
+      tick.last_trade_time = toDate(int(44));
+      tick.oi = int(48);
+      tick.oi_day_high = int(52);
+      tick.oi_day_low = int(56);
+      tick.exchange_timestamp = toDate(int(60));
+      tick.depth = { buy: [], sell: [] };
+      // 10 entries of 12 bytes: 5 bids then 5 asks
+      for (let i = 0; i < 10; i++) {
+        const at = 64 + i * 12;
+        tick.depth[i < 5 ? 'buy' : 'sell'].push({
+          quantity: int(at),
+          price: int(at + 4) / divisor,
+          orders: view.getUint16(offset + at + 8),
+        });
+      }
+    }
+    return tick;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a binary ticker frame into ticks
+ * Heartbeats and truncated frames yield no ticks; unknown packet sizes are skipped
+ */
+export function parseKiteBinary(data: ArrayBuffer | Uint8Array): TickData[] {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.byteLength < 4) {
+    return [];
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const count = view.getUint16(0);
+  const ticks: TickData[] = [];
+  let offset = 2;
+
+  for (let i = 0; i < count && offset + 2 <= bytes.byteLength; i++) {
+    const size = view.getUint16(offset);
+    offset += 2;
+    if (offset + size > bytes.byteLength) {
+      break;
+    }
+    const tick = parsePacket(view, offset, size);
+    if (tick) {
+      ticks.push(tick);
+    }
+    offset += size;
+  }
+
+  return ticks;
+}
+
+/**
+ * Parse a text frame: order postbacks and error messages (other types are ignored)
+ */
+export function parseKiteTextMessage(text: string): KiteTextMessage | null {
+  let message: { type?: string; data?: unknown };
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (message.type === 'order' && message.data && typeof message.data === 'object') {
+    return { type: 'order', data: message.data as Record<string, unknown> };
+  }
+  if (message.type === 'error') {
+    return { type: 'error', message: String(message.data ?? 'Unknown ticker error') };
+  }
+  return null;
+}
+
+export function kiteSubscribeMessage(tokens: number[]): string {
+  return JSON.stringify({ a: 'subscribe', v: tokens });
+}
+
+export function kiteUnsubscribeMessage(tokens: number[]): string {
+  return JSON.stringify({ a: 'unsubscribe', v: tokens });
+}
+
+export function kiteModeMessage(mode: TickMode, tokens: number[]): string {
+  return JSON.stringify({ a: 'mode', v: [mode, tokens] });
+}
+
+/**
+ * Split requested tokens into those that fit on the connection and those over the limit
+ * Tokens already subscribed always fit
+ */
+export function partitionByCapacity(
+  subscribed: ReadonlySet<number>,
+  tokens: number[],
+  limit: number = KITE_MAX_INSTRUMENTS_PER_CONNECTION
+): { accepted: number[]; rejected: number[] } {
+  const accepted: number[] = [];
+  const rejected: number[] = [];
+  let used = subscribed.size;
+
+  for (const token of new Set(tokens)) {
+    if (subscribed.has(token)) {
+      accepted.push(token);
+    } else if (used < limit) {
+      accepted.push(token);
+      used++;
+    } else {
+      rejected.push(token);
+    }
+  }
+
+  return { accepted, rejected };
+}
+
+/**
+ * Exponential backoff for reconnect attempts (1-based), capped at maxDelayMs
+ */
+export function reconnectDelayMs(attempt: number, maxDelayMs: number = 60000): number {
+  return Math.min(1000 * 2 ** Math.max(0, attempt - 1), maxDelayMs);
+}
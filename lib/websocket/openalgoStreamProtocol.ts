@@ -0,0 +1,237 @@
+/**
+ * OpenAlgo WebSocket Streaming Protocol
+ * JSON messages exchanged with external clients (OpenAlgo Python SDK, AmiBroker plugin)
+ *
+ * Client -> server:
+ *   { action: 'authenticate', api_key }
+ *   { action: 'subscribe' | 'unsubscribe', symbols: [{ symbol, exchange }], mode }
+ *     (or a single symbol/exchange pair; mode 1/LTP, 2/Quote, 3/Depth)
+ *   { action: 'unsubscribe_all' } | { action: 'ping' }
+ * Server -> client:
+ *   { type: 'auth' | 'subscribe' | 'unsubscribe' | 'pong', status, ... }
+ *   { type: 'market_data', symbol, exchange, mode, data: { ltp, ... } }
+ *   { type: 'error', status: 'error', code, message }
+ */
+
+import { TickData, TickMode } from './kiteTickerProtocol';
+import { StreamingBroker } from './feedCredentials';
+import { brokerInstrument } from '../instrumentMaster';
+
+export type OpenAlgoMode = 1 | 2 | 3;
+
+export const OPENALGO_MODE_NAMES: Record<OpenAlgoMode, string> = { 1: 'LTP', 2: 'Quote', 3: 'Depth' };
+
+// Feed mode each OpenAlgo mode needs from the broker
+export const OPENALGO_TICK_MODES: Record<OpenAlgoMode, TickMode> = { 1: 'ltp', 2: 'quote', 3: 'full' };
+
+export const OPENALGO_EXCHANGES = ['NSE', 'BSE', 'NFO', 'BFO', 'CDS', 'MCX', 'NSE_INDEX', 'BSE_INDEX'];
+
+export type OpenAlgoErrorCode =
+  | 'INVALID_JSON'
+  | 'INVALID_ACTION'
+  | 'INVALID_PARAMETERS'
+  | 'NOT_AUTHENTICATED'
+  | 'AUTHENTICATION_ERROR'
+  | 'PERMISSION_DENIED'
+  | 'BROKER_ERROR';
+
+export interface OpenAlgoInstrument {
+  symbol: string;
+  exchange: string;
+}
+
+export type OpenAlgoClientMessage =
+  | { action: 'authenticate'; apiKey: string }
+  | { action: 'subscribe'; instruments: OpenAlgoInstrument[]; mode: OpenAlgoMode }
+  | { action: 'unsubscribe'; instruments: OpenAlgoInstrument[]; mode: OpenAlgoMode | null }  // null = every mode
+  | { action: 'unsubscribe_all' }
+  | { action: 'ping' }
+  | { action: 'invalid'; code: OpenAlgoErrorCode; message: string };
+
+export interface OpenAlgoSubscriptionResult extends OpenAlgoInstrument {
+  mode: string;
+  status: 'success' | 'error';
+  message?: string;
+}
+
+export interface OpenAlgoMarketData {
+  type: 'market_data';
+  symbol: string;
+  exchange: string;
+  mode: OpenAlgoMode;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Read a mode given as 1/2/3, "1"/"2"/"3" or LTP/Quote/Depth
+ */
+export function parseOpenAlgoMode(value: unknown): OpenAlgoMode | null {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d$/.test(value))) {
+    const mode = Number(value);
+    return mode === 1 || mode === 2 || mode === 3 ? mode : null;
+  }
+  if (typeof value === 'string') {
+    const named = ({ LTP: 1, QUOTE: 2, DEPTH: 3 } as Record<string, OpenAlgoMode>)[value.trim().toUpperCase()];
+    return named ?? null;
+  }
+  return null;
+}
+
+function parseInstruments(message: Record<string, unknown>): OpenAlgoInstrument[] | null {
+  const entries = Array.isArray(message.symbols)
+    ? message.symbols
+    : message.symbol !== undefined
+      ? [{ symbol: message.symbol, exchange: message.exchange }]
+      : null;
+  if (!entries || entries.length === 0) {
+    return null;
+  }
+
+  const instruments: OpenAlgoInstrument[] = [];
+  for (const entry of entries) {
+    const { symbol, exchange } = (entry || {}) as Record<string, unknown>;
+    if (typeof symbol !== 'string' || typeof exchange !== 'string' || !symbol.trim() || !exchange.trim()) {
+      return null;
+    }
+    instruments.push({ symbol: symbol.trim().toUpperCase(), exchange: exchange.trim().toUpperCase() });
+  }
+  return instruments;
+}
+
+/**
+ * Parse one text frame from a client
+ * Malformed frames come back as { action: 'invalid' } with the error to report
+ */
+export function parseOpenAlgoMessage(raw: string): OpenAlgoClientMessage {
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return { action: 'invalid', code: 'INVALID_JSON', message: 'Message is not valid JSON' };
+  }
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    return { action: 'invalid', code: 'INVALID_JSON', message: 'Message must be a JSON object' };
+  }
+
+  const action = typeof message.action === 'string' ? message.action.toLowerCase() : '';
+  switch (action) {
+    case 'authenticate':
+    case 'auth': {
+      const apiKey = message.api_key ?? message.apikey;
+      return typeof apiKey === 'string' && apiKey
+        ? { action: 'authenticate', apiKey }
+        : { action: 'invalid', code: 'INVALID_PARAMETERS', message: 'Missing required field: api_key' };
+    }
+    case 'subscribe':
+    case 'unsubscribe': {
+      const instruments = parseInstruments(message);
+      if (!instruments) {
+        return { action: 'invalid', code: 'INVALID_PARAMETERS', message: 'Each subscription needs a symbol and exchange' };
+      }
+      const mode = parseOpenAlgoMode(message.mode ?? (action === 'subscribe' ? 1 : undefined));
+      if (action === 'subscribe') {
+        return mode
+          ? { action: 'subscribe', instruments, mode }
+          : { action: 'invalid', code: 'INVALID_PARAMETERS', message: 'Invalid mode. Must be 1 (LTP), 2 (Quote) or 3 (Depth)' };
+      }
+      return { action: 'unsubscribe', instruments, mode };
+    }
+    case 'unsubscribe_all':
+      return { action: 'unsubscribe_all' };
+    case 'ping':
+      return { action: 'ping' };
+    default:
+      return { action: 'invalid', code: 'INVALID_ACTION', message: `Unsupported action: ${message.action ?? '(none)'}` };
+  }
+}
+
+/**
+ * The symbol string a broker feed's resolveSymbols() understands for an OpenAlgo instrument,
+ * or null if the exchange isn't supported
+ */
+export function feedSymbol(broker: StreamingBroker, instrument: OpenAlgoInstrument): string | null {
+  const { symbol, exchange } = instrument;
+  if (!OPENALGO_EXCHANGES.includes(exchange)) {
+    return null;
+  }
+  const baseExchange = exchange.replace(/_INDEX$/, '');
+
+  // Zerodha and Angel feeds look symbols up in the instrument master, where NSE is the default
+  switch (broker) {
+    case 'zerodha':
+      return exchange === 'NSE' ? symbol : `${exchange}:${symbol}`;
+    case 'angel':
+      return `${baseExchange}:${symbol}`;
+    case 'fyers':
+      // Fyers lists derivatives under the cash exchange (NSE:NIFTY24JAN21000CE)
+      return brokerInstrument('fyers', symbol, exchange).symbol;
+  }
+}
+
+function timestampOf(tick: TickData, now: Date): number {
+  return (tick.exchange_timestamp || now).getTime();
+}
+
+/**
+ * Shape a tick as an OpenAlgo market_data message for one subscribed mode
+ */
+export function openAlgoMarketData(
+  instrument: OpenAlgoInstrument,
+  mode: OpenAlgoMode,
+  tick: TickData,
+  now: Date = new Date()
+): OpenAlgoMarketData {
+  const data: Record<string, unknown> = { ltp: tick.last_price };
+  if (tick.last_trade_time) {
+    data.ltt = tick.last_trade_time.getTime();
+  }
+
+  if (mode >= 2) {
+    const close = tick.ohlc?.close ?? 0;
+    Object.assign(data, {
+      open: tick.ohlc?.open ?? 0,
+      high: tick.ohlc?.high ?? 0,
+      low: tick.ohlc?.low ?? 0,
+      close,
+      volume: tick.volume_traded ?? 0,
+      last_trade_quantity: tick.last_traded_quantity ?? 0,
+      average_price: tick.average_traded_price ?? 0,
+      total_buy_quantity: tick.total_buy_quantity ?? 0,
+      total_sell_quantity: tick.total_sell_quantity ?? 0,
+      change: close ? Math.round((tick.last_price - close) * 100) / 100 : 0,
+      change_percent: tick.change ?? 0,
+    });
+  }
+
+  if (mode === 3) {
+    data.oi = tick.oi ?? 0;
+    data.depth = {
+      buy: (tick.depth?.buy || []).map(({ price, quantity, orders }) => ({ price, quantity, orders })),
+      sell: (tick.depth?.sell || []).map(({ price, quantity, orders }) => ({ price, quantity, orders })),
+    };
+  }
+
+  data.timestamp = timestampOf(tick, now);
+  return { type: 'market_data', symbol: instrument.symbol, exchange: instrument.exchange, mode, data };
+}
+
+export function openAlgoError(code: OpenAlgoErrorCode, message: string) {
+  return { type: 'error', status: 'error', code, message };
+}
+
+export function openAlgoAuthSuccess(broker: StreamingBroker) {
+  return { type: 'auth', status: 'success', message: 'Authentication successful', broker };
+}
+
+/**
+ * Response to a subscribe/unsubscribe: success, partial (some failed) or error (all failed)
+ */
+export function openAlgoSubscriptionResponse(
+  type: 'subscribe' | 'unsubscribe',
+  results: OpenAlgoSubscriptionResult[]
+) {
+  const succeeded = results.filter((result) => result.status === 'success').length;
+  const status = succeeded === results.length ? 'success' : succeeded === 0 ? 'error' : 'partial';
+  const verb = type === 'subscribe' ? 'Subscription' : 'Unsubscription';
+  return { type, status, message: `${verb} processing complete`, subscriptions: results };
+}
@@ -0,0 +1,409 @@
+/**
+ * OpenAlgo-Compatible WebSocket Market Data Server
+ * Lets external tools (OpenAlgo Python SDK, AmiBroker) stream live prices with an API key
+ *
+ * Each client authenticates with { action: 'authenticate', api_key } and then subscribes
+ * by exchange and symbol in LTP, Quote or Depth mode (see openalgoStreamProtocol.ts)
+ * Clients hold a lease on the key owner's broker feed from tickerConnectionManager,
+ * so they share one broker connection with that user's charts and price streams
+ *
+ * Next.js route handlers can't accept WebSocket upgrades, so this listens on its own port
+ * (started from instrumentation.ts when OPENALGO_WS_PORT is set)
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { validateApiKey, recordApiKeyRejection } from '../apiKeyUtils';
+import { isIpAllowed } from '../ipWhitelist';
+import { TickerLease, acquireTickerConnection } from './tickerConnectionManager';
+import { StreamingBroker, isStreamingBroker, loadFeedCredentials } from './feedCredentials';
+import { TickData } from './kiteTickerProtocol';
+import {
+  OPENALGO_MODE_NAMES,
+  OPENALGO_TICK_MODES,
+  OpenAlgoErrorCode,
+  OpenAlgoInstrument,
+  OpenAlgoMode,
+  OpenAlgoSubscriptionResult,
+  feedSymbol,
+  openAlgoAuthSuccess,
+  openAlgoError,
+  openAlgoMarketData,
+  openAlgoSubscriptionResponse,
+  parseOpenAlgoMessage,
+} from './openalgoStreamProtocol';
+
+export interface OpenAlgoStreamServerOptions {
+  port: number;
+  host?: string;
+  trustProxy?: boolean;          // behind a reverse proxy: take the caller IP from its x-forwarded-for hop
+}
+
+export interface OpenAlgoStreamServer {
+  port: number;
+  clientCount: () => number;
+  close: () => Promise<void>;
+}
+
+interface ClientSession {
+  keyId: string;
+  userId: string;
+  broker: StreamingBroker;
+  lease: TickerLease;
+}
+
+interface ClientSubscription {
+  instrument: OpenAlgoInstrument;
+  token: number;
+  modes: Set<OpenAlgoMode>;
+}
+
+const ENDPOINT = 'websocket';
+
+// Clients that haven't authenticated by then are disconnected
+const AUTH_TIMEOUT_MS = 30000;
+
+let running: Promise<OpenAlgoStreamServer> | null = null;
+
+function instrumentKey(instrument: OpenAlgoInstrument): string {
+  return `${instrument.exchange}:${instrument.symbol}`;
+}
+
+/**
+ * Caller IP for the whitelist: the socket peer, since clients connect to this port directly
+ * and any client can send forwarding headers. Behind a trusted proxy, the last
+ * x-forwarded-for hop is the one that proxy appended, so it names the real caller
+ */
+function clientIp(request: http.IncomingMessage, trustProxy: boolean): string | null {
+  if (trustProxy) {
+    const forwarded = request.headers['x-forwarded-for'];
+    const last = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)?.split(',').pop()?.trim();
+    if (last) {
+      return last;
+    }
+  }
+  return request.socket.remoteAddress || null;
+}
+
+/**
+ * Serve one client connection until it closes
+ */
+function handleClient(socket: WebSocket, ip: string | null) {
+  let session: ClientSession | null = null;
+  let authenticating = false;
+  const subscriptions = new Map<string, ClientSubscription>();
+
+  const send = (message: object) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+  const sendError = (code: OpenAlgoErrorCode, message: string) => send(openAlgoError(code, message));
+
+  const authTimer = setTimeout(() => {
+    if (!session) {
+      sendError('NOT_AUTHENTICATED', 'Authentication timed out');
+      socket.close(1008, 'Authentication timed out');
+    }
+  }, AUTH_TIMEOUT_MS);
+
+  const tickHandler = (ticks: TickData[]) => {
+    const now = new Date();
+    for (const tick of ticks) {
+      for (const subscription of subscriptions.values()) {
+        if (subscription.token !== tick.instrument_token) continue;
+        subscription.modes.forEach((mode) => send(openAlgoMarketData(subscription.instrument, mode, tick, now)));
+      }
+    }
+  };
+
+  // The feed mode a token needs for everything this client has subscribed it in
+  const leaseMode = (token: number) => {
+    let richest: OpenAlgoMode | 0 = 0;
+    for (const subscription of subscriptions.values()) {
+      if (subscription.token !== token) continue;
+      subscription.modes.forEach((mode) => {
+        richest = Math.max(richest, mode) as OpenAlgoMode;
+      });
+    }
+    return richest === 0 ? null : OPENALGO_TICK_MODES[richest];
+  };
+
+  const resubscribe = (active: ClientSession, tokens: number[]) => {
+    const unused: number[] = [];
+    for (const token of new Set(tokens)) {
+      const mode = leaseMode(token);
+      if (mode) {
+        active.lease.subscribe([token], mode);
+      } else {
+        unused.push(token);
+      }
+    }
+    active.lease.unsubscribe(unused);
+  };
+
+  const authenticate = async (apiKey: string) => {
+    if (session) {
+      send(openAlgoAuthSuccess(session.broker));
+      return;
+    }
+    if (authenticating) {
+      sendError('AUTHENTICATION_ERROR', 'Authentication already in progress');
+      return;
+    }
+
+    authenticating = true;
+    try {
+      const key = await validateApiKey(apiKey);
+      if (!key) {
+        sendError('AUTHENTICATION_ERROR', 'Invalid or expired API key');
+        return;
+      }
+
+      if (!isIpAllowed(ip, key.ipWhitelist)) {
+        const message = `IP address ${ip || 'unknown'} is not allowed for this API key`;
+        await recordApiKeyRejection(key.keyId, { reason: 'ip_not_allowed', ip, endpoint: ENDPOINT, message });
+        sendError('AUTHENTICATION_ERROR', message);
+        socket.close(1008, 'IP address not allowed');
+        return;
+      }
+
+      // Same permission the v1 quotes, depth and history endpoints require
+      if (!key.permissions.viewmarketdata) {
+        sendError('PERMISSION_DENIED', "API key does not have 'viewmarketdata' permission");
+        socket.close(1008, 'Permission denied');
+        return;
+      }
+
+      if (!isStreamingBroker(key.broker)) {
+        sendError('BROKER_ERROR', `Market data streaming is not supported for ${key.broker}`);
+        return;
+      }
+
+      const loaded = await loadFeedCredentials(key.userId, key.broker);
+      if (!loaded.success) {
+        sendError('BROKER_ERROR', loaded.error);
+        return;
+      }
+
+      // The client may have gone away while we were looking up credentials
+      if (socket.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      const lease = acquireTickerConnection(key.userId, loaded.credentials);
+      lease.feed.on('ticks', tickHandler);
+      session = { keyId: key.keyId, userId: key.userId, broker: key.broker, lease };
+      clearTimeout(authTimer);
+      console.log(`[OPENALGO-WS] Client authenticated for ${key.userId} (${key.broker})`);
+      send(openAlgoAuthSuccess(key.broker));
+    } catch (error) {
+      console.error('[OPENALGO-WS] Authentication failed:', error);
+      sendError('AUTHENTICATION_ERROR', error instanceof Error ? error.message : 'Authentication failed');
+    } finally {
+      authenticating = false;
+    }
+  };
+
+  const subscribe = async (active: ClientSession, instruments: OpenAlgoInstrument[], mode: OpenAlgoMode) => {
+    const results: OpenAlgoSubscriptionResult[] = [];
+    const result = (instrument: OpenAlgoInstrument, message?: string): OpenAlgoSubscriptionResult => ({
+      ...instrument,
+      mode: OPENALGO_MODE_NAMES[mode],
+      status: message ? 'error' : 'success',
+      ...(message && { message }),
+    });
+
+    // Look up instruments not already streaming for this client
+    const pending = new Map<string, OpenAlgoInstrument>();
+    for (const instrument of instruments) {
+      if (subscriptions.has(instrumentKey(instrument))) continue;
+      const symbol = feedSymbol(active.broker, instrument);
+      if (symbol) {
+        pending.set(symbol, instrument);
+      }
+    }
+    const resolved = pending.size > 0 ? await active.lease.feed.resolveSymbols(Array.from(pending.keys())) : new Map();
+    for (const [symbol, token] of resolved) {
+      const instrument = pending.get(symbol)!;
+      subscriptions.set(instrumentKey(instrument), { instrument, token, modes: new Set() });
+    }
+
+    const added: ClientSubscription[] = [];
+    for (const instrument of instruments) {
+      const subscription = subscriptions.get(instrumentKey(instrument));
+      if (!subscription) {
+        const reason = feedSymbol(active.broker, instrument)
+          ? `Symbol not found on ${active.broker}`
+          : `Unsupported exchange: ${instrument.exchange}`;
+        results.push(result(instrument, reason));
+        continue;
+      }
+      if (!subscription.modes.has(mode)) {
+        subscription.modes.add(mode);
+        added.push(subscription);
+      }
+    }
+
+    // Subscribe in the richest mode per token; tokens over the instrument limit are rolled back
+    const rejected = new Set<number>();
+    for (const subscription of added) {
+      active.lease.subscribe([subscription.token], leaseMode(subscription.token)!).forEach((token) => rejected.add(token));
+    }
+    for (const subscription of added) {
+      if (!rejected.has(subscription.token)) continue;
+      subscription.modes.delete(mode);
+      if (subscription.modes.size === 0) {
+        subscriptions.delete(instrumentKey(subscription.instrument));
+      }
+    }
+
+    for (const instrument of instruments) {
+      if (results.some((entry) => instrumentKey(entry) === instrumentKey(instrument))) continue;
+      const subscription = subscriptions.get(instrumentKey(instrument));
+      results.push(
+        subscription?.modes.has(mode)
+          ? result(instrument)
+          : result(instrument, 'Instrument limit reached for this broker connection')
+      );
+    }
+    send(openAlgoSubscriptionResponse('subscribe', results));
+  };
+
+  const unsubscribe = (active: ClientSession, instruments: OpenAlgoInstrument[], mode: OpenAlgoMode | null) => {
+    const results: OpenAlgoSubscriptionResult[] = [];
+    const touched: number[] = [];
+    for (const instrument of instruments) {
+      const key = instrumentKey(instrument);
+      const subscription = subscriptions.get(key);
+      const modeName = mode ? OPENALGO_MODE_NAMES[mode] : 'All';
+      if (!subscription || (mode && !subscription.modes.has(mode))) {
+        results.push({ ...instrument, mode: modeName, status: 'error', message: 'Not subscribed' });
+        continue;
+      }
+
+      if (mode) {
+        subscription.modes.delete(mode);
+      } else {
+        subscription.modes.clear();
+      }
+      if (subscription.modes.size === 0) {
+        subscriptions.delete(key);
+      }
+      touched.push(subscription.token);
+      results.push({ ...instrument, mode: modeName, status: 'success' });
+    }
+
+    resubscribe(active, touched);
+    send(openAlgoSubscriptionResponse('unsubscribe', results));
+  };
+
+  const unsubscribeAll = (active: ClientSession) => {
+    const results: OpenAlgoSubscriptionResult[] = Array.from(subscriptions.values()).map(({ instrument }) => ({
+      ...instrument,
+      mode: 'All',
+      status: 'success',
+    }));
+    const tokens = Array.from(subscriptions.values()).map((subscription) => subscription.token);
+    subscriptions.clear();
+    active.lease.unsubscribe(Array.from(new Set(tokens)));
+    send(openAlgoSubscriptionResponse('unsubscribe', results));
+  };
+
+  socket.on('message', async (data: Buffer, isBinary: boolean) => {
+    if (isBinary) {
+      sendError('INVALID_JSON', 'Binary messages are not supported');
+      return;
+    }
+
+    const message = parseOpenAlgoMessage(data.toString());
+    if (message.action === 'invalid') {
+      sendError(message.code, message.message);
+      return;
+    }
+    if (message.action === 'ping') {
+      send({ type: 'pong', timestamp: Date.now() });
+      return;
+    }
+    if (message.action === 'authenticate') {
+      await authenticate(message.apiKey);
+      return;
+    }
+
+    if (!session) {
+      sendError('NOT_AUTHENTICATED', 'You must authenticate first');
+      return;
+    }
+
+    try {
+      if (message.action === 'subscribe') {
+        await subscribe(session, message.instruments, message.mode);
+      } else if (message.action === 'unsubscribe') {
+        unsubscribe(session, message.instruments, message.mode);
+      } else {
+        unsubscribeAll(session);
+      }
+    } catch (error) {
+      console.error('[OPENALGO-WS] Subscription update failed:', error);
+      sendError('BROKER_ERROR', error instanceof Error ? error.message : 'Subscription update failed');
+    }
+  });
+
+  socket.on('close', () => {
+    clearTimeout(authTimer);
+    if (session) {
+      console.log(`[OPENALGO-WS] Client disconnected for ${session.userId}`);
+      session.lease.feed.off('ticks', tickHandler);
+      session.lease.release();
+      session = null;
+    }
+    subscriptions.clear();
+  });
+
+  socket.on('error', (error) => {
+    console.error('[OPENALGO-WS] Client socket error:', error.message);
+  });
+}
+
+/**
+ * Start the market data server (once per process; later calls return the running server)
+ */
+export function startOpenAlgoStreamServer(options: OpenAlgoStreamServerOptions): Promise<OpenAlgoStreamServer> {
+  if (running) {
+    return running;
+  }
+
+  running = new Promise((resolve, reject) => {
+    const server = http.createServer((_request, response) => {
+      response.writeHead(426, { 'Content-Type': 'text/plain' });
+      response.end('WebSocket connections only');
+    });
+    const wss = new WebSocketServer({ server });
+
+    wss.on('connection', (socket: WebSocket, request: http.IncomingMessage) =>
+      handleClient(socket, clientIp(request, options.trustProxy === true))
+    );
+
+    server.once('error', (error) => {
+      running = null;
+      reject(error);
+    });
+    server.listen(options.port, options.host, () => {
+      const { port } = server.address() as AddressInfo;
+      console.log(`[OPENALGO-WS] Market data server listening on port ${port}`);
+      resolve({
+        port,
+        clientCount: () => wss.clients.size,
+        close: () =>
+          new Promise<void>((done) => {
+            wss.clients.forEach((client) => client.close(1001, 'Server shutting down'));
+            wss.close();
+            server.close(() => done());
+            running = null;
+          }),
+      });
+    });
+  });
+  return running;
+}
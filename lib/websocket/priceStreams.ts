@@ -0,0 +1,47 @@
+/**
+ * Price Stream Sessions
+ * Open /api/stream/prices connections, so a client can change the symbols on its
+ * stream (POST /api/stream/prices/subscriptions) instead of reconnecting
+ *
+ * Sessions live in memory: an update only reaches a stream on the same server instance
+ */
+
+import { randomUUID } from 'crypto';
+import { TickMode } from './kiteTickerProtocol';
+
+export interface PriceStreamUpdate {
+  add: string[];
+  remove: string[];
+  mode?: TickMode;
+}
+
+export interface PriceStreamUpdateResult {
+  symbols: string[];
+  rejected: string[];
+}
+
+export interface PriceStreamSession {
+  userId: string;
+  broker: string;
+  update: (changes: PriceStreamUpdate) => Promise<PriceStreamUpdateResult>;
+}
+
+// streamId -> session
+const sessions = new Map<string, PriceStreamSession>();
+
+/**
+ * Register an open stream; the returned id is sent to the client in the 'connected' message
+ */
+export function registerPriceStream(session: PriceStreamSession): string {
+  const streamId = randomUUID();
+  sessions.set(streamId, session);
+  return streamId;
+}
+
+export function unregisterPriceStream(streamId: string): void {
+  sessions.delete(streamId);
+}
+
+export function getPriceStream(streamId: string): PriceStreamSession | undefined {
+  return sessions.get(streamId);
+}
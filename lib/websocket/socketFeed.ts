@@ -0,0 +1,460 @@
+/**
+ * Streaming Market Data Feed
+ * Connection lifecycle shared by the broker feeds (Kite ticker, Fyers data socket,
+ * Angel SmartStream): reconnect with backoff, read timeout, health, instrument limit,
+ * subscription replay and last traded prices
+ *
+ * A socket that drops while every market is closed waits until shortly before the next
+ * session opens (lib/tradingCalendar.ts) instead of retrying through the night
+ *
+ * Every feed emits the same events, whatever the broker:
+ * - 'ticks' (TickData[]) and `tick:${instrument_token}` (TickData)
+ * - 'connected', 'disconnected', 'closed', 'reconnecting', 'no_reconnect', 'error'
+ *
+ * Subclasses supply the socket, the wire protocol and symbol -> instrument token lookup
+ */
+
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import { TickData, TickMode, partitionByCapacity, reconnectDelayMs } from './kiteTickerProtocol';
+import { resolveContinuousSymbol } from '../continuousFutures';
+import { isMarketOpen, nextSessionOpen } from '../tradingCalendar';
+
+export type FeedConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'closed';
+
+export interface FeedHealth {
+  state: FeedConnectionState;
+  connected: boolean;
+  subscribedInstruments: number;
+  maxInstruments: number;
+  connectedAt: string | null;
+  lastMessageAt: string | null;
+  lastTickAt: string | null;
+  reconnectAttempts: number;
+  lastError: string | null;
+}
+
+export interface SocketFeedOptions {
+  name: string;                  // log prefix, e.g. 'TICKER'
+  maxInstruments: number;
+  readTimeoutMs: number;         // silence this long means the socket is dead
+  heartbeatIntervalMs?: number;  // for brokers that expect the client to ping
+}
+
+const MAX_RECONNECT_ATTEMPTS = 50;
+
+// Calendars the feeds stream (BSE/BFO/BCD sessions match NSE/NFO/CDS)
+const FEED_EXCHANGES = ['NSE', 'NFO', 'CDS', 'MCX'];
+
+// Reconnect this long before the next session (pre-open included) opens
+const RECONNECT_BEFORE_OPEN_MS = 5 * 60 * 1000;
+
+/**
+ * How long to wait before reconnecting while every market is closed, or null to retry now
+ */
+function marketsClosedDelayMs(now: number = Date.now()): number | null {
+  const seconds = Math.floor(now / 1000);
+  if (FEED_EXCHANGES.some((exchange) => isMarketOpen(exchange, seconds, { preOpen: true }))) {
+    return null;
+  }
+  const opens = FEED_EXCHANGES.map((exchange) => nextSessionOpen(exchange, seconds, { preOpen: true })?.open).filter(
+    (open): open is number => open !== undefined
+  );
+  if (opens.length === 0) return null;
+  const delay = Math.min(...opens) * 1000 - RECONNECT_BEFORE_OPEN_MS - now;
+  return delay > 0 ? delay : null;
+}
+
+export abstract class SocketFeed extends EventEmitter {
+  protected socket: WebSocket | null;
+  protected subscribedTokens: Map<number, TickMode>;
+  protected state: FeedConnectionState;
+  protected readonly name: string;
+  readonly maxInstruments: number;
+  private readonly readTimeoutMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private lastPrices: Map<number, number>;
+  private reconnectAttempts: number;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null;
+  private readTimer: ReturnType<typeof setInterval> | null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null;
+  private authRejected: boolean;
+  private connectedAt: Date | null;
+  private lastMessageAt: Date | null;
+  private lastTickAt: Date | null;
+  private lastError: string | null;
+
+  constructor(options: SocketFeedOptions) {
+    super();
+    this.socket = null;
+    this.subscribedTokens = new Map();
+    this.state = 'idle';
+    this.name = options.name;
+    this.maxInstruments = options.maxInstruments;
+    this.readTimeoutMs = options.readTimeoutMs;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 0;
+    this.lastPrices = new Map();
+    this.reconnectAttempts = 0;
+    this.reconnectTimer = null;
+    this.readTimer = null;
+    this.heartbeatTimer = null;
+    this.authRejected = false;
+    this.connectedAt = null;
+    this.lastMessageAt = null;
+    this.lastTickAt = null;
+    this.lastError = null;
+  }
+
+  /**
+   * Map trading symbols to this broker's instrument tokens
+   * Continuous futures (NIFTY-I) resolve to today's contract, keyed by the symbol as given
+   * Symbols that can't be resolved are left out of the result
+   */
+  async resolveSymbols(symbols: string[]): Promise<Map<string, number>> {
+    const contracts = new Map(symbols.map((symbol) => [symbol, resolveContinuousSymbol(symbol)]));
+    const tokens = await this.lookupTokens(Array.from(new Set(contracts.values())));
+
+    const resolved = new Map<string, number>();
+    for (const [symbol, contract] of contracts) {
+      const token = tokens.get(contract);
+      if (token !== undefined) {
+        resolved.set(symbol, token);
+      }
+    }
+    return resolved;
+  }
+
+  /** This broker's instrument tokens for trading symbols, leaving out unknown ones */
+  protected abstract lookupTokens(symbols: string[]): Promise<Map<string, number>>;
+
+  /** Whether credentials have been set */
+  protected abstract hasCredentials(): boolean;
+
+  /** Open the broker socket (URL and handshake headers) */
+  protected abstract openSocket(): WebSocket;
+
+  /** A message from the current socket */
+  protected abstract handleMessage(data: Buffer, isBinary: boolean): void;
+
+  protected abstract sendSubscribe(tokens: number[], mode: TickMode): void;
+
+  protected abstract sendUnsubscribe(tokens: number[]): void;
+
+  /**
+   * Socket opened; feeds that authenticate in-band override this and call markReady() once accepted
+   */
+  protected handleOpen(): void {
+    this.markReady();
+  }
+
+  /** Client keep-alive, sent every heartbeatIntervalMs while connected */
+  protected sendHeartbeat(): void {}
+
+  /** Error shown when the broker rejects the handshake (401/403) */
+  protected describeAuthRejection(): string {
+    return 'Broker rejected the access token; log in again';
+  }
+
+  /**
+   * Connect to the broker
+   * No-op while connected, connecting or waiting to reconnect
+   */
+  connect() {
+    if (!this.hasCredentials()) {
+      throw new Error('Feed not initialized. Call initialize() first.');
+    }
+
+    if (this.socket || this.reconnectTimer) {
+      return;
+    }
+
+    // Explicit retry after giving up
+    if (this.state === 'failed') {
+      this.reconnectAttempts = 0;
+      this.authRejected = false;
+    }
+
+    const socket = this.openSocket();
+    this.socket = socket;
+    this.state = this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting';
+
+    // Events from a socket we've since replaced or closed are ignored
+    socket.on('open', () => {
+      if (this.socket !== socket) return;
+      this.lastMessageAt = new Date();
+      this.startTimers(socket);
+      this.handleOpen();
+    });
+
+    socket.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+      if (this.socket !== socket) return;
+      this.lastMessageAt = new Date();
+      const buffer = Array.isArray(data) ? Buffer.concat(data) : Buffer.isBuffer(data) ? data : Buffer.from(data);
+      this.handleMessage(buffer, isBinary);
+    });
+
+    socket.on('pong', () => {
+      if (this.socket !== socket) return;
+      this.lastMessageAt = new Date();
+    });
+
+    socket.on('error', (error: Error) => {
+      if (this.socket !== socket) return;
+      // Handshake failures surface as "Unexpected server response: <status>"
+      if (/Unexpected server response: 40[13]/.test(error.message)) {
+        this.authRejected = true;
+        this.recordError(this.describeAuthRejection());
+      } else {
+        this.recordError(error.message);
+      }
+    });
+
+    socket.on('close', (code: number, reason: Buffer) => {
+      if (this.socket !== socket) return;
+      const wasConnected = this.state === 'connected';
+      this.socket = null;
+      this.stopTimers();
+
+      console.log(`[${this.name}] WebSocket closed:`, code, reason.toString());
+      this.emit('closed', { code, reason: reason.toString() });
+      if (wasConnected) {
+        this.emit('disconnected', { code, reason: reason.toString() });
+      }
+
+      if (this.authRejected) {
+        this.state = 'failed';
+        this.emit('no_reconnect');
+        return;
+      }
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * Disconnect from the broker and stop reconnecting
+   */
+  disconnect() {
+    this.closeSocket();
+    this.state = 'closed';
+  }
+
+  /**
+   * Subscribe to instrument tokens (or switch already subscribed tokens to this mode)
+   * Returns the tokens that were not subscribed because the connection is at its instrument limit
+   * Callers sharing a connection should go through their lease, which reference-counts tokens
+   */
+  subscribe(tokens: number[], mode: TickMode = 'full'): number[] {
+    const current = new Set(this.subscribedTokens.keys());
+    const { accepted, rejected } = partitionByCapacity(current, tokens, this.maxInstruments);
+    const changed = accepted.filter((token) => this.subscribedTokens.get(token) !== mode);
+    changed.forEach((token) => this.subscribedTokens.set(token, mode));
+
+    if (changed.length > 0 && this.state === 'connected') {
+      this.sendSubscribe(changed, mode);
+    }
+
+    if (rejected.length > 0) {
+      console.warn(`[${this.name}] Instrument limit (${this.maxInstruments}) reached, skipped ${rejected.length} tokens`);
+    }
+    return rejected;
+  }
+
+  /**
+   * Unsubscribe from instrument tokens
+   */
+  unsubscribe(tokens: number[]) {
+    const removed = tokens.filter((token) => this.subscribedTokens.delete(token));
+
+    if (removed.length > 0 && this.state === 'connected') {
+      this.sendUnsubscribe(removed);
+    }
+  }
+
+  /**
+   * Get connection status
+   */
+  getConnectionStatus(): boolean {
+    return this.state === 'connected';
+  }
+
+  /**
+   * Connection health snapshot
+   */
+  getHealth(): FeedHealth {
+    return {
+      state: this.state,
+      connected: this.state === 'connected',
+      subscribedInstruments: this.subscribedTokens.size,
+      maxInstruments: this.maxInstruments,
+      connectedAt: this.connectedAt?.toISOString() ?? null,
+      lastMessageAt: this.lastMessageAt?.toISOString() ?? null,
+      lastTickAt: this.lastTickAt?.toISOString() ?? null,
+      reconnectAttempts: this.reconnectAttempts,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Get the last traded price seen for an instrument, if it has ticked since connecting
+   */
+  getLastPrice(token: number): number | undefined {
+    return this.lastPrices.get(token);
+  }
+
+  /**
+   * Get subscribed tokens
+   */
+  getSubscribedTokens(): number[] {
+    return Array.from(this.subscribedTokens.keys());
+  }
+
+  /**
+   * The broker accepted the connection: replay subscriptions and report connected
+   */
+  protected markReady() {
+    console.log(`[${this.name}] WebSocket connected`);
+    this.state = 'connected';
+    this.reconnectAttempts = 0;
+    this.connectedAt = new Date();
+    this.lastError = null;
+
+    // Resubscribe to previously subscribed tokens
+    for (const mode of ['ltp', 'quote', 'full'] as TickMode[]) {
+      const tokens = this.getSubscribedTokens().filter((token) => this.subscribedTokens.get(token) === mode);
+      if (tokens.length > 0) {
+        this.sendSubscribe(tokens, mode);
+      }
+    }
+
+    this.emit('connected');
+  }
+
+  /**
+   * The broker rejected the credentials in-band: close without reconnecting
+   */
+  protected rejectCredentials(message: string) {
+    this.authRejected = true;
+    this.recordError(message);
+    this.socket?.close();
+  }
+
+  protected emitTicks(ticks: TickData[]) {
+    if (ticks.length === 0) {
+      return;
+    }
+
+    this.lastTickAt = new Date();
+    this.emit('ticks', ticks);
+
+    // Emit individual tick events for each instrument
+    ticks.forEach((tick) => {
+      this.lastPrices.set(tick.instrument_token, tick.last_price);
+      this.emit(`tick:${tick.instrument_token}`, tick);
+    });
+  }
+
+  protected recordError(message: string) {
+    console.error(`[${this.name}] WebSocket error:`, message);
+    this.lastError = message;
+    // EventEmitter throws on unhandled 'error' events
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', new Error(message));
+    }
+  }
+
+  /**
+   * Drop the current socket (and any pending reconnect) without scheduling a new one
+   */
+  protected closeSocket() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopTimers();
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      const wasConnected = this.state === 'connected';
+      socket.removeAllListeners();
+      socket.on('error', () => {}); // a close during the handshake still errors
+      socket.terminate();
+      if (wasConnected) {
+        this.emit('disconnected', { code: 1000, reason: 'closed by client' });
+      }
+    }
+  }
+
+  /**
+   * Reconnect straight away, e.g. after the credentials changed
+   */
+  protected restart() {
+    const wasActive = this.socket !== null || this.reconnectTimer !== null;
+    this.authRejected = false;
+    if (wasActive) {
+      console.log(`[${this.name}] Credentials changed, reconnecting`);
+      this.closeSocket();
+      this.reconnectAttempts = 0;
+      this.connect();
+    }
+  }
+
+  private scheduleReconnect() {
+    const closedDelay = marketsClosedDelayMs();
+    if (closedDelay !== null) {
+      this.reconnectAttempts = 0;
+      this.state = 'reconnecting';
+      console.log(`[${this.name}] Markets closed, reconnecting in ${Math.round(closedDelay / 60000)} minutes`);
+      this.emit('reconnecting', { reconnect_count: 0, reconnect_interval: closedDelay });
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, closedDelay);
+      return;
+    }
+
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      console.log(`[${this.name}] No more reconnection attempts`);
+      this.state = 'failed';
+      this.emit('no_reconnect');
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = reconnectDelayMs(this.reconnectAttempts);
+    this.state = 'reconnecting';
+    console.log(`[${this.name}] Reconnecting... (attempt ${this.reconnectAttempts}, interval ${delay}ms)`);
+    this.emit('reconnecting', { reconnect_count: this.reconnectAttempts, reconnect_interval: delay });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private startTimers(socket: WebSocket) {
+    this.stopTimers();
+    this.readTimer = setInterval(() => {
+      const silentFor = Date.now() - (this.lastMessageAt?.getTime() ?? 0);
+      if (silentFor >= this.readTimeoutMs) {
+        this.lastError = `No data from ${this.name.toLowerCase()} for ${Math.round(silentFor / 1000)}s`;
+        socket.terminate(); // close handler reconnects
+      }
+    }, this.readTimeoutMs);
+
+    if (this.heartbeatIntervalMs > 0) {
+      this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), this.heartbeatIntervalMs);
+    }
+  }
+
+  private stopTimers() {
+    if (this.readTimer) {
+      clearInterval(this.readTimer);
+      this.readTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
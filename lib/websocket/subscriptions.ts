@@ -0,0 +1,155 @@
+/**
+ * Reference-counted instrument subscriptions for one ticker connection
+ *
+ * Every consumer (a price stream, a chart) subscribes tokens in its own mode
+ * The broker is subscribed in the richest mode any consumer wants, and a token is only
+ * unsubscribed at the broker when its last consumer leaves
+ */
+
+import { KITE_MAX_INSTRUMENTS_PER_CONNECTION, TickData, TickMode, partitionByCapacity } from './kiteTickerProtocol';
+
+// token -> subscriber id -> requested mode
+export type SubscriptionTable = Map<number, Map<string, TickMode>>;
+
+/** Broker-side operations needed after a change to the table */
+export interface SubscriptionChanges {
+  modes: Array<{ mode: TickMode; tokens: number[] }>;  // subscribe (or switch) tokens in this mode
+  unsubscribe: number[];                               // no consumers left
+  rejected: number[];                                  // over the connection's instrument limit
+}
+
+export interface StreamTickData {
+  instrument_token: number;
+  last_price: number;
+  change?: number;
+  volume?: number;
+  ohlc?: TickData['ohlc'];
+  depth?: TickData['depth'];
+  oi?: number;
+  last_trade_time?: string | null;
+  timestamp: string;
+}
+
+const MODE_RANK: Record<TickMode, number> = { ltp: 0, quote: 1, full: 2 };
+
+export const TICK_MODES: TickMode[] = ['ltp', 'quote', 'full'];
+
+export function isTickMode(value: unknown): value is TickMode {
+  return typeof value === 'string' && (TICK_MODES as string[]).includes(value);
+}
+
+/**
+ * The mode the broker must stream a token in to satisfy all of its subscribers
+ */
+export function effectiveMode(subscribers: Map<string, TickMode>): TickMode {
+  let mode: TickMode = 'ltp';
+  for (const requested of subscribers.values()) {
+    if (MODE_RANK[requested] > MODE_RANK[mode]) {
+      mode = requested;
+    }
+  }
+  return mode;
+}
+
+function groupByMode(changed: Map<number, TickMode>): SubscriptionChanges['modes'] {
+  const groups = new Map<TickMode, number[]>();
+  for (const [token, mode] of changed) {
+    groups.set(mode, [...(groups.get(mode) || []), token]);
+  }
+  return TICK_MODES.filter((mode) => groups.has(mode)).map((mode) => ({ mode, tokens: groups.get(mode)! }));
+}
+
+/**
+ * Subscribe tokens for one subscriber (re-subscribing a token changes its mode)
+ */
+export function addSubscriptions(
+  table: SubscriptionTable,
+  subscriberId: string,
+  tokens: number[],
+  mode: TickMode,
+  limit: number = KITE_MAX_INSTRUMENTS_PER_CONNECTION
+): SubscriptionChanges {
+  const { accepted, rejected } = partitionByCapacity(new Set(table.keys()), tokens, limit);
+  const changed = new Map<number, TickMode>();
+
+  for (const token of accepted) {
+    const subscribers = table.get(token) ?? new Map<string, TickMode>();
+    const before = subscribers.size > 0 ? effectiveMode(subscribers) : null;
+    subscribers.set(subscriberId, mode);
+    table.set(token, subscribers);
+
+    const after = effectiveMode(subscribers);
+    if (after !== before) {
+      changed.set(token, after);
+    }
+  }
+
+  return { modes: groupByMode(changed), unsubscribe: [], rejected };
+}
+
+/**
+ * Drop tokens for one subscriber; omit tokens to drop everything it subscribed
+ * Tokens other subscribers still want stay subscribed (possibly in a lower mode)
+ */
+export function removeSubscriptions(
+  table: SubscriptionTable,
+  subscriberId: string,
+  tokens: number[] = subscribedTokens(table, subscriberId)
+): SubscriptionChanges {
+  const changed = new Map<number, TickMode>();
+  const unsubscribe: number[] = [];
+
+  for (const token of new Set(tokens)) {
+    const subscribers = table.get(token);
+    if (!subscribers?.has(subscriberId)) continue;
+
+    const before = effectiveMode(subscribers);
+    subscribers.delete(subscriberId);
+    if (subscribers.size === 0) {
+      table.delete(token);
+      unsubscribe.push(token);
+      continue;
+    }
+
+    const after = effectiveMode(subscribers);
+    if (after !== before) {
+      changed.set(token, after);
+    }
+  }
+
+  return { modes: groupByMode(changed), unsubscribe, rejected: [] };
+}
+
+/**
+ * Tokens a subscriber currently holds
+ */
+export function subscribedTokens(table: SubscriptionTable, subscriberId: string): number[] {
+  return Array.from(table.entries())
+    .filter(([, subscribers]) => subscribers.has(subscriberId))
+    .map(([token]) => token);
+}
+
+/**
+ * Shape a tick for a subscriber, dropping fields beyond the mode it asked for
+ * (the broker may be streaming the token in a richer mode for someone else)
+ */
+export function tickForMode(tick: TickData, mode: TickMode, now: Date = new Date()): StreamTickData {
+  const data: StreamTickData = {
+    instrument_token: tick.instrument_token,
+    last_price: tick.last_price,
+    timestamp: now.toISOString(),
+  };
+  if (mode === 'ltp') {
+    return data;
+  }
+
+  data.change = tick.change;
+  data.volume = tick.volume_traded;
+  data.ohlc = tick.ohlc;
+  if (mode === 'full') {
+    data.depth = tick.depth;
+    data.oi = tick.oi;
+    data.last_trade_time = tick.last_trade_time?.toISOString() ?? null;
+  }
+  return data;
+}
@@ -0,0 +1,201 @@
+/**
+ * Ticker Connection Manager
+ * One market data connection per broker account (Kite ticker, Fyers data socket,
+ * Angel SmartStream), shared by everything streaming for that user
+ * (price streams, order update watchers)
+ *
+ * Callers acquire a lease and subscribe instruments through it; subscriptions are
+ * reference-counted across leases, and released with the lease
+ * A connection is torn down IDLE_TIMEOUT_MS after its last lease is released,
+ * so page reloads don't reconnect
+ * Connections live in memory, so they are per server instance
+ */
+
+import TickerService, { TickMode } from './tickerService';
+import FyersDataSocket from './fyersDataSocket';
+import AngelSmartStream from './angelSmartStream';
+import { FeedHealth, SocketFeed } from './socketFeed';
+import { FeedCredentials, StreamingBroker } from './feedCredentials';
+import { SubscriptionChanges, SubscriptionTable, addSubscriptions, removeSubscriptions } from './subscriptions';
+
+const IDLE_TIMEOUT_MS = 30000;
+
+export interface TickerLease {
+  feed: SocketFeed;
+  /** Returns the tokens rejected by the connection's instrument limit */
+  subscribe: (tokens: number[], mode: TickMode) => number[];
+  unsubscribe: (tokens: number[]) => void;
+  release: () => void;
+}
+
+export interface TickerConnectionHealth extends FeedHealth {
+  broker: string;
+  consumers: number;
+  createdAt: string;
+}
+
+interface ManagedConnection {
+  broker: StreamingBroker;
+  userId: string;
+  feed: SocketFeed;
+  subscriptions: SubscriptionTable;
+  leases: number;
+  nextLeaseId: number;
+  createdAt: Date;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// `${broker}:${userId}` -> connection
+const connections = new Map<string, ManagedConnection>();
+
+function connectionKey(broker: string, userId: string): string {
+  return `${broker}:${userId}`;
+}
+
+function createFeed(broker: StreamingBroker): SocketFeed {
+  if (broker === 'fyers') return new FyersDataSocket();
+  if (broker === 'angel') return new AngelSmartStream();
+  return new TickerService();
+}
+
+/**
+ * Hand credentials to the feed (a no-op when unchanged, a reconnect when refreshed)
+ */
+function initializeFeed(feed: SocketFeed, credentials: FeedCredentials): void {
+  if (credentials.broker === 'zerodha' && feed instanceof TickerService) {
+    feed.initialize(credentials.apiKey, credentials.accessToken);
+  } else if (credentials.broker === 'fyers' && feed instanceof FyersDataSocket) {
+    feed.initialize(credentials.appId, credentials.accessToken);
+  } else if (credentials.broker === 'angel' && feed instanceof AngelSmartStream) {
+    feed.initialize(credentials);
+  }
+}
+
+function hasAllCredentials(credentials: FeedCredentials): boolean {
+  if (credentials.broker === 'zerodha') return !!credentials.apiKey && !!credentials.accessToken;
+  if (credentials.broker === 'fyers') return !!credentials.appId && !!credentials.accessToken;
+  return !!credentials.jwtToken && !!credentials.apiKey && !!credentials.clientCode && !!credentials.feedToken;
+}
+
+function applyChanges(feed: SocketFeed, changes: SubscriptionChanges): void {
+  for (const { mode, tokens } of changes.modes) {
+    feed.subscribe(tokens, mode);
+  }
+  if (changes.unsubscribe.length > 0) {
+    feed.unsubscribe(changes.unsubscribe);
+  }
+}
+
+function teardown(key: string, connection: ManagedConnection): void {
+  connection.feed.disconnect();
+  connection.feed.removeAllListeners();
+  connections.delete(key);
+  console.log(`[TICKER-MANAGER] Closed ${connection.broker} feed for ${connection.userId}`);
+}
+
+/**
+ * Get a lease on the user's market data connection for a broker, creating and connecting it if needed
+ * Refreshed credentials reconnect the existing connection
+ */
+export function acquireTickerConnection(userId: string, credentials: FeedCredentials): TickerLease {
+  const broker = credentials.broker;
+  if (!hasAllCredentials(credentials)) {
+    throw new Error(`Missing ${broker} streaming credentials`);
+  }
+
+  const key = connectionKey(broker, userId);
+  let connection = connections.get(key);
+
+  if (!connection) {
+    connection = {
+      broker,
+      userId,
+      feed: createFeed(broker),
+      subscriptions: new Map(),
+      leases: 0,
+      nextLeaseId: 1,
+      createdAt: new Date(),
+      idleTimer: null,
+    };
+    connections.set(key, connection);
+    console.log(`[TICKER-MANAGER] Opening ${broker} feed for ${userId}`);
+  }
+
+  if (connection.idleTimer) {
+    clearTimeout(connection.idleTimer);
+    connection.idleTimer = null;
+  }
+
+  connection.leases++;
+  initializeFeed(connection.feed, credentials);
+  connection.feed.connect();
+
+  const managed = connection;
+  const leaseId = `lease-${managed.nextLeaseId++}`;
+  let released = false;
+  return {
+    feed: managed.feed,
+    subscribe: (tokens, mode) => {
+      if (released) return tokens;
+      const changes = addSubscriptions(managed.subscriptions, leaseId, tokens, mode, managed.feed.maxInstruments);
+      applyChanges(managed.feed, changes);
+      return changes.rejected;
+    },
+    unsubscribe: (tokens) => {
+      if (released) return;
+      applyChanges(managed.feed, removeSubscriptions(managed.subscriptions, leaseId, tokens));
+    },
+    release: () => {
+      if (released) return;
+      released = true;
+      applyChanges(managed.feed, removeSubscriptions(managed.subscriptions, leaseId));
+      managed.leases = Math.max(0, managed.leases - 1);
+      if (managed.leases === 0 && connections.get(key) === managed) {
+        managed.idleTimer = setTimeout(() => teardown(key, managed), IDLE_TIMEOUT_MS);
+      }
+    },
+  };
+}
+
+/**
+ * Health of the user's market data connections (empty when nothing is streaming)
+ */
+export function getTickerConnectionHealth(userId: string): TickerConnectionHealth[] {
+  return Array.from(connections.values())
+    .filter((connection) => connection.userId === userId)
+    .map((connection) => ({
+      broker: connection.broker,
+      consumers: connection.leases,
+      createdAt: connection.createdAt.toISOString(),
+      ...connection.feed.getHealth(),
+    }));
+}
+
+/**
+ * Instance-wide totals, without any per-account detail
+ */
+export function getTickerConnectionStats(): { connections: number; connected: number; subscribedInstruments: number } {
+  let connected = 0;
+  let subscribedInstruments = 0;
+  for (const connection of connections.values()) {
+    const health = connection.feed.getHealth();
+    if (health.connected) connected++;
+    subscribedInstruments += health.subscribedInstruments;
+  }
+  return { connections: connections.size, connected, subscribedInstruments };
+}
+
+/**
+ * Last traded price for a Kite instrument from any open Zerodha connection
+ * Market data is the same on every account, so any streaming connection will do
+ */
+export function getStreamedLastPrice(token: number): number | undefined {
+  for (const connection of connections.values()) {
+    if (connection.broker !== 'zerodha') continue;
+    const price = connection.feed.getLastPrice(token);
+    if (price !== undefined) {
+      return price;
+    }
+  }
+  return undefined;
+}
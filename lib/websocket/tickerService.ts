@@ -1,29 +1,26 @@
 /**
  * Zerodha KiteTicker WebSocket Service
- * Manages real-time market data streaming
+ * Manages one real-time market data connection for a single Kite account
+ *
+ * Talks to the Kite ticker directly over `ws` instead of the SDK's KiteTicker, which keeps its
+ * socket and listeners in module scope (every instance would share one connection)
+ * Use the ticker connection manager to get the connection for a user
  */
 
-import { KiteTicker } from 'kiteconnect';
-import { EventEmitter } from 'events';
-
-export interface TickData {
-  instrument_token: number;
-  timestamp: Date;
-  last_price: number;
-  last_traded_quantity: number;
-  average_traded_price: number;
-  volume_traded: number;
-  total_buy_quantity: number;
-  total_sell_quantity: number;
-  ohlc: {
-    open: number;
-    high: number;
-    low: number;
-    close: number;
-  };
-  change: number;
-  last_trade_time: Date;
-}
+import WebSocket from 'ws';
+import {
+  KITE_MAX_INSTRUMENTS_PER_CONNECTION,
+  TickMode,
+  kiteModeMessage,
+  kiteSubscribeMessage,
+  kiteUnsubscribeMessage,
+  parseKiteBinary,
+  parseKiteTextMessage,
+} from './kiteTickerProtocol';
+import { SocketFeed } from './socketFeed';
+import { findInstrument, loadInstruments } from '../instrumentMaster';
+
+export type { TickData, TickMode, DepthLevel } from './kiteTickerProtocol';
 
 export interface OrderUpdate {
   order_id: string;
@@ -42,198 +39,89 @@ export interface OrderUpdate {
   exchange_timestamp: Date;
 }
 
-class TickerService extends EventEmitter {
-  private ticker: any;
-  private subscribedTokens: Set<number>;
-  private isConnected: boolean;
+const KITE_TICKER_URL = 'wss://ws.kite.trade/';
+// Kite sends a heartbeat every second; silence this long means the socket is dead
+const READ_TIMEOUT_MS = 5000;
+
+class TickerService extends SocketFeed {
   private apiKey: string;
   private accessToken: string;
 
-  constructor() {
-    super();
-    this.subscribedTokens = new Set();
-    this.isConnected = false;
+  constructor(maxInstruments: number = KITE_MAX_INSTRUMENTS_PER_CONNECTION) {
+    super({ name: 'TICKER', maxInstruments, readTimeoutMs: READ_TIMEOUT_MS });
     this.apiKey = '';
     this.accessToken = '';
   }
 
   /**
-   * Initialize ticker with API credentials
-   * Only creates a new ticker if not already initialized or credentials changed
+   * Set API credentials
+   * Reconnects with the new credentials if they changed while a connection is open
    */
   initialize(apiKey: string, accessToken: string) {
-    // If already initialized with same credentials, skip
-    if (this.ticker && this.apiKey === apiKey && this.accessToken === accessToken) {
-      console.log('Ticker already initialized with same credentials, reusing');
+    if (this.apiKey === apiKey && this.accessToken === accessToken) {
       return;
     }
 
-    // If credentials changed, disconnect old ticker first
-    if (this.ticker && this.isConnected) {
-      console.log('Credentials changed, disconnecting old ticker');
-      this.ticker.disconnect();
-    }
-
     this.apiKey = apiKey;
     this.accessToken = accessToken;
-
-    this.ticker = new KiteTicker({
-      api_key: this.apiKey,
-      access_token: this.accessToken,
-    });
-
-    this.isConnected = false;
-    this.setupEventHandlers();
+    this.restart();
   }
 
   /**
-   * Setup WebSocket event handlers
+   * Kite instrument tokens from the instrument master
+   * Symbols are "EXCHANGE:SYMBOL" or bare, as the instrument master looks them up
    */
-  private setupEventHandlers() {
-    // Connection opened
-    this.ticker.on('connect', () => {
-      console.log('WebSocket connected to Zerodha');
-      this.isConnected = true;
-      this.emit('connected');
-
-      // Resubscribe to previously subscribed tokens
-      if (this.subscribedTokens.size > 0) {
-        const tokens = Array.from(this.subscribedTokens);
-        this.ticker.subscribe(tokens);
-        this.ticker.setMode(this.ticker.modeFull, tokens);
-      }
-    });
-
-    // Ticks received
-    this.ticker.on('ticks', (ticks: TickData[]) => {
-      this.emit('ticks', ticks);
-
-      // Emit individual tick events for each instrument
-      ticks.forEach((tick) => {
-        this.emit(`tick:${tick.instrument_token}`, tick);
-      });
-    });
-
-    // Order updates
-    this.ticker.on('order_update', (order: OrderUpdate) => {
-      console.log('Order update received:', order);
-      this.emit('order_update', order);
-    });
-
-    // Connection closed
-    this.ticker.on('disconnect', (error: any) => {
-      console.log('WebSocket disconnected:', error);
-      this.isConnected = false;
-      this.emit('disconnected', error);
-    });
-
-    // Error occurred
-    this.ticker.on('error', (error: any) => {
-      console.error('WebSocket error:', error);
-      this.emit('error', error);
-    });
-
-    // Connection closed
-    this.ticker.on('close', (code: number, reason: string) => {
-      console.log('WebSocket closed:', code, reason);
-      this.isConnected = false;
-      this.emit('closed', { code, reason });
-    });
-
-    // Reconnecting
-    this.ticker.on('reconnect', (reconnect_count: number, reconnect_interval: number) => {
-      console.log(`Reconnecting... (attempt ${reconnect_count}, interval ${reconnect_interval}ms)`);
-      this.emit('reconnecting', { reconnect_count, reconnect_interval });
-    });
-
-    // No reconnect
-    this.ticker.on('noreconnect', () => {
-      console.log('No more reconnection attempts');
-      this.emit('no_reconnect');
-    });
-  }
-
-  /**
-   * Connect to WebSocket
-   */
-  connect() {
-    if (!this.ticker) {
-      throw new Error('Ticker not initialized. Call initialize() first.');
+  protected async lookupTokens(symbols: string[]): Promise<Map<string, number>> {
+    const resolved = new Map<string, number>();
+    if (!(await loadInstruments('zerodha'))) {
+      this.recordError('Failed to load Zerodha instruments');
+      return resolved;
     }
 
-    if (this.isConnected) {
-      console.log('Already connected');
-      return;
+    for (const symbol of symbols) {
+      const token = Number(findInstrument(symbol)?.brokers.zerodha?.token);
+      if (token) {
+        resolved.set(symbol, token);
+      }
     }
-
-    this.ticker.connect();
+    return resolved;
   }
 
-  /**
-   * Disconnect from WebSocket
-   */
-  disconnect() {
-    if (this.ticker && this.isConnected) {
-      this.ticker.disconnect();
-      this.isConnected = false;
-    }
+  protected hasCredentials(): boolean {
+    return !!this.apiKey && !!this.accessToken;
   }
 
-  /**
-   * Subscribe to instrument tokens
-   */
-  subscribe(tokens: number[]) {
-    if (!this.ticker) {
-      throw new Error('Ticker not initialized');
-    }
-
-    tokens.forEach((token) => this.subscribedTokens.add(token));
-
-    if (this.isConnected) {
-      this.ticker.subscribe(tokens);
-      // Set mode to full for detailed data
-      this.ticker.setMode(this.ticker.modeFull, tokens);
-    }
+  protected openSocket(): WebSocket {
+    const url = `${KITE_TICKER_URL}?api_key=${encodeURIComponent(this.apiKey)}&access_token=${encodeURIComponent(this.accessToken)}`;
+    return new WebSocket(url, { headers: { 'X-Kite-Version': '3' } });
   }
 
-  /**
-   * Unsubscribe from instrument tokens
-   */
-  unsubscribe(tokens: number[]) {
-    if (!this.ticker) {
-      throw new Error('Ticker not initialized');
+  protected handleMessage(data: Buffer, isBinary: boolean) {
+    if (isBinary) {
+      this.emitTicks(parseKiteBinary(data)); // empty for heartbeats
+      return;
     }
 
-    tokens.forEach((token) => this.subscribedTokens.delete(token));
-
-    if (this.isConnected) {
-      this.ticker.unsubscribe(tokens);
+    const message = parseKiteTextMessage(data.toString('utf8'));
+    if (message?.type === 'order') {
+      this.emit('order_update', message.data);
+    } else if (message?.type === 'error') {
+      this.recordError(message.message);
     }
   }
 
-  /**
-   * Get connection status
-   */
-  getConnectionStatus(): boolean {
-    return this.isConnected;
+  protected sendSubscribe(tokens: number[], mode: TickMode) {
+    this.socket?.send(kiteSubscribeMessage(tokens));
+    this.socket?.send(kiteModeMessage(mode, tokens));
   }
 
-  /**
-   * Get subscribed tokens
-   */
-  getSubscribedTokens(): number[] {
-    return Array.from(this.subscribedTokens);
+  protected sendUnsubscribe(tokens: number[]) {
+    this.socket?.send(kiteUnsubscribeMessage(tokens));
   }
-}
-
-// Singleton instance
-let tickerServiceInstance: TickerService | null = null;
 
-export function getTickerService(): TickerService {
-  if (!tickerServiceInstance) {
-    tickerServiceInstance = new TickerService();
+  protected describeAuthRejection(): string {
+    return 'Kite rejected the access token; log in to Zerodha again';
   }
-  return tickerServiceInstance;
 }
 
 export default TickerService;
@@ -345,6 +345,36 @@ export async function getMargins(accessToken: string): Promise<any> {
   }
 }
 
+/**
+ * Get full market quotes
+ * Instruments in EXCHANGE:TRADINGSYMBOL format (e.g., NSE:INFY)
+ */
+export async function getQuote(accessToken: string, instruments: string[]): Promise<Record<string, any>> {
+  try {
+    const params = new URLSearchParams();
+    instruments.forEach((instrument) => params.append('i', instrument));
+
+    const response = await fetch(`${ZERODHA_BASE_URL}/quote?${params.toString()}`, {
+      method: 'GET',
+      headers: {
+        'X-Kite-Version': '3',
+        'Authorization': `token ${accessToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to fetch quotes');
+    }
+
+    const data = await response.json();
+    return data.data || {};
+  } catch (error) {
+    console.error('Get quote error:', error);
+    throw error;
+  }
+}
+
 /**
  * Close position by placing counter order
  */